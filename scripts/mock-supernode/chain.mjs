@@ -0,0 +1,260 @@
+// scripts/mock-supernode/chain.mjs
+
+import crypto from "node:crypto";
+
+import { sha3Hex } from "./hashing.mjs";
+import {
+  addressForScript,
+  addressVersion,
+  scriptForAddress,
+} from "./pastel.mjs";
+
+export const PATOSHIS_PER_PSL = 100000;
+const GENESIS_HEIGHT = 900000;
+
+function readCompactSize(buffer, offset) {
+  const first = buffer[offset];
+  if (first < 0xfd) return [first, offset + 1];
+  if (first === 0xfd) return [buffer.readUInt16LE(offset + 1), offset + 3];
+  if (first === 0xfe) return [buffer.readUInt32LE(offset + 1), offset + 5];
+  return [Number(buffer.readBigUInt64LE(offset + 1)), offset + 9];
+}
+
+/**
+ * Reads the transparent inputs and outputs of a serialized (overwintered)
+ * transaction; shielded parts are ignored.
+ */
+function parseTransparentTransaction(hex) {
+  const buffer = Buffer.from(hex, "hex");
+  let offset = 0;
+  const header = buffer.readUInt32LE(offset);
+  offset += 4;
+  if (header & 0x80000000) offset += 4; // nVersionGroupId
+  const inputs = [];
+  const outputs = [];
+  let count;
+  [count, offset] = readCompactSize(buffer, offset);
+  for (let i = 0; i < count; i++) {
+    const txid = Buffer.from(buffer.subarray(offset, offset + 32))
+      .reverse()
+      .toString("hex");
+    const outputIndex = buffer.readUInt32LE(offset + 32);
+    let scriptLength;
+    [scriptLength, offset] = readCompactSize(buffer, offset + 36);
+    offset += scriptLength + 4;
+    inputs.push({ txid, outputIndex });
+  }
+  [count, offset] = readCompactSize(buffer, offset);
+  for (let i = 0; i < count; i++) {
+    const patoshis = Number(buffer.readBigInt64LE(offset));
+    let scriptLength;
+    [scriptLength, offset] = readCompactSize(buffer, offset + 8);
+    const script = buffer.subarray(offset, offset + scriptLength).toString("hex");
+    offset += scriptLength;
+    outputs.push({ patoshis, script });
+  }
+  return { inputs, outputs };
+}
+
+function computeTxid(hex) {
+  const once = crypto.createHash("sha256").update(Buffer.from(hex, "hex")).digest();
+  return crypto.createHash("sha256").update(once).digest().reverse().toString("hex");
+}
+
+/**
+ * In-memory chain for the mock opennode: blocks are produced on a timer,
+ * every address is funded with one UTXO the first time it is looked up, and
+ * broadcast transactions are mined into the current block right away.
+ */
+export class MockChain {
+  constructor({ fundingInPSL }) {
+    this.height = GENESIS_HEIGHT;
+    this.fundingInPatoshis = Math.round(fundingInPSL * PATOSHIS_PER_PSL);
+    this.fundedScripts = new Set();
+    this.utxos = new Map();
+    this.history = new Map();
+    this.transactions = new Map();
+    this.addressVersion = null;
+  }
+
+  mine(count = 1) {
+    this.height += count;
+    return this.height;
+  }
+
+  blockHash(height) {
+    return sha3Hex(`mock-block:${height}`);
+  }
+
+  merkleRoot(height) {
+    return sha3Hex(`mock-merkle-root:${height}`);
+  }
+
+  heightOfBlockHash(blockHash) {
+    for (let height = this.height; height > GENESIS_HEIGHT - 200; height--) {
+      if (this.blockHash(height) === blockHash) return height;
+    }
+    return null;
+  }
+
+  block(height) {
+    const blockHash = this.blockHash(height);
+    return {
+      hash: blockHash,
+      confirmations: this.height - height + 1,
+      height,
+      version: 4,
+      merkleroot: this.merkleRoot(height),
+      time: Math.floor(Date.now() / 1000) - (this.height - height) * 150,
+      tx: Array.from(this.transactions.values())
+        .filter((tx) => tx.height === height)
+        .map((tx) => tx.txid),
+      previousblockhash: this.blockHash(height - 1),
+      ...(height < this.height
+        ? { nextblockhash: this.blockHash(height + 1) }
+        : {}),
+    };
+  }
+
+  recordHistory(script, txid, patoshis, height) {
+    if (!this.history.has(script)) this.history.set(script, []);
+    this.history.get(script).push({ txid, satoshis: patoshis, height });
+  }
+
+  addUtxo(txid, outputIndex, script, patoshis, height) {
+    this.utxos.set(`${txid}:${outputIndex}`, {
+      txid,
+      outputIndex,
+      script,
+      patoshis,
+      height,
+    });
+  }
+
+  fund(address) {
+    const script = scriptForAddress(address);
+    this.addressVersion = this.addressVersion || addressVersion(address);
+    if (this.fundedScripts.has(script) || this.fundingInPatoshis <= 0) {
+      return script;
+    }
+    this.fundedScripts.add(script);
+    const txid = sha3Hex(`mock-funding:${address}`);
+    const height = GENESIS_HEIGHT - 100;
+    this.addUtxo(txid, 0, script, this.fundingInPatoshis, height);
+    this.recordHistory(script, txid, this.fundingInPatoshis, height);
+    this.transactions.set(txid, { txid, hex: "", height });
+    return script;
+  }
+
+  getUtxos(address) {
+    const script = this.fund(address);
+    return Array.from(this.utxos.values())
+      .filter((utxo) => utxo.script === script)
+      .map((utxo) => ({ address, ...utxo }));
+  }
+
+  getBalance(address) {
+    const utxos = this.getUtxos(address);
+    const received = (this.history.get(scriptForAddress(address)) || [])
+      .filter((entry) => entry.satoshis > 0)
+      .reduce((sum, entry) => sum + entry.satoshis, 0);
+    return {
+      balance: utxos.reduce((sum, utxo) => sum + utxo.patoshis, 0),
+      received,
+    };
+  }
+
+  getHistory(address) {
+    const script = this.fund(address);
+    return (this.history.get(script) || []).map((entry) => ({
+      address,
+      ...entry,
+    }));
+  }
+
+  /**
+   * Accepts a raw transaction, spending its inputs and adding its outputs to
+   * the UTXO set. Returns the txid.
+   */
+  broadcast(hex) {
+    const txid = computeTxid(hex);
+    if (this.transactions.has(txid)) return txid;
+    const { inputs, outputs } = parseTransparentTransaction(hex);
+    const deltas = new Map();
+    for (const input of inputs) {
+      const key = `${input.txid}:${input.outputIndex}`;
+      const spent = this.utxos.get(key);
+      if (!spent) {
+        throw new Error(`Input ${key} is missing or already spent`);
+      }
+      this.utxos.delete(key);
+      deltas.set(spent.script, (deltas.get(spent.script) || 0) - spent.patoshis);
+    }
+    outputs.forEach((output, index) => {
+      this.addUtxo(txid, index, output.script, output.patoshis, this.height);
+      deltas.set(
+        output.script,
+        (deltas.get(output.script) || 0) + output.patoshis
+      );
+    });
+    for (const [script, patoshis] of deltas) {
+      this.recordHistory(script, txid, patoshis, this.height);
+    }
+    this.transactions.set(txid, { txid, hex, height: this.height });
+    return txid;
+  }
+
+  /**
+   * Decodes the transparent parts of a raw transaction in the shape of the
+   * node's decoderawtransaction.
+   */
+  decode(hex) {
+    const { inputs, outputs } = parseTransparentTransaction(hex);
+    return {
+      txid: computeTxid(hex),
+      version: Buffer.from(hex, "hex").readUInt32LE(0) & 0x7fffffff,
+      locktime: 0,
+      size: hex.length / 2,
+      vin: inputs.map((input) => ({
+        txid: input.txid,
+        vout: input.outputIndex,
+        scriptSig: { asm: "", hex: "" },
+        sequence: 0xffffffff,
+      })),
+      vout: outputs.map((output, index) => {
+        const address = this.addressVersion
+          ? addressForScript(output.script, this.addressVersion)
+          : null;
+        return {
+          value: output.patoshis / PATOSHIS_PER_PSL,
+          valuePat: output.patoshis,
+          n: index,
+          scriptPubKey: {
+            asm: "",
+            hex: output.script,
+            reqSigs: 1,
+            type: address ? "pubkeyhash" : "nonstandard",
+            addresses: address ? [address] : [],
+          },
+        };
+      }),
+    };
+  }
+
+  /**
+   * Registers a transaction that has no raw form, such as a credit pack
+   * registration ticket.
+   */
+  registerTicket(txid) {
+    this.transactions.set(txid, { txid, hex: "", height: this.height });
+  }
+
+  getTransaction(txid) {
+    return this.transactions.get(txid) || null;
+  }
+
+  confirmations(txid) {
+    const tx = this.transactions.get(txid);
+    return tx ? this.height - tx.height + 1 : 0;
+  }
+}
@@ -0,0 +1,126 @@
+// scripts/mock-supernode/hashing.mjs
+
+// Port of the message hashing in src/app/lib/utils.ts
+// (pythonCompatibleStringify and
+// extractResponseFieldsFromCreditPackTicketMessageDataAsJSON). Keep the two
+// in sync, or every mock message fails verification in the client.
+
+import jsSha3 from "js-sha3";
+
+const { sha3_256 } = jsSha3;
+
+const EXCLUDED_FIELDS = [
+  "id",
+  "_changed",
+  "_options",
+  "_previousDataValues",
+  "dataValues",
+  "isNewRecord",
+  "uniqno",
+];
+
+function adjustJSONSpacing(jsonString) {
+  return jsonString.replace(/(?<!\d):(\s*)/g, ": ").replace(/,(\s*)/g, ", ");
+}
+
+function escapeJsonString(str) {
+  return str.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+export function pythonCompatibleStringify(obj) {
+  function sortObjectByKeys(unsortedObj) {
+    const priorityKeys = ["challenge", "challenge_id", "challenge_signature"];
+    return Object.keys(unsortedObj)
+      .sort((a, b) => {
+        const aPriority = priorityKeys.indexOf(a);
+        const bPriority = priorityKeys.indexOf(b);
+        if (aPriority !== -1 && bPriority !== -1) {
+          return aPriority - bPriority;
+        }
+        if (aPriority !== -1) return 1;
+        if (bPriority !== -1) return -1;
+        return a.localeCompare(b);
+      })
+      .reduce((acc, key) => {
+        const value = unsortedObj[key];
+        if (
+          typeof value === "object" &&
+          value !== null &&
+          !(value instanceof Date)
+        ) {
+          acc[key] = Array.isArray(value)
+            ? value.map((item) => sortObjectByKeys(item))
+            : sortObjectByKeys(value);
+        } else {
+          acc[key] = value;
+        }
+        return acc;
+      }, {});
+  }
+
+  function customReplacer(_key, value) {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === "object" && value !== null) {
+      return sortObjectByKeys(value);
+    }
+    if (
+      typeof value === "string" &&
+      value.startsWith("{") &&
+      value.endsWith("}")
+    ) {
+      return escapeJsonString(value);
+    }
+    return value;
+  }
+
+  let jsonString = JSON.stringify(sortObjectByKeys(obj), customReplacer);
+  jsonString = jsonString.replace(/"(true|false)"/g, "$1");
+  return adjustJSONSpacing(jsonString);
+}
+
+function extractResponseFieldsAsJSON(message) {
+  let lastHashFieldName = null;
+  const signatureFieldNames = [];
+  for (const fieldName in message) {
+    if (fieldName.startsWith("sha3_256_hash_of")) {
+      lastHashFieldName = fieldName;
+    } else if (fieldName.includes("_signature_on_")) {
+      signatureFieldNames.push(fieldName);
+    }
+  }
+  const excluded = [
+    lastHashFieldName,
+    signatureFieldNames[signatureFieldNames.length - 1],
+    ...EXCLUDED_FIELDS,
+  ];
+  const responseFields = {};
+  for (const fieldName of Object.keys(message).sort()) {
+    if (excluded.includes(fieldName)) continue;
+    const fieldValue = message[fieldName];
+    if (fieldValue instanceof Date) {
+      responseFields[fieldName] = fieldValue.toISOString();
+    } else if (typeof fieldValue === "boolean") {
+      responseFields[fieldName] = fieldValue ? 1 : 0;
+    } else if (typeof fieldValue === "object" && fieldValue !== null) {
+      responseFields[fieldName] = pythonCompatibleStringify(fieldValue);
+    } else {
+      responseFields[fieldName] =
+        typeof fieldValue === "number" ? fieldValue : String(fieldValue);
+    }
+  }
+  return pythonCompatibleStringify(responseFields);
+}
+
+/**
+ * Hash of a message's fields, as stored in its own
+ * `sha3_256_hash_of_*_fields` field (which must be the last hash field).
+ */
+export function computeMessageHash(message) {
+  return sha3_256(extractResponseFieldsAsJSON(message));
+}
+
+export function sha3Hex(data) {
+  return sha3_256(data);
+}
@@ -0,0 +1,129 @@
+// scripts/mock-supernode/http.mjs
+
+import http from "node:http";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Accept",
+};
+
+export class HttpError extends Error {
+  constructor(status, detail) {
+    super(detail);
+    this.status = status;
+  }
+}
+
+export function sendJson(res, status, body) {
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json",
+  });
+  res.end(JSON.stringify(body));
+}
+
+export function startEventStream(res) {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+  });
+}
+
+async function readJsonBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString("utf8");
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a server for one mock node. Routes are keyed by the first path
+ * segment and receive {req, res, url, params, body, rule}; a route returns
+ * the JSON body to send, or undefined when it wrote the response itself.
+ * Scenario rules for timeouts, delays and HTTP errors are applied here; the
+ * routes apply the message level ones (bad signatures, signed rejections).
+ */
+export function createMockServer({
+  name,
+  nodeKey,
+  scenario,
+  routes,
+  rejectableEndpoints = [],
+  log,
+}) {
+  return http.createServer(async (req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    const url = new URL(req.url, "http://localhost");
+    const [endpoint = "", ...params] = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    const route = routes[endpoint];
+    if (!route) {
+      sendJson(res, 404, { detail: "Not Found" });
+      return;
+    }
+
+    const rule = endpoint.startsWith("__mock")
+      ? null
+      : scenario().match(nodeKey, endpoint);
+    if (rule) {
+      log(`${name} ${endpoint}: applying scenario rule ${rule.action}`);
+    }
+    try {
+      if (rule?.action === "timeout") {
+        // Hold the connection open until the client gives up
+        return;
+      }
+      if (rule?.action === "delay") {
+        await sleep(rule.ms ?? 5000);
+      }
+      if (rule?.action === "http_error") {
+        throw new HttpError(
+          rule.status ?? 500,
+          rule.reason ?? "Injected failure"
+        );
+      }
+      // Endpoints without a signed rejection message reject with an HTTP error
+      if (
+        rule?.action === "reject" &&
+        !rejectableEndpoints.includes(endpoint)
+      ) {
+        throw new HttpError(
+          rule.status ?? 400,
+          rule.reason ?? "Request rejected by scenario"
+        );
+      }
+      const body = req.method === "POST" || req.method === "PUT"
+        ? await readJsonBody(req)
+        : {};
+      const result = await route({ req, res, url, params, body, rule });
+      if (result !== undefined) {
+        sendJson(res, 200, result);
+      }
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) {
+        log(`${name} ${endpoint} failed: ${error.stack || error}`);
+      }
+      if (!res.headersSent) {
+        sendJson(res, status, { detail: error.message });
+      } else {
+        res.end();
+      }
+    }
+  });
+}
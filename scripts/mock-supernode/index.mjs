@@ -0,0 +1,138 @@
+// scripts/mock-supernode/index.mjs
+//
+// Runs a local mock Pastel network: one mock supernode per loopback address
+// (127.0.0.N:7123, the port the client always uses for supernodes) and a mock
+// opennode that serves the chain, the supernode list and the market price.
+//
+//   yarn mock:supernode [--scenario <name|file.json>] [--opennode-port 7124]
+//   yarn mock:supernode --list
+
+import { createMockServer } from "./http.mjs";
+import { MockNetwork, SUPERNODE_PORT } from "./network.mjs";
+import { createOpennodeRoutes } from "./opennode.mjs";
+import { listScenarios, loadScenario } from "./scenario.mjs";
+import {
+  REJECTABLE_ENDPOINTS,
+  createSupernodeRoutes,
+  seedCreditPack,
+} from "./supernode.mjs";
+
+const DEFAULT_OPENNODE_PORT = 7124;
+
+function parseArgs(argv) {
+  const args = { scenario: "default", opennodePort: DEFAULT_OPENNODE_PORT };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--scenario":
+        args.scenario = argv[++i];
+        break;
+      case "--opennode-port":
+        args.opennodePort = Number(argv[++i]);
+        break;
+      case "--list":
+        args.list = true;
+        break;
+      default:
+        throw new Error(`Unknown argument ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+function log(message) {
+  console.log(`[${new Date().toISOString()}] ${message}`);
+}
+
+function listen(server, port, host) {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (args.list) {
+    console.log(listScenarios().join("\n"));
+    return;
+  }
+
+  const network = await MockNetwork.create(loadScenario(args.scenario), log);
+  for (const seed of network.scenario.settings.credit_packs) {
+    seedCreditPack(network, seed);
+  }
+
+  const servers = [];
+  for (const node of network.supernodes) {
+    const server = createMockServer({
+      name: `supernode ${node.number}`,
+      nodeKey: node.number,
+      scenario: () => network.scenario,
+      routes: createSupernodeRoutes(network, node),
+      rejectableEndpoints: REJECTABLE_ENDPOINTS,
+      log,
+    });
+    try {
+      await listen(server, SUPERNODE_PORT, node.ip);
+    } catch (error) {
+      if (error.code === "EADDRNOTAVAIL") {
+        throw new Error(
+          `${node.ip} is not a local address. On macOS add the loopback aliases first: ` +
+            `for i in $(seq 2 ${network.supernodes.length}); do sudo ifconfig lo0 alias 127.0.0.$i up; done`
+        );
+      }
+      throw error;
+    }
+    servers.push(server);
+  }
+
+  const opennode = createMockServer({
+    name: "opennode",
+    nodeKey: "opennode",
+    scenario: () => network.scenario,
+    routes: createOpennodeRoutes(network),
+    log,
+  });
+  await listen(opennode, args.opennodePort, "127.0.0.1");
+  servers.push(opennode);
+
+  const blockTimer = setInterval(() => {
+    network.chain.mine();
+  }, network.scenario.settings.block_interval_seconds * 1000);
+  blockTimer.unref();
+
+  const opennodeURL = `http://127.0.0.1:${args.opennodePort}`;
+  log(`Scenario: ${network.scenario.name}`);
+  for (const node of network.supernodes) {
+    log(`Supernode ${node.number}: http://${node.ip}:${SUPERNODE_PORT} ${node.pastelid}`);
+  }
+  for (const creditPack of network.creditPacks.values()) {
+    log(
+      `Seeded credit pack ${creditPack.registration_txid} (${creditPack.balance} credits)`
+    );
+  }
+  log(`Opennode: ${opennodeURL}`);
+  log(
+    `Start the app with NEXT_PUBLIC_OPENNODE_API_URL=${opennodeURL} NEXT_PUBLIC_PSL_PRICE_API_URL=${opennodeURL}`
+  );
+
+  const shutdown = () => {
+    log("Shutting down the mock network");
+    clearInterval(blockTimer);
+    for (const server of servers) {
+      server.closeAllConnections();
+      server.close();
+    }
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  // Servers that did start would keep the process alive
+  process.exit(1);
+});
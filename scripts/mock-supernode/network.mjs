@@ -0,0 +1,349 @@
+// scripts/mock-supernode/network.mjs
+
+import crypto from "node:crypto";
+
+import { MockChain } from "./chain.mjs";
+import { computeMessageHash, sha3Hex } from "./hashing.mjs";
+import { HttpError } from "./http.mjs";
+import { MockWallet } from "./pastel.mjs";
+
+export const SUPERNODE_PORT = 7123;
+const CHALLENGE_LIFETIME_MS = 5 * 60 * 1000;
+const TARGET_VALUE_PER_CREDIT_IN_USD = 0.01;
+const TARGET_PROFIT_MARGIN = 0.15;
+export const EMBEDDED_SIGNATURE_FIELD =
+  "supernode_pastelid_and_signature_on_inference_request_response_hash";
+
+export const MODEL_MENU = {
+  models: [
+    {
+      model_name: "mock-text-small",
+      supported_inference_type_strings: ["text_completion"],
+      model_parameters: [
+        {
+          name: "number_of_tokens_to_generate",
+          description: "Maximum number of tokens to generate",
+          type: "int",
+          default: 1000,
+          inference_types_parameter_applies_to: ["text_completion"],
+        },
+        {
+          name: "temperature",
+          description: "Sampling temperature",
+          type: "float",
+          default: 0.7,
+          inference_types_parameter_applies_to: ["text_completion"],
+        },
+        {
+          name: "number_of_completions_to_generate",
+          description: "Number of completions to generate",
+          type: "int",
+          default: 1,
+          inference_types_parameter_applies_to: ["text_completion"],
+        },
+      ],
+    },
+    {
+      model_name: "mock-vision",
+      supported_inference_type_strings: [
+        "text_completion",
+        "ask_question_about_an_image",
+      ],
+      model_parameters: [
+        {
+          name: "number_of_tokens_to_generate",
+          description: "Maximum number of tokens to generate",
+          type: "int",
+          default: 500,
+          inference_types_parameter_applies_to: [
+            "text_completion",
+            "ask_question_about_an_image",
+          ],
+        },
+      ],
+    },
+    {
+      model_name: "mock-image",
+      supported_inference_type_strings: ["text_to_image"],
+      model_parameters: [
+        {
+          name: "aspect_ratio",
+          description: "Aspect ratio of the generated image",
+          type: "string",
+          default: "1:1",
+          inference_types_parameter_applies_to: ["text_to_image"],
+          options: ["1:1", "16:9", "9:16"],
+        },
+        {
+          name: "style_preset",
+          description: "Style of the generated image",
+          type: "string",
+          default: "photographic",
+          inference_types_parameter_applies_to: ["text_to_image"],
+        },
+      ],
+    },
+    {
+      model_name: "mock-embedding",
+      supported_inference_type_strings: [
+        "embedding_document",
+        "embedding_audio",
+      ],
+      model_parameters: [],
+    },
+  ],
+};
+
+const MODEL_CREDIT_COSTS = {
+  text_completion: 2,
+  ask_question_about_an_image: 4,
+  text_to_image: 10,
+  embedding_document: 3,
+  embedding_audio: 3,
+};
+
+/**
+ * Shared state of all mock supernodes and the mock opennode, so that any
+ * node can answer for a credit pack or an inference request handled by
+ * another one, as auditors and storage retries require.
+ */
+export class MockNetwork {
+  constructor(wallet, scenario, log) {
+    this.wallet = wallet;
+    this.scenario = scenario;
+    this.log = log;
+    this.chain = new MockChain({
+      fundingInPSL: scenario.settings.address_balance_in_psl,
+    });
+    this.supernodes = [];
+    this.challenges = new Map();
+    this.purchases = new Map();
+    this.creditPacks = new Map();
+    this.inferences = new Map();
+    this.userMessages = [];
+    // Signs in place of a supernode to produce bad signatures
+    this.impostorPastelID = wallet.makeNewPastelID();
+    // Buys the credit packs seeded by the scenario
+    this.buyerPastelID = wallet.makeNewPastelID();
+  }
+
+  static async create(scenario, log) {
+    const network = new MockNetwork(await MockWallet.create(), scenario, log);
+    for (let number = 1; number <= scenario.settings.supernodes; number++) {
+      network.supernodes.push({
+        number,
+        ip: `127.0.0.${number}`,
+        pastelid: network.wallet.makeNewPastelID(),
+        psl_address: network.wallet.makeNewAddress(),
+        txid_vout: `${sha3Hex(`mock-collateral:${number}`)}-0`,
+      });
+    }
+    return network;
+  }
+
+  get blockHeight() {
+    return this.chain.height;
+  }
+
+  supernodeByPastelID(pastelID) {
+    return this.supernodes.find((node) => node.pastelid === pastelID) || null;
+  }
+
+  timestamp() {
+    return new Date().toISOString();
+  }
+
+  pricePerCreditInPSL() {
+    const costPerCreditInUSD =
+      TARGET_VALUE_PER_CREDIT_IN_USD / (1 - TARGET_PROFIT_MARGIN);
+    return (
+      Math.round(
+        (costPerCreditInUSD / this.scenario.settings.psl_price_in_usd) * 100
+      ) / 100
+    );
+  }
+
+  creditCost(inferenceType, inputDataB64) {
+    const base = MODEL_CREDIT_COSTS[inferenceType] ?? 1;
+    // Larger inputs cost a little more, like token based pricing
+    return Math.round((base + inputDataB64.length / 4000) * 100) / 100;
+  }
+
+  issueChallenge(pastelID) {
+    const challenge = {
+      challenge: crypto.randomBytes(32).toString("hex"),
+      challenge_id: crypto.randomUUID(),
+      pastelid: pastelID,
+      expires_at: Date.now() + CHALLENGE_LIFETIME_MS,
+    };
+    this.challenges.set(challenge.challenge_id, challenge);
+    return challenge;
+  }
+
+  /**
+   * Checks and consumes a signed challenge; returns the PastelID it was
+   * issued to.
+   */
+  redeemChallenge({ challenge, challenge_id, challenge_signature }) {
+    const issued = this.challenges.get(challenge_id);
+    this.challenges.delete(challenge_id);
+    if (
+      !issued ||
+      issued.challenge !== challenge ||
+      issued.expires_at < Date.now() ||
+      !challenge_signature ||
+      !this.wallet.verify(issued.pastelid, challenge, challenge_signature)
+    ) {
+      throw new HttpError(401, "Invalid or expired challenge");
+    }
+    return issued.pastelid;
+  }
+
+  /**
+   * Fills in the message's own hash and its signature, applying the
+   * bad_hash and bad_signature scenario actions.
+   */
+  seal(signerPastelID, message, rule = null) {
+    const fieldNames = Object.keys(message);
+    const hashField = fieldNames.filter(
+      (name) => name.startsWith("sha3_256_hash_of_") && name.endsWith("_fields")
+    ).pop();
+    const signatureField = fieldNames
+      .filter((name) => name.includes("_signature_on_"))
+      .pop();
+    message[hashField] = computeMessageHash(message);
+    if (rule?.action === "bad_hash") {
+      message[hashField] = sha3Hex(`tampered:${message[hashField]}`);
+    }
+    const signingPastelID =
+      rule?.action === "bad_signature" ? this.impostorPastelID : signerPastelID;
+    if (signatureField === EMBEDDED_SIGNATURE_FIELD) {
+      message[signatureField] = JSON.stringify({
+        signing_sn_pastelid: signerPastelID,
+        sn_signature_on_response_hash: this.wallet.sign(
+          signingPastelID,
+          message[hashField]
+        ),
+      });
+    } else {
+      const signedSubject = signatureField.split("_signature_on_")[1];
+      const signedData =
+        signedSubject in message
+          ? String(message[signedSubject])
+          : message[hashField];
+      message[signatureField] = this.wallet.sign(signingPastelID, signedData);
+    }
+    return message;
+  }
+
+  /**
+   * Verifies the hash and the signature of a message signed by the client;
+   * throws a 400 error describing the first failed check. Messages that only
+   * sign a referenced hash (status checks) have no hash of their own.
+   */
+  verifyClientMessage(messageType, message, hasOwnHash = true) {
+    const fieldNames = Object.keys(message || {});
+    const hashField = fieldNames.filter(
+      (name) => name.startsWith("sha3_256_hash_of_") && name.endsWith("_fields")
+    ).pop();
+    const signatureField = fieldNames
+      .filter((name) => name.includes("_signature_on_"))
+      .pop();
+    if (!hashField || !signatureField) {
+      throw new HttpError(400, `${messageType} is missing its hash or signature`);
+    }
+    if (hasOwnHash && computeMessageHash(message) !== message[hashField]) {
+      throw new HttpError(400, `${messageType} hash does not match its fields`);
+    }
+    const [signerPrefix, signedSubject] =
+      signatureField.split("_signature_on_");
+    const signerField = signerPrefix.endsWith("_pastelid")
+      ? signerPrefix
+      : `${signerPrefix}_pastelid`;
+    const signedData =
+      signedSubject in message
+        ? String(message[signedSubject])
+        : message[hashField];
+    if (
+      !this.wallet.verify(
+        message[signerField],
+        signedData,
+        message[signatureField]
+      )
+    ) {
+      throw new HttpError(400, `${messageType} signature failed verification`);
+    }
+  }
+
+  isAuthorizedForCreditPack(creditPack, pastelID) {
+    const authorized = JSON.parse(
+      creditPack.purchase.request
+        .list_of_authorized_pastelids_allowed_to_use_credit_pack
+    );
+    return (
+      authorized.includes(pastelID) ||
+      creditPack.purchase.request.requesting_end_user_pastelid === pastelID
+    );
+  }
+
+  findCreditPackByBurnTxid(burnTxid) {
+    for (const creditPack of this.creditPacks.values()) {
+      if (
+        creditPack.purchase.confirmation
+          .txid_of_credit_purchase_burn_transaction === burnTxid
+      ) {
+        return creditPack;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Registers the credit pack ticket of a confirmed purchase.
+   */
+  registerCreditPack(purchase) {
+    const existing = this.findCreditPackByBurnTxid(
+      purchase.confirmation.txid_of_credit_purchase_burn_transaction
+    );
+    if (existing) return existing;
+    const registrationTxid = sha3Hex(
+      `mock-credit-pack:${purchase.confirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields}`
+    );
+    this.chain.registerTicket(registrationTxid);
+    const creditPack = {
+      registration_txid: registrationTxid,
+      purchase,
+      balance: purchase.request.requested_initial_credits_in_credit_pack,
+      number_of_confirmation_transactions: 0,
+    };
+    this.creditPacks.set(registrationTxid, creditPack);
+    this.log(
+      `Registered credit pack ${registrationTxid} with ${creditPack.balance} credits`
+    );
+    return creditPack;
+  }
+
+  validCreditPackTicket(creditPack) {
+    const { request, response, confirmation } = creditPack.purchase;
+    return {
+      credit_pack_registration_txid: creditPack.registration_txid,
+      credit_purchase_request_confirmation_pastel_block_height:
+        confirmation.credit_purchase_request_confirmation_pastel_block_height,
+      requesting_end_user_pastelid: request.requesting_end_user_pastelid,
+      ticket_input_data_fully_parsed_sha3_256_hash: sha3Hex(
+        JSON.stringify({ request, response, confirmation })
+      ),
+      txid_of_credit_purchase_burn_transaction:
+        confirmation.txid_of_credit_purchase_burn_transaction,
+      credit_usage_tracking_psl_address:
+        request.credit_usage_tracking_psl_address,
+      psl_cost_per_credit: response.psl_cost_per_credit,
+      requested_initial_credits_in_credit_pack:
+        request.requested_initial_credits_in_credit_pack,
+      credit_pack_current_credit_balance: creditPack.balance,
+      balance_as_of_datetime: this.timestamp(),
+      number_of_confirmation_transactions:
+        creditPack.number_of_confirmation_transactions,
+    };
+  }
+}
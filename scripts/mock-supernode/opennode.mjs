@@ -0,0 +1,214 @@
+// scripts/mock-supernode/opennode.mjs
+
+import { PATOSHIS_PER_PSL } from "./chain.mjs";
+import { HttpError } from "./http.mjs";
+import { scriptForAddress } from "./pastel.mjs";
+import { Scenario } from "./scenario.mjs";
+
+const MOCK_FEE_PER_KB_IN_PSL = 0.0001;
+
+function addressesFromQuery(url) {
+  const addresses = (url.searchParams.get("addresses") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+  if (!addresses.length) throw new HttpError(400, "addresses is required");
+  return addresses;
+}
+
+function parseHeight(value) {
+  const height = Number(value);
+  if (!Number.isInteger(height)) {
+    throw new HttpError(400, `Invalid block height ${value}`);
+  }
+  return height;
+}
+
+function validateAddress(address) {
+  const isValid = typeof address === "string" && /^(P|t)[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
+  return {
+    isvalid: isValid,
+    ...(isValid ? { address, scriptPubKey: scriptForAddress(address) } : {}),
+  };
+}
+
+/**
+ * Routes of the mock opennode: the subset of the opennode FastAPI used by the
+ * client, the market price endpoints and the control API (`__mock/...`) for
+ * changing the scenario of a running mock network.
+ */
+export function createOpennodeRoutes(network) {
+  const chain = network.chain;
+
+  const supernodeData = () => {
+    const data = {};
+    for (const node of network.supernodes) {
+      data[node.txid_vout] = {
+        supernode_status: "ENABLED",
+        protocol_version: "170010",
+        supernode_psl_address: node.psl_address,
+        lastseentime: Math.floor(Date.now() / 1000),
+        activeseconds: 86400 * 30,
+        lastpaidtime: Math.floor(Date.now() / 1000) - 3600,
+        lastpaidblock: chain.height - 10,
+        "ipaddress:port": `${node.ip}:9933`,
+        rank: node.number,
+        pubkey: node.psl_address,
+        extAddress: `${node.ip}:9933`,
+        extP2P: `${node.ip}:14445`,
+        extKey: node.pastelid,
+        activedays: 30,
+      };
+    }
+    return JSON.stringify(data);
+  };
+
+  return {
+    getblockcount: () => chain.height,
+
+    getbestblockhash: () => chain.blockHash(chain.height),
+
+    getblockhash: ({ params: [height] }) => {
+      const blockHeight = parseHeight(height);
+      if (blockHeight > chain.height) {
+        throw new HttpError(400, "Block height out of range");
+      }
+      return chain.blockHash(blockHeight);
+    },
+
+    getblock: ({ params: [hashOrHeight] }) => {
+      const height = /^\d+$/.test(hashOrHeight)
+        ? parseHeight(hashOrHeight)
+        : chain.heightOfBlockHash(hashOrHeight);
+      if (height === null || height > chain.height) {
+        throw new HttpError(404, "Block not found");
+      }
+      return chain.block(height);
+    },
+
+    getblockchaininfo: () => ({
+      chain: "main",
+      blocks: chain.height,
+      headers: chain.height,
+      bestblockhash: chain.blockHash(chain.height),
+      difficulty: 1,
+      verificationprogress: 1,
+      chainwork: chain.height.toString(16).padStart(64, "0"),
+      pruned: false,
+    }),
+
+    supernode_data: supernodeData,
+
+    get_address_balance: ({ url }) =>
+      addressesFromQuery(url)
+        .map((address) => chain.getBalance(address))
+        .reduce(
+          (total, { balance, received }) => ({
+            balance: total.balance + balance,
+            received: total.received + received,
+          }),
+          { balance: 0, received: 0 }
+        ),
+
+    get_address_utxos: ({ url }) =>
+      addressesFromQuery(url).flatMap((address) => chain.getUtxos(address)),
+
+    get_address_txids: ({ url }) =>
+      addressesFromQuery(url).flatMap((address) =>
+        chain.getHistory(address).map((entry) => entry.txid)
+      ),
+
+    get_address_history: ({ params: [address] }) => chain.getHistory(address),
+
+    sendrawtransaction: ({ body }) => {
+      if (typeof body.hex_string !== "string" || !body.hex_string) {
+        throw new HttpError(400, "hex_string is required");
+      }
+      try {
+        const txid = chain.broadcast(body.hex_string);
+        network.log(`Accepted transaction ${txid} at height ${chain.height}`);
+        return { txid };
+      } catch (error) {
+        throw new HttpError(400, error.message);
+      }
+    },
+
+    decoderawtransaction: ({ params: [hex] }) => {
+      try {
+        return chain.decode(hex);
+      } catch (error) {
+        throw new HttpError(400, `Cannot decode transaction: ${error.message}`);
+      }
+    },
+
+    gettransactionconfirmations: ({ params: [txid] }) => {
+      const confirmations = chain.confirmations(txid);
+      return { confirmed: confirmations > 0, confirmations };
+    },
+
+    getrawtransaction: ({ params: [txid] }) => {
+      const tx = chain.getTransaction(txid);
+      if (!tx) throw new HttpError(404, `Transaction ${txid} not found`);
+      return tx.hex;
+    },
+
+    // Every PastelID is treated as registered
+    tickets: () => true,
+
+    estimatefee: () => MOCK_FEE_PER_KB_IN_PSL,
+
+    validateaddress: ({ params: [address] }) => validateAddress(address),
+
+    // cryptocompare: /data/price?fsym=PSL&tsyms=USD
+    data: () => ({ USD: network.scenario.settings.psl_price_in_usd }),
+
+    // coingecko: /api/v3/simple/price?ids=pastel&vs_currencies=usd
+    api: () => ({ pastel: { usd: network.scenario.settings.psl_price_in_usd } }),
+
+    __mock: ({ req, params: [resource], body }) => {
+      switch (`${req.method} ${resource}`) {
+        case "GET scenario":
+          return network.scenario.toJSON();
+        case "PUT scenario": {
+          // Settings that shape the network (supernode count, funding) only
+          // take effect on restart
+          const { supernodes, address_balance_in_psl, credit_packs } =
+            network.scenario.settings;
+          network.scenario = new Scenario(
+            { ...body, supernodes, address_balance_in_psl, credit_packs },
+            body.name || "custom"
+          );
+          network.log(`Scenario replaced with ${network.scenario.name}`);
+          return network.scenario.toJSON();
+        }
+        case "GET state":
+          return {
+            block_height: chain.height,
+            supernodes: network.supernodes,
+            credit_packs: Array.from(network.creditPacks.values()).map(
+              (creditPack) => network.validCreditPackTicket(creditPack)
+            ),
+            pending_purchases: network.purchases.size,
+            inferences: Array.from(network.inferences.entries()).map(
+              ([inferenceResponseID, inference]) => ({
+                inference_response_id: inferenceResponseID,
+                inference_request_id: inference.request.inference_request_id,
+                supernode: inference.node.number,
+                cost: inference.cost,
+                confirmed: inference.confirmed,
+              })
+            ),
+            transactions: chain.transactions.size,
+            psl_balance_per_funded_address:
+              chain.fundingInPatoshis / PATOSHIS_PER_PSL,
+          };
+        case "POST blocks": {
+          const count = Number.isInteger(body.count) ? body.count : 1;
+          return { block_height: chain.mine(count) };
+        }
+        default:
+          throw new HttpError(404, "Not Found");
+      }
+    },
+  };
+}
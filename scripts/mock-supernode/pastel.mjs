@@ -0,0 +1,160 @@
+// scripts/mock-supernode/pastel.mjs
+
+// Loads the same libpastel WASM build the browser uses, so mock supernodes
+// own real PastelIDs and their signatures verify in the client.
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import vm from "node:vm";
+import { createRequire } from "node:module";
+import { fileURLToPath } from "node:url";
+
+const PUBLIC_DIR = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../../public"
+);
+const WALLET_PASSWORD = "mock-supernode";
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Matches the NetworkMode enum of the WASM library
+export const NetworkMode = { Mainnet: 0, Testnet: 1, Devnet: 2 };
+
+function loadWasmModule() {
+  return new Promise((resolve, reject) => {
+    const scriptPath = path.join(PUBLIC_DIR, "libpastel_wasm.js");
+    globalThis.Module = {
+      locateFile: (file) => path.join(PUBLIC_DIR, file),
+      // The library prints every wallet operation; keep the mock's log readable
+      print: () => {},
+      printErr: () => {},
+      onRuntimeInitialized() {
+        resolve(globalThis.Module);
+      },
+      onAbort: reject,
+    };
+    globalThis.require = createRequire(scriptPath);
+    globalThis.__dirname = PUBLIC_DIR;
+    globalThis.__filename = scriptPath;
+    vm.runInThisContext(fs.readFileSync(scriptPath, "utf8"), {
+      filename: scriptPath,
+    });
+  });
+}
+
+function unwrap(response) {
+  const parsed = JSON.parse(response);
+  if (parsed.result === false || parsed.data === undefined) {
+    throw new Error(parsed.error || `Unexpected WASM response: ${response}`);
+  }
+  return parsed.data;
+}
+
+function base58Decode(input) {
+  let value = 0n;
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character in ${input}`);
+    value = value * 58n + BigInt(digit);
+  }
+  let hex = value === 0n ? "" : value.toString(16);
+  if (hex.length % 2) hex = `0${hex}`;
+  const leadingZeros = input.length - input.replace(/^1+/, "").length;
+  return Buffer.concat([
+    Buffer.alloc(leadingZeros),
+    Buffer.from(hex, "hex"),
+  ]);
+}
+
+function base58Encode(buffer) {
+  let value = BigInt(`0x${buffer.toString("hex") || "0"}`);
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+  const leadingZeros = buffer.length - buffer.toString("hex").replace(/^(00)+/, "").length / 2;
+  return "1".repeat(leadingZeros) + encoded;
+}
+
+function sha256d(buffer) {
+  const once = crypto.createHash("sha256").update(buffer).digest();
+  return crypto.createHash("sha256").update(once).digest();
+}
+
+/**
+ * Returns the two version bytes of a transparent address, which differ
+ * between mainnet, testnet and devnet.
+ */
+export function addressVersion(address) {
+  return base58Decode(address).subarray(0, 2).toString("hex");
+}
+
+/**
+ * Reverses scriptForAddress for P2PKH scripts; returns null for any other
+ * script.
+ */
+export function addressForScript(script, version) {
+  const match = /^76a914([0-9a-f]{40})88ac$/.exec(script);
+  if (!match) return null;
+  const payload = Buffer.from(`${version}${match[1]}`, "hex");
+  return base58Encode(Buffer.concat([payload, sha256d(payload).subarray(0, 4)]));
+}
+
+/**
+ * Builds the P2PKH locking script of a transparent Pastel address, which the
+ * WASM wallet needs in every UTXO it spends.
+ */
+export function scriptForAddress(address) {
+  const decoded = base58Decode(address);
+  if (decoded.length !== 26) {
+    throw new Error(`Unsupported address ${address}`);
+  }
+  return `76a914${decoded.subarray(2, 22).toString("hex")}88ac`;
+}
+
+/**
+ * A wallet holding the PastelIDs of all mock supernodes.
+ */
+export class MockWallet {
+  constructor(module) {
+    this.module = module;
+    this.pastel = new module.Pastel();
+    unwrap(this.pastel.CreateNewWallet(WALLET_PASSWORD));
+    unwrap(this.pastel.UnlockWallet(WALLET_PASSWORD));
+  }
+
+  static async create() {
+    return new MockWallet(await loadWasmModule());
+  }
+
+  makeNewPastelID() {
+    return unwrap(this.pastel.MakeNewPastelID(true));
+  }
+
+  makeNewAddress(networkMode = NetworkMode.Mainnet) {
+    return unwrap(this.pastel.MakeNewAddress(networkMode));
+  }
+
+  sign(pastelID, data) {
+    return unwrap(
+      this.pastel.SignWithPastelID(
+        pastelID,
+        data,
+        this.module.PastelIDType.PastelID,
+        true
+      )
+    );
+  }
+
+  verify(pastelID, data, signature) {
+    try {
+      return unwrap(
+        this.pastel.VerifyWithPastelID(pastelID, data, signature, true)
+      ) === true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+// scripts/mock-supernode/scenario.mjs
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const SCENARIO_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "scenarios"
+);
+
+export const SCENARIO_ACTIONS = [
+  "delay",
+  "timeout",
+  "http_error",
+  "bad_signature",
+  "bad_hash",
+  "reject",
+];
+
+const DEFAULT_SETTINGS = {
+  supernodes: 6,
+  block_interval_seconds: 150,
+  inference_delay_ms: 3000,
+  psl_price_in_usd: 0.00005,
+  address_balance_in_psl: 100000,
+  credit_packs: [],
+  rules: [],
+};
+
+function validateRule(rule, index) {
+  if (!rule || typeof rule !== "object") {
+    throw new Error(`Rule ${index} must be an object`);
+  }
+  if (typeof rule.endpoint !== "string" || !rule.endpoint) {
+    throw new Error(`Rule ${index} needs an endpoint (or "*")`);
+  }
+  if (!SCENARIO_ACTIONS.includes(rule.action)) {
+    throw new Error(
+      `Rule ${index} has unknown action ${rule.action}; expected one of ${SCENARIO_ACTIONS.join(", ")}`
+    );
+  }
+  if (
+    rule.node !== undefined &&
+    rule.node !== "opennode" &&
+    !Number.isInteger(rule.node)
+  ) {
+    throw new Error(
+      `Rule ${index} node must be a supernode number or "opennode"`
+    );
+  }
+}
+
+/**
+ * Settings and fault injection rules of a mock network run. A rule applies
+ * to the requests matching its endpoint (first path segment, or "*") and
+ * optionally its node (1-based supernode number or "opennode"). The first
+ * matching rule with applications left wins; `times` limits how often a
+ * rule applies.
+ */
+export class Scenario {
+  constructor(config = {}, name = "custom") {
+    const settings = { ...DEFAULT_SETTINGS, ...config };
+    if (!Array.isArray(settings.rules)) {
+      throw new Error("Scenario rules must be an array");
+    }
+    settings.rules.forEach(validateRule);
+    this.name = name;
+    this.settings = settings;
+    this.remaining = settings.rules.map((rule) =>
+      Number.isInteger(rule.times) ? rule.times : Infinity
+    );
+  }
+
+  match(node, endpoint) {
+    for (const [index, rule] of this.settings.rules.entries()) {
+      if (this.remaining[index] <= 0) continue;
+      if (rule.endpoint !== "*" && rule.endpoint !== endpoint) continue;
+      if (rule.node !== undefined && rule.node !== node) continue;
+      // Opennode endpoints are only faulted by rules that name the opennode
+      if (node === "opennode" && rule.node !== "opennode") continue;
+      this.remaining[index]--;
+      return rule;
+    }
+    return null;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      ...this.settings,
+      rules: this.settings.rules.map((rule, index) => ({
+        ...rule,
+        remaining: Number.isFinite(this.remaining[index])
+          ? this.remaining[index]
+          : null,
+      })),
+    };
+  }
+}
+
+export function listScenarios() {
+  return fs
+    .readdirSync(SCENARIO_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => path.basename(file, ".json"));
+}
+
+/**
+ * Loads a scenario by the name of a bundled scenario or by the path of a
+ * JSON file.
+ */
+export function loadScenario(nameOrPath = "default") {
+  const file = fs.existsSync(nameOrPath)
+    ? nameOrPath
+    : path.join(SCENARIO_DIR, `${nameOrPath}.json`);
+  if (!fs.existsSync(file)) {
+    throw new Error(
+      `Unknown scenario ${nameOrPath}; bundled scenarios are ${listScenarios().join(", ")}`
+    );
+  }
+  const config = JSON.parse(fs.readFileSync(file, "utf8"));
+  return new Scenario(config, path.basename(file, ".json"));
+}
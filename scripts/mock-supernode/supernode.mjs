@@ -0,0 +1,957 @@
+// scripts/mock-supernode/supernode.mjs
+
+import crypto from "node:crypto";
+
+import { HttpError, startEventStream } from "./http.mjs";
+import { MODEL_MENU } from "./network.mjs";
+
+const MESSAGE_VERSION = "1.0";
+const QUOTE_VALIDITY_IN_BLOCKS = 10;
+const TRACKING_AMOUNT_MULTIPLIER = 10;
+// 1x1 transparent PNG
+const MOCK_IMAGE_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+// Empty ZIP archive
+const MOCK_ZIP = Buffer.from([
+  0x50, 0x4b, 0x05, 0x06, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+]);
+
+// Endpoints that answer a "reject" rule with a signed rejection message
+export const REJECTABLE_ENDPOINTS = [
+  "credit_purchase_initial_request",
+  "credit_purchase_preliminary_price_quote_response",
+  "confirm_credit_purchase_request",
+  "check_status_of_credit_purchase_request",
+  "credit_pack_storage_retry_request",
+  "check_status_of_inference_request_results",
+];
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+const toBase64 = (text) => Buffer.from(text, "utf8").toString("base64");
+const fromBase64 = (text) => Buffer.from(text, "base64").toString("utf8");
+const roundTo = (value, decimals) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function requestFieldsJSONBase64(request) {
+  const fields = { ...request };
+  delete fields.id;
+  return toBase64(JSON.stringify(fields));
+}
+
+function parseJSON(text, fallback) {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Returns the stored message, or a copy resealed with the rule's bad hash or
+ * bad signature.
+ */
+function withRule(network, signerPastelID, message, rule) {
+  if (rule?.action !== "bad_hash" && rule?.action !== "bad_signature") {
+    return message;
+  }
+  return network.seal(signerPastelID, { ...message }, rule);
+}
+
+function buildRejection(network, node, request, reason, rule) {
+  return network.seal(
+    node.pastelid,
+    {
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      credit_pack_purchase_request_fields_json_b64:
+        requestFieldsJSONBase64(request),
+      rejection_reason_string: reason,
+      rejection_timestamp_utc_iso_string: network.timestamp(),
+      rejection_pastel_block_height: network.blockHeight,
+      credit_purchase_request_rejection_message_version_string: MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_purchase_request_rejection_fields: "",
+      responding_supernode_signature_on_credit_pack_purchase_request_rejection_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildPreliminaryPriceQuote(network, node, request, rule) {
+  const pricePerCredit = network.pricePerCreditInPSL();
+  return network.seal(
+    node.pastelid,
+    {
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      credit_usage_tracking_psl_address:
+        request.credit_usage_tracking_psl_address,
+      credit_pack_purchase_request_fields_json_b64:
+        requestFieldsJSONBase64(request),
+      preliminary_quoted_price_per_credit_in_psl: pricePerCredit,
+      preliminary_total_cost_of_credit_pack_in_psl: roundTo(
+        pricePerCredit * request.requested_initial_credits_in_credit_pack,
+        2
+      ),
+      preliminary_price_quote_timestamp_utc_iso_string: network.timestamp(),
+      preliminary_price_quote_pastel_block_height: network.blockHeight,
+      preliminary_price_quote_message_version_string: MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_purchase_request_preliminary_price_quote_fields:
+        "",
+      responding_supernode_signature_on_credit_pack_purchase_request_preliminary_price_quote_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildTermination(network, node, request, reason, rule) {
+  return network.seal(
+    node.pastelid,
+    {
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      credit_pack_purchase_request_fields_json_b64:
+        requestFieldsJSONBase64(request),
+      termination_reason_string: reason,
+      termination_timestamp_utc_iso_string: network.timestamp(),
+      termination_pastel_block_height: network.blockHeight,
+      credit_purchase_request_termination_message_version_string:
+        MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_purchase_request_termination_fields: "",
+      responding_supernode_signature_on_credit_pack_purchase_request_termination_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildPurchaseRequestResponse(network, node, request, rule) {
+  const pricePerCredit = network.pricePerCreditInPSL();
+  const agreeingPastelIDs = network.supernodes.map((sn) => sn.pastelid);
+  const requestHash =
+    request.sha3_256_hash_of_credit_pack_purchase_request_fields;
+  const signatures = {};
+  for (const pastelID of agreeingPastelIDs) {
+    signatures[pastelID] = {
+      price_agreement_signature: network.wallet.sign(pastelID, requestHash),
+    };
+  }
+  return network.seal(
+    node.pastelid,
+    {
+      id: crypto.randomUUID(),
+      sha3_256_hash_of_credit_pack_purchase_request_fields: requestHash,
+      credit_pack_purchase_request_fields_json_b64:
+        requestFieldsJSONBase64(request),
+      psl_cost_per_credit: pricePerCredit,
+      proposed_total_cost_of_credit_pack_in_psl: roundTo(
+        pricePerCredit * request.requested_initial_credits_in_credit_pack,
+        2
+      ),
+      credit_usage_tracking_psl_address:
+        request.credit_usage_tracking_psl_address,
+      request_response_timestamp_utc_iso_string: network.timestamp(),
+      request_response_pastel_block_height: network.blockHeight,
+      best_block_merkle_root: network.chain.merkleRoot(network.blockHeight),
+      best_block_height: network.blockHeight,
+      credit_purchase_request_response_message_version_string: MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      list_of_blacklisted_supernode_pastelids: [],
+      list_of_potentially_agreeing_supernodes: agreeingPastelIDs,
+      list_of_supernode_pastelids_agreeing_to_credit_pack_purchase_terms:
+        agreeingPastelIDs,
+      list_of_supernode_pastelids_agreeing_to_credit_pack_purchase_terms_selected_for_signature_inclusion:
+        agreeingPastelIDs,
+      selected_agreeing_supernodes_signatures_dict: signatures,
+      sha3_256_hash_of_credit_pack_purchase_request_response_fields: "",
+      responding_supernode_signature_on_credit_pack_purchase_request_response_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildConfirmationResponse(network, node, purchase, outcome, rule) {
+  return network.seal(
+    node.pastelid,
+    {
+      id: crypto.randomUUID(),
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        purchase.request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+        outcome.confirmation
+          .sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields,
+      credit_pack_confirmation_outcome_string: outcome.failureReason
+        ? "failure"
+        : "success",
+      pastel_api_credit_pack_ticket_registration_txid:
+        outcome.registrationTxid || "",
+      credit_pack_confirmation_failure_reason_if_applicable:
+        outcome.failureReason || "",
+      credit_purchase_request_confirmation_response_utc_iso_string:
+        network.timestamp(),
+      credit_purchase_request_confirmation_response_pastel_block_height:
+        network.blockHeight,
+      credit_purchase_request_confirmation_response_message_version_string:
+        MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_response_fields:
+        "",
+      responding_supernode_signature_on_credit_pack_purchase_request_confirmation_response_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildPurchaseStatus(network, node, purchase, status, details, rule) {
+  return network.seal(
+    node.pastelid,
+    {
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        purchase.request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      sha3_256_hash_of_credit_pack_purchase_request_response_fields:
+        purchase.response
+          ?.sha3_256_hash_of_credit_pack_purchase_request_response_fields || "",
+      status,
+      status_details: details,
+      status_update_timestamp_utc_iso_string: network.timestamp(),
+      status_update_pastel_block_height: network.blockHeight,
+      credit_purchase_request_status_message_version_string: MESSAGE_VERSION,
+      responding_supernode_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_purchase_request_status_fields: "",
+      responding_supernode_signature_on_credit_pack_purchase_request_status_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildStorageRetryResponse(network, node, purchase, outcome, rule) {
+  return network.seal(
+    node.pastelid,
+    {
+      sha3_256_hash_of_credit_pack_purchase_request_fields:
+        purchase.request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+        purchase.confirmation
+          ?.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields ||
+        "",
+      credit_pack_storage_retry_confirmation_outcome_string:
+        outcome.failureReason ? "failure" : "success",
+      pastel_api_credit_pack_ticket_registration_txid:
+        outcome.registrationTxid || "",
+      credit_pack_storage_retry_confirmation_failure_reason_if_applicable:
+        outcome.failureReason || "",
+      credit_pack_storage_retry_confirmation_response_utc_iso_string:
+        network.timestamp(),
+      credit_pack_storage_retry_confirmation_response_pastel_block_height:
+        network.blockHeight,
+      credit_pack_storage_retry_confirmation_response_message_version_string:
+        MESSAGE_VERSION,
+      closest_agreeing_supernode_to_retry_storage_pastelid: node.pastelid,
+      sha3_256_hash_of_credit_pack_storage_retry_confirmation_response_fields:
+        "",
+      closest_agreeing_supernode_to_retry_storage_pastelid_signature_on_credit_pack_storage_retry_confirmation_response_hash:
+        "",
+    },
+    rule
+  );
+}
+
+function buildUsageResponse(network, node, request, creditPack, cost) {
+  return network.seal(node.pastelid, {
+    inference_response_id: crypto.randomUUID(),
+    inference_request_id: request.inference_request_id,
+    proposed_cost_of_request_in_inference_credits: cost,
+    remaining_credits_in_pack_after_request_processed: roundTo(
+      creditPack.balance - cost,
+      2
+    ),
+    credit_usage_tracking_psl_address:
+      creditPack.purchase.request.credit_usage_tracking_psl_address,
+    request_confirmation_message_amount_in_patoshis: Math.max(
+      1,
+      Math.round(cost * TRACKING_AMOUNT_MULTIPLIER)
+    ),
+    max_block_height_to_include_confirmation_transaction:
+      network.blockHeight + QUOTE_VALIDITY_IN_BLOCKS,
+    inference_request_response_utc_iso_string: network.timestamp(),
+    inference_request_response_pastel_block_height: network.blockHeight,
+    inference_request_response_message_version_string: MESSAGE_VERSION,
+    sha3_256_hash_of_inference_request_response_fields: "",
+    supernode_pastelid_and_signature_on_inference_request_response_hash: "",
+  });
+}
+
+/**
+ * Text of a mock completion; also streamed token by token.
+ */
+function mockCompletionText(node, inference) {
+  const input = parseJSON(
+    fromBase64(inference.request.model_input_data_json_b64),
+    {}
+  );
+  const prompt =
+    (typeof input === "string" ? input : input.prompt ?? input.question) ||
+    JSON.stringify(input);
+  return `This is a mock response from ${inference.request.requested_model_canonical_string} on mock supernode ${node.number}. You asked: ${String(prompt).slice(0, 500)}`;
+}
+
+function mockInferenceOutput(node, inference) {
+  switch (inference.request.model_inference_type_string) {
+    case "text_to_image":
+      return {
+        json_base64: toBase64(JSON.stringify({ image: MOCK_IMAGE_BASE64 })),
+        file_types: "png",
+      };
+    case "embedding_document":
+      return {
+        json_base64: toBase64(MOCK_ZIP.toString("base64")),
+        file_types: "zip",
+      };
+    case "embedding_audio":
+      return {
+        json_base64: toBase64(
+          JSON.stringify({ embedding: [0.1, 0.2, 0.3, 0.4] })
+        ),
+        file_types: "json",
+      };
+    default:
+      return {
+        json_base64: toBase64(mockCompletionText(node, inference)),
+        file_types: "text",
+      };
+  }
+}
+
+function isResultReady(inference) {
+  return inference.confirmed && Date.now() >= inference.ready_at;
+}
+
+/**
+ * The output result is produced once, by the supernode that quoted the
+ * request, and served as is by every node.
+ */
+function getOutputResult(network, inference) {
+  if (!inference.result) {
+    const node = inference.node;
+    const output = mockInferenceOutput(node, inference);
+    inference.result = network.seal(node.pastelid, {
+      inference_result_id: crypto.randomUUID(),
+      inference_request_id: inference.request.inference_request_id,
+      inference_response_id: inference.response.inference_response_id,
+      responding_supernode_pastelid: node.pastelid,
+      inference_result_json_base64: output.json_base64,
+      inference_result_file_type_strings: output.file_types,
+      inference_result_utc_iso_string: network.timestamp(),
+      inference_result_pastel_block_height: network.blockHeight,
+      inference_result_message_version_string: MESSAGE_VERSION,
+      sha3_256_hash_of_inference_result_fields: "",
+      responding_supernode_signature_on_inference_result_id: "",
+    });
+  }
+  return inference.result;
+}
+
+function findPurchase(network, requestHash) {
+  const purchase = network.purchases.get(requestHash);
+  if (!purchase) {
+    throw new HttpError(404, `No credit pack purchase request ${requestHash}`);
+  }
+  return purchase;
+}
+
+function findCreditPack(network, txid) {
+  const creditPack = network.creditPacks.get(txid);
+  if (!creditPack) {
+    throw new HttpError(404, `Credit pack ticket ${txid} not found`);
+  }
+  return creditPack;
+}
+
+function findInference(network, inferenceResponseID) {
+  const inference = network.inferences.get(inferenceResponseID);
+  if (!inference) {
+    throw new HttpError(
+      404,
+      `Inference response ${inferenceResponseID} not found`
+    );
+  }
+  return inference;
+}
+
+function challengeFromQuery(url) {
+  return {
+    challenge: url.searchParams.get("challenge"),
+    challenge_id: url.searchParams.get("challenge_id"),
+    challenge_signature: url.searchParams.get("challenge_signature"),
+  };
+}
+
+/**
+ * Adds a credit pack to the network, bought by the network's own buyer
+ * PastelID for the given authorized PastelIDs, so that inference requests
+ * can be made without going through a purchase.
+ */
+export function seedCreditPack(network, seed) {
+  const node = network.supernodes[0];
+  const buyer = network.buyerPastelID;
+  const request = network.seal(buyer, {
+    id: crypto.randomUUID(),
+    requesting_end_user_pastelid: buyer,
+    requested_initial_credits_in_credit_pack: seed.credits ?? 1000,
+    list_of_authorized_pastelids_allowed_to_use_credit_pack: JSON.stringify(
+      seed.authorized_pastelids ?? []
+    ),
+    credit_usage_tracking_psl_address:
+      seed.credit_usage_tracking_psl_address ||
+      network.wallet.makeNewAddress(),
+    request_timestamp_utc_iso_string: network.timestamp(),
+    request_pastel_block_height: network.blockHeight,
+    credit_purchase_request_message_version_string: MESSAGE_VERSION,
+    sha3_256_hash_of_credit_pack_purchase_request_fields: "",
+    requesting_end_user_pastelid_signature_on_request_hash: "",
+  });
+  const response = buildPurchaseRequestResponse(network, node, request);
+  const confirmation = network.seal(buyer, {
+    id: crypto.randomUUID(),
+    sha3_256_hash_of_credit_pack_purchase_request_fields:
+      request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+    sha3_256_hash_of_credit_pack_purchase_request_response_fields:
+      response.sha3_256_hash_of_credit_pack_purchase_request_response_fields,
+    credit_pack_purchase_request_fields_json_b64:
+      response.credit_pack_purchase_request_fields_json_b64,
+    requesting_end_user_pastelid: buyer,
+    txid_of_credit_purchase_burn_transaction: crypto
+      .randomBytes(32)
+      .toString("hex"),
+    credit_purchase_request_confirmation_utc_iso_string: network.timestamp(),
+    credit_purchase_request_confirmation_pastel_block_height:
+      network.blockHeight,
+    credit_purchase_request_confirmation_message_version_string:
+      MESSAGE_VERSION,
+    sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields: "",
+    requesting_end_user_pastelid_signature_on_sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+      "",
+  });
+  const purchase = { request, node, response, confirmation };
+  network.purchases.set(
+    request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+    purchase
+  );
+  return network.registerCreditPack(purchase);
+}
+
+/**
+ * Routes of one mock supernode, keyed by the first path segment as in the
+ * supernode's FastAPI app.
+ */
+export function createSupernodeRoutes(network, node) {
+  const settings = () => network.scenario.settings;
+
+  return {
+    liveness_ping: () => ({
+      status: "alive",
+      timestamp: network.timestamp(),
+      performance_ratio_score: 1,
+    }),
+
+    request_challenge: ({ params: [pastelID] }) => {
+      if (!pastelID) throw new HttpError(400, "PastelID is required");
+      const { challenge, challenge_id, expires_at } =
+        network.issueChallenge(pastelID);
+      return {
+        challenge,
+        challenge_id,
+        expiration_time: new Date(expires_at).toISOString(),
+      };
+    },
+
+    get_inference_model_menu: () => MODEL_MENU,
+
+    send_user_message: ({ body }) => {
+      const pastelID = network.redeemChallenge(body);
+      const message = body.user_message || {};
+      if (
+        message.from_pastelid !== pastelID ||
+        !network.wallet.verify(
+          message.from_pastelid,
+          message.message_body,
+          message.message_signature
+        )
+      ) {
+        throw new HttpError(400, "User message signature failed verification");
+      }
+      const stored = {
+        ...message,
+        id: message.id || crypto.randomUUID(),
+        timestamp: message.timestamp || network.timestamp(),
+      };
+      network.userMessages.push(stored);
+      return stored;
+    },
+
+    get_user_messages: ({ url }) => {
+      const pastelID = network.redeemChallenge(challengeFromQuery(url));
+      return network.userMessages.filter(
+        (message) =>
+          message.to_pastelid === pastelID ||
+          message.from_pastelid === pastelID
+      );
+    },
+
+    credit_purchase_initial_request: ({ body, rule }) => {
+      const pastelID = network.redeemChallenge(body);
+      const request = body.credit_pack_request;
+      if (!request) throw new HttpError(400, "credit_pack_request is required");
+      let rejectionReason = null;
+      try {
+        network.verifyClientMessage("Credit pack purchase request", request);
+      } catch (error) {
+        rejectionReason = error.message;
+      }
+      if (!rejectionReason && request.requesting_end_user_pastelid !== pastelID) {
+        rejectionReason = "Requesting PastelID does not match the challenge";
+      }
+      if (
+        !rejectionReason &&
+        !(request.requested_initial_credits_in_credit_pack > 0)
+      ) {
+        rejectionReason = "Requested number of credits must be positive";
+      }
+      if (!rejectionReason && rule?.action === "reject") {
+        rejectionReason =
+          rule.reason ?? "Credit pack purchase request rejected by scenario";
+      }
+      if (rejectionReason) {
+        return buildRejection(network, node, request, rejectionReason, rule);
+      }
+      const quote = buildPreliminaryPriceQuote(network, node, request, rule);
+      network.purchases.set(
+        request.sha3_256_hash_of_credit_pack_purchase_request_fields,
+        { request, node, quote }
+      );
+      return quote;
+    },
+
+    credit_purchase_preliminary_price_quote_response: ({ body, rule }) => {
+      network.redeemChallenge(body);
+      const quoteResponse = body.preliminary_price_quote_response;
+      if (!quoteResponse) {
+        throw new HttpError(400, "preliminary_price_quote_response is required");
+      }
+      network.verifyClientMessage("Preliminary price quote response", quoteResponse);
+      const purchase = findPurchase(
+        network,
+        quoteResponse.sha3_256_hash_of_credit_pack_purchase_request_fields
+      );
+      let terminationReason = null;
+      if (!quoteResponse.agree_with_preliminary_price_quote) {
+        terminationReason =
+          "End user did not agree with the preliminary price quote";
+      } else if (rule?.action === "reject") {
+        terminationReason =
+          rule.reason ?? "Credit pack purchase terminated by scenario";
+      }
+      if (terminationReason) {
+        return buildTermination(
+          network,
+          node,
+          purchase.request,
+          terminationReason,
+          rule
+        );
+      }
+      purchase.response = buildPurchaseRequestResponse(
+        network,
+        node,
+        purchase.request
+      );
+      return withRule(network, node.pastelid, purchase.response, rule);
+    },
+
+    confirm_credit_purchase_request: ({ body, rule }) => {
+      network.redeemChallenge(body);
+      const confirmation = body.confirmation;
+      if (!confirmation) throw new HttpError(400, "confirmation is required");
+      network.verifyClientMessage("Credit pack purchase confirmation", confirmation);
+      const purchase = findPurchase(
+        network,
+        confirmation.sha3_256_hash_of_credit_pack_purchase_request_fields
+      );
+      const outcome = { confirmation };
+      const burnTxid = confirmation.txid_of_credit_purchase_burn_transaction;
+      if (
+        !purchase.response ||
+        purchase.response
+          .sha3_256_hash_of_credit_pack_purchase_request_response_fields !==
+          confirmation.sha3_256_hash_of_credit_pack_purchase_request_response_fields
+      ) {
+        outcome.failureReason =
+          "Confirmation does not match the credit pack purchase request response";
+      } else if (!network.chain.getTransaction(burnTxid)) {
+        outcome.failureReason = `Burn transaction ${burnTxid} was not found`;
+      } else if (rule?.action === "reject") {
+        outcome.failureReason =
+          rule.reason ?? "Credit pack confirmation rejected by scenario";
+      } else {
+        purchase.confirmation = {
+          ...confirmation,
+          id: confirmation.id || crypto.randomUUID(),
+        };
+        outcome.registrationTxid =
+          network.registerCreditPack(purchase).registration_txid;
+      }
+      return buildConfirmationResponse(network, node, purchase, outcome, rule);
+    },
+
+    check_status_of_credit_purchase_request: ({ body, rule }) => {
+      network.redeemChallenge(body);
+      const statusCheck = body.credit_pack_request_status_check;
+      if (!statusCheck) {
+        throw new HttpError(400, "credit_pack_request_status_check is required");
+      }
+      network.verifyClientMessage("Credit pack status check", statusCheck, false);
+      const purchase = findPurchase(
+        network,
+        statusCheck.sha3_256_hash_of_credit_pack_purchase_request_fields
+      );
+      const creditPack = purchase.confirmation
+        ? network.findCreditPackByBurnTxid(
+            purchase.confirmation.txid_of_credit_purchase_burn_transaction
+          )
+        : null;
+      let status = "pending";
+      let details = "Waiting for the purchase confirmation";
+      if (rule?.action === "reject") {
+        status = "failed";
+        details = rule.reason ?? "Credit pack ticket storage failed";
+      } else if (creditPack) {
+        status = "completed";
+        details = `Credit pack ticket registered in txid ${creditPack.registration_txid}`;
+      }
+      return buildPurchaseStatus(network, node, purchase, status, details, rule);
+    },
+
+    credit_pack_purchase_completion_announcement: ({ body }) => {
+      network.redeemChallenge(body);
+      return { status: "ok" };
+    },
+
+    credit_pack_storage_retry_request: ({ body, rule }) => {
+      network.redeemChallenge(body);
+      const retryRequest = body.request;
+      if (!retryRequest) throw new HttpError(400, "request is required");
+      network.verifyClientMessage("Credit pack storage retry request", retryRequest);
+      if (
+        retryRequest.closest_agreeing_supernode_to_retry_storage_pastelid !==
+        node.pastelid
+      ) {
+        throw new HttpError(
+          400,
+          "This supernode is not the one selected for the storage retry"
+        );
+      }
+      const purchase = Array.from(network.purchases.values()).find(
+        (candidate) =>
+          candidate.response
+            ?.sha3_256_hash_of_credit_pack_purchase_request_response_fields ===
+          retryRequest.sha3_256_hash_of_credit_pack_purchase_request_response_fields
+      );
+      if (!purchase) {
+        throw new HttpError(404, "Credit pack purchase request response not found");
+      }
+      const outcome = {};
+      if (!purchase.confirmation) {
+        outcome.failureReason = "The credit pack purchase was never confirmed";
+      } else if (rule?.action === "reject") {
+        outcome.failureReason =
+          rule.reason ?? "Credit pack storage retry rejected by scenario";
+      } else {
+        outcome.registrationTxid =
+          network.registerCreditPack(purchase).registration_txid;
+      }
+      return buildStorageRetryResponse(network, node, purchase, outcome, rule);
+    },
+
+    credit_pack_storage_retry_completion_announcement: ({ body }) => {
+      network.redeemChallenge(body);
+      return { status: "ok" };
+    },
+
+    get_valid_credit_pack_tickets_for_pastelid: ({ body }) => {
+      network.redeemChallenge(body);
+      return Array.from(network.creditPacks.values())
+        .filter((creditPack) =>
+          network.isAuthorizedForCreditPack(creditPack, body.pastelid)
+        )
+        .map((creditPack) => network.validCreditPackTicket(creditPack));
+    },
+
+    check_credit_pack_balance: ({ body }) => {
+      network.redeemChallenge(body);
+      const creditPack = findCreditPack(network, body.credit_pack_ticket_txid);
+      return {
+        credit_pack_current_credit_balance: creditPack.balance,
+        balance_as_of_datetime: network.timestamp(),
+      };
+    },
+
+    get_credit_pack_ticket_from_txid: ({ url, rule }) => {
+      network.redeemChallenge(challengeFromQuery(url));
+      const creditPack = findCreditPack(network, url.searchParams.get("txid"));
+      return {
+        credit_pack_purchase_request_response: withRule(
+          network,
+          creditPack.purchase.node.pastelid,
+          creditPack.purchase.response,
+          rule
+        ),
+        credit_pack_purchase_request_confirmation:
+          creditPack.purchase.confirmation,
+      };
+    },
+
+    retrieve_credit_pack_ticket_from_purchase_burn_txid: ({ body }) => {
+      network.redeemChallenge(body);
+      const creditPack = network.findCreditPackByBurnTxid(
+        body.purchase_burn_txid
+      );
+      if (!creditPack) {
+        throw new HttpError(404, "No credit pack ticket for this burn txid");
+      }
+      return {
+        credit_pack_purchase_request_response: creditPack.purchase.response,
+        credit_pack_purchase_request_confirmation:
+          creditPack.purchase.confirmation,
+      };
+    },
+
+    get_final_credit_pack_registration_txid_from_credit_purchase_burn_txid: ({
+      body,
+    }) => {
+      network.redeemChallenge(body);
+      const creditPack = network.findCreditPackByBurnTxid(
+        body.purchase_burn_txid
+      );
+      if (!creditPack) {
+        throw new HttpError(404, "No credit pack ticket for this burn txid");
+      }
+      return {
+        final_credit_pack_registration_txid: creditPack.registration_txid,
+      };
+    },
+
+    make_inference_api_usage_request: ({ body, rule }) => {
+      const pastelID = network.redeemChallenge(body);
+      const request = body.inference_api_usage_request;
+      if (!request) {
+        throw new HttpError(400, "inference_api_usage_request is required");
+      }
+      network.verifyClientMessage("Inference request", request);
+      if (request.requesting_pastelid !== pastelID) {
+        throw new HttpError(403, "Requesting PastelID does not match the challenge");
+      }
+      const creditPack = findCreditPack(
+        network,
+        request.credit_pack_ticket_pastel_txid
+      );
+      if (!network.isAuthorizedForCreditPack(creditPack, pastelID)) {
+        throw new HttpError(
+          403,
+          `PastelID ${pastelID} is not authorized to use this credit pack`
+        );
+      }
+      const model = MODEL_MENU.models.find(
+        (candidate) =>
+          candidate.model_name === request.requested_model_canonical_string &&
+          candidate.supported_inference_type_strings.includes(
+            request.model_inference_type_string
+          )
+      );
+      if (!model) {
+        throw new HttpError(
+          400,
+          `Model ${request.requested_model_canonical_string} does not support ${request.model_inference_type_string}`
+        );
+      }
+      const cost = network.creditCost(
+        request.model_inference_type_string,
+        request.model_input_data_json_b64
+      );
+      if (cost > creditPack.balance) {
+        throw new HttpError(
+          400,
+          `Insufficient credits: the request costs ${cost} credits but only ${creditPack.balance} remain`
+        );
+      }
+      const response = buildUsageResponse(
+        network,
+        node,
+        request,
+        creditPack,
+        cost
+      );
+      network.inferences.set(response.inference_response_id, {
+        request,
+        response,
+        node,
+        creditPack,
+        cost,
+        confirmed: false,
+        ready_at: 0,
+        result: null,
+      });
+      return withRule(network, node.pastelid, response, rule);
+    },
+
+    confirm_inference_request: ({ body }) => {
+      const pastelID = network.redeemChallenge(body);
+      const confirmation = body.inference_confirmation || {};
+      const inference = Array.from(network.inferences.values()).find(
+        (candidate) =>
+          candidate.request.inference_request_id ===
+          confirmation.inference_request_id
+      );
+      if (!inference) {
+        throw new HttpError(
+          404,
+          `Inference request ${confirmation.inference_request_id} not found`
+        );
+      }
+      if (inference.request.requesting_pastelid !== pastelID) {
+        throw new HttpError(403, "Requesting PastelID does not match the challenge");
+      }
+      const txid = confirmation.confirmation_transaction?.txid;
+      if (!network.chain.getTransaction(txid)) {
+        throw new HttpError(400, `Tracking transaction ${txid} was not found`);
+      }
+      if (
+        network.blockHeight >
+        inference.response.max_block_height_to_include_confirmation_transaction
+      ) {
+        throw new HttpError(400, "The price quote for this request has expired");
+      }
+      if (!inference.confirmed) {
+        inference.confirmed = true;
+        inference.ready_at = Date.now() + settings().inference_delay_ms;
+        inference.creditPack.balance = roundTo(
+          inference.creditPack.balance - inference.cost,
+          2
+        );
+        inference.creditPack.number_of_confirmation_transactions++;
+      }
+      return {
+        inference_request_id: confirmation.inference_request_id,
+        requesting_pastelid: pastelID,
+        confirmation_transaction: { txid },
+        status: "confirmed",
+      };
+    },
+
+    check_status_of_inference_request_results: ({ params: [responseID], rule }) => {
+      const inference = findInference(network, responseID);
+      return rule?.action === "reject" ? false : isResultReady(inference);
+    },
+
+    stream_inference_output_results: async ({ url, res }) => {
+      const pastelID = network.redeemChallenge(challengeFromQuery(url));
+      const inference = findInference(
+        network,
+        url.searchParams.get("inference_response_id")
+      );
+      if (inference.request.requesting_pastelid !== pastelID) {
+        throw new HttpError(403, "Not the requester of this inference");
+      }
+      if (
+        inference.request.model_inference_type_string !== "text_completion" ||
+        !inference.confirmed
+      ) {
+        throw new HttpError(404, "Streaming is not available for this request");
+      }
+      const tokens = mockCompletionText(inference.node, inference).match(
+        /\S+\s*/g
+      );
+      const interval = Math.max(
+        10,
+        (inference.ready_at - Date.now()) / tokens.length
+      );
+      startEventStream(res);
+      for (const token of tokens) {
+        if (res.destroyed) return undefined;
+        res.write(`data: ${JSON.stringify({ token })}\n\n`);
+        await sleep(interval);
+      }
+      res.end("data: [DONE]\n\n");
+      return undefined;
+    },
+
+    retrieve_inference_output_results: ({ url, rule }) => {
+      const pastelID = network.redeemChallenge(challengeFromQuery(url));
+      const inference = findInference(
+        network,
+        url.searchParams.get("inference_response_id")
+      );
+      if (inference.request.requesting_pastelid !== pastelID) {
+        throw new HttpError(403, "Not the requester of this inference");
+      }
+      if (!isResultReady(inference)) {
+        throw new HttpError(404, "Inference result is not ready yet");
+      }
+      return withRule(
+        network,
+        inference.node.pastelid,
+        getOutputResult(network, inference),
+        rule
+      );
+    },
+
+    audit_inference_request_response: ({ body, rule }) => {
+      const inference = findInference(network, body.inference_response_id);
+      if (
+        body.pastel_id !== inference.request.requesting_pastelid ||
+        !network.wallet.verify(
+          body.pastel_id,
+          body.inference_response_id,
+          body.signature
+        )
+      ) {
+        throw new HttpError(403, "Audit request signature failed verification");
+      }
+      return withRule(
+        network,
+        inference.node.pastelid,
+        inference.response,
+        rule
+      );
+    },
+
+    audit_inference_request_result: ({ body, rule }) => {
+      const inference = findInference(network, body.inference_response_id);
+      if (
+        body.pastel_id !== inference.request.requesting_pastelid ||
+        !network.wallet.verify(
+          body.pastel_id,
+          body.inference_response_id,
+          body.signature
+        )
+      ) {
+        throw new HttpError(403, "Audit request signature failed verification");
+      }
+      if (!isResultReady(inference)) {
+        throw new HttpError(404, "Inference result is not available yet");
+      }
+      return withRule(
+        network,
+        inference.node.pastelid,
+        getOutputResult(network, inference),
+        rule
+      );
+    },
+  };
+}
@@ -0,0 +1,156 @@
+// src/app/api/apiKeys.ts
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import { ApiKey, ApiScope } from '@/app/types';
+
+const API_KEY_PREFIX = 'pak';
+// last_used_at is only written back this often, not on every request
+const LAST_USED_PERSIST_INTERVAL_MS = 60 * 1000;
+
+interface StoredApiKey extends ApiKey {
+  secret_sha256_hash: string;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toApiKey(stored: StoredApiKey): ApiKey {
+  return {
+    id: stored.id,
+    pastelid: stored.pastelid,
+    label: stored.label,
+    scopes: stored.scopes,
+    created_at_utc_iso_string: stored.created_at_utc_iso_string,
+    last_used_at_utc_iso_string: stored.last_used_at_utc_iso_string,
+    revoked_at_utc_iso_string: stored.revoked_at_utc_iso_string,
+  };
+}
+
+/**
+ * API keys issued for PastelIDs, kept by the server in a JSON file. Only a
+ * hash of each secret is stored; the key itself is returned once on issue.
+ */
+class ApiKeyStore {
+  private static instance: ApiKeyStore | null = null;
+  private keys: StoredApiKey[] | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): ApiKeyStore {
+    if (!ApiKeyStore.instance) {
+      ApiKeyStore.instance = new ApiKeyStore();
+    }
+    return ApiKeyStore.instance;
+  }
+
+  private get filePath(): string {
+    return (
+      process.env.PASTEL_API_KEYS_FILE ||
+      path.join(process.cwd(), '.pastel-api-keys.json')
+    );
+  }
+
+  private async load(): Promise<StoredApiKey[]> {
+    if (this.keys) return this.keys;
+    try {
+      this.keys = JSON.parse(await fs.readFile(this.filePath, 'utf8')) as StoredApiKey[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      this.keys = [];
+    }
+    return this.keys;
+  }
+
+  private persist(): Promise<void> {
+    const data = JSON.stringify(this.keys || [], null, 2);
+    this.writeQueue = this.writeQueue.then(async () => {
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, data, { encoding: 'utf8', mode: 0o600 });
+      await fs.rename(tempPath, this.filePath);
+    });
+    return this.writeQueue;
+  }
+
+  /**
+   * Issues a key that authenticates requests as a PastelID with the given
+   * scopes.
+   * @returns The key record and the key to hand out, which cannot be shown again.
+   */
+  public async issueKey(
+    pastelID: string,
+    scopes: ApiScope[],
+    label: string
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    if (!scopes.length) {
+      throw new Error('An API key needs at least one scope');
+    }
+    const keys = await this.load();
+    const id = uuidv4();
+    const secret = randomBytes(32).toString('base64url');
+    const stored: StoredApiKey = {
+      id,
+      pastelid: pastelID,
+      label,
+      scopes: Array.from(new Set(scopes)),
+      created_at_utc_iso_string: new Date().toISOString(),
+      last_used_at_utc_iso_string: null,
+      revoked_at_utc_iso_string: null,
+      secret_sha256_hash: hashSecret(secret),
+    };
+    keys.push(stored);
+    await this.persist();
+    return { apiKey: toApiKey(stored), key: `${API_KEY_PREFIX}.${id}.${secret}` };
+  }
+
+  public async listKeys(pastelID?: string): Promise<ApiKey[]> {
+    return (await this.load())
+      .filter((stored) => !pastelID || stored.pastelid === pastelID)
+      .map(toApiKey);
+  }
+
+  public async revokeKey(id: string): Promise<ApiKey> {
+    const stored = (await this.load()).find((candidate) => candidate.id === id);
+    if (!stored) {
+      throw new Error(`API key ${id} not found`);
+    }
+    if (!stored.revoked_at_utc_iso_string) {
+      stored.revoked_at_utc_iso_string = new Date().toISOString();
+      await this.persist();
+    }
+    return toApiKey(stored);
+  }
+
+  /**
+   * Looks up the key presented with a request.
+   * @returns The key, or null when it is malformed, unknown or revoked.
+   */
+  public async authenticate(presentedKey: string): Promise<ApiKey | null> {
+    const [prefix, id, secret] = presentedKey.split('.');
+    if (prefix !== API_KEY_PREFIX || !id || !secret) return null;
+    const stored = (await this.load()).find((candidate) => candidate.id === id);
+    if (!stored || stored.revoked_at_utc_iso_string) return null;
+    const expected = Buffer.from(stored.secret_sha256_hash, 'hex');
+    const actual = Buffer.from(hashSecret(secret), 'hex');
+    if (!timingSafeEqual(expected, actual)) return null;
+
+    const now = Date.now();
+    const lastUsed = stored.last_used_at_utc_iso_string
+      ? Date.parse(stored.last_used_at_utc_iso_string)
+      : 0;
+    if (now - lastUsed > LAST_USED_PERSIST_INTERVAL_MS) {
+      stored.last_used_at_utc_iso_string = new Date(now).toISOString();
+      await this.persist();
+    }
+    return toApiKey(stored);
+  }
+}
+
+export const apiKeyStore = ApiKeyStore.getInstance();
+
+export default ApiKeyStore;
@@ -0,0 +1,51 @@
+// src/app/api/auth/keys/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+
+import { apiKeyStore } from '@/app/api/apiKeys';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/auth/keys/{id}:
+ *   delete:
+ *     tags: [Authentication]
+ *     summary: Revoke an API key
+ *     description: Revokes an API key; requests made with it are refused from then on.
+ *     security:
+ *       - pastelIDAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *       404:
+ *         description: Unknown API key
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await apiKeyStore.revokeKey(params.id));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 404 });
+  }
+}
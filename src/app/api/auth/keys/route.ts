@@ -0,0 +1,181 @@
+// src/app/api/auth/keys/route.ts
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { apiKeyStore } from '@/app/api/apiKeys';
+import { authorizeRequest, isAuthorizedPastelID } from '@/app/api/middleware';
+
+const keysQuerySchema = z.object({
+  pastelid: z.string().optional(),
+});
+
+const issueKeySchema = z.object({
+  pastelID: z.string()
+    .min(1, "PastelID is required")
+    .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format"),
+  scopes: z.array(z.enum(["read", "infer", "spend", "admin"])).min(1, "At least one scope is required"),
+  label: z.string().max(100).optional().default(""),
+});
+
+/**
+ * @swagger
+ * /api/auth/keys:
+ *   get:
+ *     tags: [Authentication]
+ *     summary: List API keys
+ *     description: Lists the API keys issued, including revoked ones, without their secrets.
+ *     security:
+ *       - pastelIDAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: pastelid
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = keysQuerySchema.parse(Object.fromEntries(searchParams));
+    return NextResponse.json(await apiKeyStore.listKeys(query.pastelid));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/auth/keys:
+ *   post:
+ *     tags: [Authentication]
+ *     summary: Issue an API key
+ *     description: >
+ *       Issues an API key that authenticates requests as a PastelID of this
+ *       wallet with the given scopes. The key is only returned in this
+ *       response; send it in the X-API-Key header.
+ *     security:
+ *       - pastelIDAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [pastelID, scopes]
+ *             properties:
+ *               pastelID:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [read, infer, spend, admin]
+ *               label:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: API key issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *                 key:
+ *                   type: string
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json();
+    const validated = issueKeySchema.parse(body);
+    if (!(await isAuthorizedPastelID(validated.pastelID))) {
+      return NextResponse.json(
+        { error: `PastelID ${validated.pastelID} is not authorized to use this API` },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      await apiKeyStore.issueKey(validated.pastelID, validated.scopes, validated.label)
+    );
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         pastelid:
+ *           type: string
+ *         label:
+ *           type: string
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [read, infer, spend, admin]
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         last_used_at_utc_iso_string:
+ *           type: string
+ *           nullable: true
+ *         revoked_at_utc_iso_string:
+ *           type: string
+ *           nullable: true
+ */
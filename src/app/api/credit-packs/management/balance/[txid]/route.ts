@@ -1,6 +1,7 @@
 // src/app/api/credit-packs/management/balance/[txid]/route.ts
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
 
 /**
  * @swagger
@@ -47,6 +48,9 @@ export async function GET(
   request: Request,
   { params }: { params: { txid: string } }
 ): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const { address, balance } = await api.checkTrackingAddressBalance(params.txid);
     return NextResponse.json({ address, balance });
@@ -2,6 +2,7 @@
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
 import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
 
 // Input validation schema
 const estimateRequestSchema = z.object({
@@ -68,6 +69,9 @@ type EstimateRequest = z.infer<typeof estimateRequestSchema>;
  *         $ref: '#/components/responses/InternalError'
  */
 export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     
@@ -0,0 +1,117 @@
+// src/app/api/credit-packs/management/ledger/[txid]/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/credit-packs/management/ledger/{txid}:
+ *   get:
+ *     tags: [Credit Packs]
+ *     summary: Get credit pack spending ledger
+ *     description: Lists the credits spent on each inference request from a credit pack, reconciled against the history of its tracking address, with totals per model and per day
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: txid
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The transaction ID of the credit pack ticket
+ *     responses:
+ *       200:
+ *         description: Ledger retrieved and reconciled successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 credit_pack_ticket_pastel_txid:
+ *                   type: string
+ *                 credit_usage_tracking_psl_address:
+ *                   type: string
+ *                   description: The tracking address of the credit pack
+ *                 entries:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       inference_request_id:
+ *                         type: string
+ *                       model_name:
+ *                         type: string
+ *                       inference_type:
+ *                         type: string
+ *                       proposed_cost_of_request_in_inference_credits:
+ *                         type: number
+ *                       tracking_transaction_txid:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                       reconciliation_status:
+ *                         type: string
+ *                         enum: [unreconciled, not_paid, matched, missing_on_chain]
+ *                 totals_by_model:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                         description: Model name
+ *                       request_count:
+ *                         type: integer
+ *                       total_cost_in_credits:
+ *                         type: number
+ *                 totals_by_day:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       key:
+ *                         type: string
+ *                         description: UTC date (YYYY-MM-DD)
+ *                       request_count:
+ *                         type: integer
+ *                       total_cost_in_credits:
+ *                         type: number
+ *                 total_cost_in_credits:
+ *                   type: number
+ *                 unrecorded_tracking_txids:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Spends from the tracking address with no matching ledger entry
+ *                 reconciled_at_utc_iso_string:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { txid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const ledger = await api.getCreditPackLedger(params.txid);
+    return NextResponse.json(ledger);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json(
+      { 
+        error: errorMessage 
+      }, 
+      { 
+        status: 400 
+      }
+    );
+  }
+}
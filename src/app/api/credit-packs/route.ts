@@ -2,6 +2,7 @@
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
 import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
 
 // Input validation schemas
 const createCreditPackSchema = z.object({
@@ -44,7 +45,10 @@ type CreateCreditPackRequest = z.infer<typeof createCreditPackSchema>;
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const creditPacks = await api.getMyValidCreditPacks();
     return NextResponse.json(creditPacks);
@@ -116,6 +120,9 @@ export async function GET(): Promise<NextResponse> {
  *         $ref: '#/components/responses/InternalError'
  */
 export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     
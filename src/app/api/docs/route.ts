@@ -25,6 +25,10 @@ const swaggerHandler = withSwagger({
       }
     ],
     tags: [
+      {
+        name: 'Authentication',
+        description: 'API key management endpoints'
+      },
       {
         name: 'Credit Packs',
         description: 'Credit pack management endpoints'
@@ -60,7 +64,13 @@ const swaggerHandler = withSwagger({
           type: 'http',
           scheme: 'bearer',
           bearerFormat: 'PastelID',
-          description: 'Enter your PastelID token (format: pastelID.timestamp.signature)'
+          description: 'Enter your PastelID token (format: pastelID.timestamp.nonce.signature, signed over "pastelID:timestamp:nonce"; each nonce is accepted once)'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'Enter an API key issued for a PastelID through /api/auth/keys'
         }
       },
       schemas: {
@@ -134,6 +144,29 @@ const swaggerHandler = withSwagger({
             }
           }
         },
+        ForbiddenError: {
+          description: 'The credentials lack the scope the route requires',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error'
+              },
+              example: {
+                error: 'This request requires the spend scope'
+              }
+            }
+          }
+        },
+        TooManyRequestsError: {
+          description: 'Rate limit exceeded; retry after the Retry-After header',
+          content: {
+            'application/json': {
+              schema: {
+                $ref: '#/components/schemas/Error'
+              }
+            }
+          }
+        },
         ValidationError: {
           description: 'Invalid input parameters',
           content: {
@@ -162,11 +195,15 @@ const swaggerHandler = withSwagger({
     security: [
       {
         pastelIDAuth: []
+      },
+      {
+        apiKeyAuth: []
       }
     ]
   },
   apiFolder: 'src/app/api',
   scanPatterns: [
+    'auth/**/*.ts',
     'credit-packs/**/*.ts',
     'inference/**/*.ts',
     'messages/**/*.ts', 
@@ -3,6 +3,7 @@
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
 import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
 
 // Input validation schemas
 const baseModelInputSchema = z.object({
@@ -67,7 +68,10 @@ type InferenceRequest = z.infer<typeof inferenceRequestSchema>;
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const modelMenu = await api.getInferenceModelMenu();
     return NextResponse.json(modelMenu);
@@ -144,6 +148,9 @@ export async function GET(): Promise<NextResponse> {
  *         $ref: '#/components/responses/InternalError'
  */
 export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     
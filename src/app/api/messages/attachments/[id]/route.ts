@@ -0,0 +1,51 @@
+// src/app/api/messages/attachments/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/messages/attachments/{id}:
+ *   get:
+ *     tags: [Messages]
+ *     summary: Get an attachment's content
+ *     description: >
+ *       Reassembles an attachment and returns its content, base64-encoded for
+ *       binary files, once every part verified and the content matches the
+ *       signed manifest.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Verified attachment content
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attachment:
+ *                   $ref: '#/components/schemas/MessageAttachment'
+ *                 content:
+ *                   type: string
+ *       400:
+ *         description: Unknown, incomplete or unverified attachment
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getMessageAttachmentContent(params.id));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
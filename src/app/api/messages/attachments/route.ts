@@ -0,0 +1,212 @@
+// src/app/api/messages/attachments/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const pastelIDSchema = z.string()
+  .min(1, "PastelID is required")
+  .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format");
+
+const attachmentsQuerySchema = z.object({
+  pastelid: pastelIDSchema.optional(),
+});
+
+const sendAttachmentSchema = z.object({
+  toPastelID: pastelIDSchema,
+  file_name: z.string().trim().min(1, "File name is required").max(255),
+  mime_type: z.string().default("application/octet-stream"),
+  content: z.string(),
+  content_encoding: z.enum(["utf8", "base64"]).default("utf8"),
+});
+
+/**
+ * @swagger
+ * /api/messages/attachments:
+ *   get:
+ *     tags: [Messages]
+ *     summary: List attachments
+ *     description: >
+ *       Reassembles the attachments found in the message archive, optionally
+ *       only those exchanged with one PastelID, and reports whether each is
+ *       complete and verified.
+ *     parameters:
+ *       - in: query
+ *         name: pastelid
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachments in the order they arrived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MessageAttachment'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { pastelid } = attachmentsQuerySchema.parse(Object.fromEntries(searchParams));
+    return NextResponse.json(await api.getMessageAttachments(pastelid));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/messages/attachments:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Send an attachment
+ *     description: >
+ *       Compresses and hashes a file, signs its manifest with our PastelID and
+ *       sends the manifest and each chunk as encrypted messages. Binary files
+ *       are sent base64-encoded. The recipient's encryption key must be known.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - toPastelID
+ *               - file_name
+ *               - content
+ *             properties:
+ *               toPastelID:
+ *                 type: string
+ *                 pattern: ^jX[A-Za-z0-9]{84}$
+ *               file_name:
+ *                 type: string
+ *               mime_type:
+ *                 type: string
+ *                 default: application/octet-stream
+ *               content:
+ *                 type: string
+ *               content_encoding:
+ *                 type: string
+ *                 enum: [utf8, base64]
+ *                 default: utf8
+ *     responses:
+ *       200:
+ *         description: Attachment sent, with the parts no supernode took queued in the outbox
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 manifest:
+ *                   $ref: '#/components/schemas/AttachmentManifest'
+ *                 outbox_entries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MessageOutboxEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    const { toPastelID, ...input } = sendAttachmentSchema.parse(await request.json());
+    return NextResponse.json(await api.sendAttachment(toPastelID, input));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AttachmentManifest:
+ *       type: object
+ *       properties:
+ *         version:
+ *           type: integer
+ *         attachment_id:
+ *           type: string
+ *         file_name:
+ *           type: string
+ *         mime_type:
+ *           type: string
+ *         content_encoding:
+ *           type: string
+ *           enum: [utf8, base64]
+ *         content_length:
+ *           type: integer
+ *         content_sha3_256_hash:
+ *           type: string
+ *         compression:
+ *           type: string
+ *           enum: [deflate]
+ *         chunk_count:
+ *           type: integer
+ *         chunk_sha3_256_hashes:
+ *           type: array
+ *           items:
+ *             type: string
+ *         sender_pastelid:
+ *           type: string
+ *         recipient_pastelid:
+ *           type: string
+ *         created_at_utc_iso_string:
+ *           type: string
+ *         sender_signature:
+ *           type: string
+ *     MessageAttachment:
+ *       type: object
+ *       properties:
+ *         attachment_id:
+ *           type: string
+ *         direction:
+ *           type: string
+ *           enum: [incoming, outgoing]
+ *         counterpart_pastelid:
+ *           type: string
+ *         manifest:
+ *           allOf:
+ *             - $ref: '#/components/schemas/AttachmentManifest'
+ *           nullable: true
+ *         received_chunk_count:
+ *           type: integer
+ *         status:
+ *           type: string
+ *           enum: [incomplete, verified, invalid]
+ *         problems:
+ *           type: array
+ *           items:
+ *             type: string
+ */
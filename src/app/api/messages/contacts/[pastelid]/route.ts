@@ -0,0 +1,38 @@
+// src/app/api/messages/contacts/[pastelid]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/messages/contacts/{pastelid}:
+ *   delete:
+ *     tags: [Messages]
+ *     summary: Remove a contact
+ *     description: Removes a PastelID from the address book. Its messages stay archived.
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Contact removed
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    await api.deleteAddressBookEntry(params.pastelid);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
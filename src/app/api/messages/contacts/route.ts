@@ -0,0 +1,116 @@
+// src/app/api/messages/contacts/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const contactSchema = z.object({
+  pastelid: z.string()
+    .min(1, "PastelID is required")
+    .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format"),
+  name: z.string().trim().min(1, "Contact name is required").max(64),
+});
+
+/**
+ * @swagger
+ * /api/messages/contacts:
+ *   get:
+ *     tags: [Messages]
+ *     summary: List the address book
+ *     description: Lists the named PastelIDs of the address book, by name
+ *     responses:
+ *       200:
+ *         description: Address book retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AddressBookEntry'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getAddressBook());
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/messages/contacts:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Save a contact
+ *     description: Names a PastelID in the address book, or renames it
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - pastelid
+ *               - name
+ *             properties:
+ *               pastelid:
+ *                 type: string
+ *                 pattern: ^jX[A-Za-z0-9]{84}$
+ *               name:
+ *                 type: string
+ *                 maxLength: 64
+ *     responses:
+ *       200:
+ *         description: Contact saved
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AddressBookEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    const { pastelid, name } = contactSchema.parse(await request.json());
+    return NextResponse.json(await api.saveAddressBookEntry(pastelid, name));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AddressBookEntry:
+ *       type: object
+ *       properties:
+ *         pastelid:
+ *           type: string
+ *         name:
+ *           type: string
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         updated_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ */
@@ -0,0 +1,118 @@
+// src/app/api/messages/keys/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const importKeyStatementSchema = z.object({
+  statement: z.union([z.string().min(1, "Key statement is required"), z.record(z.unknown())]),
+});
+
+/**
+ * @swagger
+ * /api/messages/keys:
+ *   get:
+ *     tags: [Messages]
+ *     summary: List known encryption keys
+ *     description: Lists the verified encryption key statements of PastelIDs messages can be encrypted to, ours included
+ *     responses:
+ *       200:
+ *         description: Keys retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/EncryptionKeyStatement'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getKnownEncryptionKeys());
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/messages/keys:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Import an encryption key statement
+ *     description: >
+ *       Verifies a key statement shared by another PastelID over any channel
+ *       and keeps it, so messages can be encrypted to that PastelID.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - statement
+ *             properties:
+ *               statement:
+ *                 oneOf:
+ *                   - type: string
+ *                   - $ref: '#/components/schemas/EncryptionKeyStatement'
+ *     responses:
+ *       200:
+ *         description: Key statement verified and kept
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/EncryptionKeyStatement'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    const { statement } = importKeyStatementSchema.parse(await request.json());
+    return NextResponse.json(await api.importEncryptionKeyStatement(statement));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     EncryptionKeyStatement:
+ *       type: object
+ *       properties:
+ *         version:
+ *           type: integer
+ *         pastelid:
+ *           type: string
+ *         algorithm:
+ *           type: string
+ *           enum: [ECDH-P256]
+ *         encryption_public_key:
+ *           type: string
+ *           description: Uncompressed P-256 public key, base64
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         signature:
+ *           type: string
+ *           description: Signature of the statement by the PastelID
+ */
@@ -0,0 +1,72 @@
+// src/app/api/messages/keys/share/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const shareKeySchema = z.object({
+  toPastelID: z.string()
+    .min(1, "Recipient PastelID is required")
+    .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format"),
+  requestReply: z.boolean().default(true),
+});
+
+/**
+ * @swagger
+ * /api/messages/keys/share:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Share our encryption key
+ *     description: >
+ *       Sends our signed encryption key statement to a PastelID through the
+ *       supernodes, optionally asking for its statement in return. The key is
+ *       created the first time.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - toPastelID
+ *             properties:
+ *               toPastelID:
+ *                 type: string
+ *                 pattern: ^jX[A-Za-z0-9]{84}$
+ *               requestReply:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       200:
+ *         description: Key statement sent, or queued in the outbox when no supernode took it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessageOutboxEntry'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ *       500:
+ *         $ref: '#/components/responses/InternalError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    const { toPastelID, requestReply } = shareKeySchema.parse(await request.json());
+    return NextResponse.json(await api.shareEncryptionKey(toPastelID, requestReply));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
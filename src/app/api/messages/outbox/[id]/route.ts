@@ -0,0 +1,43 @@
+// src/app/api/messages/outbox/[id]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/messages/outbox/{id}:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Retry delivering a message
+ *     description: Retries a pending or failed outbox message right away, with its attempts reset
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delivery attempted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MessageOutboxEntry'
+ *       400:
+ *         description: Unknown or already delivered message
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.retryOutboxMessage(params.id));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
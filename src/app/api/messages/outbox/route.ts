@@ -0,0 +1,37 @@
+// src/app/api/messages/outbox/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/messages/outbox:
+ *   get:
+ *     tags: [Messages]
+ *     summary: List the outbox
+ *     description: >
+ *       Lists sent messages with their delivery status, the newest first.
+ *       Pending messages are retried on later syncs, on alternate supernodes
+ *       when the closest ones cannot be reached.
+ *     responses:
+ *       200:
+ *         description: Outbox retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/MessageOutboxEntry'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getMessageOutbox());
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
 import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
 
 // Input validation schema
 const sendMessageSchema = z.object({
@@ -22,7 +23,10 @@ type SendMessageRequest = z.infer<typeof sendMessageSchema>;
  *   get:
  *     tags: [Messages]
  *     summary: Get messages
- *     description: Retrieve received messages for authenticated PastelID
+ *     description: >
+ *       Fetch the messages of the authenticated PastelID from the supernodes
+ *       and archive the new ones, decrypted and with the verification of their
+ *       sender's signature
  *     security:
  *       - pastelIDAuth: []
  *     responses:
@@ -33,13 +37,16 @@ type SendMessageRequest = z.infer<typeof sendMessageSchema>;
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/UserMessage'
+ *                 $ref: '#/components/schemas/ArchivedUserMessage'
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const messages = await api.getReceivedMessages();
     return NextResponse.json(messages);
@@ -58,7 +65,10 @@ export async function GET(): Promise<NextResponse> {
  *   post:
  *     tags: [Messages]
  *     summary: Send message
- *     description: Send a message to another PastelID
+ *     description: >
+ *       Send a message to another PastelID, encrypted end to end to its
+ *       encryption key. Fails when no key of the recipient is known yet. A
+ *       message no supernode takes stays in the outbox and is retried.
  *     security:
  *       - pastelIDAuth: []
  *     requestBody:
@@ -91,6 +101,7 @@ export async function GET(): Promise<NextResponse> {
  *               required:
  *                 - sent_messages
  *                 - received_messages
+ *                 - outbox_entry
  *               properties:
  *                 sent_messages:
  *                   type: array
@@ -99,7 +110,9 @@ export async function GET(): Promise<NextResponse> {
  *                 received_messages:
  *                   type: array
  *                   items:
- *                     $ref: '#/components/schemas/UserMessage'
+ *                     $ref: '#/components/schemas/ArchivedUserMessage'
+ *                 outbox_entry:
+ *                   $ref: '#/components/schemas/MessageOutboxEntry'
  *       400:
  *         $ref: '#/components/responses/ValidationError'
  *       401:
@@ -108,6 +121,9 @@ export async function GET(): Promise<NextResponse> {
  *         $ref: '#/components/responses/InternalError'
  */
 export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     
@@ -169,4 +185,77 @@ export async function POST(request: Request): Promise<NextResponse> {
  *         timestamp:
  *           type: string
  *           format: date-time
- */
\ No newline at end of file
+ *     OpenedUserMessage:
+ *       allOf:
+ *         - $ref: '#/components/schemas/UserMessage'
+ *         - type: object
+ *           properties:
+ *             kind:
+ *               type: string
+ *               enum: [message, key_statement, plaintext]
+ *             is_encrypted:
+ *               type: boolean
+ *             body:
+ *               type: string
+ *               nullable: true
+ *               description: The decrypted text, or null when it could not be decrypted
+ *             reply_requested:
+ *               type: boolean
+ *             verification_status:
+ *               type: string
+ *               enum: [verified, invalid, unverified]
+ *             verification_problems:
+ *               type: array
+ *               items:
+ *                 type: string
+ *             decryption_error:
+ *               type: string
+ *               nullable: true
+ *     ArchivedUserMessage:
+ *       allOf:
+ *         - $ref: '#/components/schemas/OpenedUserMessage'
+ *         - type: object
+ *           properties:
+ *             owner_pastelid:
+ *               type: string
+ *             counterpart_pastelid:
+ *               type: string
+ *             direction:
+ *               type: string
+ *               enum: [incoming, outgoing]
+ *             read_at_utc_iso_string:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             archived_at_utc_iso_string:
+ *               type: string
+ *               format: date-time
+ *     MessageOutboxEntry:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         user_message:
+ *           $ref: '#/components/schemas/UserMessage'
+ *         status:
+ *           type: string
+ *           enum: [pending, sent, failed]
+ *         attempts:
+ *           type: integer
+ *         delivered_supernode_urls:
+ *           type: array
+ *           items:
+ *             type: string
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *         next_attempt_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         updated_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ */
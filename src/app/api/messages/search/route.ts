@@ -0,0 +1,60 @@
+// src/app/api/messages/search/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required"),
+});
+
+/**
+ * @swagger
+ * /api/messages/search:
+ *   get:
+ *     tags: [Messages]
+ *     summary: Search the message archive
+ *     description: >
+ *       Finds archived messages whose decrypted text, counterpart PastelID or
+ *       contact name contains the query, ignoring case. The newest come first.
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Matching messages
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ArchivedUserMessage'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const { q } = searchQuerySchema.parse(Object.fromEntries(searchParams));
+    return NextResponse.json(await api.searchMessages(q));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+// src/app/api/messages/threads/[pastelid]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/messages/threads/{pastelid}:
+ *   get:
+ *     tags: [Messages]
+ *     summary: Get a conversation
+ *     description: Returns the archived messages exchanged with a PastelID, oldest first
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conversation retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ArchivedUserMessage'
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getMessageThread(params.pastelid));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/messages/threads/{pastelid}:
+ *   post:
+ *     tags: [Messages]
+ *     summary: Mark a conversation read
+ *     description: Marks every message received from a PastelID as read
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conversation marked read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 marked_read:
+ *                   type: integer
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'infer');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json({
+      marked_read: await api.markMessageThreadRead(params.pastelid),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
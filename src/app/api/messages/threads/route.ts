@@ -0,0 +1,94 @@
+// src/app/api/messages/threads/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const threadsQuerySchema = z.object({
+  sync: z.enum(["true", "false"]).default("false"),
+});
+
+/**
+ * @swagger
+ * /api/messages/threads:
+ *   get:
+ *     tags: [Messages]
+ *     summary: List conversations
+ *     description: >
+ *       Lists the archived conversations of the PastelID in use, one per
+ *       counterpart PastelID, the most recent first. With sync=true the outbox
+ *       is retried and new messages are fetched first.
+ *     parameters:
+ *       - in: query
+ *         name: sync
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Conversations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 unread_count:
+ *                   type: integer
+ *                 threads:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MessageThread'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = threadsQuerySchema.parse(Object.fromEntries(searchParams));
+    if (query.sync === "true") {
+      await api.syncMessages();
+    }
+    const threads = await api.getMessageThreads();
+    return NextResponse.json({
+      unread_count: threads.reduce((total, thread) => total + thread.unread_count, 0),
+      threads,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MessageThread:
+ *       type: object
+ *       properties:
+ *         counterpart_pastelid:
+ *           type: string
+ *         name:
+ *           type: string
+ *           nullable: true
+ *           description: The name of the PastelID in the address book
+ *         last_message:
+ *           $ref: '#/components/schemas/ArchivedUserMessage'
+ *         message_count:
+ *           type: integer
+ *         unread_count:
+ *           type: integer
+ */
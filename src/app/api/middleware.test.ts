@@ -0,0 +1,105 @@
+// src/app/api/middleware.test.ts
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextResponse } from 'next/server';
+
+import { authorizeRequest } from '@/app/api/middleware';
+
+const PASTELID = `jX${'a'.repeat(84)}`;
+const OTHER_PASTELID = `jX${'b'.repeat(84)}`;
+
+// Stands in for the wallet's PastelID signatures, which need the WASM module
+const fakeSign = (pastelID: string, data: string) => `signed-${pastelID}-${data}`;
+
+vi.mock('@/app/lib/api', () => ({
+  listPastelIDs: async () => [PASTELID],
+  verifyMessageWithPastelID: async (pastelID: string, data: string, signature: string) =>
+    signature === fakeSign(pastelID, data),
+}));
+
+let nonceCounter = 0;
+const newNonce = () => `nonce-${Date.now()}-${++nonceCounter}`.padEnd(16, '0');
+
+const signToken = (
+  timestamp: number = Date.now(),
+  nonce: string = newNonce(),
+  pastelID: string = PASTELID
+) => `${pastelID}.${timestamp}.${nonce}.${fakeSign(pastelID, `${pastelID}:${timestamp}:${nonce}`)}`;
+
+const request = (token: string) =>
+  new Request('http://localhost/api/wallet', {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+async function errorOf(response: NextResponse | null): Promise<string | null> {
+  return response ? (await response.json()).error : null;
+}
+
+describe('authorizeRequest with PastelID tokens', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts a fresh token signed by an authorized PastelID', async () => {
+    expect(await authorizeRequest(request(signToken()), 'spend')).toBeNull();
+  });
+
+  it('refuses a token whose nonce was already used', async () => {
+    const token = signToken();
+    expect(await authorizeRequest(request(token), 'read')).toBeNull();
+    const replayed = await authorizeRequest(request(token), 'read');
+    expect(replayed?.status).toBe(401);
+    expect(await errorOf(replayed)).toBe('Authentication token was already used');
+  });
+
+  it('does not use up the nonce of a token with a bad signature', async () => {
+    const timestamp = Date.now();
+    const nonce = newNonce();
+    const forged = `${PASTELID}.${timestamp}.${nonce}.${fakeSign(OTHER_PASTELID, 'x')}`;
+    expect(await errorOf(await authorizeRequest(request(forged), 'read'))).toBe(
+      'Invalid PastelID signature'
+    );
+    expect(await authorizeRequest(request(signToken(timestamp, nonce)), 'read')).toBeNull();
+  });
+
+  it('refuses a token older than five minutes', async () => {
+    const token = signToken(Date.now() - 5 * 60 * 1000 - 1);
+    expect(await errorOf(await authorizeRequest(request(token), 'read'))).toBe(
+      'Authentication token expired'
+    );
+  });
+
+  it('refuses a token signed more than a minute in the future', async () => {
+    const token = signToken(Date.now() + 60 * 1000 + 1);
+    expect(await errorOf(await authorizeRequest(request(token), 'read'))).toBe(
+      'Authentication token expired'
+    );
+  });
+
+  it('refuses a token that expired while it was being replayed', async () => {
+    const token = signToken();
+    expect(await authorizeRequest(request(token), 'read')).toBeNull();
+    vi.advanceTimersByTime(6 * 60 * 1000);
+    expect(await errorOf(await authorizeRequest(request(token), 'read'))).toBe(
+      'Authentication token expired'
+    );
+  });
+
+  it('refuses PastelIDs that are not authorized', async () => {
+    const response = await authorizeRequest(
+      request(signToken(Date.now(), newNonce(), OTHER_PASTELID)),
+      'read'
+    );
+    expect(response?.status).toBe(403);
+  });
+
+  it('refuses malformed tokens', async () => {
+    const response = await authorizeRequest(request(`${PASTELID}.${Date.now()}.short.sig`), 'read');
+    expect(await errorOf(response)).toBe('Missing or invalid authentication token');
+  });
+});
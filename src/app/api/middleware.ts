@@ -1,69 +1,207 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import * as api from '@/app/lib/api';
-import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
 
+import { apiKeyStore } from '@/app/api/apiKeys';
+import { RateLimiter } from '@/app/api/rateLimiter';
+import { ApiIdentity, ApiScope } from '@/app/types';
+
 // Extend NextRequest type to include our custom properties
 declare module 'next/server' {
   interface NextRequest {
-    pastelID?: string;
     validatedBody?: unknown;
   }
 }
 
-// Rate limiting configuration
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later'
-});
+const TOKEN_MAX_AGE_MS = 5 * 60 * 1000;
+// Tolerated clock difference for tokens signed slightly in the future
+const TOKEN_MAX_CLOCK_SKEW_MS = 60 * 1000;
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
+
+// admin grants every other scope
+const SCOPE_GRANTS: Record<ApiScope, ApiScope[]> = {
+  read: ['read'],
+  infer: ['infer'],
+  spend: ['spend'],
+  admin: ['read', 'infer', 'spend', 'admin'],
+};
+
+// Rate limiting configuration: every client IP is limited before it is
+// authenticated, and every PastelID or API key after
+const ipLimiter = new RateLimiter(
+  Number(process.env.API_RATE_LIMIT_PER_IP) || 100,
+  RATE_LIMIT_WINDOW_MS
+);
+const identityLimiter = new RateLimiter(
+  Number(process.env.API_RATE_LIMIT_PER_IDENTITY) || 100,
+  RATE_LIMIT_WINDOW_MS
+);
+
+// Nonces of accepted tokens, kept until the tokens would have expired anyway
+const usedNonces: Map<string, number> = new Map();
+
+function consumeNonce(pastelID: string, nonce: string, now: number): boolean {
+  usedNonces.forEach((expiresAt, key) => {
+    if (expiresAt <= now) usedNonces.delete(key);
+  });
+  const key = `${pastelID}:${nonce}`;
+  if (usedNonces.has(key)) return false;
+  usedNonces.set(key, now + TOKEN_MAX_AGE_MS + TOKEN_MAX_CLOCK_SKEW_MS);
+  return true;
+}
+
+function unauthorized(error: string, status: number = 401): NextResponse {
+  return NextResponse.json({ error }, { status });
+}
 
-// PastelID Authentication middleware
-export async function authenticatePastelID(request: NextRequest) {
+/**
+ * The key the per-IP limit counts against. Forwarding headers are set by the
+ * client unless a proxy in front of the app overwrites them, so they are only
+ * read when TRUST_PROXY=true, and then only the entry the proxy appended.
+ * Otherwise requests the runtime cannot attribute to an IP share one bucket.
+ */
+function getClientIP(request: Request): string {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    const proxyEntry = forwardedFor?.split(',').pop()?.trim();
+    if (proxyEntry) return proxyEntry;
+  }
+  return (request as NextRequest).ip || 'direct';
+}
+
+function rateLimited(limiter: RateLimiter, key: string): NextResponse | null {
+  const result = limiter.check(key);
+  if (result.allowed) return null;
+  return NextResponse.json(
+    { error: 'Too many requests, please try again later' },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(result.retryAfter),
+        'X-RateLimit-Limit': String(result.limit),
+        'X-RateLimit-Remaining': String(result.remaining),
+      },
+    }
+  );
+}
+
+/**
+ * PastelIDs allowed to sign bearer tokens: those in this wallet and any
+ * listed in API_AUTHORIZED_PASTELIDS.
+ */
+export async function isAuthorizedPastelID(pastelID: string): Promise<boolean> {
+  const allowed = (process.env.API_AUTHORIZED_PASTELIDS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (allowed.includes(pastelID)) return true;
+  return (await api.listPastelIDs()).includes(pastelID);
+}
+
+/**
+ * Authenticates a bearer token of the form pastelID.timestamp.nonce.signature,
+ * where the signature is made with the PastelID over
+ * "pastelID:timestamp:nonce". Each nonce is accepted once, so a captured
+ * token cannot be replayed.
+ * @returns The identity, or the response to refuse the request with.
+ */
+export async function authenticatePastelID(
+  request: Request
+): Promise<ApiIdentity | NextResponse> {
   const authHeader = request.headers.get('Authorization');
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return new NextResponse(
-      JSON.stringify({ error: 'Missing or invalid authentication token' }),
-      { status: 401 }
-    );
+    return unauthorized('Missing or invalid authentication token');
   }
 
-  const token = authHeader.split(' ')[1];
-  try {
-    // Verify PastelID signature
-    const [pastelID, timestamp, signature] = token.split('.');
-    const message = `${pastelID}:${timestamp}`;
-    const isValid = await api.verifyMessageWithPastelID(pastelID, message, signature);
+  const [pastelID, timestamp, nonce, signature] = authHeader
+    .slice('Bearer '.length)
+    .trim()
+    .split('.');
+  if (!pastelID || !signature || !NONCE_PATTERN.test(nonce || '')) {
+    return unauthorized('Missing or invalid authentication token');
+  }
+
+  // Check timestamp to prevent replay attacks
+  const signatureTime = Number(timestamp);
+  const now = Date.now();
+  if (
+    !Number.isFinite(signatureTime) ||
+    now - signatureTime > TOKEN_MAX_AGE_MS ||
+    signatureTime - now > TOKEN_MAX_CLOCK_SKEW_MS
+  ) {
+    return unauthorized('Authentication token expired');
+  }
 
+  try {
+    if (!(await isAuthorizedPastelID(pastelID))) {
+      return unauthorized(`PastelID ${pastelID} is not authorized to use this API`, 403);
+    }
+    const isValid = await api.verifyMessageWithPastelID(
+      pastelID,
+      `${pastelID}:${timestamp}:${nonce}`,
+      signature
+    );
     if (!isValid) {
-      return new NextResponse(
-        JSON.stringify({ error: 'Invalid PastelID signature' }),
-        { status: 401 }
-      );
+      return unauthorized('Invalid PastelID signature');
     }
+  } catch {
+    return unauthorized('Authentication failed');
+  }
 
-    // Check timestamp to prevent replay attacks
-    const signatureTime = parseInt(timestamp);
-    const now = Date.now();
-    if (now - signatureTime > 5 * 60 * 1000) { // 5 minutes expiry
-      return new NextResponse(
-        JSON.stringify({ error: 'Authentication token expired' }),
-        { status: 401 }
-      );
-    }
+  if (!consumeNonce(pastelID, nonce, now)) {
+    return unauthorized('Authentication token was already used');
+  }
+  return { pastelid: pastelID, scopes: ['admin'], api_key_id: null };
+}
 
-    // Add PastelID to request context
-    request.pastelID = pastelID;
-    
-    return null; // Indicate success
-    
-  } catch {
-    return new NextResponse(
-      JSON.stringify({ error: 'Authentication failed' }),
-      { status: 401 }
-    );
+/**
+ * Authenticates an API key sent in the X-API-Key header.
+ * @returns The identity, or the response to refuse the request with.
+ */
+export async function authenticateApiKey(
+  request: Request
+): Promise<ApiIdentity | NextResponse> {
+  const apiKey = await apiKeyStore.authenticate(
+    request.headers.get('X-API-Key') || ''
+  );
+  if (!apiKey) {
+    return unauthorized('Invalid or revoked API key');
   }
+  return { pastelid: apiKey.pastelid, scopes: apiKey.scopes, api_key_id: apiKey.id };
+}
+
+/**
+ * Rate limits, authenticates and authorizes a request to a route handler.
+ * Requests carrying an X-API-Key header are authenticated by the key, all
+ * others by a PastelID-signed bearer token.
+ * @param scope - The scope the route requires.
+ * @returns null when the request may proceed, or the response to refuse it with.
+ */
+export async function authorizeRequest(
+  request: Request,
+  scope: ApiScope
+): Promise<NextResponse | null> {
+  const ipResponse = rateLimited(ipLimiter, getClientIP(request));
+  if (ipResponse) return ipResponse;
+
+  const identity = request.headers.has('X-API-Key')
+    ? await authenticateApiKey(request)
+    : await authenticatePastelID(request);
+  if (identity instanceof NextResponse) return identity;
+
+  const identityResponse = rateLimited(
+    identityLimiter,
+    identity.api_key_id || identity.pastelid
+  );
+  if (identityResponse) return identityResponse;
+
+  const granted = identity.scopes.some((held) => SCOPE_GRANTS[held].includes(scope));
+  if (!granted) {
+    return unauthorized(`This request requires the ${scope} scope`, 403);
+  }
+  return null; // Indicate success
 }
 
 // Error handling middleware
@@ -135,37 +273,3 @@ export function validateRequest(schema: z.ZodSchema) {
     }
   };
 }
-
-// Middleware configuration
-export const config = {
-  matcher: '/api/:path*',
-};
-
-// Main middleware function
-export async function middleware(request: NextRequest) {
-  // Apply rate limiting
-  const response = await limiter(request);
-  if (response) return response;
-
-  // Skip authentication for specific routes
-  const publicPaths = ['/api/docs', '/api/network/info'];
-  if (!publicPaths.includes(request.nextUrl.pathname)) {
-    // Apply authentication
-    const authResponse = await authenticatePastelID(request);
-    if (authResponse) return authResponse;
-  }
-
-  try {
-    // Continue to route handler
-    const response = await NextResponse.next();
-
-    // Add security headers
-    response.headers.set('X-Content-Type-Options', 'nosniff');
-    response.headers.set('X-Frame-Options', 'DENY');
-    response.headers.set('X-XSS-Protection', '1; mode=block');
-    
-    return response;
-  } catch (err) {
-    return errorHandler(err);
-  }
-}
\ No newline at end of file
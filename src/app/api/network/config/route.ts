@@ -0,0 +1,116 @@
+// src/app/api/network/config/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { PASTEL_NETWORKS } from '@/app/lib/networkConfig';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const networkConfigSchema = z.object({
+  network: z.enum(["Mainnet", "Testnet", "Devnet"]),
+  opennode_api_url: z.union([z.string().url("Invalid opennode API URL"), z.literal("")]).optional(),
+  burn_address: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/network/config:
+ *   get:
+ *     tags: [Network]
+ *     summary: Get network configuration
+ *     description: Returns the opennode API URL and burn address used on each network
+ *     responses:
+ *       200:
+ *         description: Network configuration retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               additionalProperties:
+ *                 $ref: '#/components/schemas/NetworkConfig'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(
+      Object.fromEntries(
+        PASTEL_NETWORKS.map((network) => [network, api.getNetworkSettings(network)])
+      )
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/network/config:
+ *   post:
+ *     tags: [Network]
+ *     summary: Configure a network
+ *     description: >
+ *       Overrides the opennode API URL or burn address of a network. An empty
+ *       value restores the default.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - network
+ *             properties:
+ *               network:
+ *                 type: string
+ *                 enum: [Mainnet, Testnet, Devnet]
+ *               opennode_api_url:
+ *                 type: string
+ *               burn_address:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Network configured
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/NetworkConfig'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const { network, ...config } = networkConfigSchema.parse(await request.json());
+    return NextResponse.json(api.setNetworkSettings(network, config));
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NetworkConfig:
+ *       type: object
+ *       properties:
+ *         opennode_api_url:
+ *           type: string
+ *         burn_address:
+ *           type: string
+ */
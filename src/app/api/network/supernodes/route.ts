@@ -2,6 +2,7 @@
 
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
 
 /**
  * @swagger
@@ -31,7 +32,10 @@ import * as api from '@/app/lib/api';
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const supernodeList = await api.checkSupernodeList();
     return NextResponse.json(supernodeList);
@@ -0,0 +1,85 @@
+// src/app/api/pastelid/managed/[pastelid]/export/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const exportSecureContainerSchema = z.object({
+  passphrase: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/pastelid/managed/{pastelid}/export:
+ *   post:
+ *     tags: [PastelID]
+ *     summary: Export a secure container
+ *     description: >
+ *       Exports the keys of a PastelID as a secure container encrypted with a
+ *       passphrase, the one stored for the PastelID unless one is given.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               passphrase:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secure container exported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 version:
+ *                   type: integer
+ *                 pastelid:
+ *                   type: string
+ *                 network:
+ *                   type: string
+ *                 secure_container_base64:
+ *                   type: string
+ *                 exported_at_utc_iso_string:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Unknown PastelID or no usable passphrase
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validated = exportSecureContainerSchema.parse(body);
+    return NextResponse.json(
+      await api.exportPastelIDSecureContainer(params.pastelid, validated.passphrase)
+    );
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
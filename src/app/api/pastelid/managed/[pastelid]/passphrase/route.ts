@@ -0,0 +1,79 @@
+// src/app/api/pastelid/managed/[pastelid]/passphrase/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const changePassphraseSchema = z.object({
+  currentPassphrase: z.string(),
+  newPassphrase: z.string().min(6, "The new passphrase must be at least 6 characters"),
+});
+
+/**
+ * @swagger
+ * /api/pastelid/managed/{pastelid}/passphrase:
+ *   put:
+ *     tags: [PastelID]
+ *     summary: Change a PastelID's passphrase
+ *     description: >
+ *       Replaces the passphrase stored for a PastelID, which later secure
+ *       container exports are encrypted with. The current passphrase has to
+ *       match the stored one; without a stored passphrase the change is refused.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassphrase, newPassphrase]
+ *             properties:
+ *               currentPassphrase:
+ *                 type: string
+ *               newPassphrase:
+ *                 type: string
+ *                 minLength: 6
+ *     responses:
+ *       200:
+ *         description: Passphrase changed
+ *       400:
+ *         description: Unknown PastelID, no stored passphrase or wrong current passphrase
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json();
+    const validated = changePassphraseSchema.parse(body);
+    await api.changePastelIDPassphrase(
+      params.pastelid,
+      validated.currentPassphrase,
+      validated.newPassphrase
+    );
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,45 @@
+// src/app/api/pastelid/managed/[pastelid]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/pastelid/managed/{pastelid}:
+ *   get:
+ *     tags: [PastelID]
+ *     summary: Get a managed PastelID
+ *     description: Returns a PastelID's registration status, ticket and credit packs.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: PastelID retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ManagedPastelID'
+ *       400:
+ *         description: Unknown PastelID
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json(await api.getManagedPastelID(params.pastelid));
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,223 @@
+// src/app/api/pastelid/managed/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const managedQuerySchema = z.object({
+  missing: z.enum(["true", "false"]).default("false"),
+});
+
+const importSecureContainerSchema = z.object({
+  pastelID: z.string()
+    .min(1, "PastelID is required")
+    .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format"),
+  secure_container_base64: z.string().min(1, "Secure container is required"),
+  passphrase: z.string().min(1, "Passphrase is required"),
+  rememberPassphrase: z.boolean().optional().default(true),
+  network: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/pastelid/managed:
+ *   get:
+ *     tags: [PastelID]
+ *     summary: List managed PastelIDs
+ *     description: >
+ *       Lists every local PastelID with its registration status, ticket and
+ *       credit packs, followed by PastelIDs that credit packs reference but
+ *       whose keys are missing from this wallet. With missing=true only the
+ *       missing ones are returned.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: missing
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: PastelIDs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ManagedPastelID'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = managedQuerySchema.parse(Object.fromEntries(searchParams));
+    const pastelIDs = query.missing === "true"
+      ? await api.getMissingPastelIDs()
+      : await api.getManagedPastelIDs();
+    return NextResponse.json(pastelIDs);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/pastelid/managed:
+ *   post:
+ *     tags: [PastelID]
+ *     summary: Import a secure container
+ *     description: >
+ *       Imports the keys of a PastelID from a secure container exported by
+ *       another wallet, decrypting it with its passphrase. The passphrase is
+ *       kept in the keystore unless rememberPassphrase is false.
+ *     security:
+ *       - pastelIDAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [pastelID, secure_container_base64, passphrase]
+ *             properties:
+ *               pastelID:
+ *                 type: string
+ *               secure_container_base64:
+ *                 type: string
+ *               passphrase:
+ *                 type: string
+ *               rememberPassphrase:
+ *                 type: boolean
+ *                 default: true
+ *               network:
+ *                 type: string
+ *                 description: The network the container was exported from
+ *     responses:
+ *       200:
+ *         description: PastelID imported
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ManagedPastelID'
+ *       400:
+ *         description: Invalid container, wrong passphrase or network mismatch
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json();
+    const validated = importSecureContainerSchema.parse(body);
+    const pastelID = await api.importPastelIDSecureContainer(
+      validated.pastelID,
+      validated.secure_container_base64,
+      validated.passphrase,
+      validated.rememberPassphrase,
+      validated.network
+    );
+    return NextResponse.json(pastelID);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PastelIDRegistration:
+ *       type: object
+ *       properties:
+ *         pastelid:
+ *           type: string
+ *         funding_address:
+ *           type: string
+ *         preview_id:
+ *           type: string
+ *         txid:
+ *           type: string
+ *         stage:
+ *           type: string
+ *           enum: [previewed, broadcast, registered, discarded, failed]
+ *         ticket_cost_in_psl:
+ *           type: number
+ *         fee_in_psl:
+ *           type: number
+ *         check_count:
+ *           type: integer
+ *         last_error:
+ *           type: string
+ *           nullable: true
+ *         last_checked_at_utc_iso_string:
+ *           type: string
+ *           nullable: true
+ *         broadcast_at_utc_iso_string:
+ *           type: string
+ *           nullable: true
+ *         registered_at_utc_iso_string:
+ *           type: string
+ *           nullable: true
+ *         created_at_utc_iso_string:
+ *           type: string
+ *         updated_at_utc_iso_string:
+ *           type: string
+ *     ManagedPastelID:
+ *       type: object
+ *       properties:
+ *         pastelid:
+ *           type: string
+ *         is_local:
+ *           type: boolean
+ *           description: False when only credit pack records know the PastelID
+ *         is_selected:
+ *           type: boolean
+ *         registration_status:
+ *           type: string
+ *           enum: [registered, pending, unregistered, unknown]
+ *         ticket:
+ *           type: object
+ *           nullable: true
+ *         registration:
+ *           $ref: '#/components/schemas/PastelIDRegistration'
+ *         has_stored_passphrase:
+ *           type: boolean
+ *         credit_packs:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               credit_pack_ticket_txid:
+ *                 type: string
+ *               credit_usage_tracking_psl_address:
+ *                 type: string
+ *               source:
+ *                 type: string
+ *                 enum: [purchase, watched, ledger]
+ */
@@ -0,0 +1,123 @@
+// src/app/api/pastelid/registrations/[pastelid]/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const registrationActionSchema = z.object({
+  action: z.enum(["confirm", "discard", "check"]),
+});
+
+/**
+ * @swagger
+ * /api/pastelid/registrations/{pastelid}:
+ *   get:
+ *     tags: [PastelID]
+ *     summary: Get a PastelID registration
+ *     description: Returns the progress of a registration started in this wallet.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Registration retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PastelIDRegistration'
+ *       404:
+ *         description: No registration was started for the PastelID
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  const registration = api.getPastelIDRegistration(params.pastelid);
+  if (!registration) {
+    return NextResponse.json(
+      { error: `No registration of PastelID ${params.pastelid} was started` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(registration);
+}
+
+/**
+ * @swagger
+ * /api/pastelid/registrations/{pastelid}:
+ *   post:
+ *     tags: [PastelID]
+ *     summary: Advance a PastelID registration
+ *     description: >
+ *       confirm broadcasts a previewed registration, discard drops it, and
+ *       check looks for the registration ticket of a broadcast one.
+ *     security:
+ *       - pastelIDAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: pastelid
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [action]
+ *             properties:
+ *               action:
+ *                 type: string
+ *                 enum: [confirm, discard, check]
+ *     responses:
+ *       200:
+ *         description: The updated registration
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PastelIDRegistration'
+ *       400:
+ *         description: Invalid action for the registration's stage
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { pastelid: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json();
+    const { action } = registrationActionSchema.parse(body);
+    switch (action) {
+      case "confirm":
+        return NextResponse.json(await api.confirmPastelIDRegistration(params.pastelid));
+      case "discard":
+        return NextResponse.json(api.discardPastelIDRegistration(params.pastelid));
+      case "check":
+        return NextResponse.json(await api.checkPastelIDRegistration(params.pastelid));
+    }
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
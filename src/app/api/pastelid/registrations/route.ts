@@ -0,0 +1,76 @@
+// src/app/api/pastelid/registrations/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const previewRegistrationSchema = z.object({
+  pastelID: z.string()
+    .regex(/^jX[A-Za-z0-9]{84}$/, "Invalid PastelID format")
+    .optional(),
+  fundingAddress: z.string().optional(),
+});
+
+/**
+ * @swagger
+ * /api/pastelid/registrations:
+ *   post:
+ *     tags: [PastelID]
+ *     summary: Preview a PastelID registration
+ *     description: >
+ *       Builds the registration ticket transaction of a PastelID, creating a
+ *       new PastelID when none is given, and returns it for review of its fee.
+ *       Nothing is sent until the registration is confirmed.
+ *     security:
+ *       - pastelIDAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               pastelID:
+ *                 type: string
+ *               fundingAddress:
+ *                 type: string
+ *                 description: Pays the fee; the address with the largest balance by default
+ *     responses:
+ *       200:
+ *         description: Registration previewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 registration:
+ *                   $ref: '#/components/schemas/PastelIDRegistration'
+ *                 preview:
+ *                   $ref: '#/components/schemas/TransactionPreview'
+ *       400:
+ *         description: Invalid request or the transaction could not be built
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validated = previewRegistrationSchema.parse(body);
+    return NextResponse.json(
+      await api.previewPastelIDRegistration(validated.pastelID, validated.fundingAddress)
+    );
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -4,6 +4,7 @@ import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
 import { z } from 'zod';
 import { PastelIDType } from '@/app/types';
+import { authorizeRequest } from '@/app/api/middleware';
 
 // Input validation schemas
 const importPastelIDSchema = z.object({
@@ -52,7 +53,10 @@ type SignMessageRequest = z.infer<typeof signMessageSchema>;
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const pastelIDs = await api.listPastelIDs();
     return NextResponse.json(pastelIDs);
@@ -95,7 +99,10 @@ export async function GET(): Promise<NextResponse> {
  *       500:
  *         $ref: '#/components/responses/InternalError'
  */
-export async function POST(): Promise<NextResponse> {
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
   try {
     const result = await api.createAndRegisterPastelID();
     return NextResponse.json(result);
@@ -160,6 +167,9 @@ export async function POST(): Promise<NextResponse> {
  *         $ref: '#/components/responses/InternalError'
  */
 export async function PUT(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     const validatedData = importPastelIDSchema.parse(body) as ImportPastelIDRequest;
@@ -239,6 +249,9 @@ export async function PUT(request: Request): Promise<NextResponse> {
  *         $ref: '#/components/responses/InternalError'
  */
 export async function PATCH(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const body = await request.json();
     const validatedData = signMessageSchema.parse(body) as SignMessageRequest;
@@ -2,6 +2,7 @@
 
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
 
 /**
  * @swagger
@@ -39,6 +40,9 @@ import * as api from '@/app/lib/api';
  *                   type: boolean
  */
 export async function POST(request: Request) {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const { pastelID, message, signature } = await request.json();
     const isValid = await api.verifyMessageWithPastelID(pastelID, message, signature);
@@ -0,0 +1,60 @@
+// src/app/api/rateLimiter.ts
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the current window ends
+  retryAfter: number;
+}
+
+/**
+ * Fixed-window request counter kept in memory by the server process. Unlike
+ * express-rate-limit it needs no Express request or response, so it works in
+ * App Router route handlers.
+ */
+export class RateLimiter {
+  private windows: Map<string, RateLimitWindow> = new Map();
+  private lastPrunedAt = 0;
+
+  constructor(
+    private readonly max: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Counts a request against a key, such as a client IP or an API key, and
+   * tells whether it is within the limit.
+   */
+  public check(key: string): RateLimitResult {
+    const now = Date.now();
+    this.prune(now);
+    let window = this.windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.windowMs };
+      this.windows.set(key, window);
+    }
+    window.count++;
+    return {
+      allowed: window.count <= this.max,
+      limit: this.max,
+      remaining: Math.max(0, this.max - window.count),
+      retryAfter: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < this.windowMs) return;
+    this.lastPrunedAt = now;
+    this.windows.forEach((window, key) => {
+      if (window.resetAt <= now) this.windows.delete(key);
+    });
+  }
+}
+
+export default RateLimiter;
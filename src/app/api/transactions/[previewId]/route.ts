@@ -0,0 +1,140 @@
+// src/app/api/transactions/[previewId]/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/transactions/{previewId}:
+ *   get:
+ *     tags: [Transactions]
+ *     summary: Get a transaction preview
+ *     description: Returns a signed transaction built by POST /api/transactions and its status
+ *     parameters:
+ *       - in: path
+ *         name: previewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preview found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TransactionPreview'
+ *       404:
+ *         description: No preview with this ID, or it has been cleaned up
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { previewId: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  const preview = api.getTransactionPreview(params.previewId);
+  if (!preview) {
+    return NextResponse.json(
+      { error: `Transaction preview ${params.previewId} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json(preview);
+}
+
+/**
+ * @swagger
+ * /api/transactions/{previewId}:
+ *   post:
+ *     tags: [Transactions]
+ *     summary: Confirm and broadcast a transaction preview
+ *     description: Broadcasts the previewed transaction. The body must explicitly confirm it.
+ *     parameters:
+ *       - in: path
+ *         name: previewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - confirm
+ *             properties:
+ *               confirm:
+ *                 type: boolean
+ *                 enum: [true]
+ *     responses:
+ *       200:
+ *         description: Transaction broadcast
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txid:
+ *                   type: string
+ *       400:
+ *         description: Not confirmed, already broadcast, discarded or expired
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { previewId: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const { confirm } = await request.json();
+    if (confirm !== true) {
+      return NextResponse.json(
+        { error: 'Broadcasting requires {"confirm": true}' },
+        { status: 400 }
+      );
+    }
+    const txid = await api.broadcastTransaction(params.previewId);
+    return NextResponse.json({ txid });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/transactions/{previewId}:
+ *   delete:
+ *     tags: [Transactions]
+ *     summary: Discard a transaction preview
+ *     description: Discards the previewed transaction so it can no longer be broadcast
+ *     parameters:
+ *       - in: path
+ *         name: previewId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Preview discarded
+ *       400:
+ *         description: Already broadcast, discarded or expired
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { previewId: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    api.discardTransaction(params.previewId);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,65 @@
+// src/app/api/transactions/advanced/broadcast/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const broadcastSchema = z.object({
+  txHex: z.string().regex(/^([0-9a-fA-F]{2})+$/, "Invalid transaction hex"),
+});
+
+/**
+ * @swagger
+ * /api/transactions/advanced/broadcast:
+ *   post:
+ *     tags: [Transactions]
+ *     summary: Broadcast signed transaction
+ *     description: >
+ *       Broadcasts a signed raw transaction, for example one created by
+ *       /api/transactions/advanced/raw with sign set to true
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - txHex
+ *             properties:
+ *               txHex:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction broadcast
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txid:
+ *                   type: string
+ *       400:
+ *         description: Invalid hex, or the node rejected the transaction
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const { txHex } = broadcastSchema.parse(await request.json());
+    const txid = await api.broadcastRawTransaction(txHex);
+    return NextResponse.json({ txid });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,95 @@
+// src/app/api/transactions/advanced/decode/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const decodeSchema = z.object({
+  txHex: z.string().regex(/^([0-9a-fA-F]{2})+$/, "Invalid transaction hex"),
+});
+
+/**
+ * @swagger
+ * /api/transactions/advanced/decode:
+ *   post:
+ *     tags: [Transactions]
+ *     summary: Decode raw transaction
+ *     description: Decode a raw transaction hex string, signed or not
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - txHex
+ *             properties:
+ *               txHex:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Transaction decoded successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DecodedRawTransaction'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { txHex } = decodeSchema.parse(await request.json());
+    const decodedTx = await api.decodeRawTransaction(txHex);
+    return NextResponse.json(decodedTx);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DecodedRawTransaction:
+ *       type: object
+ *       properties:
+ *         txid:
+ *           type: string
+ *         version:
+ *           type: number
+ *         locktime:
+ *           type: number
+ *         vin:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               txid:
+ *                 type: string
+ *               vout:
+ *                 type: number
+ *         vout:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               value:
+ *                 type: number
+ *               n:
+ *                 type: number
+ *               scriptPubKey:
+ *                 type: object
+ */
@@ -0,0 +1,137 @@
+// src/app/api/transactions/advanced/raw/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const rawTransactionSchema = z.object({
+  inputs: z.array(
+    z.object({
+      txid: z.string().regex(/^[0-9a-fA-F]{64}$/, "Invalid transaction ID"),
+      outputIndex: z.number().int().min(0),
+    })
+  ).min(1, "At least one input is required"),
+  outputs: z.array(
+    z.object({
+      address: z.string()
+        .min(1, "PSL address is required")
+        .regex(/^[a-zA-Z0-9]+$/, "Invalid PSL address format"),
+      amount: z.number().positive(),
+    })
+  ).min(1, "At least one output is required"),
+  sign: z.boolean().default(false),
+  changeAddress: z.string().optional(),
+  locktime: z.number().int().min(0).optional(),
+  expiryHeight: z.number().int().min(0).optional(),
+}).refine(
+  (body) => body.sign || body.changeAddress === undefined,
+  { message: "changeAddress only applies to signed transactions", path: ["changeAddress"] }
+).refine(
+  (body) => !body.sign || (body.locktime === undefined && body.expiryHeight === undefined),
+  { message: "locktime and expiryHeight only apply to unsigned transactions", path: ["sign"] }
+);
+
+/**
+ * @swagger
+ * /api/transactions/advanced/raw:
+ *   post:
+ *     tags: [Transactions]
+ *     summary: Create raw transaction
+ *     description: >
+ *       Create a raw transaction with specified inputs and outputs. Unsigned
+ *       transactions contain exactly the given outputs, so anything the
+ *       inputs hold beyond them is paid as fee. Signed transactions can only
+ *       spend wallet UTXOs; the fee is deducted and the rest is sent to the
+ *       change address, the address of the first input by default. Nothing is
+ *       broadcast; use /api/transactions/advanced/broadcast for that.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - inputs
+ *               - outputs
+ *             properties:
+ *               inputs:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     txid:
+ *                       type: string
+ *                     outputIndex:
+ *                       type: number
+ *               outputs:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     address:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                       description: Amount in PSL
+ *               sign:
+ *                 type: boolean
+ *                 default: false
+ *               changeAddress:
+ *                 type: string
+ *                 description: Signed transactions only
+ *               locktime:
+ *                 type: number
+ *                 description: Unsigned transactions only
+ *               expiryHeight:
+ *                 type: number
+ *                 description: Unsigned transactions only; 0 never expires
+ *     responses:
+ *       200:
+ *         description: Raw transaction created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 txHex:
+ *                   type: string
+ *                 signed:
+ *                   type: boolean
+ *                 preview:
+ *                   $ref: '#/components/schemas/TransactionPreview'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = rawTransactionSchema.parse(await request.json());
+    if (!body.sign) {
+      const txHex = await api.createRawTransaction(body.inputs, body.outputs, {
+        locktime: body.locktime,
+        expiryHeight: body.expiryHeight,
+      });
+      return NextResponse.json({ txHex, signed: false });
+    }
+    const preview = await api.createSignedTransaction(
+      body.inputs,
+      body.outputs,
+      body.changeAddress
+    );
+    return NextResponse.json({ txHex: preview.hex, signed: true, preview });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
@@ -0,0 +1,72 @@
+// src/app/api/transactions/advanced/utxos/[address]/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
+
+/**
+ * @swagger
+ * /api/transactions/advanced/utxos/{address}:
+ *   get:
+ *     tags: [Transactions]
+ *     summary: Get UTXOs for address
+ *     description: Retrieve unspent transaction outputs for a specific address
+ *     parameters:
+ *       - in: path
+ *         name: address
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: UTXOs retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/UTXO'
+ *       400:
+ *         description: Invalid address or the opennode request failed
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { address: string } }
+): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    if (!/^[a-zA-Z0-9]+$/.test(params.address)) {
+      return NextResponse.json(
+        { error: 'Invalid PSL address format' },
+        { status: 400 }
+      );
+    }
+    const utxos = await api.getAddressUtxos(params.address);
+    return NextResponse.json(utxos);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     UTXO:
+ *       type: object
+ *       properties:
+ *         address:
+ *           type: string
+ *         txid:
+ *           type: string
+ *         outputIndex:
+ *           type: number
+ *         script:
+ *           type: string
+ *         patoshis:
+ *           type: number
+ *         height:
+ *           type: number
+ */
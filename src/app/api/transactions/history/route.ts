@@ -0,0 +1,152 @@
+// src/app/api/transactions/history/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const historyQuerySchema = z.object({
+  search: z.string().optional(),
+  label: z.enum([
+    "credit_pack_purchase_burn",
+    "inference_tracking_burn",
+    "pastelid_registration",
+    "promotional_pack_funding",
+    "transfer",
+  ]).optional(),
+  address: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+  sync: z.enum(["true", "false"]).default("false"),
+});
+
+/**
+ * @swagger
+ * /api/transactions/history:
+ *   get:
+ *     tags: [Transactions]
+ *     summary: Search the wallet transaction history
+ *     description: >
+ *       Searches the locally indexed transactions of the wallet addresses,
+ *       newest first. With sync=true the index is brought up to date from the
+ *       opennode first.
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matched against txids, addresses and reference IDs
+ *       - in: query
+ *         name: label
+ *         schema:
+ *           type: string
+ *           enum: [credit_pack_purchase_burn, inference_tracking_burn, pastelid_registration, promotional_pack_funding, transfer]
+ *       - in: query
+ *         name: address
+ *         schema:
+ *           type: string
+ *         description: Only transactions touching this wallet address
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *       - in: query
+ *         name: sync
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: Matching transactions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 total:
+ *                   type: number
+ *                 transactions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TransactionHistoryEntry'
+ *                 sync:
+ *                   type: object
+ *                   description: Set when sync=true
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = historyQuerySchema.parse(Object.fromEntries(searchParams));
+    const sync = query.sync === "true" ? await api.syncTransactionHistory() : undefined;
+    const result = await api.searchTransactionHistory({
+      search: query.search,
+      label: query.label,
+      address: query.address,
+      limit: query.limit,
+      offset: query.offset,
+    });
+    return NextResponse.json({ ...result, sync });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TransactionHistoryEntry:
+ *       type: object
+ *       properties:
+ *         txid:
+ *           type: string
+ *         label:
+ *           type: string
+ *           enum: [credit_pack_purchase_burn, inference_tracking_burn, pastelid_registration, promotional_pack_funding, transfer]
+ *         direction:
+ *           type: string
+ *           enum: [incoming, outgoing, self]
+ *         net_amount_in_psl:
+ *           type: number
+ *         address_deltas_in_psl:
+ *           type: object
+ *           additionalProperties:
+ *             type: number
+ *         counterparty_addresses:
+ *           type: array
+ *           items:
+ *             type: string
+ *         reference_id:
+ *           type: string
+ *           description: Credit pack purchase hash, inference request ID, PastelID or promotional credit pack txid
+ *         block_height:
+ *           type: number
+ *           nullable: true
+ *         first_seen_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         updated_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ */
@@ -0,0 +1,191 @@
+// src/app/api/transactions/route.ts
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const outpointSchema = z.object({
+  txid: z.string().regex(/^[0-9a-fA-F]{64}$/, "Invalid transaction ID"),
+  outputIndex: z.number().int().min(0),
+});
+
+const buildTransactionSchema = z.object({
+  recipients: z.array(
+    z.object({
+      address: z.string()
+        .min(1, "PSL address is required")
+        .regex(/^[a-zA-Z0-9]+$/, "Invalid PSL address format"),
+      amount: z.number().positive(),
+    })
+  ).min(1, "At least one recipient is required"),
+  fromAddress: z.string().optional(),
+  coinSelection: z.object({
+    strategy: z.enum(["largest_first", "branch_and_bound", "privacy", "manual"]).optional(),
+    fromAddresses: z.array(z.string()).optional(),
+    selectedUtxos: z.array(outpointSchema).optional(),
+    changeAddress: z.string().optional(),
+    feeRateInPSLPerKb: z.number().positive().optional(),
+  }).optional(),
+});
+
+/**
+ * @swagger
+ * /api/transactions:
+ *   post:
+ *     tags: [Transactions]
+ *     summary: Build, sign and preview a transaction
+ *     description: >
+ *       Builds and signs a transaction and returns it decoded for review.
+ *       Nothing is broadcast until the preview is confirmed through
+ *       /api/transactions/{previewId}.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - recipients
+ *             properties:
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     address:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *                       description: Amount in PSL
+ *               fromAddress:
+ *                 type: string
+ *                 description: Funding address; the address with the largest balance by default
+ *               coinSelection:
+ *                 $ref: '#/components/schemas/CoinSelectionOptions'
+ *     responses:
+ *       200:
+ *         description: Transaction signed and awaiting confirmation
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 preview:
+ *                   $ref: '#/components/schemas/TransactionPreview'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'spend');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = buildTransactionSchema.parse(await request.json());
+    const preview = await api.buildTransaction(
+      body.recipients,
+      body.coinSelection,
+      body.fromAddress
+    );
+    return NextResponse.json({ preview });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CoinSelectionOptions:
+ *       type: object
+ *       properties:
+ *         strategy:
+ *           type: string
+ *           enum: [largest_first, branch_and_bound, privacy, manual]
+ *         fromAddresses:
+ *           type: array
+ *           items:
+ *             type: string
+ *         selectedUtxos:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               txid:
+ *                 type: string
+ *               outputIndex:
+ *                 type: number
+ *         changeAddress:
+ *           type: string
+ *         feeRateInPSLPerKb:
+ *           type: number
+ *     TransactionPreview:
+ *       type: object
+ *       properties:
+ *         preview_id:
+ *           type: string
+ *           format: uuid
+ *         txid:
+ *           type: string
+ *         hex:
+ *           type: string
+ *         coin_selection_strategy:
+ *           type: string
+ *         inputs:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               txid:
+ *                 type: string
+ *               vout:
+ *                 type: number
+ *               address:
+ *                 type: string
+ *               value_in_psl:
+ *                 type: number
+ *         outputs:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               n:
+ *                 type: number
+ *               address:
+ *                 type: string
+ *               value_in_psl:
+ *                 type: number
+ *               is_change:
+ *                 type: boolean
+ *         input_total_in_psl:
+ *           type: number
+ *         recipient_total_in_psl:
+ *           type: number
+ *         change_in_psl:
+ *           type: number
+ *         fee_in_psl:
+ *           type: number
+ *         size_in_bytes:
+ *           type: number
+ *         fee_rate_in_psl_per_kb:
+ *           type: number
+ *         status:
+ *           type: string
+ *           enum: [awaiting_confirmation, broadcasting, broadcast, discarded, expired]
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         expires_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ */
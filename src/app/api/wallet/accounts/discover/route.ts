@@ -0,0 +1,75 @@
+// src/app/api/wallet/accounts/discover/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const discoverSchema = z.object({
+  gapLimit: z.number().int().min(1).max(1000).optional(),
+});
+
+/**
+ * @swagger
+ * /api/wallet/accounts/discover:
+ *   post:
+ *     tags: [Wallet]
+ *     summary: Discover used addresses
+ *     description: >
+ *       Scans the wallet's HD addresses for history through the opennode,
+ *       deriving new addresses until gapLimit consecutive ones are unused.
+ *       Derived addresses are kept in the wallet.
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gapLimit:
+ *                 type: integer
+ *                 description: Defaults to the configured gap limit (20 unless changed)
+ *     responses:
+ *       200:
+ *         description: Discovery finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 gap_limit:
+ *                   type: number
+ *                 scanned_address_count:
+ *                   type: number
+ *                 derived_address_count:
+ *                   type: number
+ *                 used_address_count:
+ *                   type: number
+ *                 last_used_derivation_index:
+ *                   type: number
+ *                   nullable: true
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const text = await request.text();
+    const { gapLimit } = discoverSchema.parse(text ? JSON.parse(text) : {});
+    const result = await api.discoverAddresses(gapLimit);
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
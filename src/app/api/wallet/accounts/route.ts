@@ -0,0 +1,124 @@
+// src/app/api/wallet/accounts/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const createAccountSchema = z.object({
+  name: z.string().trim().min(1, "Account name is required").max(64),
+});
+
+/**
+ * @swagger
+ * /api/wallet/accounts:
+ *   get:
+ *     tags: [Wallet]
+ *     summary: List wallet accounts
+ *     description: Lists the named accounts of the wallet with their addresses, the default account first
+ *     responses:
+ *       200:
+ *         description: Accounts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/WalletAccountSummary'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    const accounts = await api.listWalletAccounts();
+    return NextResponse.json(accounts);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/wallet/accounts:
+ *   post:
+ *     tags: [Wallet]
+ *     summary: Create wallet account
+ *     description: Creates a named account to group wallet addresses, e.g. to keep credit pack tracking addresses apart
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Account created
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const { name } = createAccountSchema.parse(await request.json());
+    const account = await api.createWalletAccount(name);
+    return NextResponse.json(account);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WalletAccountSummary:
+ *       type: object
+ *       properties:
+ *         account:
+ *           type: object
+ *           properties:
+ *             account_id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             created_at_utc_iso_string:
+ *               type: string
+ *               format: date-time
+ *         addresses:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               address:
+ *                 type: string
+ *               account_id:
+ *                 type: string
+ *               derivation_index:
+ *                 type: number
+ *                 nullable: true
+ *               has_history:
+ *                 type: boolean
+ *         is_default:
+ *           type: boolean
+ *         is_credit_tracking_account:
+ *           type: boolean
+ */
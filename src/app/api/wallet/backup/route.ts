@@ -2,6 +2,7 @@
 
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
 
 /**
  * @swagger
@@ -19,7 +20,10 @@ import * as api from '@/app/lib/api';
  *               type: string
  *               format: binary
  */
-export async function GET() {
+export async function GET(request: Request) {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const walletData = await api.exportWallet();
     return new Response(walletData, {
@@ -61,6 +65,9 @@ export async function GET() {
  *         description: Wallet restored successfully
  */
 export async function POST(request: Request) {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const formData = await request.formData();
     const backupFile = formData.get('backupFile') as File;
@@ -110,6 +117,9 @@ export async function POST(request: Request) {
  *         description: Wallet created successfully from mnemonic
  */
 export async function PUT(request: Request) {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const { mnemonic, password } = await request.json();
     
@@ -0,0 +1,126 @@
+// src/app/api/wallet/profiles/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const createProfileSchema = z.object({
+  name: z.string().trim().min(1, "Profile name is required").max(64),
+  network: z.enum(["Mainnet", "Testnet", "Devnet"]).default("Mainnet"),
+});
+
+/**
+ * @swagger
+ * /api/wallet/profiles:
+ *   get:
+ *     tags: [Wallet]
+ *     summary: List wallet profiles
+ *     description: Lists the named wallet profiles kept side by side, with the one in use
+ *     responses:
+ *       200:
+ *         description: Profiles retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 activeProfileId:
+ *                   type: string
+ *                 profiles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WalletProfile'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json({
+      activeProfileId: api.getActiveWalletProfile().id,
+      profiles: api.getWalletProfiles(),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/wallet/profiles:
+ *   post:
+ *     tags: [Wallet]
+ *     summary: Create wallet profile
+ *     description: >
+ *       Adds an empty wallet profile on the given network. Its wallet is created
+ *       or imported when it is first switched to.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               network:
+ *                 type: string
+ *                 enum: [Mainnet, Testnet, Devnet]
+ *     responses:
+ *       200:
+ *         description: Profile created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WalletProfile'
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const { name, network } = createProfileSchema.parse(await request.json());
+    const profile = api.createWalletProfile(name, network);
+    return NextResponse.json(profile);
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WalletProfile:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         network:
+ *           type: string
+ *           enum: [Mainnet, Testnet, Devnet]
+ *         created_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         last_used_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ */
@@ -2,6 +2,7 @@
 
 import { NextResponse } from 'next/server';
 import * as api from '@/app/lib/api';
+import { authorizeRequest } from '@/app/api/middleware';
 
 /**
  * @swagger
@@ -33,6 +34,9 @@ import * as api from '@/app/lib/api';
  *                   $ref: '#/components/schemas/WalletInfo'
  */
 export async function POST(request: Request) {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const { password } = await request.json();
     const walletData = await api.createNewWallet(password);
@@ -75,6 +79,9 @@ export async function POST(request: Request) {
  *         description: Wallet imported successfully
  */
 export async function PUT(request: Request) {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
   try {
     const { importType, privateKey, walletData, password } = await request.json();
     
@@ -120,7 +127,10 @@ export async function PUT(request: Request) {
  *                       balance:
  *                         type: number
  */
-export async function GET() {
+export async function GET(request: Request) {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
   try {
     const balance = await api.getBalance();
     const addresses = await api.listAddressAmounts();
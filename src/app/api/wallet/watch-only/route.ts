@@ -0,0 +1,181 @@
+// src/app/api/wallet/watch-only/route.ts
+
+import { NextResponse } from 'next/server';
+import * as api from '@/app/lib/api';
+import { z } from 'zod';
+import { authorizeRequest } from '@/app/api/middleware';
+
+const watchSchema = z.object({
+  enabled: z.boolean().optional(),
+  addresses: z.array(z.string().min(1)).default([]),
+  pastelIDs: z.array(z.string().min(1)).default([]),
+  creditPacks: z.array(
+    z.object({
+      txid: z.string().regex(/^[0-9a-fA-F]{64}$/, "Invalid credit pack ticket ID"),
+      trackingAddress: z.string().min(1, "Tracking address is required"),
+      pastelID: z.string().default(""),
+    })
+  ).default([]),
+});
+
+/**
+ * @swagger
+ * /api/wallet/watch-only:
+ *   get:
+ *     tags: [Wallet]
+ *     summary: Get the watch-only wallet
+ *     description: Returns whether watch-only mode is on, with the watched addresses and their balances, PastelIDs and credit packs
+ *     responses:
+ *       200:
+ *         description: Watch-only wallet retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 enabled:
+ *                   type: boolean
+ *                 addresses:
+ *                   type: object
+ *                   additionalProperties:
+ *                     type: number
+ *                 pastelIDs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       pastelid:
+ *                         type: string
+ *                       is_registered:
+ *                         type: boolean
+ *                 creditPacks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WatchedCreditPackStatus'
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'read');
+  if (authResponse) return authResponse;
+
+  try {
+    return NextResponse.json({
+      enabled: api.isWatchOnlyWallet(),
+      addresses: await api.getWatchedAddressBalances(),
+      pastelIDs: await api.getWatchedPastelIDs(),
+      creditPacks: await api.getWatchedCreditPacks(),
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+}
+
+/**
+ * @swagger
+ * /api/wallet/watch-only:
+ *   post:
+ *     tags: [Wallet]
+ *     summary: Watch addresses, PastelIDs and credit packs
+ *     description: >
+ *       Adds addresses, PastelIDs and credit packs to the watch-only wallet and
+ *       optionally turns watch-only mode on or off. Watching a credit pack also
+ *       watches its tracking address.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               addresses:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               pastelIDs:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               creditPacks:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - txid
+ *                     - trackingAddress
+ *                   properties:
+ *                     txid:
+ *                       type: string
+ *                     trackingAddress:
+ *                       type: string
+ *                     pastelID:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Watch-only wallet updated
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  const authResponse = await authorizeRequest(request, 'admin');
+  if (authResponse) return authResponse;
+
+  try {
+    const body = watchSchema.parse(await request.json());
+    for (const address of body.addresses) {
+      await api.watchAddress(address);
+    }
+    for (const pastelID of body.pastelIDs) {
+      api.watchPastelID(pastelID);
+    }
+    for (const pack of body.creditPacks) {
+      await api.watchCreditPack(pack.txid, pack.trackingAddress, pack.pastelID);
+    }
+    if (body.enabled !== undefined) {
+      api.setWatchOnlyWallet(body.enabled);
+    }
+    return NextResponse.json({
+      enabled: api.isWatchOnlyWallet(),
+      addresses: api.getWatchedAddresses(),
+      pastelIDs: await api.getWatchedPastelIDs(),
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation failed',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+    return NextResponse.json({ error: errorMessage }, { status: 400 });
+  }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WatchedCreditPackStatus:
+ *       type: object
+ *       properties:
+ *         credit_pack_registration_txid:
+ *           type: string
+ *         credit_usage_tracking_psl_address:
+ *           type: string
+ *         requesting_end_user_pastelid:
+ *           type: string
+ *         added_at_utc_iso_string:
+ *           type: string
+ *           format: date-time
+ *         tracking_address_balance_in_psl:
+ *           type: number
+ *         tracking_transaction_count:
+ *           type: number
+ *         last_tracking_transaction_block_height:
+ *           type: number
+ *           nullable: true
+ */
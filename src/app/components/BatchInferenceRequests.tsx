@@ -0,0 +1,419 @@
+// src/app/components/BatchInferenceRequests.tsx
+
+"use client";
+
+import React, { useState, useEffect, useRef } from "react";
+import { Progress, Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import {
+  DEFAULT_BATCH_INFERENCE_OPTIONS,
+  parseBatchInferenceInput,
+} from "@/app/lib/batchInference";
+import { BatchInferenceJob, ModelMenu, ModelParameter } from "@/app/types";
+
+interface BatchInferenceRequestsProps {
+  modelMenu: ModelMenu | null;
+}
+
+const BATCH_INFERENCE_TYPES = [
+  { value: "text_completion", label: "Text Completion" },
+  { value: "text_to_image", label: "Image Generation" },
+];
+
+const getJobSummary = (job: BatchInferenceJob) => {
+  const count = (status: string) =>
+    job.items.filter((item) => item.status === status).length;
+  const finished = count("succeeded") + count("failed") + count("cancelled");
+  return {
+    finished,
+    succeeded: count("succeeded"),
+    failed: count("failed"),
+    running: count("running"),
+    interrupted: count("interrupted"),
+    totalCost: job.items.reduce((sum, item) => sum + item.cost_in_credits, 0),
+    percent: Math.floor((finished / job.items.length) * 100),
+  };
+};
+
+export default function BatchInferenceRequests({
+  modelMenu,
+}: BatchInferenceRequestsProps) {
+  const [jobs, setJobs] = useState<BatchInferenceJob[]>([]);
+  const [jobName, setJobName] = useState<string>("");
+  const [inferenceType, setInferenceType] = useState<string>("text_completion");
+  const [selectedModel, setSelectedModel] = useState<string>("");
+  const [maxCost, setMaxCost] = useState<string>("200");
+  const [concurrency, setConcurrency] = useState<string>(
+    DEFAULT_BATCH_INFERENCE_OPTIONS.concurrency.toString()
+  );
+  const [rateLimit, setRateLimit] = useState<string>(
+    DEFAULT_BATCH_INFERENCE_OPTIONS.maxRequestsPerSupernodePerMinute.toString()
+  );
+  const [status, setStatus] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = api.subscribeToBatchInferenceJobs(setJobs);
+    api
+      .getBatchInferenceJobs()
+      .then(setJobs)
+      .catch((error) =>
+        console.error("Error loading batch inference jobs:", error)
+      );
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const defaultModel = modelMenu?.models.find((model) =>
+      model.supported_inference_type_strings.includes(inferenceType)
+    );
+    setSelectedModel(defaultModel?.model_name || "");
+  }, [inferenceType, modelMenu]);
+
+  const getDefaultModelParameters = () => {
+    const params: Record<string, string> = {};
+    const model = modelMenu?.models.find(
+      (m) => m.model_name === selectedModel
+    );
+    model?.model_parameters.forEach((param: ModelParameter) => {
+      if (param.inference_types_parameter_applies_to.includes(inferenceType)) {
+        params[param.name] = param.default?.toString() || "";
+      }
+    });
+    return params;
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setStatus("Reading batch input file...");
+    try {
+      const file = fileInputRef.current?.files?.[0];
+      if (!file) {
+        throw new Error("No input file selected");
+      }
+      const selectedCreditPackTicket = document.querySelector<HTMLInputElement>(
+        'input[name="creditPackTicket"]:checked'
+      )?.value;
+      if (!selectedCreditPackTicket) {
+        throw new Error("No credit pack ticket selected");
+      }
+      const format = file.name.toLowerCase().endsWith(".csv") ? "csv" : "jsonl";
+      const paramsList = parseBatchInferenceInput(await file.text(), format, {
+        creditPackTicketPastelTxid: selectedCreditPackTicket,
+        requestedModelCanonicalString: selectedModel,
+        modelInferenceTypeString: inferenceType,
+        modelParameters: getDefaultModelParameters(),
+        maximumInferenceCostInCredits: parseFloat(maxCost),
+      });
+      const job = await api.createBatchInferenceJob(
+        jobName || file.name,
+        paramsList,
+        {
+          concurrency: parseInt(concurrency, 10),
+          maxRequestsPerSupernodePerMinute: parseInt(rateLimit, 10),
+        }
+      );
+      setStatus(
+        `Started batch job "${job.name}" with ${job.items.length} requests.`
+      );
+      setJobName("");
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+    } catch (error) {
+      console.error("Error creating batch inference job:", error);
+      setStatus(
+        `Failed to create batch job: ${(error as Error).message}`
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const runJobAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+  };
+
+  const exportJob = (job: BatchInferenceJob, format: "csv" | "jsonl") => {
+    const content = api.exportBatchInferenceJob(job.job_id, format);
+    const blob = new Blob([content], {
+      type: format === "csv" ? "text/csv" : "application/x-ndjson",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `batch_${job.name.replace(/[^\w.-]+/g, "_")}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="lg:col-span-1 flex flex-col">
+        <h2 className="text-2xl mb-4 text-bw-800">Batch Inference Requests</h2>
+        <form className="grid grid-cols-1 gap-4" onSubmit={handleSubmit}>
+          <div>
+            <label
+              className="block text-bw-700 font-bold mb-2"
+              htmlFor="batchInputFile"
+            >
+              Input File (CSV with a header row, or JSONL)
+            </label>
+            <input
+              type="file"
+              className="input w-full"
+              id="batchInputFile"
+              accept=".csv,.jsonl,.json,.txt"
+              ref={fileInputRef}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-bw-700 font-bold mb-2"
+              htmlFor="batchJobName"
+            >
+              Job Name
+            </label>
+            <input
+              className="input w-full"
+              id="batchJobName"
+              type="text"
+              placeholder="Defaults to the file name"
+              value={jobName}
+              onChange={(e) => setJobName(e.target.value)}
+            />
+          </div>
+          <div>
+            <label
+              className="block text-bw-700 font-bold mb-2"
+              htmlFor="batchInferenceType"
+            >
+              Inference Type
+            </label>
+            <select
+              id="batchInferenceType"
+              className="select w-full"
+              value={inferenceType}
+              onChange={(e) => setInferenceType(e.target.value)}
+            >
+              {BATCH_INFERENCE_TYPES.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label
+              className="block text-bw-700 font-bold mb-2"
+              htmlFor="batchModel"
+            >
+              Model/Service
+            </label>
+            <select
+              id="batchModel"
+              className="select w-full"
+              value={selectedModel}
+              onChange={(e) => setSelectedModel(e.target.value)}
+            >
+              {modelMenu?.models
+                .filter((model) =>
+                  model.supported_inference_type_strings.includes(inferenceType)
+                )
+                .map((model) => (
+                  <option key={model.model_name} value={model.model_name}>
+                    {model.model_name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label
+                className="block text-bw-700 font-bold mb-2"
+                htmlFor="batchMaxCost"
+              >
+                Max Cost / Item
+              </label>
+              <input
+                className="input w-full"
+                id="batchMaxCost"
+                type="text"
+                value={maxCost}
+                onChange={(e) => setMaxCost(e.target.value)}
+              />
+            </div>
+            <div>
+              <label
+                className="block text-bw-700 font-bold mb-2"
+                htmlFor="batchConcurrency"
+              >
+                Concurrency
+              </label>
+              <input
+                className="input w-full"
+                id="batchConcurrency"
+                type="number"
+                min={1}
+                value={concurrency}
+                onChange={(e) => setConcurrency(e.target.value)}
+              />
+            </div>
+            <div>
+              <label
+                className="block text-bw-700 font-bold mb-2"
+                htmlFor="batchRateLimit"
+              >
+                Req / Node / Min
+              </label>
+              <input
+                className="input w-full"
+                id="batchRateLimit"
+                type="number"
+                min={1}
+                value={rateLimit}
+                onChange={(e) => setRateLimit(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex gap-4 items-center">
+            <button
+              className="btn success outline w-44"
+              type="submit"
+              disabled={isLoading}
+            >
+              Start Batch Job
+            </button>
+            <Loading
+              isLoading={isLoading}
+              className="font-normal text-sm"
+              text="Processing..."
+            />
+          </div>
+          {status && <p className="text-sm text-bw-700">{status}</p>}
+        </form>
+      </div>
+      <div className="lg:col-span-2 bg-gray-50 p-4 rounded-lg">
+        {jobs.length === 0 ? (
+          <p className="text-gray-500">
+            No batch jobs yet. Upload a CSV or JSONL file of prompts to start
+            one; all requests are paid from the selected credit pack.
+          </p>
+        ) : (
+          <div style={{ maxHeight: "1000px", overflowY: "auto" }}>
+            {jobs.map((job) => {
+              const summary = getJobSummary(job);
+              return (
+                <div
+                  key={job.job_id}
+                  className="mb-4 p-4 bg-white rounded-lg border border-gray-200"
+                >
+                  <div className="flex justify-between items-center mb-2">
+                    <span className="font-bold">{job.name}</span>
+                    <span className="text-sm text-bw-700">{job.status}</span>
+                  </div>
+                  <Progress
+                    percent={summary.percent}
+                    status={
+                      job.status === "running"
+                        ? "active"
+                        : summary.failed > 0
+                        ? "exception"
+                        : "normal"
+                    }
+                  />
+                  <p className="text-sm text-bw-700 mb-2">
+                    {summary.finished} of {job.items.length} finished
+                    {" · "}
+                    {summary.succeeded} succeeded, {summary.failed} failed,{" "}
+                    {summary.running} running
+                    {summary.interrupted > 0 &&
+                      `, ${summary.interrupted} interrupted`}
+                    {" · "}
+                    {summary.totalCost} credits spent
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {job.status === "running" && (
+                      <button
+                        className="btn outline"
+                        onClick={() =>
+                          runJobAction(() =>
+                            api.pauseBatchInferenceJob(job.job_id)
+                          )
+                        }
+                      >
+                        ⏸ Pause
+                      </button>
+                    )}
+                    {job.status === "paused" && (
+                      <button
+                        className="btn success outline"
+                        onClick={() =>
+                          runJobAction(() =>
+                            api.resumeBatchInferenceJob(job.job_id)
+                          )
+                        }
+                      >
+                        ▶ Resume
+                      </button>
+                    )}
+                    {(job.status === "running" || job.status === "paused") && (
+                      <Tooltip title="Requests that already started will still finish">
+                        <button
+                          className="btn outline"
+                          onClick={() =>
+                            runJobAction(() =>
+                              api.cancelBatchInferenceJob(job.job_id)
+                            )
+                          }
+                        >
+                          ✖ Cancel
+                        </button>
+                      </Tooltip>
+                    )}
+                    <button
+                      className="btn success outline"
+                      onClick={() => exportJob(job, "csv")}
+                    >
+                      💾 Export CSV
+                    </button>
+                    <button
+                      className="btn success outline"
+                      onClick={() => exportJob(job, "jsonl")}
+                    >
+                      💾 Export JSONL
+                    </button>
+                    {(job.status === "completed" ||
+                      job.status === "cancelled") &&
+                      summary.running === 0 && (
+                        <button
+                          className="delete-btn"
+                          onClick={() =>
+                            runJobAction(() =>
+                              api.deleteBatchInferenceJob(job.job_id)
+                            )
+                          }
+                        >
+                          ❌
+                        </button>
+                      )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import useStore from '@/app/store/useStore';
 const { Title, Paragraph } = Typography;
 
 const ConnectWallet: React.FC = () => {
-  const { setShowConnectWallet, createNewWallet, setShowImportExistingWallet, showConnectWallet } = useStore();
+  const { setShowConnectWallet, createNewWallet, setShowImportExistingWallet, showConnectWallet, enterWatchOnlyMode } = useStore();
   if (!showConnectWallet) {
     return null;
   }
@@ -46,6 +46,15 @@ const ConnectWallet: React.FC = () => {
               Import Existing Wallet
             </Button>
           </div>
+          <div className='mb-4'>
+            <Button
+              onClick={enterWatchOnlyMode}
+              className="btn outline w-full sm:w-80 transition duration-300 text-base font-bold"
+            >
+              Watch-Only Mode
+            </Button>
+          </div>
+          <Paragraph className="text-sm text-gray-500">Watch-only mode monitors addresses, PastelIDs and credit packs without holding any keys.</Paragraph>
         </div>
       </Modal>
     </div>
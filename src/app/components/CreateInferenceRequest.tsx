@@ -15,6 +15,7 @@ import {
   InferenceRequestParams,
 } from "@/app/types";
 import * as api from "@/app/lib/api";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
 import useStore from "@/app/store/useStore";
 
 interface CreateInferenceRequestProps {
@@ -80,6 +81,8 @@ export default function CreateInferenceRequest({
   const [inferenceResult, setInferenceResult] =
     useState<InferenceResultDict | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [auditResults, setAuditResults] = useState<boolean>(true);
+  const [streamedText, setStreamedText] = useState<string>("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const generateModelParameterFields = useCallback(
@@ -97,6 +100,10 @@ export default function CreateInferenceRequest({
     [inferenceType]
   );
 
+  useEffect(() => {
+    setAuditResults(api.isInferenceAuditEnabled());
+  }, []);
+
   useEffect(() => {
     if (modelMenu) {
       const defaultModel = modelMenu.models.find((model) =>
@@ -148,6 +155,7 @@ export default function CreateInferenceRequest({
     setIsLoading(true);
     setStatus("Creating new inference request...");
     setInferenceResult(null);
+    setStreamedText("");
 
     try {
       let modelInputData: InferenceRequestParams["modelInputData"];
@@ -217,11 +225,17 @@ export default function CreateInferenceRequest({
         maximumInferenceCostInCredits: parseFloat(maxCost),
       };
 
-      const result = await api.createInferenceRequest(params, handleLogger);
+      const result = await api.createInferenceRequest(
+        params,
+        handleLogger,
+        (token) => setStreamedText((prev) => prev + token),
+        () => setStreamedText("")
+      );
 
       if (result) {
         setStatus("Inference request created successfully.");
         setInferenceResult(result);
+        setStreamedText("");
         saveInferenceRequestToLocalStorage(result);
         getRequests();
       } else {
@@ -265,7 +279,7 @@ export default function CreateInferenceRequest({
     inferenceResultDict: InferenceResultDict
   ) => {
     const requests = JSON.parse(
-      localStorage.getItem("inferenceRequests") || "[]"
+      localStorage.getItem(getNetworkStorageKey("inferenceRequests")) || "[]"
     );
     const elapsedTimeInSeconds = Math.floor(
       (new Date().getTime() -
@@ -297,7 +311,7 @@ export default function CreateInferenceRequest({
         inferenceResultDict.request_data.inference_request_utc_iso_string,
     };
     requests.push(newRequest);
-    localStorage.setItem("inferenceRequests", JSON.stringify(requests));
+    localStorage.setItem(getNetworkStorageKey("inferenceRequests"), JSON.stringify(requests));
   };
 
   const renderInferenceResult = () => {
@@ -665,6 +679,21 @@ export default function CreateInferenceRequest({
           />
         </div>
 
+        <div className="mb-4">
+          <label className="text-sm text-bw-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={auditResults}
+              onChange={(e) => {
+                api.setInferenceAuditEnabled(e.target.checked);
+                setAuditResults(e.target.checked);
+              }}
+            />
+            Check results with auditing supernodes before showing them
+          </label>
+        </div>
+
         <div className="col-span-full">
           <button
             type="button"
@@ -736,6 +765,12 @@ export default function CreateInferenceRequest({
         </div>
       </form>
 
+      {streamedText && !inferenceResult && (
+        <div className="inference-result">
+          <h3 className="font-bold text-xl mb-4">Inference Result (streaming):</h3>
+          <pre className="whitespace-pre-wrap">{streamedText}</pre>
+        </div>
+      )}
       <div id="inferenceRequestResult">{renderInferenceResult()}</div>
     </div>
   );
@@ -0,0 +1,239 @@
+// src/app/components/CreditPackLedger.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import {
+  CreditPackLedger as CreditPackLedgerData,
+  CreditPackLedgerReconciliationStatus,
+  CreditPackLedgerTotal,
+} from "@/app/types";
+
+const RECONCILIATION_LABELS: Record<
+  CreditPackLedgerReconciliationStatus,
+  string
+> = {
+  unreconciled: "Not checked",
+  not_paid: "Not paid",
+  matched: "On chain",
+  missing_on_chain: "Missing on chain",
+};
+
+const formatCredits = (credits: number) =>
+  parseFloat(credits.toFixed(4)).toString();
+
+function TotalsTable({
+  title,
+  keyLabel,
+  totals,
+}: {
+  title: string;
+  keyLabel: string;
+  totals: CreditPackLedgerTotal[];
+}) {
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-bw-800 mb-2">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-bw-700">
+            <th className="py-1">{keyLabel}</th>
+            <th className="py-1">Requests</th>
+            <th className="py-1">Credits</th>
+          </tr>
+        </thead>
+        <tbody>
+          {totals.map((total) => (
+            <tr key={total.key} className="border-t border-gray-200">
+              <td className="py-1 break-all">{total.key}</td>
+              <td className="py-1">{total.request_count}</td>
+              <td className="py-1">
+                {formatCredits(total.total_cost_in_credits)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function CreditPackLedger() {
+  const [ticketIds, setTicketIds] = useState<string[]>([]);
+  const [selectedTicketId, setSelectedTicketId] = useState<string>("");
+  const [ledger, setLedger] = useState<CreditPackLedgerData | null>(null);
+  const [status, setStatus] = useState<string>("");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const loadTicketIds = useCallback(async () => {
+    try {
+      const ids = await api.getCreditPackLedgerTicketIds();
+      setTicketIds(ids);
+      setSelectedTicketId((current) => current || ids[0] || "");
+    } catch (error) {
+      console.error("Error loading credit pack ledger:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTicketIds();
+  }, [loadTicketIds]);
+
+  const reconcileLedger = async () => {
+    if (!selectedTicketId) return;
+    setIsLoading(true);
+    setStatus("");
+    try {
+      const data = await api.getCreditPackLedger(selectedTicketId);
+      setLedger(data);
+      const missing = data.entries.filter(
+        (entry) => entry.reconciliation_status === "missing_on_chain"
+      ).length;
+      if (missing > 0 || data.unrecorded_tracking_txids.length > 0) {
+        setStatus(
+          `${missing} recorded tracking transactions are missing on chain and ${data.unrecorded_tracking_txids.length} tracking address transactions are not in the ledger.`
+        );
+      }
+    } catch (error) {
+      console.error("Error reconciling credit pack ledger:", error);
+      setStatus(`Failed to load ledger: ${(error as Error).message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Credit Pack Ledger</h2>
+      {ticketIds.length === 0 ? (
+        <p className="text-gray-500">
+          No credits have been spent yet. Every inference request is recorded
+          here once a supernode quotes its cost.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-4 items-center">
+          <select
+            className="select flex-1 min-w-0"
+            value={selectedTicketId}
+            onChange={(e) => {
+              setSelectedTicketId(e.target.value);
+              setLedger(null);
+            }}
+          >
+            {ticketIds.map((txid) => (
+              <option key={txid} value={txid}>
+                {txid}
+              </option>
+            ))}
+          </select>
+          <Tooltip title="Checks every tracking transaction against the history of the credit pack's tracking address">
+            <button
+              className="btn success outline w-44"
+              onClick={reconcileLedger}
+              disabled={isLoading}
+            >
+              Reconcile Ledger
+            </button>
+          </Tooltip>
+          <Loading
+            isLoading={isLoading}
+            className="font-normal text-sm"
+            text="Reconciling..."
+          />
+        </div>
+      )}
+      {status && <p className="text-sm text-red-500">{status}</p>}
+      {ledger && (
+        <>
+          <p className="text-sm text-bw-700">
+            {formatCredits(ledger.total_cost_in_credits)} credits spent on{" "}
+            {ledger.entries.filter((entry) => entry.tracking_transaction_txid)
+              .length}{" "}
+            paid requests, tracked by{" "}
+            {ledger.credit_usage_tracking_psl_address}
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <TotalsTable
+              title="Totals per Model"
+              keyLabel="Model"
+              totals={ledger.totals_by_model}
+            />
+            <TotalsTable
+              title="Totals per Day"
+              keyLabel="Day (UTC)"
+              totals={ledger.totals_by_day}
+            />
+          </div>
+          <div
+            className="bg-gray-50 p-4 rounded-lg"
+            style={{ maxHeight: "500px", overflowY: "auto" }}
+          >
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-bw-700">
+                  <th className="py-1">Date</th>
+                  <th className="py-1">Model</th>
+                  <th className="py-1">Type</th>
+                  <th className="py-1">Credits</th>
+                  <th className="py-1">Status</th>
+                  <th className="py-1">Tracking TXID</th>
+                  <th className="py-1">Reconciliation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.entries.map((entry) => (
+                  <tr
+                    key={entry.inference_request_id}
+                    className="border-t border-gray-200"
+                  >
+                    <td className="py-1">
+                      {new Date(
+                        entry.created_at_utc_iso_string
+                      ).toLocaleString()}
+                    </td>
+                    <td className="py-1">{entry.model_name}</td>
+                    <td className="py-1">{entry.inference_type}</td>
+                    <td className="py-1">
+                      {formatCredits(
+                        entry.proposed_cost_of_request_in_inference_credits
+                      )}
+                    </td>
+                    <td className="py-1">{entry.status}</td>
+                    <td className="py-1 break-all">
+                      {entry.tracking_transaction_txid || "-"}
+                    </td>
+                    <td
+                      className={`py-1 ${
+                        entry.reconciliation_status === "missing_on_chain"
+                          ? "text-red-500"
+                          : ""
+                      }`}
+                    >
+                      {RECONCILIATION_LABELS[entry.reconciliation_status]}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {ledger.unrecorded_tracking_txids.length > 0 && (
+            <div>
+              <h3 className="text-lg font-bold text-bw-800 mb-2">
+                Tracking Address Transactions Not in the Ledger
+              </h3>
+              <ul className="text-sm break-all">
+                {ledger.unrecorded_tracking_txids.map((txid) => (
+                  <li key={txid}>{txid}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Button, Select } from "antd";
 import useStore from "../store/useStore";
 import { CreditPack } from "@/app/types";
 import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
 import { NetworkMode } from "@/app/types";
 
 export default function ExistingPromotionalPacks() {
@@ -28,7 +29,7 @@ export default function ExistingPromotionalPacks() {
 
         // Get stored private keys
         const storedKeys = JSON.parse(
-          localStorage.getItem("psltKeyStore") || "{}"
+          localStorage.getItem(getNetworkStorageKey("psltKeyStore")) || "{}"
         );
 
         // Filter packs to only include ones where we have the private key in our wallet
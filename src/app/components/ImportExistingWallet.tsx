@@ -77,9 +77,8 @@ const ImportExistingWallet: React.FC = () => {
       isPrivateKeyLoading: true,
     });
     try {
-      localStorage.removeItem("walletPassword");
       const password = generateSecurePassword();
-      localStorage.setItem("walletPassword", password);
+      await api.storeWalletPassword(password);
       setInitialPassword(password);
       await api.createNewWallet(password);
       await api.importPrivKey(privKey);
@@ -0,0 +1,104 @@
+// src/app/components/KeystoreSettings.tsx
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Tooltip } from "antd";
+
+import * as api from "@/app/lib/api";
+import useStore from "@/app/store/useStore";
+
+export default function KeystoreSettings() {
+  const { lockWallet } = useStore();
+  const [autoLockMinutes, setAutoLockMinutes] = useState<string>("");
+  const [currentPin, setCurrentPin] = useState<string>("");
+  const [newPin, setNewPin] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+
+  useEffect(() => {
+    setAutoLockMinutes(api.getKeystoreAutoLockMinutes().toString());
+  }, []);
+
+  const saveAutoLock = async () => {
+    try {
+      await api.setKeystoreAutoLockMinutes(parseFloat(autoLockMinutes));
+      setStatus(
+        parseFloat(autoLockMinutes) > 0
+          ? `The keystore now locks after ${autoLockMinutes} idle minutes.`
+          : "Auto-lock is disabled."
+      );
+    } catch (error) {
+      setStatus(`Failed to save the auto-lock timeout: ${(error as Error).message}`);
+    }
+  };
+
+  const changePin = async () => {
+    try {
+      await api.changeKeystorePin(currentPin, newPin);
+      setCurrentPin("");
+      setNewPin("");
+      setStatus("PIN changed.");
+    } catch (error) {
+      setStatus(`Failed to change the PIN: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Keystore</h2>
+        <div>
+          <Tooltip title="Minutes without activity before the wallet password and passphrases are dropped from memory; 0 disables auto-lock">
+            <label className="block text-bw-700 font-bold mb-2">
+              Auto-Lock After (minutes)
+            </label>
+          </Tooltip>
+          <input
+            className="input w-full"
+            type="number"
+            min={0}
+            value={autoLockMinutes}
+            onChange={(e) => setAutoLockMinutes(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button className="btn success outline w-44" onClick={saveAutoLock}>
+            Save Timeout
+          </button>
+          <button className="btn outline" onClick={() => lockWallet()}>
+            Lock Now
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Change PIN</h2>
+        <input
+          className="input w-full"
+          type="password"
+          autoComplete="current-password"
+          placeholder="Current PIN"
+          value={currentPin}
+          onChange={(e) => setCurrentPin(e.target.value)}
+        />
+        <input
+          className="input w-full"
+          type="password"
+          autoComplete="new-password"
+          placeholder="New PIN"
+          value={newPin}
+          onChange={(e) => setNewPin(e.target.value)}
+        />
+        <button
+          className="btn success outline w-44"
+          onClick={changePin}
+          disabled={!currentPin || !newPin}
+        >
+          Change PIN
+        </button>
+      </div>
+      <div className="flex flex-col gap-4">
+        {status && <p className="text-sm text-bw-700">{status}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// src/app/components/KeystoreUnlock.tsx
+
+"use client";
+
+import React, { useEffect, useState } from "react";
+
+import * as api from "@/app/lib/api";
+import { MIN_PIN_LENGTH } from "@/app/lib/keystore";
+import useStore from "@/app/store/useStore";
+
+const KeystoreUnlock: React.FC = () => {
+  const { showKeystoreUnlock, setUpKeystore, unlockKeystore } = useStore();
+  const [isSetUp, setIsSetUp] = useState<boolean | null>(null);
+  const [pin, setPin] = useState<string>("");
+  const [confirmPin, setConfirmPin] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!showKeystoreUnlock) return;
+    api
+      .isKeystoreSetUp()
+      .then(setIsSetUp)
+      .catch((error) => setMessage(`Failed to open the keystore: ${error.message}`));
+  }, [showKeystoreUnlock]);
+
+  if (!showKeystoreUnlock || isSetUp === null) return null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isSetUp && pin !== confirmPin) {
+      setMessage("The PINs do not match.");
+      return;
+    }
+    setIsWorking(true);
+    setMessage("");
+    try {
+      if (isSetUp) {
+        await unlockKeystore(pin);
+      } else {
+        await setUpKeystore(pin);
+      }
+      setPin("");
+      setConfirmPin("");
+    } catch (error) {
+      setMessage((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (
+      !confirm(
+        "Resetting deletes the stored wallet password and PastelID passphrases. You will need your wallet backup QR code or file to restore the wallet. Continue?"
+      )
+    ) {
+      return;
+    }
+    await api.resetKeystore();
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form
+        className="bg-white p-8 rounded-lg text-center w-full max-w-md"
+        onSubmit={handleSubmit}
+      >
+        <h2 className="text-2xl font-bold mb-4">
+          {isSetUp ? "Unlock Keystore" : "Create a Keystore PIN"}
+        </h2>
+        <p className="mb-4 text-bw-700">
+          {isSetUp
+            ? "Enter your PIN to decrypt your wallet password and PastelID passphrases."
+            : `Your wallet password and PastelID passphrases are encrypted with this PIN. Use at least ${MIN_PIN_LENGTH} characters.`}
+        </p>
+        <input
+          className="input w-full mb-2"
+          type="password"
+          autoFocus
+          autoComplete={isSetUp ? "current-password" : "new-password"}
+          placeholder="PIN or passphrase"
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+        />
+        {!isSetUp && (
+          <input
+            className="input w-full mb-2"
+            type="password"
+            autoComplete="new-password"
+            placeholder="Confirm PIN"
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value)}
+          />
+        )}
+        {message && <p className="text-sm text-red-500 mb-2">{message}</p>}
+        <button
+          type="submit"
+          className="btn success outline w-44 mt-2"
+          disabled={isWorking || pin.length < MIN_PIN_LENGTH}
+        >
+          {isWorking ? "Please wait..." : isSetUp ? "Unlock" : "Create PIN"}
+        </button>
+        {isSetUp && (
+          <div className="mt-4">
+            <button
+              type="button"
+              className="text-sm text-bw-700 underline"
+              onClick={handleReset}
+            >
+              Forgot PIN? Reset the keystore
+            </button>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default KeystoreUnlock;
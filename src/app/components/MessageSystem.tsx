@@ -2,112 +2,623 @@
 
 'use client'
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Tooltip } from 'antd';
 import * as api from '@/app/lib/api';
-import { UserMessage } from "@/app/types";
+import Loading from '@/app/components/Loading';
+import { isAttachmentChunk, parseAttachmentPart } from '@/app/lib/messageAttachments';
+import { base64ToBytes, bytesToBase64 } from '@/app/lib/utils';
+import {
+  AddressBookEntry,
+  ArchivedUserMessage,
+  AttachmentInput,
+  AttachmentManifest,
+  AttachmentStatus,
+  MessageAttachment,
+  MessageOutboxEntry,
+  MessageThread,
+  MessageVerificationStatus,
+} from "@/app/types";
 import useStore from '../store/useStore';
 
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const VERIFICATION_LABELS: Record<MessageVerificationStatus, { text: string; className: string }> = {
+  verified: { text: 'Verified', className: 'bg-green-100 text-green-800' },
+  invalid: { text: 'Verification failed', className: 'bg-red-100 text-red-800' },
+  unverified: { text: 'Not verified', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const ATTACHMENT_STATUS_CLASSES: Record<AttachmentStatus, string> = {
+  verified: 'bg-green-100 text-green-800',
+  invalid: 'bg-red-100 text-red-800',
+  incomplete: 'bg-yellow-100 text-yellow-800',
+};
+
+// Sent as text when it is text, as base64 otherwise
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|xml|javascript))/;
+
+function shortenPastelID(pastelID: string): string {
+  return `${pastelID.slice(0, 10)}...${pastelID.slice(-6)}`;
+}
+
+function describeMessage(message: ArchivedUserMessage): string {
+  if (message.kind === 'key_statement') return 'Encryption key shared';
+  const part = parseAttachmentPart(message.body);
+  if (part?.part === 'manifest') return `Attachment: ${part.manifest.file_name}`;
+  return message.body || message.decryption_error || '';
+}
+
+function formatAttachmentSize(manifest: AttachmentManifest): string {
+  const bytes = manifest.content_encoding === 'base64'
+    ? Math.floor((manifest.content_length * 3) / 4)
+    : manifest.content_length;
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+const readAttachmentFile = async (file: File): Promise<AttachmentInput> => {
+  const mimeType = file.type || 'application/octet-stream';
+  if (TEXT_MIME_TYPE.test(mimeType)) {
+    return { file_name: file.name, mime_type: mimeType, content: await file.text(), content_encoding: 'utf8' };
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { file_name: file.name, mime_type: mimeType, content: bytesToBase64(bytes), content_encoding: 'base64' };
+};
+
+const downloadAttachment = (manifest: AttachmentManifest, content: string) => {
+  const data = manifest.content_encoding === 'base64'
+    ? base64ToBytes(content)
+    : content;
+  const url = URL.createObjectURL(new Blob([data], { type: manifest.mime_type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = manifest.file_name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export default function MessageSystem() {
   const { pastelId } = useStore();
-  const [toPastelID, setToPastelID] = useState<string>('jXXiVgtFzLto4eYziePHjjb1hj3c6eXdABej5ndnQ62B8ouv1GYveJaD5QUMfainQM3b4MTieQuzFEmJexw8Cr');
-  const [messageBody, setMessageBody] = useState<string>('Hello, this is a brand 🍉 NEW test message from a regular user!');
-  const [receivedMessages, setReceivedMessages] = useState<Record<string, UserMessage[]>>({});
-  const [isSending, setIsSending] = useState<boolean>(false);
+  const [threads, setThreads] = useState<MessageThread[]>([]);
+  const [selectedPastelID, setSelectedPastelID] = useState<string>('');
+  const [threadMessages, setThreadMessages] = useState<ArchivedUserMessage[]>([]);
+  const [outbox, setOutbox] = useState<Record<string, MessageOutboxEntry>>({});
+  const [attachments, setAttachments] = useState<Record<string, MessageAttachment>>({});
+  const [attachmentFile, setAttachmentFile] = useState<File | null>(null);
+  const [contacts, setContacts] = useState<AddressBookEntry[]>([]);
+  const [keyFingerprints, setKeyFingerprints] = useState<Record<string, string>>({});
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [searchResults, setSearchResults] = useState<ArchivedUserMessage[]>([]);
+  const [newPastelID, setNewPastelID] = useState<string>('');
+  const [contactName, setContactName] = useState<string>('');
+  const [messageBody, setMessageBody] = useState<string>('');
+  const [myKeyStatement, setMyKeyStatement] = useState<string>('');
+  const [importedStatement, setImportedStatement] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [isWorking, setIsWorking] = useState<boolean>(false);
 
-  useEffect(() => {
-    if (pastelId) {
-      fetchReceivedMessages();
+  const contactNames = Object.fromEntries(contacts.map((contact) => [contact.pastelid, contact.name]));
+  const displayName = (pastelID: string) => contactNames[pastelID] || shortenPastelID(pastelID);
+
+  const loadKnownKeys = useCallback(async () => {
+    const keys = await api.getKnownEncryptionKeys();
+    const fingerprints: Record<string, string> = {};
+    for (const key of keys) {
+      fingerprints[key.pastelid] = await api.getEncryptionKeyFingerprint(key);
+    }
+    setKeyFingerprints(fingerprints);
+  }, []);
+
+  // Everything shown comes from the local archive, which syncing fills
+  const loadInbox = useCallback(async () => {
+    const [loadedThreads, loadedContacts, outboxEntries] = await Promise.all([
+      api.getMessageThreads(),
+      api.getAddressBook(),
+      api.getMessageOutbox(),
+    ]);
+    setThreads(loadedThreads);
+    setContacts(loadedContacts);
+    setOutbox(Object.fromEntries(outboxEntries.map((entry) => [entry.id, entry])));
+    if (selectedPastelID) {
+      await api.markMessageThreadRead(selectedPastelID);
+      setThreadMessages(await api.getMessageThread(selectedPastelID));
+      const threadAttachments = await api.getMessageAttachments(selectedPastelID);
+      setAttachments(Object.fromEntries(threadAttachments.map((attachment) => [attachment.attachment_id, attachment])));
     }
+    // Verified messages teach us the keys of their senders
+    await loadKnownKeys();
+  }, [selectedPastelID, loadKnownKeys]);
+
+  // Polling restarts only when the PastelID changes, not with the open thread
+  const loadInboxRef = useRef(loadInbox);
+  loadInboxRef.current = loadInbox;
+
+  useEffect(() => {
+    if (!pastelId) return;
+    loadInbox().catch((error) => console.error('Error loading messages:', error));
+  }, [pastelId, loadInbox]);
+
+  useEffect(() => {
+    if (!pastelId) return;
+    const syncMessages = async () => {
+      try {
+        await api.syncMessages();
+        await loadInboxRef.current();
+      } catch (error) {
+        console.error('Error syncing messages:', error);
+      }
+    };
+    syncMessages();
+    const interval = setInterval(syncMessages, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
   }, [pastelId]);
 
-  const fetchReceivedMessages = async () => {
+  useEffect(() => {
+    if (!pastelId || !searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+    api.searchMessages(searchQuery)
+      .then(setSearchResults)
+      .catch((error) => console.error('Error searching messages:', error));
+  }, [pastelId, searchQuery, threads]);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setIsWorking(true);
+    setStatus('');
     try {
-      const messages = await api.getReceivedMessages();
-      const messageDict: Record<string, UserMessage[]> = {};
-      messages.forEach(message => {
-        if (!messageDict[message.from_pastelid]) {
-          messageDict[message.from_pastelid] = [];
-        }
-        messageDict[message.from_pastelid].push(message);
-      });
-      setReceivedMessages(messageDict);
+      const message = await action();
+      if (message) setStatus(message);
+      await loadInbox();
     } catch (error) {
-      console.error('Error fetching received messages:', error);
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
     }
   };
 
+  const openThread = (pastelID: string) => {
+    setSelectedPastelID(pastelID.trim());
+    setContactName(contactNames[pastelID.trim()] || '');
+    setThreadMessages([]);
+    setAttachments({});
+    setAttachmentFile(null);
+    setMessageBody('');
+    setStatus('');
+  };
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!pastelId) {
       alert('PastelID is not set. Please set your PastelID first.');
       return;
     }
-    setIsSending(true);
-    try {
-      const result = await api.sendMessage(toPastelID, messageBody);
-      console.log('Message sent:', result);
+    run(async () => {
+      const { outbox_entry } = await api.sendMessage(selectedPastelID, messageBody);
       setMessageBody('');
-      fetchReceivedMessages();
-    } catch (error) {
-      console.error('Error sending message:', error);
-      alert('Failed to send message. Please try again.');
-    } finally {
-      setIsSending(false);
-    }
+      return outbox_entry?.status === 'sent'
+        ? 'Encrypted message sent.'
+        : `No supernode took the message yet; it stays in the outbox and is retried. ${outbox_entry?.last_error || ''}`;
+    });
+  };
+
+  const sendAttachment = () => {
+    if (!attachmentFile) return;
+    run(async () => {
+      const { manifest, outbox_entries } = await api.sendAttachment(
+        selectedPastelID,
+        await readAttachmentFile(attachmentFile)
+      );
+      setAttachmentFile(null);
+      const waiting = outbox_entries.filter((entry) => entry.status !== 'sent').length;
+      return waiting === 0
+        ? `Sent ${manifest.file_name} in ${outbox_entries.length} messages.`
+        : `${waiting} of the ${outbox_entries.length} messages of ${manifest.file_name} wait in the outbox and are retried.`;
+    });
   };
 
+  const retryAttachment = (entries: MessageOutboxEntry[]) =>
+    run(async () => {
+      let delivered = 0;
+      for (const entry of entries) {
+        if ((await api.retryOutboxMessage(entry.id)).status === 'sent') delivered++;
+      }
+      return `Delivered ${delivered} of ${entries.length} waiting parts.`;
+    });
+
+  const shareKey = (recipient: string, requestReply: boolean) =>
+    run(async () => {
+      const entry = await api.shareEncryptionKey(recipient, requestReply);
+      if (entry.status !== 'sent') {
+        return `No supernode took your key yet; it stays in the outbox and is retried. ${entry.last_error || ''}`;
+      }
+      return requestReply
+        ? 'Sent your encryption key and asked for theirs; it is picked up when their reply arrives.'
+        : 'Sent your encryption key.';
+    });
+
+  const renderOutboxStatus = (message: ArchivedUserMessage) => {
+    const entry = outbox[message.id];
+    if (!entry || entry.status === 'sent') return null;
+    return (
+      <div className="flex items-center gap-2 mt-1">
+        <Tooltip title={entry.last_error || undefined}>
+          <span className={`text-xs px-2 py-1 rounded ${entry.status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+            {entry.status === 'failed'
+              ? 'Not delivered'
+              : `Waiting in outbox, next try ${new Date(entry.next_attempt_at_utc_iso_string).toLocaleTimeString()}`}
+          </span>
+        </Tooltip>
+        <button
+          className="btn outline text-xs"
+          type="button"
+          onClick={() => run(async () => {
+            const retried = await api.retryOutboxMessage(entry.id);
+            return retried.status === 'sent' ? 'Message delivered.' : `Still not delivered: ${retried.last_error}`;
+          })}
+          disabled={isWorking}
+        >
+          Retry
+        </button>
+      </div>
+    );
+  };
+
+  const renderAttachment = (manifest: AttachmentManifest, isOutgoing: boolean) => {
+    const attachment = attachments[manifest.attachment_id];
+    const status = attachment?.status ?? 'incomplete';
+    const waiting = isOutgoing
+      ? threadMessages
+          .filter((message) => parseAttachmentPart(message.body)?.attachment_id === manifest.attachment_id)
+          .map((message) => outbox[message.id])
+          .filter((entry) => entry && entry.status !== 'sent')
+      : [];
+    return (
+      <div className="text-base text-gray-800 mb-2">
+        <p className="font-medium break-all">{manifest.file_name}</p>
+        <p className="text-xs text-gray-600 mb-2">
+          {formatAttachmentSize(manifest)}, {manifest.mime_type}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Tooltip title={attachment?.problems.join('; ') || undefined}>
+            <span className={`text-xs px-2 py-1 rounded ${ATTACHMENT_STATUS_CLASSES[status]}`}>
+              {status === 'verified'
+                ? 'Hash and signature verified'
+                : status === 'invalid'
+                  ? 'Integrity check failed'
+                  : `${attachment?.received_chunk_count ?? 0} of ${manifest.chunk_count} parts received`}
+            </span>
+          </Tooltip>
+          {status === 'verified' && (
+            <button
+              className="btn outline text-xs"
+              type="button"
+              onClick={() => run(async () => {
+                const { content } = await api.getMessageAttachmentContent(manifest.attachment_id);
+                downloadAttachment(manifest, content);
+              })}
+              disabled={isWorking}
+            >
+              Download
+            </button>
+          )}
+          {waiting.length > 0 && (
+            <button className="btn outline text-xs" type="button" onClick={() => retryAttachment(waiting)} disabled={isWorking}>
+              Retry {waiting.length} Waiting Parts
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMessage = (message: ArchivedUserMessage) => {
+    const part = parseAttachmentPart(message.body);
+    const verification = VERIFICATION_LABELS[message.verification_status];
+    const isOutgoing = message.direction === 'outgoing';
+    return (
+      <div
+        key={message.id}
+        className={`mb-3 border border-gray-300 rounded-lg p-3 max-w-[85%] ${isOutgoing ? 'ml-auto bg-blue-50' : 'bg-white'}`}
+      >
+        <div className="flex flex-wrap gap-2 mb-2">
+          <Tooltip title={message.verification_problems.join('; ') || undefined}>
+            <span className={`text-xs px-2 py-1 rounded ${verification.className}`}>
+              {verification.text}
+            </span>
+          </Tooltip>
+          <span className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700">
+            {message.is_encrypted ? 'Encrypted' : message.kind === 'plaintext' ? 'Unencrypted' : 'Key statement'}
+          </span>
+        </div>
+        {message.kind === 'key_statement' ? (
+          <div className="text-base text-gray-800 mb-2">
+            <p>
+              {isOutgoing
+                ? `You shared your encryption key${message.reply_requested ? ' and asked for theirs' : ''}.`
+                : message.verification_status === 'verified'
+                  ? `Shared their encryption key.${message.reply_requested ? ' They asked for yours.' : ''}`
+                  : 'Shared an encryption key that could not be verified, so it was not kept.'}
+            </p>
+            {!isOutgoing && message.reply_requested && (
+              <button
+                className="btn outline mt-2"
+                type="button"
+                onClick={() => shareKey(message.counterpart_pastelid, false)}
+                disabled={isWorking}
+              >
+                Share My Key
+              </button>
+            )}
+          </div>
+        ) : part?.part === 'manifest' ? (
+          renderAttachment(part.manifest, isOutgoing)
+        ) : message.body !== null ? (
+          <p className="text-base text-gray-800 mb-2 whitespace-pre-wrap break-words">{message.body}</p>
+        ) : (
+          <p className="text-sm text-red-700 mb-2">{message.decryption_error}</p>
+        )}
+        <p className="text-xs text-gray-500">{new Date(message.timestamp || message.archived_at_utc_iso_string).toLocaleString()}</p>
+        {isOutgoing && part?.part !== 'manifest' && renderOutboxStatus(message)}
+      </div>
+    );
+  };
+
+  const unreadCount = threads.reduce((total, thread) => total + thread.unread_count, 0);
+  const selectedFingerprint = keyFingerprints[selectedPastelID];
+
   return (
-    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 p-4 has-border rounded-xl bg-white shadow-md mt-3">
-      <div>
-        <h2 className="text-2xl mb-4 text-bw-800">
-          Send and Receive Messages using PastelIDs
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h2 className="text-2xl text-bw-800">
+          Messages{unreadCount > 0 && ` (${unreadCount} unread)`}
         </h2>
-        <form id="sendMessageForm" className="grid grid-cols-1 gap-4" onSubmit={handleSubmit}>
-          <div>
-            <label className="block text-bw-700 font-bold mb-2" htmlFor="toPastelID">Recipient Pastel ID</label>
-            <input 
-              className="input w-full" 
-              id="toPastelID" 
-              type="text" 
-              placeholder="Enter recipient Pastel ID" 
-              value={toPastelID}
-              onChange={(e) => setToPastelID(e.target.value)}
-              required 
+        <div className="flex gap-2 items-center">
+          <Loading isLoading={isWorking} className="font-normal text-sm" text="Working..." />
+          <button className="btn outline" type="button" onClick={() => run(async () => { await api.syncMessages(); })} disabled={isWorking || !pastelId}>
+            Refresh
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-bw-700">
+        Messages are encrypted end to end to a key each PastelID signs for, so
+        supernodes only relay ciphertext. They are archived in this browser,
+        and messages no supernode took stay in the outbox until they are
+        delivered.
+      </p>
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 gap-3 content-start">
+          <input
+            className="input w-full"
+            type="text"
+            placeholder="Search messages and contacts"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <input
+              className="input flex-1 min-w-0"
+              type="text"
+              placeholder="Message a new PastelID"
+              value={newPastelID}
+              onChange={(e) => setNewPastelID(e.target.value)}
             />
-          </div>
-          <div>
-            <label className="block text-bw-700 font-bold mb-2" htmlFor="messageBody">Message Body</label>
-            <textarea 
-              className="input w-full" 
-              id="messageBody" 
-              rows={5} 
-              placeholder="Enter your message" 
-              value={messageBody}
-              onChange={(e) => setMessageBody(e.target.value)}
-              required
-            ></textarea>
-          </div>
-          <div className="flex justify-between">
-            <button className="btn success outline" type="submit" disabled={isSending}>
-              {isSending ? 'Sending...' : 'Send Message'}
+            <button
+              className="btn outline"
+              type="button"
+              onClick={() => {
+                openThread(newPastelID);
+                setNewPastelID('');
+              }}
+              disabled={!newPastelID.trim()}
+            >
+              Open
             </button>
           </div>
-        </form>
-      </div>
-      <div>
-        <h2 className="text-2xl mb-4">Received Messages</h2>
-        <div id="receivedMessages" className="bg-bw-50 p-4 rounded-xl">
-          {Object.entries(receivedMessages).map(([fromPastelId, messages]) => (
-            messages.map((message, index) => (
-              <div key={`${fromPastelId}-${index}`} className="mb-4 border border-gray-300 rounded-lg p-4">
-                <p className="text-sm font-medium text-gray-600 mb-2">From: {fromPastelId}</p>
-                <p className="text-base text-gray-800 mb-2">{message.message_body}</p>
-                <p className="text-xs text-gray-500">{new Date(message.timestamp || Date.now()).toLocaleString()}</p>
+          <div className="bg-bw-50 rounded-xl p-2 max-h-96 overflow-y-auto">
+            {searchQuery.trim() ? (
+              searchResults.length === 0 ? (
+                <p className="text-sm text-bw-700 p-2">No messages match.</p>
+              ) : (
+                searchResults.map((message) => (
+                  <button
+                    key={message.id}
+                    type="button"
+                    className="block w-full text-left p-2 rounded hover:bg-white"
+                    onClick={() => openThread(message.counterpart_pastelid)}
+                  >
+                    <p className="text-sm font-medium text-gray-700">{displayName(message.counterpart_pastelid)}</p>
+                    <p className="text-xs text-gray-600 truncate">{describeMessage(message)}</p>
+                  </button>
+                ))
+              )
+            ) : threads.length === 0 ? (
+              <p className="text-sm text-bw-700 p-2">No conversations yet.</p>
+            ) : (
+              threads.map((thread) => (
+                <button
+                  key={thread.counterpart_pastelid}
+                  type="button"
+                  className={`block w-full text-left p-2 rounded hover:bg-white ${thread.counterpart_pastelid === selectedPastelID ? 'bg-white' : ''}`}
+                  onClick={() => openThread(thread.counterpart_pastelid)}
+                >
+                  <div className="flex justify-between gap-2">
+                    <p className={`text-sm text-gray-700 ${thread.unread_count > 0 ? 'font-bold' : 'font-medium'}`}>
+                      {thread.name || shortenPastelID(thread.counterpart_pastelid)}
+                    </p>
+                    {thread.unread_count > 0 && (
+                      <span className="text-xs px-2 rounded-full bg-blue-100 text-blue-800">{thread.unread_count}</span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-600 truncate">{describeMessage(thread.last_message)}</p>
+                </button>
+              ))
+            )}
+          </div>
+          <h3 className="text-lg font-bold text-bw-800">Address Book</h3>
+          {contacts.length === 0 ? (
+            <p className="text-sm text-bw-700">Name a PastelID from its conversation to add it here.</p>
+          ) : (
+            contacts.map((contact) => (
+              <div key={contact.pastelid} className="flex justify-between items-center gap-2">
+                <button type="button" className="text-sm text-left text-bw-800 truncate" onClick={() => openThread(contact.pastelid)}>
+                  {contact.name}
+                </button>
+                <button
+                  className="btn outline text-xs"
+                  type="button"
+                  onClick={() => run(async () => {
+                    await api.deleteAddressBookEntry(contact.pastelid);
+                    return `Removed ${contact.name} from the address book.`;
+                  })}
+                  disabled={isWorking}
+                >
+                  Remove
+                </button>
               </div>
             ))
-          ))}
+          )}
+        </div>
+        <div className="lg:col-span-2 grid grid-cols-1 gap-3 content-start">
+          {!selectedPastelID ? (
+            <p className="text-bw-700">Pick a conversation or open a new one.</p>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-lg font-bold text-bw-800">{displayName(selectedPastelID)}</h3>
+                <p className="text-xs text-bw-700 break-all">{selectedPastelID}</p>
+                <p className="text-xs text-bw-700 mt-1">
+                  {selectedFingerprint
+                    ? `Encryption key known, fingerprint ${selectedFingerprint}`
+                    : 'No encryption key known for this PastelID yet; request theirs before messaging them'}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  className="input flex-1 min-w-0"
+                  type="text"
+                  placeholder="Contact name"
+                  value={contactName}
+                  onChange={(e) => setContactName(e.target.value)}
+                />
+                <button
+                  className="btn outline"
+                  type="button"
+                  onClick={() => run(async () => {
+                    const contact = await api.saveAddressBookEntry(selectedPastelID, contactName);
+                    return `Saved ${contact.name} in the address book.`;
+                  })}
+                  disabled={isWorking || !contactName.trim()}
+                >
+                  Save Contact
+                </button>
+              </div>
+              <div className="bg-bw-50 p-4 rounded-xl max-h-[32rem] overflow-y-auto">
+                {threadMessages.length === 0 ? (
+                  <p className="text-sm text-bw-700">No messages with this PastelID yet.</p>
+                ) : (
+                  threadMessages.filter((message) => !isAttachmentChunk(message)).map(renderMessage)
+                )}
+              </div>
+              <form id="sendMessageForm" className="grid grid-cols-1 gap-2" onSubmit={handleSubmit}>
+                <textarea
+                  className="input w-full"
+                  id="messageBody"
+                  rows={3}
+                  placeholder="Enter your message"
+                  value={messageBody}
+                  onChange={(e) => setMessageBody(e.target.value)}
+                  required
+                ></textarea>
+                <div className="flex justify-between gap-2">
+                  <button className="btn success outline" type="submit" disabled={isWorking || !selectedFingerprint}>
+                    Send Message
+                  </button>
+                  <Tooltip title="Sends your signed encryption key and asks the recipient for theirs">
+                    <button
+                      className="btn outline"
+                      type="button"
+                      onClick={() => shareKey(selectedPastelID, true)}
+                      disabled={isWorking || !pastelId}
+                    >
+                      Request Key
+                    </button>
+                  </Tooltip>
+                </div>
+              </form>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="file"
+                  className="text-sm"
+                  onChange={(e) => {
+                    setAttachmentFile(e.target.files?.[0] || null);
+                    e.target.value = '';
+                  }}
+                />
+                {attachmentFile && <span className="text-sm text-bw-700 break-all">{attachmentFile.name}</span>}
+                <Tooltip title="Sends the file compressed and split into encrypted messages, with a manifest signed by your PastelID">
+                  <button
+                    className="btn outline"
+                    type="button"
+                    onClick={sendAttachment}
+                    disabled={isWorking || !selectedFingerprint || !attachmentFile}
+                  >
+                    Send File
+                  </button>
+                </Tooltip>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 gap-2">
+        <h3 className="text-lg font-bold text-bw-800">Encryption Keys</h3>
+        <div className="flex gap-2">
+          <button
+            className="btn outline"
+            type="button"
+            onClick={() =>
+              run(async () => {
+                const statement = await api.getMyEncryptionKeyStatement();
+                setMyKeyStatement(JSON.stringify(statement));
+                return `Your key fingerprint is ${await api.getEncryptionKeyFingerprint(statement)}.`;
+              })
+            }
+            disabled={isWorking || !pastelId}
+          >
+            Show My Key Statement
+          </button>
+        </div>
+        {myKeyStatement && (
+          <textarea className="input w-full text-xs" rows={4} value={myKeyStatement} readOnly />
+        )}
+        <textarea
+          className="input w-full text-xs"
+          rows={3}
+          placeholder="Paste a key statement shared by another PastelID"
+          value={importedStatement}
+          onChange={(e) => setImportedStatement(e.target.value)}
+        />
+        <div>
+          <button
+            className="btn outline"
+            type="button"
+            onClick={() =>
+              run(async () => {
+                const key = await api.importEncryptionKeyStatement(importedStatement);
+                setImportedStatement('');
+                return `Imported the encryption key of ${key.pastelid}, fingerprint ${await api.getEncryptionKeyFingerprint(key)}.`;
+              })
+            }
+            disabled={isWorking || !importedStatement.trim()}
+          >
+            Import Key Statement
+          </button>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
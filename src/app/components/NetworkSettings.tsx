@@ -0,0 +1,151 @@
+// src/app/components/NetworkSettings.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import { PASTEL_NETWORKS } from "@/app/lib/networkConfig";
+import useStore from "@/app/store/useStore";
+import { NetworkConfig, PastelNetwork } from "@/app/types";
+
+export default function NetworkSettings() {
+  const { networkMode, switchNetwork } = useStore();
+  const [configs, setConfigs] = useState<Record<string, NetworkConfig>>({});
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadConfigs = useCallback(() => {
+    setConfigs(
+      Object.fromEntries(
+        PASTEL_NETWORKS.map((network) => [
+          network,
+          api.getNetworkSettings(network),
+        ])
+      )
+    );
+  }, []);
+
+  useEffect(() => {
+    loadConfigs();
+  }, [loadConfigs]);
+
+  const run = async (action: () => Promise<string | void> | string | void) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      const message = await action();
+      if (message) setStatus(message);
+      loadConfigs();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateConfig = (
+    network: PastelNetwork,
+    field: keyof NetworkConfig,
+    value: string
+  ) =>
+    setConfigs({
+      ...configs,
+      [network]: { ...configs[network], [field]: value },
+    });
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Network</h2>
+      <p className="text-bw-700">
+        Addresses, credit packs, inference history and cached supernodes are
+        kept apart for each network. Credit packs and tracking addresses of
+        another network are refused.
+      </p>
+      <div className="flex flex-wrap gap-4 items-center">
+        <label className="text-bw-700">Network in use</label>
+        <select
+          className="select w-40"
+          value={networkMode}
+          onChange={(e) =>
+            run(() => switchNetwork(e.target.value as PastelNetwork))
+          }
+          disabled={isWorking}
+        >
+          {PASTEL_NETWORKS.map((network) => (
+            <option key={network} value={network}>
+              {network}
+            </option>
+          ))}
+        </select>
+        <Loading
+          isLoading={isWorking}
+          className="font-normal text-sm"
+          text="Working..."
+        />
+      </div>
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      {PASTEL_NETWORKS.map((network) => (
+        <div key={network} className="bg-gray-50 p-4 rounded-lg grid gap-2">
+          <h3 className="text-lg font-bold text-bw-800">{network}</h3>
+          <div className="flex flex-wrap gap-4 items-center">
+            <Tooltip title="Leave empty to use the default">
+              <label className="text-bw-700 w-40">Opennode API URL</label>
+            </Tooltip>
+            <input
+              type="text"
+              className="input flex-1 min-w-0"
+              placeholder="Not configured"
+              value={configs[network]?.opennode_api_url || ""}
+              onChange={(e) =>
+                updateConfig(network, "opennode_api_url", e.target.value)
+              }
+            />
+          </div>
+          <div className="flex flex-wrap gap-4 items-center">
+            <label className="text-bw-700 w-40">Burn address</label>
+            <input
+              type="text"
+              className="input flex-1 min-w-0"
+              value={configs[network]?.burn_address || ""}
+              onChange={(e) =>
+                updateConfig(network, "burn_address", e.target.value)
+              }
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="btn outline w-44"
+              onClick={() =>
+                run(() => {
+                  api.setNetworkSettings(network, configs[network]);
+                  return `Saved the ${network} settings.`;
+                })
+              }
+              disabled={isWorking}
+            >
+              Save
+            </button>
+            <button
+              className="btn outline w-44"
+              onClick={() =>
+                run(() => {
+                  api.setNetworkSettings(network, {
+                    opennode_api_url: "",
+                    burn_address: "",
+                  });
+                  return `Restored the ${network} defaults.`;
+                })
+              }
+              disabled={isWorking}
+            >
+              Restore Defaults
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
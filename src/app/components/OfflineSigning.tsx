@@ -0,0 +1,604 @@
+// src/app/components/OfflineSigning.tsx
+
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Modal, Tooltip } from "antd";
+import { QRCodeCanvas } from "qrcode.react";
+import jsQR from "jsqr";
+
+import Loading from "@/app/components/Loading";
+import { TransactionPreviewDetails } from "@/app/components/TransactionConfirmation";
+import * as api from "@/app/lib/api";
+import { getOutpointKey, patoshisToPSL } from "@/app/lib/coinSelection";
+import {
+  OfflineSigningFrameAssembler,
+  encodeOfflineSigningFrames,
+  parseOfflineSigningPayload,
+  serializeOfflineSigningPayload,
+} from "@/app/lib/offlineSigning";
+import useStore from "@/app/store/useStore";
+import {
+  OfflineSigningCompletion,
+  OfflineSigningPayload,
+  OfflineSigningRequest,
+  OfflineSigningResponse,
+  OfflineSigningResult,
+} from "@/app/types";
+
+const FRAME_INTERVAL_MS = 400;
+
+const downloadPayload = (payload: OfflineSigningPayload) => {
+  const blob = new Blob([serializeOfflineSigningPayload(payload)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `offline_signing_${payload.type}_${payload.request_id}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Shows a request or response as an animated QR code cycling through its
+ * frames, with the same payload as a file to download.
+ */
+export function AnimatedQRCode({ payload }: { payload: OfflineSigningPayload }) {
+  const frames = useMemo(() => encodeOfflineSigningFrames(payload), [payload]);
+  const [index, setIndex] = useState<number>(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (frames.length < 2) return;
+    const timer = setInterval(
+      () => setIndex((current) => (current + 1) % frames.length),
+      FRAME_INTERVAL_MS
+    );
+    return () => clearInterval(timer);
+  }, [frames]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <QRCodeCanvas
+        value={frames[index] || frames[0]}
+        size={320}
+        level="L"
+        bgColor="#fff"
+      />
+      <p className="text-sm text-bw-700">
+        Frame {Math.min(index, frames.length - 1) + 1} of {frames.length}
+      </p>
+      <button className="btn outline" onClick={() => downloadPayload(payload)}>
+        Download File
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Reads a request or response from the frames of an animated QR code seen by
+ * the camera, or from a file.
+ */
+export function OfflineSigningReader({
+  onPayload,
+}: {
+  onPayload: (payload: OfflineSigningPayload) => void;
+}) {
+  const [isScanning, setIsScanning] = useState<boolean>(false);
+  const [progress, setProgress] = useState({ received: 0, total: 0 });
+  const [error, setError] = useState<string>("");
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onPayloadRef = useRef(onPayload);
+  onPayloadRef.current = onPayload;
+
+  useEffect(() => {
+    if (!isScanning) return;
+    const assembler = new OfflineSigningFrameAssembler();
+    const video = document.createElement("video");
+    let stream: MediaStream | null = null;
+    let frameRequest = 0;
+    let stopped = false;
+
+    const tick = () => {
+      if (stopped) return;
+      const canvasElement = canvasRef.current;
+      const canvas = canvasElement?.getContext("2d");
+      if (canvasElement && canvas && video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvasElement.height = video.videoHeight;
+        canvasElement.width = video.videoWidth;
+        canvas.drawImage(video, 0, 0, canvasElement.width, canvasElement.height);
+        const imageData = canvas.getImageData(
+          0,
+          0,
+          canvasElement.width,
+          canvasElement.height
+        );
+        const code = jsQR(imageData.data, imageData.width, imageData.height, {
+          inversionAttempts: "dontInvert",
+        });
+        if (code) {
+          try {
+            const payload = assembler.add(code.data);
+            setProgress(assembler.getProgress());
+            if (payload) {
+              setIsScanning(false);
+              onPayloadRef.current(payload);
+              return;
+            }
+          } catch (scanError) {
+            setError((scanError as Error).message);
+            assembler.reset();
+          }
+        }
+      }
+      frameRequest = requestAnimationFrame(tick);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((cameraStream) => {
+        if (stopped) {
+          cameraStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = cameraStream;
+        video.srcObject = cameraStream;
+        video.setAttribute("playsinline", "true");
+        video.play();
+        frameRequest = requestAnimationFrame(tick);
+      })
+      .catch((cameraError) => {
+        setError(`The camera is unavailable: ${(cameraError as Error).message}`);
+        setIsScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frameRequest);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [isScanning]);
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const payload = parseOfflineSigningPayload(await file.text());
+      setError("");
+      onPayload(payload);
+    } catch (fileError) {
+      setError((fileError as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap gap-4 items-center">
+        <button
+          className="btn outline w-44"
+          onClick={() => {
+            setError("");
+            setProgress({ received: 0, total: 0 });
+            setIsScanning(!isScanning);
+          }}
+        >
+          {isScanning ? "Stop Scanning" : "Scan QR Code"}
+        </button>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="text-sm"
+          onChange={(e) => {
+            loadFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {isScanning && (
+        <>
+          <p className="text-sm text-bw-700">
+            {progress.total
+              ? `Read ${progress.received} of ${progress.total} frames`
+              : "Hold the animated QR code in front of the camera"}
+          </p>
+          <canvas ref={canvasRef} className="w-full max-w-md bg-black" />
+        </>
+      )}
+      {error && <p className="text-sm text-red-500 break-all">{error}</p>}
+    </div>
+  );
+}
+
+export function OfflineSigningRequestDetails({
+  request,
+}: {
+  request: OfflineSigningRequest;
+}) {
+  const transaction = request.transaction;
+  return (
+    <table className="w-full text-sm text-left">
+      <tbody>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700">Request</td>
+          <td className="py-1 break-all">{request.description}</td>
+        </tr>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700">Network</td>
+          <td className="py-1">{request.network}</td>
+        </tr>
+        {transaction ? (
+          <>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700 align-top">Inputs</td>
+              <td className="py-1 break-all">
+                {transaction.inputs.map((utxo) => (
+                  <div key={getOutpointKey(utxo)}>
+                    {patoshisToPSL(utxo.patoshis)} PSL from {utxo.address}
+                  </div>
+                ))}
+              </td>
+            </tr>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700 align-top">Recipients</td>
+              <td className="py-1 break-all">
+                {transaction.recipients.map((recipient, index) => (
+                  <div key={index}>
+                    {recipient.amount} PSL to {recipient.address}
+                  </div>
+                ))}
+              </td>
+            </tr>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700">Change</td>
+              <td className="py-1 break-all">
+                {transaction.change_in_psl > 0
+                  ? `About ${transaction.change_in_psl} PSL to ${transaction.change_address}`
+                  : "None"}
+              </td>
+            </tr>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700">Estimated Fee</td>
+              <td className="py-1">{transaction.fee_in_psl} PSL</td>
+            </tr>
+          </>
+        ) : (
+          <>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700">PastelID</td>
+              <td className="py-1 break-all">{request.pastelid}</td>
+            </tr>
+            <tr className="border-t border-gray-200">
+              <td className="py-1 pr-2 text-bw-700 align-top">Message</td>
+              <td className="py-1">
+                <pre className="max-h-32 overflow-auto whitespace-pre-wrap break-all text-xs">
+                  {request.message}
+                </pre>
+              </td>
+            </tr>
+          </>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Shows each signature a watch-only wallet needs while sending or buying a
+ * credit pack, and waits for the response of the offline instance.
+ */
+export function OfflineSigningDialog() {
+  const [request, setRequest] = useState<OfflineSigningRequest | null>(null);
+  const [error, setError] = useState<string>("");
+  const resolveRef = useRef<
+    ((response: OfflineSigningResponse | null) => void) | null
+  >(null);
+
+  useEffect(() => {
+    api.setOfflineSigningHandler(
+      (pending) =>
+        new Promise<OfflineSigningResponse | null>((resolve) => {
+          // A new request cancels the one it replaces
+          resolveRef.current?.(null);
+          resolveRef.current = resolve;
+          setError("");
+          setRequest(pending);
+        })
+    );
+    return () => {
+      api.setOfflineSigningHandler(null);
+      resolveRef.current?.(null);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  if (!request) return null;
+
+  const answer = (response: OfflineSigningResponse | null) => {
+    resolveRef.current?.(response);
+    resolveRef.current = null;
+    setRequest(null);
+  };
+
+  const receive = (payload: OfflineSigningPayload) => {
+    if (payload.type !== "response" || payload.request_id !== request.request_id) {
+      setError("That is not the response to this request.");
+      return;
+    }
+    answer(payload);
+  };
+
+  return (
+    <Modal
+      centered
+      open
+      width={640}
+      maskClosable={false}
+      closable={false}
+      title="Sign Offline"
+      footer={
+        <button className="btn outline" onClick={() => answer(null)}>
+          Cancel
+        </button>
+      }
+    >
+      <div className="flex flex-col gap-4">
+        <p className="text-bw-700">
+          Scan this code or load its file on the offline instance holding the
+          keys, then bring its response back here.
+        </p>
+        <OfflineSigningRequestDetails request={request} />
+        <AnimatedQRCode payload={request} />
+        <OfflineSigningReader onPayload={receive} />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
+
+export default function OfflineSigning() {
+  const { isWatchOnly, pastelIDs, fetchWalletInfo } = useStore();
+  const [pendingRequests, setPendingRequests] = useState<
+    OfflineSigningRequest[]
+  >([]);
+  const [shownPayload, setShownPayload] =
+    useState<OfflineSigningPayload | null>(null);
+  const [loadedRequest, setLoadedRequest] =
+    useState<OfflineSigningRequest | null>(null);
+  const [signed, setSigned] = useState<OfflineSigningResult | null>(null);
+  const [completion, setCompletion] =
+    useState<OfflineSigningCompletion | null>(null);
+  const [pastelID, setPastelID] = useState<string>("");
+  const [message, setMessage] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadPendingRequests = useCallback(() => {
+    setPendingRequests(api.getPendingOfflineSigningRequests());
+  }, []);
+
+  useEffect(() => {
+    loadPendingRequests();
+  }, [loadPendingRequests]);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      const result = await action();
+      if (result) setStatus(result);
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+      loadPendingRequests();
+    }
+  };
+
+  const receive = (payload: OfflineSigningPayload) => {
+    setShownPayload(null);
+    setSigned(null);
+    setCompletion(null);
+    if (payload.type === "request") {
+      setLoadedRequest(payload);
+      setStatus(
+        isWatchOnly
+          ? "This watch-only wallet cannot sign. Load the request on the offline instance holding the keys."
+          : "Review the request before signing it."
+      );
+      return;
+    }
+    setLoadedRequest(null);
+    run(async () => {
+      const completed = await api.completeOfflineSigningRequest(payload);
+      setCompletion(completed);
+      return completed.preview
+        ? "Signed. Review the transaction, then broadcast or discard it."
+        : undefined;
+    });
+  };
+
+  const sign = () =>
+    run(async () => {
+      if (!loadedRequest) return;
+      setSigned(await api.signOfflineSigningRequest(loadedRequest));
+      return "Signed. Return the response to the online instance.";
+    });
+
+  const requestSignature = () =>
+    run(async () => {
+      setShownPayload(
+        await api.createOfflinePastelIDSignatureRequest(
+          pastelID || pastelIDs[0],
+          message
+        )
+      );
+      setMessage("");
+    });
+
+  const broadcast = () =>
+    run(async () => {
+      if (!completion?.preview) return;
+      const txid = await api.broadcastTransaction(completion.preview.preview_id);
+      setCompletion(null);
+      await fetchWalletInfo();
+      return `Sent. Transaction ID: ${txid}`;
+    });
+
+  const discard = () =>
+    run(async () => {
+      if (!completion?.preview) return;
+      api.discardTransaction(completion.preview.preview_id);
+      setCompletion(null);
+      return "Transaction discarded.";
+    });
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Offline Signing</h2>
+      <p className="text-bw-700">
+        {isWatchOnly
+          ? "Payments, credit pack purchases and PastelID signatures of this watch-only wallet are passed to an offline instance holding the keys as animated QR codes or files. Load the responses it returns here."
+          : "Load a request from a watch-only wallet to sign it with the keys of this wallet, then return the response the same way."}
+      </p>
+      <OfflineSigningReader onPayload={receive} />
+      <Loading
+        isLoading={isWorking}
+        className="font-normal text-sm"
+        text="Working..."
+      />
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+
+      {loadedRequest && (
+        <div className="bg-gray-50 p-4 rounded-lg flex flex-col gap-4">
+          <OfflineSigningRequestDetails request={loadedRequest} />
+          {signed ? (
+            <>
+              {signed.fee_in_psl !== null && (
+                <p className="text-sm text-bw-700">
+                  The signed transaction pays a fee of {signed.fee_in_psl} PSL.
+                </p>
+              )}
+              <AnimatedQRCode payload={signed.response} />
+            </>
+          ) : (
+            !isWatchOnly && (
+              <button
+                className="btn success outline w-44"
+                onClick={sign}
+                disabled={isWorking}
+              >
+                Sign
+              </button>
+            )
+          )}
+        </div>
+      )}
+
+      {completion && (
+        <div className="bg-gray-50 p-4 rounded-lg flex flex-col gap-4">
+          <p className="text-bw-700 break-all">{completion.request.description}</p>
+          {completion.preview ? (
+            <>
+              <TransactionPreviewDetails preview={completion.preview} />
+              <div className="flex gap-2">
+                <button
+                  className="btn success outline w-44"
+                  onClick={broadcast}
+                  disabled={isWorking}
+                >
+                  Broadcast
+                </button>
+                <button className="btn outline" onClick={discard} disabled={isWorking}>
+                  Discard
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-bw-700">
+              {completion.signature_is_valid === false
+                ? "The signature does not verify against the PastelID."
+                : "The signature is valid."}
+            </p>
+          )}
+        </div>
+      )}
+
+      {isWatchOnly && (
+        <>
+          <h3 className="text-lg font-bold text-bw-800">Sign a Message</h3>
+          <div className="flex flex-wrap gap-4 items-center">
+            <select
+              className="select flex-1 min-w-0"
+              value={pastelID || pastelIDs[0] || ""}
+              onChange={(e) => setPastelID(e.target.value)}
+            >
+              {pastelIDs.map((watched) => (
+                <option key={watched} value={watched}>
+                  {watched}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn outline w-44"
+              onClick={requestSignature}
+              disabled={isWorking || !pastelIDs.length || !message}
+            >
+              Request Signature
+            </button>
+          </div>
+          <textarea
+            className="textarea w-full"
+            rows={2}
+            placeholder="Message to sign"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+          />
+        </>
+      )}
+
+      {shownPayload && <AnimatedQRCode payload={shownPayload} />}
+
+      {pendingRequests.length > 0 && (
+        <>
+          <Tooltip title="Requests stay here for a week, until their response is loaded">
+            <h3 className="text-lg font-bold text-bw-800">Awaiting Response</h3>
+          </Tooltip>
+          <table className="w-full text-sm">
+            <tbody>
+              {pendingRequests.map((request) => (
+                <tr key={request.request_id} className="border-t border-gray-200">
+                  <td className="py-1 break-all">{request.description}</td>
+                  <td className="py-1">
+                    {new Date(request.created_at_utc_iso_string).toLocaleString()}
+                  </td>
+                  <td className="py-1 text-right whitespace-nowrap">
+                    <button
+                      className="btn outline mr-2"
+                      onClick={() => setShownPayload(request)}
+                    >
+                      Show
+                    </button>
+                    <button
+                      className="btn outline"
+                      onClick={() => {
+                        api.discardOfflineSigningRequest(request.request_id);
+                        if (shownPayload?.request_id === request.request_id) {
+                          setShownPayload(null);
+                        }
+                        loadPendingRequests();
+                      }}
+                    >
+                      Discard
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
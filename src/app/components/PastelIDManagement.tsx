@@ -0,0 +1,441 @@
+// src/app/components/PastelIDManagement.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import { TransactionPreviewDetails } from "@/app/components/TransactionConfirmation";
+import * as api from "@/app/lib/api";
+import { bytesToBase64 } from "@/app/lib/utils";
+import useStore from "@/app/store/useStore";
+import {
+  ManagedPastelID,
+  PastelIDRegistration,
+  PastelIDSecureContainerExport,
+  TransactionPreview,
+} from "@/app/types";
+
+const PASTELID_PATTERN = /jX[A-Za-z0-9]{84}/;
+
+const STATUS_LABELS: Record<ManagedPastelID["registration_status"], string> = {
+  registered: "Registered",
+  pending: "Registration pending",
+  unregistered: "Not registered",
+  unknown: "Unknown",
+};
+
+const downloadExport = (exported: PastelIDSecureContainerExport) => {
+  const blob = new Blob([JSON.stringify(exported, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `pastelid_${exported.pastelid}_${exported.network}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads either an export made here or a raw secure container file, whose
+ * PastelID is taken from its file name when it is not given.
+ */
+const readSecureContainerFile = async (
+  file: File,
+  pastelID: string
+): Promise<{ pastelid: string; secure_container_base64: string; network?: string }> => {
+  try {
+    const exported = JSON.parse(await file.text()) as PastelIDSecureContainerExport;
+    if (exported.pastelid && exported.secure_container_base64) {
+      return exported;
+    }
+  } catch {
+    // Not one of our exports; treat it as a raw secure container
+  }
+  const pastelid = pastelID || file.name.match(PASTELID_PATTERN)?.[0] || "";
+  if (!pastelid) {
+    throw new Error("Enter the PastelID of this secure container");
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return { pastelid, secure_container_base64: bytesToBase64(bytes) };
+};
+
+export default function PastelIDManagement() {
+  const { setPastelIDs } = useStore();
+  const [pastelIDs, setManagedPastelIDs] = useState<ManagedPastelID[]>([]);
+  const [fundingAddress, setFundingAddress] = useState<string>("");
+  const [pendingPreview, setPendingPreview] = useState<{
+    registration: PastelIDRegistration;
+    preview: TransactionPreview;
+  } | null>(null);
+  const [expandedPastelID, setExpandedPastelID] = useState<string>("");
+  const [exportPassphrase, setExportPassphrase] = useState<string>("");
+  const [passphraseChange, setPassphraseChange] = useState({ current: "", next: "" });
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPastelID, setImportPastelID] = useState<string>("");
+  const [importPassphrase, setImportPassphrase] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadPastelIDs = useCallback(async () => {
+    setManagedPastelIDs(await api.getManagedPastelIDs());
+  }, []);
+
+  useEffect(() => {
+    loadPastelIDs().catch((error) => setStatus((error as Error).message));
+  }, [loadPastelIDs]);
+
+  const run = async (action: () => Promise<string | void> | string | void) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      const message = await action();
+      if (message) setStatus(message);
+      await loadPastelIDs();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const previewRegistration = (pastelID?: string) =>
+    run(async () => {
+      setPendingPreview(
+        await api.previewPastelIDRegistration(pastelID, fundingAddress || undefined)
+      );
+    });
+
+  const confirmRegistration = () =>
+    run(async () => {
+      if (!pendingPreview) return;
+      const registration = await api.confirmPastelIDRegistration(
+        pendingPreview.registration.pastelid
+      );
+      setPendingPreview(null);
+      setPastelIDs(await api.listPastelIDs());
+      return `Registration of ${registration.pastelid} sent in ${registration.txid}. It is registered once the ticket is mined.`;
+    });
+
+  const discardRegistration = () =>
+    run(() => {
+      if (!pendingPreview) return;
+      api.discardPastelIDRegistration(pendingPreview.registration.pastelid);
+      setPendingPreview(null);
+    });
+
+  const checkRegistration = (pastelID: string) =>
+    run(async () => {
+      const registration = await api.checkPastelIDRegistration(pastelID);
+      return registration.stage === "registered"
+        ? `PastelID ${pastelID} is registered.`
+        : `The ticket of ${pastelID} is not mined yet (checked ${registration.check_count} times).`;
+    });
+
+  const exportPastelID = (pastelID: string) =>
+    run(async () => {
+      downloadExport(
+        await api.exportPastelIDSecureContainer(pastelID, exportPassphrase || undefined)
+      );
+      setExportPassphrase("");
+    });
+
+  const changePassphrase = (pastelID: string) =>
+    run(async () => {
+      await api.changePastelIDPassphrase(
+        pastelID,
+        passphraseChange.current,
+        passphraseChange.next
+      );
+      setPassphraseChange({ current: "", next: "" });
+      return `Passphrase of ${pastelID} changed.`;
+    });
+
+  const importContainer = () =>
+    run(async () => {
+      if (!importFile) return;
+      const container = await readSecureContainerFile(importFile, importPastelID);
+      const imported = await api.importPastelIDSecureContainer(
+        container.pastelid,
+        container.secure_container_base64,
+        importPassphrase,
+        true,
+        container.network
+      );
+      setImportFile(null);
+      setImportPastelID("");
+      setImportPassphrase("");
+      setPastelIDs(await api.listPastelIDs());
+      return `Imported PastelID ${imported.pastelid}.`;
+    });
+
+  const missingPastelIDs = pastelIDs.filter((managed) => !managed.is_local);
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">PastelID Manager</h2>
+      {missingPastelIDs.length > 0 && (
+        <div className="p-3 rounded-lg border border-yellow-400 bg-yellow-50 text-sm text-bw-800">
+          <p className="font-semibold">
+            {missingPastelIDs.length === 1
+              ? "A PastelID used by your credit packs is missing from this wallet."
+              : `${missingPastelIDs.length} PastelIDs used by your credit packs are missing from this wallet.`}
+          </p>
+          <p>
+            Their credit packs cannot be used until the PastelID is imported
+            from a secure container below.
+          </p>
+          <ul className="mt-1">
+            {missingPastelIDs.map((managed) => (
+              <li key={managed.pastelid} className="break-all">
+                {managed.pastelid} ({managed.credit_packs.length} credit{" "}
+                {managed.credit_packs.length === 1 ? "pack" : "packs"})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="Funding address (largest balance by default)"
+          value={fundingAddress}
+          onChange={(e) => setFundingAddress(e.target.value)}
+        />
+        <Tooltip title="Creates a new PastelID and previews the fee of its registration ticket">
+          <button
+            className="btn outline w-56"
+            onClick={() => previewRegistration()}
+            disabled={isWorking || !!pendingPreview}
+          >
+            Register New PastelID
+          </button>
+        </Tooltip>
+      </div>
+      {pendingPreview && (
+        <div className="grid gap-2">
+          <p className="text-sm text-bw-700 break-all">
+            Registering {pendingPreview.registration.pastelid} costs{" "}
+            {pendingPreview.registration.ticket_cost_in_psl} PSL for the ticket
+            and {pendingPreview.registration.fee_in_psl} PSL in fees.
+          </p>
+          <TransactionPreviewDetails preview={pendingPreview.preview} />
+          <div className="flex gap-2">
+            <button
+              className="btn success outline w-44"
+              onClick={confirmRegistration}
+              disabled={isWorking}
+            >
+              Confirm
+            </button>
+            <button
+              className="btn outline w-44"
+              onClick={discardRegistration}
+              disabled={isWorking}
+            >
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+      <Loading
+        isLoading={isWorking}
+        className="font-normal text-sm"
+        text="Working..."
+      />
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-bw-700">
+            <th className="py-1">PastelID</th>
+            <th className="py-1">Status</th>
+            <th className="py-1">Credit Packs</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {pastelIDs.filter((managed) => managed.is_local).map((managed) => (
+            <React.Fragment key={managed.pastelid}>
+              <tr className="border-t border-gray-200">
+                <td className="py-1 break-all">
+                  {managed.pastelid}
+                  {managed.is_selected ? " (in use)" : ""}
+                </td>
+                <td className="py-1">
+                  {STATUS_LABELS[managed.registration_status]}
+                  {managed.registration?.stage === "failed" && (
+                    <span className="block text-xs text-red-600">
+                      {managed.registration.last_error}
+                    </span>
+                  )}
+                </td>
+                <td className="py-1">{managed.credit_packs.length}</td>
+                <td className="py-1 text-right">
+                  <div className="flex gap-2 justify-end">
+                    {managed.registration_status === "unregistered" && (
+                      <button
+                        className="btn outline"
+                        onClick={() => previewRegistration(managed.pastelid)}
+                        disabled={isWorking || !!pendingPreview}
+                      >
+                        Register
+                      </button>
+                    )}
+                    {managed.registration_status === "pending" && (
+                      <button
+                        className="btn outline"
+                        onClick={() => checkRegistration(managed.pastelid)}
+                        disabled={isWorking}
+                      >
+                        Check Progress
+                      </button>
+                    )}
+                    <button
+                      className="btn outline"
+                      onClick={() =>
+                        setExpandedPastelID(
+                          expandedPastelID === managed.pastelid ? "" : managed.pastelid
+                        )
+                      }
+                    >
+                      {expandedPastelID === managed.pastelid ? "Hide" : "Details"}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+              {expandedPastelID === managed.pastelid && (
+                <tr>
+                  <td colSpan={4} className="py-2">
+                    <div className="grid gap-3">
+                      {managed.registration?.txid && (
+                        <p className="break-all">
+                          Registration transaction: {managed.registration.txid}
+                        </p>
+                      )}
+                      {managed.ticket && (
+                        <details>
+                          <summary className="cursor-pointer">Ticket</summary>
+                          <pre className="text-xs whitespace-pre-wrap break-all">
+                            {JSON.stringify(managed.ticket, null, 2)}
+                          </pre>
+                        </details>
+                      )}
+                      {managed.credit_packs.length > 0 && (
+                        <ul>
+                          {managed.credit_packs.map((pack) => (
+                            <li
+                              key={`${pack.source}-${pack.credit_usage_tracking_psl_address}`}
+                              className="break-all"
+                            >
+                              {pack.credit_pack_ticket_txid || "Unregistered credit pack"} (
+                              {pack.source}, tracking address{" "}
+                              {pack.credit_usage_tracking_psl_address})
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                      <div className="flex flex-wrap gap-2 items-center">
+                        <input
+                          type="password"
+                          className="input flex-1 min-w-0"
+                          placeholder={
+                            managed.has_stored_passphrase
+                              ? "Export passphrase (stored one by default)"
+                              : "Export passphrase"
+                          }
+                          value={exportPassphrase}
+                          onChange={(e) => setExportPassphrase(e.target.value)}
+                        />
+                        <Tooltip title="Downloads the keys of this PastelID encrypted with the passphrase">
+                          <button
+                            className="btn outline w-44"
+                            onClick={() => exportPastelID(managed.pastelid)}
+                            disabled={
+                              isWorking ||
+                              (!managed.has_stored_passphrase && !exportPassphrase)
+                            }
+                          >
+                            Export
+                          </button>
+                        </Tooltip>
+                      </div>
+                      {managed.has_stored_passphrase && (
+                        <div className="flex flex-wrap gap-2 items-center">
+                          <input
+                            type="password"
+                            className="input flex-1 min-w-0"
+                            placeholder="Current passphrase"
+                            value={passphraseChange.current}
+                            onChange={(e) =>
+                              setPassphraseChange({
+                                ...passphraseChange,
+                                current: e.target.value,
+                              })
+                            }
+                          />
+                          <input
+                            type="password"
+                            className="input flex-1 min-w-0"
+                            placeholder="New passphrase"
+                            value={passphraseChange.next}
+                            onChange={(e) =>
+                              setPassphraseChange({
+                                ...passphraseChange,
+                                next: e.target.value,
+                              })
+                            }
+                          />
+                          <button
+                            className="btn outline w-44"
+                            onClick={() => changePassphrase(managed.pastelid)}
+                            disabled={isWorking || !passphraseChange.next}
+                          >
+                            Change Passphrase
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )}
+            </React.Fragment>
+          ))}
+        </tbody>
+      </table>
+      <h3 className="text-lg text-bw-800">Import a Secure Container</h3>
+      <div className="flex flex-wrap gap-2 items-center">
+        <input
+          type="file"
+          className="flex-1 min-w-0 text-sm"
+          onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+        />
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="PastelID (read from the file when possible)"
+          value={importPastelID}
+          onChange={(e) => setImportPastelID(e.target.value)}
+        />
+        <input
+          type="password"
+          className="input flex-1 min-w-0"
+          placeholder="Passphrase"
+          value={importPassphrase}
+          onChange={(e) => setImportPassphrase(e.target.value)}
+        />
+        <button
+          className="btn outline w-44"
+          onClick={importContainer}
+          disabled={isWorking || !importFile || !importPassphrase}
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import ReactMarkdown from "react-markdown";
 
 import { InferenceRequest } from "@/app/types";
 import useStore from "@/app/store/useStore";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
 
 const looksLikeMarkdown = (text: string): boolean => {
   if (!text || typeof text !== "string") return false;
@@ -104,7 +105,7 @@ export default function PreviousRequests() {
 
   const deleteRequest = (index: number) => {
     const updatedRequests = requests.filter((_, i) => i !== index);
-    localStorage.setItem("inferenceRequests", JSON.stringify(updatedRequests));
+    localStorage.setItem(getNetworkStorageKey("inferenceRequests"), JSON.stringify(updatedRequests));
     getRequests();
     if (selectedRequest === requests[index]) {
       setSelectedRequest(null);
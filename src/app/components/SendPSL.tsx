@@ -0,0 +1,351 @@
+// src/app/components/SendPSL.tsx
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Tooltip } from "antd";
+
+import * as api from "@/app/lib/api";
+import { getOutpointKey, patoshisToPSL } from "@/app/lib/coinSelection";
+import useStore from "@/app/store/useStore";
+import { TransactionPreviewDetails } from "@/app/components/TransactionConfirmation";
+import {
+  CoinSelectionOptions,
+  CoinSelectionPreview,
+  CoinSelectionStrategy,
+  TransactionPreview,
+  UTXO,
+} from "@/app/types";
+
+const STRATEGIES: { value: CoinSelectionStrategy; label: string }[] = [
+  { value: "largest_first", label: "Largest first" },
+  { value: "branch_and_bound", label: "Branch and bound (avoid change)" },
+  { value: "privacy", label: "Privacy (avoid linking addresses)" },
+  { value: "manual", label: "Manual" },
+];
+
+const parseRecipients = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.split("=").map((part) => part.trim()))
+    .filter(([address, amount]) => address && amount)
+    .map(([address, amount]) => ({ address, amount: parseFloat(amount) }));
+
+export default function SendPSL() {
+  const { fetchWalletInfo, isWatchOnly } = useStore();
+  const [recipients, setRecipients] = useState<string>("");
+  const [strategy, setStrategy] =
+    useState<CoinSelectionStrategy>("largest_first");
+  const [utxos, setUtxos] = useState<UTXO[]>([]);
+  const [fromAddresses, setFromAddresses] = useState<string[]>([]);
+  const [selectedUtxoKeys, setSelectedUtxoKeys] = useState<string[]>([]);
+  const [preview, setPreview] = useState<CoinSelectionPreview | null>(null);
+  const [transaction, setTransaction] = useState<TransactionPreview | null>(
+    null
+  );
+  const [confirmBeforeBroadcast, setConfirmBeforeBroadcast] =
+    useState<boolean>(false);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [status, setStatus] = useState<string>("");
+
+  useEffect(() => {
+    setConfirmBeforeBroadcast(api.isTransactionConfirmationRequired());
+  }, []);
+
+  const addressBalances = useMemo(() => {
+    const balances = new Map<string, number>();
+    for (const utxo of utxos) {
+      balances.set(utxo.address, (balances.get(utxo.address) || 0) + utxo.patoshis);
+    }
+    return Array.from(balances.entries()).sort((a, b) => b[1] - a[1]);
+  }, [utxos]);
+
+  const loadCoins = async () => {
+    setIsWorking(true);
+    try {
+      setUtxos(await api.getSpendableUtxos());
+      setStatus("");
+    } catch (error) {
+      setStatus(`Failed to load UTXOs: ${(error as Error).message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggle = (values: string[], value: string) =>
+    values.includes(value)
+      ? values.filter((item) => item !== value)
+      : [...values, value];
+
+  const getCoinSelection = (): CoinSelectionOptions => ({
+    strategy,
+    fromAddresses: fromAddresses.length ? fromAddresses : undefined,
+    selectedUtxos:
+      strategy === "manual"
+        ? utxos.filter((utxo) => selectedUtxoKeys.includes(getOutpointKey(utxo)))
+        : undefined,
+  });
+
+  const previewSend = async () => {
+    setIsWorking(true);
+    resetPreview();
+    try {
+      setPreview(
+        await api.previewCoinSelection(
+          parseRecipients(recipients),
+          getCoinSelection()
+        )
+      );
+      setStatus("");
+    } catch (error) {
+      setStatus(`Failed to select coins: ${(error as Error).message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const buildAndSign = async () => {
+    setIsWorking(true);
+    try {
+      setTransaction(
+        await api.buildTransaction(
+          parseRecipients(recipients),
+          getCoinSelection()
+        )
+      );
+      setStatus("Signed. Review the transaction, then broadcast or discard it.");
+    } catch (error) {
+      setStatus(`Failed to build the transaction: ${(error as Error).message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const broadcast = async () => {
+    if (!transaction) return;
+    setIsWorking(true);
+    try {
+      const txid = await api.broadcastTransaction(transaction.preview_id);
+      setStatus(`Sent. Transaction ID: ${txid}`);
+      setPreview(null);
+      setTransaction(null);
+      setSelectedUtxoKeys([]);
+      await fetchWalletInfo();
+    } catch (error) {
+      setStatus(`Failed to broadcast: ${(error as Error).message}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const discard = () => {
+    if (!transaction) return;
+    try {
+      api.discardTransaction(transaction.preview_id);
+      setStatus("Transaction discarded.");
+    } catch (error) {
+      setStatus((error as Error).message);
+    }
+    setTransaction(null);
+  };
+
+  // Any change to the payment invalidates what was estimated or signed
+  const resetPreview = () => {
+    setPreview(null);
+    if (transaction) discard();
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Send PSL</h2>
+        <div>
+          <label className="block text-bw-700 font-bold mb-2">
+            Recipients (one address=amount per line)
+          </label>
+          <textarea
+            className="textarea w-full"
+            rows={3}
+            value={recipients}
+            onChange={(e) => {
+              setRecipients(e.target.value);
+              resetPreview();
+            }}
+          />
+        </div>
+        <div>
+          <label className="block text-bw-700 font-bold mb-2">
+            Coin Selection
+          </label>
+          <select
+            className="select w-full"
+            value={strategy}
+            onChange={(e) => {
+              setStrategy(e.target.value as CoinSelectionStrategy);
+              resetPreview();
+            }}
+          >
+            {STRATEGIES.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="btn outline w-44"
+            onClick={previewSend}
+            disabled={isWorking || !parseRecipients(recipients).length}
+          >
+            Estimate
+          </button>
+          {transaction ? (
+            <>
+              <button
+                className="btn success outline w-44"
+                onClick={broadcast}
+                disabled={isWorking}
+              >
+                Broadcast
+              </button>
+              <button className="btn outline" onClick={discard} disabled={isWorking}>
+                Discard
+              </button>
+            </>
+          ) : isWatchOnly ? (
+            <Tooltip title="Shows the unsigned transaction as an animated QR code and a file for the offline instance holding the keys to sign">
+              <button
+                className="btn success outline w-44"
+                onClick={buildAndSign}
+                disabled={isWorking || !preview}
+              >
+                Sign Offline
+              </button>
+            </Tooltip>
+          ) : (
+            <button
+              className="btn success outline w-44"
+              onClick={buildAndSign}
+              disabled={isWorking || !preview}
+            >
+              Build and Sign
+            </button>
+          )}
+        </div>
+        <Tooltip title="Shows every transaction for review before it is broadcast, including credit pack purchases and inference request payments">
+          <label className="text-sm text-bw-700">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={confirmBeforeBroadcast}
+              onChange={(e) => {
+                api.setTransactionConfirmationRequired(e.target.checked);
+                setConfirmBeforeBroadcast(e.target.checked);
+              }}
+            />
+            Confirm every transaction before broadcast
+          </label>
+        </Tooltip>
+        {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      </div>
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center justify-between">
+          <Tooltip title="Leave every address unchecked to fund the payment from the address with the largest balance">
+            <h2 className="text-2xl text-bw-800">Coin Control</h2>
+          </Tooltip>
+          <button className="btn outline" onClick={loadCoins} disabled={isWorking}>
+            Load UTXOs
+          </button>
+        </div>
+        {addressBalances.map(([address, patoshis]) => (
+          <div key={address}>
+            <label className="text-sm text-bw-700 break-all">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={fromAddresses.includes(address)}
+                onChange={() => {
+                  setFromAddresses(toggle(fromAddresses, address));
+                  resetPreview();
+                }}
+              />
+              {address} ({patoshisToPSL(patoshis)} PSL)
+            </label>
+            {strategy === "manual" &&
+              utxos
+                .filter((utxo) => utxo.address === address)
+                .map((utxo) => (
+                  <label
+                    key={getOutpointKey(utxo)}
+                    className="block ml-6 text-xs text-bw-700 break-all"
+                  >
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={selectedUtxoKeys.includes(getOutpointKey(utxo))}
+                      onChange={() => {
+                        setSelectedUtxoKeys(
+                          toggle(selectedUtxoKeys, getOutpointKey(utxo))
+                        );
+                        resetPreview();
+                      }}
+                    />
+                    {getOutpointKey(utxo)}: {patoshisToPSL(utxo.patoshis)} PSL
+                  </label>
+                ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Preview</h2>
+        {transaction ? (
+          <TransactionPreviewDetails preview={transaction} />
+        ) : preview ? (
+          <table className="w-full text-sm">
+            <tbody>
+              <tr className="border-t border-gray-200">
+                <td className="py-1 text-bw-700">Inputs</td>
+                <td className="py-1 break-all">
+                  {preview.inputs.map((utxo) => (
+                    <div key={getOutpointKey(utxo)}>
+                      {patoshisToPSL(utxo.patoshis)} PSL from {utxo.address}
+                    </div>
+                  ))}
+                </td>
+              </tr>
+              <tr className="border-t border-gray-200">
+                <td className="py-1 text-bw-700">Sending</td>
+                <td className="py-1">{preview.output_total_in_psl} PSL</td>
+              </tr>
+              <tr className="border-t border-gray-200">
+                <td className="py-1 text-bw-700">Estimated Fee</td>
+                <td className="py-1">
+                  {preview.fee_in_psl} PSL ({preview.estimated_size_in_bytes}{" "}
+                  bytes at {preview.fee_rate_in_psl_per_kb} PSL/kB)
+                </td>
+              </tr>
+              <tr className="border-t border-gray-200">
+                <td className="py-1 text-bw-700">Change</td>
+                <td className="py-1 break-all">
+                  {preview.change_in_psl > 0
+                    ? `${preview.change_in_psl} PSL to ${
+                        preview.change_address ||
+                        (isWatchOnly
+                          ? preview.funding_addresses[0]
+                          : "a new address")
+                      }`
+                    : "None"}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-gray-500">
+            Estimate a payment to see its inputs, fee and change before signing.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
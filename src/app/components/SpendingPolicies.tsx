@@ -0,0 +1,355 @@
+// src/app/components/SpendingPolicies.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import * as api from "@/app/lib/api";
+import {
+  CreditPackPurchaseSpendingPolicy,
+  CreditPackSpendingPolicy,
+  SpendingPolicyRefusal,
+} from "@/app/types";
+
+// Empty inputs mean the limit is not enforced
+const toInput = (value: number | null) => (value === null ? "" : value.toString());
+const fromInput = (value: string) =>
+  value.trim() === "" ? null : parseFloat(value);
+
+const formatPerModelBudgets = (budgets: Record<string, number>) =>
+  Object.entries(budgets)
+    .map(([model, budget]) => `${model}=${budget}`)
+    .join("\n");
+
+const parsePerModelBudgets = (text: string) => {
+  const budgets: Record<string, number> = {};
+  for (const line of text.split("\n")) {
+    const [model, budget] = line.split("=").map((part) => part.trim());
+    if (model && budget && !isNaN(parseFloat(budget))) {
+      budgets[model] = parseFloat(budget);
+    }
+  }
+  return budgets;
+};
+
+export default function SpendingPolicies() {
+  const [creditPackTicketId, setCreditPackTicketId] = useState<string>("");
+  const [packPolicy, setPackPolicy] = useState<CreditPackSpendingPolicy | null>(
+    null
+  );
+  const [dailyBudget, setDailyBudget] = useState<string>("");
+  const [weeklyBudget, setWeeklyBudget] = useState<string>("");
+  const [perModelBudgets, setPerModelBudgets] = useState<string>("");
+  const [approvalAboveCredits, setApprovalAboveCredits] = useState<string>("");
+  const [purchasePolicy, setPurchasePolicy] =
+    useState<CreditPackPurchaseSpendingPolicy | null>(null);
+  const [refusals, setRefusals] = useState<SpendingPolicyRefusal[]>([]);
+  const [status, setStatus] = useState<string>("");
+
+  useEffect(() => {
+    api.setSpendingApprovalHandler(async (request) =>
+      window.confirm(`${request.description}\n\nApprove this payment?`)
+    );
+    return () => api.setSpendingApprovalHandler(null);
+  }, []);
+
+  const loadPackPolicy = useCallback(async (txid: string) => {
+    try {
+      const policy = await api.getCreditPackSpendingPolicy(txid);
+      setPackPolicy(policy);
+      setDailyBudget(toInput(policy.daily_credit_budget));
+      setWeeklyBudget(toInput(policy.weekly_credit_budget));
+      setPerModelBudgets(
+        formatPerModelBudgets(policy.per_model_daily_credit_budgets)
+      );
+      setApprovalAboveCredits(toInput(policy.manual_approval_above_credits));
+    } catch (error) {
+      console.error("Error loading spending policy:", error);
+    }
+  }, []);
+
+  const loadPurchasePolicyAndRefusals = useCallback(async () => {
+    try {
+      setPurchasePolicy(await api.getPurchaseSpendingPolicy());
+      setRefusals(await api.getSpendingPolicyRefusals());
+    } catch (error) {
+      console.error("Error loading spending policies:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPackPolicy(creditPackTicketId);
+  }, [creditPackTicketId, loadPackPolicy]);
+
+  useEffect(() => {
+    loadPurchasePolicyAndRefusals();
+  }, [loadPurchasePolicyAndRefusals]);
+
+  const savePackPolicy = async () => {
+    if (!packPolicy) return;
+    try {
+      await api.saveCreditPackSpendingPolicy({
+        ...packPolicy,
+        credit_pack_ticket_pastel_txid: creditPackTicketId.trim(),
+        daily_credit_budget: fromInput(dailyBudget),
+        weekly_credit_budget: fromInput(weeklyBudget),
+        per_model_daily_credit_budgets: parsePerModelBudgets(perModelBudgets),
+        manual_approval_above_credits: fromInput(approvalAboveCredits),
+      });
+      setStatus(
+        creditPackTicketId.trim()
+          ? `Saved budgets for credit pack ${creditPackTicketId.trim()}.`
+          : "Saved default budgets for all credit packs."
+      );
+    } catch (error) {
+      setStatus(`Failed to save budgets: ${(error as Error).message}`);
+    }
+  };
+
+  const resetPackPolicy = async () => {
+    try {
+      await api.deleteCreditPackSpendingPolicy(creditPackTicketId.trim());
+      await loadPackPolicy(creditPackTicketId.trim());
+      setStatus("Credit pack now uses the default budgets.");
+    } catch (error) {
+      setStatus(`Failed to reset budgets: ${(error as Error).message}`);
+    }
+  };
+
+  const savePurchasePolicy = async () => {
+    if (!purchasePolicy) return;
+    try {
+      await api.savePurchaseSpendingPolicy(purchasePolicy);
+      setStatus("Saved credit pack purchase limits.");
+    } catch (error) {
+      setStatus(`Failed to save purchase limits: ${(error as Error).message}`);
+    }
+  };
+
+  const updatePurchasePolicy = (
+    field: keyof CreditPackPurchaseSpendingPolicy & string,
+    value: string,
+    nullable: boolean
+  ) => {
+    if (!purchasePolicy) return;
+    setPurchasePolicy({
+      ...purchasePolicy,
+      [field]: nullable ? fromInput(value) : parseFloat(value) || 0,
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Credit Budgets</h2>
+        <div>
+          <label className="block text-bw-700 font-bold mb-2">
+            Credit Pack Ticket TXID
+          </label>
+          <input
+            className="input w-full"
+            type="text"
+            placeholder="Leave empty for the default of all packs"
+            value={creditPackTicketId}
+            onChange={(e) => setCreditPackTicketId(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-bw-700 font-bold mb-2">
+              Daily Budget
+            </label>
+            <input
+              className="input w-full"
+              type="number"
+              value={dailyBudget}
+              onChange={(e) => setDailyBudget(e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="block text-bw-700 font-bold mb-2">
+              Weekly Budget
+            </label>
+            <input
+              className="input w-full"
+              type="number"
+              value={weeklyBudget}
+              onChange={(e) => setWeeklyBudget(e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-bw-700 font-bold mb-2">
+            Daily Budget per Model (one model=credits per line)
+          </label>
+          <textarea
+            className="textarea w-full"
+            rows={3}
+            value={perModelBudgets}
+            onChange={(e) => setPerModelBudgets(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-bw-700 font-bold mb-2">
+            Require Approval Above (credits)
+          </label>
+          <input
+            className="input w-full"
+            type="number"
+            value={approvalAboveCredits}
+            onChange={(e) => setApprovalAboveCredits(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <button className="btn success outline w-44" onClick={savePackPolicy}>
+            Save Budgets
+          </button>
+          {creditPackTicketId.trim() && (
+            <button className="btn outline" onClick={resetPackPolicy}>
+              Use Defaults
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="flex flex-col gap-4">
+        <h2 className="text-2xl text-bw-800">Purchase Limits</h2>
+        {purchasePolicy && (
+          <>
+            <div>
+              <label className="block text-bw-700 font-bold mb-2">
+                Max PSL per Credit
+              </label>
+              <input
+                className="input w-full"
+                type="number"
+                value={purchasePolicy.maximum_per_credit_price_in_psl}
+                onChange={(e) =>
+                  updatePurchasePolicy(
+                    "maximum_per_credit_price_in_psl",
+                    e.target.value,
+                    false
+                  )
+                }
+              />
+            </div>
+            <div>
+              <Tooltip title="Largest accepted difference between the quoted and the estimated market price per credit, e.g. 0.05 for 5%">
+                <label className="block text-bw-700 font-bold mb-2">
+                  Max Difference from Market Price
+                </label>
+              </Tooltip>
+              <input
+                className="input w-full"
+                type="number"
+                value={
+                  purchasePolicy.maximum_credit_price_difference_from_market
+                }
+                onChange={(e) =>
+                  updatePurchasePolicy(
+                    "maximum_credit_price_difference_from_market",
+                    e.target.value,
+                    false
+                  )
+                }
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-bw-700 font-bold mb-2">
+                  Daily PSL Cap
+                </label>
+                <input
+                  className="input w-full"
+                  type="number"
+                  value={toInput(purchasePolicy.daily_psl_spending_cap)}
+                  onChange={(e) =>
+                    updatePurchasePolicy(
+                      "daily_psl_spending_cap",
+                      e.target.value,
+                      true
+                    )
+                  }
+                />
+              </div>
+              <div>
+                <label className="block text-bw-700 font-bold mb-2">
+                  Weekly PSL Cap
+                </label>
+                <input
+                  className="input w-full"
+                  type="number"
+                  value={toInput(purchasePolicy.weekly_psl_spending_cap)}
+                  onChange={(e) =>
+                    updatePurchasePolicy(
+                      "weekly_psl_spending_cap",
+                      e.target.value,
+                      true
+                    )
+                  }
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-bw-700 font-bold mb-2">
+                Require Approval Above (PSL)
+              </label>
+              <input
+                className="input w-full"
+                type="number"
+                value={toInput(purchasePolicy.manual_approval_above_psl)}
+                onChange={(e) =>
+                  updatePurchasePolicy(
+                    "manual_approval_above_psl",
+                    e.target.value,
+                    true
+                  )
+                }
+              />
+            </div>
+            <button
+              className="btn success outline w-44"
+              onClick={savePurchasePolicy}
+            >
+              Save Limits
+            </button>
+          </>
+        )}
+        {status && <p className="text-sm text-bw-700">{status}</p>}
+      </div>
+      <div className="bg-gray-50 p-4 rounded-lg">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl text-bw-800">Refusals</h2>
+          <button
+            className="btn outline"
+            onClick={loadPurchasePolicyAndRefusals}
+          >
+            Refresh
+          </button>
+        </div>
+        {refusals.length === 0 ? (
+          <p className="text-gray-500">No payments have been refused.</p>
+        ) : (
+          <ul
+            className="text-sm flex flex-col gap-2"
+            style={{ maxHeight: "500px", overflowY: "auto" }}
+          >
+            {refusals.map((refusal) => (
+              <li
+                key={refusal.id}
+                className="p-2 bg-white rounded border border-gray-200"
+              >
+                <div className="font-bold">
+                  {new Date(refusal.refused_at_utc_iso_string).toLocaleString()}{" "}
+                  · {refusal.amount} {refusal.unit}
+                </div>
+                <div className="text-bw-700">{refusal.rule}</div>
+                <div className="break-all">{refusal.reason}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/app/components/TransactionConfirmation.tsx
+
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { Modal } from "antd";
+
+import * as api from "@/app/lib/api";
+import { TransactionPreview } from "@/app/types";
+
+export function TransactionPreviewDetails({
+  preview,
+}: {
+  preview: TransactionPreview;
+}) {
+  return (
+    <table className="w-full text-sm text-left">
+      <tbody>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700 align-top">Inputs</td>
+          <td className="py-1 break-all">
+            {preview.inputs.map((input) => (
+              <div key={`${input.txid}:${input.vout}`}>
+                {input.value_in_psl} PSL from {input.address}
+              </div>
+            ))}
+          </td>
+        </tr>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700 align-top">Outputs</td>
+          <td className="py-1 break-all">
+            {preview.outputs.map((output) => (
+              <div key={output.n}>
+                {output.value_in_psl} PSL to {output.address || "(non-standard)"}
+                {output.is_change ? " (change)" : ""}
+              </div>
+            ))}
+          </td>
+        </tr>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700">Fee</td>
+          <td className="py-1">
+            {preview.fee_in_psl} PSL ({preview.fee_rate_in_psl_per_kb} PSL/kB)
+          </td>
+        </tr>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700">Size</td>
+          <td className="py-1">{preview.size_in_bytes} bytes</td>
+        </tr>
+        <tr className="border-t border-gray-200">
+          <td className="py-1 pr-2 text-bw-700">TXID</td>
+          <td className="py-1 break-all">{preview.txid}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Asks the user to confirm every transaction the send paths are about to
+ * broadcast, when confirmation is required in the Send PSL settings.
+ */
+const TransactionConfirmation: React.FC = () => {
+  const [preview, setPreview] = useState<TransactionPreview | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  useEffect(() => {
+    api.setTransactionConfirmationHandler(
+      (pending) =>
+        new Promise<boolean>((resolve) => {
+          // A new prompt declines the one it replaces
+          resolveRef.current?.(false);
+          resolveRef.current = resolve;
+          setPreview(pending);
+        })
+    );
+    return () => {
+      api.setTransactionConfirmationHandler(null);
+      resolveRef.current?.(false);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  if (!preview) return null;
+
+  const answer = (confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setPreview(null);
+  };
+
+  return (
+    <Modal
+      centered
+      open
+      width={640}
+      maskClosable={false}
+      closable={false}
+      title="Confirm Transaction"
+      footer={
+        <div className="flex gap-2 justify-end">
+          <button className="btn outline" onClick={() => answer(false)}>
+            Cancel
+          </button>
+          <button className="btn success outline" onClick={() => answer(true)}>
+            Broadcast
+          </button>
+        </div>
+      }
+    >
+      <p className="mb-2 text-bw-700">
+        Sending {preview.recipient_total_in_psl} PSL. Review the transaction
+        before it is broadcast.
+      </p>
+      <TransactionPreviewDetails preview={preview} />
+    </Modal>
+  );
+};
+
+export default TransactionConfirmation;
@@ -0,0 +1,175 @@
+// src/app/components/TransactionHistory.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import {
+  TransactionHistoryEntry,
+  TransactionHistoryLabel,
+} from "@/app/types";
+
+const LABELS: Record<TransactionHistoryLabel, string> = {
+  credit_pack_purchase_burn: "Credit pack purchase",
+  inference_tracking_burn: "Inference tracking",
+  pastelid_registration: "PastelID registration",
+  promotional_pack_funding: "Promotional pack funding",
+  transfer: "Transfer",
+};
+
+const PAGE_SIZE = 50;
+
+export default function TransactionHistory() {
+  const [search, setSearch] = useState<string>("");
+  const [label, setLabel] = useState<TransactionHistoryLabel | "">("");
+  const [transactions, setTransactions] = useState<TransactionHistoryEntry[]>(
+    []
+  );
+  const [total, setTotal] = useState<number>(0);
+  const [limit, setLimit] = useState<number>(PAGE_SIZE);
+  const [status, setStatus] = useState<string>("");
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+
+  const loadTransactions = useCallback(async () => {
+    try {
+      const result = await api.searchTransactionHistory({
+        search: search || undefined,
+        label: label || undefined,
+        limit,
+      });
+      setTransactions(result.transactions);
+      setTotal(result.total);
+    } catch (error) {
+      console.error("Error loading transaction history:", error);
+    }
+  }, [search, label, limit]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const syncHistory = async () => {
+    setIsSyncing(true);
+    setStatus("");
+    try {
+      const result = await api.syncTransactionHistory();
+      setStatus(
+        `${result.new_transaction_count} new and ${result.updated_transaction_count} updated transactions.` +
+          (result.failed_addresses.length
+            ? ` Failed to sync ${result.failed_addresses.join(", ")}.`
+            : "")
+      );
+      await loadTransactions();
+    } catch (error) {
+      console.error("Error syncing transaction history:", error);
+      setStatus(`Failed to sync: ${(error as Error).message}`);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Transaction History</h2>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="Search by TXID, address or reference"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            setLimit(PAGE_SIZE);
+          }}
+        />
+        <select
+          className="select"
+          value={label}
+          onChange={(e) => {
+            setLabel(e.target.value as TransactionHistoryLabel | "");
+            setLimit(PAGE_SIZE);
+          }}
+        >
+          <option value="">All types</option>
+          {Object.entries(LABELS).map(([value, text]) => (
+            <option key={value} value={value}>
+              {text}
+            </option>
+          ))}
+        </select>
+        <Tooltip title="Fetches the history of every wallet address; only new and unconfirmed transactions are decoded again">
+          <button
+            className="btn success outline w-44"
+            onClick={syncHistory}
+            disabled={isSyncing}
+          >
+            Sync History
+          </button>
+        </Tooltip>
+        <Loading
+          isLoading={isSyncing}
+          className="font-normal text-sm"
+          text="Syncing..."
+        />
+      </div>
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      {transactions.length === 0 ? (
+        <p className="text-gray-500">
+          No transactions found. Sync the history to index the transactions of
+          your wallet addresses.
+        </p>
+      ) : (
+        <div
+          className="bg-gray-50 p-4 rounded-lg"
+          style={{ maxHeight: "500px", overflowY: "auto" }}
+        >
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-bw-700">
+                <th className="py-1">Block</th>
+                <th className="py-1">Type</th>
+                <th className="py-1">Amount (PSL)</th>
+                <th className="py-1">Counterparties</th>
+                <th className="py-1">Reference</th>
+                <th className="py-1">TXID</th>
+              </tr>
+            </thead>
+            <tbody>
+              {transactions.map((tx) => (
+                <tr key={tx.txid} className="border-t border-gray-200">
+                  <td className="py-1">{tx.block_height ?? "Unconfirmed"}</td>
+                  <td className="py-1">{LABELS[tx.label]}</td>
+                  <td
+                    className={`py-1 ${
+                      tx.net_amount_in_psl < 0 ? "text-red-500" : ""
+                    }`}
+                  >
+                    {tx.net_amount_in_psl > 0 ? "+" : ""}
+                    {tx.net_amount_in_psl}
+                    {tx.direction === "self" ? " (self)" : ""}
+                  </td>
+                  <td className="py-1 break-all">
+                    {tx.counterparty_addresses.join(", ") || "-"}
+                  </td>
+                  <td className="py-1 break-all">{tx.reference_id || "-"}</td>
+                  <td className="py-1 break-all">{tx.txid}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {transactions.length < total && (
+            <button
+              className="btn outline mt-2"
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+            >
+              Show more ({total - transactions.length} remaining)
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
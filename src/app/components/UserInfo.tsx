@@ -87,8 +87,8 @@ export default function UserInfo() {
     try {
       await api.setPastelIdAndPassphrase(selectedPastelID, passphrase);
       setMessage("Successfully set PastelID and passphrase!");
-      if (rememberPassphrase) {
-        localStorage.setItem(selectedPastelID, btoa(passphrase));
+      if (!rememberPassphrase) {
+        await api.forgetPastelIDPassphrase(selectedPastelID);
       }
       setShowPassphraseInput(false);
     } catch (error) {
@@ -112,7 +112,7 @@ export default function UserInfo() {
       setMessage(
         `PastelID creation initiated. Your new PastelID is ${result.pastelID}. Please wait while it's being registered on the blockchain...`
       );
-      localStorage.setItem(result.pastelID, btoa(newPastelIDPassphrase));
+      await api.storePastelIDPassphrase(result.pastelID, newPastelIDPassphrase);
       pollPastelIDStatus(result.pastelID);
     } catch (error) {
       browserLogger.error("Error creating PastelID:", error);
@@ -137,7 +137,7 @@ export default function UserInfo() {
           setMessage(
             "Your PastelID has been registered and your wallet has been funded. The page will refresh shortly."
           );
-          await api.setPastelIdAndPassphrase(pastelID, btoa(passphrase || newPastelIDPassphrase))
+          await api.setPastelIdAndPassphrase(pastelID, passphrase || newPastelIDPassphrase)
           await refreshWalletData();
           await saveWalletToLocalStorage();
         } else {
@@ -250,11 +250,9 @@ export default function UserInfo() {
           message: result.message,
         });
         if (result.processedPacks && result.processedPacks.length > 0) {
-          result.processedPacks.forEach(
-            (pack: { pub_key: string; passphrase: string }) => {
-              localStorage.setItem(pack.pub_key, btoa(pack.passphrase));
-            }
-          );
+          for (const pack of result.processedPacks) {
+            await api.storePastelIDPassphrase(pack.pub_key, pack.passphrase);
+          }
 
           const newPastelID = result.processedPacks[0].pub_key;
           await setSelectedPastelIDAndPassphrase(newPastelID, "", true);
@@ -285,16 +283,16 @@ export default function UserInfo() {
     extraMessage: string = "",
     isNewlyImportedPromoPack: boolean = false
   ) => {
-    const storedPassphrase = localStorage.getItem(selectedPastelID);
+    const storedPassphrase = api.getStoredPastelIDPassphrase(selectedPastelID);
 
     try {
       const isValid = await api.checkPastelIDValidity(selectedPastelID);
 
       if (!isValid) {
         browserLogger.info(
-          `PastelID ${selectedPastelID} is not valid. Removing from localStorage.`
+          `PastelID ${selectedPastelID} is not valid. Removing its stored passphrase.`
         );
-        localStorage.removeItem(selectedPastelID);
+        await api.forgetPastelIDPassphrase(selectedPastelID);
         await fetchPastelIDs();
         return;
       }
@@ -354,14 +352,14 @@ export default function UserInfo() {
 
   const postPassphrase = async (
     pastelID: string,
-    encodedPassphrase: string
+    passphrase: string
   ) => {
     try {
-      await api.setPastelIdAndPassphrase(pastelID, atob(encodedPassphrase));
+      await api.setPastelIdAndPassphrase(pastelID, passphrase);
       await fetchModelMenu();
       await fetchReceivedMessages();
     } catch (error) {
-      localStorage.setItem(pastelID, "");
+      await api.forgetPastelIDPassphrase(pastelID);
       await setSelectedPastelIDAndPassphrase(pastelID, "Invalid Passphrase");
       browserLogger.error("Error setting PastelID and passphrase:", error);
     }
@@ -0,0 +1,226 @@
+// src/app/components/WalletAccounts.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import { WalletAccountSummary } from "@/app/types";
+
+export default function WalletAccounts() {
+  const [accounts, setAccounts] = useState<WalletAccountSummary[]>([]);
+  const [newAccountName, setNewAccountName] = useState<string>("");
+  const [gapLimit, setGapLimit] = useState<string>("");
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await api.listWalletAccounts());
+    } catch (error) {
+      console.error("Error loading wallet accounts:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setGapLimit(String(api.getAddressGapLimit()));
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      const message = await action();
+      if (message) setStatus(message);
+      await loadAccounts();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const discover = () =>
+    run(async () => {
+      const limit = parseInt(gapLimit, 10);
+      api.setAddressGapLimit(limit);
+      const result = await api.discoverAddresses(limit);
+      return `Scanned ${result.scanned_address_count} addresses (${result.derived_address_count} newly derived) and found ${result.used_address_count} with history.`;
+    });
+
+  const createAccount = () =>
+    run(async () => {
+      await api.createWalletAccount(newAccountName);
+      setNewAccountName("");
+    });
+
+  const trackingAccountId =
+    accounts.find((summary) => summary.is_credit_tracking_account)?.account
+      .account_id || "";
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Accounts</h2>
+      <div className="flex flex-wrap gap-4 items-center">
+        <Tooltip title="Discovery stops after this many consecutive addresses without any history">
+          <label className="text-bw-700">
+            Gap limit
+            <input
+              type="number"
+              min={1}
+              className="input w-24 ml-2"
+              value={gapLimit}
+              onChange={(e) => setGapLimit(e.target.value)}
+            />
+          </label>
+        </Tooltip>
+        <Tooltip title="Scans the wallet's addresses for history through the opennode, deriving new ones until the gap limit is reached. Run it after restoring a wallet from its mnemonic.">
+          <button
+            className="btn success outline w-44"
+            onClick={discover}
+            disabled={isWorking || !(parseInt(gapLimit, 10) > 0)}
+          >
+            Discover Addresses
+          </button>
+        </Tooltip>
+        <Loading
+          isLoading={isWorking}
+          className="font-normal text-sm"
+          text="Working..."
+        />
+      </div>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="New account name"
+          value={newAccountName}
+          onChange={(e) => setNewAccountName(e.target.value)}
+        />
+        <button
+          className="btn outline w-44"
+          onClick={createAccount}
+          disabled={isWorking || !newAccountName.trim()}
+        >
+          Create Account
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-4 items-center">
+        <Tooltip title="New credit pack tracking addresses are put in this account, and credit packs are funded from the other accounts">
+          <label className="text-bw-700">Credit tracking account</label>
+        </Tooltip>
+        <select
+          className="select flex-1 min-w-0"
+          value={trackingAccountId}
+          onChange={(e) =>
+            run(() => api.setCreditTrackingAccountId(e.target.value || null))
+          }
+          disabled={isWorking}
+        >
+          <option value="">None (keep tracking addresses with the others)</option>
+          {accounts
+            .filter((summary) => !summary.is_default)
+            .map((summary) => (
+              <option
+                key={summary.account.account_id}
+                value={summary.account.account_id}
+              >
+                {summary.account.name}
+              </option>
+            ))}
+        </select>
+      </div>
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      {accounts.map((summary) => (
+        <div
+          key={summary.account.account_id}
+          className="bg-gray-50 p-4 rounded-lg"
+        >
+          <div className="flex flex-wrap gap-2 items-center justify-between mb-2">
+            <h3 className="text-lg font-bold text-bw-800">
+              {summary.account.name}
+              {summary.is_credit_tracking_account ? " (credit tracking)" : ""}
+            </h3>
+            <div className="flex gap-2">
+              <button
+                className="btn outline"
+                onClick={() =>
+                  run(async () => {
+                    const address = await api.getUnusedAccountAddress(
+                      summary.account.account_id
+                    );
+                    return `Unused address of ${summary.account.name}: ${address}`;
+                  })
+                }
+                disabled={isWorking}
+              >
+                Receive Address
+              </button>
+              {!summary.is_default && (
+                <button
+                  className="btn outline"
+                  onClick={() =>
+                    run(() => api.deleteWalletAccount(summary.account.account_id))
+                  }
+                  disabled={isWorking}
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          </div>
+          {summary.addresses.length === 0 ? (
+            <p className="text-sm text-gray-500">No addresses.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-bw-700">
+                  <th className="py-1">Index</th>
+                  <th className="py-1">Address</th>
+                  <th className="py-1">Used</th>
+                  <th className="py-1">Account</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.addresses.map((record) => (
+                  <tr key={record.address} className="border-t border-gray-200">
+                    <td className="py-1">{record.derivation_index ?? "-"}</td>
+                    <td className="py-1 break-all">{record.address}</td>
+                    <td className="py-1">{record.has_history ? "Yes" : "No"}</td>
+                    <td className="py-1">
+                      <select
+                        className="select"
+                        value={summary.account.account_id}
+                        onChange={(e) =>
+                          run(() =>
+                            api.assignAddressToAccount(
+                              record.address,
+                              e.target.value
+                            )
+                          )
+                        }
+                        disabled={isWorking}
+                      >
+                        {accounts.map((other) => (
+                          <option
+                            key={other.account.account_id}
+                            value={other.account.account_id}
+                          >
+                            {other.account.name}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
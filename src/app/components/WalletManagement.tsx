@@ -137,13 +137,14 @@ export default function WalletManagement() {
     }
   };
 
-  const clearLocalStorage = () => {
+  const clearLocalStorage = async () => {
     if (
       confirm(
         "Are you sure you want to clear all local storage data for this page?"
       )
     ) {
       localStorage.clear();
+      await api.resetKeystore();
       alert("Local storage cleared. The page will now reload.");
       window.location.reload();
     }
@@ -0,0 +1,201 @@
+// src/app/components/WalletProfiles.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import useStore from "@/app/store/useStore";
+import { WalletProfile } from "@/app/types";
+
+export default function WalletProfiles() {
+  const { switchWalletProfile } = useStore();
+  const [profiles, setProfiles] = useState<WalletProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string>("");
+  const [newProfileName, setNewProfileName] = useState<string>("");
+  const [newProfileNetwork, setNewProfileNetwork] =
+    useState<WalletProfile["network"]>("Mainnet");
+  const [renaming, setRenaming] = useState({ profileId: "", name: "" });
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadProfiles = useCallback(() => {
+    setProfiles(api.getWalletProfiles());
+    setActiveProfileId(api.getActiveWalletProfile().id);
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const run = async (action: () => Promise<void> | void) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      await action();
+      loadProfiles();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const createProfile = () =>
+    run(() => {
+      api.createWalletProfile(newProfileName, newProfileNetwork);
+      setNewProfileName("");
+    });
+
+  const renameProfile = () =>
+    run(() => {
+      api.renameWalletProfile(renaming.profileId, renaming.name);
+      setRenaming({ profileId: "", name: "" });
+    });
+
+  const deleteProfile = (profile: WalletProfile) => {
+    if (
+      !window.confirm(
+        `Delete the wallet profile "${profile.name}" with its wallet, PastelIDs and credit packs? Back up its wallet first; this cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    run(() => api.deleteWalletProfile(profile.id));
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <h2 className="text-2xl text-bw-800">Wallet Profiles</h2>
+      <p className="text-bw-700">
+        Each profile has its own wallet, PastelIDs, network, PIN and credit
+        packs. Switching reloads the wallet of the chosen profile, which asks
+        for that profile&apos;s PIN.
+      </p>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="New profile name"
+          value={newProfileName}
+          onChange={(e) => setNewProfileName(e.target.value)}
+        />
+        <select
+          className="select w-32"
+          value={newProfileNetwork}
+          onChange={(e) =>
+            setNewProfileNetwork(e.target.value as WalletProfile["network"])
+          }
+        >
+          <option value="Mainnet">Mainnet</option>
+          <option value="Testnet">Testnet</option>
+          <option value="Devnet">Devnet</option>
+        </select>
+        <Tooltip title="Adds an empty profile; its wallet is created or imported when it is first switched to">
+          <button
+            className="btn outline w-44"
+            onClick={createProfile}
+            disabled={isWorking || !newProfileName.trim()}
+          >
+            Create Profile
+          </button>
+        </Tooltip>
+      </div>
+      <Loading
+        isLoading={isWorking}
+        className="font-normal text-sm"
+        text="Working..."
+      />
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-bw-700">
+            <th className="py-1">Name</th>
+            <th className="py-1">Network</th>
+            <th className="py-1">Last Used</th>
+            <th className="py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {profiles.map((profile) => (
+            <tr key={profile.id} className="border-t border-gray-200">
+              <td className="py-1">
+                {renaming.profileId === profile.id ? (
+                  <input
+                    type="text"
+                    className="input w-full"
+                    value={renaming.name}
+                    onChange={(e) =>
+                      setRenaming({ ...renaming, name: e.target.value })
+                    }
+                  />
+                ) : (
+                  <>
+                    {profile.name}
+                    {profile.id === activeProfileId ? " (active)" : ""}
+                  </>
+                )}
+              </td>
+              <td className="py-1">{profile.network}</td>
+              <td className="py-1">
+                {new Date(profile.last_used_at_utc_iso_string).toLocaleString()}
+              </td>
+              <td className="py-1 text-right">
+                <div className="flex gap-2 justify-end">
+                  {renaming.profileId === profile.id ? (
+                    <>
+                      <button
+                        className="btn outline"
+                        onClick={renameProfile}
+                        disabled={isWorking || !renaming.name.trim()}
+                      >
+                        Save
+                      </button>
+                      <button
+                        className="btn outline"
+                        onClick={() => setRenaming({ profileId: "", name: "" })}
+                        disabled={isWorking}
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      className="btn outline"
+                      onClick={() =>
+                        setRenaming({ profileId: profile.id, name: profile.name })
+                      }
+                      disabled={isWorking}
+                    >
+                      Rename
+                    </button>
+                  )}
+                  {profile.id !== activeProfileId && (
+                    <>
+                      <button
+                        className="btn success outline"
+                        onClick={() => run(() => switchWalletProfile(profile.id))}
+                        disabled={isWorking}
+                      >
+                        Switch
+                      </button>
+                      <button
+                        className="btn outline"
+                        onClick={() => deleteProfile(profile)}
+                        disabled={isWorking}
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
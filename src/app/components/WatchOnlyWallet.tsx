@@ -0,0 +1,315 @@
+// src/app/components/WatchOnlyWallet.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback } from "react";
+import { Tooltip } from "antd";
+
+import Loading from "@/app/components/Loading";
+import * as api from "@/app/lib/api";
+import useStore from "@/app/store/useStore";
+import {
+  WatchedCreditPackStatus,
+  WatchedPastelIDStatus,
+} from "@/app/types";
+
+export default function WatchOnlyWallet() {
+  const { walletBalance, fetchWalletInfo, refreshWalletData, exitWatchOnlyMode } =
+    useStore();
+  const [addressBalances, setAddressBalances] = useState<
+    { [address: string]: number }
+  >({});
+  const [pastelIDs, setPastelIDs] = useState<WatchedPastelIDStatus[]>([]);
+  const [creditPacks, setCreditPacks] = useState<WatchedCreditPackStatus[]>([]);
+  const [newAddress, setNewAddress] = useState<string>("");
+  const [newPastelID, setNewPastelID] = useState<string>("");
+  const [newCreditPack, setNewCreditPack] = useState({
+    txid: "",
+    trackingAddress: "",
+    pastelID: "",
+  });
+  const [status, setStatus] = useState<string>("");
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+
+  const loadWatched = useCallback(async () => {
+    try {
+      setAddressBalances(await api.getWatchedAddressBalances());
+      setPastelIDs(await api.getWatchedPastelIDs());
+      setCreditPacks(await api.getWatchedCreditPacks());
+    } catch (error) {
+      console.error("Error loading the watch-only wallet:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWalletInfo();
+    loadWatched();
+  }, [fetchWalletInfo, loadWatched]);
+
+  const run = async (action: () => Promise<void> | void) => {
+    setIsWorking(true);
+    setStatus("");
+    try {
+      await action();
+      await refreshWalletData();
+      await fetchWalletInfo();
+      await loadWatched();
+    } catch (error) {
+      setStatus((error as Error).message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 p-4 has-border rounded-xl bg-white shadow-md mt-3">
+      <div className="flex flex-wrap gap-4 items-center justify-between">
+        <h2 className="text-2xl text-bw-800">Watch-Only Wallet</h2>
+        <div className="flex gap-2">
+          <button
+            className="btn outline"
+            onClick={() => run(() => undefined)}
+            disabled={isWorking}
+          >
+            Refresh
+          </button>
+          <Tooltip title="Reloads the app to create or restore a wallet with keys. The watched addresses, PastelIDs and credit packs are kept.">
+            <button
+              className="btn outline"
+              onClick={exitWatchOnlyMode}
+              disabled={isWorking}
+            >
+              Leave Watch-Only Mode
+            </button>
+          </Tooltip>
+        </div>
+      </div>
+      <p className="text-bw-700">
+        Total balance: <span className="font-bold">{walletBalance} PSL</span>.
+        Nothing is signed here; payments, credit pack purchases and PastelID
+        signatures are passed to an offline instance holding the keys.
+      </p>
+      <Loading
+        isLoading={isWorking}
+        className="font-normal text-sm"
+        text="Working..."
+      />
+      {status && <p className="text-sm text-bw-700 break-all">{status}</p>}
+
+      <h3 className="text-lg font-bold text-bw-800">Addresses</h3>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="PSL address"
+          value={newAddress}
+          onChange={(e) => setNewAddress(e.target.value)}
+        />
+        <button
+          className="btn outline w-44"
+          onClick={() =>
+            run(async () => {
+              await api.watchAddress(newAddress.trim());
+              setNewAddress("");
+            })
+          }
+          disabled={isWorking || !newAddress.trim()}
+        >
+          Watch Address
+        </button>
+      </div>
+      {Object.keys(addressBalances).length === 0 ? (
+        <p className="text-sm text-gray-500">No watched addresses.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-bw-700">
+              <th className="py-1">Address</th>
+              <th className="py-1">Balance (PSL)</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(addressBalances).map(([address, balance]) => (
+              <tr key={address} className="border-t border-gray-200">
+                <td className="py-1 break-all">{address}</td>
+                <td className="py-1">{balance}</td>
+                <td className="py-1 text-right">
+                  <button
+                    className="btn outline"
+                    onClick={() => run(() => api.unwatchAddress(address))}
+                    disabled={isWorking}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <h3 className="text-lg font-bold text-bw-800">PastelIDs</h3>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="PastelID"
+          value={newPastelID}
+          onChange={(e) => setNewPastelID(e.target.value)}
+        />
+        <button
+          className="btn outline w-44"
+          onClick={() =>
+            run(() => {
+              api.watchPastelID(newPastelID);
+              setNewPastelID("");
+            })
+          }
+          disabled={isWorking || !newPastelID.trim()}
+        >
+          Watch PastelID
+        </button>
+      </div>
+      {pastelIDs.length === 0 ? (
+        <p className="text-sm text-gray-500">No watched PastelIDs.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-bw-700">
+              <th className="py-1">PastelID</th>
+              <th className="py-1">Registered</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pastelIDs.map((watched) => (
+              <tr key={watched.pastelid} className="border-t border-gray-200">
+                <td className="py-1 break-all">{watched.pastelid}</td>
+                <td className="py-1">{watched.is_registered ? "Yes" : "No"}</td>
+                <td className="py-1 text-right">
+                  <button
+                    className="btn outline"
+                    onClick={() => run(() => api.unwatchPastelID(watched.pastelid))}
+                    disabled={isWorking}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Tooltip title="Credit balances need a PastelID signature to be read from the supernodes, so watched credit packs are followed through their tracking address on chain">
+        <h3 className="text-lg font-bold text-bw-800">Credit Packs</h3>
+      </Tooltip>
+      <div className="flex flex-wrap gap-4 items-center">
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="Credit pack ticket txid"
+          value={newCreditPack.txid}
+          onChange={(e) =>
+            setNewCreditPack({ ...newCreditPack, txid: e.target.value })
+          }
+        />
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="Tracking address"
+          value={newCreditPack.trackingAddress}
+          onChange={(e) =>
+            setNewCreditPack({
+              ...newCreditPack,
+              trackingAddress: e.target.value,
+            })
+          }
+        />
+        <input
+          type="text"
+          className="input flex-1 min-w-0"
+          placeholder="PastelID (optional)"
+          value={newCreditPack.pastelID}
+          onChange={(e) =>
+            setNewCreditPack({ ...newCreditPack, pastelID: e.target.value })
+          }
+        />
+        <button
+          className="btn outline w-44"
+          onClick={() =>
+            run(async () => {
+              await api.watchCreditPack(
+                newCreditPack.txid.trim(),
+                newCreditPack.trackingAddress.trim(),
+                newCreditPack.pastelID
+              );
+              setNewCreditPack({ txid: "", trackingAddress: "", pastelID: "" });
+            })
+          }
+          disabled={
+            isWorking ||
+            !newCreditPack.txid.trim() ||
+            !newCreditPack.trackingAddress.trim()
+          }
+        >
+          Watch Credit Pack
+        </button>
+      </div>
+      {creditPacks.length === 0 ? (
+        <p className="text-sm text-gray-500">No watched credit packs.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-bw-700">
+              <th className="py-1">Ticket</th>
+              <th className="py-1">PastelID</th>
+              <th className="py-1">Tracking Address</th>
+              <th className="py-1">Balance (PSL)</th>
+              <th className="py-1">Tracking Transactions</th>
+              <th className="py-1">Last Block</th>
+              <th className="py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {creditPacks.map((pack) => (
+              <tr
+                key={pack.credit_pack_registration_txid}
+                className="border-t border-gray-200"
+              >
+                <td className="py-1 break-all">
+                  {pack.credit_pack_registration_txid}
+                </td>
+                <td className="py-1 break-all">
+                  {pack.requesting_end_user_pastelid || "-"}
+                </td>
+                <td className="py-1 break-all">
+                  {pack.credit_usage_tracking_psl_address}
+                </td>
+                <td className="py-1">{pack.tracking_address_balance_in_psl}</td>
+                <td className="py-1">{pack.tracking_transaction_count}</td>
+                <td className="py-1">
+                  {pack.last_tracking_transaction_block_height ?? "-"}
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    className="btn outline"
+                    onClick={() =>
+                      run(() =>
+                        api.unwatchCreditPack(pack.credit_pack_registration_txid)
+                      )
+                    }
+                    disabled={isWorking}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
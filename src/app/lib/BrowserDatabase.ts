@@ -22,8 +22,25 @@ import {
   InferenceAPIUsageResponse,
   InferenceAPIOutputResult,
   InferenceConfirmation,
+  InferenceRequestState,
+  SupernodeReputation,
+  BatchInferenceJob,
+  CreditPackLedgerEntry,
+  CreditPackSpendingPolicy,
+  CreditPackPurchaseSpendingPolicy,
+  SpendingPolicyRefusal,
+  ProcessingLock,
 } from "@/app/types";
 
+export const DEFAULT_DATABASE_NAME = "PastelInferenceClientDB";
+
+// The keystore holds the wallet password and PastelID passphrases, which are
+// the same on every network
+const NETWORK_SHARED_STORES = ["Keystore"];
+
+// Locks that keep two tabs from driving the same work at once
+const PROCESSING_LOCK_STORE = "ProcessingLock";
+
 /**
  * Singleton BrowserDatabase class for managing IndexedDB interactions.
  */
@@ -31,8 +48,10 @@ import {
 export class BrowserDatabase {
   private static instance: BrowserDatabase;
   private db: IDBDatabase | null = null;
-  private readonly dbName = "PastelInferenceClientDB";
-  private readonly dbVersion = 1;
+  private sharedDb: IDBDatabase | null = null;
+  private dbName = DEFAULT_DATABASE_NAME;
+  private sharedDbName = DEFAULT_DATABASE_NAME;
+  private readonly dbVersion = 13;
 
   private constructor() {}
 
@@ -43,9 +62,51 @@ export class BrowserDatabase {
     return BrowserDatabase.instance;
   }
 
+  public getDatabaseName(): string {
+    return this.dbName;
+  }
+
+  public getSharedDatabaseName(): string {
+    return this.sharedDbName;
+  }
+
+  /**
+   * Closes the open databases and points the instance at others, which are
+   * opened by the next initializeDatabase call. Each wallet profile keeps its
+   * data in a database of its own per network, while the stores that are the
+   * same on every network are kept in the shared database.
+   * @param {string} dbName - The name of the IndexedDB database.
+   * @param {string} sharedDbName - The database for NETWORK_SHARED_STORES.
+   */
+  public setDatabaseName(dbName: string, sharedDbName: string = dbName): void {
+    if (dbName === this.dbName && sharedDbName === this.sharedDbName) return;
+    this.close();
+    this.dbName = dbName;
+    this.sharedDbName = sharedDbName;
+  }
+
+  public close(): void {
+    if (this.sharedDb && this.sharedDb !== this.db) {
+      this.sharedDb.close();
+    }
+    if (this.db) {
+      this.db.close();
+    }
+    this.db = null;
+    this.sharedDb = null;
+  }
+
   public async initializeDatabase(): Promise<void> {
+    this.db = await this.openDatabase(this.dbName);
+    this.sharedDb =
+      this.sharedDbName === this.dbName
+        ? this.db
+        : await this.openDatabase(this.sharedDbName);
+  }
+
+  private openDatabase(dbName: string): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.dbVersion);
+      const request = indexedDB.open(dbName, this.dbVersion);
 
       request.onerror = (event: Event) => {
         console.error("Error opening database:", (event.target as IDBOpenDBRequest).error);
@@ -53,23 +114,31 @@ export class BrowserDatabase {
       };
 
       request.onsuccess = (event: Event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
         console.log("Database opened successfully");
-        resolve();
+        resolve((event.target as IDBOpenDBRequest).result);
       };
 
       request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        this.createObjectStores(this.db);
+        const openRequest = event.target as IDBOpenDBRequest;
+        this.createObjectStores(openRequest.result, openRequest.transaction);
       };
     });
   }
 
+  private getDatabase(storeName: string): IDBDatabase | null {
+    return NETWORK_SHARED_STORES.includes(storeName) ? this.sharedDb : this.db;
+  }
+
   /**
    * Creates the necessary object stores and indexes in the database.
+   * Indexes added to stores that already exist are created during the upgrade.
    * @param {IDBDatabase} db - The IDBDatabase instance.
+   * @param {IDBTransaction | null} upgradeTransaction - The versionchange transaction.
    */
-  private createObjectStores(db: IDBDatabase): void {
+  private createObjectStores(
+    db: IDBDatabase,
+    upgradeTransaction: IDBTransaction | null
+  ): void {
     const storeDefinitions = [
       {
         storeName: "SupernodeList",
@@ -110,6 +179,11 @@ export class BrowserDatabase {
             keyPath: "sha3_256_hash_of_credit_pack_purchase_request_fields",
             options: { unique: true },
           },
+          {
+            name: "purchase_status",
+            keyPath: "purchase_status",
+            options: { unique: false },
+          },
         ],
       },
       {
@@ -248,6 +322,149 @@ export class BrowserDatabase {
         autoIncrement: true,
         indexes: [],
       },
+      {
+        storeName: "InferenceRequestState",
+        keyPath: "id",
+        autoIncrement: true,
+        indexes: [
+          {
+            name: "inference_request_id",
+            keyPath: "inference_request_id",
+            options: { unique: true },
+          },
+          {
+            name: "status",
+            keyPath: "status",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "SupernodeReputation",
+        keyPath: "supernode_url",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "BatchInferenceJob",
+        keyPath: "id",
+        autoIncrement: true,
+        indexes: [
+          {
+            name: "job_id",
+            keyPath: "job_id",
+            options: { unique: true },
+          },
+        ],
+      },
+      {
+        storeName: "CreditPackLedgerEntry",
+        keyPath: "inference_request_id",
+        autoIncrement: false,
+        indexes: [
+          {
+            name: "credit_pack_ticket_pastel_txid",
+            keyPath: "credit_pack_ticket_pastel_txid",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "SpendingPolicy",
+        keyPath: "policy_id",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "SpendingPolicyRefusal",
+        keyPath: "id",
+        autoIncrement: true,
+        indexes: [
+          {
+            name: "kind",
+            keyPath: "kind",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "Keystore",
+        keyPath: "id",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "TransactionHistory",
+        keyPath: "txid",
+        autoIncrement: false,
+        indexes: [
+          {
+            name: "label",
+            keyPath: "label",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "TransactionHistorySync",
+        keyPath: "address",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "WalletAccount",
+        keyPath: "account_id",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "WalletAccountAddress",
+        keyPath: "address",
+        autoIncrement: false,
+        indexes: [
+          {
+            name: "account_id",
+            keyPath: "account_id",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "EncryptionKeyStatement",
+        keyPath: "pastelid",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "MessageArchive",
+        keyPath: "id",
+        autoIncrement: false,
+        indexes: [
+          {
+            name: "owner_pastelid",
+            keyPath: "owner_pastelid",
+            options: { unique: false },
+          },
+        ],
+      },
+      {
+        storeName: "MessageOutbox",
+        keyPath: "id",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "AddressBookEntry",
+        keyPath: "pastelid",
+        autoIncrement: false,
+        indexes: [],
+      },
+      {
+        storeName: "ProcessingLock",
+        keyPath: "name",
+        autoIncrement: false,
+        indexes: [],
+      },
     ];
 
     storeDefinitions.forEach((storeDef) => {
@@ -259,6 +476,13 @@ export class BrowserDatabase {
         storeDef.indexes.forEach((index) => {
           store.createIndex(index.name, index.keyPath, index.options);
         });
+      } else if (upgradeTransaction) {
+        const store = upgradeTransaction.objectStore(storeDef.storeName);
+        storeDef.indexes.forEach((index) => {
+          if (!store.indexNames.contains(index.name)) {
+            store.createIndex(index.name, index.keyPath, index.options);
+          }
+        });
       }
     });
   }
@@ -271,12 +495,13 @@ export class BrowserDatabase {
    */
   public async addData<T>(storeName: string, data: T): Promise<IDBValidKey> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readwrite");
+      const transaction = db.transaction([storeName], "readwrite");
       const store = transaction.objectStore(storeName);
       const request = store.add(data);
 
@@ -298,12 +523,13 @@ export class BrowserDatabase {
    */
    public async saveData<T>(storeName: string, data: T): Promise<IDBValidKey> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readwrite");
+      const transaction = db.transaction([storeName], "readwrite");
       const store = transaction.objectStore(storeName);
       const request = store.put(data);
 
@@ -317,6 +543,39 @@ export class BrowserDatabase {
     });
   }
 
+  /**
+   * Saves several records to a specified object store in one transaction, so
+   * either all of them are written or none is.
+   * @param {string} storeName - The name of the object store.
+   * @param {T[]} records - The records to save.
+   * @returns {Promise<void>} A promise that resolves when the transaction completes.
+   */
+  public async saveAllData<T>(storeName: string, records: T[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const db = this.getDatabase(storeName);
+      if (!db) {
+        reject(new Error("Database not initialized"));
+        return;
+      }
+
+      const transaction = db.transaction([storeName], "readwrite");
+      const store = transaction.objectStore(storeName);
+      records.forEach((record) => store.put(record));
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(transaction.error);
+      };
+
+      transaction.onabort = () => {
+        reject(transaction.error || new Error("Transaction aborted"));
+      };
+    });
+  }
+
   /**
    * Retrieves data by primary key from a specified object store.
    * @param {string} storeName - The name of the object store.
@@ -325,12 +584,13 @@ export class BrowserDatabase {
    */
   public async getData<T>(storeName: string, id: IDBValidKey): Promise<T | undefined> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readonly");
+      const transaction = db.transaction([storeName], "readonly");
       const store = transaction.objectStore(storeName);
       const request = store.get(id);
 
@@ -357,12 +617,13 @@ export class BrowserDatabase {
     data: T
   ): Promise<IDBValidKey> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readwrite");
+      const transaction = db.transaction([storeName], "readwrite");
       const store = transaction.objectStore(storeName);
       const request = store.put({ ...data, id });
 
@@ -384,12 +645,13 @@ export class BrowserDatabase {
    */
   public async deleteData(storeName: string, id: IDBValidKey): Promise<void> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readwrite");
+      const transaction = db.transaction([storeName], "readwrite");
       const store = transaction.objectStore(storeName);
       const request = store.delete(id);
 
@@ -410,12 +672,13 @@ export class BrowserDatabase {
    */
   public async getAllData<T>(storeName: string): Promise<T[]> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readonly");
+      const transaction = db.transaction([storeName], "readonly");
       const store = transaction.objectStore(storeName);
       const request = store.getAll();
 
@@ -429,6 +692,96 @@ export class BrowserDatabase {
     });
   }
 
+  /**
+   * Claims a named lock for an owner, such as a browser tab, until it expires.
+   * The check and the claim happen in one transaction, so of several tabs
+   * claiming the same lock at once only one gets it.
+   * @param {string} name - The name of the lock.
+   * @param {string} owner - Who claims it; an owner may claim its own lock again to extend it.
+   * @param {number} ttlMs - How long the claim lasts unless extended.
+   * @returns {Promise<boolean>} A promise that resolves with whether the lock was claimed.
+   */
+  public async acquireLock(
+    name: string,
+    owner: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const db = this.getDatabase(PROCESSING_LOCK_STORE);
+      if (!db) {
+        reject(new Error("Database not initialized"));
+        return;
+      }
+
+      const transaction = db.transaction([PROCESSING_LOCK_STORE], "readwrite");
+      const store = transaction.objectStore(PROCESSING_LOCK_STORE);
+      let acquired = false;
+      const request = store.get(name);
+
+      request.onsuccess = () => {
+        const lock = request.result as ProcessingLock | undefined;
+        const now = Date.now();
+        if (lock && lock.owner !== owner && lock.expires_at_ms > now) {
+          return;
+        }
+        store.put({ name, owner, expires_at_ms: now + ttlMs });
+        acquired = true;
+      };
+
+      transaction.oncomplete = () => {
+        resolve(acquired);
+      };
+
+      transaction.onerror = () => {
+        reject(transaction.error);
+      };
+
+      transaction.onabort = () => {
+        reject(transaction.error || new Error("Transaction aborted"));
+      };
+    });
+  }
+
+  /**
+   * Releases a lock claimed with acquireLock, unless another owner has
+   * claimed it since it expired.
+   * @param {string} name - The name of the lock.
+   * @param {string} owner - The owner that claimed it.
+   * @returns {Promise<void>} A promise that resolves when the lock is released.
+   */
+  public async releaseLock(name: string, owner: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const db = this.getDatabase(PROCESSING_LOCK_STORE);
+      if (!db) {
+        reject(new Error("Database not initialized"));
+        return;
+      }
+
+      const transaction = db.transaction([PROCESSING_LOCK_STORE], "readwrite");
+      const store = transaction.objectStore(PROCESSING_LOCK_STORE);
+      const request = store.get(name);
+
+      request.onsuccess = () => {
+        const lock = request.result as ProcessingLock | undefined;
+        if (lock && lock.owner === owner) {
+          store.delete(name);
+        }
+      };
+
+      transaction.oncomplete = () => {
+        resolve();
+      };
+
+      transaction.onerror = () => {
+        reject(transaction.error);
+      };
+
+      transaction.onabort = () => {
+        reject(transaction.error || new Error("Transaction aborted"));
+      };
+    });
+  }
+
   /**
    * Finds data in a specified object store using an index.
    * @param {string} storeName - The name of the object store.
@@ -442,12 +795,13 @@ export class BrowserDatabase {
     value: IDBValidKey
   ): Promise<T | undefined> {
     return new Promise((resolve, reject) => {
-      if (!this.db) {
+      const db = this.getDatabase(storeName);
+      if (!db) {
         reject(new Error("Database not initialized"));
         return;
       }
 
-      const transaction = this.db.transaction([storeName], "readonly");
+      const transaction = db.transaction([storeName], "readonly");
       const store = transaction.objectStore(storeName);
       const index = store.index(indexName);
       const request = index.get(value);
@@ -461,6 +815,41 @@ export class BrowserDatabase {
       };
     });
   }
+
+  /**
+   * Finds all data matching a value of a non-unique index.
+   * @template T - The type of the data.
+   * @param {string} storeName - The name of the object store.
+   * @param {string} indexName - The name of the index.
+   * @param {IDBValidKey} value - The value to search for.
+   * @returns {Promise<T[]>} A promise that resolves with all matching data.
+   */
+  public async findAllByIndex<T>(
+    storeName: string,
+    indexName: string,
+    value: IDBValidKey
+  ): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      const db = this.getDatabase(storeName);
+      if (!db) {
+        reject(new Error("Database not initialized"));
+        return;
+      }
+
+      const transaction = db.transaction([storeName], "readonly");
+      const store = transaction.objectStore(storeName);
+      const index = store.index(indexName);
+      const request = index.getAll(value);
+
+      request.onerror = (event) => {
+        reject((event.target as IDBRequest).error);
+      };
+
+      request.onsuccess = (event) => {
+        resolve((event.target as IDBRequest).result as T[]);
+      };
+    });
+  }
 }
 
 /**
@@ -566,6 +955,24 @@ export const models = {
   InferenceConfirmation: createModelMethods<InferenceConfirmation>(
     "InferenceConfirmation"
   ),
+  InferenceRequestState: createModelMethods<InferenceRequestState>(
+    "InferenceRequestState"
+  ),
+  SupernodeReputation: createModelMethods<SupernodeReputation>(
+    "SupernodeReputation"
+  ),
+  BatchInferenceJob: createModelMethods<BatchInferenceJob>(
+    "BatchInferenceJob"
+  ),
+  CreditPackLedgerEntry: createModelMethods<CreditPackLedgerEntry>(
+    "CreditPackLedgerEntry"
+  ),
+  SpendingPolicy: createModelMethods<
+    CreditPackSpendingPolicy | CreditPackPurchaseSpendingPolicy
+  >("SpendingPolicy"),
+  SpendingPolicyRefusal: createModelMethods<SpendingPolicyRefusal>(
+    "SpendingPolicyRefusal"
+  ),
 };
 
 /**
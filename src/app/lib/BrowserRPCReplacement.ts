@@ -1,6 +1,7 @@
 // src/app/lib/BrowserRPCReplacement.ts
 import axios from "axios";
 import Decimal from "decimal.js";
+import { v4 as uuidv4 } from "uuid";
 import { initWasm } from "./wasmLoader";
 import {
   PastelInstance,
@@ -30,38 +31,53 @@ import {
   PastelModule,
   AddressBalance,
   UTXO,
+  UTXOOutpoint,
+  CoinSelectionOptions,
+  CoinSelectionPreview,
+  TransactionPreview,
+  TransactionPreviewOutput,
+  UnsignedTransactionExport,
 } from "@/app/types";
 import {
   getNetworkFromLocalStorage,
+  initializeStorage,
   setNetworkInLocalStorage,
 } from "@/app/lib/storage";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { keystore } from "@/app/lib/keystore";
+import {
+  DEFAULT_FEE_RATE_IN_PATOSHIS_PER_KB,
+  buildCoinSelectionPreview,
+  getOutpointKey,
+  patoshisToPSL,
+  pslToPatoshis,
+  selectCoins,
+} from "@/app/lib/coinSelection";
+import {
+  TRANSACTION_PREVIEW_TTL_MS,
+  transactionPreviews,
+} from "@/app/lib/transactionPreview";
+import {
+  RawTransactionOptions,
+  serializeUnsignedTransaction,
+} from "@/app/lib/rawTransaction";
+import { watchOnlyWallet } from "@/app/lib/watchOnlyWallet";
+import { offlineSigning } from "@/app/lib/offlineSigning";
+import { OfflineSigningError } from "@/app/lib/errors";
+import {
+  assertAddressOnCurrentNetwork,
+  getNetworkConfig,
+  getNetworkStorageKey,
+  getOpennodeApiUrl,
+  isPastelNetwork,
+} from "@/app/lib/networkConfig";
+import { base64ToBytes, bytesToBase64 } from "@/app/lib/utils";
 
 
 export async function unlockWalletGettingPWFromStorage(): Promise<void> {
-  // Step 1: Retrieve the wallet password from localStorage
+  // Step 1: Retrieve the wallet password from the keystore
   const rpc = BrowserRPCReplacement.getInstance();
-
-  const walletLocalStorageName = "walletInfo";
-  const walletDataEncoded = localStorage.getItem(walletLocalStorageName);
-  if (!walletDataEncoded) {
-    throw new Error("Wallet data not found in localStorage.");
-  }
-
-  // Decode from base64 and parse JSON
-  let walletData;
-  try {
-    const decodedData = atob(walletDataEncoded);
-    walletData = JSON.parse(decodedData);
-  } catch {
-    throw new Error("Failed to decode wallet data from localStorage.");
-  }
-
-  if (!walletData.walletPassword) {
-    throw new Error("Wallet password not found in wallet data.");
-  }
-
-  const walletPassword = walletData.walletPassword;
-  console.log("Retrieved wallet password from localStorage.");
+  const walletPassword = await rpc.getWalletPassword();
 
   // Step 2: Check if the wallet is locked and unlock it if necessary
   const isLocked = await rpc.isLocked();
@@ -77,15 +93,14 @@ export async function unlockWalletGettingPWFromStorage(): Promise<void> {
 class BrowserRPCReplacement {
   private static instance: BrowserRPCReplacement | null = null;
 
-  private apiBaseUrl: string;
+  // Overrides the opennode of the network in use when set
+  private apiBaseUrl: string | null;
   private pastelInstance: PastelInstance | null = null;
   private isInitialized: boolean = false;
   private wasmModule: PastelModule | null = null;
 
-  private constructor(
-    apiBaseUrl: string = "https://opennode-fastapi.pastel.network"
-  ) {
-    this.apiBaseUrl = apiBaseUrl;
+  private constructor(apiBaseUrl?: string) {
+    this.apiBaseUrl = apiBaseUrl || null;
     this.pastelInstance = null;
     this.isInitialized = false;
     this.wasmModule = null;
@@ -154,6 +169,14 @@ class BrowserRPCReplacement {
     }
   }
 
+  /**
+   * Returns the opennode API URL of the network in use, which is looked up on
+   * every request so that a network change takes effect at once.
+   */
+  private getApiBaseUrl(): string {
+    return this.apiBaseUrl || getOpennodeApiUrl();
+  }
+
   /**
    * Fetches JSON data from the specified endpoint.
    * @param endpoint - The API endpoint to fetch.
@@ -161,7 +184,7 @@ class BrowserRPCReplacement {
    */
   private async fetchJson<T>(endpoint: string): Promise<T> {
     try {
-      const response = await fetch(this.apiBaseUrl + endpoint);
+      const response = await fetch(this.getApiBaseUrl() + endpoint);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -267,6 +290,7 @@ class BrowserRPCReplacement {
    */
   public async makeNewAddress(mode?: NetworkMode): Promise<string> {
     this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("derive new addresses");
     const networkMode =
       mode !== undefined
         ? mode
@@ -336,12 +360,16 @@ public async getAddressesCount(): Promise<number> {
 }
 
 /**
- * Retrieves all addresses, optionally filtered by network mode.
+ * Retrieves all addresses, optionally filtered by network mode. A watch-only
+ * wallet returns its watched addresses instead.
  * @param mode - (Optional) The network mode. If omitted, retrieves addresses for all modes.
  * @returns An array of wallet addresses.
  */
 public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   this.ensureInitialized();
+  if (watchOnlyWallet.isEnabled()) {
+    return watchOnlyWallet.getAddresses();
+  }
   try {
     const addressCount = await this.getAddressesCount();
     console.log(`getAllAddresses: Initial count is ${addressCount}`);
@@ -412,6 +440,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    */
   public async makeNewPastelID(flag: boolean): Promise<string> {
     this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("create PastelIDs");
     const data = await this.executeWasmMethod(() =>
       this.pastelInstance!.MakeNewPastelID(flag)
     );
@@ -477,6 +506,9 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    */
   public async getPastelIDs(): Promise<string[]> {
     this.ensureInitialized();
+    if (watchOnlyWallet.isEnabled()) {
+      return watchOnlyWallet.getPastelIDs();
+    }
     let data = await this.executeWasmMethod(() =>
       this.pastelInstance!.GetPastelIDs()
     );
@@ -490,30 +522,21 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   // Signing and Verification Methods
   // -------------------------
 
+  /**
+   * Retrieves the wallet password from the keystore, which must be unlocked.
+   * @returns The wallet password.
+   */
   public async getWalletPassword(): Promise<string> {
-    const walletLocalStorageName = "walletInfo";
-    const walletDataEncoded = localStorage.getItem(walletLocalStorageName);
-    if (!walletDataEncoded) {
-      throw new Error("Wallet data not found in localStorage.");
-    }
-    // Decode from base64 and parse JSON
-    let walletData;
-    try {
-      const decodedData = atob(walletDataEncoded);
-      walletData = JSON.parse(decodedData);
-    } catch {
-      throw new Error("Failed to decode wallet data from localStorage.");
+    const walletPassword = keystore.getWalletPassword();
+    if (!walletPassword) {
+      throw new Error("Wallet password not found in the keystore.");
     }
-    if (!walletData.walletPassword) {
-      throw new Error("Wallet password not found in wallet data.");
-    }
-    const walletPassword = walletData.walletPassword;
-    console.log("Retrieved wallet password from localStorage.");
     return walletPassword;
   }
 
   /**
-   * Signs data using a specific PastelID.
+   * Signs data using a specific PastelID. A watch-only wallet that can reach
+   * an offline signer asks it for the signature and verifies what comes back.
    * @param pastelID - The PastelID identifier used for signing.
    * @param data - The data to be signed.
    * @param type - The type of PastelID (PastelID, LegRoast).
@@ -527,6 +550,10 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     flag: boolean = true
   ): Promise<string> {
     this.ensureInitialized();
+    if (offlineSigning.canRequestSignatures()) {
+      return this.signMessageWithPastelIDOffline(pastelID, data, type);
+    }
+    watchOnlyWallet.assertCanSign("sign messages with a PastelID");
     const walletPassword = await this.getWalletPassword();
     await this.unlockWallet(walletPassword);
     const result = await this.executeWasmMethod(() =>
@@ -538,6 +565,32 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     return "";
   }
 
+  private async signMessageWithPastelIDOffline(
+    pastelID: string,
+    data: string,
+    type: PastelIDType
+  ): Promise<string> {
+    const request = offlineSigning.createRequest({
+      kind: "pastelid_signature",
+      network: await this.getNetworkMode(),
+      description: `Sign a message with PastelID ${pastelID}`,
+      pastelid: pastelID,
+      pastelid_type: type,
+      message: data,
+    });
+    const { signature } = await offlineSigning.requestSignature(request);
+    if (
+      type === PastelIDType.PastelID &&
+      !(await this.verifyMessageWithPastelID(pastelID, data, signature))
+    ) {
+      throw new OfflineSigningError(
+        request.request_id,
+        `the signature does not verify against PastelID ${pastelID}`
+      );
+    }
+    return signature;
+  }
+
   /**
    * Verifies a signature using a specific PastelID.
    * @param pastelID - The PastelID identifier used for verification.
@@ -722,6 +775,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    */
   public async signWithWalletKey(message: string): Promise<string> {
     this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("sign messages with the wallet key");
     return this.executeWasmMethod(() =>
       this.pastelInstance!.SignWithWalletKey(message)
     );
@@ -756,6 +810,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    */
   public async signWithKeyAt(index: number, message: string): Promise<string> {
     this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("sign messages with wallet keys");
     return this.executeWasmMethod(() =>
       this.pastelInstance!.SignWithKeyAt(index, message)
     );
@@ -795,28 +850,132 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   }
 
   /**
-   * Creates a transaction to send funds to specified recipients with comprehensive error handling and validation.
+   * Retrieves the fee rate used by coin selection, preferring an explicit rate,
+   * then the opennode's estimate for confirmation within 6 blocks.
+   * @param feeRateInPSLPerKb - Optional explicit fee rate.
+   * @returns The fee rate in patoshis per kB.
+   */
+  public async getFeeRateInPatoshisPerKb(
+    feeRateInPSLPerKb?: number
+  ): Promise<number> {
+    if (feeRateInPSLPerKb !== undefined && feeRateInPSLPerKb > 0) {
+      return pslToPatoshis(feeRateInPSLPerKb);
+    }
+    try {
+      // estimatefee answers -1 when it has too little data
+      const estimate = await this.estimateFee(6);
+      if (estimate > 0) {
+        return Math.max(DEFAULT_FEE_RATE_IN_PATOSHIS_PER_KB, pslToPatoshis(estimate));
+      }
+    } catch (error) {
+      console.warn("Fee estimation failed, using the default fee rate:", error);
+    }
+    return DEFAULT_FEE_RATE_IN_PATOSHIS_PER_KB;
+  }
+
+  /**
+   * Retrieves the UTXOs of several addresses.
+   * @param addresses - The addresses to retrieve UTXOs for.
+   * @returns The UTXOs of all the addresses.
+   */
+  public async getUtxosForAddresses(addresses: string[]): Promise<UTXO[]> {
+    const utxoLists = await Promise.all(
+      addresses.map((address) => this.getAddressUtxos(address) as Promise<UTXO[]>)
+    );
+    return utxoLists.flat();
+  }
+
+  /**
+   * Chooses the inputs of a payment and estimates its fee and change without
+   * signing anything.
    * @param sendTo - An array of recipients and amounts.
-   * @param fromAddress - The address to send funds from.
-   * @returns The transaction ID if successful.
-   * @throws Error with detailed message if transaction fails.
+   * @param coinSelection - The strategy, funding addresses and manual UTXOs.
+   * @param fromAddress - The funding address used when none are given in `coinSelection`.
+   * @returns The selected inputs with the estimated fee and change.
    */
-  public async createSendToTransaction(
+  public async previewCoinSelection(
     sendTo: { address: string; amount: string }[],
-    fromAddress: string
-  ): Promise<string> {
+    coinSelection: CoinSelectionOptions = {},
+    fromAddress: string = ""
+  ): Promise<CoinSelectionPreview> {
+    this.ensureInitialized();
+    const strategy = coinSelection.strategy || "largest_first";
+
+    // A single source address by default, since merging addresses would also
+    // spend from credit pack tracking addresses. Manually picked UTXOs may
+    // come from any wallet address.
+    let fundingAddresses: string[];
+    if (coinSelection.fromAddresses?.length) {
+      fundingAddresses = coinSelection.fromAddresses;
+    } else if (strategy === "manual") {
+      fundingAddresses = await this.getAllAddresses();
+    } else {
+      fundingAddresses = [
+        fromAddress || (await this.getMyPslAddressWithLargestBalance()),
+      ];
+    }
+
+    const utxos = await this.getUtxosForAddresses(fundingAddresses);
+    const feeRateInPatoshisPerKb = await this.getFeeRateInPatoshisPerKb(
+      coinSelection.feeRateInPSLPerKb
+    );
+    const selected = selectCoins(
+      utxos,
+      {
+        amountInPatoshis: sendTo.reduce(
+          (sum, { amount }) => sum + pslToPatoshis(amount),
+          0
+        ),
+        outputCount: sendTo.length,
+        feeRateInPatoshisPerKb,
+      },
+      strategy,
+      coinSelection.selectedUtxos
+    );
+
+    const changeAddress =
+      coinSelection.changeAddress ||
+      (strategy === "privacy" ? null : selected.inputs[0].address);
+    return buildCoinSelectionPreview(
+      strategy,
+      sendTo,
+      selected,
+      changeAddress,
+      feeRateInPatoshisPerKb
+    );
+  }
+
+  /**
+   * Builds and signs a transaction to send funds to specified recipients and
+   * decodes it for review, without broadcasting it. The WASM builder signs
+   * as it builds, so the returned preview holds a complete transaction that
+   * is only sent by `broadcastTransaction`.
+   * @param sendTo - An array of recipients and amounts.
+   * @param fromAddress - The address to send funds from; the address with the largest balance when empty.
+   * @param coinSelection - How to choose the inputs; largest-first from `fromAddress` by default.
+   * @returns The decoded transaction awaiting confirmation.
+   * @throws Error with detailed message if the transaction cannot be built.
+   */
+  public async buildTransaction(
+    sendTo: { address: string; amount: string }[],
+    fromAddress: string,
+    coinSelection: CoinSelectionOptions = {}
+  ): Promise<TransactionPreview> {
     const logPrefix = `[TX ${Date.now().toString().slice(-6)}]`;
     console.log(`${logPrefix} Starting transaction creation...`);
 
     try {
       // Step 1: Basic validation
       this.ensureInitialized();
+      const signOffline = offlineSigning.canRequestSignatures();
+      if (!signOffline) {
+        watchOnlyWallet.assertCanSign(
+          "sign transactions; export them unsigned for signing instead"
+        );
+      }
       if (!sendTo?.length) {
         throw new Error("No recipients specified");
       }
-      if (!fromAddress) {
-        throw new Error("No source address specified");
-      }
 
       // Step 2: Validate amounts
       const totalAmount = sendTo.reduce((sum, { amount }) => {
@@ -829,60 +988,65 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
 
       console.log(`${logPrefix} Total amount to send: ${totalAmount}`);
 
-      // Step 3: Initialize wallet and verify private key access
-      try {
-        await this.initializeWalletForTransaction(fromAddress);
+      // Step 3: Select the inputs; throws InsufficientFundsError when they cannot cover the payment
+      const preview = await this.previewCoinSelection(
+        sendTo,
+        coinSelection,
+        fromAddress
+      );
+      console.log(
+        `${logPrefix} Selected ${preview.inputs.length} UTXOs (${preview.strategy}) totalling ${preview.input_total_in_psl} PSL from ${preview.funding_addresses.join(", ")}; estimated fee ${preview.fee_in_psl} PSL, change ${preview.change_in_psl} PSL`
+      );
+
+      if (signOffline) {
+        const transaction = await this.createUnsignedTransactionExport(
+          sendTo,
+          preview
+        );
+        const request = offlineSigning.createRequest({
+          kind: "transaction",
+          network: transaction.network,
+          description: `Send ${totalAmount.toFixed(5)} PSL to ${sendTo
+            .map(({ address }) => address)
+            .join(", ")}`,
+          transaction,
+        });
         console.log(
-          `${logPrefix} Successfully initialized wallet for address: ${fromAddress}`
+          `${logPrefix} Waiting for offline signing request ${request.request_id}`
         );
-      } catch (error) {
-        throw new Error(
-          `Failed to initialize wallet for address ${fromAddress}: ${
-            error instanceof Error ? error.message : String(error)
-          }`
+        const { signed_transaction_hex } =
+          await offlineSigning.requestSignature(request);
+        return await this.previewSignedTransaction(
+          signed_transaction_hex,
+          transaction
         );
       }
 
-      // Step 4: Get and verify UTXOs
-      const utxos = (await this.getAddressUtxos(fromAddress)) as UTXO[];
-      if (!utxos?.length) {
-        throw new Error(`No UTXOs found for address ${fromAddress}`);
+      // Step 4: Initialize wallet and verify private key access for every funding address
+      for (const fundingAddress of preview.funding_addresses) {
+        try {
+          await this.initializeWalletForTransaction(fundingAddress);
+          console.log(
+            `${logPrefix} Successfully initialized wallet for address: ${fundingAddress}`
+          );
+        } catch (error) {
+          throw new Error(
+            `Failed to initialize wallet for address ${fundingAddress}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
       }
+      const utxos = preview.inputs;
+      const changeAddress =
+        preview.change_address ||
+        (preview.change_in_psl > 0
+          ? await this.makeNewAddress()
+          : preview.funding_addresses[0]);
 
-      const utxoTotal = utxos.reduce((sum: number, utxo: UTXO) => {
-        return sum + utxo.patoshis / 100000; // Convert to PSL
-      }, 0);
-
-      console.log(`${logPrefix} Available balance: ${utxoTotal} PSL`);
-
-      if (utxoTotal < totalAmount) {
-        throw new Error(
-          `Insufficient funds: have ${utxoTotal.toFixed(
-            8
-          )} PSL, need ${totalAmount.toFixed(8)} PSL`
-        );
-      }
     // Step 5: Get wallet password
-
-    const walletDataEncoded = localStorage.getItem("walletInfo");
-    if (!walletDataEncoded) {
-      throw new Error("Wallet data not found in localStorage.");
-    }
-
-    let walletData;
-    try {
-      const decodedData = atob(walletDataEncoded);
-      walletData = JSON.parse(decodedData);
-    } catch {
-      throw new Error("Failed to decode wallet data from localStorage.");
-    }
-
-    if (!walletData.walletPassword) {
-      throw new Error("Wallet password not found in wallet data.");
-    }
-
-    const walletPassword = walletData.walletPassword;
-    console.log(`${logPrefix} Retrieved wallet password from localStorage.`);
+    const walletPassword = await this.getWalletPassword();
+    console.log(`${logPrefix} Retrieved wallet password from the keystore.`);
 
     // Step 6: Prepare transaction data
     const networkMode = await this.getNetworkMode().then((mode) =>
@@ -911,18 +1075,19 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
 
     // Step 8: Create transaction
     console.log(`${logPrefix} Creating transaction with params:
-    From: ${fromAddress}
+    From: ${preview.funding_addresses.join(", ")}
+    Change: ${changeAddress}
     Network: ${networkMode}
     Block Height: ${currentBlockHeight}
     Expiry Height: ${0}
     Recipients: ${sendToJson}
-    Available UTXOs: ${utxosJson}`);
+    Selected UTXOs: ${utxosJson}`);
 
     const response = await this.executeWasmMethod(() =>
       this.pastelInstance!.CreateSendToTransaction(
         networkMode,
         sendToJson,
-        fromAddress,
+        changeAddress,
         utxosJson,
         currentBlockHeight,
         0,
@@ -930,76 +1095,418 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
       )
     );
 
-      if (!response) {
-        throw new Error("Transaction creation failed - no response from WASM");
-      }
-
       // Step 8: Parse and validate response
-      let parseData;
-      try {
-        const parsedResponse = JSON.parse(response);
-        if (!parsedResponse?.data) {
-          throw new Error(`Invalid response format: ${response}`);
-        }
-        parseData = JSON.parse(parsedResponse.data);
-        if (!parseData?.hex) {
-          throw new Error(
-            `No transaction hex in response: ${parsedResponse.data}`
-          );
-        }
-      } catch (error) {
-        throw new Error(
-          `Failed to parse transaction response: ${
-            error instanceof Error ? error.message : String(error)
-          }`
-        );
-      }
-
+      const hex = this.parseCreatedTransactionHex(response);
       console.log(
-        `${logPrefix} Transaction created successfully. Hex: ${parseData.hex.slice(
+        `${logPrefix} Transaction created successfully. Hex: ${hex.slice(
           0,
           64
         )}...`
       );
 
-      // Step 9: Broadcast transaction
-      try {
-        const { data } = await axios.post(
-          `${this.apiBaseUrl}/sendrawtransaction`,
-          {
-            hex_string: parseData.hex,
-            allow_high_fees: false,
-          },
-          {
-            headers: { "Content-Type": "application/json" },
-            timeout: 60000, // 60 second timeout
-          }
+      // Step 9: Decode for review
+      const transactionPreview = await this.decodeTransactionPreview(
+        hex,
+        sendTo,
+        preview,
+        changeAddress
+      );
+      transactionPreviews.add(transactionPreview);
+      console.log(
+        `${logPrefix} Transaction ${transactionPreview.txid} awaits confirmation as preview ${transactionPreview.preview_id}: fee ${transactionPreview.fee_in_psl} PSL, change ${transactionPreview.change_in_psl} PSL, ${transactionPreview.size_in_bytes} bytes`
+      );
+      return transactionPreview;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.error(`${logPrefix} Transaction creation failed:`, errorMessage);
+      throw new Error(`Transaction failed: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Reads the signed transaction hex out of a CreateSendToTransaction response.
+   */
+  private parseCreatedTransactionHex(response: string): string {
+    if (!response) {
+      throw new Error("Transaction creation failed - no response from WASM");
+    }
+    try {
+      const parsedResponse = JSON.parse(response);
+      if (!parsedResponse?.data) {
+        throw new Error(`Invalid response format: ${response}`);
+      }
+      const parseData = JSON.parse(parsedResponse.data);
+      if (!parseData?.hex) {
+        throw new Error(
+          `No transaction hex in response: ${parsedResponse.data}`
         );
+      }
+      return parseData.hex;
+    } catch (error) {
+      throw new Error(
+        `Failed to parse transaction response: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
 
-        if (!data?.txid) {
-          throw new Error(
-            `No transaction ID in broadcast response: ${JSON.stringify(data)}`
-          );
+  /**
+   * Creates the unsigned form of a payment for a wallet holding the keys to
+   * sign elsewhere. Change goes to the chosen change address, or back to the
+   * first funding address since no new address can be derived without keys.
+   * @param sendTo - An array of recipients and amounts.
+   * @param preview - The coin selection from `previewCoinSelection`.
+   * @returns The unsigned transaction with the UTXOs it spends.
+   */
+  public async createUnsignedTransactionExport(
+    sendTo: { address: string; amount: string }[],
+    preview: CoinSelectionPreview
+  ): Promise<UnsignedTransactionExport> {
+    const changeAddress = preview.change_address || preview.funding_addresses[0];
+    const outputs =
+      preview.change_in_psl > 0
+        ? [...sendTo, { address: changeAddress, amount: preview.change_in_psl.toFixed(5) }]
+        : sendTo;
+    return {
+      network: await this.getNetworkMode(),
+      hex: await this.createRawTransaction(preview.inputs, outputs),
+      inputs: preview.inputs,
+      recipients: sendTo,
+      change_address: changeAddress,
+      change_in_psl: preview.change_in_psl,
+      fee_in_psl: preview.fee_in_psl,
+      coin_selection_strategy: preview.strategy,
+      block_height: await this.getCurrentPastelBlockHeight(),
+      created_at_utc_iso_string: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Signs an exported transaction with the keys of this wallet. Needs no
+   * chain access, so it works on an offline instance.
+   * @param transaction - The unsigned transaction from `createUnsignedTransactionExport`.
+   * @returns The signed transaction hex.
+   */
+  public async signUnsignedTransaction(
+    transaction: UnsignedTransactionExport
+  ): Promise<string> {
+    this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("sign transactions");
+    const network = await this.getNetworkMode();
+    if (transaction.network !== network) {
+      throw new Error(
+        `The transaction is for ${transaction.network} but this wallet is on ${network}`
+      );
+    }
+    const inputAddresses = new Set(transaction.inputs.map((utxo) => utxo.address));
+    for (const address of Array.from(inputAddresses)) {
+      await this.initializeWalletForTransaction(address);
+    }
+    const walletPassword = await this.getWalletPassword();
+    await this.unlockWallet(walletPassword);
+    const response = await this.executeWasmMethod(() =>
+      this.pastelInstance!.CreateSendToTransaction(
+        this.getNetworkModeEnum(network),
+        JSON.stringify(transaction.recipients),
+        transaction.change_address,
+        JSON.stringify(transaction.inputs),
+        transaction.block_height,
+        0,
+        walletPassword
+      )
+    );
+    return this.parseCreatedTransactionHex(response);
+  }
+
+  /**
+   * Decodes a transaction signed elsewhere from an exported one and keeps it
+   * for confirmation, like a transaction from `buildTransaction`.
+   * @param hex - The signed transaction hex.
+   * @param transaction - The unsigned transaction it was signed from.
+   * @returns The decoded transaction awaiting confirmation.
+   */
+  public async previewSignedTransaction(
+    hex: string,
+    transaction: UnsignedTransactionExport
+  ): Promise<TransactionPreview> {
+    const transactionPreview = await this.decodeTransactionPreview(
+      hex,
+      transaction.recipients,
+      {
+        strategy: transaction.coin_selection_strategy,
+        inputs: transaction.inputs,
+      },
+      transaction.change_address
+    );
+    transactionPreviews.add(transactionPreview);
+    return transactionPreview;
+  }
+
+  /**
+   * Decodes a signed transaction and accounts for its inputs, outputs, fee
+   * and change. Throws if it does not spend the selected inputs or pay the
+   * recipients what was asked.
+   */
+  private async decodeTransactionPreview(
+    hex: string,
+    sendTo: { address: string; amount: string }[],
+    coinSelection: Pick<CoinSelectionPreview, "strategy" | "inputs">,
+    changeAddress: string
+  ): Promise<TransactionPreview> {
+    const decoded = await this.decodeRawTransaction(hex);
+    const selectedInputs = new Map(
+      coinSelection.inputs.map((utxo) => [getOutpointKey(utxo), utxo])
+    );
+
+    const inputs = decoded.vin.map((input) => {
+      const utxo = selectedInputs.get(
+        getOutpointKey({ txid: input.txid, outputIndex: input.vout })
+      );
+      if (!utxo) {
+        throw new Error(
+          `The transaction spends ${input.txid}:${input.vout}, which was not selected`
+        );
+      }
+      return {
+        txid: input.txid,
+        vout: input.vout,
+        address: utxo.address,
+        value_in_psl: patoshisToPSL(utxo.patoshis),
+      };
+    });
+
+    const recipientAddresses = sendTo.map(({ address }) => address);
+    const outputs = decoded.vout.map((output) => {
+      const address = output.scriptPubKey.addresses?.[0] || "";
+      return {
+        n: output.n,
+        address,
+        value_in_psl: output.value,
+        is_change:
+          address === changeAddress && !recipientAddresses.includes(address),
+      };
+    });
+
+    // Compared in patoshis, allowing one patoshi of rounding per requested amount
+    for (const recipient of sendTo) {
+      const paid = outputs
+        .filter((output) => output.address === recipient.address)
+        .reduce((sum, output) => sum + pslToPatoshis(output.value_in_psl), 0);
+      const requestedEntries = sendTo.filter(
+        ({ address }) => address === recipient.address
+      );
+      const requested = requestedEntries.reduce(
+        (sum, { amount }) => sum + pslToPatoshis(amount),
+        0
+      );
+      if (Math.abs(paid - requested) > requestedEntries.length) {
+        throw new Error(
+          `The transaction pays ${patoshisToPSL(paid)} PSL to ${recipient.address} instead of ${patoshisToPSL(requested)} PSL`
+        );
+      }
+    }
+
+    const inputTotal = inputs.reduce(
+      (sum, input) => sum + pslToPatoshis(input.value_in_psl),
+      0
+    );
+    const sumOutputs = (selected: TransactionPreviewOutput[]) =>
+      selected.reduce((sum, output) => sum + pslToPatoshis(output.value_in_psl), 0);
+    const outputTotal = sumOutputs(outputs);
+    const change = sumOutputs(outputs.filter((output) => output.is_change));
+    const fee = inputTotal - outputTotal;
+    if (fee < 0) {
+      throw new Error("The transaction spends more than its inputs");
+    }
+
+    const sizeInBytes = hex.length / 2;
+    const createdAt = Date.now();
+    return {
+      preview_id: uuidv4(),
+      txid: decoded.txid,
+      hex,
+      coin_selection_strategy: coinSelection.strategy,
+      inputs,
+      outputs,
+      input_total_in_psl: patoshisToPSL(inputTotal),
+      recipient_total_in_psl: patoshisToPSL(outputTotal - change),
+      change_in_psl: patoshisToPSL(change),
+      fee_in_psl: patoshisToPSL(fee),
+      size_in_bytes: sizeInBytes,
+      fee_rate_in_psl_per_kb: patoshisToPSL(
+        Math.round((fee * 1000) / sizeInBytes)
+      ),
+      status: "awaiting_confirmation",
+      created_at_utc_iso_string: new Date(createdAt).toISOString(),
+      expires_at_utc_iso_string: new Date(
+        createdAt + TRANSACTION_PREVIEW_TTL_MS
+      ).toISOString(),
+    };
+  }
+
+  /**
+   * Broadcasts a signed raw transaction through the opennode.
+   * @param hex - The signed transaction hex.
+   * @returns The transaction ID.
+   */
+  public async broadcastRawTransaction(hex: string): Promise<string> {
+    try {
+      const { data } = await axios.post(
+        `${this.getApiBaseUrl()}/sendrawtransaction`,
+        {
+          hex_string: hex,
+          allow_high_fees: false,
+        },
+        {
+          headers: { "Content-Type": "application/json" },
+          timeout: 60000, // 60 second timeout
         }
+      );
 
-        console.log(
-          `${logPrefix} Transaction broadcast successful. TXID: ${data.txid}`
+      if (!data?.txid) {
+        throw new Error(
+          `No transaction ID in broadcast response: ${JSON.stringify(data)}`
         );
-        return data.txid;
-      } catch (error) {
-        if (axios.isAxiosError(error)) {
-          throw new Error(
-            `Failed to broadcast transaction: ${
-              error.response?.data || error.message
-            }`
-          );
+      }
+      return data.txid;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        throw new Error(
+          `Failed to broadcast transaction: ${
+            error.response?.data || error.message
+          }`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Creates an unsigned transaction from explicit inputs and outputs, as
+   * createrawtransaction does. No fee or change output is added.
+   * @param inputs - The outpoints to spend.
+   * @param outputs - An array of recipients and amounts.
+   * @param options - The locktime and expiry height.
+   * @returns The unsigned transaction hex.
+   */
+  public async createRawTransaction(
+    inputs: UTXOOutpoint[],
+    outputs: { address: string; amount: string }[],
+    options: RawTransactionOptions = {}
+  ): Promise<string> {
+    const scriptOutputs = await Promise.all(
+      outputs.map(async ({ address, amount }) => {
+        const validated = await this.validateAddress(address);
+        if (!validated.isvalid || !validated.scriptPubKey) {
+          throw new Error(`Invalid PSL address: ${address}`);
         }
-        throw error;
+        return {
+          scriptPubKey: validated.scriptPubKey,
+          patoshis: pslToPatoshis(amount),
+        };
+      })
+    );
+    return serializeUnsignedTransaction(inputs, scriptOutputs, options);
+  }
+
+  /**
+   * Broadcasts a previewed transaction. Counts as its confirmation, so
+   * callers must only call this once the preview has been accepted.
+   * @param previewId - The ID of the preview from `buildTransaction`.
+   * @returns The transaction ID.
+   */
+  public async broadcastTransaction(previewId: string): Promise<string> {
+    const preview = transactionPreviews.getBroadcastable(previewId);
+    transactionPreviews.setStatus(previewId, "broadcasting");
+    let txid: string;
+    try {
+      txid = await this.broadcastRawTransaction(preview.hex);
+    } catch (error) {
+      transactionPreviews.setStatus(previewId, "awaiting_confirmation");
+      throw error;
+    }
+    transactionPreviews.setStatus(previewId, "broadcast");
+    console.log(
+      `Transaction preview ${previewId} broadcast successfully. TXID: ${txid}`
+    );
+    return txid;
+  }
+
+  /**
+   * Makes sure a transaction signed earlier reaches the network. When the
+   * node already knows its txid, in the mempool or in a block, nothing is
+   * sent; otherwise the same signed hex is broadcast again, which can never
+   * pay twice.
+   * @param txid - The ID of the signed transaction.
+   * @param hex - The signed transaction hex.
+   * @returns The transaction ID.
+   */
+  public async ensureTransactionBroadcast(
+    txid: string,
+    hex: string
+  ): Promise<string> {
+    if (await this.isTransactionKnown(txid)) {
+      return txid;
+    }
+    try {
+      return await this.broadcastRawTransaction(hex);
+    } catch (error) {
+      // It may have reached the node between the lookup and the broadcast
+      if (await this.isTransactionKnown(txid)) {
+        return txid;
       }
+      throw error;
+    }
+  }
+
+  private async isTransactionKnown(txid: string): Promise<boolean> {
+    try {
+      return Boolean(
+        await this.fetchJson<string>(`/getrawtransaction/${txid}`)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Discards a previewed transaction so it can no longer be broadcast.
+   * @param previewId - The ID of the preview from `buildTransaction`.
+   */
+  public discardTransaction(previewId: string): void {
+    transactionPreviews.getBroadcastable(previewId);
+    transactionPreviews.setStatus(previewId, "discarded");
+  }
+
+  /**
+   * Creates a transaction to send funds to specified recipients and
+   * broadcasts it, asking for confirmation first when the user requires it.
+   * @param sendTo - An array of recipients and amounts.
+   * @param fromAddress - The address to send funds from.
+   * @param coinSelection - How to choose the inputs; largest-first from `fromAddress` by default.
+   * @param onSigned - Called with the signed transaction before it is broadcast, e.g. to save it.
+   * @returns The transaction ID if successful.
+   * @throws Error with detailed message if transaction fails.
+   */
+  public async createSendToTransaction(
+    sendTo: { address: string; amount: string }[],
+    fromAddress: string,
+    coinSelection: CoinSelectionOptions = {},
+    onSigned?: (preview: TransactionPreview) => Promise<void> | void
+  ): Promise<string> {
+    const preview = await this.buildTransaction(sendTo, fromAddress, coinSelection);
+    await transactionPreviews.confirm(preview);
+    if (onSigned) {
+      await onSigned(preview);
+    }
+    try {
+      return await this.broadcastTransaction(preview.preview_id);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      console.error(`${logPrefix} Transaction creation failed:`, errorMessage);
+      console.error(`Transaction ${preview.txid} broadcast failed:`, errorMessage);
       throw new Error(`Transaction failed: ${errorMessage}`);
     }
   }
@@ -1014,10 +1521,10 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     psl_credit_usage_tracking_address_private_key: string;
   }): Promise<void> {
     // Store the WIF key in localStorage
-    const storedKeys = JSON.parse(localStorage.getItem("psltKeyStore") || "{}");
+    const storedKeys = JSON.parse(localStorage.getItem(getNetworkStorageKey("psltKeyStore")) || "{}");
     storedKeys[data.psl_credit_usage_tracking_address] =
       data.psl_credit_usage_tracking_address_private_key;
-    localStorage.setItem("psltKeyStore", JSON.stringify(storedKeys));
+    localStorage.setItem(getNetworkStorageKey("psltKeyStore"), JSON.stringify(storedKeys));
 
     // Also import it immediately if possible
     const networkMode = this.getNetworkModeEnum(await this.getNetworkMode());
@@ -1049,6 +1556,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     nHeight: number
   ): Promise<string> {
     this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("sign transactions");
 
     try {
       const utxos = await this.getAddressUtxos(fromAddress);
@@ -1093,32 +1601,63 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   }
 
   /**
-   * Creates a transaction to register a PastelID.
+   * Builds and signs the transaction registering a PastelID and decodes it
+   * for review, without broadcasting it. The ticket outputs count as what is
+   * paid, and whatever returns to the funding address as change.
    * @param pastelID - The PastelID to register.
-   * @param fundingAddress - The address associated with the PastelID.
-   * @param utxosJson - A JSON string representing unspent transaction outputs.
-   * @param fee - The transaction fee.
-   * @returns The created PastelID registration transaction data as a serialized string.
+   * @param fundingAddress - The address paying the registration fee.
+   * @returns The decoded transaction awaiting confirmation.
    */
-  public async createRegisterPastelIdTransaction(
+  public async buildPastelIDRegistrationTransaction(
     pastelID: string,
     fundingAddress: string
-  ): Promise<string> {
+  ): Promise<TransactionPreview> {
     this.ensureInitialized();
-    const utxos = await this.getAddressUtxos(fundingAddress);
-    const utxosJson = JSON.stringify(utxos);
+    watchOnlyWallet.assertCanSign("register PastelIDs");
+    const utxos = (await this.getAddressUtxos(fundingAddress)) as UTXO[];
+    if (!utxos.length) {
+      throw new Error(`${fundingAddress} has no funds to register a PastelID with`);
+    }
     const networkMode = this.getNetworkModeEnum(await this.getNetworkMode());
     const currentBlockHeight = await this.getCurrentPastelBlockHeight();
-    return this.executeWasmMethod(() =>
+    await this.unlockWallet(await this.getWalletPassword());
+    const response = await this.executeWasmMethod(() =>
       this.pastelInstance!.CreateRegisterPastelIdTransaction(
         networkMode,
         pastelID,
         fundingAddress,
-        utxosJson,
+        JSON.stringify(utxos),
         currentBlockHeight,
         0
       )
     );
+    const transactionPreview = await this.decodeTransactionPreview(
+      this.parseCreatedTransactionHex(response),
+      [],
+      { strategy: "largest_first", inputs: utxos },
+      fundingAddress
+    );
+    transactionPreviews.add(transactionPreview);
+    return transactionPreview;
+  }
+
+  /**
+   * Registers a PastelID, asking for confirmation of the fee first when the
+   * user requires it.
+   * @param pastelID - The PastelID to register.
+   * @param fundingAddress - The address paying the registration fee.
+   * @returns The ID of the registration transaction.
+   */
+  public async createRegisterPastelIdTransaction(
+    pastelID: string,
+    fundingAddress: string
+  ): Promise<string> {
+    const preview = await this.buildPastelIDRegistrationTransaction(
+      pastelID,
+      fundingAddress
+    );
+    await transactionPreviews.confirm(preview);
+    return this.broadcastTransaction(preview.preview_id);
   }
 
   /**
@@ -1170,6 +1709,20 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     return this.fetchJson<boolean>(`/tickets/id/is_registered/${pastelID}`);
   }
 
+  /**
+   * Finds the registration ticket of a PastelID.
+   * @param pastelID - The PastelID to look up.
+   * @returns The ticket, or null when the PastelID is not registered.
+   */
+  public async findPastelIDTicket(
+    pastelID: string
+  ): Promise<Record<string, unknown> | null> {
+    const ticket = await this.fetchJson<unknown>(`/tickets/id/find/${pastelID}`);
+    return ticket && typeof ticket === "object"
+      ? (ticket as Record<string, unknown>)
+      : null;
+  }
+
   // -------------------------
   // Supernode Methods
   // -------------------------
@@ -1401,20 +1954,10 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
       await setNetworkInLocalStorage(network);
     }
 
-    let burnAddress: string;
-    switch (network) {
-      case "Mainnet":
-        burnAddress = "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd";
-        break;
-      case "Testnet":
-        burnAddress = "tPpasteLBurnAddressXXXXXXXXXXX3wy7u";
-        break;
-      case "Devnet":
-        burnAddress = "44oUgmZSL997veFEQDq569wv5tsT6KXf9QY7";
-        break;
-      default:
-        throw new Error(`Unsupported network: ${network}`);
+    if (!isPastelNetwork(network)) {
+      throw new Error(`Unsupported network: ${network}`);
     }
+    const burnAddress = getNetworkConfig(network).burn_address;
 
     return { network, burnAddress };
   }
@@ -1678,21 +2221,13 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   }
 
   /**
-   * Imports an address to track for monitoring.
+   * Imports an address to track for monitoring. Imported addresses make up
+   * the watch-only wallet.
    * @param address - The address to import.
    */
   public async importAddress(address: string): Promise<void> {
     this.ensureInitialized();
-    const importedAddresses = JSON.parse(
-      localStorage.getItem("importedAddresses") || "[]"
-    ) as string[];
-    if (!importedAddresses.includes(address)) {
-      importedAddresses.push(address);
-      localStorage.setItem(
-        "importedAddresses",
-        JSON.stringify(importedAddresses)
-      );
-    }
+    watchOnlyWallet.addAddress(address);
     console.log(`Address ${address} has been tracked for monitoring.`);
   }
 
@@ -2003,6 +2538,45 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     );
   }
 
+  /**
+   * Exports the keys of a PastelID as a secure container encrypted with a
+   * passphrase, in the format `importPastelIDFileIntoWallet` takes back.
+   * @param pastelID - The PastelID to export.
+   * @param passphrase - The passphrase the container is encrypted with.
+   * @returns The secure container, base64-encoded.
+   */
+  public async exportPastelIDSecureContainer(
+    pastelID: string,
+    passphrase: string
+  ): Promise<string> {
+    this.ensureInitialized();
+    watchOnlyWallet.assertCanSign("export PastelIDs");
+    const FS = this.wasmModule!.FS;
+    const dirPath = "/pastelid_export";
+    const filePath = `${dirPath}/${pastelID}`;
+    try {
+      FS.mkdir(dirPath);
+    } catch (e) {
+      if ((e as { code?: string }).code !== "EEXIST") throw e;
+    }
+    await this.unlockWallet(await this.getWalletPassword());
+    try {
+      const exported = await this.executeWasmMethod(() =>
+        this.pastelInstance!.ExportPastelIDKeys(pastelID, passphrase, dirPath)
+      );
+      if (!exported) {
+        throw new Error(`PastelID ${pastelID} could not be exported`);
+      }
+      return bytesToBase64(FS.readFile(filePath));
+    } finally {
+      try {
+        FS.unlink(filePath);
+      } catch {
+        // Nothing was written
+      }
+    }
+  }
+
   // -------------------------
   // Tracking Addresses Methods
   // -------------------------
@@ -2057,12 +2631,16 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    * Sends funds to a specific address.
    * @param address - The address to send funds to.
    * @param amount - The amount of PSL to send.
+   * @param coinSelection - Optional coin control; funding addresses given here override the default source.
+   * @param onSigned - Called with the signed transaction before it is broadcast.
    * @returns The transaction ID.
    */
   public async sendToAddress(
     address: string,
     amountStr: string,
-    creditUsageTrackingPSLAddress: string = ""
+    creditUsageTrackingPSLAddress: string = "",
+    coinSelection: CoinSelectionOptions = {},
+    onSigned?: (preview: TransactionPreview) => Promise<void> | void
   ): Promise<{
     txID: string;
     actualFromAddress: string;
@@ -2102,15 +2680,21 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     // Log the sendTo array
     console.log("Send To Array:", JSON.stringify(sendTo, null, 2));
 
-    const fromAddress = await this.getMyPslAddressWithLargestBalance();
-
     // Determine the actual fromAddress
-    const actualFromAddress = creditUsageTrackingPSLAddress || fromAddress;
+    const actualFromAddress =
+      creditUsageTrackingPSLAddress ||
+      coinSelection.fromAddresses?.[0] ||
+      (await this.getMyPslAddressWithLargestBalance());
 
     console.log(`Sending from address: ${actualFromAddress}`);
 
     // Create and send the transaction
-    const txID = await this.createSendToTransaction(sendTo, actualFromAddress);
+    const txID = await this.createSendToTransaction(
+      sendTo,
+      actualFromAddress,
+      coinSelection,
+      onSigned
+    );
 
     // Log the transaction ID
     console.log(
@@ -2126,13 +2710,17 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   /**
    * Sends funds to multiple addresses.
    * @param amounts - An array of objects containing address and amount.
+   * @param coinSelection - Optional coin control, including several funding addresses.
    * @returns The transaction ID.
    */
   public async sendMany(
-    amounts: { address: string; amount: number }[] // Accept number types
+    amounts: { address: string; amount: number }[], // Accept number types
+    coinSelection: CoinSelectionOptions = {}
   ): Promise<string> {
     this.ensureInitialized();
-    const fromAddress = await this.getMyPslAddressWithLargestBalance();
+    const fromAddress =
+      coinSelection.fromAddresses?.[0] ||
+      (await this.getMyPslAddressWithLargestBalance());
 
     // Convert amounts to strings with desired precision using decimal.js
     const sendTo = amounts.map((item) => ({
@@ -2143,7 +2731,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     // Log the sendTo array
     console.log("Send To Array:", JSON.stringify(sendTo, null, 2));
 
-    return this.createSendToTransaction(sendTo, fromAddress);
+    return this.createSendToTransaction(sendTo, fromAddress, coinSelection);
   }
 
   /**
@@ -2195,13 +2783,14 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
   }
 
   /**
-   * Retrieves the total count of wallet transactions.
+   * Retrieves the count of wallet transactions indexed by the last history sync.
    * @returns The number of transactions.
    */
   public async getWalletTransactionCount(): Promise<number> {
-    const transactions = JSON.parse(
-      localStorage.getItem("transactions") || "[]"
-    ) as unknown[];
+    await initializeStorage();
+    const transactions = await BrowserDatabase.getInstance().getAllData(
+      "TransactionHistory"
+    );
     return transactions.length;
   }
 
@@ -2240,6 +2829,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
    * @param creditUsageTrackingPSLAddress - The control PSL address.
    * @param creditUsageTrackingAmountInPSL - The amount to track.
    * @param burnAddress - The burn address to send the tracking amount to.
+   * @param onTransactionSigned - Called with the signed transaction before it is broadcast.
    * @returns The transaction ID.
    */
   public async sendTrackingAmountFromControlAddressToBurnAddressToConfirmInferenceRequest(
@@ -2248,8 +2838,14 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     creditUsageTrackingAmountInPSL: number,
     burnAddress: string,
     callback: (value: string) => void,
-    onSaveLocalStorage: (value: string) => void
+    onTransactionSigned: (
+      preview: TransactionPreview
+    ) => Promise<void> | void
   ): Promise<string> {
+    assertAddressOnCurrentNetwork(
+      creditUsageTrackingPSLAddress,
+      "confirm an inference request with this credit pack"
+    );
     const minAmount = new Decimal("0.0000000001"); // Define minimum acceptable amount
     const amountDecimal = new Decimal(creditUsageTrackingAmountInPSL);
 
@@ -2281,7 +2877,9 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     // Create the transaction
     const txID = await this.createSendToTransaction(
       sendTo,
-      creditUsageTrackingPSLAddress
+      creditUsageTrackingPSLAddress,
+      {},
+      onTransactionSigned
     ); // Assuming fee is handled internally
 
     // Inform via callback
@@ -2292,7 +2890,6 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     );
 
     if (txID) {
-      onSaveLocalStorage(txID);
       return txID;
     }
 
@@ -2305,7 +2902,7 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
 
   async getTransactionConfirmations(txid: string): Promise<boolean> {
     const { data } = await axios.get(
-      `${this.apiBaseUrl}/gettransactionconfirmations/${txid}`
+      `${this.getApiBaseUrl()}/gettransactionconfirmations/${txid}`
     );
     return data?.confirmed || false;
   }
@@ -2413,28 +3010,52 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
     );
   }
 
+  /**
+   * Picks a watched address without any history to track a new credit pack,
+   * since a watch-only wallet cannot derive addresses of its own.
+   */
+  private async getUnusedWatchedAddress(): Promise<string> {
+    const trackingAddresses = watchOnlyWallet
+      .getCreditPacks()
+      .map((pack) => pack.credit_usage_tracking_psl_address);
+    for (const address of watchOnlyWallet.getAddresses()) {
+      if (trackingAddresses.includes(address)) continue;
+      const txids = await this.fetchJson<string[]>(
+        `/get_address_txids?addresses=${address}`
+      );
+      if (!txids?.length) return address;
+    }
+    throw new Error(
+      "No unused watched address is left to track a new credit pack; watch an unused address of the offline wallet first"
+    );
+  }
+
   async createAndFundNewPSLCreditTrackingAddress(
-    amountOfPSLToFundAddressWith: number
+    amountOfPSLToFundAddressWith: number,
+    coinSelection: CoinSelectionOptions = {}
   ): Promise<{ newCreditTrackingAddress: string; txid: string; actualFromAddress: string }> {
     this.ensureInitialized();
     const addresses = await this.getAllAddresses();
-    const localAddress = localStorage.getItem("MY_LOCAL_ADDRESSES");
+    const localAddress = localStorage.getItem(getNetworkStorageKey("MY_LOCAL_ADDRESSES"));
     if (!localAddress) {
-      localStorage.setItem("MY_LOCAL_ADDRESSES", JSON.stringify(addresses));
+      localStorage.setItem(getNetworkStorageKey("MY_LOCAL_ADDRESSES"), JSON.stringify(addresses));
     } else {
       const parseAddress = JSON.parse(localAddress);
       const combined: string[] = Array.from(
         new Set([...addresses, ...parseAddress])
       );
       const newAddresses = [...combined];
-      localStorage.setItem("MY_LOCAL_ADDRESSES", JSON.stringify(newAddresses));
+      localStorage.setItem(getNetworkStorageKey("MY_LOCAL_ADDRESSES"), JSON.stringify(newAddresses));
     }
     const generateNewAddress = async (): Promise<string> => {
+      if (watchOnlyWallet.isEnabled()) {
+        return this.getUnusedWatchedAddress();
+      }
       const newAddress = await this.makeNewAddress();
       const data = await this.fetchJson<string[]>(
         `/get_address_txids?addresses=${newAddress}`
       );
-      const localAddress = localStorage.getItem("MY_LOCAL_ADDRESSES");
+      const localAddress = localStorage.getItem(getNetworkStorageKey("MY_LOCAL_ADDRESSES"));
       let parseAddress = [];
       if (localAddress) {
         parseAddress = JSON.parse(localAddress);
@@ -2449,7 +3070,9 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
       amountOfPSLToFundAddressWith.toFixed(5);
     const sendData = await this.sendToAddress(
       newAddress,
-      formattedAmountOfPSLToFundAddressWith
+      formattedAmountOfPSLToFundAddressWith,
+      "",
+      coinSelection
     );
     return { newCreditTrackingAddress: newAddress, txid: sendData.txID, actualFromAddress: sendData.actualFromAddress };
   }
@@ -2517,18 +3140,13 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
 
   async getBurnAddress(): Promise<string> {
     const { network } = await this.getNetworkInfo();
-    switch (network) {
-      case "Mainnet":
-        return "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd";
-      case "Testnet":
-        return "tPpasteLBurnAddressXXXXXXXXXXX3wy7u";
-      case "Devnet":
-        return "44oUgmZSL997veFEQDq569wv5tsT6KXf9QY7";
-      default:
-        throw new Error(`Unsupported network: ${network}`);
+    if (!isPastelNetwork(network)) {
+      throw new Error(`Unsupported network: ${network}`);
     }
+    return getNetworkConfig(network).burn_address;
   }
 
+
   async getPastelIDsCount(): Promise<number> {
     try {
       const rpc = BrowserRPCReplacement.getInstance();
@@ -2555,12 +3173,8 @@ public async getAllAddresses(mode?: NetworkMode): Promise<string[]> {
       const FS = this.wasmModule!.FS;
 
       // Decode the base64 encoded secure container
-      const binaryString = atob(fileContent);
-      contentLength = binaryString.length;
-      const bytes = new Uint8Array(contentLength);
-      for (let i = 0; i < contentLength; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-      }
+      const bytes = base64ToBytes(fileContent);
+      contentLength = bytes.length;
 
       // Ensure the directory exists in the Emscripten FS
       const dirPath = "/wallet_data";
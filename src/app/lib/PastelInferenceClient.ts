@@ -9,6 +9,11 @@ import { BrowserDatabase } from "./BrowserDatabase";
 import * as utils from "./utils";
 import * as validationSchemas from "./validationSchemas";
 import browserLogger from "@/app/lib/logger";
+import {
+  fetchWithReputation,
+  supernodeReputation,
+} from "@/app/lib/supernodeReputation";
+import { spendingPolicy } from "@/app/lib/spendingPolicy";
 import {
   PastelIDType,
   PastelInferenceClientConfig,
@@ -34,11 +39,17 @@ import {
   InferenceConfirmationData,
   CreditPackPurchaseRequestRejection,
   CreditPackPurchaseRequestResponseTermination,
-  AuditResult,
+  InferenceAuditorResponse,
 } from "@/app/types";
 
 const db = BrowserDatabase.getInstance();
 
+// Sent by a supernode once it has streamed the whole output
+const STREAM_DONE_MARKER = "[DONE]";
+const NUMBER_OF_INFERENCE_AUDITORS = 5;
+const MAX_AUDIT_RESULT_ATTEMPTS = 4;
+const AUDIT_RESULT_RETRY_DELAY_MS = 5000;
+
 class PastelInferenceClient {
   private pastelID: string;
   private passphrase: string;
@@ -54,11 +65,22 @@ class PastelInferenceClient {
     return this.pastelID;
   }
 
+  // Every message a supernode answers with must be signed by that supernode
+  private async getSupernodePastelID(supernodeURL: string): Promise<string> {
+    const { validMasternodeListFullDF } = await this.rpc.checkSupernodeList();
+    return utils.getSupernodePastelIDFromUrl(
+      supernodeURL,
+      validMasternodeListFullDF
+    );
+  }
+
   private async requestAndSignChallenge(
     supernodeURL: string
   ): Promise<ChallengeResponse> {
     try {
-      const response = await fetch(
+      const response = await fetchWithReputation(
+        supernodeURL,
+        "request_challenge",
         `${supernodeURL}/request_challenge/${this.pastelID}`
       );
       if (!response.ok)
@@ -112,7 +134,7 @@ class PastelInferenceClient {
         throw new Error(`HTTP error! status: ${response.status}`);
       const result = await response.json();
       const validatedResult = validationSchemas.userMessageSchema.parse(result);
-      await db.addData("UserMessage", validatedResult);
+      await db.saveData("UserMessage", validatedResult);
       return validatedResult;
     } catch (error) {
       console.error(
@@ -145,7 +167,7 @@ class PastelInferenceClient {
       );
       await Promise.all(
         validatedResults.map((message: UserMessage) =>
-          db.addData("UserMessage", message)
+          db.saveData("UserMessage", message)
         )
       );
       return validatedResults;
@@ -398,6 +420,16 @@ class PastelInferenceClient {
         credit_pack_purchase_request_response,
         credit_pack_purchase_request_confirmation,
       } = await response.json();
+      await utils.verifySupernodeMessage(
+        "credit pack purchase request response",
+        credit_pack_purchase_request_response,
+        supernodeURL
+      );
+      await utils.verifySupernodeMessage(
+        "credit pack purchase request confirmation",
+        credit_pack_purchase_request_confirmation,
+        supernodeURL
+      );
 
       utils.logActionWithPayload(
         "received",
@@ -495,6 +527,12 @@ class PastelInferenceClient {
         console.error(
           `Credit pack purchase request rejected: ${result.rejection_reason_string}`
         );
+        await utils.verifySupernodeMessage(
+          "credit pack purchase request rejection",
+          result,
+          supernodeURL,
+          await this.getSupernodePastelID(supernodeURL)
+        );
         const rejectionResponse = await utils.prepareModelForValidation(result);
         const validatedRejection =
           validationSchemas.creditPackPurchaseRequestRejectionSchema.parse(
@@ -518,6 +556,12 @@ class PastelInferenceClient {
           "response to credit pack purchase request",
           result
         );
+        await utils.verifySupernodeMessage(
+          "preliminary price quote",
+          result,
+          supernodeURL,
+          await this.getSupernodePastelID(supernodeURL)
+        );
         const preparedResult = await utils.prepareModelForValidation(result);
         const validatedPriceQuote =
           validationSchemas.creditPackPurchaseRequestPreliminaryPriceQuoteSchema.parse(
@@ -562,11 +606,10 @@ class PastelInferenceClient {
     maximumPerCreditPriceInPSL: number,
     callback: (value: string) => void
   ): Promise<boolean> {
+    const purchasePolicy = await spendingPolicy.getPurchasePolicy();
     if (!maximumTotalCreditPackPriceInPSL && !maximumPerCreditPriceInPSL) {
-      maximumPerCreditPriceInPSL = parseFloat(
-        localStorage.getItem("MAXIMUM_PER_CREDIT_PRICE_IN_PSL_FOR_CLIENT") ||
-          "100.0"
-      );
+      maximumPerCreditPriceInPSL =
+        purchasePolicy.maximum_per_credit_price_in_psl;
     }
     const {
       preliminary_quoted_price_per_credit_in_psl: quotedPricePerCredit,
@@ -592,11 +635,7 @@ class PastelInferenceClient {
       );
 
     const MAXIMUM_LOCAL_CREDIT_PRICE_DIFFERENCE_TO_ACCEPT_CREDIT_PRICING =
-      parseFloat(
-        localStorage.getItem(
-          "MAXIMUM_LOCAL_CREDIT_PRICE_DIFFERENCE_TO_ACCEPT_CREDIT_PRICING"
-        ) || "0.05"
-      );
+      purchasePolicy.maximum_credit_price_difference_from_market;
 
     const numberFormat = new Intl.NumberFormat("en-US");
     const percentageFormat = (value: number) => value.toFixed(2);
@@ -814,6 +853,12 @@ class PastelInferenceClient {
         console.error(
           `Credit pack purchase request response terminated: ${result.termination_reason_string}`
         );
+        await utils.verifySupernodeMessage(
+          "credit pack purchase request termination",
+          result,
+          supernodeURL,
+          await this.getSupernodePastelID(supernodeURL)
+        );
         const terminationResponse = await utils.prepareModelForValidation(
           result
         );
@@ -827,6 +872,12 @@ class PastelInferenceClient {
         );
         return validatedTermination;
       } else {
+        await utils.verifySupernodeMessage(
+          "credit pack purchase request response",
+          result,
+          supernodeURL,
+          await this.getSupernodePastelID(supernodeURL)
+        );
         const transformedResult =
           utils.transformCreditPackPurchaseRequestResponse(
             await utils.prepareModelForValidation(result)
@@ -921,6 +972,12 @@ class PastelInferenceClient {
         "response to credit pack purchase confirmation",
         result
       );
+      await utils.verifySupernodeMessage(
+        "credit pack purchase confirmation response",
+        result,
+        supernodeURL,
+        await this.getSupernodePastelID(supernodeURL)
+      );
       const validatedResult =
         validationSchemas.creditPackPurchaseRequestConfirmationResponseSchema.parse(
           result
@@ -1013,6 +1070,12 @@ class PastelInferenceClient {
         "credit pack purchase request response from Supernode",
         responseData
       );
+      await utils.verifySupernodeMessage(
+        "credit pack purchase request status",
+        responseData,
+        supernodeURL,
+        await this.getSupernodePastelID(supernodeURL)
+      );
       const transformedResult = await utils.prepareModelForValidation(
         responseData
       );
@@ -1156,6 +1219,12 @@ class PastelInferenceClient {
         result
       );
 
+      await utils.verifySupernodeMessage(
+        "credit pack storage retry response",
+        result,
+        supernodeURL,
+        await this.getSupernodePastelID(supernodeURL)
+      );
       const transformedResult = await utils.prepareModelForValidation(result);
       const validatedResponse =
         validationSchemas.creditPackStorageRetryRequestResponseSchema.parse(
@@ -1354,7 +1423,9 @@ class PastelInferenceClient {
           )}`,
         })
       );
-      const response = await fetch(
+      const response = await fetchWithReputation(
+        supernodeURL,
+        "make_inference_api_usage_request",
         `${supernodeURL}/make_inference_api_usage_request`,
         {
           method: "POST",
@@ -1382,6 +1453,12 @@ class PastelInferenceClient {
           )}`,
         })
       );
+      await utils.verifySupernodeMessage(
+        "inference API usage response",
+        result,
+        supernodeURL,
+        await this.getSupernodePastelID(supernodeURL)
+      );
       const transformedResult = await utils.prepareModelForValidation(result);
       delete (transformedResult as Partial<InferenceAPIUsageResponse>).id;
       const validatedResponse =
@@ -1525,6 +1602,137 @@ class PastelInferenceClient {
     }
   }
 
+  /**
+   * Streams incremental output of a text completion over SSE or chunked HTTP.
+   * Resolves to false when the supernode does not support streaming or the
+   * stream breaks or closes before [DONE], so the caller can fall back to
+   * polling; any tokens already passed to `onToken` are then incomplete.
+   */
+  async streamInferenceOutputResults(
+    supernodeURL: string,
+    inferenceResponseID: string,
+    onToken: (token: string) => void,
+    callback: (value: string) => void
+  ): Promise<boolean> {
+    try {
+      const { challenge, challenge_id, challenge_signature } =
+        await this.requestAndSignChallenge(supernodeURL);
+      const params = new URLSearchParams({
+        inference_response_id: inferenceResponseID,
+        pastelid: this.pastelID,
+        challenge,
+        challenge_id,
+        challenge_signature,
+      });
+      const response = await fetch(
+        `${supernodeURL}/stream_inference_output_results?${params}`,
+        {
+          headers: { Accept: "text/event-stream" },
+        }
+      );
+      if (!response.ok || !response.body) {
+        console.info(
+          `Supernode ${supernodeURL} does not support streaming inference results (status ${response.status})`
+        );
+        return false;
+      }
+      callback(
+        JSON.stringify({
+          message: `Streaming inference output results for response ID ${inferenceResponseID} from Supernode URL: ${supernodeURL}`,
+        })
+      );
+
+      const isEventStream = (response.headers.get("Content-Type") || "").includes(
+        "text/event-stream"
+      );
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        const text = decoder.decode(value, { stream: true });
+        if (!isEventStream) {
+          // A chunked stream ends with [DONE], which may be split across
+          // chunks, so its possible start is held back until more arrives
+          buffer += text;
+          if (buffer.trimEnd().endsWith(STREAM_DONE_MARKER)) {
+            const rest = buffer.trimEnd().slice(0, -STREAM_DONE_MARKER.length);
+            if (rest) onToken(rest);
+            await reader.cancel();
+            return true;
+          }
+          const emitLength = buffer.length - STREAM_DONE_MARKER.length;
+          if (emitLength > 0) {
+            onToken(buffer.slice(0, emitLength));
+            buffer = buffer.slice(emitLength);
+          }
+          continue;
+        }
+        buffer += text;
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || "";
+        for (const event of events) {
+          const lines = event.split(/\r?\n/);
+          const eventType =
+            lines
+              .find((line) => line.startsWith("event:"))
+              ?.slice(6)
+              .trim() || "message";
+          const data = lines
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).replace(/^ /, ""))
+            .join("\n");
+          if (eventType === "error") {
+            throw new Error(`Supernode stream error: ${data}`);
+          }
+          if (data === STREAM_DONE_MARKER) {
+            await reader.cancel();
+            return true;
+          }
+          if (data) {
+            onToken(this.parseStreamedToken(data));
+          }
+        }
+      }
+      // Closed before [DONE], so what arrived may be only part of the output
+      callback(
+        JSON.stringify({
+          message: `Stream of inference output results from ${supernodeURL} ended before it was complete; falling back to polling`,
+        })
+      );
+      console.warn(
+        `Stream of inference output results from ${supernodeURL} ended before [DONE]; falling back to polling`
+      );
+      return false;
+    } catch (error) {
+      callback(
+        JSON.stringify({
+          message: `Streaming inference output results failed; falling back to polling: ${utils.safeStringify(
+            error
+          )}`,
+        })
+      );
+      console.warn(
+        `Streaming inference output results failed; falling back to polling: ${utils.safeStringify(
+          error
+        )}`
+      );
+      return false;
+    }
+  }
+
+  private parseStreamedToken(data: string): string {
+    try {
+      const parsed = JSON.parse(data);
+      if (typeof parsed === "string") return parsed;
+      return parsed.token ?? parsed.text ?? parsed.delta ?? "";
+    } catch {
+      return data;
+    }
+  }
+
   async retrieveInferenceOutputResults(
     supernodeURL: string,
     inferenceRequestID: string,
@@ -1575,6 +1783,12 @@ class PastelInferenceClient {
         "inference output results",
         result
       );
+      await utils.verifySupernodeMessage(
+        "inference output result",
+        result,
+        supernodeURL,
+        await this.getSupernodePastelID(supernodeURL)
+      );
       const transformedResult = await utils.prepareModelForValidation(result);
       const validatedResult =
         validationSchemas.inferenceAPIOutputResultSchema.parse(
@@ -1601,7 +1815,8 @@ class PastelInferenceClient {
 
   async callAuditInferenceRequestResponse(
     supernodeURL: string,
-    inferenceResponseID: string
+    inferenceResponseID: string,
+    respondingSupernodePastelID: string
   ): Promise<InferenceAPIUsageResponse> {
     try {
       const signature = await this.rpc.signMessageWithPastelID(
@@ -1614,7 +1829,9 @@ class PastelInferenceClient {
         pastel_id: this.pastelID,
         signature,
       };
-      const response = await fetch(
+      const response = await fetchWithReputation(
+        supernodeURL,
+        "audit_inference_request_response",
         `${supernodeURL}/audit_inference_request_response`,
         {
           method: "POST",
@@ -1626,6 +1843,12 @@ class PastelInferenceClient {
         throw new Error(`HTTP error! status: ${response.status}`);
       const result = await response.json();
       delete (result as Partial<InferenceAPIOutputResult>).id;
+      await utils.verifySupernodeMessage(
+        "audited inference API usage response",
+        result,
+        supernodeURL,
+        respondingSupernodePastelID
+      );
       const transformedResult = await utils.prepareModelForValidation(result);
       const validatedResult =
         validationSchemas.inferenceAPIUsageResponseSchema.parse(
@@ -1644,7 +1867,8 @@ class PastelInferenceClient {
 
   async callAuditInferenceRequestResult(
     supernodeURL: string,
-    inferenceResponseID: string
+    inferenceResponseID: string,
+    respondingSupernodePastelID: string
   ): Promise<InferenceAPIOutputResult> {
     try {
       const signature = await this.rpc.signMessageWithPastelID(
@@ -1657,7 +1881,9 @@ class PastelInferenceClient {
         pastel_id: this.pastelID,
         signature,
       };
-      const response = await fetch(
+      const response = await fetchWithReputation(
+        supernodeURL,
+        "audit_inference_request_result",
         `${supernodeURL}/audit_inference_request_result`,
         {
           method: "POST",
@@ -1669,6 +1895,12 @@ class PastelInferenceClient {
         throw new Error(`HTTP error! status: ${response.status}`);
       const result = await response.json();
       delete (result as Partial<InferenceAPIOutputResult>).id;
+      await utils.verifySupernodeMessage(
+        "audited inference output result",
+        result,
+        supernodeURL,
+        respondingSupernodePastelID
+      );
       const transformedResult = await utils.prepareModelForValidation(result);
       const validatedResult =
         validationSchemas.inferenceAPIOutputResultSchema.parse(
@@ -1686,40 +1918,76 @@ class PastelInferenceClient {
   }
 
   async auditInferenceRequestResponseID(
-    inferenceResponseID: string
-  ): Promise<AuditResult[]> {
+    inferenceResponseID: string,
+    respondingSupernodeURL: string
+  ): Promise<InferenceAuditorResponse[]> {
     try {
       const { validMasternodeListFullDF } = await this.rpc.checkSupernodeList();
-      const filteredSupernodes = await utils.filterSupernodes(
+      // Auditors hand back the responding supernode's own signed messages
+      const respondingSupernodePastelID = utils.getSupernodePastelIDFromUrl(
+        respondingSupernodeURL,
         validMasternodeListFullDF
       );
-
-      const supernodeURLsAndPastelIDs = filteredSupernodes.slice(0, 5);
-
-      const listOfSupernodeURLs = supernodeURLsAndPastelIDs.map(
-        (supernode) => `http://${supernode.ipaddress_port.split(":")[0]}:7123`
-      );
-
-      const responseAuditTasks = listOfSupernodeURLs.map((url) =>
-        this.callAuditInferenceRequestResponse(url, inferenceResponseID)
-      );
-      const responseAuditResults = await Promise.all(responseAuditTasks);
-
-      await new Promise((resolve) => setTimeout(resolve, 20000));
-
-      const resultAuditTasks = listOfSupernodeURLs.map((url) =>
-        this.callAuditInferenceRequestResult(url, inferenceResponseID)
+      const filteredSupernodes = await utils.filterSupernodes(
+        validMasternodeListFullDF
       );
-      const resultAuditResults = await Promise.all(resultAuditTasks);
 
-      const auditResults: AuditResult[] = responseAuditResults.map(
-        (response, index) => ({
-          ...response,
-          ...resultAuditResults[index],
+      // The responding supernode cannot vouch for its own messages
+      const auditors = filteredSupernodes
+        .map((supernode) => ({
+          url: `http://${supernode.ipaddress_port.split(":")[0]}:7123`,
+          pastelID: supernode.extKey,
+        }))
+        .filter(({ url }) => url !== respondingSupernodeURL)
+        .slice(0, NUMBER_OF_INFERENCE_AUDITORS);
+
+      return await Promise.all(
+        auditors.map(async ({ url, pastelID }) => {
+          const auditorResponse: InferenceAuditorResponse = {
+            supernode_url: url,
+            supernode_pastelid: pastelID,
+            response_audit: null,
+            result_audit: null,
+            error: "",
+          };
+          try {
+            auditorResponse.response_audit =
+              await this.callAuditInferenceRequestResponse(
+                url,
+                inferenceResponseID,
+                respondingSupernodePastelID
+              );
+          } catch (error) {
+            auditorResponse.error = (error as Error).message;
+            return auditorResponse;
+          }
+          // Auditors only learn of the result once it has propagated to them
+          for (
+            let attempt = 1;
+            attempt <= MAX_AUDIT_RESULT_ATTEMPTS;
+            attempt++
+          ) {
+            try {
+              auditorResponse.result_audit =
+                await this.callAuditInferenceRequestResult(
+                  url,
+                  inferenceResponseID,
+                  respondingSupernodePastelID
+                );
+              auditorResponse.error = "";
+              break;
+            } catch (error) {
+              auditorResponse.error = (error as Error).message;
+              if (attempt < MAX_AUDIT_RESULT_ATTEMPTS) {
+                await new Promise((resolve) =>
+                  setTimeout(resolve, AUDIT_RESULT_RETRY_DELAY_MS)
+                );
+              }
+            }
+          }
+          return auditorResponse;
         })
       );
-
-      return auditResults;
     } catch (error) {
       console.error(
         `Error auditing inference request response ID: ${utils.safeStringify(
@@ -1737,7 +2005,11 @@ class PastelInferenceClient {
     modelParametersJSON: string
   ): Promise<boolean> {
     try {
-      const response = await fetch(`${supernodeURL}/get_inference_model_menu`);
+      const response = await fetchWithReputation(
+        supernodeURL,
+        "get_inference_model_menu",
+        `${supernodeURL}/get_inference_model_menu`
+      );
       if (!response.ok)
         throw new Error(`HTTP error! status: ${response.status}`);
       const modelMenu: ModelMenu = await response.json();
@@ -1826,7 +2098,6 @@ class PastelInferenceClient {
       );
 
       const checkSupernodePromises = filteredSupernodes.map((supernode) => {
-        const startTime = Date.now();
         const url = `http://${supernode.ipaddress_port.split(":")[0]}:7123`;
 
         return Promise.race([
@@ -1835,10 +2106,13 @@ class PastelInferenceClient {
             desiredModelCanonicalString,
             desiredModelInferenceTypeString,
             desiredModelParametersJSON
-          ).then((result) => ({
+          ).then(async (result) => ({
             result,
             url,
-            responseTime: Date.now() - startTime,
+            distance: await utils.calculateXORDistance(
+              this.pastelID,
+              supernode.extKey
+            ),
           })),
           new Promise<null>((_, reject) =>
             setTimeout(() => reject(new Error("Timeout")), timeoutPeriod)
@@ -1855,17 +2129,16 @@ class PastelInferenceClient {
           ): res is PromiseFulfilledResult<{
             result: boolean;
             url: string;
-            responseTime: number;
+            distance: bigint;
           }> => res.status === "fulfilled" && res.value !== null
         )
         .map((res) => res.value)
         .filter(({ result }) => result);
 
-      const sortedResponses = validResponses.sort(
-        (a, b) => a.responseTime - b.responseTime
-      );
+      const rankedResponses =
+        await supernodeReputation.rankByDistanceAndReliability(validResponses);
 
-      return sortedResponses.slice(0, N).map((response) => response.url);
+      return rankedResponses.slice(0, N).map((response) => response.url);
     } catch (error) {
       throw new Error(
         `Failed to get closest supernodes: ${
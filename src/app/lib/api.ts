@@ -3,14 +3,38 @@
 import browserLogger from "@/app/lib/logger";
 import BrowserRPCReplacement from './BrowserRPCReplacement';
 import {
-  getNetworkFromLocalStorage,
   setNetworkInLocalStorage,
   setPastelIdAndPassphrase as storageSetPastelIdAndPassphrase,
+  initializeStorage,
 } from "./storage";
 import * as endToEndFunctions from "./endToEndFunctions";
 import * as utils from "./utils";
 import pastelGlobals from "./globals";
 import PastelInferenceClient from "./PastelInferenceClient";
+import { batchInferenceQueue } from "./batchInference";
+import { creditPackLedger } from "./creditPackLedger";
+import { spendingPolicy } from "./spendingPolicy";
+import { keystore } from "./keystore";
+import { transactionPreviews } from "./transactionPreview";
+import { extractAddressHistoryTransactions, transactionHistory } from "./transactionHistory";
+import { RawTransactionOptions, parseTransaction } from "./rawTransaction";
+import { DEFAULT_ACCOUNT_ID, walletAccounts } from "./walletAccounts";
+import { watchOnlyWallet } from "./watchOnlyWallet";
+import { offlineSigning } from "./offlineSigning";
+import { walletProfiles } from "./walletProfiles";
+import { getKeyFingerprint, messageEncryption } from "./messageEncryption";
+import { messageInbox } from "./messageInbox";
+import { messageAttachments } from "./messageAttachments";
+import { pastelIDManager } from "./pastelIDManager";
+import {
+  assertAddressOnCurrentNetwork,
+  getBurnAddress as getNetworkBurnAddress,
+  getCurrentNetwork,
+  getNetworkConfig,
+  isPastelNetwork,
+  setNetworkConfig,
+} from "./networkConfig";
+import { getOutpointKey, patoshisToPSL } from "./coinSelection";
 import {
   SupernodeInfo,
   ModelMenu,
@@ -20,59 +44,84 @@ import {
   CreditPackCreationResult,
   CreditPackTicketInfo,
   UserMessage,
+  ArchivedUserMessage,
+  MessageThread,
+  MessageOutboxEntry,
+  AddressBookEntry,
+  EncryptionKeyStatement,
+  KnownEncryptionKey,
   WalletInfo,
   SendToAddressResult,
   PastelIDType,
-  NetworkMode
+  NetworkMode,
+  BatchInferenceJob,
+  BatchInferenceJobOptions,
+  CreditPackLedger,
+  CreditPackSpendingPolicy,
+  CreditPackPurchaseSpendingPolicy,
+  SpendingApprovalRequest,
+  SpendingPolicyRefusal,
+  CoinSelectionOptions,
+  CoinSelectionPreview,
+  UTXO,
+  UTXOOutpoint,
+  DecodedRawTransaction,
+  TransactionPreview,
+  TransactionHistoryEntry,
+  TransactionHistoryQuery,
+  TransactionHistorySyncResult,
+  WalletAccount,
+  WalletAccountSummary,
+  AddressDiscoveryResult,
+  WatchedCreditPackStatus,
+  WatchedPastelIDStatus,
+  UnsignedTransactionExport,
+  OfflineSigningRequest,
+  OfflineSigningResponse,
+  OfflineSigningResult,
+  OfflineSigningCompletion,
+  WalletProfile,
+  NetworkConfig,
+  PastelNetwork,
+  AttachmentInput,
+  AttachmentManifest,
+  MessageAttachment,
+  ManagedPastelID,
+  PastelIDRegistration,
+  PastelIDSecureContainerExport,
 } from "@/app/types";
 
-let network: string = "Mainnet"; // Default value
-let burnAddress: string = "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd"; // Default Mainnet burn address
-
 export async function changeNetwork(newNetwork: string): Promise<{ success: boolean; message: string }> {
   const rpc = BrowserRPCReplacement.getInstance();
-  if (["Mainnet", "Testnet", "Devnet"].includes(newNetwork)) {
-    await setNetworkInLocalStorage(newNetwork);
-    const { network: configuredNetwork, burnAddress: configuredBurnAddress } = await configureRPCAndSetBurnAddress();
-    network = configuredNetwork;
-    burnAddress = configuredBurnAddress;
-    await rpc.initialize();
-    return { success: true, message: `Network changed to ${newNetwork}` };
-  } else {
+  if (!isPastelNetwork(newNetwork)) {
     return { success: false, message: "Invalid network specified" };
   }
-}
-
-async function configureRPCAndSetBurnAddress(): Promise<{
-  network: string;
-  burnAddress: string;
-}> {
-  let network = await getNetworkFromLocalStorage();
-  if (!network) {
-    network = "Mainnet";
-    await setNetworkInLocalStorage(network);
+  const isNewNetwork = newNetwork !== getCurrentNetwork();
+  if (isNewNetwork && batchInferenceQueue.hasRunningJobs()) {
+    return { success: false, message: "Pause the running batch inference jobs before changing networks" };
   }
-
-  let burnAddress: string;
-  switch (network) {
-    case "Mainnet":
-      burnAddress = "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd";
-      break;
-    case "Testnet":
-      burnAddress = "tPpasteLBurnAddressXXXXXXXXXXX3wy7u";
-      break;
-    case "Devnet":
-      burnAddress = "44oUgmZSL997veFEQDq569wv5tsT6KXf9QY7";
-      break;
-    default:
-      throw new Error(`Unsupported network: ${network}`);
+  await setNetworkInLocalStorage(newNetwork);
+  walletProfiles.updateActiveProfileNetwork(newNetwork);
+  if (isNewNetwork) {
+    // Nothing loaded on the previous network may be used on this one
+    walletProfiles.selectDatabase();
+    transactionPreviews.clear();
+    batchInferenceQueue.unload();
   }
-
-  return { network, burnAddress };
+  await rpc.initialize();
+  return { success: true, message: `Network changed to ${newNetwork}` };
 }
 
 export async function getNetworkInfo(): Promise<{ network: string }> {
-  return { network };
+  return { network: getCurrentNetwork() };
+}
+
+export function getNetworkSettings(network: PastelNetwork): NetworkConfig {
+  return getNetworkConfig(network);
+}
+
+export function setNetworkSettings(network: PastelNetwork, config: Partial<NetworkConfig>): NetworkConfig {
+  return setNetworkConfig(network, config);
 }
 
 export async function getBestSupernodeUrl(userPastelID: string): Promise<string> {
@@ -119,14 +168,15 @@ export async function sendMessage(
   messageBody: string
 ): Promise<{
   sent_messages: UserMessage[];
-  received_messages: UserMessage[];
+  received_messages: ArchivedUserMessage[];
+  outbox_entry: MessageOutboxEntry | null;
 }> {
   const pastelID = pastelGlobals.getPastelId();
   const passphrase = pastelGlobals.getPassphrase();
   
   if (!pastelID || !passphrase) {
     console.warn("PastelID or passphrase not set. Cannot send message.");
-    return { sent_messages: [], received_messages: [] };
+    return { sent_messages: [], received_messages: [], outbox_entry: null };
   }
   
   return await endToEndFunctions.sendMessageAndCheckForNewIncomingMessages(
@@ -135,7 +185,7 @@ export async function sendMessage(
   );
 }
 
-export async function getReceivedMessages(): Promise<UserMessage[]> {
+export async function getReceivedMessages(): Promise<ArchivedUserMessage[]> {
   const pastelID = pastelGlobals.getPastelId();
   const passphrase = pastelGlobals.getPassphrase();
   
@@ -147,6 +197,139 @@ export async function getReceivedMessages(): Promise<UserMessage[]> {
   return await endToEndFunctions.checkForNewIncomingMessages();
 }
 
+function getMessagingPastelID(): string {
+  const pastelID = pastelGlobals.getPastelId();
+  if (!pastelID) {
+    throw new Error("PastelID is not set");
+  }
+  return pastelID;
+}
+
+export async function syncMessages(): Promise<ArchivedUserMessage[]> {
+  getMessagingPastelID();
+  return await endToEndFunctions.syncMessagesEndToEnd();
+}
+
+export async function getMessageThreads(): Promise<MessageThread[]> {
+  return await messageInbox.getThreads(getMessagingPastelID());
+}
+
+export async function getMessageThread(
+  counterpartPastelID: string
+): Promise<ArchivedUserMessage[]> {
+  return await messageInbox.getThread(getMessagingPastelID(), counterpartPastelID);
+}
+
+export async function markMessageThreadRead(
+  counterpartPastelID: string
+): Promise<number> {
+  return await messageInbox.markThreadRead(
+    getMessagingPastelID(),
+    counterpartPastelID
+  );
+}
+
+export async function getUnreadMessageCount(): Promise<number> {
+  const pastelID = pastelGlobals.getPastelId();
+  return pastelID ? await messageInbox.getUnreadCount(pastelID) : 0;
+}
+
+export async function searchMessages(
+  query: string
+): Promise<ArchivedUserMessage[]> {
+  return await messageInbox.searchMessages(getMessagingPastelID(), query);
+}
+
+export async function getAddressBook(): Promise<AddressBookEntry[]> {
+  return await messageInbox.getAddressBook();
+}
+
+export async function saveAddressBookEntry(
+  pastelID: string,
+  name: string
+): Promise<AddressBookEntry> {
+  return await messageInbox.saveContact(pastelID, name);
+}
+
+export async function deleteAddressBookEntry(pastelID: string): Promise<void> {
+  await messageInbox.deleteContact(pastelID);
+}
+
+export async function getMessageOutbox(): Promise<MessageOutboxEntry[]> {
+  return await messageInbox.getOutbox();
+}
+
+export async function retryOutboxMessage(
+  id: string
+): Promise<MessageOutboxEntry> {
+  return await endToEndFunctions.retryOutboxMessageEndToEnd(id);
+}
+
+export async function sendAttachment(
+  toPastelID: string,
+  input: AttachmentInput
+): Promise<{
+  manifest: AttachmentManifest;
+  outbox_entries: MessageOutboxEntry[];
+}> {
+  getMessagingPastelID();
+  return await endToEndFunctions.sendAttachmentEndToEnd(toPastelID, input);
+}
+
+export async function getMessageAttachments(
+  counterpartPastelID?: string
+): Promise<MessageAttachment[]> {
+  const pastelID = getMessagingPastelID();
+  return await messageAttachments.getAttachments(
+    counterpartPastelID
+      ? await messageInbox.getThread(pastelID, counterpartPastelID)
+      : await messageInbox.getArchivedMessages(pastelID)
+  );
+}
+
+export async function getMessageAttachmentContent(
+  attachmentID: string
+): Promise<{ attachment: MessageAttachment; content: string }> {
+  return await messageAttachments.getAttachmentContent(
+    await messageInbox.getArchivedMessages(getMessagingPastelID()),
+    attachmentID
+  );
+}
+
+export async function getMyEncryptionKeyStatement(): Promise<EncryptionKeyStatement> {
+  const pastelID = pastelGlobals.getPastelId();
+  if (!pastelID) {
+    throw new Error("PastelID is not set");
+  }
+  return await messageEncryption.getOwnKeyStatement(pastelID);
+}
+
+export async function getKnownEncryptionKeys(): Promise<KnownEncryptionKey[]> {
+  return await messageEncryption.getKnownKeys();
+}
+
+export async function importEncryptionKeyStatement(
+  statement: unknown
+): Promise<KnownEncryptionKey> {
+  return await messageEncryption.importKeyStatement(statement);
+}
+
+export async function shareEncryptionKey(
+  toPastelID: string,
+  requestReply: boolean = true
+): Promise<MessageOutboxEntry> {
+  return await endToEndFunctions.shareEncryptionKeyEndToEnd(
+    toPastelID,
+    requestReply
+  );
+}
+
+export async function getEncryptionKeyFingerprint(
+  statement: EncryptionKeyStatement
+): Promise<string> {
+  return await getKeyFingerprint(statement);
+}
+
 
 export async function createCreditPackTicket(
   numCredits: number,
@@ -155,14 +338,31 @@ export async function createCreditPackTicket(
   maxPerCreditPrice: number,
   callback: (value: string) => void
 ): Promise<CreditPackCreationResult> {
-  return await endToEndFunctions.handleCreditPackTicketEndToEnd(
+  const result = await endToEndFunctions.handleCreditPackTicketEndToEnd(
     numCredits,
     creditUsageTrackingPSLAddress,
-    burnAddress,
+    getNetworkBurnAddress(),
     maxTotalPrice,
     maxPerCreditPrice,
     callback
   );
+  // A watch-only wallet only sees the credit packs it watches
+  const registrationTxid =
+    result?.creditPackPurchaseRequestConfirmation?.pastel_api_credit_pack_ticket_registration_txid as string | undefined;
+  if (watchOnlyWallet.isEnabled() && registrationTxid) {
+    watchOnlyWallet.addCreditPack({
+      credit_pack_registration_txid: registrationTxid,
+      credit_usage_tracking_psl_address: creditUsageTrackingPSLAddress,
+      requesting_end_user_pastelid: result.creditPackRequest.requesting_end_user_pastelid,
+      added_at_utc_iso_string: new Date().toISOString(),
+    });
+  }
+  return result;
+}
+
+export async function recoverCreditPackPurchases(callback: (value: string) => void): Promise<CreditPackCreationResult[]> {
+  await initializeStorage();
+  return await endToEndFunctions.recoverCreditPackPurchasesEndToEnd(callback);
 }
 
 export async function getCreditPackInfo(txid: string): Promise<CreditPackTicketInfo> {
@@ -178,8 +378,68 @@ export async function getMyPslAddressWithLargestBalance(): Promise<string> {
   return await rpc.getMyPslAddressWithLargestBalance();
 }
 
-export async function createInferenceRequest(params: InferenceRequestParams, callback: (value: string) => void): Promise<InferenceResult | null> {
-  return await endToEndFunctions.handleInferenceRequestEndToEnd(params, callback);
+export async function createInferenceRequest(
+  params: InferenceRequestParams,
+  callback: (value: string) => void,
+  onToken?: (token: string) => void,
+  onStreamedTokensDiscarded?: () => void
+): Promise<InferenceResult | null> {
+  return await endToEndFunctions.handleInferenceRequestEndToEnd(params, callback, onToken, {
+    onStreamedTokensDiscarded,
+  });
+}
+
+export async function resumeInferenceRequests(callback: (value: string) => void): Promise<InferenceResult[]> {
+  await initializeStorage();
+  return await endToEndFunctions.resumeInferenceRequestsEndToEnd(callback);
+}
+
+export function isInferenceAuditEnabled(): boolean {
+  return endToEndFunctions.isInferenceAuditEnabled();
+}
+
+export function setInferenceAuditEnabled(enabled: boolean): void {
+  endToEndFunctions.setInferenceAuditEnabled(enabled);
+}
+
+export async function getBatchInferenceJobs(): Promise<BatchInferenceJob[]> {
+  await initializeStorage();
+  return await batchInferenceQueue.loadJobs();
+}
+
+export async function createBatchInferenceJob(
+  name: string,
+  paramsList: InferenceRequestParams[],
+  options?: BatchInferenceJobOptions
+): Promise<BatchInferenceJob> {
+  await initializeStorage();
+  return await batchInferenceQueue.createJob(name, paramsList, options);
+}
+
+export async function pauseBatchInferenceJob(jobID: string): Promise<void> {
+  await batchInferenceQueue.pauseJob(jobID);
+}
+
+export async function resumeBatchInferenceJob(jobID: string): Promise<void> {
+  await batchInferenceQueue.resumeJob(jobID);
+}
+
+export async function cancelBatchInferenceJob(jobID: string): Promise<void> {
+  await batchInferenceQueue.cancelJob(jobID);
+}
+
+export async function deleteBatchInferenceJob(jobID: string): Promise<void> {
+  await batchInferenceQueue.deleteJob(jobID);
+}
+
+export function exportBatchInferenceJob(jobID: string, format: "csv" | "jsonl"): string {
+  return batchInferenceQueue.exportJob(jobID, format);
+}
+
+export function subscribeToBatchInferenceJobs(
+  listener: (jobs: BatchInferenceJob[]) => void
+): () => void {
+  return batchInferenceQueue.subscribe(listener);
 }
 
 export async function checkSupernodeList(): Promise<{ validMasternodeListFullDF: SupernodeInfo[] }> {
@@ -188,8 +448,7 @@ export async function checkSupernodeList(): Promise<{ validMasternodeListFullDF:
 }
 
 export async function registerPastelID(pastelid: string, address: string): Promise<string> {
-  const rpc = BrowserRPCReplacement.getInstance();
-  return await rpc.createRegisterPastelIdTransaction(pastelid, address);
+  return (await pastelIDManager.register(pastelid, address)).txid;
 }
 
 export async function getPastelTicket(txid: string): Promise<unknown> {
@@ -255,7 +514,22 @@ export async function getWalletInfo(): Promise<WalletInfo> {
 
 export async function createAndFundNewAddress(amount: number): Promise<SendToAddressResult> {
   const rpc = BrowserRPCReplacement.getInstance();
-  const result = await rpc.createAndFundNewPSLCreditTrackingAddress(amount);
+  // With a credit tracking account, the tracking address is funded from the
+  // other accounts and kept apart from them
+  const trackingAccountId = walletAccounts.getCreditTrackingAccountId();
+  const trackingAddresses = trackingAccountId
+    ? await walletAccounts.getAccountAddresses(trackingAccountId)
+    : [];
+  const fundingAddresses = trackingAccountId
+    ? (await rpc.getAllAddresses()).filter((address) => !trackingAddresses.includes(address))
+    : [];
+  const result = await rpc.createAndFundNewPSLCreditTrackingAddress(
+    amount,
+    fundingAddresses.length ? { fromAddresses: fundingAddresses } : {}
+  );
+  if (trackingAccountId && result.newCreditTrackingAddress) {
+    await walletAccounts.assignAddress(result.newCreditTrackingAddress, trackingAccountId);
+  }
   return {
     success: true,
     newCreditTrackingAddress: result.newCreditTrackingAddress || "",
@@ -293,13 +567,9 @@ export async function isCreditPackConfirmed(txid: string): Promise<boolean> {
 
 export async function createAndRegisterPastelID(): Promise<{ pastelID: string; txid: string }> {
   try {
-    const rpc = BrowserRPCReplacement.getInstance();
-    const pastelID = await rpc.makeNewPastelID(false);
-    console.log("New PastelID created:", pastelID);
-    const address = await rpc.getMyPslAddressWithLargestBalance();
-    const txid = await rpc.createRegisterPastelIdTransaction(pastelID, address);
-    console.log("PastelID registered with txid:", txid);
-    return { pastelID, txid };
+    const registration = await pastelIDManager.register();
+    console.log("PastelID registered with txid:", registration.txid);
+    return { pastelID: registration.pastelid, txid: registration.txid };
   } catch (error) {
     console.error("Error creating and registering PastelID:", error);
     throw error;
@@ -311,11 +581,83 @@ export async function isPastelIDRegistered(pastelID: string): Promise<boolean> {
   return await rpc.isPastelIDRegistered(pastelID);
 }
 
+export async function getManagedPastelIDs(): Promise<ManagedPastelID[]> {
+  return await pastelIDManager.listPastelIDs();
+}
+
+export async function getManagedPastelID(pastelID: string): Promise<ManagedPastelID> {
+  return await pastelIDManager.getPastelID(pastelID);
+}
+
+export async function getMissingPastelIDs(): Promise<ManagedPastelID[]> {
+  return await pastelIDManager.getMissingPastelIDs();
+}
+
+export function getPastelIDRegistration(pastelID: string): PastelIDRegistration | null {
+  return pastelIDManager.getRegistration(pastelID);
+}
+
+export async function previewPastelIDRegistration(
+  pastelID?: string,
+  fundingAddress?: string
+): Promise<{ registration: PastelIDRegistration; preview: TransactionPreview }> {
+  return await pastelIDManager.previewRegistration(pastelID, fundingAddress);
+}
+
+export async function confirmPastelIDRegistration(pastelID: string): Promise<PastelIDRegistration> {
+  return await pastelIDManager.confirmRegistration(pastelID);
+}
+
+export function discardPastelIDRegistration(pastelID: string): PastelIDRegistration {
+  return pastelIDManager.discardRegistration(pastelID);
+}
+
+export async function checkPastelIDRegistration(pastelID: string): Promise<PastelIDRegistration> {
+  return await pastelIDManager.checkRegistration(pastelID);
+}
+
+export async function exportPastelIDSecureContainer(
+  pastelID: string,
+  passphrase?: string
+): Promise<PastelIDSecureContainerExport> {
+  return await pastelIDManager.exportSecureContainer(pastelID, passphrase);
+}
+
+export async function importPastelIDSecureContainer(
+  pastelID: string,
+  secureContainerBase64: string,
+  passphrase: string,
+  rememberPassphrase: boolean = true,
+  network?: string
+): Promise<ManagedPastelID> {
+  return await pastelIDManager.importSecureContainer(
+    pastelID,
+    secureContainerBase64,
+    passphrase,
+    rememberPassphrase,
+    network
+  );
+}
+
+export async function changePastelIDPassphrase(
+  pastelID: string,
+  currentPassphrase: string,
+  newPassphrase: string
+): Promise<void> {
+  await pastelIDManager.changePassphrase(pastelID, currentPassphrase, newPassphrase);
+}
+
 export async function setPastelIdAndPassphrase(pastelID: string, passphrase: string): Promise<void> {
   await storageSetPastelIdAndPassphrase(pastelID, passphrase);
   pastelGlobals.setPastelIdAndPassphrase(pastelID, passphrase);
 }
 
+// A watch-only wallet acts as a watched PastelID without knowing its
+// passphrase, so nothing is stored
+export function selectWatchedPastelID(pastelID: string): void {
+  pastelGlobals.setPastelIdAndPassphrase(pastelID, "");
+}
+
 export async function ensureMinimalPSLBalance(addresses: string[] | null = null): Promise<void> {
   const rpc = BrowserRPCReplacement.getInstance();
   return await rpc.ensureTrackingAddressesHaveMinimalPSLBalance(addresses);
@@ -362,7 +704,12 @@ export async function verifyTrackingAddress(address: string): Promise<boolean> {
   return balance !== undefined;
 }
 
-export async function checkTrackingAddressBalance(creditPackTicketId: string): Promise<{ address: string; balance: number }> {
+async function getCreditPackTrackingAddress(creditPackTicketId: string): Promise<string> {
+  // Watched credit packs are known without asking a supernode, which takes a signature
+  const watchedCreditPack = watchOnlyWallet.getCreditPack(creditPackTicketId);
+  if (watchedCreditPack) {
+    return watchedCreditPack.credit_usage_tracking_psl_address;
+  }
   const creditPackInfo = await getCreditPackInfo(creditPackTicketId);
   if (!creditPackInfo || !creditPackInfo.requestConfirmation) {
     throw new Error("Credit pack ticket not found or invalid");
@@ -371,6 +718,11 @@ export async function checkTrackingAddressBalance(creditPackTicketId: string): P
   if (!trackingAddress) {
     throw new Error("Tracking address not found in credit pack ticket");
   }
+  return trackingAddress;
+}
+
+export async function checkTrackingAddressBalance(creditPackTicketId: string): Promise<{ address: string; balance: number }> {
+  const trackingAddress = await getCreditPackTrackingAddress(creditPackTicketId);
   const rpc = BrowserRPCReplacement.getInstance();
   const balance = await rpc.checkPSLAddressBalance(trackingAddress);
   if (balance === undefined) {
@@ -379,6 +731,51 @@ export async function checkTrackingAddressBalance(creditPackTicketId: string): P
   return { address: trackingAddress, balance: balance };
 }
 
+export async function getCreditPackLedger(creditPackTicketId: string): Promise<CreditPackLedger> {
+  await initializeStorage();
+  const trackingAddress = await getCreditPackTrackingAddress(creditPackTicketId);
+  return await creditPackLedger.reconcile(creditPackTicketId, trackingAddress);
+}
+
+export async function getCreditPackLedgerTicketIds(): Promise<string[]> {
+  await initializeStorage();
+  const ticketIds = await creditPackLedger.getCreditPackTicketTxids();
+  const watchedTicketIds = watchOnlyWallet
+    .getCreditPacks()
+    .map((pack) => pack.credit_pack_registration_txid);
+  return Array.from(new Set([...ticketIds, ...watchedTicketIds]));
+}
+
+export async function getCreditPackSpendingPolicy(creditPackTicketId: string): Promise<CreditPackSpendingPolicy> {
+  return await spendingPolicy.getCreditPackPolicy(creditPackTicketId);
+}
+
+export async function saveCreditPackSpendingPolicy(policy: CreditPackSpendingPolicy): Promise<void> {
+  await spendingPolicy.saveCreditPackPolicy(policy);
+}
+
+export async function deleteCreditPackSpendingPolicy(creditPackTicketId: string): Promise<void> {
+  await spendingPolicy.deleteCreditPackPolicy(creditPackTicketId);
+}
+
+export async function getPurchaseSpendingPolicy(): Promise<CreditPackPurchaseSpendingPolicy> {
+  return await spendingPolicy.getPurchasePolicy();
+}
+
+export async function savePurchaseSpendingPolicy(policy: CreditPackPurchaseSpendingPolicy): Promise<void> {
+  await spendingPolicy.savePurchasePolicy(policy);
+}
+
+export async function getSpendingPolicyRefusals(): Promise<SpendingPolicyRefusal[]> {
+  return await spendingPolicy.getRefusals();
+}
+
+export function setSpendingApprovalHandler(
+  handler: ((request: SpendingApprovalRequest) => Promise<boolean>) | null
+): void {
+  spendingPolicy.setApprovalHandler(handler);
+}
+
 export async function unlockWallet(password: string): Promise<boolean> {
   const rpc = BrowserRPCReplacement.getInstance();
   return await rpc.unlockWallet(password);
@@ -389,6 +786,81 @@ export async function createNewWallet(password: string): Promise<string> {
   return await rpc.createNewWallet(password);
 }
 
+export async function lockWallet(): Promise<boolean> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await rpc.lockWallet();
+}
+
+export async function isKeystoreSetUp(): Promise<boolean> {
+  return keystore.isSetUp();
+}
+
+export function isKeystoreUnlocked(): boolean {
+  return keystore.isUnlocked();
+}
+
+export async function setUpKeystore(pin: string): Promise<void> {
+  await keystore.setUp(pin);
+  keystore.startActivityTracking();
+}
+
+export async function unlockKeystore(pin: string): Promise<void> {
+  await keystore.unlock(pin);
+  keystore.startActivityTracking();
+}
+
+export function lockKeystore(): void {
+  keystore.lock();
+}
+
+export async function changeKeystorePin(
+  currentPin: string,
+  newPin: string
+): Promise<void> {
+  await keystore.changePin(currentPin, newPin);
+}
+
+export async function resetKeystore(): Promise<void> {
+  await keystore.reset();
+}
+
+export function getKeystoreAutoLockMinutes(): number {
+  return keystore.getAutoLockMinutes();
+}
+
+export async function setKeystoreAutoLockMinutes(minutes: number): Promise<void> {
+  await keystore.setAutoLockMinutes(minutes);
+}
+
+export function subscribeToKeystore(
+  listener: (unlocked: boolean) => void
+): () => void {
+  return keystore.subscribe(listener);
+}
+
+export function getStoredWalletPassword(): string | null {
+  return keystore.getWalletPassword();
+}
+
+export async function storeWalletPassword(password: string): Promise<void> {
+  await keystore.setWalletPassword(password);
+}
+
+export function getStoredPastelIDPassphrase(pastelID: string): string | null {
+  return keystore.getPastelIDPassphrase(pastelID);
+}
+
+export async function storePastelIDPassphrase(
+  pastelID: string,
+  passphrase: string
+): Promise<void> {
+  await keystore.setPastelIDPassphrase(pastelID, passphrase);
+}
+
+export async function forgetPastelIDPassphrase(pastelID: string): Promise<void> {
+  await keystore.deletePastelIDPassphrase(pastelID);
+}
+
 export async function importPastelID(fileContent: string | ArrayBuffer | null, network: string, passphrase: string, pastelID: string): Promise<{ success: boolean; message: string; importedPastelID: string }> {
   try {
     const rpc = BrowserRPCReplacement.getInstance();
@@ -408,7 +880,14 @@ export async function checkPSLAddressBalanceAlternative(addressToCheck: string):
 
 export async function createWalletFromMnemonic(password: string, mnemonic: string): Promise<string> {
   const rpc = BrowserRPCReplacement.getInstance();
-  return await rpc.createWalletFromMnemonic(password, mnemonic);
+  const result = await rpc.createWalletFromMnemonic(password, mnemonic);
+  // A restored wallet starts without addresses; bring back the used ones
+  try {
+    await walletAccounts.discoverAddresses();
+  } catch (error) {
+    browserLogger.warn(`Address discovery after restoring the wallet failed: ${(error as Error).message}`);
+  }
+  return result;
 }
 
 export async function loadWalletFromDatFile(walletData: ArrayBuffer): Promise<boolean> {
@@ -479,17 +958,7 @@ export async function waitForCreditPackConfirmation(txid: string): Promise<boole
 }
 
 export async function getBurnAddress(): Promise<string> {
-  const { network } = await getNetworkInfo();
-  switch (network) {
-    case "Mainnet":
-      return "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd";
-    case "Testnet":
-      return "tPpasteLBurnAddressXXXXXXXXXXX3wy7u";
-    case "Devnet":
-      return "44oUgmZSL997veFEQDq569wv5tsT6KXf9QY7";
-    default:
-      throw new Error(`Unsupported network: ${network}`);
-  }
+  return getNetworkBurnAddress();
 }
 
 export async function signMessageWithPastelID(
@@ -520,18 +989,376 @@ export async function getBestBlockHashAndMerkleRoot(): Promise<[string, string,
   return await rpc.getBestBlockHashAndMerkleRoot();
 }
 
-export async function sendToAddress(address: string, amount: number, creditUsageTrackingPSLAddress: string = ""): Promise<{
+export async function sendToAddress(address: string, amount: number, creditUsageTrackingPSLAddress: string = "", coinSelection: CoinSelectionOptions = {}): Promise<{
   txID: string;
   actualFromAddress: string;
 }> {
   const rpc = BrowserRPCReplacement.getInstance();
   const amountFormatted = amount.toFixed(5);
-  return await rpc.sendToAddress(address, amountFormatted, creditUsageTrackingPSLAddress);
+  return await rpc.sendToAddress(address, amountFormatted, creditUsageTrackingPSLAddress, coinSelection);
+}
+
+export async function sendMany(amounts: { address: string; amount: number;}[], coinSelection: CoinSelectionOptions = {}): Promise<string> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await rpc.sendMany(amounts, coinSelection);
+}
+
+export async function previewCoinSelection(amounts: { address: string; amount: number;}[], coinSelection: CoinSelectionOptions = {}): Promise<CoinSelectionPreview> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const sendTo = amounts.map(({ address, amount }) => ({ address, amount: amount.toFixed(5) }));
+  return await rpc.previewCoinSelection(sendTo, coinSelection);
 }
 
-export async function sendMany(amounts: { address: string; amount: number;}[]): Promise<string> {
+export async function buildTransaction(amounts: { address: string; amount: number;}[], coinSelection: CoinSelectionOptions = {}, fromAddress: string = ""): Promise<TransactionPreview> {
   const rpc = BrowserRPCReplacement.getInstance();
-  return await rpc.sendMany(amounts);
+  const sendTo = amounts.map(({ address, amount }) => ({ address, amount: amount.toFixed(5) }));
+  return await rpc.buildTransaction(sendTo, fromAddress, coinSelection);
+}
+
+export async function broadcastTransaction(previewId: string): Promise<string> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await rpc.broadcastTransaction(previewId);
+}
+
+export function discardTransaction(previewId: string): void {
+  const rpc = BrowserRPCReplacement.getInstance();
+  rpc.discardTransaction(previewId);
+}
+
+export function getTransactionPreview(previewId: string): TransactionPreview | null {
+  return transactionPreviews.get(previewId);
+}
+
+export function isTransactionConfirmationRequired(): boolean {
+  return transactionPreviews.isConfirmationRequired();
+}
+
+export function setTransactionConfirmationRequired(required: boolean): void {
+  transactionPreviews.setConfirmationRequired(required);
+}
+
+export function setTransactionConfirmationHandler(
+  handler: ((preview: TransactionPreview) => Promise<boolean>) | null
+): void {
+  transactionPreviews.setConfirmationHandler(handler);
+}
+
+export async function getSpendableUtxos(addresses?: string[]): Promise<UTXO[]> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await rpc.getUtxosForAddresses(addresses || (await rpc.getAllAddresses()));
+}
+
+export async function listWalletAccounts(): Promise<WalletAccountSummary[]> {
+  return await walletAccounts.listAccounts();
+}
+
+export async function createWalletAccount(name: string): Promise<WalletAccount> {
+  return await walletAccounts.createAccount(name);
+}
+
+export async function renameWalletAccount(accountId: string, name: string): Promise<WalletAccount> {
+  return await walletAccounts.renameAccount(accountId, name);
+}
+
+export async function deleteWalletAccount(accountId: string): Promise<void> {
+  await walletAccounts.deleteAccount(accountId);
+}
+
+export async function assignAddressToAccount(address: string, accountId: string): Promise<void> {
+  await walletAccounts.assignAddress(address, accountId);
+}
+
+export async function getUnusedAccountAddress(accountId: string = DEFAULT_ACCOUNT_ID): Promise<string> {
+  return await walletAccounts.getUnusedAddress(accountId);
+}
+
+export async function discoverAddresses(gapLimit?: number): Promise<AddressDiscoveryResult> {
+  return await walletAccounts.discoverAddresses(gapLimit);
+}
+
+export function getAddressGapLimit(): number {
+  return walletAccounts.getGapLimit();
+}
+
+export function setAddressGapLimit(gapLimit: number): void {
+  walletAccounts.setGapLimit(gapLimit);
+}
+
+export function getCreditTrackingAccountId(): string | null {
+  return walletAccounts.getCreditTrackingAccountId();
+}
+
+export async function setCreditTrackingAccountId(accountId: string | null): Promise<void> {
+  await walletAccounts.setCreditTrackingAccountId(accountId);
+}
+
+export function isWatchOnlyWallet(): boolean {
+  return watchOnlyWallet.isEnabled();
+}
+
+export function setWatchOnlyWallet(enabled: boolean): void {
+  watchOnlyWallet.setEnabled(enabled);
+}
+
+export function getWatchedAddresses(): string[] {
+  return watchOnlyWallet.getAddresses();
+}
+
+export async function getWatchedAddressBalances(): Promise<{ [address: string]: number }> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const balances: { [address: string]: number } = {};
+  for (const address of watchOnlyWallet.getAddresses()) {
+    balances[address] = await rpc.checkPSLAddressBalance(address);
+  }
+  return balances;
+}
+
+export async function watchAddress(address: string): Promise<void> {
+  assertAddressOnCurrentNetwork(address, "watch this address");
+  const rpc = BrowserRPCReplacement.getInstance();
+  const validated = await rpc.validateAddress(address);
+  if (!validated.isvalid) {
+    throw new Error(`Invalid PSL address: ${address}`);
+  }
+  await rpc.importAddress(address);
+}
+
+export function unwatchAddress(address: string): void {
+  watchOnlyWallet.removeAddress(address);
+}
+
+export async function getWatchedPastelIDs(): Promise<WatchedPastelIDStatus[]> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await Promise.all(
+    watchOnlyWallet.getPastelIDs().map(async (pastelid) => ({
+      pastelid,
+      is_registered: await rpc.isPastelIDRegistered(pastelid).catch(() => false),
+    }))
+  );
+}
+
+export function watchPastelID(pastelID: string): void {
+  const trimmed = safeString(pastelID).trim();
+  if (!trimmed) {
+    throw new Error("PastelID is required");
+  }
+  watchOnlyWallet.addPastelID(trimmed);
+}
+
+export function unwatchPastelID(pastelID: string): void {
+  watchOnlyWallet.removePastelID(pastelID);
+}
+
+export async function getWatchedCreditPacks(): Promise<WatchedCreditPackStatus[]> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await Promise.all(
+    watchOnlyWallet.getCreditPacks().map(async (pack) => {
+      const address = pack.credit_usage_tracking_psl_address;
+      // Incoming transactions fund the tracking address; the spends confirm inference requests
+      const trackingTransactions = extractAddressHistoryTransactions(
+        await rpc.getAddressHistory(address)
+      ).filter((tx) => tx.satoshis === null || tx.satoshis < 0);
+      const heights = trackingTransactions
+        .map((tx) => tx.height)
+        .filter((height): height is number => height !== null);
+      return {
+        ...pack,
+        tracking_address_balance_in_psl: await rpc.checkPSLAddressBalance(address),
+        tracking_transaction_count: new Set(trackingTransactions.map((tx) => tx.txid)).size,
+        last_tracking_transaction_block_height: heights.length ? Math.max(...heights) : null,
+      };
+    })
+  );
+}
+
+export async function watchCreditPack(creditPackTicketId: string, trackingAddress: string, pastelID: string = ""): Promise<void> {
+  if (!/^[0-9a-fA-F]{64}$/.test(creditPackTicketId)) {
+    throw new Error(`Invalid credit pack ticket ID: ${creditPackTicketId}`);
+  }
+  assertAddressOnCurrentNetwork(trackingAddress, "watch a credit pack tracked by this address");
+  const rpc = BrowserRPCReplacement.getInstance();
+  const validated = await rpc.validateAddress(trackingAddress);
+  if (!validated.isvalid) {
+    throw new Error(`Invalid tracking address: ${trackingAddress}`);
+  }
+  watchOnlyWallet.addCreditPack({
+    credit_pack_registration_txid: creditPackTicketId,
+    credit_usage_tracking_psl_address: trackingAddress,
+    requesting_end_user_pastelid: pastelID.trim(),
+    added_at_utc_iso_string: new Date().toISOString(),
+  });
+}
+
+export function unwatchCreditPack(creditPackTicketId: string): void {
+  watchOnlyWallet.removeCreditPack(creditPackTicketId);
+}
+
+/**
+ * Selects coins for a payment and exports it unsigned, with the change going
+ * back to a funding address since a watch-only wallet cannot derive new ones.
+ */
+export async function exportUnsignedTransaction(amounts: { address: string; amount: number;}[], coinSelection: CoinSelectionOptions = {}): Promise<UnsignedTransactionExport> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const sendTo = amounts.map(({ address, amount }) => ({ address, amount: amount.toFixed(5) }));
+  const preview = await rpc.previewCoinSelection(sendTo, coinSelection);
+  return await rpc.createUnsignedTransactionExport(sendTo, preview);
+}
+
+export async function createOfflineTransactionSigningRequest(amounts: { address: string; amount: number;}[], coinSelection: CoinSelectionOptions = {}): Promise<OfflineSigningRequest> {
+  const transaction = await exportUnsignedTransaction(amounts, coinSelection);
+  const total = amounts.reduce((sum, { amount }) => sum + amount, 0);
+  return offlineSigning.createRequest({
+    kind: "transaction",
+    network: transaction.network,
+    description: `Send ${total.toFixed(5)} PSL to ${amounts.map(({ address }) => address).join(", ")}`,
+    transaction,
+  });
+}
+
+export async function createOfflinePastelIDSignatureRequest(pastelid: string, message: string, type: PastelIDType = PastelIDType.PastelID): Promise<OfflineSigningRequest> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return offlineSigning.createRequest({
+    kind: "pastelid_signature",
+    network: await rpc.getNetworkMode(),
+    description: `Sign a message with PastelID ${pastelid}`,
+    pastelid,
+    pastelid_type: type,
+    message,
+  });
+}
+
+export function getPendingOfflineSigningRequests(): OfflineSigningRequest[] {
+  return offlineSigning.getPendingRequests();
+}
+
+export function discardOfflineSigningRequest(requestId: string): void {
+  offlineSigning.removePendingRequest(requestId);
+}
+
+export function canRequestOfflineSignatures(): boolean {
+  return offlineSigning.canRequestSignatures();
+}
+
+export function setOfflineSigningHandler(
+  handler: ((request: OfflineSigningRequest) => Promise<OfflineSigningResponse | null>) | null
+): void {
+  offlineSigning.setHandler(handler);
+}
+
+// Runs on the offline instance holding the keys. The signed transaction is
+// read back locally, since there is no opennode to decode it with.
+export async function signOfflineSigningRequest(request: OfflineSigningRequest): Promise<OfflineSigningResult> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const network = await rpc.getNetworkMode();
+  if (request.network !== network) {
+    throw new Error(`The request is for ${request.network} but this wallet is on ${network}`);
+  }
+  if (request.kind === "pastelid_signature") {
+    if (!(await rpc.getPastelIDs()).includes(request.pastelid)) {
+      throw new Error(`PastelID ${request.pastelid} is not in this wallet`);
+    }
+    const signature = await rpc.signMessageWithPastelID(request.pastelid, request.message, request.pastelid_type);
+    if (!signature) {
+      throw new Error(`Failed to sign with PastelID ${request.pastelid}`);
+    }
+    return { response: offlineSigning.createResponse(request, { signature }), fee_in_psl: null };
+  }
+
+  const transaction = request.transaction;
+  if (!transaction) {
+    throw new Error("The request holds no transaction");
+  }
+  if (!(await rpc.getAllAddresses()).includes(transaction.change_address)) {
+    throw new Error(`The change address ${transaction.change_address} is not an address of this wallet`);
+  }
+  const hex = await rpc.signUnsignedTransaction(transaction);
+  const signed = parseTransaction(hex);
+  const requestedInputs = new Set(transaction.inputs.map((utxo) => getOutpointKey(utxo)));
+  if (
+    signed.inputs.length !== requestedInputs.size ||
+    signed.inputs.some((input) => !requestedInputs.has(getOutpointKey(input)))
+  ) {
+    throw new Error("The signed transaction does not spend the requested inputs");
+  }
+  const inputTotal = transaction.inputs.reduce((sum, utxo) => sum + utxo.patoshis, 0);
+  const outputTotal = signed.outputs.reduce((sum, output) => sum + output.patoshis, 0);
+  return {
+    response: offlineSigning.createResponse(request, { signed_transaction_hex: hex }),
+    fee_in_psl: patoshisToPSL(inputTotal - outputTotal),
+  };
+}
+
+// Runs on the online instance when a response is brought back outside of a
+// flow waiting for it. Signed transactions await confirmation like any other.
+export async function completeOfflineSigningRequest(response: OfflineSigningResponse): Promise<OfflineSigningCompletion> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const request = offlineSigning.matchResponse(response);
+  let completion: OfflineSigningCompletion;
+  if (request.kind === "transaction") {
+    completion = {
+      request,
+      preview: await rpc.previewSignedTransaction(response.signed_transaction_hex, request.transaction!),
+      signature_is_valid: null,
+    };
+  } else {
+    completion = {
+      request,
+      preview: null,
+      signature_is_valid:
+        request.pastelid_type === PastelIDType.PastelID
+          ? await rpc.verifyMessageWithPastelID(request.pastelid, request.message, response.signature)
+          : null,
+    };
+  }
+  offlineSigning.removePendingRequest(request.request_id);
+  return completion;
+}
+
+export async function getAddressUtxos(address: string): Promise<UTXO[]> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return (await rpc.getAddressUtxos(address)) as UTXO[];
+}
+
+export async function createRawTransaction(inputs: UTXOOutpoint[], outputs: { address: string; amount: number;}[], options: RawTransactionOptions = {}): Promise<string> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const sendTo = outputs.map(({ address, amount }) => ({ address, amount: amount.toFixed(5) }));
+  return await rpc.createRawTransaction(inputs, sendTo, options);
+}
+
+// The signer adds the fee and sends whatever the inputs hold beyond it to the change address
+export async function createSignedTransaction(inputs: UTXOOutpoint[], outputs: { address: string; amount: number;}[], changeAddress?: string): Promise<TransactionPreview> {
+  return await buildTransaction(outputs, {
+    strategy: "manual",
+    selectedUtxos: inputs,
+    changeAddress,
+  });
+}
+
+export async function decodeRawTransaction(hex: string): Promise<DecodedRawTransaction> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  return await rpc.decodeRawTransaction(hex);
+}
+
+// Signed transactions that were previewed here are marked as broadcast
+export async function broadcastRawTransaction(hex: string): Promise<string> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const preview = transactionPreviews
+    .list()
+    .find((pending) => pending.hex === hex && pending.status === "awaiting_confirmation");
+  if (preview) {
+    return await rpc.broadcastTransaction(preview.preview_id);
+  }
+  return await rpc.broadcastRawTransaction(hex);
+}
+
+export async function syncTransactionHistory(): Promise<TransactionHistorySyncResult> {
+  return await transactionHistory.sync();
+}
+
+export async function searchTransactionHistory(
+  query: TransactionHistoryQuery = {}
+): Promise<{ total: number; transactions: TransactionHistoryEntry[] }> {
+  return await transactionHistory.search(query);
 }
 
 export async function getAndDecodeRawTransaction(txid: string): Promise<unknown> {
@@ -550,7 +1377,7 @@ export async function sendTrackingAmountFromControlAddressToBurnAddressToConfirm
   creditUsageTrackingAmountInPSL: number,
   burnAddress: string,
   callback: (value: string) => void,
-  onSaveLocalStorage: (value: string) => void,
+  onTransactionSigned: (preview: TransactionPreview) => Promise<void> | void,
 ): Promise<string> {
   const rpc = BrowserRPCReplacement.getInstance();
   return await rpc.sendTrackingAmountFromControlAddressToBurnAddressToConfirmInferenceRequest(
@@ -559,7 +1386,7 @@ export async function sendTrackingAmountFromControlAddressToBurnAddressToConfirm
     creditUsageTrackingAmountInPSL,
     burnAddress,
     callback,
-    onSaveLocalStorage
+    onTransactionSigned
   );
 }
 
@@ -601,7 +1428,7 @@ export async function importWalletFromDatFile(walletData: ArrayBuffer | string,
     browserLogger.info("WASM initialized successfully");
     await rpc.importWallet(walletData);
     await rpc.unlockWallet(password);
-    localStorage.setItem('walletPassword', password)
+    await keystore.setWalletPassword(password);
     return true;
   } catch (error) {
     console.error("Error loading wallet from .dat file:", error);
@@ -614,21 +1441,116 @@ export async function getAllAddresses(): Promise<string[]> {
   return rpc.getAllAddresses();
 }
 
+export function getWalletProfiles(): WalletProfile[] {
+  return walletProfiles.getProfiles();
+}
+
+export function getActiveWalletProfile(): WalletProfile {
+  return walletProfiles.getActiveProfile();
+}
+
+export function createWalletProfile(name: string, network: WalletProfile["network"]): WalletProfile {
+  return walletProfiles.createProfile(name, network);
+}
+
+export function renameWalletProfile(profileId: string, name: string): WalletProfile {
+  return walletProfiles.renameProfile(profileId, name);
+}
+
+export async function deleteWalletProfile(profileId: string): Promise<void> {
+  await walletProfiles.deleteProfile(profileId);
+}
+
+/**
+ * Switches to another wallet profile. Whatever was loaded from the old one is
+ * torn down: the keystore is locked, unconfirmed transactions and batch jobs
+ * are dropped and a new WASM instance is set to the profile's network. The
+ * wallet itself is then loaded again like on startup.
+ */
+export async function switchWalletProfile(profileId: string): Promise<WalletProfile> {
+  if (profileId === walletProfiles.getActiveProfileId()) {
+    return walletProfiles.getActiveProfile();
+  }
+  walletProfiles.getProfile(profileId);
+  if (batchInferenceQueue.hasRunningJobs()) {
+    throw new Error("Pause the running batch inference jobs before switching wallet profiles");
+  }
+  keystore.lock();
+  const profile = walletProfiles.activateProfile(profileId);
+  transactionPreviews.clear();
+  batchInferenceQueue.unload();
+  pastelGlobals.setPastelIdAndPassphrase("", "");
+  const rpc = BrowserRPCReplacement.getInstance();
+  await rpc.initialize(true);
+  await changeNetwork(profile.network);
+  browserLogger.info(`Switched to wallet profile ${profile.name}`);
+  return profile;
+}
+
 const api = {
   changeNetwork,
+  getNetworkSettings,
+  setNetworkSettings,
   unlockWallet,
   createNewWallet, 
+  lockWallet,
+  isKeystoreSetUp,
+  isKeystoreUnlocked,
+  setUpKeystore,
+  unlockKeystore,
+  lockKeystore,
+  changeKeystorePin,
+  resetKeystore,
+  getKeystoreAutoLockMinutes,
+  setKeystoreAutoLockMinutes,
+  subscribeToKeystore,
+  getStoredWalletPassword,
+  storeWalletPassword,
+  getStoredPastelIDPassphrase,
+  storePastelIDPassphrase,
+  forgetPastelIDPassphrase,
   getNetworkInfo,
   getBestSupernodeUrl,
   getInferenceModelMenu,
   estimateCreditPackCost,
   sendMessage,
   getReceivedMessages,
+  syncMessages,
+  getMessageThreads,
+  getMessageThread,
+  markMessageThreadRead,
+  getUnreadMessageCount,
+  searchMessages,
+  getAddressBook,
+  saveAddressBookEntry,
+  deleteAddressBookEntry,
+  getMessageOutbox,
+  retryOutboxMessage,
+  sendAttachment,
+  getMessageAttachments,
+  getMessageAttachmentContent,
+  getMyEncryptionKeyStatement,
+  getKnownEncryptionKeys,
+  importEncryptionKeyStatement,
+  shareEncryptionKey,
+  getEncryptionKeyFingerprint,
   createCreditPackTicket,
+  recoverCreditPackPurchases,
   getCreditPackInfo,
   getMyValidCreditPacks,
   getMyPslAddressWithLargestBalance,
   createInferenceRequest,
+  resumeInferenceRequests,
+  isInferenceAuditEnabled,
+  setInferenceAuditEnabled,
+  getBatchInferenceJobs,
+  createBatchInferenceJob,
+  pauseBatchInferenceJob,
+  resumeBatchInferenceJob,
+  cancelBatchInferenceJob,
+  deleteBatchInferenceJob,
+  exportBatchInferenceJob,
+  subscribeToBatchInferenceJobs,
   checkSupernodeList,
   registerPastelID,
   getPastelTicket,
@@ -645,13 +1567,34 @@ const api = {
   isCreditPackConfirmed,
   createAndRegisterPastelID,
   isPastelIDRegistered,
+  getManagedPastelIDs,
+  getManagedPastelID,
+  getMissingPastelIDs,
+  getPastelIDRegistration,
+  previewPastelIDRegistration,
+  confirmPastelIDRegistration,
+  discardPastelIDRegistration,
+  checkPastelIDRegistration,
+  exportPastelIDSecureContainer,
+  importPastelIDSecureContainer,
+  changePastelIDPassphrase,
   setPastelIdAndPassphrase,
+  selectWatchedPastelID,
   ensureMinimalPSLBalance,
   checkPastelIDValidity,
   dumpPrivKey,
   verifyPastelID,
   verifyTrackingAddress,
   checkTrackingAddressBalance,
+  getCreditPackLedger,
+  getCreditPackLedgerTicketIds,
+  getCreditPackSpendingPolicy,
+  saveCreditPackSpendingPolicy,
+  deleteCreditPackSpendingPolicy,
+  getPurchaseSpendingPolicy,
+  savePurchaseSpendingPolicy,
+  getSpendingPolicyRefusals,
+  setSpendingApprovalHandler,
   importPastelID,
   checkPSLAddressBalanceAlternative,
   createWalletFromMnemonic,
@@ -667,6 +1610,54 @@ const api = {
   getBestBlockHashAndMerkleRoot,
   sendToAddress,
   sendMany,
+  previewCoinSelection,
+  buildTransaction,
+  broadcastTransaction,
+  discardTransaction,
+  getTransactionPreview,
+  isTransactionConfirmationRequired,
+  setTransactionConfirmationRequired,
+  setTransactionConfirmationHandler,
+  getSpendableUtxos,
+  listWalletAccounts,
+  createWalletAccount,
+  renameWalletAccount,
+  deleteWalletAccount,
+  assignAddressToAccount,
+  getUnusedAccountAddress,
+  discoverAddresses,
+  getAddressGapLimit,
+  setAddressGapLimit,
+  getCreditTrackingAccountId,
+  setCreditTrackingAccountId,
+  isWatchOnlyWallet,
+  setWatchOnlyWallet,
+  getWatchedAddresses,
+  getWatchedAddressBalances,
+  watchAddress,
+  unwatchAddress,
+  getWatchedPastelIDs,
+  watchPastelID,
+  unwatchPastelID,
+  getWatchedCreditPacks,
+  watchCreditPack,
+  unwatchCreditPack,
+  exportUnsignedTransaction,
+  createOfflineTransactionSigningRequest,
+  createOfflinePastelIDSignatureRequest,
+  getPendingOfflineSigningRequests,
+  discardOfflineSigningRequest,
+  canRequestOfflineSignatures,
+  setOfflineSigningHandler,
+  signOfflineSigningRequest,
+  completeOfflineSigningRequest,
+  getAddressUtxos,
+  createRawTransaction,
+  createSignedTransaction,
+  decodeRawTransaction,
+  broadcastRawTransaction,
+  syncTransactionHistory,
+  searchTransactionHistory,
   getAndDecodeRawTransaction,
   getTransactionDetails,
   sendTrackingAmountFromControlAddressToBurnAddressToConfirmInferenceRequest,
@@ -679,6 +1670,12 @@ const api = {
   exportWallet,
   importWalletFromDatFile,
   getAllAddresses,
+  getWalletProfiles,
+  getActiveWalletProfile,
+  createWalletProfile,
+  renameWalletProfile,
+  deleteWalletProfile,
+  switchWalletProfile,
 };
 
 export default api;
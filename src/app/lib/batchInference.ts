@@ -0,0 +1,484 @@
+// src/app/lib/batchInference.ts
+
+'use client'
+
+import { v4 as uuidv4 } from "uuid";
+
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import * as endToEndFunctions from "@/app/lib/endToEndFunctions";
+import browserLogger from "@/app/lib/logger";
+import pastelGlobals from "@/app/lib/globals";
+import {
+  BatchInferenceItem,
+  BatchInferenceJob,
+  BatchInferenceJobOptions,
+  InferenceRequestHooks,
+  InferenceRequestParams,
+  InferenceRequestState,
+  InferenceResult,
+  ModelInputData,
+} from "@/app/types";
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export const DEFAULT_BATCH_INFERENCE_OPTIONS: BatchInferenceJobOptions = {
+  concurrency: 2,
+  maxRequestsPerSupernodePerMinute: 6,
+};
+
+type BatchInferenceListener = (jobs: BatchInferenceJob[]) => void;
+
+function parseCSVLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+  return values;
+}
+
+function escapeCSVValue(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Turns a CSV (with a header row) or JSONL document into inference request
+ * parameters. CSV columns and plain JSONL objects become the model input data
+ * (e.g. `prompt`); JSONL objects that contain `modelInputData` may also
+ * override any other field of the template.
+ */
+export function parseBatchInferenceInput(
+  text: string,
+  format: "csv" | "jsonl",
+  template: Omit<InferenceRequestParams, "modelInputData">
+): InferenceRequestParams[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (format === "jsonl") {
+    return lines.map((line, index) => {
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+      if ("modelInputData" in parsed) {
+        return { ...template, ...parsed } as InferenceRequestParams;
+      }
+      return { ...template, modelInputData: parsed as unknown as ModelInputData };
+    });
+  }
+  if (lines.length < 2) {
+    throw new Error("CSV input needs a header row and at least one data row");
+  }
+  const headers = parseCSVLine(lines[0]).map((header) => header.trim());
+  return lines.slice(1).map((line) => {
+    const values = parseCSVLine(line);
+    const modelInputData: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      modelInputData[header] = values[index] ?? "";
+    });
+    return { ...template, modelInputData: modelInputData as unknown as ModelInputData };
+  });
+}
+
+/**
+ * Singleton queue that runs batch inference jobs with a bounded number of
+ * concurrent requests and a per-supernode request rate limit. Jobs are
+ * persisted after every change so progress survives a reload; jobs that were
+ * running when the page closed come back paused.
+ */
+export class BatchInferenceQueue {
+  private static instance: BatchInferenceQueue;
+  private db: BrowserDatabase;
+  private jobs: Map<string, BatchInferenceJob> = new Map();
+  private runningJobs: Set<string> = new Set();
+  private listeners: Set<BatchInferenceListener> = new Set();
+  private supernodeRequestTimes: Map<string, number[]> = new Map();
+  private loaded = false;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): BatchInferenceQueue {
+    if (!BatchInferenceQueue.instance) {
+      BatchInferenceQueue.instance = new BatchInferenceQueue();
+    }
+    return BatchInferenceQueue.instance;
+  }
+
+  public subscribe(listener: BatchInferenceListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public getJobs(): BatchInferenceJob[] {
+    const pastelID = pastelGlobals.getPastelId();
+    return Array.from(this.jobs.values())
+      .filter((job) => !pastelID || job.requesting_pastelid === pastelID)
+      .sort((a, b) =>
+        b.created_at_utc_iso_string.localeCompare(a.created_at_utc_iso_string)
+      );
+  }
+
+  public async loadJobs(): Promise<BatchInferenceJob[]> {
+    if (!this.loaded) {
+      const storedJobs = await this.db.getAllData<BatchInferenceJob>(
+        "BatchInferenceJob"
+      );
+      for (const job of storedJobs) {
+        if (this.jobs.has(job.job_id)) continue;
+        if (job.status === "running") {
+          job.status = "paused";
+          await this.db.saveData("BatchInferenceJob", job);
+        }
+        this.jobs.set(job.job_id, job);
+      }
+      this.loaded = true;
+    }
+    return this.getJobs();
+  }
+
+  public hasRunningJobs(): boolean {
+    return this.runningJobs.size > 0;
+  }
+
+  /**
+   * Forgets the loaded jobs so that they are read again from the database,
+   * which differs once another wallet profile is in use.
+   */
+  public unload(): void {
+    if (this.hasRunningJobs()) {
+      throw new Error("Batch inference jobs are still running");
+    }
+    this.jobs.clear();
+    this.loaded = false;
+    this.notify();
+  }
+
+  public async createJob(
+    name: string,
+    paramsList: InferenceRequestParams[],
+    options: BatchInferenceJobOptions = DEFAULT_BATCH_INFERENCE_OPTIONS
+  ): Promise<BatchInferenceJob> {
+    const pastelID = pastelGlobals.getPastelId();
+    if (!pastelID) {
+      throw new Error("PastelID is not set");
+    }
+    if (paramsList.length === 0) {
+      throw new Error("A batch job needs at least one inference request");
+    }
+    await this.loadJobs();
+    const createdAt = new Date().toISOString();
+    const job: BatchInferenceJob = {
+      job_id: uuidv4(),
+      name,
+      requesting_pastelid: pastelID,
+      status: "running",
+      concurrency: Math.max(1, Math.floor(options.concurrency)),
+      max_requests_per_supernode_per_minute: Math.max(
+        1,
+        Math.floor(options.maxRequestsPerSupernodePerMinute)
+      ),
+      items: paramsList.map((params, index) => ({
+        index,
+        params,
+        status: "pending",
+        inference_request_state_id: null,
+        inference_request_id: "",
+        inference_status: "",
+        supernode_url: "",
+        cost_in_credits: 0,
+        result_text: "",
+        error: "",
+        started_at_utc_iso_string: "",
+        finished_at_utc_iso_string: "",
+      })),
+      created_at_utc_iso_string: createdAt,
+      updated_at_utc_iso_string: createdAt,
+    };
+    job.id = (await this.db.addData("BatchInferenceJob", job)) as number;
+    this.jobs.set(job.job_id, job);
+    this.notify();
+    void this.runJob(job);
+    return job;
+  }
+
+  /**
+   * Stops starting new items. Items already running are allowed to finish,
+   * since they may have been paid for.
+   */
+  public async pauseJob(jobID: string): Promise<void> {
+    const job = this.getJob(jobID);
+    if (job.status !== "running") return;
+    job.status = "paused";
+    await this.persist(job);
+  }
+
+  public async resumeJob(jobID: string): Promise<void> {
+    const job = this.getJob(jobID);
+    if (job.status !== "paused") return;
+    job.status = "running";
+    await this.persist(job);
+    void this.runJob(job);
+  }
+
+  /**
+   * Cancels every item that has not started. Running and interrupted items
+   * are left alone because their tracking transaction may already be sent.
+   */
+  public async cancelJob(jobID: string): Promise<void> {
+    const job = this.getJob(jobID);
+    if (job.status === "completed" || job.status === "cancelled") return;
+    job.status = "cancelled";
+    for (const item of job.items) {
+      if (item.status === "pending") {
+        item.status = "cancelled";
+      }
+    }
+    await this.persist(job);
+  }
+
+  public async deleteJob(jobID: string): Promise<void> {
+    const job = this.getJob(jobID);
+    if (this.runningJobs.has(jobID)) {
+      throw new Error("Pause or cancel the job and wait for it to stop first");
+    }
+    if (job.id !== undefined) {
+      await this.db.deleteData("BatchInferenceJob", job.id);
+    }
+    this.jobs.delete(jobID);
+    this.notify();
+  }
+
+  public exportJob(jobID: string, format: "csv" | "jsonl"): string {
+    const job = this.getJob(jobID);
+    const rows = job.items.map((item) => ({
+      index: item.index,
+      status: item.status,
+      model: item.params.requestedModelCanonicalString,
+      inference_type: item.params.modelInferenceTypeString,
+      input: JSON.stringify(item.params.modelInputData),
+      inference_request_id: item.inference_request_id,
+      supernode_url: item.supernode_url,
+      cost_in_credits: item.cost_in_credits,
+      result: item.result_text,
+      error: item.error,
+      started_at_utc_iso_string: item.started_at_utc_iso_string,
+      finished_at_utc_iso_string: item.finished_at_utc_iso_string,
+    }));
+    if (format === "jsonl") {
+      return rows.map((row) => JSON.stringify(row)).join("\n");
+    }
+    const headers = Object.keys(rows[0] || { index: "" });
+    return [
+      headers.join(","),
+      ...rows.map((row) =>
+        headers
+          .map((header) => escapeCSVValue(row[header as keyof typeof row]))
+          .join(",")
+      ),
+    ].join("\n");
+  }
+
+  private getJob(jobID: string): BatchInferenceJob {
+    const job = this.jobs.get(jobID);
+    if (!job) {
+      throw new Error(`Batch inference job ${jobID} not found`);
+    }
+    return job;
+  }
+
+  private notify(): void {
+    const jobs = this.getJobs();
+    this.listeners.forEach((listener) => listener(jobs));
+  }
+
+  private async persist(job: BatchInferenceJob): Promise<void> {
+    job.updated_at_utc_iso_string = new Date().toISOString();
+    this.notify();
+    try {
+      await this.db.saveData("BatchInferenceJob", job);
+    } catch (error) {
+      browserLogger.error(
+        `Error saving batch inference job ${job.job_id}: ${
+          (error as Error).message
+        }`
+      );
+    }
+  }
+
+  private async acquireSupernodeSlot(
+    supernodeURL: string,
+    maxRequestsPerMinute: number
+  ): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const recent = (this.supernodeRequestTimes.get(supernodeURL) || []).filter(
+        (time) => now - time < RATE_LIMIT_WINDOW_MS
+      );
+      if (recent.length < maxRequestsPerMinute) {
+        recent.push(now);
+        this.supernodeRequestTimes.set(supernodeURL, recent);
+        return;
+      }
+      this.supernodeRequestTimes.set(supernodeURL, recent);
+      await new Promise((resolve) =>
+        setTimeout(resolve, recent[0] + RATE_LIMIT_WINDOW_MS - now)
+      );
+    }
+  }
+
+  private async runJob(job: BatchInferenceJob): Promise<void> {
+    if (this.runningJobs.has(job.job_id)) return;
+    this.runningJobs.add(job.job_id);
+    try {
+      // Items left running by a previous session never got to finish here
+      for (const item of job.items) {
+        if (item.status === "running") {
+          item.status =
+            item.inference_request_state_id === null ? "pending" : "interrupted";
+        }
+      }
+      // Interrupted items get one retry per run so a stuck request cannot spin
+      const itemsToResume = job.items.filter(
+        (item) => item.status === "interrupted"
+      );
+      const takeNextItem = (): BatchInferenceItem | undefined => {
+        if (job.status !== "running") return undefined;
+        return (
+          itemsToResume.shift() ||
+          job.items.find((item) => item.status === "pending")
+        );
+      };
+      const worker = async () => {
+        for (
+          let item = takeNextItem();
+          item !== undefined;
+          item = takeNextItem()
+        ) {
+          await this.runItem(job, item);
+        }
+      };
+      await Promise.all(
+        Array.from({ length: job.concurrency }, () => worker())
+      );
+      if (job.status === "running") {
+        // Interrupted items are retried when the job is resumed
+        job.status = job.items.some((item) => item.status === "interrupted")
+          ? "paused"
+          : "completed";
+        await this.persist(job);
+      }
+    } finally {
+      this.runningJobs.delete(job.job_id);
+    }
+  }
+
+  private async runItem(
+    job: BatchInferenceJob,
+    item: BatchInferenceItem
+  ): Promise<void> {
+    const resuming = item.status === "interrupted";
+    item.status = "running";
+    item.error = "";
+    if (!item.started_at_utc_iso_string) {
+      item.started_at_utc_iso_string = new Date().toISOString();
+    }
+    await this.persist(job);
+
+    let lastState: InferenceRequestState | null = null;
+    const hooks: InferenceRequestHooks = {
+      batchJobID: job.job_id,
+      beforeSupernodeRequest: (supernodeURL) =>
+        this.acquireSupernodeSlot(
+          supernodeURL,
+          job.max_requests_per_supernode_per_minute
+        ),
+      onStateChange: (state) => {
+        lastState = state;
+        const changed =
+          item.inference_request_state_id !== (state.id ?? null) ||
+          item.inference_status !== state.status;
+        item.inference_request_state_id = state.id ?? null;
+        item.inference_request_id = state.inference_request_id;
+        item.inference_status = state.status;
+        item.supernode_url = state.supernode_url;
+        item.cost_in_credits =
+          state.usage_request_response
+            ?.proposed_cost_of_request_in_inference_credits ?? 0;
+        if (changed) {
+          void this.persist(job);
+        }
+      },
+    };
+    const callback = (value: string) => {
+      const { message } = JSON.parse(value);
+      if (message) {
+        browserLogger.info(
+          `[batch ${job.name} #${item.index + 1}] ${message}`
+        );
+      }
+    };
+
+    try {
+      let result: InferenceResult | null;
+      if (resuming && item.inference_request_state_id !== null) {
+        result = await endToEndFunctions.resumeInferenceRequestEndToEnd(
+          item.inference_request_state_id,
+          callback,
+          hooks
+        );
+      } else {
+        result = await endToEndFunctions.handleInferenceRequestEndToEnd(
+          item.params,
+          callback,
+          undefined,
+          hooks
+        );
+      }
+      if (result) {
+        item.status = "succeeded";
+        item.cost_in_credits =
+          result.usage_request_response.proposed_cost_of_request_in_inference_credits;
+        item.result_text = result.inference_result_decoded || "";
+      } else {
+        const state = lastState as InferenceRequestState | null;
+        const failed = !state || state.status === "failed";
+        item.status = failed ? "failed" : "interrupted";
+        item.error = state?.last_error || "Inference request did not complete";
+      }
+    } catch (error) {
+      item.status = "failed";
+      item.error = (error as Error).message;
+    }
+    item.finished_at_utc_iso_string = new Date().toISOString();
+    await this.persist(job);
+  }
+}
+
+export const batchInferenceQueue = BatchInferenceQueue.getInstance();
+
+export default BatchInferenceQueue;
@@ -0,0 +1,153 @@
+// src/app/lib/coinSelection.test.ts
+
+import { describe, expect, it } from "vitest";
+import {
+  buildCoinSelectionPreview,
+  estimateFee,
+  estimateTransactionSize,
+  selectCoins,
+} from "@/app/lib/coinSelection";
+import { InsufficientFundsError } from "@/app/lib/errors";
+import { UTXO } from "@/app/types";
+
+const FEE_RATE = 1000;
+
+const utxo = (patoshis: number, address = "PtAddressA", index = 0): UTXO => ({
+  address,
+  txid: `${address}-${index}`.padEnd(64, "0"),
+  outputIndex: index,
+  script: "",
+  patoshis,
+  height: 1,
+});
+
+const target = (amountInPatoshis: number, feeRateInPatoshisPerKb = FEE_RATE) => ({
+  amountInPatoshis,
+  outputCount: 1,
+  feeRateInPatoshisPerKb,
+});
+
+const inputTotal = (inputs: UTXO[]) =>
+  inputs.reduce((sum, input) => sum + input.patoshis, 0);
+
+describe("estimateFee", () => {
+  it("rounds up and never goes below the minimum fee", () => {
+    expect(estimateFee(estimateTransactionSize(1, 2), 1000)).toBe(1000);
+    expect(estimateFee(1001, 1500)).toBe(1502);
+  });
+});
+
+describe("selectCoins", () => {
+  it("balances inputs against the amount, fee and change", () => {
+    const utxos = [utxo(50000, "PtAddressA", 0), utxo(300000, "PtAddressA", 1)];
+    for (const strategy of ["largest_first", "branch_and_bound", "privacy"] as const) {
+      const selected = selectCoins(utxos, target(120000), strategy);
+      expect(inputTotal(selected.inputs)).toBe(
+        120000 + selected.feeInPatoshis + selected.changeInPatoshis
+      );
+      expect(selected.feeInPatoshis).toBeGreaterThanOrEqual(
+        estimateFee(selected.sizeInBytes, FEE_RATE)
+      );
+    }
+  });
+
+  it("spends the largest UTXOs first", () => {
+    const utxos = [
+      utxo(10000, "PtAddressA", 0),
+      utxo(500000, "PtAddressA", 1),
+      utxo(40000, "PtAddressA", 2),
+    ];
+    const selected = selectCoins(utxos, target(100000), "largest_first");
+    expect(selected.inputs.map((input) => input.patoshis)).toEqual([500000]);
+    expect(selected.changeInPatoshis).toBeGreaterThan(0);
+  });
+
+  it("finds a changeless set with branch-and-bound", () => {
+    const utxos = [
+      utxo(500000, "PtAddressA", 0),
+      utxo(70000, "PtAddressA", 1),
+      utxo(31000, "PtAddressA", 2),
+    ];
+    const selected = selectCoins(utxos, target(100000), "branch_and_bound");
+    expect(selected.changeInPatoshis).toBe(0);
+    expect(selected.inputs.map((input) => input.patoshis).sort()).toEqual([
+      31000, 70000,
+    ]);
+  });
+
+  it("only accepts branch-and-bound sets that cover the rounded minimum fee", () => {
+    // 100300 alone cannot pay the 1000 patoshi minimum fee, so the search
+    // must go on to the pair that settles without change
+    const utxos = [
+      utxo(100300, "PtAddressA", 0),
+      utxo(60000, "PtAddressA", 1),
+      utxo(41500, "PtAddressA", 2),
+    ];
+    const selected = selectCoins(utxos, target(100000), "branch_and_bound");
+    expect(selected.changeInPatoshis).toBe(0);
+    expect(selected.feeInPatoshis).toBe(1500);
+    expect(selected.inputs.map((input) => input.patoshis)).toEqual([60000, 41500]);
+  });
+
+  it("keeps each payment to one address with the privacy strategy when it can", () => {
+    const utxos = [
+      utxo(300000, "PtAddressA", 0),
+      utxo(60000, "PtAddressB", 0),
+      utxo(70000, "PtAddressB", 1),
+    ];
+    const selected = selectCoins(utxos, target(100000), "privacy");
+    expect(new Set(selected.inputs.map((input) => input.address))).toEqual(
+      new Set(["PtAddressB"])
+    );
+    expect(selected.inputs).toHaveLength(2);
+  });
+
+  it("spends exactly the manually picked UTXOs", () => {
+    const utxos = [utxo(300000, "PtAddressA", 0), utxo(200000, "PtAddressA", 1)];
+    const selected = selectCoins(utxos, target(100000), "manual", [
+      { txid: utxos[1].txid, outputIndex: 1 },
+    ]);
+    expect(selected.inputs).toEqual([utxos[1]]);
+    expect(() =>
+      selectCoins(utxos, target(100000), "manual", [
+        { txid: "f".repeat(64), outputIndex: 0 },
+      ])
+    ).toThrow("is not unspent");
+  });
+
+  it("throws InsufficientFundsError when the UTXOs cannot cover the fee", () => {
+    expect(() =>
+      selectCoins([utxo(100500)], target(100000), "largest_first")
+    ).toThrow(InsufficientFundsError);
+  });
+
+  it("leaves dust change to the fee", () => {
+    const amount = 100000;
+    const fee = estimateFee(estimateTransactionSize(1, 2), FEE_RATE);
+    const selected = selectCoins([utxo(amount + fee + 500)], target(amount), "largest_first");
+    expect(selected.changeInPatoshis).toBe(0);
+    expect(selected.feeInPatoshis).toBe(fee + 500);
+  });
+});
+
+describe("buildCoinSelectionPreview", () => {
+  it("reports amounts in PSL and drops the change address without change", () => {
+    const selected = selectCoins([utxo(300000)], target(100000), "largest_first");
+    const preview = buildCoinSelectionPreview(
+      "largest_first",
+      [{ address: "PtRecipient", amount: "1" }],
+      selected,
+      "PtChange",
+      FEE_RATE
+    );
+    expect(preview.input_total_in_psl).toBe(3);
+    expect(preview.output_total_in_psl).toBe(1);
+    expect(preview.change_address).toBe("PtChange");
+
+    const changeless = selectCoins([utxo(101000)], target(100000), "largest_first");
+    expect(
+      buildCoinSelectionPreview("largest_first", [], changeless, "PtChange", FEE_RATE)
+        .change_address
+    ).toBeNull();
+  });
+});
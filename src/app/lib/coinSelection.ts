@@ -0,0 +1,328 @@
+// src/app/lib/coinSelection.ts
+
+'use client'
+
+import { InsufficientFundsError } from "@/app/lib/errors";
+import {
+  CoinSelectionPreview,
+  CoinSelectionStrategy,
+  UTXO,
+  UTXOOutpoint,
+} from "@/app/types";
+
+export const PATOSHIS_PER_PSL = 100000;
+
+// Used when the opennode has too little data to estimate a fee rate
+export const DEFAULT_FEE_RATE_IN_PATOSHIS_PER_KB = 1000;
+
+// Sweeps elsewhere in the client leave 0.01 PSL for the fee, so estimates never go below it
+const MINIMUM_FEE_IN_PATOSHIS = 1000;
+
+// Change this small is left to the fee rather than creating an output not worth spending
+const DUST_THRESHOLD_IN_PATOSHIS = 1000;
+
+// Sizes of a transparent P2PKH transaction
+const TX_OVERHEAD_BYTES = 10;
+const INPUT_BYTES = 148;
+const OUTPUT_BYTES = 34;
+
+const BRANCH_AND_BOUND_MAX_TRIES = 100000;
+
+export interface CoinSelectionTarget {
+  amountInPatoshis: number;
+  outputCount: number;
+  feeRateInPatoshisPerKb: number;
+}
+
+interface SelectedCoins {
+  inputs: UTXO[];
+  feeInPatoshis: number;
+  changeInPatoshis: number;
+  sizeInBytes: number;
+}
+
+export function pslToPatoshis(amountInPSL: number | string): number {
+  return Math.round(Number(amountInPSL) * PATOSHIS_PER_PSL);
+}
+
+export function patoshisToPSL(amountInPatoshis: number): number {
+  return amountInPatoshis / PATOSHIS_PER_PSL;
+}
+
+export function getOutpointKey(outpoint: UTXOOutpoint): string {
+  return `${outpoint.txid}:${outpoint.outputIndex}`;
+}
+
+export function estimateTransactionSize(
+  inputCount: number,
+  outputCount: number
+): number {
+  return (
+    TX_OVERHEAD_BYTES + inputCount * INPUT_BYTES + outputCount * OUTPUT_BYTES
+  );
+}
+
+export function estimateFee(sizeInBytes: number, feeRateInPatoshisPerKb: number): number {
+  return Math.max(
+    MINIMUM_FEE_IN_PATOSHIS,
+    Math.ceil((sizeInBytes * feeRateInPatoshisPerKb) / 1000)
+  );
+}
+
+const sumPatoshis = (utxos: UTXO[]) =>
+  utxos.reduce((sum, utxo) => sum + utxo.patoshis, 0);
+
+// Works out the fee and change for a fixed set of inputs, dropping dust change into the fee
+function settle(inputs: UTXO[], target: CoinSelectionTarget): SelectedCoins | null {
+  const inputTotal = sumPatoshis(inputs);
+  const sizeWithChange = estimateTransactionSize(
+    inputs.length,
+    target.outputCount + 1
+  );
+  const feeWithChange = estimateFee(sizeWithChange, target.feeRateInPatoshisPerKb);
+  const changeInPatoshis = inputTotal - target.amountInPatoshis - feeWithChange;
+  if (changeInPatoshis >= DUST_THRESHOLD_IN_PATOSHIS) {
+    return {
+      inputs,
+      feeInPatoshis: feeWithChange,
+      changeInPatoshis,
+      sizeInBytes: sizeWithChange,
+    };
+  }
+
+  const sizeWithoutChange = estimateTransactionSize(
+    inputs.length,
+    target.outputCount
+  );
+  const minimumFee = estimateFee(sizeWithoutChange, target.feeRateInPatoshisPerKb);
+  const feeInPatoshis = inputTotal - target.amountInPatoshis;
+  if (feeInPatoshis < minimumFee) return null;
+  return {
+    inputs,
+    feeInPatoshis,
+    changeInPatoshis: 0,
+    sizeInBytes: sizeWithoutChange,
+  };
+}
+
+function selectLargestFirst(
+  utxos: UTXO[],
+  target: CoinSelectionTarget
+): SelectedCoins | null {
+  const sorted = [...utxos].sort((a, b) => b.patoshis - a.patoshis);
+  const inputs: UTXO[] = [];
+  for (const utxo of sorted) {
+    inputs.push(utxo);
+    const selected = settle(inputs, target);
+    if (selected) return selected;
+  }
+  return null;
+}
+
+/**
+ * Depth-first search for a set of inputs that pays the amount and fee with
+ * less left over than a change output would cost, so the transaction needs
+ * no change. The bounds for each input count come from estimateFee, as in
+ * settle, so every set the search accepts settles without change. Returns
+ * null when there is no such set within the try budget.
+ */
+function selectBranchAndBound(
+  utxos: UTXO[],
+  target: CoinSelectionTarget
+): SelectedCoins | null {
+  // The most one more input can add to the rounded fee; inputs worth no more
+  // than that cannot help
+  const marginalInputFee = Math.ceil(
+    (INPUT_BYTES * target.feeRateInPatoshisPerKb) / 1000
+  );
+  const candidates = utxos
+    .filter((utxo) => utxo.patoshis > marginalInputFee)
+    .sort((a, b) => b.patoshis - a.patoshis);
+
+  // Without change the inputs must cover the fee; any more than a change
+  // output's fee plus dust and settle would add change instead
+  const lowerBound = (inputCount: number) =>
+    target.amountInPatoshis +
+    estimateFee(
+      estimateTransactionSize(inputCount, target.outputCount),
+      target.feeRateInPatoshisPerKb
+    );
+  const upperBound = (inputCount: number) =>
+    target.amountInPatoshis +
+    estimateFee(
+      estimateTransactionSize(inputCount, target.outputCount + 1),
+      target.feeRateInPatoshisPerKb
+    ) +
+    DUST_THRESHOLD_IN_PATOSHIS;
+
+  const remainingAfter: number[] = new Array(candidates.length + 1).fill(0);
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    remainingAfter[i] = remainingAfter[i + 1] + candidates[i].patoshis;
+  }
+
+  let tries = 0;
+  let best: number[] | null = null;
+  let bestExcess = Infinity;
+  const chosen: number[] = [];
+
+  const search = (index: number, total: number) => {
+    if (++tries > BRANCH_AND_BOUND_MAX_TRIES) return;
+    // Each further input adds more than it costs, so a set over the upper
+    // bound stays over it
+    if (total >= upperBound(chosen.length)) return;
+    if (chosen.length > 0 && total >= lowerBound(chosen.length)) {
+      const excess = total - lowerBound(chosen.length);
+      if (excess < bestExcess) {
+        bestExcess = excess;
+        best = [...chosen];
+      }
+      return;
+    }
+    if (index >= candidates.length) return;
+    if (total + remainingAfter[index] < lowerBound(chosen.length)) return;
+
+    chosen.push(index);
+    search(index + 1, total + candidates[index].patoshis);
+    chosen.pop();
+    if (bestExcess === 0) return;
+    search(index + 1, total);
+  };
+  search(0, 0);
+
+  if (!best) return null;
+  const inputs = (best as number[]).map((index) => candidates[index]);
+  return settle(inputs, target);
+}
+
+/**
+ * Avoids linking addresses on chain: pays from a single address when one can
+ * cover the payment, otherwise merges as few addresses as possible. Every
+ * UTXO of a chosen address is spent so no linked leftovers remain there.
+ */
+function selectPrivacyPreserving(
+  utxos: UTXO[],
+  target: CoinSelectionTarget
+): SelectedCoins | null {
+  const byAddress = new Map<string, UTXO[]>();
+  for (const utxo of utxos) {
+    byAddress.set(utxo.address, [...(byAddress.get(utxo.address) || []), utxo]);
+  }
+  const groups = Array.from(byAddress.values()).sort(
+    (a, b) => sumPatoshis(a) - sumPatoshis(b)
+  );
+
+  for (const group of groups) {
+    const selected = settle(group, target);
+    if (selected) return selected;
+  }
+
+  const inputs: UTXO[] = [];
+  for (const group of [...groups].reverse()) {
+    inputs.push(...group);
+    const selected = settle(inputs, target);
+    if (selected) return selected;
+  }
+  return null;
+}
+
+function selectManual(
+  utxos: UTXO[],
+  target: CoinSelectionTarget,
+  selectedUtxos: UTXOOutpoint[]
+): SelectedCoins | null {
+  const available = new Map(utxos.map((utxo) => [getOutpointKey(utxo), utxo]));
+  const inputs = selectedUtxos.map((outpoint) => {
+    const utxo = available.get(getOutpointKey(outpoint));
+    if (!utxo) {
+      throw new Error(
+        `UTXO ${getOutpointKey(outpoint)} is not unspent in the funding addresses`
+      );
+    }
+    return utxo;
+  });
+  return settle(inputs, target);
+}
+
+/**
+ * Chooses the inputs for a payment from the available UTXOs and estimates the
+ * fee and change. Branch-and-bound falls back to largest-first when no
+ * changeless set exists. Throws InsufficientFundsError when the UTXOs (or the
+ * manually picked ones) cannot cover the amount and fee.
+ */
+export function selectCoins(
+  utxos: UTXO[],
+  target: CoinSelectionTarget,
+  strategy: CoinSelectionStrategy,
+  selectedUtxos: UTXOOutpoint[] = []
+): SelectedCoins {
+  let selected: SelectedCoins | null;
+  switch (strategy) {
+    case "manual":
+      if (!selectedUtxos.length) {
+        throw new Error("Manual coin selection requires at least one UTXO");
+      }
+      selected = selectManual(utxos, target, selectedUtxos);
+      break;
+    case "branch_and_bound":
+      selected =
+        selectBranchAndBound(utxos, target) || selectLargestFirst(utxos, target);
+      break;
+    case "privacy":
+      selected = selectPrivacyPreserving(utxos, target);
+      break;
+    case "largest_first":
+      selected = selectLargestFirst(utxos, target);
+      break;
+    default:
+      throw new Error(`Unknown coin selection strategy: ${strategy}`);
+  }
+
+  if (!selected) {
+    const candidates =
+      strategy === "manual"
+        ? utxos.filter((utxo) =>
+            selectedUtxos.some(
+              (outpoint) => getOutpointKey(outpoint) === getOutpointKey(utxo)
+            )
+          )
+        : utxos;
+    const needed =
+      target.amountInPatoshis +
+      estimateFee(
+        estimateTransactionSize(candidates.length, target.outputCount),
+        target.feeRateInPatoshisPerKb
+      );
+    throw new InsufficientFundsError(
+      patoshisToPSL(sumPatoshis(candidates)),
+      patoshisToPSL(needed)
+    );
+  }
+  return selected;
+}
+
+export function buildCoinSelectionPreview(
+  strategy: CoinSelectionStrategy,
+  recipients: { address: string; amount: string }[],
+  selected: SelectedCoins,
+  changeAddress: string | null,
+  feeRateInPatoshisPerKb: number
+): CoinSelectionPreview {
+  const inputTotal = sumPatoshis(selected.inputs);
+  return {
+    strategy,
+    inputs: selected.inputs,
+    funding_addresses: Array.from(
+      new Set(selected.inputs.map((utxo) => utxo.address))
+    ),
+    recipients,
+    input_total_in_psl: patoshisToPSL(inputTotal),
+    output_total_in_psl: patoshisToPSL(
+      inputTotal - selected.feeInPatoshis - selected.changeInPatoshis
+    ),
+    fee_in_psl: patoshisToPSL(selected.feeInPatoshis),
+    change_in_psl: patoshisToPSL(selected.changeInPatoshis),
+    change_address: selected.changeInPatoshis > 0 ? changeAddress : null,
+    estimated_size_in_bytes: selected.sizeInBytes,
+    fee_rate_in_psl_per_kb: patoshisToPSL(feeRateInPatoshisPerKb),
+  };
+}
@@ -0,0 +1,231 @@
+// src/app/lib/creditPackLedger.ts
+
+'use client'
+
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { extractAddressHistoryTransactions } from "@/app/lib/transactionHistory";
+import browserLogger from "@/app/lib/logger";
+import {
+  CreditPackLedger,
+  CreditPackLedgerEntry,
+  CreditPackLedgerTotal,
+  InferenceRequestState,
+} from "@/app/types";
+
+function isPaid(entry: CreditPackLedgerEntry): boolean {
+  return entry.tracking_transaction_txid !== "";
+}
+
+function computeTotals(
+  entries: CreditPackLedgerEntry[],
+  getKey: (entry: CreditPackLedgerEntry) => string
+): CreditPackLedgerTotal[] {
+  const totals = new Map<string, CreditPackLedgerTotal>();
+  for (const entry of entries) {
+    const key = getKey(entry);
+    const total = totals.get(key) || {
+      key,
+      request_count: 0,
+      total_cost_in_credits: 0,
+    };
+    total.request_count++;
+    total.total_cost_in_credits +=
+      entry.proposed_cost_of_request_in_inference_credits;
+    totals.set(key, total);
+  }
+  return Array.from(totals.values());
+}
+
+/**
+ * Singleton ledger of credits spent from credit packs. An entry is written
+ * for every inference request once a supernode has quoted its cost, and is
+ * reconciled against the tracking address history on the chain, since the
+ * tracking transaction is what authorizes the supernode to deduct credits.
+ */
+export class CreditPackLedgerStore {
+  private static instance: CreditPackLedgerStore;
+  private db: BrowserDatabase;
+  private backfillPromise: Promise<void> | null = null;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): CreditPackLedgerStore {
+    if (!CreditPackLedgerStore.instance) {
+      CreditPackLedgerStore.instance = new CreditPackLedgerStore();
+    }
+    return CreditPackLedgerStore.instance;
+  }
+
+  /**
+   * Creates or updates the ledger entry for an inference request. Requests
+   * that were never quoted cost nothing and are not recorded.
+   */
+  public async recordInferenceRequestState(
+    state: InferenceRequestState
+  ): Promise<void> {
+    const usageResponse = state.usage_request_response;
+    if (!usageResponse) return;
+    const existing = await this.db.getData<CreditPackLedgerEntry>(
+      "CreditPackLedgerEntry",
+      state.inference_request_id
+    );
+    const entry: CreditPackLedgerEntry = {
+      inference_request_id: state.inference_request_id,
+      credit_pack_ticket_pastel_txid: state.params.creditPackTicketPastelTxid,
+      requesting_pastelid: state.requesting_pastelid,
+      model_name: state.params.requestedModelCanonicalString,
+      inference_type: state.params.modelInferenceTypeString,
+      supernode_url: state.supernode_url,
+      proposed_cost_of_request_in_inference_credits:
+        usageResponse.proposed_cost_of_request_in_inference_credits,
+      credit_usage_tracking_psl_address:
+        usageResponse.credit_usage_tracking_psl_address,
+      tracking_amount_in_patoshis:
+        usageResponse.request_confirmation_message_amount_in_patoshis,
+      tracking_transaction_txid: state.tracking_transaction_txid,
+      status: state.status,
+      reconciliation_status: existing?.reconciliation_status || "unreconciled",
+      created_at_utc_iso_string: state.created_at_utc_iso_string,
+      updated_at_utc_iso_string: new Date().toISOString(),
+    };
+    if (
+      existing &&
+      existing.tracking_transaction_txid !== entry.tracking_transaction_txid
+    ) {
+      entry.reconciliation_status = "unreconciled";
+    }
+    await this.db.saveData("CreditPackLedgerEntry", entry);
+  }
+
+  // Inference requests made before the ledger existed are only in the
+  // InferenceRequestState store, so they are copied over once per session
+  private async backfill(): Promise<void> {
+    if (!this.backfillPromise) {
+      this.backfillPromise = (async () => {
+        await initializeStorage();
+        const states = await this.db.getAllData<InferenceRequestState>(
+          "InferenceRequestState"
+        );
+        const entries = await this.db.getAllData<CreditPackLedgerEntry>(
+          "CreditPackLedgerEntry"
+        );
+        const recorded = new Set(
+          entries.map((entry) => entry.inference_request_id)
+        );
+        for (const state of states) {
+          if (!recorded.has(state.inference_request_id)) {
+            await this.recordInferenceRequestState(state);
+          }
+        }
+      })().catch((error) => {
+        this.backfillPromise = null;
+        throw error;
+      });
+    }
+    return this.backfillPromise;
+  }
+
+  public async getEntries(
+    creditPackTicketPastelTxid: string
+  ): Promise<CreditPackLedgerEntry[]> {
+    await this.backfill();
+    const entries = await this.db.findAllByIndex<CreditPackLedgerEntry>(
+      "CreditPackLedgerEntry",
+      "credit_pack_ticket_pastel_txid",
+      creditPackTicketPastelTxid
+    );
+    return entries.sort((a, b) =>
+      b.created_at_utc_iso_string.localeCompare(a.created_at_utc_iso_string)
+    );
+  }
+
+  public async getAllEntries(): Promise<CreditPackLedgerEntry[]> {
+    await this.backfill();
+    return this.db.getAllData<CreditPackLedgerEntry>("CreditPackLedgerEntry");
+  }
+
+  /**
+   * Lists the credit packs that have at least one ledger entry.
+   */
+  public async getCreditPackTicketTxids(): Promise<string[]> {
+    const entries = await this.getAllEntries();
+    return Array.from(
+      new Set(entries.map((entry) => entry.credit_pack_ticket_pastel_txid))
+    );
+  }
+
+  /**
+   * Reconciles the ledger of a credit pack against the history of its
+   * tracking address and returns the entries with their totals. Only
+   * requests whose tracking transaction was sent count towards the totals.
+   */
+  public async reconcile(
+    creditPackTicketPastelTxid: string,
+    trackingAddress: string
+  ): Promise<CreditPackLedger> {
+    const entries = await this.getEntries(creditPackTicketPastelTxid);
+    const rpc = BrowserRPCReplacement.getInstance();
+    const history = extractAddressHistoryTransactions(
+      await rpc.getAddressHistory(trackingAddress)
+    );
+    const onChainTxids = new Set(history.map((tx) => tx.txid));
+    const recordedTxids = new Set(
+      entries.filter(isPaid).map((entry) => entry.tracking_transaction_txid)
+    );
+
+    for (const entry of entries) {
+      const reconciliationStatus = !isPaid(entry)
+        ? "not_paid"
+        : onChainTxids.has(entry.tracking_transaction_txid)
+        ? "matched"
+        : "missing_on_chain";
+      if (entry.reconciliation_status !== reconciliationStatus) {
+        entry.reconciliation_status = reconciliationStatus;
+        await this.db.saveData("CreditPackLedgerEntry", entry);
+      }
+    }
+    const missingCount = entries.filter(
+      (entry) => entry.reconciliation_status === "missing_on_chain"
+    ).length;
+    if (missingCount > 0) {
+      browserLogger.warn(
+        `${missingCount} tracking transactions of credit pack ${creditPackTicketPastelTxid} were not found in the history of ${trackingAddress}`
+      );
+    }
+
+    // Incoming transactions fund the tracking address; only spends from it
+    // can be tracking transactions. Without amounts every txid is considered.
+    const unrecordedTrackingTxids = history
+      .filter(
+        (tx) =>
+          (tx.satoshis === null || tx.satoshis < 0) &&
+          !recordedTxids.has(tx.txid)
+      )
+      .map((tx) => tx.txid);
+
+    const paidEntries = entries.filter(isPaid);
+    return {
+      credit_pack_ticket_pastel_txid: creditPackTicketPastelTxid,
+      credit_usage_tracking_psl_address: trackingAddress,
+      entries,
+      totals_by_model: computeTotals(paidEntries, (entry) => entry.model_name),
+      totals_by_day: computeTotals(paidEntries, (entry) =>
+        entry.created_at_utc_iso_string.slice(0, 10)
+      ).sort((a, b) => b.key.localeCompare(a.key)),
+      total_cost_in_credits: paidEntries.reduce(
+        (sum, entry) => sum + entry.proposed_cost_of_request_in_inference_credits,
+        0
+      ),
+      unrecorded_tracking_txids: Array.from(new Set(unrecordedTrackingTxids)),
+      reconciled_at_utc_iso_string: new Date().toISOString(),
+    };
+  }
+}
+
+export const creditPackLedger = CreditPackLedgerStore.getInstance();
+
+export default CreditPackLedgerStore;
@@ -11,6 +11,18 @@ import * as utils from "./utils";
 import * as schemas from "./validationSchemas";
 import browserLogger from "@/app/lib/logger";
 import pastelGlobals from "@/app/lib/globals";
+import {
+  SupernodeMessageVerificationError,
+  SpendingPolicyViolationError,
+  MissingEncryptionKeyError,
+} from "@/app/lib/errors";
+import { creditPackLedger } from "@/app/lib/creditPackLedger";
+import { spendingPolicy } from "@/app/lib/spendingPolicy";
+import { offlineSigning } from "@/app/lib/offlineSigning";
+import { assertAddressOnCurrentNetwork } from "@/app/lib/networkConfig";
+import { MessageHeader, messageEncryption } from "@/app/lib/messageEncryption";
+import { messageInbox } from "@/app/lib/messageInbox";
+import { messageAttachments } from "@/app/lib/messageAttachments";
 
 import {
   CreditPack,
@@ -21,11 +33,22 @@ import {
   SupernodeURL,
   CreditPackPurchaseRequest,
   CreditPackPurchaseRequestConfirmation,
+  CreditPackPurchaseRequestConfirmationResponse,
+  CreditPackPurchaseRequestRecord,
+  CreditPackPurchaseProgress,
   CreditPackPurchaseRequestResponse,
   SupernodeInfo,
   InferenceAPIUsageRequest,
+  InferenceAPIOutputResult,
+  InferenceAuditorResponse,
   InferenceConfirmation,
+  InferenceRequestState,
+  InferenceRequestHooks,
   UserMessage,
+  ArchivedUserMessage,
+  MessageOutboxEntry,
+  AttachmentInput,
+  AttachmentManifest,
   CreditPackStorageRetryRequest,
   CreditPackStorageRetryRequestResponse,
   PastelIDType,
@@ -40,7 +63,78 @@ function getIsoStringWithMicroseconds(): string {
   return now.toISOString().replace("Z", "+00:00").replace(/\s/g, "");
 }
 
-export async function checkForNewIncomingMessages(): Promise<UserMessage[]> {
+// Messages go to the supernodes closest to the recipient, which is where the
+// recipient looks for them. Both sides move on to the next closest ones in
+// place of those that cannot be reached.
+const SUPERNODES_PER_MESSAGE = 3;
+const ALTERNATE_SUPERNODES_PER_MESSAGE = 3;
+
+function getMessagingClient(): PastelInferenceClient {
+  const pastelID = pastelGlobals.getPastelId();
+  const passphrase = pastelGlobals.getPassphrase();
+
+  if (!pastelID || !passphrase) {
+    throw new Error("PastelID or passphrase is not set");
+  }
+  return new PastelInferenceClient({ pastelID, passphrase });
+}
+
+async function getMessageSupernodes(pastelID: string): Promise<SupernodeURL[]> {
+  const { validMasternodeListFullDF } = await rpc.checkSupernodeList();
+  const supernodes = await utils.getNClosestSupernodesToPastelIDURLs(
+    SUPERNODES_PER_MESSAGE + ALTERNATE_SUPERNODES_PER_MESSAGE,
+    pastelID,
+    validMasternodeListFullDF
+  );
+  browserLogger.info(
+    `Closest Supernodes to pastelid ${pastelID}: ${supernodes
+      .map((sn) => `PastelID: ${sn.pastelID}, URL: ${sn.url}`)
+      .join(", ")}`
+  );
+  return supernodes;
+}
+
+/**
+ * Calls supernodes in order of closeness until the wanted number of them
+ * succeed, taking the next one in place of each that fails.
+ */
+async function callClosestSupernodes<T>(
+  supernodes: SupernodeURL[],
+  wanted: number,
+  call: (url: string) => Promise<T>
+): Promise<{ results: { url: string; result: T }[]; errors: string[] }> {
+  const results: { url: string; result: T }[] = [];
+  const errors: string[] = [];
+  let next = 0;
+  while (results.length < wanted && next < supernodes.length) {
+    const batch = supernodes.slice(next, next + wanted - results.length);
+    next += batch.length;
+    const outcomes = await Promise.all(
+      batch.map(async ({ url }) => {
+        try {
+          return { url, result: await call(url) };
+        } catch (error) {
+          const message = `${url}: ${(error as Error).message}`;
+          browserLogger.warn(`Supernode call failed, ${message}`);
+          errors.push(message);
+          return null;
+        }
+      })
+    );
+    outcomes.forEach((outcome) => {
+      if (outcome) results.push(outcome);
+    });
+  }
+  return { results, errors };
+}
+
+/**
+ * Fetches the messages of our PastelID and archives the new ones.
+ * @returns The archived entries of every message the supernodes returned.
+ */
+export async function checkForNewIncomingMessages(): Promise<
+  ArchivedUserMessage[]
+> {
   try {
     const pastelID = pastelGlobals.getPastelId();
     const passphrase = pastelGlobals.getPassphrase();
@@ -51,35 +145,17 @@ export async function checkForNewIncomingMessages(): Promise<UserMessage[]> {
     }
 
     const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
-    const { validMasternodeListFullDF } = await rpc.checkSupernodeList();
-
     browserLogger.info(`My local pastelid: ${inferenceClient.getPastelID()}`);
 
-    const closestSupernodesToLocal =
-      await utils.getNClosestSupernodesToPastelIDURLs(
-        3,
-        inferenceClient.getPastelID(),
-        validMasternodeListFullDF
-      );
-    browserLogger.info(
-      `Closest Supernodes to local pastelid: ${closestSupernodesToLocal
-        .map((sn) => `PastelID: ${sn.pastelID}, URL: ${sn.url}`)
-        .join(", ")}`
-    );
-
-    const messageRetrievalTasks = closestSupernodesToLocal.map(({ url }) =>
-      inferenceClient.getUserMessages(url).catch((error) => {
-        browserLogger.warn(
-          `Failed to retrieve messages from supernode ${url}: ${error.message}`
-        );
-        return [];
-      })
+    const { results } = await callClosestSupernodes(
+      await getMessageSupernodes(pastelID),
+      SUPERNODES_PER_MESSAGE,
+      (url) => inferenceClient.getUserMessages(url)
     );
-    const messageLists = await Promise.all(messageRetrievalTasks);
 
     const uniqueMessages: UserMessage[] = [];
     const messageIDs = new Set<string>();
-    for (const messageList of messageLists) {
+    for (const { result: messageList } of results) {
       for (const message of messageList) {
         if (message.id && !messageIDs.has(message.id)) {
           uniqueMessages.push(message);
@@ -88,7 +164,7 @@ export async function checkForNewIncomingMessages(): Promise<UserMessage[]> {
       }
     }
 
-    return uniqueMessages;
+    return await messageInbox.archiveMessages(uniqueMessages, pastelID);
   } catch (error) {
     browserLogger.error(
       `Error in checkForNewIncomingMessages: ${(error as Error).message}`
@@ -97,69 +173,155 @@ export async function checkForNewIncomingMessages(): Promise<UserMessage[]> {
   }
 }
 
-export async function sendMessageAndCheckForNewIncomingMessages(
-  toPastelID: string,
-  messageBody: string
-): Promise<{ sent_messages: UserMessage[]; received_messages: UserMessage[] }> {
+/**
+ * Makes one delivery attempt of an outbox message, skipping the supernodes
+ * that already took it.
+ */
+async function deliverOutboxEntry(
+  inferenceClient: PastelInferenceClient,
+  entry: MessageOutboxEntry
+): Promise<{ entry: MessageOutboxEntry; sent_messages: UserMessage[] }> {
   try {
-    const pastelID = pastelGlobals.getPastelId();
-    const passphrase = pastelGlobals.getPassphrase();
+    const supernodes = (
+      await getMessageSupernodes(entry.user_message.to_pastelid)
+    ).filter(({ url }) => !entry.delivered_supernode_urls.includes(url));
+    const { results, errors } = await callClosestSupernodes(
+      supernodes,
+      Math.max(1, SUPERNODES_PER_MESSAGE - entry.delivered_supernode_urls.length),
+      (url) => inferenceClient.sendUserMessage(url, entry.user_message)
+    );
+    browserLogger.info(
+      `Sent user messages: ${utils.safeStringify(results.map(({ result }) => result))}`
+    );
+    return {
+      entry: await messageInbox.recordDeliveryAttempt(
+        entry,
+        results.map(({ url }) => url),
+        results.length > 0
+          ? null
+          : errors.join("; ") || "No supernode close to the recipient is reachable"
+      ),
+      sent_messages: results.map(({ result }) => result),
+    };
+  } catch (error) {
+    return {
+      entry: await messageInbox.recordDeliveryAttempt(
+        entry,
+        [],
+        (error as Error).message
+      ),
+      sent_messages: [],
+    };
+  }
+}
 
-    if (!pastelID || !passphrase) {
-      throw new Error("PastelID or passphrase is not set");
-    }
+/**
+ * Signs a message body built for a fresh message header with our PastelID,
+ * archives it and puts it in the outbox, then makes the first delivery
+ * attempt. Messages no supernode took are retried later.
+ */
+async function deliverUserMessage(
+  toPastelID: string,
+  buildMessageBody: (header: MessageHeader) => Promise<string>
+): Promise<{ entry: MessageOutboxEntry; sent_messages: UserMessage[] }> {
+  const inferenceClient = getMessagingClient();
+  const pastelID = inferenceClient.getPastelID();
 
-    const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
-    const { validMasternodeListFullDF } = await rpc.checkSupernodeList();
+  browserLogger.info("Sending user message...");
+  browserLogger.info(`Recipient pastelid: ${toPastelID}`);
 
-    browserLogger.info("Sending user message...");
-    browserLogger.info(`Recipient pastelid: ${toPastelID}`);
+  const header: MessageHeader = {
+    id: uuidv4(),
+    from_pastelid: pastelID,
+    to_pastelid: toPastelID,
+    timestamp: new Date().toISOString(),
+  };
+  const messageBody = await buildMessageBody(header);
+  const userMessage: UserMessage = {
+    ...header,
+    message_body: messageBody,
+    message_signature: await rpc.signMessageWithPastelID(
+      pastelID,
+      messageBody,
+      PastelIDType.PastelID
+    ),
+  };
 
-    const closestSupernodesToRecipient =
-      await utils.getNClosestSupernodesToPastelIDURLs(
-        3,
-        toPastelID,
-        validMasternodeListFullDF
-      );
-    browserLogger.info(
-      `Closest Supernodes to recipient pastelid: ${closestSupernodesToRecipient.map(
-        (sn) => sn.pastelID
-      )}`
-    );
+  const { error } = schemas.userMessageSchema.safeParse(userMessage);
+  if (error) {
+    throw new Error(`Invalid user message: ${error.message}`);
+  }
 
-    const userMessage: UserMessage = {
-      from_pastelid: pastelID,
-      to_pastelid: toPastelID,
-      message_body: utils.safeStringify(messageBody),
-      message_signature: await rpc.signMessageWithPastelID(
-        pastelID,
-        messageBody,
-        PastelIDType.PastelID
-      ),
-      timestamp: new Date().toISOString(),
-      id: uuidv4(),
-    };
+  const entry = await messageInbox.enqueue(userMessage);
+  await messageInbox.archiveMessages([userMessage], pastelID);
+  return deliverOutboxEntry(inferenceClient, entry);
+}
 
-    const { error } = schemas.userMessageSchema.safeParse(userMessage);
-    if (error) {
-      throw new Error(`Invalid user message: ${error.message}`);
-    }
+/**
+ * Retries the outbox messages of our PastelID that are due.
+ */
+export async function retryMessageOutbox(): Promise<MessageOutboxEntry[]> {
+  const inferenceClient = getMessagingClient();
+  const updated: MessageOutboxEntry[] = [];
+  for (const entry of await messageInbox.getDueOutboxEntries(
+    inferenceClient.getPastelID()
+  )) {
+    updated.push((await deliverOutboxEntry(inferenceClient, entry)).entry);
+  }
+  return updated;
+}
 
-    const sendTasks = closestSupernodesToRecipient.map(({ url }) =>
-      inferenceClient.sendUserMessage(url, userMessage)
+/**
+ * Retries one outbox message right away, even if it had failed for good.
+ */
+export async function retryOutboxMessageEndToEnd(
+  id: string
+): Promise<MessageOutboxEntry> {
+  const inferenceClient = getMessagingClient();
+  const entry = await messageInbox.retryOutboxEntry(id);
+  if (entry.user_message.from_pastelid !== inferenceClient.getPastelID()) {
+    throw new Error(
+      `Message ${id} was sent from PastelID ${entry.user_message.from_pastelid}; switch to it to retry`
     );
+  }
+  return (await deliverOutboxEntry(inferenceClient, entry)).entry;
+}
 
-    const sendResults = await Promise.all(sendTasks);
+/**
+ * Delivers what is due in the outbox, then fetches and archives new
+ * messages.
+ */
+export async function syncMessagesEndToEnd(): Promise<ArchivedUserMessage[]> {
+  try {
+    await retryMessageOutbox();
+  } catch (error) {
+    browserLogger.warn(
+      `Retrying the message outbox failed: ${(error as Error).message}`
+    );
+  }
+  return checkForNewIncomingMessages();
+}
 
-    browserLogger.info(
-      `Sent user messages: ${utils.safeStringify(sendResults)}`
+export async function sendMessageAndCheckForNewIncomingMessages(
+  toPastelID: string,
+  messageBody: string
+): Promise<{
+  sent_messages: UserMessage[];
+  received_messages: ArchivedUserMessage[];
+  outbox_entry: MessageOutboxEntry;
+}> {
+  try {
+    const { entry, sent_messages } = await deliverUserMessage(
+      toPastelID,
+      (header) => messageEncryption.sealMessage(header, messageBody)
     );
 
     const receivedMessages = await checkForNewIncomingMessages();
 
     return {
-      sent_messages: sendResults,
+      sent_messages,
       received_messages: receivedMessages,
+      outbox_entry: entry,
     };
   } catch (error) {
     browserLogger.error(
@@ -171,6 +333,179 @@ export async function sendMessageAndCheckForNewIncomingMessages(
   }
 }
 
+/**
+ * Sends our signed encryption key statement to a PastelID, so it can send us
+ * encrypted messages, optionally asking for its statement in return.
+ */
+export async function shareEncryptionKeyEndToEnd(
+  toPastelID: string,
+  requestReply: boolean
+): Promise<MessageOutboxEntry> {
+  try {
+    const { entry } = await deliverUserMessage(toPastelID, (header) =>
+      messageEncryption.createKeyStatementMessage(header, requestReply)
+    );
+    return entry;
+  } catch (error) {
+    browserLogger.error(
+      `Error in shareEncryptionKeyEndToEnd: ${(error as Error).message}`
+    );
+    throw error;
+  }
+}
+
+/**
+ * Sends a file as a signed attachment: its manifest, then each chunk, every
+ * one an encrypted message of its own. Chunks that no supernode took stay in
+ * the outbox like any other message.
+ */
+export async function sendAttachmentEndToEnd(
+  toPastelID: string,
+  input: AttachmentInput
+): Promise<{
+  manifest: AttachmentManifest;
+  outbox_entries: MessageOutboxEntry[];
+}> {
+  try {
+    const pastelID = getMessagingClient().getPastelID();
+    // Checked before anything is signed, as the first part would fail anyway
+    if (!(await messageEncryption.getKnownKey(toPastelID))) {
+      throw new MissingEncryptionKeyError(toPastelID);
+    }
+    const { manifest, parts } = await messageAttachments.prepareAttachment(
+      pastelID,
+      toPastelID,
+      input
+    );
+    const outboxEntries: MessageOutboxEntry[] = [];
+    for (const part of parts) {
+      const { entry } = await deliverUserMessage(toPastelID, (header) =>
+        messageEncryption.sealMessage(header, part)
+      );
+      outboxEntries.push(entry);
+    }
+    browserLogger.info(
+      `Sent attachment ${manifest.attachment_id} (${manifest.file_name}) in ${parts.length} messages`
+    );
+    return { manifest, outbox_entries: outboxEntries };
+  } catch (error) {
+    browserLogger.error(
+      `Error in sendAttachmentEndToEnd: ${(error as Error).message}`
+    );
+    throw error;
+  }
+}
+
+// Credit pack purchases being driven in this tab, keyed by request hash
+const activeCreditPackPurchases = new Set<string>();
+// How long a purchase waits for its tracking address to be funded
+const MAX_TRACKING_ADDRESS_FUNDING_CHECKS = 60;
+const TRACKING_ADDRESS_FUNDING_CHECK_INTERVAL_MS = 5000;
+
+async function saveCreditPackPurchaseProgress(
+  creditPackRequest: CreditPackPurchaseRequest,
+  progress: CreditPackPurchaseProgress,
+  changes: Partial<CreditPackPurchaseProgress>
+): Promise<void> {
+  Object.assign(progress, changes, {
+    purchase_status_updated_at_utc_iso_string: new Date().toISOString(),
+  });
+  await db.saveData("CreditPackPurchaseRequest", {
+    ...creditPackRequest,
+    ...progress,
+  });
+}
+
+/**
+ * Waits for the tracking address of a credit pack purchase to hold funds.
+ * @returns Whether it was funded before the checks ran out.
+ */
+async function waitForTrackingAddressFunding(
+  creditUsageTrackingPSLAddress: string
+): Promise<boolean> {
+  for (
+    let attempt = 1;
+    attempt <= MAX_TRACKING_ADDRESS_FUNDING_CHECKS;
+    attempt++
+  ) {
+    try {
+      const utxos = await rpc.getAddressUtxos(creditUsageTrackingPSLAddress);
+      if (utxos?.length) {
+        return true;
+      }
+    } catch (error) {
+      browserLogger.warn(
+        `Unable to check the funding of ${creditUsageTrackingPSLAddress}: ${
+          (error as Error).message
+        }`
+      );
+    }
+    if (attempt < MAX_TRACKING_ADDRESS_FUNDING_CHECKS) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, TRACKING_ADDRESS_FUNDING_CHECK_INTERVAL_MS)
+      );
+    }
+  }
+  return false;
+}
+
+/**
+ * Burns the agreed price of a credit pack. The signed burn transaction is
+ * saved before it is broadcast, so recovery can broadcast that same
+ * transaction again instead of paying twice.
+ * @param preliminaryTotalCostInPSL - The quote already approved, or null to ask for approval again.
+ */
+async function sendCreditPackBurn(
+  creditPackRequest: CreditPackPurchaseRequest,
+  progress: CreditPackPurchaseProgress,
+  signedCreditPackTicket: CreditPackPurchaseRequestResponse,
+  preliminaryTotalCostInPSL: number | null,
+  callback: (value: string) => void
+): Promise<void> {
+  const burnAmountInPSL =
+    Math.round(
+      signedCreditPackTicket.proposed_total_cost_of_credit_pack_in_psl * 100000
+    ) / 100000;
+  await spendingPolicy.authorizeCreditPackPurchase({
+    reference_id:
+      creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields,
+    total_cost_in_psl: burnAmountInPSL,
+    price_per_credit_in_psl:
+      burnAmountInPSL /
+      creditPackRequest.requested_initial_credits_in_credit_pack,
+    requireApproval:
+      preliminaryTotalCostInPSL === null ||
+      burnAmountInPSL > preliminaryTotalCostInPSL,
+  });
+
+  await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+    purchase_status: "burn_pending",
+    burn_amount_in_psl: burnAmountInPSL,
+  });
+  const burnTransactionResponse = await rpc.sendToAddress(
+    progress.burn_address,
+    burnAmountInPSL.toString(),
+    creditPackRequest.credit_usage_tracking_psl_address,
+    {},
+    async (preview) => {
+      await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+        txid_of_credit_purchase_burn_transaction: preview.txid,
+        burn_transaction_hex: preview.hex,
+      });
+    }
+  );
+
+  if (!burnTransactionResponse) {
+    callback(JSON.stringify({ message: `Error sending PSL to burn address` }));
+    throw new Error(`Error sending PSL to burn address`);
+  }
+
+  await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+    purchase_status: "burn_sent",
+    txid_of_credit_purchase_burn_transaction: burnTransactionResponse.txID,
+  });
+}
+
 export async function handleCreditPackTicketEndToEnd(
   numberOfCredits: number,
   creditUsageTrackingPSLAddress: string,
@@ -181,6 +516,10 @@ export async function handleCreditPackTicketEndToEnd(
   optionalPastelID?: string,
   optionalPassphrase?: string
 ): Promise<CreditPackCreationResult> {
+  assertAddressOnCurrentNetwork(
+    creditUsageTrackingPSLAddress,
+    "buy a credit pack tracked by this address"
+  );
   let pastelID: string, passphrase: string;
 
   if (optionalPastelID && optionalPassphrase) {
@@ -191,12 +530,14 @@ export async function handleCreditPackTicketEndToEnd(
     passphrase = pastelGlobals.getPassphrase() || "";
   }
 
-  if (!pastelID || !passphrase) {
+  // An offline signer holds the PastelID key, so no passphrase is needed here
+  if (!pastelID || (!passphrase && !offlineSigning.canRequestSignatures())) {
     callback(JSON.stringify({ message: "PastelID or passphrase is not set" }));
     throw new Error("PastelID or passphrase is not set");
   }
 
   const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
+  let creditPackRequestHash = "";
 
   try {
     const { validMasternodeListFullDF } = await rpc.checkSupernodeList();
@@ -218,12 +559,36 @@ export async function handleCreditPackTicketEndToEnd(
     creditPackRequest.id = uuidv4();
     creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields =
       await utils.computeSHA3256HashOfSQLModelResponseFields(creditPackRequest);
+    const estimatedPricePerCreditInPSL =
+      await utils.estimatedMarketPriceOfInferenceCreditsInPSLTerms();
+    await spendingPolicy.authorizeCreditPackPurchase({
+      reference_id:
+        creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields,
+      total_cost_in_psl: estimatedPricePerCreditInPSL * numberOfCredits,
+      price_per_credit_in_psl: estimatedPricePerCreditInPSL,
+      requireApproval: false,
+    });
     creditPackRequest.requesting_end_user_pastelid_signature_on_request_hash =
       await rpc.signMessageWithPastelID(
         pastelID,
         creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields,
         PastelIDType.PastelID
       );
+    creditPackRequestHash =
+      creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields;
+    activeCreditPackPurchases.add(creditPackRequestHash);
+
+    const progress: CreditPackPurchaseProgress = {
+      purchase_status: "requested",
+      supernode_url: "",
+      burn_address: burnAddress,
+      sha3_256_hash_of_credit_pack_purchase_request_response_fields: "",
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields: "",
+      txid_of_credit_purchase_burn_transaction: "",
+      pastel_api_credit_pack_ticket_registration_txid: "",
+      purchase_last_error: "",
+      purchase_status_updated_at_utc_iso_string: "",
+    };
 
     const closestSupernodes = await utils.getNClosestSupernodesToPastelIDURLs(
       12,
@@ -265,6 +630,15 @@ export async function handleCreditPackTicketEndToEnd(
           continue;
         }
 
+        await spendingPolicy.authorizeCreditPackPurchase({
+          reference_id: creditPackRequestHash,
+          total_cost_in_psl:
+            preliminaryPriceQuote.preliminary_total_cost_of_credit_pack_in_psl,
+          price_per_credit_in_psl:
+            preliminaryPriceQuote.preliminary_quoted_price_per_credit_in_psl,
+          requireApproval: true,
+        });
+
         const signedCreditPackTicketOrRejection =
           await inferenceClient.creditPackTicketPreliminaryPriceQuoteResponse(
             supernode.url,
@@ -290,115 +664,92 @@ export async function handleCreditPackTicketEndToEnd(
         const signedCreditPackTicket =
           signedCreditPackTicketOrRejection as CreditPackPurchaseRequestResponse;
 
-        await new Promise<void>((resolve) => {
-          const checkAcknowledgement = async () => {
-            const utxos = await rpc.getAddressUtxos(
-              creditUsageTrackingPSLAddress
-            );
-            if (utxos?.length) {
-              resolve();
-            } else {
-              setTimeout(checkAcknowledgement, 5000);
-            }
-          };
-          checkAcknowledgement();
+        await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+          purchase_status: "price_agreed",
+          supernode_url: supernode.url,
+          sha3_256_hash_of_credit_pack_purchase_request_response_fields:
+            signedCreditPackTicket.sha3_256_hash_of_credit_pack_purchase_request_response_fields,
         });
 
-        const burnTransactionResponse = await rpc.sendToAddress(
-          burnAddress,
-          (
-            Math.round(
-              signedCreditPackTicket.proposed_total_cost_of_credit_pack_in_psl *
-                100000
-            ) / 100000
-          ).toString(),
+        const funded = await waitForTrackingAddressFunding(
           creditUsageTrackingPSLAddress
         );
-
-        if (!burnTransactionResponse) {
-          callback(
-            JSON.stringify({ message: `Error sending PSL to burn address` })
+        if (!funded) {
+          await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+            purchase_status: "awaiting_funding",
+          });
+          throw new Error(
+            `Tracking address ${creditUsageTrackingPSLAddress} was not funded after ${
+              (MAX_TRACKING_ADDRESS_FUNDING_CHECKS *
+                TRACKING_ADDRESS_FUNDING_CHECK_INTERVAL_MS) /
+              1000
+            } seconds; nothing was spent`
           );
-          throw new Error(`Error sending PSL to burn address`);
         }
 
-        const burnTransactionTxid = burnTransactionResponse.txID;
-
-        const creditPackPurchaseRequestConfirmation =
-          await buildCreditPackPurchaseRequestConfirmation(
-            creditPackRequest,
-            signedCreditPackTicket,
-            burnTransactionTxid,
-            pastelID
-          );
-
-        await db.addData(
-          "CreditPackPurchaseRequestConfirmation",
-          creditPackPurchaseRequestConfirmation
+        await sendCreditPackBurn(
+          creditPackRequest,
+          progress,
+          signedCreditPackTicket,
+          preliminaryPriceQuote.preliminary_total_cost_of_credit_pack_in_psl,
+          callback
         );
 
-        const creditPackPurchaseRequestConfirmationResponse =
-          await inferenceClient.confirmCreditPurchaseRequest(
-            supernode.url,
-            creditPackPurchaseRequestConfirmation,
-            callback
-          );
-
-        if (!creditPackPurchaseRequestConfirmationResponse) {
-          callback(
-            JSON.stringify({ message: "Credit pack ticket storage failed" })
-          );
-          throw new Error("Credit pack ticket storage failed");
-        }
-
-        const creditPackPurchaseRequestStatus =
-          await checkCreditPackPurchaseRequestStatus(
-            inferenceClient,
-            supernode.url,
-            creditPackRequest,
-            closestSupernodes,
-            callback
-          );
-
-        if (creditPackPurchaseRequestStatus.status !== "completed") {
-          const creditPackStorageRetryRequestResponse =
-            await initiateStorageRetry(
-              inferenceClient,
-              creditPackRequest,
-              signedCreditPackTicket,
-              validMasternodeListFullDF,
-              pastelID,
-              callback
-            );
-
-          return {
-            creditPackRequest,
-            creditPackPurchaseRequestConfirmation: {
-              ...creditPackPurchaseRequestConfirmation,
-              pastel_api_credit_pack_ticket_registration_txid:
-                creditPackPurchaseRequestConfirmationResponse.pastel_api_credit_pack_ticket_registration_txid,
-            },
-            creditPackStorageRetryRequestResponse,
-          };
-        } else {
-          return {
-            creditPackRequest,
-            creditPackPurchaseRequestConfirmation: {
-              ...creditPackPurchaseRequestConfirmation,
-              pastel_api_credit_pack_ticket_registration_txid:
-                creditPackPurchaseRequestConfirmationResponse.pastel_api_credit_pack_ticket_registration_txid,
-            },
-            creditPackPurchaseRequestConfirmationResponse,
-          };
-        }
+        return await completeCreditPackPurchase(
+          inferenceClient,
+          creditPackRequest,
+          progress,
+          signedCreditPackTicket,
+          closestSupernodes,
+          validMasternodeListFullDF,
+          pastelID,
+          callback
+        );
       } catch (error) {
         browserLogger.warn(
           `Failed to create credit pack with supernode ${supernode.url}: ${
             (error as Error).message
           }`
         );
+        if (
+          error instanceof SupernodeMessageVerificationError ||
+          error instanceof SpendingPolicyViolationError
+        ) {
+          await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+            purchase_status:
+              progress.purchase_status === "requested" ||
+              progress.purchase_status === "price_agreed"
+                ? "failed"
+                : progress.purchase_status,
+            purchase_last_error: error.message,
+          });
+          throw error;
+        }
+        if (
+          progress.purchase_status !== "requested" &&
+          progress.purchase_status !== "price_agreed"
+        ) {
+          // The burn may already be on chain, so never start over with another supernode
+          await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+            purchase_last_error: (error as Error).message,
+          });
+          callback(
+            JSON.stringify({
+              message:
+                progress.purchase_status === "awaiting_funding"
+                  ? `Credit pack purchase is waiting for ${creditUsageTrackingPSLAddress} to be funded; it will be resumed on the next launch once it is.`
+                  : `Credit pack purchase was interrupted after the burn transaction; it will be recovered on the next launch.`,
+            })
+          );
+          throw error;
+        }
       }
     }
+    await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+      purchase_status: "failed",
+      purchase_last_error:
+        "Failed to create credit pack ticket with all available supernodes",
+    });
     throw new Error(
       "Failed to create credit pack ticket with all available supernodes"
     );
@@ -406,64 +757,382 @@ export async function handleCreditPackTicketEndToEnd(
     browserLogger.error(
       `Error in handleCreditPackTicketEndToEnd: ${(error as Error).message}`
     );
+    if (
+      error instanceof SupernodeMessageVerificationError ||
+      error instanceof SpendingPolicyViolationError
+    ) {
+      throw error;
+    }
     throw new Error(
       "An unexpected error occurred while processing your credit pack purchase. Please try again later."
     );
+  } finally {
+    activeCreditPackPurchases.delete(creditPackRequestHash);
   }
 }
 
-async function buildCreditPackPurchaseRequestConfirmation(
+/**
+ * Drives a credit pack purchase whose burn transaction was sent through
+ * confirmation, status check and, if needed, a storage retry.
+ */
+async function completeCreditPackPurchase(
+  inferenceClient: PastelInferenceClient,
   creditPackRequest: CreditPackPurchaseRequest,
+  progress: CreditPackPurchaseProgress,
   signedCreditPackTicket: CreditPackPurchaseRequestResponse,
-  burnTransactionTxid: string,
-  pastelID: string
-): Promise<CreditPackPurchaseRequestConfirmation> {
-  const confirmation: CreditPackPurchaseRequestConfirmation = {
-    sha3_256_hash_of_credit_pack_purchase_request_fields:
-      creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields,
-    sha3_256_hash_of_credit_pack_purchase_request_response_fields:
-      signedCreditPackTicket.sha3_256_hash_of_credit_pack_purchase_request_response_fields,
-    credit_pack_purchase_request_fields_json_b64:
-      signedCreditPackTicket.credit_pack_purchase_request_fields_json_b64,
-    requesting_end_user_pastelid: pastelID,
-    txid_of_credit_purchase_burn_transaction: burnTransactionTxid,
-    credit_purchase_request_confirmation_utc_iso_string:
-      new Date().toISOString(),
-    credit_purchase_request_confirmation_pastel_block_height:
-      await rpc.getCurrentPastelBlockHeight(),
-    credit_purchase_request_confirmation_message_version_string: "1.0",
-    sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields: "",
-    requesting_end_user_pastelid_signature_on_sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
-      "",
-    id: uuidv4(),
-  };
+  closestSupernodes: SupernodeURL[],
+  validMasternodeListFullDF: SupernodeInfo[],
+  pastelID: string,
+  callback: (value: string) => void
+): Promise<CreditPackCreationResult> {
+  let creditPackPurchaseRequestConfirmation:
+    | CreditPackPurchaseRequestConfirmation
+    | undefined;
+  let creditPackPurchaseRequestConfirmationResponse:
+    | CreditPackPurchaseRequestConfirmationResponse
+    | undefined;
+
+  if (progress.purchase_status === "burn_sent") {
+    creditPackPurchaseRequestConfirmation =
+      await buildCreditPackPurchaseRequestConfirmation(
+        creditPackRequest,
+        signedCreditPackTicket,
+        progress.txid_of_credit_purchase_burn_transaction,
+        pastelID
+      );
 
-  confirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields =
-    await utils.computeSHA3256HashOfSQLModelResponseFields(confirmation);
-  confirmation.requesting_end_user_pastelid_signature_on_sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields =
-    await rpc.signMessageWithPastelID(
-      pastelID,
-      confirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields,
-      PastelIDType.PastelID
+    await db.addData(
+      "CreditPackPurchaseRequestConfirmation",
+      creditPackPurchaseRequestConfirmation
     );
 
-  const { success, error } =
-    schemas.creditPackPurchaseRequestConfirmationSchema.safeParse(confirmation);
-  if (!success) {
-    throw new Error(
-      `Invalid credit pack purchase request confirmation: ${error.message}`
-    );
+    creditPackPurchaseRequestConfirmationResponse =
+      await inferenceClient.confirmCreditPurchaseRequest(
+        progress.supernode_url,
+        creditPackPurchaseRequestConfirmation,
+        callback
+      );
+
+    if (!creditPackPurchaseRequestConfirmationResponse) {
+      callback(
+        JSON.stringify({ message: "Credit pack ticket storage failed" })
+      );
+      throw new Error("Credit pack ticket storage failed");
+    }
+
+    await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+      purchase_status: "confirmed",
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+        creditPackPurchaseRequestConfirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields,
+      pastel_api_credit_pack_ticket_registration_txid:
+        creditPackPurchaseRequestConfirmationResponse.pastel_api_credit_pack_ticket_registration_txid,
+    });
+  } else {
+    creditPackPurchaseRequestConfirmation =
+      await db.findByIndex<CreditPackPurchaseRequestConfirmation>(
+        "CreditPackPurchaseRequestConfirmation",
+        "sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields",
+        progress.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields
+      );
+    if (!creditPackPurchaseRequestConfirmation) {
+      throw new Error(
+        `No stored confirmation for credit pack purchase request ${creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields}`
+      );
+    }
   }
 
-  return confirmation;
-}
+  if (progress.purchase_status === "confirmed") {
+    const creditPackPurchaseRequestStatus =
+      await checkCreditPackPurchaseRequestStatus(
+        inferenceClient,
+        progress.supernode_url,
+        creditPackRequest,
+        closestSupernodes,
+        callback
+      );
 
-async function checkCreditPackPurchaseRequestStatus(
-  inferenceClient: PastelInferenceClient,
-  highestRankedSupernodeURL: string,
-  creditPackRequest: CreditPackPurchaseRequest,
-  closestSupernodes: SupernodeURL[],
-  callback: (value: string) => void
+    if (creditPackPurchaseRequestStatus.status === "completed") {
+      await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+        purchase_status: "completed",
+        purchase_last_error: "",
+      });
+      return {
+        creditPackRequest,
+        creditPackPurchaseRequestConfirmation: {
+          ...creditPackPurchaseRequestConfirmation,
+          pastel_api_credit_pack_ticket_registration_txid:
+            progress.pastel_api_credit_pack_ticket_registration_txid,
+        },
+        creditPackPurchaseRequestConfirmationResponse,
+      };
+    }
+    await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+      purchase_status: "storage_retry_requested",
+    });
+  }
+
+  const creditPackStorageRetryRequestResponse = await initiateStorageRetry(
+    inferenceClient,
+    creditPackRequest,
+    signedCreditPackTicket,
+    validMasternodeListFullDF,
+    pastelID,
+    callback
+  );
+  await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+    purchase_status: "completed",
+    purchase_last_error: "",
+  });
+
+  return {
+    creditPackRequest,
+    creditPackPurchaseRequestConfirmation: {
+      ...creditPackPurchaseRequestConfirmation,
+      pastel_api_credit_pack_ticket_registration_txid:
+        progress.pastel_api_credit_pack_ticket_registration_txid,
+    },
+    creditPackStorageRetryRequestResponse,
+  };
+}
+
+/**
+ * Finds credit pack purchases of the current PastelID that were interrupted
+ * and finishes them. Purchases interrupted before their burn was due are
+ * marked as failed, while those whose tracking address was not funded in time
+ * burn once it is. A purchase interrupted while sending its burn
+ * broadcasts the burn transaction it saved again, so nothing is ever paid
+ * twice; without a saved transaction nothing was signed, and it is marked as
+ * failed.
+ * @returns The results of the purchases that were completed.
+ */
+export async function recoverCreditPackPurchasesEndToEnd(
+  callback: (value: string) => void
+): Promise<CreditPackCreationResult[]> {
+  const pastelID = pastelGlobals.getPastelId();
+  const passphrase = pastelGlobals.getPassphrase();
+  if (!pastelID || !passphrase) {
+    return [];
+  }
+  const records = await db.getAllData<CreditPackPurchaseRequestRecord>(
+    "CreditPackPurchaseRequest"
+  );
+  const unfinished = records.filter(
+    (record) =>
+      record.requesting_end_user_pastelid === pastelID &&
+      record.purchase_status &&
+      record.purchase_status !== "completed" &&
+      record.purchase_status !== "failed" &&
+      !activeCreditPackPurchases.has(
+        record.sha3_256_hash_of_credit_pack_purchase_request_fields
+      )
+  );
+  if (unfinished.length === 0) {
+    return [];
+  }
+
+  const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
+  const { validMasternodeListFullDF } = await rpc.checkSupernodeList();
+  const closestSupernodes = await utils.getNClosestSupernodesToPastelIDURLs(
+    12,
+    pastelID,
+    validMasternodeListFullDF
+  );
+  const results: CreditPackCreationResult[] = [];
+
+  for (const record of unfinished) {
+    const creditPackRequest = schemas.creditPackPurchaseRequestSchema.parse(
+      record
+    ) as CreditPackPurchaseRequest;
+    const progress: CreditPackPurchaseProgress = {
+      purchase_status: record.purchase_status,
+      supernode_url: record.supernode_url,
+      burn_address: record.burn_address,
+      sha3_256_hash_of_credit_pack_purchase_request_response_fields:
+        record.sha3_256_hash_of_credit_pack_purchase_request_response_fields,
+      sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+        record.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields,
+      txid_of_credit_purchase_burn_transaction:
+        record.txid_of_credit_purchase_burn_transaction,
+      pastel_api_credit_pack_ticket_registration_txid:
+        record.pastel_api_credit_pack_ticket_registration_txid,
+      purchase_last_error: record.purchase_last_error,
+      purchase_status_updated_at_utc_iso_string:
+        record.purchase_status_updated_at_utc_iso_string,
+      burn_amount_in_psl: record.burn_amount_in_psl,
+      burn_transaction_hex: record.burn_transaction_hex,
+    };
+    const creditPackRequestHash =
+      creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields;
+    activeCreditPackPurchases.add(creditPackRequestHash);
+    try {
+      if (
+        progress.purchase_status === "requested" ||
+        progress.purchase_status === "price_agreed"
+      ) {
+        await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+          purchase_status: "failed",
+          purchase_last_error:
+            "Interrupted before the burn transaction was sent; nothing was spent",
+        });
+        continue;
+      }
+      if (progress.purchase_status === "burn_pending") {
+        const burnTxid = progress.txid_of_credit_purchase_burn_transaction;
+        if (!burnTxid || !progress.burn_transaction_hex) {
+          await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+            purchase_status: "failed",
+            purchase_last_error:
+              "Interrupted before the burn transaction was signed; nothing was spent",
+          });
+          callback(
+            JSON.stringify({
+              message: `Credit pack purchase ${creditPackRequestHash} was interrupted before its burn transaction was signed; nothing was spent`,
+            })
+          );
+          continue;
+        }
+        await rpc.ensureTransactionBroadcast(
+          burnTxid,
+          progress.burn_transaction_hex
+        );
+        callback(
+          JSON.stringify({
+            message: `Burn transaction ${burnTxid} of credit pack purchase ${creditPackRequestHash} is on the network`,
+          })
+        );
+        await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+          purchase_status: "burn_sent",
+        });
+      }
+
+      const signedCreditPackTicket =
+        await db.findByIndex<CreditPackPurchaseRequestResponse>(
+          "CreditPackPurchaseRequestResponse",
+          "sha3_256_hash_of_credit_pack_purchase_request_response_fields",
+          progress.sha3_256_hash_of_credit_pack_purchase_request_response_fields
+        );
+      if (!signedCreditPackTicket) {
+        throw new Error(
+          `No stored purchase request response for credit pack purchase request ${creditPackRequestHash}`
+        );
+      }
+
+      if (progress.purchase_status === "awaiting_funding") {
+        const utxos = await rpc.getAddressUtxos(
+          creditPackRequest.credit_usage_tracking_psl_address
+        );
+        if (!utxos?.length) {
+          callback(
+            JSON.stringify({
+              message: `Credit pack purchase ${creditPackRequestHash} is still waiting for ${creditPackRequest.credit_usage_tracking_psl_address} to be funded`,
+            })
+          );
+          continue;
+        }
+        await sendCreditPackBurn(
+          creditPackRequest,
+          progress,
+          signedCreditPackTicket,
+          null,
+          callback
+        );
+      }
+
+      callback(
+        JSON.stringify({
+          message: `Recovering credit pack purchase ${creditPackRequestHash} from state ${progress.purchase_status}`,
+        })
+      );
+      browserLogger.info(
+        `Recovering credit pack purchase ${creditPackRequestHash} from state ${progress.purchase_status}`
+      );
+      results.push(
+        await completeCreditPackPurchase(
+          inferenceClient,
+          creditPackRequest,
+          progress,
+          signedCreditPackTicket,
+          closestSupernodes,
+          validMasternodeListFullDF,
+          pastelID,
+          callback
+        )
+      );
+    } catch (error) {
+      await saveCreditPackPurchaseProgress(creditPackRequest, progress, {
+        purchase_last_error: (error as Error).message,
+      });
+      browserLogger.error(
+        `Failed to recover credit pack purchase ${creditPackRequestHash}: ${
+          (error as Error).message
+        }`
+      );
+      callback(
+        JSON.stringify({
+          message: `Failed to recover credit pack purchase ${creditPackRequestHash}: ${
+            (error as Error).message
+          }`,
+        })
+      );
+    } finally {
+      activeCreditPackPurchases.delete(creditPackRequestHash);
+    }
+  }
+  return results;
+}
+
+async function buildCreditPackPurchaseRequestConfirmation(
+  creditPackRequest: CreditPackPurchaseRequest,
+  signedCreditPackTicket: CreditPackPurchaseRequestResponse,
+  burnTransactionTxid: string,
+  pastelID: string
+): Promise<CreditPackPurchaseRequestConfirmation> {
+  const confirmation: CreditPackPurchaseRequestConfirmation = {
+    sha3_256_hash_of_credit_pack_purchase_request_fields:
+      creditPackRequest.sha3_256_hash_of_credit_pack_purchase_request_fields,
+    sha3_256_hash_of_credit_pack_purchase_request_response_fields:
+      signedCreditPackTicket.sha3_256_hash_of_credit_pack_purchase_request_response_fields,
+    credit_pack_purchase_request_fields_json_b64:
+      signedCreditPackTicket.credit_pack_purchase_request_fields_json_b64,
+    requesting_end_user_pastelid: pastelID,
+    txid_of_credit_purchase_burn_transaction: burnTransactionTxid,
+    credit_purchase_request_confirmation_utc_iso_string:
+      new Date().toISOString(),
+    credit_purchase_request_confirmation_pastel_block_height:
+      await rpc.getCurrentPastelBlockHeight(),
+    credit_purchase_request_confirmation_message_version_string: "1.0",
+    sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields: "",
+    requesting_end_user_pastelid_signature_on_sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields:
+      "",
+    id: uuidv4(),
+  };
+
+  confirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields =
+    await utils.computeSHA3256HashOfSQLModelResponseFields(confirmation);
+  confirmation.requesting_end_user_pastelid_signature_on_sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields =
+    await rpc.signMessageWithPastelID(
+      pastelID,
+      confirmation.sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields,
+      PastelIDType.PastelID
+    );
+
+  const { success, error } =
+    schemas.creditPackPurchaseRequestConfirmationSchema.safeParse(confirmation);
+  if (!success) {
+    throw new Error(
+      `Invalid credit pack purchase request confirmation: ${error.message}`
+    );
+  }
+
+  return confirmation;
+}
+
+async function checkCreditPackPurchaseRequestStatus(
+  inferenceClient: PastelInferenceClient,
+  highestRankedSupernodeURL: string,
+  creditPackRequest: CreditPackPurchaseRequest,
+  closestSupernodes: SupernodeURL[],
+  callback: (value: string) => void
 ): Promise<schemas.CreditPackPurchaseRequestStatus> {
   try {
     const status = await inferenceClient.checkStatusOfCreditPurchaseRequest(
@@ -925,422 +1594,759 @@ function safeStringify(obj: unknown, space = 2) {
   return JSON.stringify(obj, replacer, space);
 }
 
-export async function handleInferenceRequestEndToEnd(
-  params: InferenceRequestParams,
-  callback: (value: string) => void,
-  times: number = 0,
-  currentSupernodeURL: string = ""
-): Promise<InferenceResult | null> {
+// Inference requests are persisted in the InferenceRequestState store and
+// advanced one step at a time, so a reload can pick up where it stopped:
+// requested -> quoted -> tracking_tx_pending -> tracking_tx_sent -> confirmed -> results_ready -> retrieved -> audited
+const MAX_INFERENCE_REQUEST_SUPERNODE_TRIES = 5;
+const MAX_INFERENCE_CONFIRMATION_ATTEMPTS = 12;
+const MAX_TRIES_TO_GET_INFERENCE_RESULTS = 60;
+const AUDIT_INFERENCE_RESULTS_STORAGE_KEY = "AUDIT_INFERENCE_RESULTS";
+const INFERENCE_AUDIT_QUORUM = 3;
+const MAX_INFERENCE_AUDIT_ROUNDS = 4;
+const INFERENCE_AUDIT_RETRY_DELAY_MS = 5000;
+
+// Record ids of the inference requests currently being driven in this tab
+const activeInferenceRequests = new Set<number>();
+// Other tabs see the requests this one drives through ProcessingLock claims,
+// which are renewed while a request runs and lapse if the tab goes away
+const INFERENCE_REQUEST_LOCK_OWNER = uuidv4();
+const INFERENCE_REQUEST_LOCK_TTL_MS = 3 * 60 * 1000;
+const INFERENCE_REQUEST_LOCK_RENEW_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Whether retrieved inference results are checked against auditing
+ * supernodes before they are used. On unless the user turned it off.
+ */
+export function isInferenceAuditEnabled(): boolean {
+  if (typeof window === "undefined") return true;
+  return localStorage.getItem(AUDIT_INFERENCE_RESULTS_STORAGE_KEY) !== "false";
+}
+
+export function setInferenceAuditEnabled(enabled: boolean): void {
+  localStorage.setItem(AUDIT_INFERENCE_RESULTS_STORAGE_KEY, String(enabled));
+}
+
+async function saveInferenceRequestState(
+  state: InferenceRequestState,
+  changes: Partial<InferenceRequestState>
+): Promise<InferenceRequestState> {
+  Object.assign(state, changes, {
+    updated_at_utc_iso_string: new Date().toISOString(),
+  });
+  await db.saveData("InferenceRequestState", state);
   try {
-    if (times > 11) {
-      return null;
-    }
-    const pastelID = pastelGlobals.getPastelId();
-    const passphrase = pastelGlobals.getPassphrase();
-    if (!pastelID || !passphrase) {
+    await creditPackLedger.recordInferenceRequestState(state);
+  } catch (error) {
+    browserLogger.warn(
+      `Unable to update the credit pack ledger for inference request ${
+        state.inference_request_id
+      }: ${(error as Error).message}`
+    );
+  }
+  return state;
+}
+
+function buildInferenceResult(state: InferenceRequestState): InferenceResult {
+  const { request_data, usage_request_response, output_results, params } =
+    state;
+  if (!request_data || !usage_request_response || !output_results) {
+    throw new Error(
+      `Inference request ${state.inference_request_id} has no retrieved results`
+    );
+  }
+  const inferenceResult: InferenceResult = {
+    supernode_url: state.supernode_url,
+    request_data,
+    usage_request_response,
+    model_input_data_json: params.modelInputData,
+    output_results,
+  };
+
+  if (params.modelInferenceTypeString === "text_to_image") {
+    const jsonString = atob(output_results.inference_result_json_base64);
+    const jsonObject = JSON.parse(jsonString);
+    const imageBase64 = jsonObject.image;
+    inferenceResult.generated_image_decoded = atob(imageBase64);
+  } else if (params.modelInferenceTypeString === "embedding_document") {
+    const inferenceResultDecoded = atob(
+      output_results.inference_result_json_base64
+    );
+    const zipBinary = atob(inferenceResultDecoded);
+    inferenceResult.zip_file_data = zipBinary;
+  } else {
+    const inferenceResultDecoded = atob(
+      output_results.inference_result_json_base64
+    );
+    console.log(`Decoded response:\n${inferenceResultDecoded}`);
+    inferenceResult.inference_result_decoded = inferenceResultDecoded;
+  }
+  return inferenceResult;
+}
+
+async function requestInferenceQuote(
+  state: InferenceRequestState,
+  inferenceClient: PastelInferenceClient,
+  callback: (value: string) => void,
+  hooks?: InferenceRequestHooks
+): Promise<void> {
+  const { params } = state;
+  const modelParametersJSON = safeStringify(params.modelParameters);
+
+  const supernodeURLs =
+    await inferenceClient.getClosestSupernodeURLsThatSupportsDesiredModel(
+      params.requestedModelCanonicalString,
+      params.modelInferenceTypeString,
+      modelParametersJSON,
+      12
+    );
+
+  if (!supernodeURLs || supernodeURLs.length === 0) {
+    throw new Error(
+      `No supporting supernode found with adequate performance for the desired model: ${params.requestedModelCanonicalString} with inference type: ${params.modelInferenceTypeString}`
+    );
+  }
+
+  const maxTries = Math.min(
+    MAX_INFERENCE_REQUEST_SUPERNODE_TRIES,
+    supernodeURLs.length
+  );
+  for (let i = 0; i < maxTries; i++) {
+    const supernodeURL = supernodeURLs[i];
+    await hooks?.beforeSupernodeRequest?.(supernodeURL);
+    callback(
+      JSON.stringify({
+        message: `Attempting inference request to Supernode URL: ${supernodeURL}`,
+      })
+    );
+    console.log(
+      `Attempting inference request to Supernode URL: ${supernodeURL}`
+    );
+
+    try {
+      const modelInputDataJSONBase64Encoded = btoa(
+        JSON.stringify(params.modelInputData)
+      );
+      const modelParametersJSONBase64Encoded = btoa(modelParametersJSON);
+
+      const currentBlockHeight = await rpc.getCurrentPastelBlockHeight();
+      const inferenceRequestData: InferenceAPIUsageRequest = {
+        inference_request_id: uuidv4(),
+        requesting_pastelid: state.requesting_pastelid,
+        credit_pack_ticket_pastel_txid: params.creditPackTicketPastelTxid,
+        requested_model_canonical_string: params.requestedModelCanonicalString,
+        model_inference_type_string: params.modelInferenceTypeString,
+        model_parameters_json_b64: modelParametersJSONBase64Encoded,
+        model_input_data_json_b64: modelInputDataJSONBase64Encoded,
+        inference_request_utc_iso_string: new Date().toISOString(),
+        inference_request_pastel_block_height: currentBlockHeight,
+        status: "initiating",
+        inference_request_message_version_string: "1.0",
+        sha3_256_hash_of_inference_request_fields: "",
+        requesting_pastelid_signature_on_request_hash: "",
+      };
+
+      inferenceRequestData.sha3_256_hash_of_inference_request_fields =
+        await utils.computeSHA3256HashOfSQLModelResponseFields(
+          inferenceRequestData
+        );
+      inferenceRequestData.requesting_pastelid_signature_on_request_hash =
+        await rpc.signMessageWithPastelID(
+          state.requesting_pastelid,
+          inferenceRequestData.sha3_256_hash_of_inference_request_fields,
+          PastelIDType.PastelID
+        );
+
+      const usageRequestResponse =
+        await inferenceClient.makeInferenceAPIUsageRequest(
+          supernodeURL,
+          inferenceRequestData,
+          callback
+        );
+
+      const validationErrors =
+        await utils.validateCreditPackTicketMessageData(usageRequestResponse);
+      if (validationErrors && validationErrors.length > 0) {
+        callback(
+          utils.safeStringify({
+            message: `Invalid inference request response from Supernode URL ${supernodeURL}: ${validationErrors.join(
+              ", "
+            )}`,
+          })
+        );
+        throw new Error(
+          `Invalid inference request response from Supernode URL ${supernodeURL}: ${utils.safeStringify(
+            validationErrors.join(", ")
+          )}`
+        );
+      }
+
+      await saveInferenceRequestState(state, {
+        status: "quoted",
+        inference_request_id: usageRequestResponse.inference_request_id,
+        supernode_url: supernodeURL,
+        request_data: inferenceRequestData,
+        usage_request_response: usageRequestResponse,
+        last_error: "",
+      });
+      return;
+    } catch (err) {
+      if (err instanceof SupernodeMessageVerificationError) {
+        throw err;
+      }
+      console.warn(
+        `Failed inference request to Supernode URL ${supernodeURL}. Moving on to the next one. Error: ${
+          (err as Error).message
+        }`
+      );
       callback(
-        JSON.stringify({ message: "PastelID or passphrase is not set" })
+        JSON.stringify({
+          message: `Failed inference request to Supernode URL ${supernodeURL}. Moving on to the next one. Error: ${
+            (err as Error).message
+          }`,
+        })
       );
-      throw new Error("PastelID or passphrase is not set");
     }
-    const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
-    const modelParametersJSON = safeStringify(params.modelParameters);
-
-    const supernodeURLs =
-      await inferenceClient.getClosestSupernodeURLsThatSupportsDesiredModel(
-        params.requestedModelCanonicalString,
-        params.modelInferenceTypeString,
-        modelParametersJSON,
-        12
-      );
+  }
+
+  throw new Error(`Failed to make inference request after ${maxTries} tries.`);
+}
 
-    if (!supernodeURLs || supernodeURLs.length === 0) {
+async function sendInferenceTrackingTransaction(
+  state: InferenceRequestState,
+  callback: (value: string) => void
+): Promise<void> {
+  const usageRequestResponse = state.usage_request_response;
+  if (!usageRequestResponse) {
+    throw new Error(
+      `Inference request ${state.inference_request_id} has no price quote`
+    );
+  }
+  const proposedCostInCredits = parseFloat(
+    usageRequestResponse.proposed_cost_of_request_in_inference_credits.toString()
+  );
+  const creditUsageTrackingPSLAddress =
+    usageRequestResponse.credit_usage_tracking_psl_address;
+  const trackingAmountInPatoshis = parseFloat(
+    usageRequestResponse.request_confirmation_message_amount_in_patoshis.toString()
+  );
+  const creditUsageTrackingAmountInPSL = trackingAmountInPatoshis / 100000;
+
+  if (state.status === "tracking_tx_pending") {
+    // The page went away while the tracking transaction was being sent
+    if (state.tracking_transaction_txid && state.tracking_transaction_hex) {
+      const sentTxid = await rpc.ensureTransactionBroadcast(
+        state.tracking_transaction_txid,
+        state.tracking_transaction_hex
+      );
       callback(
         JSON.stringify({
-          message: `No supporting supernode found with adequate performance for the desired model: ${params.requestedModelCanonicalString} with inference type: ${params.modelInferenceTypeString}`,
+          message: `Tracking transaction ${sentTxid} of inference request ${state.inference_request_id} is on the network; not sending another one.`,
         })
       );
-      console.error(
-        `No supporting supernode found with adequate performance for the desired model: ${params.requestedModelCanonicalString} with inference type: ${params.modelInferenceTypeString}`
-      );
-      return null;
+      await saveInferenceRequestState(state, {
+        status: "tracking_tx_sent",
+        tracking_transaction_txid: sentTxid,
+        last_error: "",
+      });
+      return;
     }
+    // Nothing was signed, so nothing can have been broadcast
+    await saveInferenceRequestState(state, { status: "quoted" });
+  }
 
-    const maxTries = Math.min(5, supernodeURLs.length);
-    const getCurrentSupernodeURL = () => {
-      const inferenceLocal = localStorage.getItem(
-        "MY_LOCAL_INFERENCE_REQUEST_INFO"
-      );
-      if (inferenceLocal) {
-        return JSON.parse(inferenceLocal)?.supernodeURL || "";
-      }
-      return currentSupernodeURL || "";
-    };
-    for (let i = 0; i < maxTries; i++) {
-      const supernodeURL = getCurrentSupernodeURL() || supernodeURLs[i];
+  if (proposedCostInCredits > state.params.maximumInferenceCostInCredits) {
+    throw new Error(
+      `Quoted price of ${proposedCostInCredits} credits exceeds the maximum allowed cost of ${state.params.maximumInferenceCostInCredits} credits. Inference request not confirmed.`
+    );
+  }
+
+  const currentBlockHeight = await rpc.getCurrentPastelBlockHeight();
+  if (
+    currentBlockHeight >
+    usageRequestResponse.max_block_height_to_include_confirmation_transaction
+  ) {
+    throw new Error(
+      `Price quote for inference request ${state.inference_request_id} expired at block ${usageRequestResponse.max_block_height_to_include_confirmation_transaction}; current block height is ${currentBlockHeight}`
+    );
+  }
+
+  assertAddressOnCurrentNetwork(
+    creditUsageTrackingPSLAddress,
+    "use this credit pack"
+  );
+  const trackingAddressBalance = await rpc.checkPSLAddressBalance(
+    creditUsageTrackingPSLAddress
+  );
+  if (trackingAddressBalance < creditUsageTrackingAmountInPSL) {
+    throw new Error(
+      `Insufficient balance in tracking address: ${creditUsageTrackingPSLAddress}; amount needed: ${creditUsageTrackingAmountInPSL}; current balance: ${trackingAddressBalance}; shortfall: ${
+        creditUsageTrackingAmountInPSL - trackingAddressBalance
+      }`
+    );
+  }
+
+  const releaseBudgetReservation =
+    await spendingPolicy.authorizeInferenceSpending(
+      state,
+      proposedCostInCredits
+    );
+  try {
+    const burnAddress = await rpc.getBurnAddress();
+    try {
+      await rpc.initializeWalletForTransaction(creditUsageTrackingPSLAddress);
+    } catch (error) {
       callback(
         JSON.stringify({
-          message: `Attempting inference request to Supernode URL: ${supernodeURL}`,
+          message: `Failed to initialize wallet for transaction: ${error}`,
         })
       );
-      console.log(
-        `Attempting inference request to Supernode URL: ${supernodeURL}`
+      throw error;
+    }
+
+    await saveInferenceRequestState(state, { status: "tracking_tx_pending" });
+    const trackingTransactionTxid =
+      await rpc.sendTrackingAmountFromControlAddressToBurnAddressToConfirmInferenceRequest(
+        state.inference_request_id,
+        creditUsageTrackingPSLAddress,
+        creditUsageTrackingAmountInPSL,
+        burnAddress,
+        callback,
+        async (preview) => {
+          // A reload broadcasts this same transaction again rather than a new one
+          await saveInferenceRequestState(state, {
+            tracking_transaction_txid: preview.txid,
+            tracking_transaction_hex: preview.hex,
+          });
+        }
       );
 
-      try {
-        const modelInputDataJSONBase64Encoded = btoa(
-          JSON.stringify(params.modelInputData)
-        );
-        const modelParametersJSONBase64Encoded = btoa(modelParametersJSON);
-
-        const currentBlockHeight = await rpc.getCurrentPastelBlockHeight();
-        const inferenceRequestData: InferenceAPIUsageRequest = {
-          inference_request_id: uuidv4(),
-          requesting_pastelid: pastelID,
-          credit_pack_ticket_pastel_txid: params.creditPackTicketPastelTxid,
-          requested_model_canonical_string:
-            params.requestedModelCanonicalString,
-          model_inference_type_string: params.modelInferenceTypeString,
-          model_parameters_json_b64: modelParametersJSONBase64Encoded,
-          model_input_data_json_b64: modelInputDataJSONBase64Encoded,
-          inference_request_utc_iso_string: new Date().toISOString(),
-          inference_request_pastel_block_height: currentBlockHeight,
-          status: "initiating",
-          inference_request_message_version_string: "1.0",
-          sha3_256_hash_of_inference_request_fields: "",
-          requesting_pastelid_signature_on_request_hash: "",
-        };
-
-        inferenceRequestData.sha3_256_hash_of_inference_request_fields =
-          await utils.computeSHA3256HashOfSQLModelResponseFields(
-            inferenceRequestData
-          );
-        inferenceRequestData.requesting_pastelid_signature_on_request_hash =
-          await rpc.signMessageWithPastelID(
-            pastelID,
-            inferenceRequestData.sha3_256_hash_of_inference_request_fields,
-            PastelIDType.PastelID
-          );
+    if (!/^[0-9a-fA-F]{64}$/.test(trackingTransactionTxid)) {
+      throw new Error(
+        `Invalid tracking transaction txid: ${trackingTransactionTxid}`
+      );
+    }
+    await saveInferenceRequestState(state, {
+      status: "tracking_tx_sent",
+      tracking_transaction_txid: trackingTransactionTxid,
+      last_error: "",
+    });
+  } finally {
+    releaseBudgetReservation();
+  }
+}
 
-        const usageRequestResponse =
-          await inferenceClient.makeInferenceAPIUsageRequest(
-            supernodeURL,
-            inferenceRequestData,
-            callback
-          );
+async function confirmInferenceRequest(
+  state: InferenceRequestState,
+  inferenceClient: PastelInferenceClient,
+  callback: (value: string) => void
+): Promise<void> {
+  const confirmationData: InferenceConfirmation = {
+    inference_request_id: state.inference_request_id,
+    requesting_pastelid: state.requesting_pastelid,
+    confirmation_transaction: { txid: state.tracking_transaction_txid },
+  };
 
-        const validationErrors =
-          await utils.validateCreditPackTicketMessageData(usageRequestResponse);
-        if (validationErrors && validationErrors.length > 0) {
-          callback(
-            utils.safeStringify({
-              message: `Invalid inference request response from Supernode URL ${supernodeURL}: ${validationErrors.join(
-                ", "
-              )}`,
-            })
-          );
-          throw new Error(
-            `Invalid inference request response from Supernode URL ${supernodeURL}: ${utils.safeStringify(validationErrors.join(
-              ", "
-            ))}`
-          );
-        }
+  const confirmationResult = await inferenceClient.sendInferenceConfirmation(
+    state.supernode_url,
+    confirmationData,
+    callback
+  );
+  if (!confirmationResult) {
+    const confirmationAttempts = state.confirmation_attempts + 1;
+    if (confirmationAttempts >= MAX_INFERENCE_CONFIRMATION_ATTEMPTS) {
+      await saveInferenceRequestState(state, {
+        status: "failed",
+        confirmation_attempts: confirmationAttempts,
+        last_error: `Supernode ${state.supernode_url} did not accept the inference confirmation after ${confirmationAttempts} attempts`,
+      });
+      return;
+    }
+    await saveInferenceRequestState(state, {
+      confirmation_attempts: confirmationAttempts,
+      last_error: `Inference confirmation attempt ${confirmationAttempts} failed`,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    return;
+  }
+  callback(
+    JSON.stringify({
+      message: `Sent inference confirmation: ${utils.prettyJSON(
+        confirmationResult
+      )}`,
+    })
+  );
+  console.log(
+    `Sent inference confirmation: ${utils.prettyJSON(confirmationResult)}`
+  );
+  await saveInferenceRequestState(state, {
+    status: "confirmed",
+    last_error: "",
+  });
+}
 
-        const inferenceRequestID = usageRequestResponse.inference_request_id;
-        const inferenceResponseID = usageRequestResponse.inference_response_id;
-        const proposedCostInCredits = parseFloat(
-          usageRequestResponse.proposed_cost_of_request_in_inference_credits.toString()
-        );
-        const creditUsageTrackingPSLAddress =
-          usageRequestResponse.credit_usage_tracking_psl_address;
-        const creditUsageTrackingAmountInPSL =
-          parseFloat(
-            usageRequestResponse.request_confirmation_message_amount_in_patoshis.toString()
-          ) / 100000;
-
-        const trackingAddressBalance = await rpc.checkPSLAddressBalance(
-          creditUsageTrackingPSLAddress
-        );
+async function waitForInferenceResults(
+  state: InferenceRequestState,
+  inferenceClient: PastelInferenceClient,
+  callback: (value: string) => void,
+  onToken?: (token: string) => void,
+  onStreamedTokensDiscarded?: () => void
+): Promise<void> {
+  const inferenceResponseID =
+    state.usage_request_response?.inference_response_id || "";
+  if (
+    state.inference_request_id.length === 0 ||
+    inferenceResponseID.length === 0
+  ) {
+    throw new Error("Inference request ID or response ID is empty");
+  }
 
-        if (trackingAddressBalance < creditUsageTrackingAmountInPSL) {
-          callback(
-            JSON.stringify({
-              message: `Insufficient balance in tracking address: ${creditUsageTrackingPSLAddress}; amount needed: ${creditUsageTrackingAmountInPSL}; current balance: ${trackingAddressBalance}; shortfall: ${
-                creditUsageTrackingAmountInPSL - trackingAddressBalance
-              }`,
-            })
-          );
-          console.error(
-            `Insufficient balance in tracking address: ${creditUsageTrackingPSLAddress}; amount needed: ${creditUsageTrackingAmountInPSL}; current balance: ${trackingAddressBalance}; shortfall: ${
-              creditUsageTrackingAmountInPSL - trackingAddressBalance
-            }`
-          );
-          return null;
-        }
+  // Text completions are streamed when the supernode supports it; the final
+  // signed result is still retrieved afterwards
+  if (onToken && state.params.modelInferenceTypeString === "text_completion") {
+    let tokensStreamed = false;
+    const streamed = await inferenceClient.streamInferenceOutputResults(
+      state.supernode_url,
+      inferenceResponseID,
+      (token) => {
+        tokensStreamed = true;
+        onToken(token);
+      },
+      callback
+    );
+    if (streamed) {
+      await saveInferenceRequestState(state, {
+        status: "results_ready",
+        last_error: "",
+      });
+      return;
+    }
+    // The polled result is the whole output, not the rest of the stream
+    if (tokensStreamed) {
+      onStreamedTokensDiscarded?.();
+    }
+  }
 
-        if (proposedCostInCredits <= params.maximumInferenceCostInCredits) {
-          const burnAddress = await rpc.getBurnAddress();
-          // Add wallet initialization here
-          try {
-            await rpc.initializeWalletForTransaction(
-              creditUsageTrackingPSLAddress
-            );
-          } catch (error) {
-            callback(
-              JSON.stringify({
-                message: `Failed to initialize wallet for transaction: ${error}`,
-              })
-            );
-            throw error;
-          }
+  const initialWaitTimeInSeconds = 3;
+  let waitTimeInSeconds = initialWaitTimeInSeconds;
 
-          let trackingTransactionTxid = "";
-          const inferenceLocal = localStorage.getItem(
-            "MY_LOCAL_INFERENCE_REQUEST_INFO"
-          );
-          if (inferenceLocal) {
-            const parseInferenceLocal = JSON.parse(inferenceLocal);
-            if (
-              JSON.stringify(params) ===
-              JSON.stringify(parseInferenceLocal.params)
-            ) {
-              trackingTransactionTxid = parseInferenceLocal.txid;
-            } else {
-              localStorage.removeItem("MY_LOCAL_INFERENCE_REQUEST_INFO");
-            }
-          }
-          if (!trackingTransactionTxid) {
-            const onSaveLocalStorage = (txid: string) => {
-              localStorage.setItem(
-                "MY_LOCAL_INFERENCE_REQUEST_INFO",
-                JSON.stringify({
-                  txid,
-                  params,
-                  supernodeURL,
-                })
-              );
-            };
-            trackingTransactionTxid =
-              await rpc.sendTrackingAmountFromControlAddressToBurnAddressToConfirmInferenceRequest(
-                inferenceRequestID,
-                creditUsageTrackingPSLAddress,
-                creditUsageTrackingAmountInPSL,
-                burnAddress,
-                callback,
-                onSaveLocalStorage
-              );
-          }
+  for (let cnt = 0; cnt < MAX_TRIES_TO_GET_INFERENCE_RESULTS; cnt++) {
+    waitTimeInSeconds = waitTimeInSeconds * 1.04 ** cnt;
+    callback(
+      JSON.stringify({
+        message: `Waiting for the inference results for ${Math.round(
+          waitTimeInSeconds
+        )} seconds... (Attempt ${
+          cnt + 1
+        }/${MAX_TRIES_TO_GET_INFERENCE_RESULTS}); Checking with Supernode URL: ${
+          state.supernode_url
+        }`,
+      })
+    );
+    console.log(
+      `Waiting for the inference results for ${Math.round(
+        waitTimeInSeconds
+      )} seconds... (Attempt ${
+        cnt + 1
+      }/${MAX_TRIES_TO_GET_INFERENCE_RESULTS}); Checking with Supernode URL: ${
+        state.supernode_url
+      }`
+    );
 
-          const txidLooksValid = /^[0-9a-fA-F]{64}$/.test(
-            trackingTransactionTxid
-          );
+    await new Promise((resolve) =>
+      setTimeout(resolve, waitTimeInSeconds * 1000)
+    );
 
-          if (txidLooksValid) {
-            const confirmationData: InferenceConfirmation = {
-              inference_request_id: inferenceRequestID,
-              requesting_pastelid: pastelID,
-              confirmation_transaction: { txid: trackingTransactionTxid },
-            };
-
-            const confirmationResult =
-              await inferenceClient.sendInferenceConfirmation(
-                supernodeURL,
-                confirmationData,
-                callback
-              );
-            if (!confirmationResult) {
-              handleInferenceRequestEndToEnd(
-                params,
-                callback,
-                times + 1,
-                supernodeURL
-              );
-              return null;
-            }
-            callback(
-              JSON.stringify({
-                message: `Sent inference confirmation: ${utils.prettyJSON(
-                  confirmationResult
-                )}`,
-              })
-            );
-            console.log(
-              `Sent inference confirmation: ${utils.prettyJSON(
-                confirmationResult
-              )}`
-            );
-            const maxTriesToGetConfirmation = 60;
-            const initialWaitTimeInSeconds = 3;
-            let waitTimeInSeconds = initialWaitTimeInSeconds;
-
-            for (let cnt = 0; cnt < maxTriesToGetConfirmation; cnt++) {
-              waitTimeInSeconds = waitTimeInSeconds * 1.04 ** cnt;
-              callback(
-                JSON.stringify({
-                  message: `Waiting for the inference results for ${Math.round(
-                    waitTimeInSeconds
-                  )} seconds... (Attempt ${
-                    cnt + 1
-                  }/${maxTriesToGetConfirmation}); Checking with Supernode URL: ${supernodeURL}`,
-                })
-              );
-              console.log(
-                `Waiting for the inference results for ${Math.round(
-                  waitTimeInSeconds
-                )} seconds... (Attempt ${
-                  cnt + 1
-                }/${maxTriesToGetConfirmation}); Checking with Supernode URL: ${supernodeURL}`
-              );
-
-              await new Promise((resolve) =>
-                setTimeout(resolve, waitTimeInSeconds * 1000)
-              );
-
-              if (
-                inferenceRequestID.length === 0 ||
-                inferenceResponseID.length === 0
-              ) {
-                throw new Error("Inference request ID or response ID is empty");
-              }
-
-              const resultsAvailable =
-                await inferenceClient.checkStatusOfInferenceRequestResults(
-                  supernodeURL,
-                  inferenceResponseID,
-                  callback
-                );
-
-              if (resultsAvailable) {
-                const outputResults =
-                  await inferenceClient.retrieveInferenceOutputResults(
-                    supernodeURL,
-                    inferenceRequestID,
-                    inferenceResponseID,
-                    callback
-                  );
-
-                const inferenceResult: InferenceResult = {
-                  supernode_url: supernodeURL,
-                  request_data: inferenceRequestData,
-                  usage_request_response: usageRequestResponse,
-                  model_input_data_json: params.modelInputData,
-                  output_results: outputResults,
-                };
-
-                if (params.modelInferenceTypeString === "text_to_image") {
-                  const jsonString = atob(
-                    outputResults.inference_result_json_base64
-                  );
-                  const jsonObject = JSON.parse(jsonString);
-                  const imageBase64 = jsonObject.image;
-                  inferenceResult.generated_image_decoded = atob(imageBase64);
-                } else if (
-                  params.modelInferenceTypeString === "embedding_document"
-                ) {
-                  const inferenceResultDecoded = atob(
-                    outputResults.inference_result_json_base64
-                  );
-                  const zipBinary = atob(inferenceResultDecoded);
-                  inferenceResult.zip_file_data = zipBinary;
-                } else {
-                  const inferenceResultDecoded = atob(
-                    outputResults.inference_result_json_base64
-                  );
-                  console.log(`Decoded response:\n${inferenceResultDecoded}`);
-                  inferenceResult.inference_result_decoded =
-                    inferenceResultDecoded;
-                }
-
-                const useAuditFeature = false;
-
-                if (useAuditFeature) {
-                  console.log(
-                    "Waiting 3 seconds for audit results to be available..."
-                  );
-                  callback(
-                    JSON.stringify({
-                      message:
-                        "Waiting 3 seconds for audit results to be available...",
-                    })
-                  );
-                  await new Promise((resolve) => setTimeout(resolve, 3000));
-
-                  const auditResults =
-                    await inferenceClient.auditInferenceRequestResponseID(
-                      inferenceResponseID
-                    );
-                  const validationResults = utils.validateInferenceData(
-                    inferenceResult,
-                    auditResults
-                  );
-                  console.log(
-                    `Validation results: ${utils.prettyJSON(validationResults)}`
-                  );
-                  callback(
-                    JSON.stringify({
-                      message: `Validation results: ${utils.prettyJSON(
-                        validationResults
-                      )}`,
-                    })
-                  );
-                  if (!auditResults) {
-                    console.warn("Audit results are null");
-                    callback(
-                      JSON.stringify({ message: "Audit results are null" })
-                    );
-                  }
-                  if (!validationResults) {
-                    console.warn("Validation results are null");
-                    callback(
-                      JSON.stringify({ message: "Validation results are null" })
-                    );
-                  }
-                }
-                localStorage.removeItem("MY_LOCAL_INFERENCE_REQUEST_INFO");
-                return inferenceResult;
-              } else {
-                console.log("Inference results not available yet; retrying...");
-                callback(
-                  JSON.stringify({
-                    message: "Inference results not available yet; retrying...",
-                  })
-                );
-              }
-            }
-          }
-        } else {
-          console.log(
-            `Quoted price of ${proposedCostInCredits} credits exceeds the maximum allowed cost of ${params.maximumInferenceCostInCredits} credits. Inference request not confirmed.`
+    const resultsAvailable =
+      await inferenceClient.checkStatusOfInferenceRequestResults(
+        state.supernode_url,
+        inferenceResponseID,
+        callback
+      );
+    if (resultsAvailable) {
+      await saveInferenceRequestState(state, {
+        status: "results_ready",
+        last_error: "",
+      });
+      return;
+    }
+    console.log("Inference results not available yet; retrying...");
+    callback(
+      JSON.stringify({
+        message: "Inference results not available yet; retrying...",
+      })
+    );
+  }
+
+  throw new Error(
+    `Inference results for ${state.inference_request_id} were not available after ${MAX_TRIES_TO_GET_INFERENCE_RESULTS} attempts`
+  );
+}
+
+async function retrieveInferenceResults(
+  state: InferenceRequestState,
+  inferenceClient: PastelInferenceClient,
+  callback: (value: string) => void
+): Promise<void> {
+  const outputResults = await inferenceClient.retrieveInferenceOutputResults(
+    state.supernode_url,
+    state.inference_request_id,
+    state.usage_request_response?.inference_response_id || "",
+    callback
+  );
+  await saveInferenceRequestState(state, {
+    status: "retrieved",
+    output_results: outputResults,
+    last_error: "",
+  });
+}
+
+async function auditInferenceResults(
+  state: InferenceRequestState,
+  inferenceClient: PastelInferenceClient,
+  callback: (value: string) => void
+): Promise<void> {
+  // Auditors learn of the result as it propagates, so ask again until
+  // enough of them answer; an auditor that answered once is kept
+  const responsesByAuditor = new Map<string, InferenceAuditorResponse>();
+  for (let round = 1; round <= MAX_INFERENCE_AUDIT_ROUNDS; round++) {
+    const responses = await inferenceClient.auditInferenceRequestResponseID(
+      state.usage_request_response?.inference_response_id || "",
+      state.supernode_url
+    );
+    for (const response of responses) {
+      const previous = responsesByAuditor.get(response.supernode_pastelid);
+      if (!previous || !(previous.response_audit && previous.result_audit)) {
+        responsesByAuditor.set(response.supernode_pastelid, response);
+      }
+    }
+    const respondingCount = Array.from(responsesByAuditor.values()).filter(
+      (response) => response.response_audit && response.result_audit
+    ).length;
+    if (respondingCount >= INFERENCE_AUDIT_QUORUM || round === MAX_INFERENCE_AUDIT_ROUNDS) {
+      break;
+    }
+    callback(
+      JSON.stringify({
+        message: `${respondingCount} of the ${INFERENCE_AUDIT_QUORUM} auditing supernodes needed have responded; asking again in ${
+          INFERENCE_AUDIT_RETRY_DELAY_MS / 1000
+        } seconds`,
+      })
+    );
+    await new Promise((resolve) => setTimeout(resolve, INFERENCE_AUDIT_RETRY_DELAY_MS));
+  }
+  const auditorResponses = Array.from(responsesByAuditor.values());
+  const verdict = await utils.verifyInferenceConsensus(
+    buildInferenceResult(state),
+    auditorResponses,
+    INFERENCE_AUDIT_QUORUM
+  );
+  console.log(`Consensus verdict: ${utils.prettyJSON(verdict)}`);
+  callback(
+    JSON.stringify({
+      message: `Consensus verdict from ${verdict.responding_auditor_count} auditing supernodes: ${verdict.status}`,
+    })
+  );
+  if (verdict.dissenting_nodes.length > 0) {
+    const dissenters = verdict.dissenting_nodes
+      .map(
+        (node) =>
+          `${node.supernode_pastelid} (${node.mismatched_fields.join(", ")})`
+      )
+      .join("; ");
+    console.warn(`Dissenting supernodes: ${dissenters}`);
+    callback(
+      JSON.stringify({ message: `Dissenting supernodes: ${dissenters}` })
+    );
+  }
+
+  const outputResults = {
+    ...(state.output_results as InferenceAPIOutputResult),
+    consensus_verdict: verdict,
+  };
+  const storedOutputResult = await db.findByIndex<InferenceAPIOutputResult>(
+    "InferenceAPIOutputResult",
+    "inference_result_id",
+    outputResults.inference_result_id
+  );
+  if (storedOutputResult) {
+    await db.saveData("InferenceAPIOutputResult", {
+      ...storedOutputResult,
+      consensus_verdict: verdict,
+    });
+  }
+  await saveInferenceRequestState(state, {
+    status: "audited",
+    output_results: outputResults,
+  });
+}
+
+/**
+ * Advances a persisted inference request through its remaining states.
+ * Failures before the tracking transaction is sent mark the request as failed;
+ * failures after it leave the request in place so it can be resumed later.
+ */
+async function driveInferenceRequest(
+  state: InferenceRequestState,
+  callback: (value: string) => void,
+  onToken?: (token: string) => void,
+  hooks?: InferenceRequestHooks
+): Promise<InferenceResult | null> {
+  if (state.id === undefined || activeInferenceRequests.has(state.id)) {
+    return null;
+  }
+  const pastelID = pastelGlobals.getPastelId();
+  const passphrase = pastelGlobals.getPassphrase();
+  if (!pastelID || !passphrase) {
+    throw new Error("PastelID or passphrase is not set");
+  }
+  const lockName = `InferenceRequestState:${state.inference_request_id}`;
+  if (
+    !(await db.acquireLock(
+      lockName,
+      INFERENCE_REQUEST_LOCK_OWNER,
+      INFERENCE_REQUEST_LOCK_TTL_MS
+    ))
+  ) {
+    browserLogger.info(
+      `Inference request ${state.inference_request_id} is being driven by another tab`
+    );
+    return null;
+  }
+  const lockRenewal = setInterval(() => {
+    db.acquireLock(
+      lockName,
+      INFERENCE_REQUEST_LOCK_OWNER,
+      INFERENCE_REQUEST_LOCK_TTL_MS
+    ).catch((error) =>
+      browserLogger.warn(
+        `Unable to renew the lock on inference request ${
+          state.inference_request_id
+        }: ${(error as Error).message}`
+      )
+    );
+  }, INFERENCE_REQUEST_LOCK_RENEW_INTERVAL_MS);
+  activeInferenceRequests.add(state.id);
+  try {
+    // Another tab may have advanced the request before the lock was claimed
+    Object.assign(
+      state,
+      await db.getData<InferenceRequestState>("InferenceRequestState", state.id)
+    );
+    const inferenceClient = new PastelInferenceClient({ pastelID, passphrase });
+    for (;;) {
+      hooks?.onStateChange?.(state);
+      switch (state.status) {
+        case "requested":
+          await requestInferenceQuote(state, inferenceClient, callback, hooks);
+          break;
+        case "quoted":
+        case "tracking_tx_pending":
+          await sendInferenceTrackingTransaction(state, callback);
+          break;
+        case "tracking_tx_sent":
+          await confirmInferenceRequest(state, inferenceClient, callback);
+          break;
+        case "confirmed":
+          await waitForInferenceResults(
+            state,
+            inferenceClient,
+            callback,
+            onToken,
+            hooks?.onStreamedTokensDiscarded
           );
+          break;
+        case "results_ready":
+          await retrieveInferenceResults(state, inferenceClient, callback);
+          break;
+        case "retrieved":
+          if (isInferenceAuditEnabled()) {
+            await auditInferenceResults(state, inferenceClient, callback);
+            break;
+          }
+          return buildInferenceResult(state);
+        case "audited":
+          return buildInferenceResult(state);
+        case "failed":
           callback(
             JSON.stringify({
-              message: `Quoted price of ${proposedCostInCredits} credits exceeds the maximum allowed cost of ${params.maximumInferenceCostInCredits} credits. Inference request not confirmed.`,
+              message: `Inference request ${state.inference_request_id} failed: ${state.last_error}`,
             })
           );
-        }
-      } catch (err) {
-        console.warn(
-          `Failed inference request to Supernode URL ${supernodeURL}. Moving on to the next one. Error: ${
-            (err as Error).message
-          }`
-        );
-        callback(
-          JSON.stringify({
-            message: `Failed inference request to Supernode URL ${supernodeURL}. Moving on to the next one. Error: ${
-              (err as Error).message
-            }`,
-          })
-        );
+          return null;
       }
     }
-
-    console.error(`Failed to make inference request after ${maxTries} tries.`);
+  } catch (error) {
+    const paymentSent =
+      state.status !== "requested" && state.status !== "quoted";
+    await saveInferenceRequestState(state, {
+      status: paymentSent ? state.status : "failed",
+      last_error: (error as Error).message,
+    });
+    hooks?.onStateChange?.(state);
+    console.error(
+      `Inference request ${state.inference_request_id} stopped in state ${state.status}: ${
+        (error as Error).message
+      }`
+    );
     callback(
       JSON.stringify({
-        message: `Failed to make inference request after ${maxTries} tries.`,
+        message: paymentSent
+          ? `Inference request ${state.inference_request_id} was interrupted and will be resumed later: ${
+              (error as Error).message
+            }`
+          : `Inference request failed: ${(error as Error).message}`,
       })
     );
     return null;
+  } finally {
+    clearInterval(lockRenewal);
+    activeInferenceRequests.delete(state.id);
+    await db
+      .releaseLock(lockName, INFERENCE_REQUEST_LOCK_OWNER)
+      .catch((error) =>
+        browserLogger.warn(
+          `Unable to release the lock on inference request ${
+            state.inference_request_id
+          }: ${(error as Error).message}`
+        )
+      );
+  }
+}
+
+export async function handleInferenceRequestEndToEnd(
+  params: InferenceRequestParams,
+  callback: (value: string) => void,
+  onToken?: (token: string) => void,
+  hooks?: InferenceRequestHooks
+): Promise<InferenceResult | null> {
+  try {
+    const pastelID = pastelGlobals.getPastelId();
+    const passphrase = pastelGlobals.getPassphrase();
+    if (!pastelID || !passphrase) {
+      callback(
+        JSON.stringify({ message: "PastelID or passphrase is not set" })
+      );
+      throw new Error("PastelID or passphrase is not set");
+    }
+    const createdAt = new Date().toISOString();
+    const state: InferenceRequestState = {
+      inference_request_id: uuidv4(),
+      requesting_pastelid: pastelID,
+      status: "requested",
+      params,
+      supernode_url: "",
+      request_data: null,
+      usage_request_response: null,
+      tracking_transaction_txid: "",
+      output_results: null,
+      confirmation_attempts: 0,
+      last_error: "",
+      batch_job_id: hooks?.batchJobID || "",
+      created_at_utc_iso_string: createdAt,
+      updated_at_utc_iso_string: createdAt,
+    };
+    state.id = (await db.addData("InferenceRequestState", state)) as number;
+    return await driveInferenceRequest(state, callback, onToken, hooks);
   } catch (error) {
     console.error(
       `Error in handleInferenceRequestEndToEnd: ${(error as Error).message}`
@@ -1355,3 +2361,74 @@ export async function handleInferenceRequestEndToEnd(
     throw error;
   }
 }
+
+/**
+ * Resumes a single persisted inference request, e.g. a batch job item that
+ * was interrupted after payment.
+ * @returns The result, or null if the request failed or is already running.
+ */
+export async function resumeInferenceRequestEndToEnd(
+  inferenceRequestStateID: number,
+  callback: (value: string) => void,
+  hooks?: InferenceRequestHooks
+): Promise<InferenceResult | null> {
+  const state = await db.getData<InferenceRequestState>(
+    "InferenceRequestState",
+    inferenceRequestStateID
+  );
+  if (!state) {
+    throw new Error(
+      `Inference request state ${inferenceRequestStateID} not found`
+    );
+  }
+  return await driveInferenceRequest(state, callback, undefined, hooks);
+}
+
+/**
+ * Resumes every unfinished inference request of the current PastelID,
+ * including retrieved results still waiting for their audit.
+ * Requests owned by a batch job are left to the batch queue.
+ * Requests already running in this or another tab are skipped, the rest run
+ * concurrently.
+ * @returns The results of the requests that completed.
+ */
+export async function resumeInferenceRequestsEndToEnd(
+  callback: (value: string) => void
+): Promise<InferenceResult[]> {
+  const pastelID = pastelGlobals.getPastelId();
+  if (!pastelID || !pastelGlobals.getPassphrase()) {
+    return [];
+  }
+  const states = await db.getAllData<InferenceRequestState>(
+    "InferenceRequestState"
+  );
+  const unfinished = states.filter(
+    (state) =>
+      state.requesting_pastelid === pastelID &&
+      !state.batch_job_id &&
+      !["audited", "failed"].includes(state.status) &&
+      (state.status !== "retrieved" || isInferenceAuditEnabled()) &&
+      state.id !== undefined &&
+      !activeInferenceRequests.has(state.id)
+  );
+  if (unfinished.length === 0) {
+    return [];
+  }
+  browserLogger.info(
+    `Resuming ${unfinished.length} unfinished inference request(s)`
+  );
+  callback(
+    JSON.stringify({
+      message: `Resuming ${unfinished.length} unfinished inference request(s)`,
+    })
+  );
+  const outcomes = await Promise.allSettled(
+    unfinished.map((state) => driveInferenceRequest(state, callback))
+  );
+  return outcomes
+    .filter(
+      (outcome): outcome is PromiseFulfilledResult<InferenceResult> =>
+        outcome.status === "fulfilled" && outcome.value !== null
+    )
+    .map((outcome) => outcome.value);
+}
@@ -0,0 +1,151 @@
+// src/app/lib/errors.ts
+
+'use client'
+
+/**
+ * Raised when a message received from a supernode fails hash or PastelID
+ * signature verification. Flows must stop instead of moving on, since the
+ * data cannot be trusted and nothing should be paid on its basis.
+ */
+export class SupernodeMessageVerificationError extends Error {
+  public readonly messageType: string;
+  public readonly supernodeURL: string;
+  public readonly failures: string[];
+
+  constructor(messageType: string, supernodeURL: string, failures: string[]) {
+    super(
+      `Verification of ${messageType} from supernode ${
+        supernodeURL || "(unknown)"
+      } failed: ${failures.join("; ")}`
+    );
+    this.name = "SupernodeMessageVerificationError";
+    this.messageType = messageType;
+    this.supernodeURL = supernodeURL;
+    this.failures = failures;
+  }
+}
+
+/**
+ * Raised when a spending policy refuses a payment. The refusal is already
+ * logged and recorded by the policy engine when this is thrown.
+ */
+export class SpendingPolicyViolationError extends Error {
+  public readonly rule: string;
+  public readonly reason: string;
+
+  constructor(rule: string, reason: string) {
+    super(`Refused by spending policy (${rule}): ${reason}`);
+    this.name = "SpendingPolicyViolationError";
+    this.rule = rule;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Raised when a secret is needed while the keystore is locked, either because
+ * the PIN has not been entered yet or because it auto-locked when idle.
+ */
+export class KeystoreLockedError extends Error {
+  constructor(purpose: string) {
+    super(`The keystore is locked; unlock it with your PIN to ${purpose}`);
+    this.name = "KeystoreLockedError";
+  }
+}
+
+/**
+ * Raised when the UTXOs available to coin selection cannot cover a payment
+ * and its estimated fee.
+ */
+export class InsufficientFundsError extends Error {
+  public readonly availableInPSL: number;
+  public readonly neededInPSL: number;
+
+  constructor(availableInPSL: number, neededInPSL: number) {
+    super(
+      `Insufficient funds: have ${availableInPSL.toFixed(
+        5
+      )} PSL, need ${neededInPSL.toFixed(5)} PSL including the fee`
+    );
+    this.name = "InsufficientFundsError";
+    this.availableInPSL = availableInPSL;
+    this.neededInPSL = neededInPSL;
+  }
+}
+
+/**
+ * Raised when a transaction that has to be confirmed before broadcast is not,
+ * because it was declined or nobody could be asked.
+ */
+export class TransactionNotConfirmedError extends Error {
+  public readonly previewId: string;
+
+  constructor(previewId: string, reason: string) {
+    super(`Transaction ${previewId} was not broadcast: ${reason}`);
+    this.name = "TransactionNotConfirmedError";
+    this.previewId = previewId;
+  }
+}
+
+/**
+ * Raised when something has to be signed while the app runs as a watch-only
+ * wallet, which holds addresses and PastelIDs but none of their keys.
+ */
+export class WatchOnlyWalletError extends Error {
+  constructor(purpose: string) {
+    super(
+      `This is a watch-only wallet without private keys, so it cannot ${purpose}`
+    );
+    this.name = "WatchOnlyWalletError";
+  }
+}
+
+/**
+ * Raised when a signature was sent to an offline instance and no valid
+ * response came back, because the request was cancelled or answered wrongly.
+ */
+export class OfflineSigningError extends Error {
+  public readonly requestId: string;
+
+  constructor(requestId: string, reason: string) {
+    super(`Offline signing request ${requestId} failed: ${reason}`);
+    this.name = "OfflineSigningError";
+    this.requestId = requestId;
+  }
+}
+
+/**
+ * Raised when an address, or a credit pack through its tracking address,
+ * belongs to another network than the one in use.
+ */
+export class NetworkMismatchError extends Error {
+  public readonly address: string;
+
+  constructor(
+    address: string,
+    addressNetwork: string,
+    currentNetwork: string,
+    purpose: string
+  ) {
+    super(
+      `Cannot ${purpose}: ${address} is a ${addressNetwork} address, but the wallet is on ${currentNetwork}`
+    );
+    this.name = "NetworkMismatchError";
+    this.address = address;
+  }
+}
+
+/**
+ * Raised when a message is to be sent to a PastelID whose encryption key is
+ * not known yet. Messages are never sent unencrypted instead.
+ */
+export class MissingEncryptionKeyError extends Error {
+  public readonly pastelID: string;
+
+  constructor(pastelID: string) {
+    super(
+      `No encryption key is known for PastelID ${pastelID}; request theirs or import their key statement first`
+    );
+    this.name = "MissingEncryptionKeyError";
+    this.pastelID = pastelID;
+  }
+}
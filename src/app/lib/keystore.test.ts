@@ -0,0 +1,74 @@
+// src/app/lib/keystore.test.ts
+
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { keystore } from "@/app/lib/keystore";
+import { KeystoreLockedError } from "@/app/lib/errors";
+
+const PIN = "123456";
+const NEW_PIN = "654321";
+const PASTELID = `jX${"a".repeat(84)}`;
+
+describe("keystore PIN changes", () => {
+  beforeEach(async () => {
+    await keystore.reset();
+    await keystore.setUp(PIN);
+    await keystore.setWalletPassword("wallet-password");
+    await keystore.setPastelIDPassphrase(PASTELID, "pastelid-passphrase");
+  });
+
+  afterEach(() => {
+    keystore.lock();
+  });
+
+  it("re-encrypts every secret under the new PIN", async () => {
+    await keystore.changePin(PIN, NEW_PIN);
+    expect(keystore.getWalletPassword()).toBe("wallet-password");
+
+    keystore.lock();
+    await expect(keystore.unlock(PIN)).rejects.toThrow("Incorrect PIN");
+    await keystore.unlock(NEW_PIN);
+    expect(keystore.getWalletPassword()).toBe("wallet-password");
+    expect(keystore.getPastelIDPassphrase(PASTELID)).toBe("pastelid-passphrase");
+  });
+
+  it("keeps the old PIN when the current PIN is wrong", async () => {
+    await expect(keystore.changePin("000000", NEW_PIN)).rejects.toThrow(
+      "Incorrect PIN"
+    );
+    keystore.lock();
+    await expect(keystore.unlock(NEW_PIN)).rejects.toThrow("Incorrect PIN");
+    await keystore.unlock(PIN);
+    expect(keystore.getWalletPassword()).toBe("wallet-password");
+  });
+
+  it("refuses a new PIN that is too short", async () => {
+    await expect(keystore.changePin(PIN, "123")).rejects.toThrow(
+      "at least 6 characters"
+    );
+    keystore.lock();
+    await keystore.unlock(PIN);
+    expect(keystore.getPastelIDPassphrase(PASTELID)).toBe("pastelid-passphrase");
+  });
+
+  it("refuses to change the PIN while a stored secret cannot be decrypted", async () => {
+    await BrowserDatabase.getInstance().saveData("Keystore", {
+      id: "secret:corrupted",
+      iv: "AAAAAAAAAAAAAAAA",
+      ciphertext: "AAAAAAAAAAAAAAAAAAAAAA==",
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+    await expect(keystore.changePin(PIN, NEW_PIN)).rejects.toThrow(
+      "secret:corrupted"
+    );
+    keystore.lock();
+    await keystore.unlock(PIN);
+    expect(keystore.getWalletPassword()).toBe("wallet-password");
+  });
+
+  it("hides the secrets once locked", async () => {
+    keystore.lock();
+    expect(() => keystore.getWalletPassword()).toThrow(KeystoreLockedError);
+  });
+});
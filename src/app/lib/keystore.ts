@@ -0,0 +1,544 @@
+// src/app/lib/keystore.ts
+
+'use client'
+
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { KeystoreLockedError } from "@/app/lib/errors";
+import browserLogger from "@/app/lib/logger";
+import { base64ToBytes, bytesToBase64 } from "@/app/lib/utils";
+import {
+  KeystoreEncryptedValue,
+  KeystoreMetadata,
+  KeystoreSecretRecord,
+} from "@/app/types";
+
+const STORE_NAME = "Keystore";
+const METADATA_ID = "metadata";
+const SECRET_ID_PREFIX = "secret:";
+const WALLET_PASSWORD_SECRET = "wallet_password";
+const PASTELID_PASSPHRASE_SECRET_PREFIX = "pastelid_passphrase:";
+const MESSAGE_ENCRYPTION_KEY_SECRET_PREFIX = "message_encryption_key:";
+const VERIFIER_PLAINTEXT = "pastel-inference-client-keystore";
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+export const MIN_PIN_LENGTH = 6;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "mousemove", "scroll", "touchstart"];
+const ACTIVITY_THROTTLE_MS = 5000;
+const LEGACY_PASTELID_KEY = /^jX[A-Za-z0-9]{84}$/;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+async function deriveKey(
+  pin: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    textEncoder.encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+// The record id is bound as additional data, so ciphertexts cannot be swapped
+async function encryptValue(
+  key: CryptoKey,
+  recordID: string,
+  plaintext: string
+): Promise<KeystoreEncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: textEncoder.encode(recordID) },
+    key,
+    textEncoder.encode(plaintext)
+  );
+  return {
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function decryptValue(
+  key: CryptoKey,
+  recordID: string,
+  value: KeystoreEncryptedValue
+): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: base64ToBytes(value.iv),
+      additionalData: textEncoder.encode(recordID),
+    },
+    key,
+    base64ToBytes(value.ciphertext)
+  );
+  return textDecoder.decode(plaintext);
+}
+
+function validatePin(pin: string): void {
+  if (pin.length < MIN_PIN_LENGTH) {
+    throw new Error(`The PIN must be at least ${MIN_PIN_LENGTH} characters long`);
+  }
+}
+
+/**
+ * Singleton keystore holding the wallet password and the PastelID passphrases
+ * encrypted at rest in IndexedDB, under an AES-GCM key derived from the user's
+ * PIN with PBKDF2. Decrypted secrets and the key only live in memory while
+ * unlocked, and are dropped when locking, which happens automatically after
+ * the configured idle time.
+ */
+export class Keystore {
+  private static instance: Keystore;
+  private db: BrowserDatabase;
+  private key: CryptoKey | null = null;
+  private secrets: Map<string, string> = new Map();
+  private autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private lastActivityMs = 0;
+  private isTrackingActivity = false;
+  private listeners: Set<(unlocked: boolean) => void> = new Set();
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): Keystore {
+    if (!Keystore.instance) {
+      Keystore.instance = new Keystore();
+    }
+    return Keystore.instance;
+  }
+
+  /**
+   * Registers a listener called with the new state on every lock and unlock.
+   * Returns a function removing it.
+   */
+  public subscribe(listener: (unlocked: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const unlocked = this.isUnlocked();
+    this.listeners.forEach((listener) => {
+      try {
+        listener(unlocked);
+      } catch (error) {
+        browserLogger.error("Keystore listener failed:", error);
+      }
+    });
+  }
+
+  private async getMetadata(): Promise<KeystoreMetadata | undefined> {
+    await initializeStorage();
+    return this.db.getData<KeystoreMetadata>(STORE_NAME, METADATA_ID);
+  }
+
+  public async isSetUp(): Promise<boolean> {
+    return (await this.getMetadata()) !== undefined;
+  }
+
+  public isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  /**
+   * Creates the keystore protected by the given PIN and unlocks it. Secrets
+   * still kept in plain localStorage by earlier versions are moved into it.
+   */
+  public async setUp(pin: string): Promise<void> {
+    validatePin(pin);
+    if (await this.isSetUp()) {
+      throw new Error("The keystore is already set up");
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(pin, salt, PBKDF2_ITERATIONS);
+    const now = new Date().toISOString();
+    const metadata: KeystoreMetadata = {
+      id: METADATA_ID,
+      kdf: "PBKDF2-SHA256",
+      kdf_iterations: PBKDF2_ITERATIONS,
+      kdf_salt: bytesToBase64(salt),
+      verifier: await encryptValue(key, METADATA_ID, VERIFIER_PLAINTEXT),
+      auto_lock_minutes: DEFAULT_AUTO_LOCK_MINUTES,
+      created_at_utc_iso_string: now,
+      updated_at_utc_iso_string: now,
+    };
+    await this.db.saveData(STORE_NAME, metadata);
+    browserLogger.info("Keystore set up");
+    await this.openWithKey(key, metadata);
+  }
+
+  /**
+   * Unlocks the keystore; throws if the PIN is wrong.
+   */
+  public async unlock(pin: string): Promise<void> {
+    const metadata = await this.getMetadata();
+    if (!metadata) {
+      throw new Error("The keystore is not set up yet");
+    }
+    const key = await deriveKey(
+      pin,
+      base64ToBytes(metadata.kdf_salt),
+      metadata.kdf_iterations
+    );
+    try {
+      const verifier = await decryptValue(key, METADATA_ID, metadata.verifier);
+      if (verifier !== VERIFIER_PLAINTEXT) throw new Error("Verifier mismatch");
+    } catch {
+      throw new Error("Incorrect PIN");
+    }
+    await this.openWithKey(key, metadata);
+    browserLogger.info("Keystore unlocked");
+  }
+
+  private async openWithKey(
+    key: CryptoKey,
+    metadata: KeystoreMetadata
+  ): Promise<void> {
+    const secrets = new Map<string, string>();
+    const records = await this.db.getAllData<KeystoreSecretRecord>(STORE_NAME);
+    for (const record of records) {
+      if (!record.id.startsWith(SECRET_ID_PREFIX)) continue;
+      try {
+        secrets.set(
+          record.id.slice(SECRET_ID_PREFIX.length),
+          await decryptValue(key, record.id, record)
+        );
+      } catch (error) {
+        browserLogger.error(`Failed to decrypt keystore secret ${record.id}:`, error);
+      }
+    }
+    this.key = key;
+    this.secrets = secrets;
+    this.autoLockMinutes = metadata.auto_lock_minutes;
+    await this.migrateLegacySecrets();
+    this.recordActivity(true);
+    this.notify();
+  }
+
+  public lock(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (!this.key) return;
+    this.key = null;
+    this.secrets = new Map();
+    browserLogger.info("Keystore locked");
+    this.notify();
+  }
+
+  /**
+   * Re-encrypts every secret under a key derived from the new PIN. The
+   * records and the new salt and verifier are written in one transaction, so
+   * an interruption leaves the keystore under the old PIN. Refused when any
+   * stored secret cannot be decrypted, since it would be left under the old
+   * key for good.
+   */
+  public async changePin(currentPin: string, newPin: string): Promise<void> {
+    validatePin(newPin);
+    const metadata = await this.getMetadata();
+    if (!metadata) {
+      throw new Error("The keystore is not set up yet");
+    }
+    await this.unlock(currentPin);
+    const currentKey = this.key as CryptoKey;
+    const secrets = new Map<string, string>();
+    const undecryptable: string[] = [];
+    const records = await this.db.getAllData<KeystoreSecretRecord>(STORE_NAME);
+    for (const record of records) {
+      if (!record.id.startsWith(SECRET_ID_PREFIX)) continue;
+      try {
+        secrets.set(
+          record.id.slice(SECRET_ID_PREFIX.length),
+          await decryptValue(currentKey, record.id, record)
+        );
+      } catch {
+        undecryptable.push(record.id);
+      }
+    }
+    if (undecryptable.length) {
+      throw new Error(
+        `The PIN was not changed: ${undecryptable.length} stored secret(s) could not be decrypted (${undecryptable.join(", ")})`
+      );
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const key = await deriveKey(newPin, salt, PBKDF2_ITERATIONS);
+    const now = new Date().toISOString();
+    const reencrypted: (KeystoreSecretRecord | KeystoreMetadata)[] = [];
+    for (const [name, value] of Array.from(secrets)) {
+      const id = `${SECRET_ID_PREFIX}${name}`;
+      reencrypted.push({
+        id,
+        ...(await encryptValue(key, id, value)),
+        updated_at_utc_iso_string: now,
+      });
+    }
+    reencrypted.push({
+      ...metadata,
+      kdf_iterations: PBKDF2_ITERATIONS,
+      kdf_salt: bytesToBase64(salt),
+      verifier: await encryptValue(key, METADATA_ID, VERIFIER_PLAINTEXT),
+      updated_at_utc_iso_string: now,
+    });
+    await this.db.saveAllData(STORE_NAME, reencrypted);
+    this.key = key;
+    this.secrets = secrets;
+    browserLogger.info("Keystore PIN changed");
+  }
+
+  /**
+   * Deletes the keystore and every secret in it, for when the PIN is lost.
+   * The wallet can then only be restored from its backup QR code or file.
+   */
+  public async reset(): Promise<void> {
+    this.lock();
+    await initializeStorage();
+    const records = await this.db.getAllData<KeystoreSecretRecord>(STORE_NAME);
+    for (const record of records) {
+      await this.db.deleteData(STORE_NAME, record.id);
+    }
+    browserLogger.warn("Keystore reset; all stored secrets were deleted");
+  }
+
+  public getAutoLockMinutes(): number {
+    return this.autoLockMinutes;
+  }
+
+  /**
+   * Sets the idle time after which the keystore locks itself; 0 disables
+   * auto-locking.
+   */
+  public async setAutoLockMinutes(minutes: number): Promise<void> {
+    if (!Number.isFinite(minutes) || minutes < 0) {
+      throw new Error("The auto-lock timeout must be a non-negative number of minutes");
+    }
+    const metadata = await this.getMetadata();
+    if (!metadata) {
+      throw new Error("The keystore is not set up yet");
+    }
+    await this.db.saveData<KeystoreMetadata>(STORE_NAME, {
+      ...metadata,
+      auto_lock_minutes: minutes,
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+    this.autoLockMinutes = minutes;
+    this.recordActivity(true);
+  }
+
+  /**
+   * Restarts the idle timer. Called from user activity, throttled unless
+   * forced.
+   */
+  public recordActivity(force: boolean = false): void {
+    if (!this.key) return;
+    const now = Date.now();
+    if (!force && now - this.lastActivityMs < ACTIVITY_THROTTLE_MS) return;
+    this.lastActivityMs = now;
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer =
+      this.autoLockMinutes > 0
+        ? setTimeout(() => {
+            browserLogger.info(
+              `Locking the keystore after ${this.autoLockMinutes} idle minutes`
+            );
+            this.lock();
+          }, this.autoLockMinutes * 60 * 1000)
+        : null;
+  }
+
+  public startActivityTracking(): void {
+    if (this.isTrackingActivity || typeof window === "undefined") return;
+    this.isTrackingActivity = true;
+    const onActivity = () => this.recordActivity();
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    );
+  }
+
+  private getSecret(name: string, purpose: string): string | null {
+    if (!this.key) {
+      throw new KeystoreLockedError(purpose);
+    }
+    return this.secrets.get(name) ?? null;
+  }
+
+  private async setSecret(
+    name: string,
+    value: string,
+    purpose: string
+  ): Promise<void> {
+    if (!this.key) {
+      throw new KeystoreLockedError(purpose);
+    }
+    const id = `${SECRET_ID_PREFIX}${name}`;
+    await initializeStorage();
+    await this.db.saveData<KeystoreSecretRecord>(STORE_NAME, {
+      id,
+      ...(await encryptValue(this.key, id, value)),
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+    this.secrets.set(name, value);
+  }
+
+  private async deleteSecret(name: string): Promise<void> {
+    await initializeStorage();
+    await this.db.deleteData(STORE_NAME, `${SECRET_ID_PREFIX}${name}`);
+    this.secrets.delete(name);
+  }
+
+  public getWalletPassword(): string | null {
+    return this.getSecret(WALLET_PASSWORD_SECRET, "use the wallet");
+  }
+
+  public async setWalletPassword(password: string): Promise<void> {
+    await this.setSecret(WALLET_PASSWORD_SECRET, password, "store the wallet password");
+  }
+
+  public getPastelIDPassphrase(pastelID: string): string | null {
+    return this.getSecret(
+      `${PASTELID_PASSPHRASE_SECRET_PREFIX}${pastelID}`,
+      "use the PastelID passphrase"
+    );
+  }
+
+  public async setPastelIDPassphrase(
+    pastelID: string,
+    passphrase: string
+  ): Promise<void> {
+    await this.setSecret(
+      `${PASTELID_PASSPHRASE_SECRET_PREFIX}${pastelID}`,
+      passphrase,
+      "store the PastelID passphrase"
+    );
+  }
+
+  public async deletePastelIDPassphrase(pastelID: string): Promise<void> {
+    await this.deleteSecret(`${PASTELID_PASSPHRASE_SECRET_PREFIX}${pastelID}`);
+  }
+
+  /**
+   * The private key messages to a PastelID are encrypted to, as a JWK.
+   */
+  public getMessageEncryptionKey(pastelID: string): string | null {
+    return this.getSecret(
+      `${MESSAGE_ENCRYPTION_KEY_SECRET_PREFIX}${pastelID}`,
+      "decrypt messages"
+    );
+  }
+
+  public async setMessageEncryptionKey(
+    pastelID: string,
+    privateKey: string
+  ): Promise<void> {
+    await this.setSecret(
+      `${MESSAGE_ENCRYPTION_KEY_SECRET_PREFIX}${pastelID}`,
+      privateKey,
+      "store the message encryption key"
+    );
+  }
+
+  /**
+   * Moves the secrets that earlier versions kept in localStorage (the wallet
+   * password in three places, the base64 "remembered" PastelID passphrases and
+   * the current PastelID passphrase) into the keystore, then removes the
+   * plaintext copies.
+   */
+  private async migrateLegacySecrets(): Promise<void> {
+    if (typeof window === "undefined") return;
+    const storage = window.localStorage;
+    let migrated = 0;
+
+    const legacyWalletPasswords: (string | null | undefined)[] = [
+      storage.getItem("walletPassword"),
+    ];
+    const walletInfo = storage.getItem("walletInfo");
+    let walletData: Record<string, unknown> | null = null;
+    if (walletInfo) {
+      try {
+        walletData = JSON.parse(atob(walletInfo));
+        legacyWalletPasswords.push(walletData?.walletPassword as string);
+      } catch {
+        walletData = null;
+      }
+    }
+    const persistedStore = storage.getItem("pastel-wallet-storage");
+    let persistedState: { state?: Record<string, unknown> } | null = null;
+    if (persistedStore) {
+      try {
+        persistedState = JSON.parse(persistedStore);
+        legacyWalletPasswords.push(persistedState?.state?.walletPassword as string);
+      } catch {
+        persistedState = null;
+      }
+    }
+    const legacyWalletPassword = legacyWalletPasswords.find(Boolean);
+    if (legacyWalletPassword && !this.secrets.has(WALLET_PASSWORD_SECRET)) {
+      await this.setWalletPassword(legacyWalletPassword);
+      migrated++;
+    }
+    storage.removeItem("walletPassword");
+    if (walletData && "walletPassword" in walletData) {
+      delete walletData.walletPassword;
+      storage.setItem("walletInfo", btoa(JSON.stringify(walletData)));
+    }
+    if (persistedState?.state && "walletPassword" in persistedState.state) {
+      delete persistedState.state.walletPassword;
+      storage.setItem("pastel-wallet-storage", JSON.stringify(persistedState));
+    }
+
+    const currentPastelID = storage.getItem("MY_LOCAL_PASTELID");
+    const currentPassphrase = storage.getItem("MY_PASTELID_PASSPHRASE");
+    if (currentPastelID && currentPassphrase) {
+      await this.setPastelIDPassphrase(currentPastelID, currentPassphrase);
+      migrated++;
+    }
+    storage.removeItem("MY_PASTELID_PASSPHRASE");
+
+    const legacyPassphraseKeys = Object.keys(storage).filter((key) =>
+      LEGACY_PASTELID_KEY.test(key)
+    );
+    for (const pastelID of legacyPassphraseKeys) {
+      const encoded = storage.getItem(pastelID);
+      if (encoded) {
+        try {
+          await this.setPastelIDPassphrase(pastelID, atob(encoded));
+          migrated++;
+        } catch (error) {
+          browserLogger.error(
+            `Failed to migrate the passphrase of PastelID ${pastelID}:`,
+            error
+          );
+          continue;
+        }
+      }
+      storage.removeItem(pastelID);
+    }
+
+    if (migrated > 0) {
+      browserLogger.info(`Moved ${migrated} secret(s) from localStorage into the keystore`);
+    }
+  }
+}
+
+export const keystore = Keystore.getInstance();
+
+export default Keystore;
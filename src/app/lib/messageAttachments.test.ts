@@ -0,0 +1,157 @@
+// src/app/lib/messageAttachments.test.ts
+
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import {
+  isAttachmentChunk,
+  messageAttachments,
+  parseAttachmentPart,
+} from "@/app/lib/messageAttachments";
+import { ArchivedUserMessage } from "@/app/types";
+
+const ALICE = `jX${"a".repeat(84)}`;
+const BOB = `jX${"b".repeat(84)}`;
+
+// Stands in for the wallet's PastelID signatures, which need the WASM module
+const fakeSign = (pastelID: string, data: string) => `signed:${pastelID}:${data}`;
+
+const archive = (
+  body: string,
+  from = ALICE,
+  to = BOB
+): ArchivedUserMessage => ({
+  id: uuidv4(),
+  from_pastelid: from,
+  to_pastelid: to,
+  message_body: body,
+  message_signature: fakeSign(from, body),
+  kind: "message",
+  is_encrypted: true,
+  body,
+  reply_requested: false,
+  verification_status: "verified",
+  verification_problems: [],
+  decryption_error: null,
+  owner_pastelid: to,
+  counterpart_pastelid: from,
+  direction: "incoming",
+  read_at_utc_iso_string: null,
+  archived_at_utc_iso_string: new Date().toISOString(),
+});
+
+// Varied enough that it does not compress into a single chunk
+const largeContent = Array.from(
+  { length: 3000 },
+  (_, i) => `${i}:${((i * 2654435761) % 4294967296).toString(36)}`
+).join(",");
+
+describe("messageAttachments", () => {
+  beforeAll(() => {
+    vi.spyOn(BrowserRPCReplacement.prototype, "signMessageWithPastelID").mockImplementation(
+      async (pastelID, data) => fakeSign(pastelID, data)
+    );
+    vi.spyOn(BrowserRPCReplacement.prototype, "verifyMessageWithPastelID").mockImplementation(
+      async (pastelID, data, signature) => signature === fakeSign(pastelID, data)
+    );
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("reassembles the content it split into chunks", async () => {
+    const { manifest, parts } = await messageAttachments.prepareAttachment(ALICE, BOB, {
+      file_name: "notes.txt",
+      mime_type: "text/plain",
+      content: largeContent,
+      content_encoding: "utf8",
+    });
+    expect(manifest.chunk_count).toBeGreaterThan(1);
+    expect(parts).toHaveLength(manifest.chunk_count + 1);
+
+    const messages = parts.map((part) => archive(part));
+    expect(messages.filter(isAttachmentChunk)).toHaveLength(manifest.chunk_count);
+    const { attachment, content } = await messageAttachments.getAttachmentContent(
+      messages,
+      manifest.attachment_id
+    );
+    expect(attachment.status).toBe("verified");
+    expect(content).toBe(largeContent);
+  });
+
+  it("round-trips base64 content", async () => {
+    const content = btoa(String.fromCharCode(0, 1, 2, 254, 255));
+    const { manifest, parts } = await messageAttachments.prepareAttachment(ALICE, BOB, {
+      file_name: "bytes.bin",
+      mime_type: "application/octet-stream",
+      content,
+      content_encoding: "base64",
+    });
+    const result = await messageAttachments.getAttachmentContent(
+      parts.map((part) => archive(part)),
+      manifest.attachment_id
+    );
+    expect(result.content).toBe(content);
+    expect(result.attachment.manifest?.content_encoding).toBe("base64");
+  });
+
+  it("reports missing chunks", async () => {
+    const { manifest, parts } = await messageAttachments.prepareAttachment(ALICE, BOB, {
+      file_name: "notes.txt",
+      mime_type: "text/plain",
+      content: largeContent,
+      content_encoding: "utf8",
+    });
+    const messages = parts.slice(0, -1).map((part) => archive(part));
+    const [attachment] = await messageAttachments.getAttachments(messages);
+    expect(attachment.status).toBe("incomplete");
+    await expect(
+      messageAttachments.getAttachmentContent(messages, manifest.attachment_id)
+    ).rejects.toThrow(`missing 1 of its ${manifest.chunk_count} chunks`);
+  });
+
+  it("rejects a chunk that does not match its hash", async () => {
+    const { manifest, parts } = await messageAttachments.prepareAttachment(ALICE, BOB, {
+      file_name: "notes.txt",
+      mime_type: "text/plain",
+      content: largeContent,
+      content_encoding: "utf8",
+    });
+    const chunk = parseAttachmentPart(parts[1]);
+    if (chunk?.part !== "chunk") throw new Error("Expected a chunk");
+    const tampered = JSON.stringify({ ...chunk, data: `A${chunk.data.slice(1)}B` });
+    const messages = [parts[0], tampered, ...parts.slice(2)].map((part) => archive(part));
+    await expect(
+      messageAttachments.getAttachmentContent(messages, manifest.attachment_id)
+    ).rejects.toThrow("Chunk 1 does not match its hash");
+  });
+
+  it("rejects a manifest not signed by the sender", async () => {
+    const { manifest, parts } = await messageAttachments.prepareAttachment(ALICE, BOB, {
+      file_name: "notes.txt",
+      mime_type: "text/plain",
+      content: "short note",
+      content_encoding: "utf8",
+    });
+    const forged = JSON.stringify({
+      ...JSON.parse(parts[0]),
+      manifest: { ...manifest, file_name: "renamed.txt" },
+    });
+    const messages = [forged, ...parts.slice(1)].map((part) => archive(part));
+    await expect(
+      messageAttachments.getAttachmentContent(messages, manifest.attachment_id)
+    ).rejects.toThrow("The manifest is not signed by the sender's PastelID");
+  });
+
+  it("refuses content that is not valid base64", async () => {
+    await expect(
+      messageAttachments.prepareAttachment(ALICE, BOB, {
+        file_name: "bytes.bin",
+        mime_type: "application/octet-stream",
+        content: "not base64!",
+        content_encoding: "base64",
+      })
+    ).rejects.toThrow("not valid base64");
+  });
+});
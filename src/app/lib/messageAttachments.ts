@@ -0,0 +1,393 @@
+// src/app/lib/messageAttachments.ts
+
+'use client'
+
+import { v4 as uuidv4 } from "uuid";
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import {
+  compressDataWithZstd,
+  computeSHA3256Hexdigest,
+  decompressDataWithZstd,
+} from "@/app/lib/utils";
+import { attachmentPartSchema } from "@/app/lib/validationSchemas";
+import {
+  ArchivedUserMessage,
+  AttachmentInput,
+  AttachmentManifest,
+  AttachmentPart,
+  MessageAttachment,
+  PastelIDType,
+} from "@/app/types";
+
+const PART_FORMAT = "pastel-attachment";
+const PART_VERSION = 1;
+const MANIFEST_VERSION = 1;
+// Characters of compressed base64 per chunk, which keeps each encrypted
+// message well under what supernodes relay
+const CHUNK_LENGTH = 4000;
+const MAX_CHUNK_COUNT = 64;
+const MAX_CONTENT_LENGTH = 2 * 1024 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+/**
+ * Reads the attachment part a message body carries, or null when it is an
+ * ordinary message.
+ */
+export function parseAttachmentPart(body: string | null): AttachmentPart | null {
+  if (!body || !body.startsWith("{")) return null;
+  try {
+    const result = attachmentPartSchema.safeParse(JSON.parse(body));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Chunks only make sense as part of their attachment, so conversations show
+// the manifest in their place
+export function isAttachmentChunk(message: ArchivedUserMessage): boolean {
+  return parseAttachmentPart(message.body)?.part === "chunk";
+}
+
+/**
+ * The text the sender's PastelID signs for a manifest. Fields are listed in a
+ * fixed order, so it does not depend on how the JSON was built.
+ */
+function getManifestSigningText(
+  manifest: Omit<AttachmentManifest, "sender_signature">
+): string {
+  return JSON.stringify([
+    "pastel-attachment-manifest",
+    manifest.version,
+    manifest.attachment_id,
+    manifest.file_name,
+    manifest.mime_type,
+    manifest.content_encoding,
+    manifest.content_length,
+    manifest.content_sha3_256_hash,
+    manifest.compression,
+    manifest.chunk_count,
+    manifest.chunk_sha3_256_hashes,
+    manifest.sender_pastelid,
+    manifest.recipient_pastelid,
+    manifest.created_at_utc_iso_string,
+  ]);
+}
+
+interface AssembledAttachment {
+  attachment: MessageAttachment;
+  content: string | null;
+}
+
+/**
+ * Singleton splitting files into signed, chunked attachments and putting
+ * them back together. The content is compressed and hashed with SHA3-256,
+ * then cut into chunks each sent as an ordinary encrypted message after a
+ * manifest listing the hashes of the content and of every chunk. The sender's
+ * PastelID signs the manifest, so a reassembled file is only trusted once
+ * every part verifies, every chunk matches its hash and the decompressed
+ * content matches the signed one. Attachments are reassembled from the
+ * message archive whenever they are looked at, so nothing but the messages
+ * themselves is stored.
+ */
+export class MessageAttachments {
+  private static instance: MessageAttachments;
+  private rpc: BrowserRPCReplacement;
+
+  private constructor() {
+    this.rpc = BrowserRPCReplacement.getInstance();
+  }
+
+  public static getInstance(): MessageAttachments {
+    if (!MessageAttachments.instance) {
+      MessageAttachments.instance = new MessageAttachments();
+    }
+    return MessageAttachments.instance;
+  }
+
+  /**
+   * Compresses, hashes and splits a file, signing its manifest with our
+   * PastelID.
+   * @returns The texts of the messages to send, the manifest first.
+   */
+  public async prepareAttachment(
+    fromPastelID: string,
+    toPastelID: string,
+    input: AttachmentInput
+  ): Promise<{ manifest: AttachmentManifest; parts: string[] }> {
+    const fileName = input.file_name.trim();
+    if (!fileName || fileName.length > MAX_FILE_NAME_LENGTH) {
+      throw new Error(
+        `Attachments need a file name of at most ${MAX_FILE_NAME_LENGTH} characters`
+      );
+    }
+    if (input.content.length > MAX_CONTENT_LENGTH) {
+      throw new Error(
+        `Attachments are at most ${MAX_CONTENT_LENGTH} characters before compression`
+      );
+    }
+    if (input.content_encoding === "base64") {
+      try {
+        atob(input.content);
+      } catch {
+        throw new Error("The attachment content is not valid base64");
+      }
+    }
+
+    const { base64EncodedData } = await compressDataWithZstd(input.content);
+    const chunks: string[] = [];
+    for (let i = 0; i < base64EncodedData.length; i += CHUNK_LENGTH) {
+      chunks.push(base64EncodedData.slice(i, i + CHUNK_LENGTH));
+    }
+    if (chunks.length > MAX_CHUNK_COUNT) {
+      throw new Error(
+        `${fileName} compresses to ${chunks.length} chunks; attachments are at most ${MAX_CHUNK_COUNT}`
+      );
+    }
+
+    const unsigned: Omit<AttachmentManifest, "sender_signature"> = {
+      version: MANIFEST_VERSION,
+      attachment_id: uuidv4(),
+      file_name: fileName,
+      mime_type: input.mime_type || "application/octet-stream",
+      content_encoding: input.content_encoding,
+      content_length: input.content.length,
+      content_sha3_256_hash: await computeSHA3256Hexdigest(input.content),
+      compression: "deflate",
+      chunk_count: chunks.length,
+      chunk_sha3_256_hashes: await Promise.all(
+        chunks.map((chunk) => computeSHA3256Hexdigest(chunk))
+      ),
+      sender_pastelid: fromPastelID,
+      recipient_pastelid: toPastelID,
+      created_at_utc_iso_string: new Date().toISOString(),
+    };
+    const manifest: AttachmentManifest = {
+      ...unsigned,
+      sender_signature: await this.rpc.signMessageWithPastelID(
+        fromPastelID,
+        getManifestSigningText(unsigned),
+        PastelIDType.PastelID
+      ),
+    };
+
+    const parts: AttachmentPart[] = [
+      {
+        format: PART_FORMAT,
+        version: PART_VERSION,
+        part: "manifest",
+        attachment_id: manifest.attachment_id,
+        manifest,
+      },
+      ...chunks.map(
+        (data, index): AttachmentPart => ({
+          format: PART_FORMAT,
+          version: PART_VERSION,
+          part: "chunk",
+          attachment_id: manifest.attachment_id,
+          index,
+          data,
+        })
+      ),
+    ];
+    return { manifest, parts: parts.map((part) => JSON.stringify(part)) };
+  }
+
+  public async verifyManifest(manifest: AttachmentManifest): Promise<boolean> {
+    return this.rpc.verifyMessageWithPastelID(
+      manifest.sender_pastelid,
+      getManifestSigningText(manifest),
+      manifest.sender_signature
+    );
+  }
+
+  private async assemble(
+    attachmentID: string,
+    messages: ArchivedUserMessage[]
+  ): Promise<AssembledAttachment> {
+    const first = messages[0];
+    const problems: string[] = [];
+    let manifestMessage: ArchivedUserMessage | null = null;
+    let manifest: AttachmentManifest | null = null;
+    const chunks = new Map<number, string>();
+    let awaitingVerification = false;
+
+    for (const message of messages) {
+      const part = parseAttachmentPart(message.body);
+      if (!part) continue;
+      // Parts that could not be checked yet are opened again on a later
+      // sync, so they only hold the attachment back
+      if (message.verification_status === "invalid") {
+        problems.push(`Message ${message.id} failed verification`);
+      } else if (message.verification_status === "unverified") {
+        awaitingVerification = true;
+      }
+      if (part.part === "manifest") {
+        if (manifest && manifestMessage?.id !== message.id) {
+          problems.push("More than one manifest was sent");
+          continue;
+        }
+        manifestMessage = message;
+        manifest = part.manifest;
+      } else {
+        const existing = chunks.get(part.index);
+        if (existing !== undefined && existing !== part.data) {
+          problems.push(`Chunk ${part.index + 1} was sent twice with different data`);
+        }
+        chunks.set(part.index, part.data);
+      }
+    }
+
+    const attachment: MessageAttachment = {
+      attachment_id: attachmentID,
+      direction: first.direction,
+      counterpart_pastelid: first.counterpart_pastelid,
+      manifest,
+      received_chunk_count: chunks.size,
+      status: "incomplete",
+      problems,
+    };
+    if (!manifest || !manifestMessage) {
+      attachment.status = problems.length ? "invalid" : "incomplete";
+      return { attachment, content: null };
+    }
+
+    const { from_pastelid, to_pastelid } = manifestMessage;
+    if (
+      manifest.attachment_id !== attachmentID ||
+      manifest.sender_pastelid !== from_pastelid ||
+      manifest.recipient_pastelid !== to_pastelid
+    ) {
+      problems.push("The manifest does not match the messages it was sent in");
+    }
+    if (
+      messages.some(
+        (message) =>
+          message.from_pastelid !== from_pastelid ||
+          message.to_pastelid !== to_pastelid
+      )
+    ) {
+      problems.push("Parts of the attachment were sent by another PastelID");
+    }
+    try {
+      if (!(await this.verifyManifest(manifest))) {
+        problems.push("The manifest is not signed by the sender's PastelID");
+      }
+    } catch (error) {
+      problems.push(
+        `The manifest signature could not be checked: ${(error as Error).message}`
+      );
+    }
+    if (manifest.chunk_sha3_256_hashes.length !== manifest.chunk_count) {
+      problems.push("The manifest lists another number of chunk hashes than chunks");
+    }
+    for (const [index, data] of Array.from(chunks.entries())) {
+      if (index >= manifest.chunk_count) {
+        problems.push(`Chunk ${index + 1} is not listed in the manifest`);
+      } else if (
+        (await computeSHA3256Hexdigest(data)) !==
+        manifest.chunk_sha3_256_hashes[index]
+      ) {
+        problems.push(`Chunk ${index + 1} does not match its hash`);
+      }
+    }
+
+    let content: string | null = null;
+    if (
+      !problems.length &&
+      !awaitingVerification &&
+      chunks.size === manifest.chunk_count
+    ) {
+      const compressed = Array.from({ length: manifest.chunk_count }, (_, i) =>
+        chunks.get(i)
+      ).join("");
+      try {
+        content = await decompressDataWithZstd(compressed);
+        if (
+          content.length !== manifest.content_length ||
+          (await computeSHA3256Hexdigest(content)) !==
+            manifest.content_sha3_256_hash
+        ) {
+          problems.push("The reassembled content does not match its hash");
+          content = null;
+        }
+      } catch (error) {
+        problems.push(
+          `The reassembled content could not be decompressed: ${(error as Error).message}`
+        );
+      }
+    }
+
+    attachment.status = problems.length
+      ? "invalid"
+      : content !== null
+        ? "verified"
+        : "incomplete";
+    return { attachment, content };
+  }
+
+  private groupByAttachment(
+    messages: ArchivedUserMessage[]
+  ): Map<string, ArchivedUserMessage[]> {
+    const groups = new Map<string, ArchivedUserMessage[]>();
+    for (const message of messages) {
+      const part = parseAttachmentPart(message.body);
+      if (!part) continue;
+      groups.set(part.attachment_id, [
+        ...(groups.get(part.attachment_id) || []),
+        message,
+      ]);
+    }
+    return groups;
+  }
+
+  /**
+   * Reassembles and checks the attachments found among archived messages,
+   * in the order their first part arrived.
+   */
+  public async getAttachments(
+    messages: ArchivedUserMessage[]
+  ): Promise<MessageAttachment[]> {
+    const attachments: MessageAttachment[] = [];
+    for (const [attachmentID, parts] of Array.from(
+      this.groupByAttachment(messages).entries()
+    )) {
+      attachments.push((await this.assemble(attachmentID, parts)).attachment);
+    }
+    return attachments;
+  }
+
+  /**
+   * Reassembles one attachment from archived messages, which is only handed
+   * out once every check passed.
+   */
+  public async getAttachmentContent(
+    messages: ArchivedUserMessage[],
+    attachmentID: string
+  ): Promise<{ attachment: MessageAttachment; content: string }> {
+    const parts = this.groupByAttachment(messages).get(attachmentID);
+    if (!parts) {
+      throw new Error(`Attachment ${attachmentID} not found`);
+    }
+    const { attachment, content } = await this.assemble(attachmentID, parts);
+    if (content === null) {
+      if (attachment.status === "invalid") {
+        throw new Error(
+          `Attachment ${attachmentID} failed verification: ${attachment.problems.join("; ")}`
+        );
+      }
+      throw new Error(
+        attachment.manifest
+          ? `Attachment ${attachmentID} is missing ${
+              attachment.manifest.chunk_count - attachment.received_chunk_count
+            } of its ${attachment.manifest.chunk_count} chunks`
+          : `The manifest of attachment ${attachmentID} has not arrived yet`
+      );
+    }
+    return { attachment, content };
+  }
+}
+
+export const messageAttachments = MessageAttachments.getInstance();
+
+export default MessageAttachments;
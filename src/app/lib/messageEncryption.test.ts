@@ -0,0 +1,111 @@
+// src/app/lib/messageEncryption.test.ts
+
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { v4 as uuidv4 } from "uuid";
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { keystore } from "@/app/lib/keystore";
+import { messageEncryption, MessageHeader } from "@/app/lib/messageEncryption";
+import { MissingEncryptionKeyError } from "@/app/lib/errors";
+import { UserMessage } from "@/app/types";
+
+const ALICE = `jX${"a".repeat(84)}`;
+const BOB = `jX${"b".repeat(84)}`;
+const CAROL = `jX${"c".repeat(84)}`;
+
+// Stands in for the wallet's PastelID signatures, which need the WASM module
+const fakeSign = (pastelID: string, data: string) => `signed:${pastelID}:${data}`;
+
+const header = (from: string, to: string): MessageHeader => ({
+  id: uuidv4(),
+  from_pastelid: from,
+  to_pastelid: to,
+  timestamp: new Date().toISOString(),
+});
+
+const deliver = (messageHeader: MessageHeader, body: string): UserMessage => ({
+  ...messageHeader,
+  message_body: body,
+  message_signature: fakeSign(messageHeader.from_pastelid, body),
+});
+
+describe("messageEncryption", () => {
+  beforeAll(async () => {
+    vi.spyOn(BrowserRPCReplacement.prototype, "signMessageWithPastelID").mockImplementation(
+      async (pastelID, data) => fakeSign(pastelID, data)
+    );
+    vi.spyOn(BrowserRPCReplacement.prototype, "verifyMessageWithPastelID").mockImplementation(
+      async (pastelID, data, signature) => signature === fakeSign(pastelID, data)
+    );
+    await keystore.reset();
+    await keystore.setUp("123456");
+    // Both ends live in this keystore, so each can open what the other sends
+    await messageEncryption.getOwnKeyStatement(BOB);
+  });
+
+  afterAll(() => {
+    keystore.lock();
+    vi.restoreAllMocks();
+  });
+
+  it("opens a sealed message for the recipient and the sender", async () => {
+    const messageHeader = header(ALICE, BOB);
+    const body = await messageEncryption.sealMessage(messageHeader, "hello Bob");
+    expect(body).not.toContain("hello Bob");
+
+    const received = await messageEncryption.openMessage(deliver(messageHeader, body), BOB);
+    expect(received.verification_status).toBe("verified");
+    expect(received.is_encrypted).toBe(true);
+    expect(received.body).toBe("hello Bob");
+
+    const sent = await messageEncryption.openMessage(deliver(messageHeader, body), ALICE);
+    expect(sent.body).toBe("hello Bob");
+  });
+
+  it("refuses to seal a message to a PastelID without a known key", async () => {
+    await expect(
+      messageEncryption.sealMessage(header(ALICE, CAROL), "hello Carol")
+    ).rejects.toThrow(MissingEncryptionKeyError);
+  });
+
+  it("does not decrypt a message whose ciphertext was altered", async () => {
+    const messageHeader = header(ALICE, BOB);
+    const envelope = JSON.parse(
+      await messageEncryption.sealMessage(messageHeader, "hello Bob")
+    );
+    const ciphertext: string = envelope.ciphertext;
+    envelope.ciphertext = `${ciphertext[0] === "A" ? "B" : "A"}${ciphertext.slice(1)}`;
+    const opened = await messageEncryption.openMessage(
+      deliver(messageHeader, JSON.stringify(envelope)),
+      BOB
+    );
+    expect(opened.body).toBeNull();
+    expect(opened.decryption_error).toContain("could not be decrypted");
+  });
+
+  it("marks a message delivered under another header as invalid", async () => {
+    const messageHeader = header(ALICE, BOB);
+    const body = await messageEncryption.sealMessage(messageHeader, "hello Bob");
+    const opened = await messageEncryption.openMessage(
+      deliver({ ...messageHeader, id: uuidv4() }, body),
+      BOB
+    );
+    expect(opened.verification_status).toBe("invalid");
+    expect(opened.verification_problems).toContain(
+      "The sealed id does not match the one the message was delivered with"
+    );
+  });
+
+  it("marks a message with a forged signature as invalid", async () => {
+    const messageHeader = header(ALICE, BOB);
+    const body = await messageEncryption.sealMessage(messageHeader, "hello Bob");
+    const opened = await messageEncryption.openMessage(
+      { ...deliver(messageHeader, body), message_signature: fakeSign(CAROL, body) },
+      BOB
+    );
+    expect(opened.verification_status).toBe("invalid");
+    expect(opened.verification_problems).toContain(
+      "The signature does not match the sender's PastelID"
+    );
+  });
+});
@@ -0,0 +1,637 @@
+// src/app/lib/messageEncryption.ts
+
+'use client'
+
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { keystore } from "@/app/lib/keystore";
+import { MissingEncryptionKeyError } from "@/app/lib/errors";
+import browserLogger from "@/app/lib/logger";
+import { base64ToBytes, bytesToBase64 } from "@/app/lib/utils";
+import {
+  encryptedMessageEnvelopeSchema,
+  encryptionKeyStatementSchema,
+} from "@/app/lib/validationSchemas";
+import {
+  EncryptedMessageEnvelope,
+  EncryptedMessageRecipient,
+  EncryptionKeyStatement,
+  KnownEncryptionKey,
+  OpenedUserMessage,
+  PastelIDType,
+  UserMessage,
+} from "@/app/types";
+
+const STORE_NAME = "EncryptionKeyStatement";
+const ENVELOPE_FORMAT = "pastel-e2e";
+const ENVELOPE_VERSION = 1;
+const KEY_STATEMENT_VERSION = 1;
+const KEY_ALGORITHM = { name: "ECDH", namedCurve: "P-256" };
+const CONTENT_KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// The fields every message is addressed with, which are sealed along with it
+export interface MessageHeader {
+  id: string;
+  from_pastelid: string;
+  to_pastelid: string;
+  timestamp: string;
+}
+
+/**
+ * The text a PastelID signs to vouch for its encryption key. Fields are
+ * listed in a fixed order, so it does not depend on how the JSON was built.
+ */
+function getKeyStatementSigningText(
+  statement: Omit<EncryptionKeyStatement, "signature">
+): string {
+  return JSON.stringify([
+    "pastel-encryption-key-statement",
+    statement.version,
+    statement.pastelid,
+    statement.algorithm,
+    statement.encryption_public_key,
+    statement.created_at_utc_iso_string,
+  ]);
+}
+
+// Bound to the content as additional data, so it cannot be moved to another
+// message
+function getEnvelopeHeaderText(
+  envelope: Pick<EncryptedMessageEnvelope, "version" | "kind"> & MessageHeader
+): string {
+  return JSON.stringify([
+    ENVELOPE_FORMAT,
+    envelope.version,
+    envelope.kind,
+    envelope.id,
+    envelope.from_pastelid,
+    envelope.to_pastelid,
+    envelope.timestamp,
+  ]);
+}
+
+function toKeyStatement(key: EncryptionKeyStatement): EncryptionKeyStatement {
+  return {
+    version: key.version,
+    pastelid: key.pastelid,
+    algorithm: key.algorithm,
+    encryption_public_key: key.encryption_public_key,
+    created_at_utc_iso_string: key.created_at_utc_iso_string,
+    signature: key.signature,
+  };
+}
+
+async function importPublicKey(base64: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    base64ToBytes(base64),
+    KEY_ALGORITHM,
+    true,
+    []
+  );
+}
+
+async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+  return bytesToBase64(
+    new Uint8Array(await crypto.subtle.exportKey("raw", publicKey))
+  );
+}
+
+/**
+ * Derives the key wrapping the content key for one recipient from an ECDH
+ * secret, bound to the ephemeral key, the message and the recipient.
+ */
+async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  ephemeralPublicKey: BufferSource,
+  messageID: string,
+  recipientPastelID: string
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: "ECDH", public: publicKey },
+    privateKey,
+    256
+  );
+  const hkdfKey = await crypto.subtle.importKey(
+    "raw",
+    sharedSecret,
+    "HKDF",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: ephemeralPublicKey,
+      info: textEncoder.encode(
+        `${ENVELOPE_FORMAT}:${messageID}:${recipientPastelID}`
+      ),
+    },
+    hkdfKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+/**
+ * A short hash of an encryption key, for comparing it with its owner over
+ * another channel.
+ */
+export async function getKeyFingerprint(
+  statement: EncryptionKeyStatement
+): Promise<string> {
+  const digest = new Uint8Array(
+    await crypto.subtle.digest(
+      "SHA-256",
+      base64ToBytes(statement.encryption_public_key)
+    )
+  );
+  return Array.from(digest.slice(0, 10))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("")
+    .replace(/(.{4})(?!$)/g, "$1 ");
+}
+
+function parseEnvelope(messageBody: string): EncryptedMessageEnvelope | null {
+  try {
+    const parsed = JSON.parse(messageBody);
+    if (parsed?.format !== ENVELOPE_FORMAT) return null;
+    return encryptedMessageEnvelopeSchema.parse(parsed);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Singleton for end-to-end encrypted PastelID messages. Each PastelID has an
+ * ECDH P-256 key pair; the private key is kept in the keystore and the public
+ * key is published in a statement signed by the PastelID, which goes along
+ * with every message sent. Messages are encrypted under a random AES-GCM key,
+ * wrapped for the recipient and for the sender through ephemeral ECDH, and
+ * the whole envelope is signed by the sender's PastelID, so supernodes only
+ * relay ciphertext they cannot alter unnoticed.
+ * Verified statements of other PastelIDs are kept in IndexedDB.
+ */
+export class MessageEncryption {
+  private static instance: MessageEncryption;
+  private db: BrowserDatabase;
+  private rpc: BrowserRPCReplacement;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+    this.rpc = BrowserRPCReplacement.getInstance();
+  }
+
+  public static getInstance(): MessageEncryption {
+    if (!MessageEncryption.instance) {
+      MessageEncryption.instance = new MessageEncryption();
+    }
+    return MessageEncryption.instance;
+  }
+
+  public async getKnownKeys(): Promise<KnownEncryptionKey[]> {
+    await initializeStorage();
+    return this.db.getAllData<KnownEncryptionKey>(STORE_NAME);
+  }
+
+  public async getKnownKey(
+    pastelID: string
+  ): Promise<KnownEncryptionKey | undefined> {
+    await initializeStorage();
+    return this.db.getData<KnownEncryptionKey>(STORE_NAME, pastelID);
+  }
+
+  /**
+   * Keeps a verified statement unless a newer one of the same PastelID is
+   * already known.
+   */
+  private async rememberKeyStatement(
+    statement: EncryptionKeyStatement
+  ): Promise<KnownEncryptionKey> {
+    const known = await this.getKnownKey(statement.pastelid);
+    if (
+      known &&
+      known.created_at_utc_iso_string >= statement.created_at_utc_iso_string
+    ) {
+      return known;
+    }
+    const key: KnownEncryptionKey = {
+      ...toKeyStatement(statement),
+      verified_at_utc_iso_string: new Date().toISOString(),
+    };
+    await this.db.saveData(STORE_NAME, key);
+    if (known) {
+      browserLogger.info(
+        `Encryption key of PastelID ${statement.pastelid} replaced by a newer one`
+      );
+    }
+    return key;
+  }
+
+  public async verifyKeyStatement(
+    statement: EncryptionKeyStatement
+  ): Promise<boolean> {
+    try {
+      await importPublicKey(statement.encryption_public_key);
+    } catch {
+      return false;
+    }
+    return this.rpc.verifyMessageWithPastelID(
+      statement.pastelid,
+      getKeyStatementSigningText(statement),
+      statement.signature
+    );
+  }
+
+  /**
+   * Checks a statement shared over another channel and keeps it.
+   * @param input - The statement, as an object or JSON text.
+   */
+  public async importKeyStatement(
+    input: unknown
+  ): Promise<KnownEncryptionKey> {
+    let parsed = input;
+    if (typeof input === "string") {
+      try {
+        parsed = JSON.parse(input);
+      } catch {
+        throw new Error("The key statement is not valid JSON");
+      }
+    }
+    const result = encryptionKeyStatementSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`Invalid key statement: ${result.error.message}`);
+    }
+    const statement = result.data;
+    if (!(await this.verifyKeyStatement(statement))) {
+      throw new Error(
+        `The key statement is not signed by PastelID ${statement.pastelid}`
+      );
+    }
+    return this.rememberKeyStatement(statement);
+  }
+
+  private async loadPrivateKey(pastelID: string): Promise<CryptoKey | null> {
+    const jwk = keystore.getMessageEncryptionKey(pastelID);
+    if (!jwk) return null;
+    return crypto.subtle.importKey(
+      "jwk",
+      JSON.parse(jwk),
+      KEY_ALGORITHM,
+      false,
+      ["deriveBits"]
+    );
+  }
+
+  private async signKeyStatement(
+    pastelID: string,
+    encryptionPublicKey: string
+  ): Promise<EncryptionKeyStatement> {
+    const unsigned: Omit<EncryptionKeyStatement, "signature"> = {
+      version: KEY_STATEMENT_VERSION,
+      pastelid: pastelID,
+      algorithm: "ECDH-P256",
+      encryption_public_key: encryptionPublicKey,
+      created_at_utc_iso_string: new Date().toISOString(),
+    };
+    const statement: EncryptionKeyStatement = {
+      ...unsigned,
+      signature: await this.rpc.signMessageWithPastelID(
+        pastelID,
+        getKeyStatementSigningText(unsigned),
+        PastelIDType.PastelID
+      ),
+    };
+    await this.rememberKeyStatement(statement);
+    return statement;
+  }
+
+  /**
+   * Returns the signed statement of the encryption key of one of our
+   * PastelIDs. The key is created the first time, and a key already in the
+   * keystore is signed for again when its statement is missing, as on another
+   * network, so messages encrypted to it stay readable.
+   * Throws KeystoreLockedError while the keystore is locked.
+   */
+  public async getOwnKeyStatement(
+    pastelID: string
+  ): Promise<EncryptionKeyStatement> {
+    const privateJwk = keystore.getMessageEncryptionKey(pastelID);
+    if (privateJwk) {
+      const { x, y } = JSON.parse(privateJwk) as JsonWebKey;
+      const encryptionPublicKey = await exportPublicKey(
+        await crypto.subtle.importKey(
+          "jwk",
+          { kty: "EC", crv: "P-256", x, y },
+          KEY_ALGORITHM,
+          true,
+          []
+        )
+      );
+      const known = await this.getKnownKey(pastelID);
+      if (known?.encryption_public_key === encryptionPublicKey) {
+        return toKeyStatement(known);
+      }
+      return this.signKeyStatement(pastelID, encryptionPublicKey);
+    }
+
+    const keyPair = (await crypto.subtle.generateKey(KEY_ALGORITHM, true, [
+      "deriveBits",
+    ])) as CryptoKeyPair;
+    const statement = await this.signKeyStatement(
+      pastelID,
+      await exportPublicKey(keyPair.publicKey)
+    );
+    await keystore.setMessageEncryptionKey(
+      pastelID,
+      JSON.stringify(await crypto.subtle.exportKey("jwk", keyPair.privateKey))
+    );
+    browserLogger.info(`Created a message encryption key for PastelID ${pastelID}`);
+    return statement;
+  }
+
+  private async wrapContentKey(
+    contentKey: BufferSource,
+    messageID: string,
+    recipient: EncryptionKeyStatement
+  ): Promise<EncryptedMessageRecipient> {
+    const ephemeral = (await crypto.subtle.generateKey(KEY_ALGORITHM, true, [
+      "deriveBits",
+    ])) as CryptoKeyPair;
+    const ephemeralPublicKey = await exportPublicKey(ephemeral.publicKey);
+    const wrappingKey = await deriveWrappingKey(
+      ephemeral.privateKey,
+      await importPublicKey(recipient.encryption_public_key),
+      base64ToBytes(ephemeralPublicKey),
+      messageID,
+      recipient.pastelid
+    );
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const wrappedKey = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      wrappingKey,
+      contentKey
+    );
+    return {
+      pastelid: recipient.pastelid,
+      ephemeral_public_key: ephemeralPublicKey,
+      iv: bytesToBase64(iv),
+      wrapped_key: bytesToBase64(new Uint8Array(wrappedKey)),
+    };
+  }
+
+  /**
+   * Encrypts a message to the recipient's known key and to the sender's own,
+   * so the sent copy stays readable.
+   * @returns The message body to sign and send.
+   */
+  public async sealMessage(
+    header: MessageHeader,
+    plaintext: string
+  ): Promise<string> {
+    const recipientKey = await this.getKnownKey(header.to_pastelid);
+    if (!recipientKey) {
+      throw new MissingEncryptionKeyError(header.to_pastelid);
+    }
+    const senderStatement = await this.getOwnKeyStatement(header.from_pastelid);
+    const contentKey = crypto.getRandomValues(new Uint8Array(CONTENT_KEY_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: textEncoder.encode(
+          getEnvelopeHeaderText({
+            ...header,
+            version: ENVELOPE_VERSION,
+            kind: "message",
+          })
+        ),
+      },
+      await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, [
+        "encrypt",
+      ]),
+      textEncoder.encode(plaintext)
+    );
+    const recipientStatements =
+      header.to_pastelid === header.from_pastelid
+        ? [senderStatement]
+        : [recipientKey, senderStatement];
+    const envelope: EncryptedMessageEnvelope = {
+      format: ENVELOPE_FORMAT,
+      version: ENVELOPE_VERSION,
+      kind: "message",
+      ...header,
+      sender_key_statement: senderStatement,
+      reply_requested: false,
+      recipients: await Promise.all(
+        recipientStatements.map((statement) =>
+          this.wrapContentKey(contentKey, header.id, statement)
+        )
+      ),
+      iv: bytesToBase64(iv),
+      ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+    };
+    return JSON.stringify(envelope);
+  }
+
+  /**
+   * Builds a message carrying only the sender's key statement, optionally
+   * asking the recipient to send theirs back.
+   */
+  public async createKeyStatementMessage(
+    header: MessageHeader,
+    replyRequested: boolean
+  ): Promise<string> {
+    const envelope: EncryptedMessageEnvelope = {
+      format: ENVELOPE_FORMAT,
+      version: ENVELOPE_VERSION,
+      kind: "key_statement",
+      ...header,
+      sender_key_statement: await this.getOwnKeyStatement(header.from_pastelid),
+      reply_requested: replyRequested,
+      recipients: [],
+      iv: "",
+      ciphertext: "",
+    };
+    return JSON.stringify(envelope);
+  }
+
+  private async decryptEnvelope(
+    envelope: EncryptedMessageEnvelope,
+    pastelID: string
+  ): Promise<string> {
+    const recipient = envelope.recipients.find(
+      (entry) => entry.pastelid === pastelID
+    );
+    if (!recipient) {
+      throw new Error(`The message was not encrypted to PastelID ${pastelID}`);
+    }
+    const privateKey = await this.loadPrivateKey(pastelID);
+    if (!privateKey) {
+      throw new Error(
+        `The keystore holds no encryption key for PastelID ${pastelID}`
+      );
+    }
+    try {
+      const ephemeralPublicKey = base64ToBytes(recipient.ephemeral_public_key);
+      const wrappingKey = await deriveWrappingKey(
+        privateKey,
+        await importPublicKey(recipient.ephemeral_public_key),
+        ephemeralPublicKey,
+        envelope.id,
+        pastelID
+      );
+      const contentKey = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: base64ToBytes(recipient.iv) },
+        wrappingKey,
+        base64ToBytes(recipient.wrapped_key)
+      );
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: base64ToBytes(envelope.iv),
+          additionalData: textEncoder.encode(getEnvelopeHeaderText(envelope)),
+        },
+        await crypto.subtle.importKey("raw", contentKey, "AES-GCM", false, [
+          "decrypt",
+        ]),
+        base64ToBytes(envelope.ciphertext)
+      );
+      return textDecoder.decode(plaintext);
+    } catch {
+      throw new Error(
+        "The message could not be decrypted; it was altered or encrypted to an older key"
+      );
+    }
+  }
+
+  // Messages sent before encryption carried their text JSON-encoded, signed
+  // as it was typed
+  private async openPlaintextMessage(
+    message: UserMessage
+  ): Promise<OpenedUserMessage> {
+    let body = message.message_body;
+    try {
+      const parsed = JSON.parse(message.message_body);
+      if (typeof parsed === "string") body = parsed;
+    } catch {
+      // Kept as it was received
+    }
+    const opened: OpenedUserMessage = {
+      ...message,
+      kind: "plaintext",
+      is_encrypted: false,
+      body,
+      reply_requested: false,
+      verification_status: "unverified",
+      verification_problems: [],
+      decryption_error: null,
+    };
+    try {
+      const isValid =
+        (await this.rpc.verifyMessageWithPastelID(
+          message.from_pastelid,
+          body,
+          message.message_signature
+        )) ||
+        (await this.rpc.verifyMessageWithPastelID(
+          message.from_pastelid,
+          message.message_body,
+          message.message_signature
+        ));
+      opened.verification_status = isValid ? "verified" : "invalid";
+      if (!isValid) {
+        opened.verification_problems.push(
+          "The signature does not match the sender's PastelID"
+        );
+      }
+    } catch (error) {
+      opened.verification_problems.push(
+        `The signature could not be checked: ${(error as Error).message}`
+      );
+    }
+    return opened;
+  }
+
+  /**
+   * Verifies a received or sent message and decrypts it for one of our
+   * PastelIDs. The sender's key is only learnt from messages that verify.
+   * Messages sent before encryption are verified and passed through.
+   */
+  public async openMessage(
+    message: UserMessage,
+    pastelID: string
+  ): Promise<OpenedUserMessage> {
+    const envelope = parseEnvelope(message.message_body);
+    if (!envelope) {
+      return this.openPlaintextMessage(message);
+    }
+    const opened: OpenedUserMessage = {
+      ...message,
+      kind: envelope.kind,
+      is_encrypted: envelope.kind === "message",
+      body: null,
+      reply_requested: envelope.reply_requested,
+      verification_status: "unverified",
+      verification_problems: [],
+      decryption_error: null,
+    };
+    const problems = opened.verification_problems;
+    try {
+      if (
+        !(await this.rpc.verifyMessageWithPastelID(
+          message.from_pastelid,
+          message.message_body,
+          message.message_signature
+        ))
+      ) {
+        problems.push("The signature does not match the sender's PastelID");
+      }
+      for (const field of ["id", "from_pastelid", "to_pastelid"] as const) {
+        if (envelope[field] !== message[field]) {
+          problems.push(
+            `The sealed ${field} does not match the one the message was delivered with`
+          );
+        }
+      }
+      const statement = envelope.sender_key_statement;
+      if (statement.pastelid !== message.from_pastelid) {
+        problems.push("The enclosed encryption key belongs to another PastelID");
+      } else if (!(await this.verifyKeyStatement(statement))) {
+        problems.push(
+          "The enclosed encryption key is not signed by the sender's PastelID"
+        );
+      }
+      opened.verification_status = problems.length ? "invalid" : "verified";
+      if (opened.verification_status === "verified") {
+        await this.rememberKeyStatement(statement);
+      }
+    } catch (error) {
+      problems.push(
+        `The signature could not be checked: ${(error as Error).message}`
+      );
+    }
+
+    if (envelope.kind === "message") {
+      try {
+        opened.body = await this.decryptEnvelope(envelope, pastelID);
+      } catch (error) {
+        opened.decryption_error = (error as Error).message;
+      }
+    }
+    return opened;
+  }
+}
+
+export const messageEncryption = MessageEncryption.getInstance();
+
+export default MessageEncryption;
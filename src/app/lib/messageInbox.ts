@@ -0,0 +1,389 @@
+// src/app/lib/messageInbox.ts
+
+'use client'
+
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { keystore } from "@/app/lib/keystore";
+import { messageEncryption } from "@/app/lib/messageEncryption";
+import { isAttachmentChunk } from "@/app/lib/messageAttachments";
+import browserLogger from "@/app/lib/logger";
+import {
+  AddressBookEntry,
+  ArchivedUserMessage,
+  MessageOutboxEntry,
+  MessageThread,
+  UserMessage,
+} from "@/app/types";
+
+const ARCHIVE_STORE = "MessageArchive";
+const OUTBOX_STORE = "MessageOutbox";
+const ADDRESS_BOOK_STORE = "AddressBookEntry";
+const MAX_DELIVERY_ATTEMPTS = 8;
+const FIRST_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_CONTACT_NAME_LENGTH = 64;
+
+function getMessageTime(message: ArchivedUserMessage): string {
+  return message.timestamp || message.archived_at_utc_iso_string;
+}
+
+function byMessageTime(a: ArchivedUserMessage, b: ArchivedUserMessage): number {
+  return getMessageTime(a).localeCompare(getMessageTime(b));
+}
+
+/**
+ * Singleton keeping the local message archive, the address book and the
+ * outbox. Messages are archived once by id, each opened a single time, and
+ * grouped into threads by the counterpart PastelID. Entries that could not be
+ * decrypted or verified, as while the keystore was locked, are opened again
+ * when they come back. The outbox holds signed messages until they reach a
+ * supernode, retrying with a growing delay.
+ */
+export class MessageInbox {
+  private static instance: MessageInbox;
+  private db: BrowserDatabase;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): MessageInbox {
+    if (!MessageInbox.instance) {
+      MessageInbox.instance = new MessageInbox();
+    }
+    return MessageInbox.instance;
+  }
+
+  private needsReopening(entry: ArchivedUserMessage): boolean {
+    return (
+      entry.verification_status === "unverified" ||
+      (entry.decryption_error !== null && keystore.isUnlocked())
+    );
+  }
+
+  /**
+   * Archives fetched or sent messages of one of our PastelIDs, skipping those
+   * already archived.
+   * @returns The archived entries of the given messages.
+   */
+  public async archiveMessages(
+    messages: UserMessage[],
+    ownerPastelID: string
+  ): Promise<ArchivedUserMessage[]> {
+    await initializeStorage();
+    const archived: ArchivedUserMessage[] = [];
+    for (const message of messages) {
+      if (
+        message.from_pastelid !== ownerPastelID &&
+        message.to_pastelid !== ownerPastelID
+      ) {
+        continue;
+      }
+      const existing = await this.db.getData<ArchivedUserMessage>(
+        ARCHIVE_STORE,
+        message.id
+      );
+      if (existing && !this.needsReopening(existing)) {
+        archived.push(existing);
+        continue;
+      }
+      const now = new Date().toISOString();
+      const opened = await messageEncryption.openMessage(message, ownerPastelID);
+      const direction =
+        message.from_pastelid === ownerPastelID ? "outgoing" : "incoming";
+      const entry: ArchivedUserMessage = {
+        ...opened,
+        owner_pastelid: ownerPastelID,
+        counterpart_pastelid:
+          direction === "outgoing" ? message.to_pastelid : message.from_pastelid,
+        direction,
+        read_at_utc_iso_string:
+          existing?.read_at_utc_iso_string ??
+          (direction === "outgoing" ? now : null),
+        archived_at_utc_iso_string: existing?.archived_at_utc_iso_string ?? now,
+      };
+      await this.db.saveData(ARCHIVE_STORE, entry);
+      archived.push(entry);
+    }
+    return archived;
+  }
+
+  public async getArchivedMessages(
+    ownerPastelID: string
+  ): Promise<ArchivedUserMessage[]> {
+    await initializeStorage();
+    const messages = await this.db.findAllByIndex<ArchivedUserMessage>(
+      ARCHIVE_STORE,
+      "owner_pastelid",
+      ownerPastelID
+    );
+    return messages.sort(byMessageTime);
+  }
+
+  /**
+   * Lists the conversations of a PastelID of ours, the most recent first.
+   */
+  public async getThreads(ownerPastelID: string): Promise<MessageThread[]> {
+    const [messages, contacts] = await Promise.all([
+      this.getArchivedMessages(ownerPastelID),
+      this.getAddressBook(),
+    ]);
+    const names = new Map(contacts.map((contact) => [contact.pastelid, contact.name]));
+    const threads = new Map<string, MessageThread>();
+    for (const message of messages) {
+      if (isAttachmentChunk(message)) continue;
+      const counterpart = message.counterpart_pastelid;
+      const thread = threads.get(counterpart) || {
+        counterpart_pastelid: counterpart,
+        name: names.get(counterpart) ?? null,
+        last_message: message,
+        message_count: 0,
+        unread_count: 0,
+      };
+      thread.last_message = message;
+      thread.message_count++;
+      if (message.direction === "incoming" && !message.read_at_utc_iso_string) {
+        thread.unread_count++;
+      }
+      threads.set(counterpart, thread);
+    }
+    return Array.from(threads.values()).sort((a, b) =>
+      byMessageTime(b.last_message, a.last_message)
+    );
+  }
+
+  public async getThread(
+    ownerPastelID: string,
+    counterpartPastelID: string
+  ): Promise<ArchivedUserMessage[]> {
+    return (await this.getArchivedMessages(ownerPastelID)).filter(
+      (message) => message.counterpart_pastelid === counterpartPastelID
+    );
+  }
+
+  public async markThreadRead(
+    ownerPastelID: string,
+    counterpartPastelID: string
+  ): Promise<number> {
+    const now = new Date().toISOString();
+    const unread = (
+      await this.getThread(ownerPastelID, counterpartPastelID)
+    ).filter((message) => !message.read_at_utc_iso_string);
+    for (const message of unread) {
+      await this.db.saveData(ARCHIVE_STORE, {
+        ...message,
+        read_at_utc_iso_string: now,
+      });
+    }
+    return unread.length;
+  }
+
+  public async getUnreadCount(ownerPastelID: string): Promise<number> {
+    return (await this.getArchivedMessages(ownerPastelID)).filter(
+      (message) =>
+        message.direction === "incoming" &&
+        !message.read_at_utc_iso_string &&
+        !isAttachmentChunk(message)
+    ).length;
+  }
+
+  /**
+   * Finds archived messages whose text, counterpart PastelID or contact name
+   * contains the query, ignoring case. The newest come first. Attachment
+   * chunks are left out, while manifests match on their file name.
+   */
+  public async searchMessages(
+    ownerPastelID: string,
+    query: string
+  ): Promise<ArchivedUserMessage[]> {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const [messages, contacts] = await Promise.all([
+      this.getArchivedMessages(ownerPastelID),
+      this.getAddressBook(),
+    ]);
+    const names = new Map(
+      contacts.map((contact) => [contact.pastelid, contact.name.toLowerCase()])
+    );
+    return messages
+      .filter(
+        (message) =>
+          !isAttachmentChunk(message) &&
+          ((message.body || "").toLowerCase().includes(needle) ||
+          message.counterpart_pastelid.toLowerCase().includes(needle) ||
+            (names.get(message.counterpart_pastelid) || "").includes(needle))
+      )
+      .reverse();
+  }
+
+  public async getAddressBook(): Promise<AddressBookEntry[]> {
+    await initializeStorage();
+    const contacts = await this.db.getAllData<AddressBookEntry>(ADDRESS_BOOK_STORE);
+    return contacts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Names a PastelID in the address book, or renames it.
+   */
+  public async saveContact(
+    pastelID: string,
+    name: string
+  ): Promise<AddressBookEntry> {
+    await initializeStorage();
+    const trimmedPastelID = pastelID.trim();
+    const trimmedName = name.trim();
+    if (!trimmedPastelID) {
+      throw new Error("A contact needs a PastelID");
+    }
+    if (!trimmedName) {
+      throw new Error("A contact needs a name");
+    }
+    if (trimmedName.length > MAX_CONTACT_NAME_LENGTH) {
+      throw new Error(
+        `Contact names are at most ${MAX_CONTACT_NAME_LENGTH} characters`
+      );
+    }
+    const existing = await this.db.getData<AddressBookEntry>(
+      ADDRESS_BOOK_STORE,
+      trimmedPastelID
+    );
+    const now = new Date().toISOString();
+    const contact: AddressBookEntry = {
+      pastelid: trimmedPastelID,
+      name: trimmedName,
+      created_at_utc_iso_string: existing?.created_at_utc_iso_string ?? now,
+      updated_at_utc_iso_string: now,
+    };
+    await this.db.saveData(ADDRESS_BOOK_STORE, contact);
+    return contact;
+  }
+
+  public async deleteContact(pastelID: string): Promise<void> {
+    await initializeStorage();
+    await this.db.deleteData(ADDRESS_BOOK_STORE, pastelID);
+  }
+
+  /**
+   * Queues a signed message for delivery, due right away.
+   */
+  public async enqueue(userMessage: UserMessage): Promise<MessageOutboxEntry> {
+    await initializeStorage();
+    const now = new Date().toISOString();
+    const entry: MessageOutboxEntry = {
+      id: userMessage.id,
+      user_message: userMessage,
+      status: "pending",
+      attempts: 0,
+      delivered_supernode_urls: [],
+      last_error: null,
+      next_attempt_at_utc_iso_string: now,
+      created_at_utc_iso_string: now,
+      updated_at_utc_iso_string: now,
+    };
+    await this.db.saveData(OUTBOX_STORE, entry);
+    return entry;
+  }
+
+  public async getOutbox(): Promise<MessageOutboxEntry[]> {
+    await initializeStorage();
+    const entries = await this.db.getAllData<MessageOutboxEntry>(OUTBOX_STORE);
+    return entries.sort((a, b) =>
+      b.created_at_utc_iso_string.localeCompare(a.created_at_utc_iso_string)
+    );
+  }
+
+  public async getOutboxEntry(id: string): Promise<MessageOutboxEntry> {
+    await initializeStorage();
+    const entry = await this.db.getData<MessageOutboxEntry>(OUTBOX_STORE, id);
+    if (!entry) {
+      throw new Error(`Outbox message ${id} not found`);
+    }
+    return entry;
+  }
+
+  /**
+   * The pending messages of a PastelID of ours whose next attempt is due.
+   * Messages of other PastelIDs wait until those are in use again, since
+   * supernodes only take messages from the PastelID answering their
+   * challenge.
+   */
+  public async getDueOutboxEntries(
+    fromPastelID: string
+  ): Promise<MessageOutboxEntry[]> {
+    const now = new Date().toISOString();
+    return (await this.getOutbox())
+      .filter(
+        (entry) =>
+          entry.status === "pending" &&
+          entry.user_message.from_pastelid === fromPastelID &&
+          entry.next_attempt_at_utc_iso_string <= now
+      )
+      .reverse();
+  }
+
+  /**
+   * Records a delivery attempt. A message is sent once any supernode took
+   * it, and fails for good after the last attempt.
+   */
+  public async recordDeliveryAttempt(
+    entry: MessageOutboxEntry,
+    deliveredSupernodeURLs: string[],
+    error: string | null
+  ): Promise<MessageOutboxEntry> {
+    const now = Date.now();
+    const attempts = entry.attempts + 1;
+    const delivered = Array.from(
+      new Set([...entry.delivered_supernode_urls, ...deliveredSupernodeURLs])
+    );
+    const status =
+      delivered.length > 0
+        ? "sent"
+        : attempts >= MAX_DELIVERY_ATTEMPTS
+          ? "failed"
+          : "pending";
+    const updated: MessageOutboxEntry = {
+      ...entry,
+      status,
+      attempts,
+      delivered_supernode_urls: delivered,
+      last_error: error,
+      next_attempt_at_utc_iso_string: new Date(
+        now +
+          Math.min(FIRST_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS)
+      ).toISOString(),
+      updated_at_utc_iso_string: new Date(now).toISOString(),
+    };
+    await this.db.saveData(OUTBOX_STORE, updated);
+    if (status === "failed") {
+      browserLogger.warn(
+        `Gave up delivering message ${entry.id} after ${attempts} attempts: ${error}`
+      );
+    }
+    return updated;
+  }
+
+  /**
+   * Makes a failed or pending message due again, with its attempts reset.
+   */
+  public async retryOutboxEntry(id: string): Promise<MessageOutboxEntry> {
+    const entry = await this.getOutboxEntry(id);
+    if (entry.status === "sent") {
+      throw new Error(`Message ${id} was already delivered`);
+    }
+    const now = new Date().toISOString();
+    const updated: MessageOutboxEntry = {
+      ...entry,
+      status: "pending",
+      attempts: 0,
+      next_attempt_at_utc_iso_string: now,
+      updated_at_utc_iso_string: now,
+    };
+    await this.db.saveData(OUTBOX_STORE, updated);
+    return updated;
+  }
+}
+
+export const messageInbox = MessageInbox.getInstance();
+
+export default MessageInbox;
@@ -0,0 +1,182 @@
+// src/app/lib/networkConfig.ts
+
+'use client'
+
+import { NetworkMismatchError } from "@/app/lib/errors";
+import { NetworkConfig, PastelNetwork } from "@/app/types";
+
+export const PASTEL_NETWORKS: PastelNetwork[] = ["Mainnet", "Testnet", "Devnet"];
+
+const NETWORK_STORAGE_KEY = "PASTEL_NETWORK";
+const NETWORK_CONFIG_STORAGE_KEY = "NETWORK_CONFIG";
+
+// There is no public opennode for Testnet and Devnet, so theirs has to be
+// configured before switching to them
+const DEFAULT_NETWORK_CONFIGS: Record<PastelNetwork, NetworkConfig> = {
+  Mainnet: {
+    opennode_api_url:
+      process.env.NEXT_PUBLIC_OPENNODE_API_URL ||
+      "https://opennode-fastapi.pastel.network",
+    burn_address: "PtpasteLBurnAddressXXXXXXXXXXbJ5ndd",
+  },
+  Testnet: {
+    opennode_api_url: process.env.NEXT_PUBLIC_TESTNET_OPENNODE_API_URL || "",
+    burn_address: "tPpasteLBurnAddressXXXXXXXXXXX3wy7u",
+  },
+  Devnet: {
+    opennode_api_url: process.env.NEXT_PUBLIC_DEVNET_OPENNODE_API_URL || "",
+    burn_address: "44oUgmZSL997veFEQDq569wv5tsT6KXf9QY7",
+  },
+};
+
+// Leading characters of the transparent addresses of each network
+const ADDRESS_PREFIXES: Record<PastelNetwork, string[]> = {
+  Mainnet: ["Pt"],
+  Testnet: ["tP"],
+  Devnet: ["44"],
+};
+
+export function isPastelNetwork(network: string): network is PastelNetwork {
+  return (PASTEL_NETWORKS as string[]).includes(network);
+}
+
+export function getCurrentNetwork(): PastelNetwork {
+  if (typeof localStorage === "undefined") return "Mainnet";
+  const network = localStorage.getItem(NETWORK_STORAGE_KEY) || "";
+  return isPastelNetwork(network) ? network : "Mainnet";
+}
+
+/**
+ * Namespaces a localStorage key by network. Mainnet keeps the plain key, so
+ * everything stored before data was split by network stays on Mainnet.
+ */
+export function getNetworkStorageKey(
+  key: string,
+  network: PastelNetwork = getCurrentNetwork()
+): string {
+  return network === "Mainnet" ? key : `${network}:${key}`;
+}
+
+/**
+ * Returns a key without the network it was namespaced by.
+ */
+export function stripNetworkStorageKey(key: string): string {
+  const match = key.match(/^(Testnet|Devnet):(.*)$/);
+  return match ? match[2] : key;
+}
+
+export function getNetworkDatabaseName(
+  baseName: string,
+  network: PastelNetwork = getCurrentNetwork()
+): string {
+  return network === "Mainnet" ? baseName : `${baseName}:${network}`;
+}
+
+function readConfigOverrides(): Partial<
+  Record<PastelNetwork, Partial<NetworkConfig>>
+> {
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(NETWORK_CONFIG_STORAGE_KEY) || "{}"
+    );
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getNetworkConfig(
+  network: PastelNetwork = getCurrentNetwork()
+): NetworkConfig {
+  const overrides =
+    typeof localStorage === "undefined" ? {} : readConfigOverrides();
+  return { ...DEFAULT_NETWORK_CONFIGS[network], ...overrides[network] };
+}
+
+/**
+ * Overrides the opennode URL or burn address of a network. Empty values and
+ * the defaults themselves leave nothing overridden.
+ */
+export function setNetworkConfig(
+  network: PastelNetwork,
+  config: Partial<NetworkConfig>
+): NetworkConfig {
+  const burnAddressNetwork = config.burn_address
+    ? getAddressNetwork(config.burn_address.trim())
+    : null;
+  if (burnAddressNetwork && burnAddressNetwork !== network) {
+    throw new Error(
+      `The burn address of ${network} cannot be a ${burnAddressNetwork} address`
+    );
+  }
+  const overrides = readConfigOverrides();
+  const updated: Partial<NetworkConfig> = { ...overrides[network] };
+  for (const [field, value] of Object.entries(config) as [
+    keyof NetworkConfig,
+    string | undefined,
+  ][]) {
+    if (value === undefined) continue;
+    const trimmed = value.trim().replace(/\/+$/, "");
+    if (trimmed && trimmed !== DEFAULT_NETWORK_CONFIGS[network][field]) {
+      updated[field] = trimmed;
+    } else {
+      delete updated[field];
+    }
+  }
+  localStorage.setItem(
+    NETWORK_CONFIG_STORAGE_KEY,
+    JSON.stringify({ ...overrides, [network]: updated })
+  );
+  return getNetworkConfig(network);
+}
+
+export function getOpennodeApiUrl(
+  network: PastelNetwork = getCurrentNetwork()
+): string {
+  const { opennode_api_url } = getNetworkConfig(network);
+  if (!opennode_api_url) {
+    throw new Error(
+      `No opennode API URL is configured for ${network}; set one in the network settings`
+    );
+  }
+  return opennode_api_url;
+}
+
+export function getBurnAddress(
+  network: PastelNetwork = getCurrentNetwork()
+): string {
+  return getNetworkConfig(network).burn_address;
+}
+
+/**
+ * Tells the network of a transparent address from its prefix, or null when
+ * the prefix is not one of a known network.
+ */
+export function getAddressNetwork(address: string): PastelNetwork | null {
+  return (
+    PASTEL_NETWORKS.find((network) =>
+      ADDRESS_PREFIXES[network].some((prefix) => address.startsWith(prefix))
+    ) || null
+  );
+}
+
+/**
+ * Throws NetworkMismatchError when an address belongs to another network than
+ * the one in use. Addresses of no known network are left to the opennode.
+ * @param purpose - What the address was about to be used for.
+ */
+export function assertAddressOnCurrentNetwork(
+  address: string,
+  purpose: string
+): void {
+  const addressNetwork = getAddressNetwork(address);
+  const currentNetwork = getCurrentNetwork();
+  if (addressNetwork && addressNetwork !== currentNetwork) {
+    throw new NetworkMismatchError(
+      address,
+      addressNetwork,
+      currentNetwork,
+      purpose
+    );
+  }
+}
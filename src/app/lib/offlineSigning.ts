@@ -0,0 +1,310 @@
+// src/app/lib/offlineSigning.ts
+
+'use client'
+
+import { v4 as uuidv4 } from "uuid";
+
+import { OfflineSigningError } from "@/app/lib/errors";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import { offlineSigningPayloadSchema } from "@/app/lib/validationSchemas";
+import { watchOnlyWallet } from "@/app/lib/watchOnlyWallet";
+import {
+  OfflineSigningPayload,
+  OfflineSigningRequest,
+  OfflineSigningResponse,
+  PastelIDType,
+} from "@/app/types";
+
+export const OFFLINE_SIGNING_VERSION = 1;
+
+// Small enough for each QR code to scan reliably from a screen
+export const DEFAULT_QR_FRAME_DATA_LENGTH = 300;
+
+const QR_FRAME_PREFIX = "PSLSIGN";
+const PENDING_REQUESTS_STORAGE_KEY = "OFFLINE_SIGNING_REQUESTS";
+const PENDING_REQUEST_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type OfflineSigningHandler = (
+  request: OfflineSigningRequest
+) => Promise<OfflineSigningResponse | null>;
+
+/**
+ * Splits a request or response into the frames of an animated QR code, each
+ * reading `PSLSIGN:<index>/<total>:<id>:<data>`. The id tells the frames of
+ * different payloads apart while scanning.
+ */
+export function encodeOfflineSigningFrames(
+  payload: OfflineSigningPayload,
+  frameDataLength: number = DEFAULT_QR_FRAME_DATA_LENGTH
+): string[] {
+  const data = JSON.stringify(payload);
+  const id = `${payload.type[0]}${payload.request_id.slice(0, 8)}`;
+  const total = Math.max(1, Math.ceil(data.length / frameDataLength));
+  return Array.from(
+    { length: total },
+    (_, index) =>
+      `${QR_FRAME_PREFIX}:${index + 1}/${total}:${id}:${data.slice(
+        index * frameDataLength,
+        (index + 1) * frameDataLength
+      )}`
+  );
+}
+
+/**
+ * Collects scanned frames in any order, repeated or not, until a whole
+ * payload is read. Scanning a frame of another payload starts over.
+ */
+export class OfflineSigningFrameAssembler {
+  private id = "";
+  private frames: (string | undefined)[] = [];
+
+  /**
+   * Adds a scanned QR code.
+   * @returns The payload once every frame has been read, otherwise null.
+   */
+  public add(scanned: string): OfflineSigningPayload | null {
+    const match = scanned.match(/^PSLSIGN:(\d+)\/(\d+):([^:]+):([\s\S]*)$/);
+    if (!match) {
+      // A whole payload may also be scanned from a single plain QR code
+      return scanned.trim().startsWith("{")
+        ? parseOfflineSigningPayload(scanned)
+        : null;
+    }
+    const index = parseInt(match[1], 10);
+    const total = parseInt(match[2], 10);
+    if (index < 1 || index > total) return null;
+    if (match[3] !== this.id || this.frames.length !== total) {
+      this.id = match[3];
+      this.frames = new Array(total).fill(undefined);
+    }
+    this.frames[index - 1] = match[4];
+    if (this.frames.some((frame) => frame === undefined)) return null;
+    const payload = parseOfflineSigningPayload(this.frames.join(""));
+    this.reset();
+    return payload;
+  }
+
+  public getProgress(): { received: number; total: number } {
+    return {
+      received: this.frames.filter((frame) => frame !== undefined).length,
+      total: this.frames.length,
+    };
+  }
+
+  public reset(): void {
+    this.id = "";
+    this.frames = [];
+  }
+}
+
+export function serializeOfflineSigningPayload(
+  payload: OfflineSigningPayload
+): string {
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Reads a request or response from a file or a scan, throwing if it is
+ * neither.
+ */
+export function parseOfflineSigningPayload(text: string): OfflineSigningPayload {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Not an offline signing request or response");
+  }
+  const result = offlineSigningPayloadSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new Error(
+      `Invalid offline signing payload: ${result.error.errors
+        .map((error) => `${error.path.join(".")} ${error.message}`)
+        .join("; ")}`
+    );
+  }
+  if (result.data.version !== OFFLINE_SIGNING_VERSION) {
+    throw new Error(
+      `Unsupported offline signing version ${result.data.version}`
+    );
+  }
+  return result.data as OfflineSigningPayload;
+}
+
+/**
+ * Singleton that carries signatures between an online watch-only wallet and
+ * an offline instance holding the keys. Requests waiting for a response are
+ * kept in localStorage, so a response may be brought back after a reload.
+ * While a handler is set, a watch-only wallet sends what it has to sign to
+ * the handler instead of refusing it.
+ */
+export class OfflineSigningManager {
+  private static instance: OfflineSigningManager;
+  private handler: OfflineSigningHandler | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): OfflineSigningManager {
+    if (!OfflineSigningManager.instance) {
+      OfflineSigningManager.instance = new OfflineSigningManager();
+    }
+    return OfflineSigningManager.instance;
+  }
+
+  /**
+   * Sets the function that shows a request to the user and returns the
+   * response brought back from the offline instance, or null if cancelled.
+   */
+  public setHandler(handler: OfflineSigningHandler | null): void {
+    this.handler = handler;
+  }
+
+  public canRequestSignatures(): boolean {
+    return watchOnlyWallet.isEnabled() && this.handler !== null;
+  }
+
+  public getPendingRequests(): OfflineSigningRequest[] {
+    let requests: OfflineSigningRequest[];
+    try {
+      const parsed = JSON.parse(
+        localStorage.getItem(getNetworkStorageKey(PENDING_REQUESTS_STORAGE_KEY)) || "[]"
+      );
+      requests = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      requests = [];
+    }
+    const cutoff = Date.now() - PENDING_REQUEST_TTL_MS;
+    return requests.filter(
+      (request) => Date.parse(request.created_at_utc_iso_string) > cutoff
+    );
+  }
+
+  public getPendingRequest(requestId: string): OfflineSigningRequest | null {
+    return (
+      this.getPendingRequests().find(
+        (request) => request.request_id === requestId
+      ) || null
+    );
+  }
+
+  private savePendingRequests(requests: OfflineSigningRequest[]): void {
+    localStorage.setItem(getNetworkStorageKey(PENDING_REQUESTS_STORAGE_KEY), JSON.stringify(requests));
+  }
+
+  public removePendingRequest(requestId: string): void {
+    this.savePendingRequests(
+      this.getPendingRequests().filter(
+        (request) => request.request_id !== requestId
+      )
+    );
+  }
+
+  /**
+   * Creates a request and keeps it until its response is brought back.
+   */
+  public createRequest(
+    fields: Pick<OfflineSigningRequest, "kind" | "network" | "description"> &
+      Partial<
+        Pick<
+          OfflineSigningRequest,
+          "transaction" | "pastelid" | "pastelid_type" | "message"
+        >
+      >
+  ): OfflineSigningRequest {
+    const request: OfflineSigningRequest = {
+      version: OFFLINE_SIGNING_VERSION,
+      type: "request",
+      request_id: uuidv4(),
+      transaction: null,
+      pastelid: "",
+      pastelid_type: PastelIDType.PastelID,
+      message: "",
+      ...fields,
+      created_at_utc_iso_string: new Date().toISOString(),
+    };
+    this.savePendingRequests([...this.getPendingRequests(), request]);
+    return request;
+  }
+
+  public createResponse(
+    request: OfflineSigningRequest,
+    signed: Partial<Pick<OfflineSigningResponse, "signed_transaction_hex" | "signature">>
+  ): OfflineSigningResponse {
+    return {
+      version: OFFLINE_SIGNING_VERSION,
+      type: "response",
+      request_id: request.request_id,
+      kind: request.kind,
+      signed_transaction_hex: signed.signed_transaction_hex || "",
+      signature: signed.signature || "",
+      signed_at_utc_iso_string: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Finds the pending request a response answers. Throws OfflineSigningError
+   * if there is none or the response is not what was asked for.
+   */
+  public matchResponse(response: OfflineSigningResponse): OfflineSigningRequest {
+    const request = this.getPendingRequest(response.request_id);
+    if (!request) {
+      throw new OfflineSigningError(
+        response.request_id,
+        "no such request is waiting for a response"
+      );
+    }
+    this.assertAnswers(request, response);
+    return request;
+  }
+
+  private assertAnswers(
+    request: OfflineSigningRequest,
+    response: OfflineSigningResponse
+  ): void {
+    if (response.request_id !== request.request_id) {
+      throw new OfflineSigningError(
+        request.request_id,
+        `the response is for request ${response.request_id}`
+      );
+    }
+    if (response.kind !== request.kind) {
+      throw new OfflineSigningError(
+        request.request_id,
+        `a ${request.kind} was asked for but the response holds a ${response.kind}`
+      );
+    }
+    if (
+      request.kind === "transaction"
+        ? !response.signed_transaction_hex
+        : !response.signature
+    ) {
+      throw new OfflineSigningError(request.request_id, "the response is empty");
+    }
+  }
+
+  /**
+   * Hands a request to the handler and waits for its response. The request
+   * stays pending if this fails, so its response may still be brought back
+   * later.
+   */
+  public async requestSignature(
+    request: OfflineSigningRequest
+  ): Promise<OfflineSigningResponse> {
+    if (!this.handler) {
+      throw new OfflineSigningError(
+        request.request_id,
+        "nothing is available to show the request"
+      );
+    }
+    const response = await this.handler(request);
+    if (!response) {
+      throw new OfflineSigningError(request.request_id, "it was cancelled");
+    }
+    this.assertAnswers(request, response);
+    this.removePendingRequest(request.request_id);
+    return response;
+  }
+}
+
+export const offlineSigning = OfflineSigningManager.getInstance();
+
+export default OfflineSigningManager;
@@ -0,0 +1,539 @@
+// src/app/lib/pastelIDManager.ts
+
+'use client'
+
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage, setPastelIdAndPassphrase } from "@/app/lib/storage";
+import { keystore } from "@/app/lib/keystore";
+import { creditPackLedger } from "@/app/lib/creditPackLedger";
+import { transactionPreviews } from "@/app/lib/transactionPreview";
+import { watchOnlyWallet } from "@/app/lib/watchOnlyWallet";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import pastelGlobals from "@/app/lib/globals";
+import browserLogger from "@/app/lib/logger";
+import {
+  CreditPackPurchaseRequestRecord,
+  ManagedPastelID,
+  PastelIDCreditPackReference,
+  PastelIDRegistration,
+  PastelIDRegistrationStatus,
+  PastelIDSecureContainerExport,
+  TransactionPreview,
+} from "@/app/types";
+
+const REGISTRATIONS_STORAGE_KEY = "PASTELID_REGISTRATIONS";
+const SECURE_CONTAINER_EXPORT_VERSION = 1;
+const MIN_PASSPHRASE_LENGTH = 6;
+
+function readRegistrations(): PastelIDRegistration[] {
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(getNetworkStorageKey(REGISTRATIONS_STORAGE_KEY)) || "[]"
+    );
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeRegistrations(registrations: PastelIDRegistration[]): void {
+  localStorage.setItem(
+    getNetworkStorageKey(REGISTRATIONS_STORAGE_KEY),
+    JSON.stringify(registrations)
+  );
+}
+
+function validatePassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(
+      `PastelID passphrases are at least ${MIN_PASSPHRASE_LENGTH} characters`
+    );
+  }
+}
+
+/**
+ * Singleton managing the PastelIDs of the wallet through their lifecycle:
+ * registration with a fee preview and progress tracking, export and import
+ * of secure containers, and passphrase changes. Inside the wallet a PastelID
+ * is protected by the wallet password; its passphrase encrypts the secure
+ * containers it is exported in and is kept in the keystore. PastelIDs that
+ * local credit pack records name but whose keys are not in the wallet are
+ * listed too, so they can be imported before their credit packs are used.
+ * Registrations are kept in localStorage, per network.
+ */
+export class PastelIDManager {
+  private static instance: PastelIDManager;
+  private rpc: BrowserRPCReplacement;
+  private db: BrowserDatabase;
+
+  private constructor() {
+    this.rpc = BrowserRPCReplacement.getInstance();
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): PastelIDManager {
+    if (!PastelIDManager.instance) {
+      PastelIDManager.instance = new PastelIDManager();
+    }
+    return PastelIDManager.instance;
+  }
+
+  public getRegistration(pastelID: string): PastelIDRegistration | null {
+    return (
+      readRegistrations().find((registration) => registration.pastelid === pastelID) ||
+      null
+    );
+  }
+
+  private saveRegistration(
+    registration: PastelIDRegistration
+  ): PastelIDRegistration {
+    const updated = {
+      ...registration,
+      updated_at_utc_iso_string: new Date().toISOString(),
+    };
+    writeRegistrations([
+      ...readRegistrations().filter(
+        (existing) => existing.pastelid !== registration.pastelid
+      ),
+      updated,
+    ]);
+    return updated;
+  }
+
+  private getRequiredRegistration(pastelID: string): PastelIDRegistration {
+    const registration = this.getRegistration(pastelID);
+    if (!registration) {
+      throw new Error(`No registration of PastelID ${pastelID} was started here`);
+    }
+    return registration;
+  }
+
+  /**
+   * Collects the credit packs that purchases, watched credit packs and the
+   * credit pack ledger tie to each PastelID.
+   */
+  private async getCreditPackReferences(): Promise<
+    Map<string, PastelIDCreditPackReference[]>
+  > {
+    await initializeStorage();
+    const references = new Map<string, PastelIDCreditPackReference[]>();
+    const add = (pastelID: string, reference: PastelIDCreditPackReference) => {
+      if (!pastelID) return;
+      const existing = references.get(pastelID) || [];
+      const key = reference.credit_pack_ticket_txid || reference.credit_usage_tracking_psl_address;
+      if (
+        existing.some(
+          (known) =>
+            (known.credit_pack_ticket_txid || known.credit_usage_tracking_psl_address) === key
+        )
+      ) {
+        return;
+      }
+      references.set(pastelID, [...existing, reference]);
+    };
+
+    const purchases = await this.db.getAllData<CreditPackPurchaseRequestRecord>(
+      "CreditPackPurchaseRequest"
+    );
+    for (const purchase of purchases) {
+      add(purchase.requesting_end_user_pastelid, {
+        credit_pack_ticket_txid:
+          purchase.pastel_api_credit_pack_ticket_registration_txid || "",
+        credit_usage_tracking_psl_address: purchase.credit_usage_tracking_psl_address,
+        source: "purchase",
+      });
+    }
+    for (const pack of watchOnlyWallet.getCreditPacks()) {
+      add(pack.requesting_end_user_pastelid, {
+        credit_pack_ticket_txid: pack.credit_pack_registration_txid,
+        credit_usage_tracking_psl_address: pack.credit_usage_tracking_psl_address,
+        source: "watched",
+      });
+    }
+    for (const entry of await creditPackLedger.getAllEntries()) {
+      add(entry.requesting_pastelid, {
+        credit_pack_ticket_txid: entry.credit_pack_ticket_pastel_txid,
+        credit_usage_tracking_psl_address: entry.credit_usage_tracking_psl_address,
+        source: "ledger",
+      });
+    }
+    return references;
+  }
+
+  private hasStoredPassphrase(pastelID: string): boolean {
+    return (
+      keystore.isUnlocked() && keystore.getPastelIDPassphrase(pastelID) !== null
+    );
+  }
+
+  /**
+   * Tells whether a PastelID is registered on chain. A registration this
+   * wallet broadcast counts as pending until its ticket shows up.
+   */
+  public async getRegistrationStatus(
+    pastelID: string
+  ): Promise<PastelIDRegistrationStatus> {
+    try {
+      if (await this.rpc.isPastelIDRegistered(pastelID)) {
+        return "registered";
+      }
+    } catch (error) {
+      browserLogger.warn(
+        `Registration of PastelID ${pastelID} could not be checked: ${(error as Error).message}`
+      );
+      return "unknown";
+    }
+    return this.getRegistration(pastelID)?.stage === "broadcast"
+      ? "pending"
+      : "unregistered";
+  }
+
+  private async describe(
+    pastelID: string,
+    isLocal: boolean,
+    creditPacks: PastelIDCreditPackReference[]
+  ): Promise<ManagedPastelID> {
+    const registrationStatus = await this.getRegistrationStatus(pastelID);
+    let registration = this.getRegistration(pastelID);
+    if (
+      registrationStatus === "registered" &&
+      registration?.stage === "broadcast"
+    ) {
+      registration = this.saveRegistration({
+        ...registration,
+        stage: "registered",
+        registered_at_utc_iso_string: new Date().toISOString(),
+      });
+    }
+    let ticket: Record<string, unknown> | null = null;
+    if (registrationStatus === "registered") {
+      try {
+        ticket = await this.rpc.findPastelIDTicket(pastelID);
+      } catch (error) {
+        browserLogger.warn(
+          `Ticket of PastelID ${pastelID} could not be fetched: ${(error as Error).message}`
+        );
+      }
+    }
+    return {
+      pastelid: pastelID,
+      is_local: isLocal,
+      is_selected: pastelGlobals.getPastelId() === pastelID,
+      registration_status: registrationStatus,
+      ticket,
+      registration,
+      has_stored_passphrase: this.hasStoredPassphrase(pastelID),
+      credit_packs: creditPacks,
+    };
+  }
+
+  /**
+   * Lists the PastelIDs of the wallet, then those only known from credit
+   * pack records.
+   */
+  public async listPastelIDs(): Promise<ManagedPastelID[]> {
+    const localPastelIDs = await this.rpc.getPastelIDs();
+    const references = await this.getCreditPackReferences();
+    const missingPastelIDs = Array.from(references.keys()).filter(
+      (pastelID) => !localPastelIDs.includes(pastelID)
+    );
+    const managed: ManagedPastelID[] = [];
+    for (const pastelID of localPastelIDs) {
+      managed.push(
+        await this.describe(pastelID, true, references.get(pastelID) || [])
+      );
+    }
+    for (const pastelID of missingPastelIDs) {
+      managed.push(
+        await this.describe(pastelID, false, references.get(pastelID) || [])
+      );
+    }
+    return managed;
+  }
+
+  public async getPastelID(pastelID: string): Promise<ManagedPastelID> {
+    const isLocal = (await this.rpc.getPastelIDs()).includes(pastelID);
+    const creditPacks = (await this.getCreditPackReferences()).get(pastelID) || [];
+    if (!isLocal && !creditPacks.length) {
+      throw new Error(`PastelID ${pastelID} is not in this wallet`);
+    }
+    return this.describe(pastelID, isLocal, creditPacks);
+  }
+
+  /**
+   * PastelIDs that credit packs were bought with but whose keys are not in
+   * the wallet, so those credit packs cannot be used from here.
+   */
+  public async getMissingPastelIDs(): Promise<ManagedPastelID[]> {
+    return (await this.listPastelIDs()).filter((managed) => !managed.is_local);
+  }
+
+  /**
+   * Builds the registration transaction of a PastelID for review of its
+   * fee, creating a new PastelID when none is given. Nothing is sent until
+   * the registration is confirmed.
+   * @param fundingAddress - Pays the fee; the address with the largest balance by default.
+   */
+  public async previewRegistration(
+    pastelID?: string,
+    fundingAddress?: string
+  ): Promise<{ registration: PastelIDRegistration; preview: TransactionPreview }> {
+    watchOnlyWallet.assertCanSign("register PastelIDs");
+    const existing = pastelID ? this.getRegistration(pastelID) : null;
+    if (existing?.stage === "broadcast") {
+      throw new Error(
+        `The registration of PastelID ${pastelID} was already sent in ${existing.txid}`
+      );
+    }
+    if (pastelID) {
+      if (!(await this.rpc.getPastelIDs()).includes(pastelID)) {
+        throw new Error(`PastelID ${pastelID} is not in this wallet`);
+      }
+      if (await this.rpc.isPastelIDRegistered(pastelID)) {
+        throw new Error(`PastelID ${pastelID} is already registered`);
+      }
+    }
+    const registeredPastelID = pastelID || (await this.rpc.makeNewPastelID(false));
+    if (!registeredPastelID) {
+      throw new Error("A new PastelID could not be created");
+    }
+    const address =
+      fundingAddress || (await this.rpc.getMyPslAddressWithLargestBalance());
+    if (existing?.stage === "previewed") {
+      this.discardPreview(existing);
+    }
+    const preview = await this.rpc.buildPastelIDRegistrationTransaction(
+      registeredPastelID,
+      address
+    );
+    const now = new Date().toISOString();
+    const registration = this.saveRegistration({
+      pastelid: registeredPastelID,
+      funding_address: address,
+      preview_id: preview.preview_id,
+      txid: preview.txid,
+      stage: "previewed",
+      ticket_cost_in_psl: preview.recipient_total_in_psl,
+      fee_in_psl: preview.fee_in_psl,
+      check_count: 0,
+      last_error: null,
+      last_checked_at_utc_iso_string: null,
+      broadcast_at_utc_iso_string: null,
+      registered_at_utc_iso_string: null,
+      created_at_utc_iso_string: existing?.created_at_utc_iso_string ?? now,
+      updated_at_utc_iso_string: now,
+    });
+    browserLogger.info(
+      `Registration of PastelID ${registeredPastelID} previewed: ticket ${preview.recipient_total_in_psl} PSL, fee ${preview.fee_in_psl} PSL`
+    );
+    return { registration, preview };
+  }
+
+  // A preview may have expired already, which leaves nothing to discard
+  private discardPreview(registration: PastelIDRegistration): void {
+    try {
+      this.rpc.discardTransaction(registration.preview_id);
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Broadcasts a previewed registration.
+   */
+  public async confirmRegistration(
+    pastelID: string
+  ): Promise<PastelIDRegistration> {
+    const registration = this.getRequiredRegistration(pastelID);
+    if (registration.stage !== "previewed") {
+      throw new Error(
+        `The registration of PastelID ${pastelID} is ${registration.stage}, not awaiting confirmation`
+      );
+    }
+    try {
+      const txid = await this.rpc.broadcastTransaction(registration.preview_id);
+      return this.saveRegistration({
+        ...registration,
+        txid,
+        stage: "broadcast",
+        last_error: null,
+        broadcast_at_utc_iso_string: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.saveRegistration({
+        ...registration,
+        stage: "failed",
+        last_error: (error as Error).message,
+      });
+      throw error;
+    }
+  }
+
+  public discardRegistration(pastelID: string): PastelIDRegistration {
+    const registration = this.getRequiredRegistration(pastelID);
+    if (registration.stage !== "previewed") {
+      throw new Error(
+        `The registration of PastelID ${pastelID} is ${registration.stage} and cannot be discarded`
+      );
+    }
+    this.discardPreview(registration);
+    return this.saveRegistration({ ...registration, stage: "discarded" });
+  }
+
+  /**
+   * Checks once whether a broadcast registration has its ticket yet.
+   */
+  public async checkRegistration(
+    pastelID: string
+  ): Promise<PastelIDRegistration> {
+    const registration = this.getRequiredRegistration(pastelID);
+    const now = new Date().toISOString();
+    try {
+      const isRegistered = await this.rpc.isPastelIDRegistered(pastelID);
+      return this.saveRegistration({
+        ...registration,
+        stage: isRegistered ? "registered" : registration.stage,
+        check_count: registration.check_count + 1,
+        last_error: null,
+        last_checked_at_utc_iso_string: now,
+        registered_at_utc_iso_string: isRegistered
+          ? registration.registered_at_utc_iso_string ?? now
+          : registration.registered_at_utc_iso_string,
+      });
+    } catch (error) {
+      return this.saveRegistration({
+        ...registration,
+        check_count: registration.check_count + 1,
+        last_error: (error as Error).message,
+        last_checked_at_utc_iso_string: now,
+      });
+    }
+  }
+
+  /**
+   * Previews a registration, has it confirmed when the user requires
+   * confirmation of transactions, and broadcasts it.
+   */
+  public async register(
+    pastelID?: string,
+    fundingAddress?: string
+  ): Promise<PastelIDRegistration> {
+    const { registration, preview } = await this.previewRegistration(
+      pastelID,
+      fundingAddress
+    );
+    try {
+      await transactionPreviews.confirm(preview);
+    } catch (error) {
+      this.discardRegistration(registration.pastelid);
+      throw error;
+    }
+    return this.confirmRegistration(registration.pastelid);
+  }
+
+  /**
+   * Exports a PastelID as a secure container encrypted with its passphrase.
+   * @param passphrase - Encrypts the container; the stored passphrase by default.
+   */
+  public async exportSecureContainer(
+    pastelID: string,
+    passphrase?: string
+  ): Promise<PastelIDSecureContainerExport> {
+    const containerPassphrase =
+      passphrase || keystore.getPastelIDPassphrase(pastelID);
+    if (!containerPassphrase) {
+      throw new Error(
+        `No passphrase is stored for PastelID ${pastelID}; enter one to encrypt the export with`
+      );
+    }
+    validatePassphrase(containerPassphrase);
+    return {
+      version: SECURE_CONTAINER_EXPORT_VERSION,
+      pastelid: pastelID,
+      network: (await this.rpc.getNetworkInfo()).network,
+      secure_container_base64: await this.rpc.exportPastelIDSecureContainer(
+        pastelID,
+        containerPassphrase
+      ),
+      exported_at_utc_iso_string: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Imports a PastelID from a secure container, decrypting it with its
+   * passphrase.
+   * @param network - The network it was exported on, when known.
+   */
+  public async importSecureContainer(
+    pastelID: string,
+    secureContainerBase64: string,
+    passphrase: string,
+    rememberPassphrase: boolean,
+    network?: string
+  ): Promise<ManagedPastelID> {
+    watchOnlyWallet.assertCanSign("import PastelIDs");
+    const currentNetwork = (await this.rpc.getNetworkInfo()).network;
+    if (network && network !== currentNetwork) {
+      throw new Error(
+        `This secure container was exported on ${network}, but the wallet is on ${currentNetwork}`
+      );
+    }
+    const result = await this.rpc.importPastelIDFileIntoWallet(
+      secureContainerBase64,
+      pastelID,
+      passphrase
+    );
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+    if (!(await this.rpc.getPastelIDs()).includes(pastelID)) {
+      throw new Error(
+        `PastelID ${pastelID} is not in the wallet after importing it; check the passphrase`
+      );
+    }
+    if (rememberPassphrase) {
+      await keystore.setPastelIDPassphrase(pastelID, passphrase);
+    }
+    browserLogger.info(`Imported PastelID ${pastelID} from a secure container`);
+    return this.getPastelID(pastelID);
+  }
+
+  /**
+   * Replaces the passphrase kept for a PastelID, which later exports are
+   * encrypted with. The current one has to match the stored passphrase;
+   * without a stored one the change is refused.
+   */
+  public async changePassphrase(
+    pastelID: string,
+    currentPassphrase: string,
+    newPassphrase: string
+  ): Promise<void> {
+    if (!(await this.rpc.getPastelIDs()).includes(pastelID)) {
+      throw new Error(`PastelID ${pastelID} is not in this wallet`);
+    }
+    validatePassphrase(newPassphrase);
+    // Nothing else in the wallet can tell whether a passphrase is the right one
+    const stored = keystore.getPastelIDPassphrase(pastelID);
+    if (stored === null) {
+      throw new Error(
+        `No passphrase is stored for PastelID ${pastelID}, so the current one cannot be checked`
+      );
+    }
+    if (stored !== currentPassphrase) {
+      throw new Error("The current passphrase is wrong");
+    }
+    if (pastelGlobals.getPastelId() === pastelID) {
+      await setPastelIdAndPassphrase(pastelID, newPassphrase);
+      pastelGlobals.setPastelIdAndPassphrase(pastelID, newPassphrase);
+    } else {
+      await keystore.setPastelIDPassphrase(pastelID, newPassphrase);
+    }
+    browserLogger.info(`Passphrase of PastelID ${pastelID} changed`);
+  }
+}
+
+export const pastelIDManager = PastelIDManager.getInstance();
+
+export default PastelIDManager;
@@ -0,0 +1,161 @@
+// src/app/lib/rawTransaction.ts
+
+'use client'
+
+import { UTXOOutpoint } from "@/app/types";
+
+// Transparent transactions are serialized in the Sapling (v4, overwintered)
+// format the node and the WASM signer use
+const SAPLING_VERSION_HEADER = 0x80000004;
+const SAPLING_VERSION_GROUP_ID = 0x892f2085;
+const FINAL_SEQUENCE = 0xffffffff;
+const LOCKTIME_ENABLED_SEQUENCE = 0xfffffffe;
+
+export interface RawTransactionOutput {
+  scriptPubKey: string;
+  patoshis: number;
+}
+
+export interface RawTransactionOptions {
+  locktime?: number;
+  // Zero means the transaction never expires
+  expiryHeight?: number;
+}
+
+function uint32LE(value: number): string {
+  const buffer = new DataView(new ArrayBuffer(4));
+  buffer.setUint32(0, value, true);
+  return toHex(new Uint8Array(buffer.buffer));
+}
+
+function int64LE(value: number): string {
+  const buffer = new DataView(new ArrayBuffer(8));
+  buffer.setBigInt64(0, BigInt(value), true);
+  return toHex(new Uint8Array(buffer.buffer));
+}
+
+function compactSize(value: number): string {
+  if (value < 0xfd) return value.toString(16).padStart(2, "0");
+  if (value <= 0xffff) {
+    const buffer = new DataView(new ArrayBuffer(2));
+    buffer.setUint16(0, value, true);
+    return "fd" + toHex(new Uint8Array(buffer.buffer));
+  }
+  return "fe" + uint32LE(value);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function reverseHex(hex: string): string {
+  return (hex.match(/../g) || []).reverse().join("");
+}
+
+/**
+ * Serializes a transaction spending the given outpoints with empty input
+ * scripts, as createrawtransaction does. Nothing is added for the fee or
+ * change: whatever the inputs hold beyond the outputs goes to the miner.
+ */
+export function serializeUnsignedTransaction(
+  inputs: UTXOOutpoint[],
+  outputs: RawTransactionOutput[],
+  options: RawTransactionOptions = {}
+): string {
+  if (!inputs.length) {
+    throw new Error("A transaction needs at least one input");
+  }
+  if (!outputs.length) {
+    throw new Error("A transaction needs at least one output");
+  }
+  const locktime = options.locktime || 0;
+  const sequence = locktime > 0 ? LOCKTIME_ENABLED_SEQUENCE : FINAL_SEQUENCE;
+
+  let hex = uint32LE(SAPLING_VERSION_HEADER) + uint32LE(SAPLING_VERSION_GROUP_ID);
+  hex += compactSize(inputs.length);
+  for (const input of inputs) {
+    if (!/^[0-9a-fA-F]{64}$/.test(input.txid)) {
+      throw new Error(`Invalid input transaction ID: ${input.txid}`);
+    }
+    hex += reverseHex(input.txid.toLowerCase());
+    hex += uint32LE(input.outputIndex);
+    hex += compactSize(0);
+    hex += uint32LE(sequence);
+  }
+  hex += compactSize(outputs.length);
+  for (const output of outputs) {
+    if (!Number.isSafeInteger(output.patoshis) || output.patoshis < 0) {
+      throw new Error(`Invalid output amount: ${output.patoshis} patoshis`);
+    }
+    if (!/^([0-9a-fA-F]{2})+$/.test(output.scriptPubKey)) {
+      throw new Error(`Invalid output script: ${output.scriptPubKey}`);
+    }
+    hex += int64LE(output.patoshis);
+    hex += compactSize(output.scriptPubKey.length / 2);
+    hex += output.scriptPubKey.toLowerCase();
+  }
+  hex += uint32LE(locktime);
+  hex += uint32LE(options.expiryHeight || 0);
+  // No value balance, shielded spends, shielded outputs or JoinSplits
+  hex += int64LE(0) + compactSize(0) + compactSize(0) + compactSize(0);
+  return hex;
+}
+
+export interface ParsedTransaction {
+  inputs: UTXOOutpoint[];
+  outputs: RawTransactionOutput[];
+  locktime: number;
+  expiryHeight: number;
+}
+
+/**
+ * Reads the transparent inputs and outputs of a serialized Sapling
+ * transaction, signed or not, without contacting the node. Used where there
+ * is no opennode to decode with, such as on an offline signer.
+ */
+export function parseTransaction(hex: string): ParsedTransaction {
+  if (!/^([0-9a-fA-F]{2})+$/.test(hex)) {
+    throw new Error("Invalid transaction hex");
+  }
+  const bytes = new Uint8Array((hex.match(/../g) || []).map((byte) => parseInt(byte, 16)));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  const take = (length: number): number => {
+    if (offset + length > bytes.length) {
+      throw new Error("The transaction ends unexpectedly");
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+  const readUint32 = () => view.getUint32(take(4), true);
+  const readCompactSize = (): number => {
+    const first = bytes[take(1)];
+    if (first < 0xfd) return first;
+    if (first === 0xfd) return view.getUint16(take(2), true);
+    if (first === 0xfe) return readUint32();
+    throw new Error("Oversized count in the transaction");
+  };
+  const readHex = (length: number) => toHex(bytes.subarray(take(length), offset));
+
+  if (readUint32() !== SAPLING_VERSION_HEADER || readUint32() !== SAPLING_VERSION_GROUP_ID) {
+    throw new Error("Not a Sapling transaction");
+  }
+  const inputs: UTXOOutpoint[] = [];
+  for (let count = readCompactSize(); count > 0; count--) {
+    const txid = reverseHex(readHex(32));
+    const outputIndex = readUint32();
+    take(readCompactSize()); // scriptSig
+    take(4); // sequence
+    inputs.push({ txid, outputIndex });
+  }
+  const outputs: RawTransactionOutput[] = [];
+  for (let count = readCompactSize(); count > 0; count--) {
+    const patoshis = Number(view.getBigInt64(take(8), true));
+    outputs.push({ patoshis, scriptPubKey: readHex(readCompactSize()) });
+  }
+  const locktime = readUint32();
+  const expiryHeight = readUint32();
+  return { inputs, outputs, locktime, expiryHeight };
+}
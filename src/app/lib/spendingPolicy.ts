@@ -0,0 +1,441 @@
+// src/app/lib/spendingPolicy.ts
+
+'use client'
+
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { creditPackLedger } from "@/app/lib/creditPackLedger";
+import { SpendingPolicyViolationError } from "@/app/lib/errors";
+import browserLogger from "@/app/lib/logger";
+import {
+  CreditPackPurchaseRequestRecord,
+  CreditPackPurchaseSpendingPolicy,
+  CreditPackSpendingPolicy,
+  InferenceRequestState,
+  SpendingApprovalRequest,
+  SpendingPolicyRefusal,
+  SpendingPolicyRefusalKind,
+} from "@/app/types";
+
+const PURCHASE_POLICY_ID = "credit_pack_purchases";
+const DEFAULT_CREDIT_PACK_POLICY_ID = "credit_pack:*";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+// Purchases count against the PSL caps once their burn may have been sent
+const PSL_SPENDING_PURCHASE_STATUSES = [
+  "burn_pending",
+  "burn_sent",
+  "confirmed",
+  "storage_retry_requested",
+  "completed",
+];
+
+export function getCreditPackPolicyID(creditPackTicketPastelTxid: string): string {
+  return creditPackTicketPastelTxid
+    ? `credit_pack:${creditPackTicketPastelTxid}`
+    : DEFAULT_CREDIT_PACK_POLICY_ID;
+}
+
+export function createDefaultCreditPackSpendingPolicy(
+  creditPackTicketPastelTxid: string = ""
+): CreditPackSpendingPolicy {
+  return {
+    policy_id: getCreditPackPolicyID(creditPackTicketPastelTxid),
+    credit_pack_ticket_pastel_txid: creditPackTicketPastelTxid,
+    daily_credit_budget: null,
+    weekly_credit_budget: null,
+    per_model_daily_credit_budgets: {},
+    manual_approval_above_credits: null,
+    updated_at_utc_iso_string: "",
+  };
+}
+
+// Price limits used to be read from localStorage, so those values seed the default
+export function createDefaultPurchaseSpendingPolicy(): CreditPackPurchaseSpendingPolicy {
+  const storage = typeof window !== "undefined" ? window.localStorage : null;
+  return {
+    policy_id: PURCHASE_POLICY_ID,
+    maximum_per_credit_price_in_psl: parseFloat(
+      storage?.getItem("MAXIMUM_PER_CREDIT_PRICE_IN_PSL_FOR_CLIENT") || "100.0"
+    ),
+    maximum_credit_price_difference_from_market: parseFloat(
+      storage?.getItem(
+        "MAXIMUM_LOCAL_CREDIT_PRICE_DIFFERENCE_TO_ACCEPT_CREDIT_PRICING"
+      ) || "0.05"
+    ),
+    daily_psl_spending_cap: null,
+    weekly_psl_spending_cap: null,
+    manual_approval_above_psl: null,
+    updated_at_utc_iso_string: "",
+  };
+}
+
+interface InferenceSpendingReservation {
+  credit_pack_ticket_pastel_txid: string;
+  model_name: string;
+  cost_in_credits: number;
+  reserved_at_ms: number;
+}
+
+interface RefusalDetails {
+  kind: SpendingPolicyRefusalKind;
+  reference_id: string;
+  credit_pack_ticket_pastel_txid: string;
+  amount: number;
+  unit: "credits" | "PSL";
+  rule: string;
+  reason: string;
+}
+
+/**
+ * Singleton engine enforcing spending policies before anything is signed or
+ * burned. Checks are serialized so that concurrent requests (e.g. from a
+ * batch job) cannot each pass against the same remaining budget; an approved
+ * inference holds a reservation until its tracking transaction is recorded.
+ */
+export class SpendingPolicyEngine {
+  private static instance: SpendingPolicyEngine;
+  private db: BrowserDatabase;
+  private approvalHandler:
+    | ((request: SpendingApprovalRequest) => Promise<boolean>)
+    | null = null;
+  private reservations: Map<string, InferenceSpendingReservation> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): SpendingPolicyEngine {
+    if (!SpendingPolicyEngine.instance) {
+      SpendingPolicyEngine.instance = new SpendingPolicyEngine();
+    }
+    return SpendingPolicyEngine.instance;
+  }
+
+  /**
+   * Registers the callback asked to approve payments above the manual
+   * approval thresholds. Without one, such payments are refused.
+   */
+  public setApprovalHandler(
+    handler: ((request: SpendingApprovalRequest) => Promise<boolean>) | null
+  ): void {
+    this.approvalHandler = handler;
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  public async getCreditPackPolicy(
+    creditPackTicketPastelTxid: string
+  ): Promise<CreditPackSpendingPolicy> {
+    await initializeStorage();
+    const ownPolicy = await this.db.getData<CreditPackSpendingPolicy>(
+      "SpendingPolicy",
+      getCreditPackPolicyID(creditPackTicketPastelTxid)
+    );
+    if (ownPolicy) return ownPolicy;
+    const defaultPolicy = await this.db.getData<CreditPackSpendingPolicy>(
+      "SpendingPolicy",
+      DEFAULT_CREDIT_PACK_POLICY_ID
+    );
+    return defaultPolicy || createDefaultCreditPackSpendingPolicy();
+  }
+
+  public async saveCreditPackPolicy(
+    policy: CreditPackSpendingPolicy
+  ): Promise<void> {
+    await initializeStorage();
+    await this.db.saveData("SpendingPolicy", {
+      ...policy,
+      policy_id: getCreditPackPolicyID(policy.credit_pack_ticket_pastel_txid),
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+  }
+
+  public async deleteCreditPackPolicy(
+    creditPackTicketPastelTxid: string
+  ): Promise<void> {
+    await initializeStorage();
+    await this.db.deleteData(
+      "SpendingPolicy",
+      getCreditPackPolicyID(creditPackTicketPastelTxid)
+    );
+  }
+
+  public async getPurchasePolicy(): Promise<CreditPackPurchaseSpendingPolicy> {
+    await initializeStorage();
+    const policy = await this.db.getData<CreditPackPurchaseSpendingPolicy>(
+      "SpendingPolicy",
+      PURCHASE_POLICY_ID
+    );
+    return policy || createDefaultPurchaseSpendingPolicy();
+  }
+
+  public async savePurchasePolicy(
+    policy: CreditPackPurchaseSpendingPolicy
+  ): Promise<void> {
+    await initializeStorage();
+    await this.db.saveData("SpendingPolicy", {
+      ...policy,
+      policy_id: PURCHASE_POLICY_ID,
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+  }
+
+  public async getRefusals(): Promise<SpendingPolicyRefusal[]> {
+    await initializeStorage();
+    const refusals = await this.db.getAllData<SpendingPolicyRefusal>(
+      "SpendingPolicyRefusal"
+    );
+    return refusals.sort((a, b) =>
+      b.refused_at_utc_iso_string.localeCompare(a.refused_at_utc_iso_string)
+    );
+  }
+
+  private async refuse(details: RefusalDetails): Promise<never> {
+    browserLogger.warn(
+      `Spending policy refused ${details.kind} ${details.reference_id} of ${details.amount} ${details.unit} (${details.rule}): ${details.reason}`
+    );
+    try {
+      await this.db.addData("SpendingPolicyRefusal", {
+        ...details,
+        refused_at_utc_iso_string: new Date().toISOString(),
+      });
+    } catch (error) {
+      browserLogger.error(
+        `Unable to record spending policy refusal: ${(error as Error).message}`
+      );
+    }
+    throw new SpendingPolicyViolationError(details.rule, details.reason);
+  }
+
+  private async requestApproval(
+    request: SpendingApprovalRequest
+  ): Promise<{ approved: boolean; reason: string }> {
+    if (!this.approvalHandler) {
+      return {
+        approved: false,
+        reason: "manual approval is required but no approver is available",
+      };
+    }
+    try {
+      const approved = await this.approvalHandler(request);
+      return {
+        approved,
+        reason: approved ? "" : "manual approval was declined",
+      };
+    } catch (error) {
+      return {
+        approved: false,
+        reason: `manual approval failed: ${(error as Error).message}`,
+      };
+    }
+  }
+
+  /**
+   * Checks the credit budgets of the request's credit pack and asks for
+   * manual approval if needed. Returns a function that releases the
+   * reservation; call it once the tracking transaction is recorded or failed.
+   */
+  public async authorizeInferenceSpending(
+    state: InferenceRequestState,
+    costInCredits: number
+  ): Promise<() => void> {
+    const creditPackTxid = state.params.creditPackTicketPastelTxid;
+    const modelName = state.params.requestedModelCanonicalString;
+    const refusal = {
+      kind: "inference" as const,
+      reference_id: state.inference_request_id,
+      credit_pack_ticket_pastel_txid: creditPackTxid,
+      amount: costInCredits,
+      unit: "credits" as const,
+    };
+
+    return this.serialize(async () => {
+      const policy = await this.getCreditPackPolicy(creditPackTxid);
+      const now = Date.now();
+      const spending = (await creditPackLedger.getEntries(creditPackTxid))
+        .filter(
+          (entry) =>
+            entry.tracking_transaction_txid &&
+            entry.inference_request_id !== state.inference_request_id
+        )
+        .map((entry) => ({
+          model_name: entry.model_name,
+          cost_in_credits: entry.proposed_cost_of_request_in_inference_credits,
+          at_ms: Date.parse(entry.created_at_utc_iso_string),
+        }));
+      this.reservations.forEach((reservation, inferenceRequestID) => {
+        if (
+          reservation.credit_pack_ticket_pastel_txid === creditPackTxid &&
+          inferenceRequestID !== state.inference_request_id
+        ) {
+          spending.push({
+            model_name: reservation.model_name,
+            cost_in_credits: reservation.cost_in_credits,
+            at_ms: reservation.reserved_at_ms,
+          });
+        }
+      });
+      const spentSince = (windowMs: number, model?: string) =>
+        spending
+          .filter(
+            (item) =>
+              now - item.at_ms < windowMs &&
+              (model === undefined || item.model_name === model)
+          )
+          .reduce((sum, item) => sum + item.cost_in_credits, 0);
+
+      const budgets: [string, number | null, number][] = [
+        ["daily_credit_budget", policy.daily_credit_budget, spentSince(DAY_MS)],
+        [
+          "weekly_credit_budget",
+          policy.weekly_credit_budget,
+          spentSince(WEEK_MS),
+        ],
+        [
+          "per_model_daily_credit_budget",
+          policy.per_model_daily_credit_budgets[modelName] ?? null,
+          spentSince(DAY_MS, modelName),
+        ],
+      ];
+      for (const [rule, budget, spent] of budgets) {
+        if (budget !== null && spent + costInCredits > budget) {
+          await this.refuse({
+            ...refusal,
+            rule,
+            reason: `${costInCredits} credits for ${modelName} would exceed the budget of ${budget} credits, of which ${spent} are already spent`,
+          });
+        }
+      }
+
+      if (
+        policy.manual_approval_above_credits !== null &&
+        costInCredits > policy.manual_approval_above_credits
+      ) {
+        const { approved, reason } = await this.requestApproval({
+          ...refusal,
+          description: `Inference request ${state.inference_request_id} with ${modelName} will cost ${costInCredits} credits from credit pack ${creditPackTxid}.`,
+        });
+        if (!approved) {
+          await this.refuse({
+            ...refusal,
+            rule: "manual_approval_above_credits",
+            reason: `${reason} for a cost above ${policy.manual_approval_above_credits} credits`,
+          });
+        }
+      }
+
+      this.reservations.set(state.inference_request_id, {
+        credit_pack_ticket_pastel_txid: creditPackTxid,
+        model_name: modelName,
+        cost_in_credits: costInCredits,
+        reserved_at_ms: now,
+      });
+      return () => {
+        this.reservations.delete(state.inference_request_id);
+      };
+    });
+  }
+
+  /**
+   * Checks a credit pack purchase against the PSL price limits and spending
+   * caps. Manual approval is only asked for when requested by the caller,
+   * so a purchase is not approved twice for the same price.
+   */
+  public async authorizeCreditPackPurchase(purchase: {
+    reference_id: string;
+    total_cost_in_psl: number;
+    price_per_credit_in_psl: number;
+    requireApproval: boolean;
+  }): Promise<void> {
+    const refusal = {
+      kind: "credit_pack_purchase" as const,
+      reference_id: purchase.reference_id,
+      credit_pack_ticket_pastel_txid: "",
+      amount: purchase.total_cost_in_psl,
+      unit: "PSL" as const,
+    };
+
+    return this.serialize(async () => {
+      const policy = await this.getPurchasePolicy();
+      if (
+        purchase.price_per_credit_in_psl >
+        policy.maximum_per_credit_price_in_psl
+      ) {
+        await this.refuse({
+          ...refusal,
+          rule: "maximum_per_credit_price_in_psl",
+          reason: `${purchase.price_per_credit_in_psl} PSL per credit is above the maximum of ${policy.maximum_per_credit_price_in_psl} PSL`,
+        });
+      }
+
+      const now = Date.now();
+      const purchases = (
+        await this.db.getAllData<CreditPackPurchaseRequestRecord>(
+          "CreditPackPurchaseRequest"
+        )
+      ).filter(
+        (record) =>
+          record.sha3_256_hash_of_credit_pack_purchase_request_fields !==
+            purchase.reference_id &&
+          record.burn_amount_in_psl !== undefined &&
+          (PSL_SPENDING_PURCHASE_STATUSES.includes(record.purchase_status) ||
+            record.txid_of_credit_purchase_burn_transaction)
+      );
+      const spentSince = (windowMs: number) =>
+        purchases
+          .filter(
+            (record) =>
+              now - Date.parse(record.request_timestamp_utc_iso_string) <
+              windowMs
+          )
+          .reduce((sum, record) => sum + (record.burn_amount_in_psl || 0), 0);
+
+      const caps: [string, number | null, number][] = [
+        ["daily_psl_spending_cap", policy.daily_psl_spending_cap, spentSince(DAY_MS)],
+        [
+          "weekly_psl_spending_cap",
+          policy.weekly_psl_spending_cap,
+          spentSince(WEEK_MS),
+        ],
+      ];
+      for (const [rule, cap, spent] of caps) {
+        if (cap !== null && spent + purchase.total_cost_in_psl > cap) {
+          await this.refuse({
+            ...refusal,
+            rule,
+            reason: `${purchase.total_cost_in_psl} PSL would exceed the cap of ${cap} PSL, of which ${spent} PSL are already spent`,
+          });
+        }
+      }
+
+      if (
+        purchase.requireApproval &&
+        policy.manual_approval_above_psl !== null &&
+        purchase.total_cost_in_psl > policy.manual_approval_above_psl
+      ) {
+        const { approved, reason } = await this.requestApproval({
+          ...refusal,
+          description: `Credit pack purchase ${purchase.reference_id} will burn ${purchase.total_cost_in_psl} PSL at ${purchase.price_per_credit_in_psl} PSL per credit.`,
+        });
+        if (!approved) {
+          await this.refuse({
+            ...refusal,
+            rule: "manual_approval_above_psl",
+            reason: `${reason} for a purchase above ${policy.manual_approval_above_psl} PSL`,
+          });
+        }
+      }
+    });
+  }
+}
+
+export const spendingPolicy = SpendingPolicyEngine.getInstance();
+
+export default SpendingPolicyEngine;
@@ -3,6 +3,8 @@
 'use client';
 
 import BrowserDatabase from "./BrowserDatabase";
+import { keystore } from "./keystore";
+import { getNetworkStorageKey } from "./networkConfig";
 import { PastelID } from "@/app/types";
 import browserLogger from "@/app/lib/logger";
 
@@ -40,11 +42,31 @@ class BrowserStorage {
     }
   }
 
+  /**
+   * Switches to other IndexedDB databases, opened again on next use.
+   */
+  public switchDatabase(dbName: string, sharedDbName: string = dbName): void {
+    if (
+      this.browserDB.getDatabaseName() === dbName &&
+      this.browserDB.getSharedDatabaseName() === sharedDbName
+    ) {
+      return;
+    }
+    this.browserDB.setDatabaseName(dbName, sharedDbName);
+    this.storageInitialized = false;
+  }
+
   public async getCurrentPastelIdAndPassphrase(): Promise<PastelID> {
     try {
       await this.initializeStorage();
-      const pastelID = localStorage.getItem("MY_LOCAL_PASTELID");
-      const passphrase = localStorage.getItem("MY_PASTELID_PASSPHRASE");
+      const pastelID = localStorage.getItem(getNetworkStorageKey("MY_LOCAL_PASTELID"));
+      if (pastelID && !keystore.isUnlocked()) {
+        browserLogger.warn("Keystore is locked; PastelID passphrase unavailable");
+        return { pastelID: null, passphrase: null };
+      }
+      const passphrase = pastelID
+        ? keystore.getPastelIDPassphrase(pastelID)
+        : null;
 
       if (!pastelID || !passphrase) {
         browserLogger.warn("PastelID or passphrase not found in storage");
@@ -74,8 +96,8 @@ class BrowserStorage {
 
     try {
       await this.initializeStorage();
-      localStorage.setItem("MY_LOCAL_PASTELID", pastelID);
-      localStorage.setItem("MY_PASTELID_PASSPHRASE", passphrase);
+      await keystore.setPastelIDPassphrase(pastelID, passphrase);
+      localStorage.setItem(getNetworkStorageKey("MY_LOCAL_PASTELID"), pastelID);
       browserLogger.info(`Set PastelID: ${pastelID}`);
     } catch (error) {
       browserLogger.error(
@@ -137,6 +159,14 @@ class BrowserStorage {
 const browserStorage = BrowserStorage.getInstance();
 export default browserStorage;
 
+export async function initializeStorage(): Promise<void> {
+  return browserStorage.initializeStorage();
+}
+
+export function switchDatabase(dbName: string, sharedDbName: string = dbName): void {
+  browserStorage.switchDatabase(dbName, sharedDbName);
+}
+
 export async function getCurrentPastelIdAndPassphrase(): Promise<PastelID> {
   return browserStorage.getCurrentPastelIdAndPassphrase();
 }
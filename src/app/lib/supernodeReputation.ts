@@ -0,0 +1,286 @@
+// src/app/lib/supernodeReputation.ts
+
+'use client'
+
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import browserLogger from "@/app/lib/logger";
+import {
+  SupernodeEndpointStats,
+  SupernodeReputation,
+  SupernodeReputationSummary,
+} from "@/app/types";
+
+const MAX_LATENCY_SAMPLES_PER_ENDPOINT = 50;
+const FLUSH_DELAY_MS = 2000;
+// Latency at which a supernode's reliability score is halved
+const LATENCY_PENALTY_HALF_POINT_MS = 2000;
+// Share of the combined ranking decided by reliability rather than XOR distance
+const RELIABILITY_RANKING_WEIGHT = 0.5;
+
+function percentile(sortedSamples: number[], p: number): number | null {
+  if (sortedSamples.length === 0) return null;
+  const index = Math.min(
+    sortedSamples.length - 1,
+    Math.ceil((p / 100) * sortedSamples.length) - 1
+  );
+  return Math.round(sortedSamples[Math.max(0, index)]);
+}
+
+function createEmptyEndpointStats(): SupernodeEndpointStats {
+  return {
+    success_count: 0,
+    failure_count: 0,
+    latency_samples_ms: [],
+    last_error: "",
+    last_error_utc_iso_string: "",
+    last_success_utc_iso_string: "",
+  };
+}
+
+/**
+ * Singleton store of observed supernode latency and failure history.
+ * Outcomes are kept in memory and flushed to IndexedDB in batches so that
+ * pinging every supernode does not turn into one write per request.
+ */
+export class SupernodeReputationStore {
+  private static instance: SupernodeReputationStore;
+  private db: BrowserDatabase;
+  private records: Map<string, SupernodeReputation> = new Map();
+  private dirtyURLs: Set<string> = new Set();
+  private loadPromise: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): SupernodeReputationStore {
+    if (!SupernodeReputationStore.instance) {
+      SupernodeReputationStore.instance = new SupernodeReputationStore();
+    }
+    return SupernodeReputationStore.instance;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          await initializeStorage();
+          const stored = await this.db.getAllData<SupernodeReputation>(
+            "SupernodeReputation"
+          );
+          for (const record of stored) {
+            // Outcomes recorded before loading finished take precedence
+            if (!this.records.has(record.supernode_url)) {
+              this.records.set(record.supernode_url, record);
+            }
+          }
+        } catch (error) {
+          browserLogger.warn(
+            `Unable to load supernode reputation history: ${
+              (error as Error).message
+            }`
+          );
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private getOrCreateEndpointStats(
+    supernodeURL: string,
+    endpoint: string
+  ): SupernodeEndpointStats {
+    let record = this.records.get(supernodeURL);
+    if (!record) {
+      record = {
+        supernode_url: supernodeURL,
+        endpoints: {},
+        updated_at_utc_iso_string: new Date().toISOString(),
+      };
+      this.records.set(supernodeURL, record);
+    }
+    if (!record.endpoints[endpoint]) {
+      record.endpoints[endpoint] = createEmptyEndpointStats();
+    }
+    return record.endpoints[endpoint];
+  }
+
+  private markDirty(supernodeURL: string): void {
+    const record = this.records.get(supernodeURL);
+    if (record) {
+      record.updated_at_utc_iso_string = new Date().toISOString();
+    }
+    this.dirtyURLs.add(supernodeURL);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        void this.flush();
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Writes all pending reputation changes to IndexedDB.
+   */
+  public async flush(): Promise<void> {
+    await this.load();
+    const urls = Array.from(this.dirtyURLs);
+    this.dirtyURLs.clear();
+    for (const url of urls) {
+      const record = this.records.get(url);
+      if (!record) continue;
+      try {
+        await this.db.saveData("SupernodeReputation", record);
+      } catch (error) {
+        browserLogger.warn(
+          `Unable to persist reputation for supernode ${url}: ${
+            (error as Error).message
+          }`
+        );
+      }
+    }
+  }
+
+  public async recordSuccess(
+    supernodeURL: string,
+    endpoint: string,
+    latencyMs: number
+  ): Promise<void> {
+    await this.load();
+    const stats = this.getOrCreateEndpointStats(supernodeURL, endpoint);
+    stats.success_count++;
+    stats.latency_samples_ms.push(Math.round(latencyMs));
+    if (stats.latency_samples_ms.length > MAX_LATENCY_SAMPLES_PER_ENDPOINT) {
+      stats.latency_samples_ms.splice(
+        0,
+        stats.latency_samples_ms.length - MAX_LATENCY_SAMPLES_PER_ENDPOINT
+      );
+    }
+    stats.last_success_utc_iso_string = new Date().toISOString();
+    this.markDirty(supernodeURL);
+  }
+
+  public async recordFailure(
+    supernodeURL: string,
+    endpoint: string,
+    error: unknown
+  ): Promise<void> {
+    await this.load();
+    const stats = this.getOrCreateEndpointStats(supernodeURL, endpoint);
+    stats.failure_count++;
+    stats.last_error =
+      error instanceof Error ? error.message : String(error);
+    stats.last_error_utc_iso_string = new Date().toISOString();
+    this.markDirty(supernodeURL);
+  }
+
+  /**
+   * Aggregates the history of a supernode across all endpoints.
+   * Supernodes that were never observed get a neutral score of 0.5.
+   */
+  public getSummary(supernodeURL: string): SupernodeReputationSummary {
+    const record = this.records.get(supernodeURL);
+    let successCount = 0;
+    let failureCount = 0;
+    let samples: number[] = [];
+    let lastError = "";
+    let lastErrorTime = "";
+    if (record) {
+      for (const stats of Object.values(record.endpoints)) {
+        successCount += stats.success_count;
+        failureCount += stats.failure_count;
+        samples = samples.concat(stats.latency_samples_ms);
+        if (stats.last_error_utc_iso_string > lastErrorTime) {
+          lastErrorTime = stats.last_error_utc_iso_string;
+          lastError = stats.last_error;
+        }
+      }
+    }
+    samples.sort((a, b) => a - b);
+    const p90 = percentile(samples, 90);
+    const successRate = (successCount + 1) / (successCount + failureCount + 2);
+    const latencyFactor =
+      p90 === null
+        ? 1
+        : LATENCY_PENALTY_HALF_POINT_MS / (LATENCY_PENALTY_HALF_POINT_MS + p90);
+    return {
+      supernode_url: supernodeURL,
+      success_count: successCount,
+      failure_count: failureCount,
+      latency_p50_ms: percentile(samples, 50),
+      latency_p90_ms: p90,
+      latency_p99_ms: percentile(samples, 99),
+      last_error: lastError,
+      reliability_score: successRate * latencyFactor,
+    };
+  }
+
+  public async getAllSummaries(): Promise<SupernodeReputationSummary[]> {
+    await this.load();
+    return Array.from(this.records.keys())
+      .map((url) => this.getSummary(url))
+      .sort((a, b) => b.reliability_score - a.reliability_score);
+  }
+
+  /**
+   * Orders supernodes by a blend of their XOR distance rank and their
+   * observed reliability, so a close but flaky supernode can be passed over.
+   */
+  public async rankByDistanceAndReliability<
+    T extends { url: string; distance: bigint }
+  >(supernodes: T[]): Promise<T[]> {
+    await this.load();
+    const byDistance = [...supernodes].sort((a, b) => {
+      if (a.distance < b.distance) return -1;
+      if (a.distance > b.distance) return 1;
+      return 0;
+    });
+    const denominator = Math.max(1, byDistance.length - 1);
+    return byDistance
+      .map((supernode, index) => ({
+        supernode,
+        score:
+          (1 - RELIABILITY_RANKING_WEIGHT) * (index / denominator) +
+          RELIABILITY_RANKING_WEIGHT *
+            (1 - this.getSummary(supernode.url).reliability_score),
+      }))
+      .sort((a, b) => a.score - b.score)
+      .map(({ supernode }) => supernode);
+  }
+}
+
+/**
+ * Fetches from a supernode and records the outcome and latency against the
+ * given endpoint. Non-2xx responses count as failures but are still returned.
+ */
+export async function fetchWithReputation(
+  supernodeURL: string,
+  endpoint: string,
+  input: string,
+  init?: RequestInit
+): Promise<Response> {
+  const store = SupernodeReputationStore.getInstance();
+  const start = performance.now();
+  try {
+    const response = await fetch(input, init);
+    if (response.ok) {
+      void store.recordSuccess(supernodeURL, endpoint, performance.now() - start);
+    } else {
+      void store.recordFailure(
+        supernodeURL,
+        endpoint,
+        new Error(`HTTP error! status: ${response.status}`)
+      );
+    }
+    return response;
+  } catch (error) {
+    void store.recordFailure(supernodeURL, endpoint, error);
+    throw error;
+  }
+}
+
+export const supernodeReputation = SupernodeReputationStore.getInstance();
+
+export default SupernodeReputationStore;
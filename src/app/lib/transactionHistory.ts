@@ -0,0 +1,499 @@
+// src/app/lib/transactionHistory.ts
+
+'use client'
+
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import { patoshisToPSL, pslToPatoshis } from "@/app/lib/coinSelection";
+import browserLogger from "@/app/lib/logger";
+import {
+  CreditPackPurchaseRequestRecord,
+  DecodedRawTransaction,
+  InferenceRequestState,
+  TransactionHistoryEntry,
+  TransactionHistoryLabel,
+  TransactionHistoryQuery,
+  TransactionHistorySyncResult,
+  TransactionHistorySyncState,
+} from "@/app/types";
+
+const PROMOTIONAL_PACK_ADDRESSES_STORAGE_KEY = "PROMOTIONAL_PACK_TRACKING_ADDRESSES";
+
+export interface AddressHistoryTransaction {
+  txid: string;
+  satoshis: number | null;
+  // Null when unconfirmed or when the history only lists txids
+  height: number | null;
+}
+
+/**
+ * Normalizes the response of getAddressHistory, which is either a list of
+ * address deltas ({txid, satoshis, height, ...}) or a list of txids,
+ * optionally wrapped in an object.
+ */
+export function extractAddressHistoryTransactions(
+  history: unknown
+): AddressHistoryTransaction[] {
+  let items: unknown = history;
+  if (items && typeof items === "object" && !Array.isArray(items)) {
+    const wrapper = items as Record<string, unknown>;
+    items = wrapper.history ?? wrapper.transactions ?? wrapper.deltas ?? [];
+  }
+  if (!Array.isArray(items)) {
+    return [];
+  }
+  const transactions: AddressHistoryTransaction[] = [];
+  for (const item of items) {
+    if (typeof item === "string") {
+      transactions.push({ txid: item, satoshis: null, height: null });
+    } else if (item && typeof item === "object") {
+      const record = item as Record<string, unknown>;
+      if (typeof record.txid !== "string") continue;
+      const satoshis = record.satoshis ?? record.patoshis;
+      transactions.push({
+        txid: record.txid,
+        satoshis: typeof satoshis === "number" ? satoshis : null,
+        height:
+          typeof record.height === "number" && record.height > 0
+            ? record.height
+            : null,
+      });
+    }
+  }
+  return transactions;
+}
+
+// What the labels are derived from, gathered once per sync
+interface LabelingContext {
+  burnAddress: string;
+  purchaseBurns: Map<string, string>;
+  trackingBurns: Map<string, string>;
+  trackingAddresses: Set<string>;
+  promotionalPackAddresses: Record<string, string>;
+}
+
+function sameDeltas(a: Record<string, number>, b: Record<string, number>): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key])
+  );
+}
+
+/**
+ * Singleton index of the transactions touching wallet addresses. Syncing
+ * fetches the history of every wallet address from the opennode, but only
+ * decodes and labels transactions that are new or were still unconfirmed,
+ * and skips addresses whose history has not changed since the last sync.
+ */
+export class TransactionHistoryIndexer {
+  private static instance: TransactionHistoryIndexer;
+  private db: BrowserDatabase;
+  private syncPromise: Promise<TransactionHistorySyncResult> | null = null;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): TransactionHistoryIndexer {
+    if (!TransactionHistoryIndexer.instance) {
+      TransactionHistoryIndexer.instance = new TransactionHistoryIndexer();
+    }
+    return TransactionHistoryIndexer.instance;
+  }
+
+  /**
+   * Remembers the tracking address of an imported promotional pack, so the
+   * transactions funding it are labeled as such.
+   */
+  public recordPromotionalPackAddress(
+    address: string,
+    creditPackTicketPastelTxid: string
+  ): void {
+    const addresses = this.getPromotionalPackAddresses();
+    addresses[address] = creditPackTicketPastelTxid;
+    localStorage.setItem(
+      getNetworkStorageKey(PROMOTIONAL_PACK_ADDRESSES_STORAGE_KEY),
+      JSON.stringify(addresses)
+    );
+  }
+
+  // Tracking keys imported before promotional packs were recorded have no credit pack txid
+  private getPromotionalPackAddresses(): Record<string, string> {
+    const addresses: Record<string, string> = {};
+    const legacyKeys = JSON.parse(
+      localStorage.getItem(getNetworkStorageKey("psltKeyStore")) || "{}"
+    ) as Record<string, string>;
+    for (const address of Object.keys(legacyKeys)) {
+      addresses[address] = "";
+    }
+    return {
+      ...addresses,
+      ...(JSON.parse(
+        localStorage.getItem(getNetworkStorageKey(PROMOTIONAL_PACK_ADDRESSES_STORAGE_KEY)) || "{}"
+      ) as Record<string, string>),
+    };
+  }
+
+  /**
+   * Syncs the history of every wallet address. Concurrent calls share the
+   * sync in progress.
+   */
+  public sync(): Promise<TransactionHistorySyncResult> {
+    if (!this.syncPromise) {
+      this.syncPromise = this.runSync().finally(() => {
+        this.syncPromise = null;
+      });
+    }
+    return this.syncPromise;
+  }
+
+  private async runSync(): Promise<TransactionHistorySyncResult> {
+    await initializeStorage();
+    const rpc = BrowserRPCReplacement.getInstance();
+    const context = await this.getLabelingContext();
+    const walletAddresses = Array.from(
+      new Set([
+        ...(await rpc.getAllAddresses()),
+        ...Object.keys(context.promotionalPackAddresses),
+      ])
+    );
+
+    const result: TransactionHistorySyncResult = {
+      synced_address_count: 0,
+      skipped_address_count: 0,
+      new_transaction_count: 0,
+      updated_transaction_count: 0,
+      failed_addresses: [],
+      synced_at_utc_iso_string: "",
+    };
+    // Deltas in patoshis per txid, only from the addresses whose history changed
+    const deltas = new Map<string, Record<string, number>>();
+    const heights = new Map<string, number | null>();
+    const syncStates: TransactionHistorySyncState[] = [];
+
+    for (const address of walletAddresses) {
+      let history: AddressHistoryTransaction[];
+      try {
+        history = extractAddressHistoryTransactions(
+          await rpc.getAddressHistory(address)
+        );
+      } catch (error) {
+        browserLogger.warn(
+          `Failed to fetch the history of ${address}: ${(error as Error).message}`
+        );
+        result.failed_addresses.push(address);
+        continue;
+      }
+      const syncState = await this.db.getData<TransactionHistorySyncState>(
+        "TransactionHistorySync",
+        address
+      );
+      if (
+        syncState &&
+        syncState.transaction_count === history.length &&
+        !syncState.has_unconfirmed_transactions
+      ) {
+        result.skipped_address_count++;
+        continue;
+      }
+      for (const tx of history) {
+        const txDeltas = deltas.get(tx.txid) || {};
+        txDeltas[address] = (txDeltas[address] || 0) + (tx.satoshis || 0);
+        deltas.set(tx.txid, txDeltas);
+        heights.set(tx.txid, tx.height ?? heights.get(tx.txid) ?? null);
+      }
+      syncStates.push({
+        address,
+        transaction_count: history.length,
+        has_unconfirmed_transactions: history.some((tx) => tx.height === null),
+        last_synced_at_utc_iso_string: new Date().toISOString(),
+      });
+      result.synced_address_count++;
+    }
+
+    for (const [txid, txDeltas] of Array.from(deltas)) {
+      const existing = await this.db.getData<TransactionHistoryEntry>(
+        "TransactionHistory",
+        txid
+      );
+      const addressDeltas: Record<string, number> = {
+        ...(existing?.address_deltas_in_psl || {}),
+      };
+      for (const [address, patoshis] of Object.entries(txDeltas)) {
+        addressDeltas[address] = patoshisToPSL(patoshis);
+      }
+      const blockHeight = heights.get(txid) ?? null;
+      if (
+        existing &&
+        existing.block_height === blockHeight &&
+        sameDeltas(existing.address_deltas_in_psl, addressDeltas)
+      ) {
+        continue;
+      }
+      const entry = await this.normalize(
+        txid,
+        addressDeltas,
+        blockHeight,
+        existing,
+        walletAddresses,
+        context
+      );
+      await this.db.saveData("TransactionHistory", entry);
+      if (existing) {
+        result.updated_transaction_count++;
+      } else {
+        result.new_transaction_count++;
+      }
+    }
+
+    // Saved last so an interrupted sync is picked up again next time
+    for (const syncState of syncStates) {
+      await this.db.saveData("TransactionHistorySync", syncState);
+    }
+    result.synced_at_utc_iso_string = new Date().toISOString();
+    browserLogger.info(
+      `Transaction history synced: ${result.new_transaction_count} new, ${result.updated_transaction_count} updated`
+    );
+    return result;
+  }
+
+  private async getLabelingContext(): Promise<LabelingContext> {
+    const rpc = BrowserRPCReplacement.getInstance();
+    let burnAddress = "";
+    try {
+      burnAddress = await rpc.getBurnAddress();
+    } catch (error) {
+      browserLogger.warn(
+        `Burn transactions will not be detected: ${(error as Error).message}`
+      );
+    }
+    const purchases = await this.db.getAllData<CreditPackPurchaseRequestRecord>(
+      "CreditPackPurchaseRequest"
+    );
+    const states = await this.db.getAllData<InferenceRequestState>(
+      "InferenceRequestState"
+    );
+    const purchaseBurns = new Map<string, string>();
+    const trackingAddresses = new Set<string>();
+    for (const purchase of purchases) {
+      if (purchase.txid_of_credit_purchase_burn_transaction) {
+        purchaseBurns.set(
+          purchase.txid_of_credit_purchase_burn_transaction,
+          purchase.sha3_256_hash_of_credit_pack_purchase_request_fields
+        );
+      }
+      if (purchase.credit_usage_tracking_psl_address) {
+        trackingAddresses.add(purchase.credit_usage_tracking_psl_address);
+      }
+    }
+    const trackingBurns = new Map<string, string>();
+    for (const state of states) {
+      if (state.tracking_transaction_txid) {
+        trackingBurns.set(
+          state.tracking_transaction_txid,
+          state.inference_request_id
+        );
+      }
+      if (state.usage_request_response) {
+        trackingAddresses.add(
+          state.usage_request_response.credit_usage_tracking_psl_address
+        );
+      }
+    }
+    const promotionalPackAddresses = this.getPromotionalPackAddresses();
+    for (const address of Object.keys(promotionalPackAddresses)) {
+      trackingAddresses.add(address);
+    }
+    return {
+      burnAddress,
+      purchaseBurns,
+      trackingBurns,
+      trackingAddresses,
+      promotionalPackAddresses,
+    };
+  }
+
+  // Transactions are decoded once they are new or when they confirm; the
+  // label of a confirmed transaction is kept as it was
+  private async normalize(
+    txid: string,
+    addressDeltas: Record<string, number>,
+    blockHeight: number | null,
+    existing: TransactionHistoryEntry | undefined,
+    walletAddresses: string[],
+    context: LabelingContext
+  ): Promise<TransactionHistoryEntry> {
+    const netAmountInPSL = patoshisToPSL(
+      Object.values(addressDeltas).reduce(
+        (sum, amount) => sum + pslToPatoshis(amount),
+        0
+      )
+    );
+    const now = new Date().toISOString();
+    const entry: TransactionHistoryEntry = {
+      txid,
+      label: existing?.label || "transfer",
+      direction: netAmountInPSL > 0 ? "incoming" : "outgoing",
+      net_amount_in_psl: netAmountInPSL,
+      address_deltas_in_psl: addressDeltas,
+      counterparty_addresses: existing?.counterparty_addresses || [],
+      reference_id: existing?.reference_id || "",
+      block_height: blockHeight,
+      first_seen_at_utc_iso_string: existing?.first_seen_at_utc_iso_string || now,
+      updated_at_utc_iso_string: now,
+    };
+    if (existing && existing.block_height !== null) {
+      if (existing.direction === "self") entry.direction = "self";
+      return entry;
+    }
+
+    let decoded: DecodedRawTransaction | null = null;
+    try {
+      decoded = await BrowserRPCReplacement.getInstance().getAndDecodeRawTransaction(
+        txid
+      );
+    } catch (error) {
+      browserLogger.warn(
+        `Failed to decode transaction ${txid}, labeling it from its amounts only: ${(error as Error).message}`
+      );
+    }
+    const wallet = new Set(walletAddresses);
+    const outputAddresses = (decoded?.vout || []).flatMap(
+      (output) => output.scriptPubKey.addresses || []
+    );
+    entry.counterparty_addresses = Array.from(
+      new Set(outputAddresses.filter((address) => !wallet.has(address)))
+    );
+    if (decoded && netAmountInPSL <= 0 && !entry.counterparty_addresses.length) {
+      entry.direction = "self";
+    }
+    const { label, referenceId } = await this.label(
+      txid,
+      addressDeltas,
+      decoded,
+      outputAddresses,
+      context
+    );
+    entry.label = label;
+    entry.reference_id = referenceId;
+    return entry;
+  }
+
+  private async label(
+    txid: string,
+    addressDeltas: Record<string, number>,
+    decoded: DecodedRawTransaction | null,
+    outputAddresses: string[],
+    context: LabelingContext
+  ): Promise<{ label: TransactionHistoryLabel; referenceId: string }> {
+    const purchase = context.purchaseBurns.get(txid);
+    if (purchase !== undefined) {
+      return { label: "credit_pack_purchase_burn", referenceId: purchase };
+    }
+    const inferenceRequestId = context.trackingBurns.get(txid);
+    if (inferenceRequestId !== undefined) {
+      return { label: "inference_tracking_burn", referenceId: inferenceRequestId };
+    }
+    const spentFrom = Object.keys(addressDeltas).filter(
+      (address) => addressDeltas[address] < 0
+    );
+    // Burns made outside this browser are told apart by where they were paid from
+    if (context.burnAddress && outputAddresses.includes(context.burnAddress)) {
+      return spentFrom.some((address) => context.trackingAddresses.has(address))
+        ? { label: "inference_tracking_burn", referenceId: "" }
+        : { label: "credit_pack_purchase_burn", referenceId: "" };
+    }
+    // Tickets are stored in multisig outputs
+    if (
+      spentFrom.length &&
+      decoded?.vout.some((output) => output.scriptPubKey.type === "multisig")
+    ) {
+      const pastelID = await this.getRegisteredPastelID(txid);
+      if (pastelID !== null) {
+        return { label: "pastelid_registration", referenceId: pastelID };
+      }
+    }
+    const fundedPackAddress = Object.keys(addressDeltas).find(
+      (address) =>
+        addressDeltas[address] > 0 &&
+        address in context.promotionalPackAddresses
+    );
+    if (fundedPackAddress) {
+      return {
+        label: "promotional_pack_funding",
+        referenceId: context.promotionalPackAddresses[fundedPackAddress],
+      };
+    }
+    return { label: "transfer", referenceId: "" };
+  }
+
+  private async getRegisteredPastelID(txid: string): Promise<string | null> {
+    try {
+      const response = (await BrowserRPCReplacement.getInstance().getPastelTicket(
+        txid
+      )) as { ticket?: { type?: string; pastelID?: string } } | null;
+      const ticket = response?.ticket;
+      if (ticket?.type !== "pastelid") return null;
+      return ticket.pastelID || "";
+    } catch (error) {
+      browserLogger.warn(
+        `Failed to look up the ticket of ${txid}: ${(error as Error).message}`
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Searches the indexed transactions, newest first. Unconfirmed
+   * transactions come before confirmed ones.
+   */
+  public async search(
+    query: TransactionHistoryQuery = {}
+  ): Promise<{ total: number; transactions: TransactionHistoryEntry[] }> {
+    await initializeStorage();
+    const entries = query.label
+      ? await this.db.findAllByIndex<TransactionHistoryEntry>(
+          "TransactionHistory",
+          "label",
+          query.label
+        )
+      : await this.db.getAllData<TransactionHistoryEntry>("TransactionHistory");
+    const search = query.search?.trim().toLowerCase();
+    const matches = entries
+      .filter(
+        (entry) =>
+          !query.address || query.address in entry.address_deltas_in_psl
+      )
+      .filter(
+        (entry) =>
+          !search ||
+          [
+            entry.txid,
+            entry.reference_id,
+            ...Object.keys(entry.address_deltas_in_psl),
+            ...entry.counterparty_addresses,
+          ].some((value) => value.toLowerCase().includes(search))
+      )
+      .sort(
+        (a, b) =>
+          (b.block_height ?? Infinity) - (a.block_height ?? Infinity) ||
+          b.first_seen_at_utc_iso_string.localeCompare(
+            a.first_seen_at_utc_iso_string
+          )
+      );
+    const offset = query.offset || 0;
+    return {
+      total: matches.length,
+      transactions: matches.slice(
+        offset,
+        query.limit !== undefined ? offset + query.limit : undefined
+      ),
+    };
+  }
+}
+
+export const transactionHistory = TransactionHistoryIndexer.getInstance();
+
+export default TransactionHistoryIndexer;
@@ -0,0 +1,152 @@
+// src/app/lib/transactionPreview.ts
+
+'use client'
+
+import { TransactionNotConfirmedError } from "@/app/lib/errors";
+import browserLogger from "@/app/lib/logger";
+import { TransactionPreview } from "@/app/types";
+
+// Signed transactions go stale as their inputs get spent elsewhere
+export const TRANSACTION_PREVIEW_TTL_MS = 10 * 60 * 1000;
+
+const REQUIRE_CONFIRMATION_STORAGE_KEY = "CONFIRM_TRANSACTIONS_BEFORE_BROADCAST";
+
+/**
+ * Keeps signed transactions between preview and broadcast, and decides
+ * whether a send has to be confirmed first. Previews are only held in
+ * memory, so a reload discards every unconfirmed transaction.
+ */
+export class TransactionPreviewStore {
+  private static instance: TransactionPreviewStore | null = null;
+  private previews: Map<string, TransactionPreview> = new Map();
+  private confirmationHandler:
+    | ((preview: TransactionPreview) => Promise<boolean>)
+    | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): TransactionPreviewStore {
+    if (!TransactionPreviewStore.instance) {
+      TransactionPreviewStore.instance = new TransactionPreviewStore();
+    }
+    return TransactionPreviewStore.instance;
+  }
+
+  public isConfirmationRequired(): boolean {
+    if (typeof window === "undefined") return false;
+    return localStorage.getItem(REQUIRE_CONFIRMATION_STORAGE_KEY) === "true";
+  }
+
+  public setConfirmationRequired(required: boolean): void {
+    localStorage.setItem(REQUIRE_CONFIRMATION_STORAGE_KEY, String(required));
+  }
+
+  /**
+   * Sets the function asked to confirm a transaction before it is broadcast
+   * by one of the send paths. Without one, sends that need confirmation are
+   * refused.
+   */
+  public setConfirmationHandler(
+    handler: ((preview: TransactionPreview) => Promise<boolean>) | null
+  ): void {
+    this.confirmationHandler = handler;
+  }
+
+  public add(preview: TransactionPreview): void {
+    this.expireStalePreviews();
+    this.previews.set(preview.preview_id, preview);
+  }
+
+  public get(previewId: string): TransactionPreview | null {
+    this.expireStalePreviews();
+    return this.previews.get(previewId) || null;
+  }
+
+  public list(): TransactionPreview[] {
+    this.expireStalePreviews();
+    return Array.from(this.previews.values());
+  }
+
+  public setStatus(
+    previewId: string,
+    status: TransactionPreview["status"]
+  ): TransactionPreview {
+    const preview = this.previews.get(previewId);
+    if (!preview) {
+      throw new Error(`Transaction preview ${previewId} not found`);
+    }
+    const updated = { ...preview, status };
+    this.previews.set(previewId, updated);
+    return updated;
+  }
+
+  // Signed transactions of another wallet profile must not be broadcast
+  public clear(): void {
+    this.previews.clear();
+  }
+
+  /**
+   * Returns a preview that may still be broadcast, or throws explaining why
+   * it may not.
+   */
+  public getBroadcastable(previewId: string): TransactionPreview {
+    const preview = this.get(previewId);
+    if (!preview) {
+      throw new Error(`Transaction preview ${previewId} not found`);
+    }
+    if (preview.status !== "awaiting_confirmation") {
+      throw new Error(
+        `Transaction preview ${previewId} cannot be broadcast: it is ${preview.status}`
+      );
+    }
+    return preview;
+  }
+
+  /**
+   * Asks for confirmation of a transaction about to be broadcast when the
+   * user requires it. Throws TransactionNotConfirmedError when declined.
+   */
+  public async confirm(preview: TransactionPreview): Promise<void> {
+    if (!this.isConfirmationRequired()) return;
+    if (!this.confirmationHandler) {
+      throw new TransactionNotConfirmedError(
+        preview.preview_id,
+        "confirmation is required but no confirmation prompt is available"
+      );
+    }
+    let confirmed: boolean;
+    try {
+      confirmed = await this.confirmationHandler(preview);
+    } catch (error) {
+      throw new TransactionNotConfirmedError(
+        preview.preview_id,
+        `the confirmation prompt failed: ${(error as Error).message}`
+      );
+    }
+    if (!confirmed) {
+      this.setStatus(preview.preview_id, "discarded");
+      throw new TransactionNotConfirmedError(
+        preview.preview_id,
+        "it was declined"
+      );
+    }
+  }
+
+  // Finished previews are kept for another TTL so their outcome can still be looked up
+  private expireStalePreviews(): void {
+    const now = Date.now();
+    for (const [previewId, preview] of Array.from(this.previews)) {
+      const expiresAt = Date.parse(preview.expires_at_utc_iso_string);
+      if (now >= expiresAt + TRANSACTION_PREVIEW_TTL_MS) {
+        this.previews.delete(previewId);
+      } else if (preview.status === "awaiting_confirmation" && now >= expiresAt) {
+        browserLogger.info(`Transaction preview ${previewId} expired`);
+        this.previews.set(previewId, { ...preview, status: "expired" });
+      }
+    }
+  }
+}
+
+export const transactionPreviews = TransactionPreviewStore.getInstance();
+
+export default TransactionPreviewStore;
@@ -8,6 +8,13 @@ import pako from "pako";
 import browserLogger from "@/app/lib/logger";
 import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
 import { cacheInstance } from "@/app/lib/cache";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import { SupernodeMessageVerificationError } from "@/app/lib/errors";
+import {
+  fetchWithReputation,
+  supernodeReputation,
+} from "@/app/lib/supernodeReputation";
+import { transactionHistory } from "@/app/lib/transactionHistory";
 import {
   SupernodeInfo,
   ValidationError,
@@ -15,6 +22,10 @@ import {
   InferenceResultDict,
   InferenceAPIUsageResponse,
   InferenceAPIOutputResult,
+  InferenceAuditorResponse,
+  InferenceAuditorReport,
+  InferenceConsensusStatus,
+  InferenceConsensusVerdict,
   ValidationResult,
   CreditPackPurchaseRequestResponse,
   SupernodeWithDistance,
@@ -31,8 +42,6 @@ async function initializeSha3() {
   }
 }
 
-const rpc = BrowserRPCReplacement.getInstance();
-
 const MAX_CACHE_AGE_MS = 1 * 60 * 1000; // 1 minute in milliseconds
 
 function safeLocalStorage() {
@@ -109,12 +118,13 @@ export async function clearOldCache(): Promise<void> {
   }
 }
 
+// Supernodes differ per network, so cached entries are kept per network
 export async function storeInCache<T>(key: string, data: T): Promise<void> {
-  cacheInstance.set(key, data);
+  cacheInstance.set(getNetworkStorageKey(key), data);
 }
 
 export async function getFromCache<T>(key: string): Promise<T | null> {
-  return cacheInstance.get(key) as T | null;
+  return cacheInstance.get(getNetworkStorageKey(key)) as T | null;
 }
 
 // Market price functions
@@ -131,10 +141,13 @@ export async function fetchCurrentPSLMarketPrice(): Promise<number> {
       redirect: "follow"
     };
 
+    // Both price sources can be pointed at a single host, such as the mock
+    // opennode of `yarn mock:supernode`
+    const priceApiUrl = process.env.NEXT_PUBLIC_PSL_PRICE_API_URL;
     const [responseCMC, responseCG] = await Promise.all([
-        fetch("https://min-api.cryptocompare.com/data/price?fsym=PSL&tsyms=USD", requestOptions as RequestInit),
+        fetch(`${priceApiUrl || "https://min-api.cryptocompare.com"}/data/price?fsym=PSL&tsyms=USD`, requestOptions as RequestInit),
         fetch(
-          "https://api.coingecko.com/api/v3/simple/price?ids=pastel&vs_currencies=usd", requestOptions as RequestInit
+          `${priceApiUrl || "https://api.coingecko.com"}/api/v3/simple/price?ids=pastel&vs_currencies=usd`, requestOptions as RequestInit
         ),
       ]);
 
@@ -330,6 +343,23 @@ export async function getJSSHA256HashOfInputData(inputData: string): Promise<str
   return hash.hex();
 }
 
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string) {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 export async function compressDataWithZstd(
   inputData: string
 ): Promise<{ compressedData: Uint8Array; base64EncodedData: string }> {
@@ -622,6 +652,7 @@ export async function validatePastelBlockHeightFields(
   modelInstance: Record<string, unknown>,
   validationErrors: ValidationError[]
 ): Promise<void> {
+  const rpc = BrowserRPCReplacement.getInstance();
   const [, , bestBlockHeight] = await rpc.getBestBlockHashAndMerkleRoot();
   for (const [fieldName, fieldValue] of Object.entries(modelInstance)) {
     if (fieldName.endsWith("_pastel_block_height")) {
@@ -766,10 +797,27 @@ export async function getSupernodeUrlFromPastelID(
   return supernodeURL;
 }
 
+export function getSupernodePastelIDFromUrl(
+  supernodeURL: string,
+  supernodeListDF: SupernodeInfo[]
+): string {
+  const supernodeEntry = supernodeListDF.find(
+    (node) =>
+      `http://${node.ipaddress_port.split(":")[0]}:7123` === supernodeURL
+  );
+  if (!supernodeEntry?.extKey) {
+    throw new Error(
+      `Supernode at ${supernodeURL} not found in the supernode list`
+    );
+  }
+  return supernodeEntry.extKey;
+}
+
 export async function validatePastelIDSignatureFields(
   modelInstance: Record<string, unknown>,
   validationErrors: ValidationError[]
 ): Promise<void> {
+  const rpc = BrowserRPCReplacement.getInstance();
   let lastSignatureFieldName: string | null = null;
   let lastHashFieldName: string | null = null;
   let firstPastelID: string | undefined;
@@ -846,6 +894,126 @@ export async function validatePastelIDSignatureFields(
   }
 }
 
+/**
+ * Recomputes the message's own `sha3_256_hash_of_*_fields` and checks the
+ * signer's PastelID signature on it (or on the id named by the signature
+ * field, e.g. `responding_supernode_signature_on_inference_result_id`).
+ * When `expectedSignerPastelID` is given, the message must be signed by that
+ * PastelID, so a node cannot re-sign someone else's message with its own key.
+ * Throws a SupernodeMessageVerificationError listing every failed check.
+ */
+export async function verifySupernodeMessage(
+  messageType: string,
+  message: Record<string, unknown>,
+  supernodeURL: string = "",
+  expectedSignerPastelID?: string
+): Promise<void> {
+  const rpc = BrowserRPCReplacement.getInstance();
+  const failures: string[] = [];
+
+  // The message's own hash and signature are the last ones in field order,
+  // matching extractResponseFieldsFromCreditPackTicketMessageDataAsJSON
+  let hashFieldName: string | null = null;
+  let signatureFieldName: string | null = null;
+  for (const fieldName in message) {
+    if (
+      fieldName.startsWith("sha3_256_hash_of_") &&
+      fieldName.endsWith("_fields")
+    ) {
+      hashFieldName = fieldName;
+    } else if (fieldName.includes("_signature_on_")) {
+      signatureFieldName = fieldName;
+    }
+  }
+
+  if (!hashFieldName) {
+    failures.push("message has no sha3_256_hash_of_*_fields field");
+  } else {
+    const expectedHash = await computeSHA3256HashOfSQLModelResponseFields(
+      message
+    );
+    if (message[hashFieldName] !== expectedHash) {
+      failures.push(
+        `${hashFieldName} does not match the recomputed hash of the message fields`
+      );
+    }
+  }
+
+  let signerPastelID: string | undefined;
+  let signature: string | undefined;
+  let signedData: string | undefined;
+  const embeddedSignature = message[
+    "supernode_pastelid_and_signature_on_inference_request_response_hash"
+  ] as string | undefined;
+  if (embeddedSignature) {
+    try {
+      const parsed = JSON.parse(embeddedSignature);
+      signerPastelID = parsed["signing_sn_pastelid"];
+      signature = parsed["sn_signature_on_response_hash"];
+    } catch (error) {
+      failures.push(
+        `unable to parse embedded supernode signature: ${
+          (error as Error).message
+        }`
+      );
+    }
+    signedData = hashFieldName ? (message[hashFieldName] as string) : undefined;
+  } else if (signatureFieldName) {
+    const [signerPrefix, signedSubject] =
+      signatureFieldName.split("_signature_on_");
+    const signerFieldName = signerPrefix.endsWith("_pastelid")
+      ? signerPrefix
+      : `${signerPrefix}_pastelid`;
+    signerPastelID = message[signerFieldName] as string | undefined;
+    signature = message[signatureFieldName] as string | undefined;
+    signedData =
+      signedSubject in message
+        ? String(message[signedSubject])
+        : hashFieldName
+        ? (message[hashFieldName] as string)
+        : undefined;
+  } else {
+    failures.push("message has no PastelID signature field");
+  }
+
+  if (embeddedSignature || signatureFieldName) {
+    if (!signerPastelID || !signature || !signedData) {
+      failures.push("signer PastelID, signature or signed data is missing");
+    } else if (
+      expectedSignerPastelID &&
+      signerPastelID !== expectedSignerPastelID
+    ) {
+      failures.push(
+        `message is signed by ${signerPastelID} instead of the expected supernode ${expectedSignerPastelID}`
+      );
+    } else {
+      const verified = await rpc.verifyMessageWithPastelID(
+        signerPastelID,
+        signedData,
+        signature
+      );
+      if (verified !== true) {
+        failures.push(
+          `PastelID signature of ${signerPastelID} failed verification`
+        );
+      }
+    }
+  }
+
+  if (failures.length > 0) {
+    browserLogger.error(
+      `Rejected ${messageType} from supernode ${supernodeURL}: ${failures.join(
+        "; "
+      )}`
+    );
+    throw new SupernodeMessageVerificationError(
+      messageType,
+      supernodeURL,
+      failures
+    );
+  }
+}
+
 export async function getClosestSupernodeToPastelIDURL(
   inputPastelID: string,
   supernodeListDF: SupernodeInfo[],
@@ -948,19 +1116,20 @@ export async function getNClosestSupernodesToPastelIDURLs(
       return [];
     }
 
-    const sortedXorDistances = validXorDistances.sort((a, b) => {
-      if (a.distance < b.distance) return -1;
-      if (a.distance > b.distance) return 1;
-      return 0;
-    });
+    const rankedSupernodes =
+      await supernodeReputation.rankByDistanceAndReliability(
+        validXorDistances.map((supernode) => ({
+          ...supernode,
+          url: `http://${supernode.ipaddress_port.split(":")[0]}:7123`,
+        }))
+      );
 
-    const closestSupernodes = sortedXorDistances.slice(0, n);
+    const closestSupernodes = rankedSupernodes.slice(0, n);
 
     const validSupernodePromises = closestSupernodes.map(
-      async ({ ipaddress_port, extKey }) => {
-        const url = `http://${ipaddress_port.split(":")[0]}:7123`;
+      async ({ url, extKey }) => {
         try {
-          await fetch(url, {
+          await fetchWithReputation(url, "root", url, {
             signal: AbortSignal.timeout(maxResponseTimeInMilliseconds),
           });
           return { url, pastelID: extKey };
@@ -1139,12 +1308,114 @@ export function validateInferenceData(
   };
 }
 
+const CONSENSUS_RESPONSE_FIELDS: (keyof InferenceAPIUsageResponse & string)[] = [
+  "inference_response_id",
+  "inference_request_id",
+  "proposed_cost_of_request_in_inference_credits",
+  "credit_usage_tracking_psl_address",
+  "request_confirmation_message_amount_in_patoshis",
+  "max_block_height_to_include_confirmation_transaction",
+  "sha3_256_hash_of_inference_request_response_fields",
+  "supernode_pastelid_and_signature_on_inference_request_response_hash",
+];
+
+const CONSENSUS_RESULT_FIELDS: (keyof InferenceAPIOutputResult & string)[] = [
+  "inference_result_id",
+  "inference_response_id",
+  "responding_supernode_pastelid",
+  "inference_result_file_type_strings",
+  "sha3_256_hash_of_inference_result_fields",
+  "responding_supernode_signature_on_inference_result_id",
+];
+
+/**
+ * Compares what each auditor reports about an inference request against the
+ * messages received from the responding supernode. The verdict is "agreed"
+ * only when at least `requiredQuorum` auditors match on every field and they
+ * outnumber the dissenters.
+ */
+export async function verifyInferenceConsensus(
+  inferenceResultDict: InferenceResultDict,
+  auditorResponses: InferenceAuditorResponse[],
+  requiredQuorum: number = 3
+): Promise<InferenceConsensusVerdict> {
+  const usageRequestResponse = inferenceResultDict.usage_request_response;
+  const usageResult = inferenceResultDict.output_results;
+  const receivedOutputHash = await computeSHA3256Hexdigest(
+    usageResult.inference_result_json_base64
+  );
+
+  const auditorReports: InferenceAuditorReport[] = await Promise.all(
+    auditorResponses.map(async (auditor) => {
+      const report: InferenceAuditorReport = {
+        supernode_url: auditor.supernode_url,
+        supernode_pastelid: auditor.supernode_pastelid,
+        responded: false,
+        mismatched_fields: [],
+        error: auditor.error,
+      };
+      if (!auditor.response_audit || !auditor.result_audit) {
+        return report;
+      }
+      report.responded = true;
+      for (const field of CONSENSUS_RESPONSE_FIELDS) {
+        if (auditor.response_audit[field] !== usageRequestResponse[field]) {
+          report.mismatched_fields.push(field);
+        }
+      }
+      for (const field of CONSENSUS_RESULT_FIELDS) {
+        if (auditor.result_audit[field] !== usageResult[field]) {
+          report.mismatched_fields.push(field);
+        }
+      }
+      const auditedOutputHash = await computeSHA3256Hexdigest(
+        auditor.result_audit.inference_result_json_base64
+      );
+      if (auditedOutputHash !== receivedOutputHash) {
+        report.mismatched_fields.push("inference_result_json_base64");
+      }
+      return report;
+    })
+  );
+
+  const respondingReports = auditorReports.filter(
+    (report) => report.responded
+  );
+  const dissentingNodes = respondingReports.filter(
+    (report) => report.mismatched_fields.length > 0
+  );
+  const agreeingCount = respondingReports.length - dissentingNodes.length;
+
+  let status: InferenceConsensusStatus;
+  if (respondingReports.length < requiredQuorum) {
+    status = "insufficient_quorum";
+  } else if (
+    agreeingCount >= requiredQuorum &&
+    agreeingCount > dissentingNodes.length
+  ) {
+    status = "agreed";
+  } else {
+    status = "disputed";
+  }
+
+  return {
+    status,
+    required_quorum: requiredQuorum,
+    responding_auditor_count: respondingReports.length,
+    agreeing_auditor_count: agreeingCount,
+    dissenting_nodes: dissentingNodes,
+    auditor_reports: auditorReports,
+    verified_at_utc_iso_string: new Date().toISOString(),
+  };
+}
+
 export async function filterSupernodes(
   supernodeList: (SupernodeInfo | string)[],
   maxResponseTimeInMilliseconds: number = 700,
   minPerformanceRatio: number = 0.75,
   maxSupernodes: number = 130
 ): Promise<SupernodeInfo[]> {
+  const rpc = BrowserRPCReplacement.getInstance();
   const cacheKey = "filteredSupernodes";
 
   const stats = {
@@ -1217,12 +1488,15 @@ export async function filterSupernodes(
       const ipAddress = ipAddressPort.split(":")[0];
 
       // Replace ping with a simple fetch request for browser compatibility
+      const supernodeURL = `http://${ipAddress}:7123`;
       const pingStart = performance.now();
       try {
-        await Promise.race([
-          fetch(`http://${ipAddress}:7123/liveness_ping`),
-          new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout')), maxResponseTimeInMilliseconds))
-        ]);
+        await fetchWithReputation(
+          supernodeURL,
+          "liveness_ping",
+          `${supernodeURL}/liveness_ping`,
+          { signal: AbortSignal.timeout(maxResponseTimeInMilliseconds) }
+        );
       } catch {
         stats.removedDueToPing++;
         return null;
@@ -1234,10 +1508,12 @@ export async function filterSupernodes(
         return null;
       }
 
-      const performanceResponse = await Promise.race([
-        fetch(`http://${ipAddress}:7123/liveness_ping`),
-        new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout')), maxResponseTimeInMilliseconds))
-      ]) as Response;
+      const performanceResponse = await fetchWithReputation(
+        supernodeURL,
+        "liveness_ping",
+        `${supernodeURL}/liveness_ping`,
+        { signal: AbortSignal.timeout(maxResponseTimeInMilliseconds) }
+      );
 
       if (!performanceResponse.ok) {
         throw new Error(`HTTP error! status: ${performanceResponse.status}`);
@@ -1251,7 +1527,7 @@ export async function filterSupernodes(
       }
       const result: SupernodeInfo = {
         ...supernode,
-        url: `http://${ipAddress}:7123`,
+        url: supernodeURL,
       };
       await storeInCache(cacheKey, result);
       return result;
@@ -1327,6 +1603,7 @@ export async function waitForConfirmation(
 export async function waitForPastelIDRegistration(
   pastelID: string
 ): Promise<boolean> {
+  const rpc = BrowserRPCReplacement.getInstance();
   const isRegistered = await waitForConfirmation(
     rpc.isPastelIDRegistered,
     pastelID,
@@ -1353,6 +1630,7 @@ export async function waitForPastelIDRegistration(
 export async function waitForCreditPackConfirmation(
   txid: string
 ): Promise<boolean> {
+  const rpc = BrowserRPCReplacement.getInstance();
   const isConfirmed = await waitForConfirmation(
     rpc.isCreditPackConfirmed,
     txid,
@@ -1385,30 +1663,9 @@ interface PromotionalPack {
 }
 
 export async function unlockWallet(): Promise<void> {
-    // Step 1: Retrieve the wallet password from localStorage
+    // Step 1: Retrieve the wallet password from the keystore
     const rpc = BrowserRPCReplacement.getInstance();
-
-    const walletLocalStorageName = "walletInfo";
-    const walletDataEncoded = localStorage.getItem(walletLocalStorageName);
-    if (!walletDataEncoded) {
-      throw new Error("Wallet data not found in localStorage.");
-    }
-
-    // Decode from base64 and parse JSON
-    let walletData;
-    try {
-      const decodedData = atob(walletDataEncoded);
-      walletData = JSON.parse(decodedData);
-    } catch {
-      throw new Error("Failed to decode wallet data from localStorage.");
-    }
-
-    if (!walletData.walletPassword) {
-      throw new Error("Wallet password not found in wallet data.");
-    }
-
-    const walletPassword = walletData.walletPassword;
-    console.log("Retrieved wallet password from localStorage.");
+    const walletPassword = await rpc.getWalletPassword();
 
     // Step 2: Check if the wallet is locked and unlock it if necessary
     const isLocked = await rpc.isLocked();
@@ -1592,6 +1849,10 @@ export async function importPromotionalPack(jsonData: string): Promise<{
       browserLogger.info(`ImportResult: ${JSON.stringify(importResult)}`);
   
       browserLogger.info(`Private key imported successfully for tracking address: ${packData.psl_credit_usage_tracking_address}`);
+      transactionHistory.recordPromotionalPackAddress(
+        packData.psl_credit_usage_tracking_address,
+        packData.credit_pack_registration_txid
+      );
       
       // Verify key import by checking wallet access
       const networkMode = await rpc.getNetworkMode().then(mode => rpc.getNetworkModeEnum(mode));
@@ -1693,6 +1954,8 @@ const utils  = {
   transformCreditPackPurchaseRequestResponse,
   computeSHA3256Hexdigest,
   getSHA256HashOfInputData,
+  bytesToBase64,
+  base64ToBytes,
   compressDataWithZstd,
   decompressDataWithZstd,
   calculateXORDistance,
@@ -1712,13 +1975,16 @@ const utils  = {
   getClosestSupernodePastelIDFromList,
   checkIfPastelIDIsValid,
   getSupernodeUrlFromPastelID,
+  getSupernodePastelIDFromUrl,
   validatePastelIDSignatureFields,
+  verifySupernodeMessage,
   getClosestSupernodeToPastelIDURL,
   getNClosestSupernodesToPastelIDURLs,
   validateCreditPackTicketMessageData,
   validateInferenceResponseFields,
   validateInferenceResultFields,
   validateInferenceData,
+  verifyInferenceConsensus,
   filterSupernodes,
   waitForConfirmation,
   waitForPastelIDRegistration,
@@ -1,6 +1,7 @@
 // src/lib/validationSchemas.ts
 
 import { z } from 'zod';
+import { PastelIDType } from '@/app/types';
 
 // Helper function to create a UUID validator
 const uuidv4 = () => z.string().uuid();
@@ -260,6 +261,130 @@ export const inferenceAPIOutputResultSchema = z.object({
       txid: z.string(),
     }),
   });
+
+  const utxoSchema = z.object({
+    address: z.string(),
+    txid: z.string().regex(/^[0-9a-fA-F]{64}$/),
+    outputIndex: z.number().int().nonnegative(),
+    script: z.string(),
+    patoshis: z.number().int().nonnegative(),
+    height: z.number().int(),
+  });
+
+  const sendToSchema = z.array(
+    z.object({
+      address: z.string().min(1),
+      amount: z.string().min(1),
+    })
+  );
+
+  export const unsignedTransactionExportSchema = z.object({
+    network: z.string(),
+    hex: z.string().regex(/^([0-9a-fA-F]{2})*$/),
+    inputs: z.array(utxoSchema).min(1),
+    recipients: sendToSchema.min(1),
+    change_address: z.string().min(1),
+    change_in_psl: z.number(),
+    fee_in_psl: z.number(),
+    coin_selection_strategy: z.enum(["largest_first", "branch_and_bound", "privacy", "manual"]),
+    block_height: z.number().int().nonnegative(),
+    created_at_utc_iso_string: z.string(),
+  });
+
+  export const offlineSigningRequestSchema = z.object({
+    version: z.number().int(),
+    type: z.literal("request"),
+    request_id: uuidv4(),
+    kind: z.enum(["transaction", "pastelid_signature"]),
+    network: z.string(),
+    description: z.string(),
+    transaction: unsignedTransactionExportSchema.nullable(),
+    pastelid: z.string(),
+    pastelid_type: z.nativeEnum(PastelIDType),
+    message: z.string(),
+    created_at_utc_iso_string: z.string(),
+  });
+
+  export const offlineSigningResponseSchema = z.object({
+    version: z.number().int(),
+    type: z.literal("response"),
+    request_id: uuidv4(),
+    kind: z.enum(["transaction", "pastelid_signature"]),
+    signed_transaction_hex: z.string().regex(/^([0-9a-fA-F]{2})*$/),
+    signature: z.string(),
+    signed_at_utc_iso_string: z.string(),
+  });
+
+  export const offlineSigningPayloadSchema = z.discriminatedUnion("type", [
+    offlineSigningRequestSchema,
+    offlineSigningResponseSchema,
+  ]);
+
+  export const encryptionKeyStatementSchema = z.object({
+    version: z.number().int(),
+    pastelid: z.string().min(1),
+    algorithm: z.literal("ECDH-P256"),
+    encryption_public_key: z.string().min(1),
+    created_at_utc_iso_string: z.string(),
+    signature: z.string().min(1),
+  });
+
+  export const encryptedMessageEnvelopeSchema = z.object({
+    format: z.literal("pastel-e2e"),
+    version: z.number().int(),
+    kind: z.enum(["message", "key_statement"]),
+    id: z.string(),
+    from_pastelid: z.string(),
+    to_pastelid: z.string(),
+    timestamp: z.string(),
+    sender_key_statement: encryptionKeyStatementSchema,
+    reply_requested: z.boolean(),
+    recipients: z.array(
+      z.object({
+        pastelid: z.string(),
+        ephemeral_public_key: z.string(),
+        iv: z.string(),
+        wrapped_key: z.string(),
+      })
+    ),
+    iv: z.string(),
+    ciphertext: z.string(),
+  });
+
+  export const attachmentManifestSchema = z.object({
+    version: z.number().int(),
+    attachment_id: uuidv4(),
+    file_name: z.string().min(1),
+    mime_type: z.string(),
+    content_encoding: z.enum(["utf8", "base64"]),
+    content_length: z.number().int().nonnegative(),
+    content_sha3_256_hash: z.string().regex(/^[0-9a-f]{64}$/),
+    compression: z.literal("deflate"),
+    chunk_count: z.number().int().positive(),
+    chunk_sha3_256_hashes: z.array(z.string().regex(/^[0-9a-f]{64}$/)),
+    sender_pastelid: z.string(),
+    recipient_pastelid: z.string(),
+    created_at_utc_iso_string: z.string(),
+    sender_signature: z.string(),
+  });
+
+  export const attachmentPartSchema = z.discriminatedUnion("part", [
+    z.object({
+      format: z.literal("pastel-attachment"),
+      version: z.number().int(),
+      part: z.literal("manifest"),
+      attachment_id: uuidv4(),
+      manifest: attachmentManifestSchema,
+    }),
+    z.object({
+      format: z.literal("pastel-attachment"),
+      version: z.number().int(),
+      part: z.literal("chunk"),
+      attachment_id: uuidv4(),
+      index: z.number().int().nonnegative(),
+      data: z.string(),
+    }),
+  ]);
   
   // Utility function to validate data against a schema
   export async function validateSchema<T>(schema: z.ZodSchema<T>, data: unknown): Promise<{ isValid: boolean; errors: string[] | null; data: T | null }> {
@@ -0,0 +1,345 @@
+// src/app/lib/walletAccounts.ts
+
+'use client'
+
+import { v4 as uuidv4 } from "uuid";
+
+import BrowserRPCReplacement from "@/app/lib/BrowserRPCReplacement";
+import { BrowserDatabase } from "@/app/lib/BrowserDatabase";
+import { initializeStorage } from "@/app/lib/storage";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import { extractAddressHistoryTransactions } from "@/app/lib/transactionHistory";
+import browserLogger from "@/app/lib/logger";
+import {
+  AddressDiscoveryResult,
+  WalletAccount,
+  WalletAccountAddress,
+  WalletAccountSummary,
+} from "@/app/types";
+
+export const DEFAULT_ACCOUNT_ID = "default";
+
+// BIP44 recommends stopping after 20 consecutive unused addresses
+export const DEFAULT_GAP_LIMIT = 20;
+
+const GAP_LIMIT_STORAGE_KEY = "HD_GAP_LIMIT";
+const CREDIT_TRACKING_ACCOUNT_STORAGE_KEY = "CREDIT_TRACKING_ACCOUNT_ID";
+
+/**
+ * Singleton manager of named accounts and HD address discovery. The wallet
+ * derives its addresses along a single chain, so accounts are named groups
+ * of those addresses kept in IndexedDB rather than separate BIP44 branches.
+ * Addresses that were never assigned belong to the default account.
+ */
+export class WalletAccountManager {
+  private static instance: WalletAccountManager;
+  private db: BrowserDatabase;
+  private discoveryPromise: Promise<AddressDiscoveryResult> | null = null;
+
+  private constructor() {
+    this.db = BrowserDatabase.getInstance();
+  }
+
+  public static getInstance(): WalletAccountManager {
+    if (!WalletAccountManager.instance) {
+      WalletAccountManager.instance = new WalletAccountManager();
+    }
+    return WalletAccountManager.instance;
+  }
+
+  public getGapLimit(): number {
+    const stored = parseInt(localStorage.getItem(GAP_LIMIT_STORAGE_KEY) || "", 10);
+    return stored > 0 ? stored : DEFAULT_GAP_LIMIT;
+  }
+
+  public setGapLimit(gapLimit: number): void {
+    if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+      throw new Error(`Invalid gap limit: ${gapLimit}`);
+    }
+    localStorage.setItem(GAP_LIMIT_STORAGE_KEY, String(gapLimit));
+  }
+
+  /**
+   * The account new credit tracking addresses are put in, or null when
+   * tracking addresses are not kept apart.
+   */
+  public getCreditTrackingAccountId(): string | null {
+    return localStorage.getItem(getNetworkStorageKey(CREDIT_TRACKING_ACCOUNT_STORAGE_KEY));
+  }
+
+  public async setCreditTrackingAccountId(accountId: string | null): Promise<void> {
+    if (accountId === null) {
+      localStorage.removeItem(getNetworkStorageKey(CREDIT_TRACKING_ACCOUNT_STORAGE_KEY));
+      return;
+    }
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      throw new Error("Credit tracking addresses must be kept in an account other than the default one");
+    }
+    await this.getAccount(accountId);
+    localStorage.setItem(getNetworkStorageKey(CREDIT_TRACKING_ACCOUNT_STORAGE_KEY), accountId);
+  }
+
+  private async getAccount(accountId: string): Promise<WalletAccount> {
+    await initializeStorage();
+    const account = await this.db.getData<WalletAccount>("WalletAccount", accountId);
+    if (account) return account;
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      const defaultAccount: WalletAccount = {
+        account_id: DEFAULT_ACCOUNT_ID,
+        name: "Default",
+        created_at_utc_iso_string: new Date().toISOString(),
+      };
+      await this.db.saveData("WalletAccount", defaultAccount);
+      return defaultAccount;
+    }
+    throw new Error(`Wallet account ${accountId} not found`);
+  }
+
+  public async createAccount(name: string): Promise<WalletAccount> {
+    await initializeStorage();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Account name is required");
+    }
+    const accounts = await this.db.getAllData<WalletAccount>("WalletAccount");
+    if (accounts.some((account) => account.name === trimmed)) {
+      throw new Error(`An account named ${trimmed} already exists`);
+    }
+    const account: WalletAccount = {
+      account_id: uuidv4(),
+      name: trimmed,
+      created_at_utc_iso_string: new Date().toISOString(),
+    };
+    await this.db.saveData("WalletAccount", account);
+    return account;
+  }
+
+  public async renameAccount(accountId: string, name: string): Promise<WalletAccount> {
+    const account = await this.getAccount(accountId);
+    const renamed = { ...account, name: name.trim() || account.name };
+    await this.db.saveData("WalletAccount", renamed);
+    return renamed;
+  }
+
+  /**
+   * Deletes an account; its addresses go back to the default account.
+   */
+  public async deleteAccount(accountId: string): Promise<void> {
+    if (accountId === DEFAULT_ACCOUNT_ID) {
+      throw new Error("The default account cannot be deleted");
+    }
+    await this.getAccount(accountId);
+    for (const record of await this.getAssignedAddresses(accountId)) {
+      await this.saveAddress({ ...record, account_id: DEFAULT_ACCOUNT_ID });
+    }
+    if (this.getCreditTrackingAccountId() === accountId) {
+      await this.setCreditTrackingAccountId(null);
+    }
+    await this.db.deleteData("WalletAccount", accountId);
+  }
+
+  private async getAssignedAddresses(accountId: string): Promise<WalletAccountAddress[]> {
+    return this.db.findAllByIndex<WalletAccountAddress>(
+      "WalletAccountAddress",
+      "account_id",
+      accountId
+    );
+  }
+
+  private async saveAddress(record: WalletAccountAddress): Promise<void> {
+    await this.db.saveData("WalletAccountAddress", {
+      ...record,
+      updated_at_utc_iso_string: new Date().toISOString(),
+    });
+  }
+
+  public async assignAddress(address: string, accountId: string): Promise<void> {
+    await this.getAccount(accountId);
+    const walletAddresses = await BrowserRPCReplacement.getInstance().getAllAddresses();
+    if (!walletAddresses.includes(address)) {
+      throw new Error(`${address} is not an address of this wallet`);
+    }
+    const existing = await this.db.getData<WalletAccountAddress>(
+      "WalletAccountAddress",
+      address
+    );
+    await this.saveAddress({
+      address,
+      account_id: accountId,
+      derivation_index: existing?.derivation_index ?? null,
+      has_history: existing?.has_history ?? false,
+      updated_at_utc_iso_string: "",
+    });
+  }
+
+  /**
+   * Lists every account with its addresses, the default account first.
+   */
+  public async listAccounts(): Promise<WalletAccountSummary[]> {
+    await this.getAccount(DEFAULT_ACCOUNT_ID);
+    const accounts = await this.db.getAllData<WalletAccount>("WalletAccount");
+    const records = await this.db.getAllData<WalletAccountAddress>("WalletAccountAddress");
+    const walletAddresses = await BrowserRPCReplacement.getInstance().getAllAddresses();
+    const recorded = new Map(records.map((record) => [record.address, record]));
+    const addresses = walletAddresses.map(
+      (address) =>
+        recorded.get(address) || {
+          address,
+          account_id: DEFAULT_ACCOUNT_ID,
+          derivation_index: null,
+          has_history: false,
+          updated_at_utc_iso_string: "",
+        }
+    );
+    const creditTrackingAccountId = this.getCreditTrackingAccountId();
+    return accounts
+      .sort(
+        (a, b) =>
+          Number(b.account_id === DEFAULT_ACCOUNT_ID) -
+            Number(a.account_id === DEFAULT_ACCOUNT_ID) ||
+          a.created_at_utc_iso_string.localeCompare(b.created_at_utc_iso_string)
+      )
+      .map((account) => ({
+        account,
+        addresses: addresses.filter(
+          (record) =>
+            record.account_id === account.account_id ||
+            // Addresses of deleted accounts fall back to the default account
+            (account.account_id === DEFAULT_ACCOUNT_ID &&
+              !accounts.some((other) => other.account_id === record.account_id))
+        ),
+        is_default: account.account_id === DEFAULT_ACCOUNT_ID,
+        is_credit_tracking_account: account.account_id === creditTrackingAccountId,
+      }));
+  }
+
+  public async getAccountAddresses(accountId: string): Promise<string[]> {
+    const summary = (await this.listAccounts()).find(
+      (account) => account.account.account_id === accountId
+    );
+    if (!summary) {
+      throw new Error(`Wallet account ${accountId} not found`);
+    }
+    return summary.addresses.map((record) => record.address);
+  }
+
+  private async hasHistory(address: string): Promise<boolean> {
+    const history = await BrowserRPCReplacement.getInstance().getAddressHistory(address);
+    return extractAddressHistoryTransactions(history).length > 0;
+  }
+
+  /**
+   * Returns an address of the account that has never been used, deriving a
+   * new one when every address of the account has history.
+   */
+  public async getUnusedAddress(accountId: string): Promise<string> {
+    await this.getAccount(accountId);
+    for (const record of (await this.listAccounts())
+      .find((summary) => summary.account.account_id === accountId)!
+      .addresses.filter((record) => !record.has_history)) {
+      if (await this.hasHistory(record.address)) {
+        await this.saveAddress({ ...record, has_history: true });
+      } else {
+        return record.address;
+      }
+    }
+    // The derivation index is filled in by the next discovery
+    const address = await BrowserRPCReplacement.getInstance().makeNewAddress();
+    await this.saveAddress({
+      address,
+      account_id: accountId,
+      derivation_index: null,
+      has_history: false,
+      updated_at_utc_iso_string: "",
+    });
+    return address;
+  }
+
+  /**
+   * Scans the wallet's HD chain for addresses with history, deriving new
+   * addresses until `gapLimit` consecutive ones are unused. After a restore
+   * from a mnemonic this brings back every address used before. Derived
+   * addresses stay in the wallet, so the unused tail is reused by later
+   * requests for an unused address.
+   */
+  public discoverAddresses(gapLimit?: number): Promise<AddressDiscoveryResult> {
+    if (!this.discoveryPromise) {
+      this.discoveryPromise = this.runDiscovery(gapLimit ?? this.getGapLimit()).finally(() => {
+        this.discoveryPromise = null;
+      });
+    }
+    return this.discoveryPromise;
+  }
+
+  private async runDiscovery(gapLimit: number): Promise<AddressDiscoveryResult> {
+    await this.getAccount(DEFAULT_ACCOUNT_ID);
+    const rpc = BrowserRPCReplacement.getInstance();
+    const networkMode = rpc.getNetworkModeEnum(await rpc.getNetworkMode());
+    const addressCount = await rpc.getAddressesCount();
+    const result: AddressDiscoveryResult = {
+      gap_limit: gapLimit,
+      scanned_address_count: 0,
+      derived_address_count: 0,
+      used_address_count: 0,
+      last_used_derivation_index: null,
+      discovered_at_utc_iso_string: "",
+    };
+
+    let unusedInARow = 0;
+    for (let index = 0; unusedInARow < gapLimit; index++) {
+      let address = "";
+      if (index < addressCount) {
+        try {
+          address = await rpc.getAddress(index, networkMode);
+        } catch {
+          // Imported keys count towards the address count but are not on the
+          // HD chain, so the chain may end before the count does
+        }
+      }
+      if (!address) {
+        address = await rpc.makeNewAddress(networkMode);
+        result.derived_address_count++;
+      }
+      if (!address) {
+        throw new Error(`Failed to derive the address at index ${index}`);
+      }
+      const existing = await this.db.getData<WalletAccountAddress>(
+        "WalletAccountAddress",
+        address
+      );
+      // Addresses seen with history keep it; only the others are looked up
+      const used = existing?.has_history || (await this.hasHistory(address));
+      result.scanned_address_count++;
+      if (used) {
+        result.used_address_count++;
+        result.last_used_derivation_index = index;
+        unusedInARow = 0;
+      } else {
+        unusedInARow++;
+      }
+      if (
+        !existing ||
+        existing.has_history !== used ||
+        existing.derivation_index !== index
+      ) {
+        await this.saveAddress({
+          address,
+          account_id: existing?.account_id || DEFAULT_ACCOUNT_ID,
+          derivation_index: index,
+          has_history: used,
+          updated_at_utc_iso_string: "",
+        });
+      }
+    }
+
+    result.discovered_at_utc_iso_string = new Date().toISOString();
+    browserLogger.info(
+      `Address discovery scanned ${result.scanned_address_count} addresses and found ${result.used_address_count} with history`
+    );
+    return result;
+  }
+}
+
+export const walletAccounts = WalletAccountManager.getInstance();
+
+export default WalletAccountManager;
@@ -0,0 +1,307 @@
+// src/app/lib/walletProfiles.ts
+
+'use client'
+
+import { v4 as uuidv4 } from "uuid";
+
+import { DEFAULT_DATABASE_NAME } from "@/app/lib/BrowserDatabase";
+import {
+  getCurrentNetwork,
+  getNetworkDatabaseName,
+  PASTEL_NETWORKS,
+  stripNetworkStorageKey,
+} from "@/app/lib/networkConfig";
+import { switchDatabase } from "@/app/lib/storage";
+import { WalletProfile } from "@/app/types";
+
+export const DEFAULT_WALLET_PROFILE_ID = "default";
+
+const PROFILES_STORAGE_KEY = "WALLET_PROFILES";
+const ACTIVE_PROFILE_STORAGE_KEY = "ACTIVE_WALLET_PROFILE";
+const SNAPSHOT_KEY_PREFIX = "walletProfile:";
+const MAX_PROFILE_NAME_LENGTH = 64;
+
+// Everything a wallet keeps in localStorage. The theme and the profile list
+// are shared by every profile. The persisted store is left out as well,
+// since it is reset and filled in again on every switch.
+const PROFILE_STORAGE_KEYS = [
+  "walletInfo",
+  "psltKeyStore",
+  "MY_LOCAL_PASTELID",
+  "MY_LOCAL_ADDRESSES",
+  "PASTEL_NETWORK",
+  "inferenceRequests",
+  "WATCH_ONLY_MODE",
+  "importedAddresses",
+  "watchedPastelIDs",
+  "watchedCreditPacks",
+  "HD_GAP_LIMIT",
+  "CREDIT_TRACKING_ACCOUNT_ID",
+  "OFFLINE_SIGNING_REQUESTS",
+  "CONFIRM_TRANSACTIONS_BEFORE_BROADCAST",
+  "AUDIT_INFERENCE_RESULTS",
+  "PROMOTIONAL_PACK_TRACKING_ADDRESSES",
+  "PASTELID_REGISTRATIONS",
+];
+const PROFILE_STORAGE_KEY_PREFIXES = ["secureContainer_"];
+
+// Keys namespaced by network belong to the profile as well
+function isProfileStorageKey(key: string): boolean {
+  const baseKey = stripNetworkStorageKey(key);
+  return (
+    PROFILE_STORAGE_KEYS.includes(baseKey) ||
+    PROFILE_STORAGE_KEY_PREFIXES.some((prefix) => baseKey.startsWith(prefix))
+  );
+}
+
+function getSnapshotKey(profileId: string, key: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${profileId}:${key}`;
+}
+
+function listStorageKeys(): string[] {
+  return Array.from({ length: localStorage.length }, (_, index) =>
+    localStorage.key(index)
+  ).filter((key): key is string => key !== null);
+}
+
+/**
+ * Singleton keeping named wallet profiles side by side. The active profile
+ * uses the usual localStorage keys, while the others are kept under
+ * `walletProfile:<id>:<key>` until switched to. Each profile has IndexedDB
+ * databases of its own, one per network along with a shared one for its
+ * keystore, so its keys, credit packs and history stay apart.
+ * The default profile uses the original database, so a wallet created before
+ * profiles existed becomes the default profile.
+ */
+export class WalletProfileManager {
+  private static instance: WalletProfileManager;
+
+  private constructor() {
+    if (typeof localStorage !== "undefined") {
+      this.selectDatabase();
+    }
+  }
+
+  public static getInstance(): WalletProfileManager {
+    if (!WalletProfileManager.instance) {
+      WalletProfileManager.instance = new WalletProfileManager();
+    }
+    return WalletProfileManager.instance;
+  }
+
+  public getProfiles(): WalletProfile[] {
+    let profiles: WalletProfile[];
+    try {
+      const parsed = JSON.parse(
+        localStorage.getItem(PROFILES_STORAGE_KEY) || "[]"
+      );
+      profiles = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      profiles = [];
+    }
+    if (!profiles.some((profile) => profile.id === DEFAULT_WALLET_PROFILE_ID)) {
+      const now = new Date().toISOString();
+      profiles.unshift({
+        id: DEFAULT_WALLET_PROFILE_ID,
+        name: "Default",
+        network:
+          this.getActiveProfileId() === DEFAULT_WALLET_PROFILE_ID
+            ? getCurrentNetwork()
+            : "Mainnet",
+        created_at_utc_iso_string: now,
+        last_used_at_utc_iso_string: now,
+      });
+    }
+    return profiles;
+  }
+
+  private saveProfiles(profiles: WalletProfile[]): void {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  }
+
+  public getProfile(profileId: string): WalletProfile {
+    const profile = this.getProfiles().find(
+      (profile) => profile.id === profileId
+    );
+    if (!profile) {
+      throw new Error(`Wallet profile ${profileId} not found`);
+    }
+    return profile;
+  }
+
+  public getActiveProfileId(): string {
+    return (
+      localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) ||
+      DEFAULT_WALLET_PROFILE_ID
+    );
+  }
+
+  public getActiveProfile(): WalletProfile {
+    return this.getProfile(this.getActiveProfileId());
+  }
+
+  public getDatabaseName(profileId: string): string {
+    return profileId === DEFAULT_WALLET_PROFILE_ID
+      ? DEFAULT_DATABASE_NAME
+      : `${DEFAULT_DATABASE_NAME}:${profileId}`;
+  }
+
+  /**
+   * Points storage at the databases of the active profile on the network in
+   * use.
+   */
+  public selectDatabase(): void {
+    const databaseName = this.getDatabaseName(this.getActiveProfileId());
+    switchDatabase(getNetworkDatabaseName(databaseName), databaseName);
+  }
+
+  private validateName(name: string, exceptProfileId?: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("A wallet profile needs a name");
+    }
+    if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+      throw new Error(
+        `Wallet profile names are at most ${MAX_PROFILE_NAME_LENGTH} characters`
+      );
+    }
+    if (
+      this.getProfiles().some(
+        (profile) =>
+          profile.id !== exceptProfileId &&
+          profile.name.toLowerCase() === trimmed.toLowerCase()
+      )
+    ) {
+      throw new Error(`A wallet profile named "${trimmed}" already exists`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Adds an empty profile. Its wallet is created or imported the first time
+   * it is switched to.
+   */
+  public createProfile(
+    name: string,
+    network: WalletProfile["network"]
+  ): WalletProfile {
+    const now = new Date().toISOString();
+    const profile: WalletProfile = {
+      id: uuidv4(),
+      name: this.validateName(name),
+      network,
+      created_at_utc_iso_string: now,
+      last_used_at_utc_iso_string: now,
+    };
+    localStorage.setItem(getSnapshotKey(profile.id, "PASTEL_NETWORK"), network);
+    this.saveProfiles([...this.getProfiles(), profile]);
+    return profile;
+  }
+
+  public renameProfile(profileId: string, name: string): WalletProfile {
+    const profile = {
+      ...this.getProfile(profileId),
+      name: this.validateName(name, profileId),
+    };
+    this.saveProfiles(
+      this.getProfiles().map((existing) =>
+        existing.id === profileId ? profile : existing
+      )
+    );
+    return profile;
+  }
+
+  /**
+   * Deletes a profile that is not in use, with its stored wallet data and
+   * databases. Its keys are gone unless the wallet was backed up.
+   */
+  public async deleteProfile(profileId: string): Promise<void> {
+    this.getProfile(profileId);
+    if (profileId === this.getActiveProfileId()) {
+      throw new Error("Switch to another wallet profile before deleting this one");
+    }
+    const prefix = getSnapshotKey(profileId, "");
+    listStorageKeys()
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => localStorage.removeItem(key));
+    this.saveProfiles(
+      this.getProfiles().filter((profile) => profile.id !== profileId)
+    );
+    const databaseName = this.getDatabaseName(profileId);
+    for (const network of PASTEL_NETWORKS) {
+      await new Promise<void>((resolve, reject) => {
+        const request = indexedDB.deleteDatabase(
+          getNetworkDatabaseName(databaseName, network)
+        );
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+        // A tab still holding the database open delays the deletion
+        request.onblocked = () => resolve();
+      });
+    }
+  }
+
+  /**
+   * Stores the localStorage data of the active profile under its snapshot
+   * keys, puts the data of another profile in its place and points storage
+   * at that profile's database. Tearing down what was loaded from the old
+   * profile is left to the caller.
+   */
+  public activateProfile(profileId: string): WalletProfile {
+    const target = this.getProfile(profileId);
+    const activeProfileId = this.getActiveProfileId();
+    if (profileId === activeProfileId) {
+      return target;
+    }
+    const now = new Date().toISOString();
+    const network = getCurrentNetwork();
+
+    for (const key of listStorageKeys()) {
+      if (!isProfileStorageKey(key)) continue;
+      localStorage.setItem(
+        getSnapshotKey(activeProfileId, key),
+        localStorage.getItem(key) || ""
+      );
+      localStorage.removeItem(key);
+    }
+    const targetPrefix = getSnapshotKey(profileId, "");
+    for (const snapshotKey of listStorageKeys()) {
+      if (!snapshotKey.startsWith(targetPrefix)) continue;
+      const key = snapshotKey.slice(targetPrefix.length);
+      if (isProfileStorageKey(key)) {
+        localStorage.setItem(key, localStorage.getItem(snapshotKey) || "");
+      }
+      localStorage.removeItem(snapshotKey);
+    }
+
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, profileId);
+    this.selectDatabase();
+
+    const activated = { ...target, last_used_at_utc_iso_string: now };
+    this.saveProfiles(
+      this.getProfiles().map((profile) => {
+        if (profile.id === activeProfileId) {
+          return { ...profile, network, last_used_at_utc_iso_string: now };
+        }
+        return profile.id === profileId ? activated : profile;
+      })
+    );
+    return activated;
+  }
+
+  /**
+   * Records the network of the active profile after it is changed.
+   */
+  public updateActiveProfileNetwork(network: WalletProfile["network"]): void {
+    const activeProfileId = this.getActiveProfileId();
+    this.saveProfiles(
+      this.getProfiles().map((profile) =>
+        profile.id === activeProfileId ? { ...profile, network } : profile
+      )
+    );
+  }
+}
+
+export const walletProfiles = WalletProfileManager.getInstance();
+
+export default WalletProfileManager;
@@ -0,0 +1,163 @@
+// src/app/lib/watchOnlyWallet.ts
+
+'use client'
+
+import { WatchOnlyWalletError } from "@/app/lib/errors";
+import { getNetworkStorageKey } from "@/app/lib/networkConfig";
+import { WatchedCreditPack } from "@/app/types";
+
+const WATCH_ONLY_MODE_STORAGE_KEY = "WATCH_ONLY_MODE";
+// Shared with importAddress, which has always kept its addresses here
+const WATCHED_ADDRESSES_STORAGE_KEY = "importedAddresses";
+const WATCHED_PASTELIDS_STORAGE_KEY = "watchedPastelIDs";
+const WATCHED_CREDIT_PACKS_STORAGE_KEY = "watchedCreditPacks";
+
+function readList<T>(key: string): T[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(getNetworkStorageKey(key)) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeList<T>(key: string, values: T[]): void {
+  localStorage.setItem(getNetworkStorageKey(key), JSON.stringify(values));
+}
+
+/**
+ * Singleton holding the watch-only wallet: imported addresses, PastelIDs and
+ * credit packs that are monitored without their keys. While watch-only mode
+ * is on, they stand in for the addresses and PastelIDs of the WASM wallet and
+ * everything that needs a signature is refused.
+ */
+export class WatchOnlyWallet {
+  private static instance: WatchOnlyWallet;
+
+  private constructor() {}
+
+  public static getInstance(): WatchOnlyWallet {
+    if (!WatchOnlyWallet.instance) {
+      WatchOnlyWallet.instance = new WatchOnlyWallet();
+    }
+    return WatchOnlyWallet.instance;
+  }
+
+  public isEnabled(): boolean {
+    return (
+      typeof localStorage !== "undefined" &&
+      localStorage.getItem(WATCH_ONLY_MODE_STORAGE_KEY) === "true"
+    );
+  }
+
+  public setEnabled(enabled: boolean): void {
+    if (enabled) {
+      localStorage.setItem(WATCH_ONLY_MODE_STORAGE_KEY, "true");
+    } else {
+      localStorage.removeItem(WATCH_ONLY_MODE_STORAGE_KEY);
+    }
+  }
+
+  /**
+   * Throws when watch-only mode is on; called before anything is signed.
+   * @param purpose - What was about to be done, for the error message.
+   */
+  public assertCanSign(purpose: string): void {
+    if (this.isEnabled()) {
+      throw new WatchOnlyWalletError(purpose);
+    }
+  }
+
+  public getAddresses(): string[] {
+    return readList<string>(WATCHED_ADDRESSES_STORAGE_KEY);
+  }
+
+  public addAddress(address: string): void {
+    const addresses = this.getAddresses();
+    if (!addresses.includes(address)) {
+      writeList(WATCHED_ADDRESSES_STORAGE_KEY, [...addresses, address]);
+    }
+  }
+
+  /**
+   * Stops watching an address. Tracking addresses of watched credit packs
+   * stay until the credit pack is removed.
+   */
+  public removeAddress(address: string): void {
+    if (
+      this.getCreditPacks().some(
+        (pack) => pack.credit_usage_tracking_psl_address === address
+      )
+    ) {
+      throw new Error(
+        `${address} is the tracking address of a watched credit pack; remove the credit pack instead`
+      );
+    }
+    writeList(
+      WATCHED_ADDRESSES_STORAGE_KEY,
+      this.getAddresses().filter((watched) => watched !== address)
+    );
+  }
+
+  public getPastelIDs(): string[] {
+    return readList<string>(WATCHED_PASTELIDS_STORAGE_KEY);
+  }
+
+  public addPastelID(pastelID: string): void {
+    const pastelIDs = this.getPastelIDs();
+    if (!pastelIDs.includes(pastelID)) {
+      writeList(WATCHED_PASTELIDS_STORAGE_KEY, [...pastelIDs, pastelID]);
+    }
+  }
+
+  public removePastelID(pastelID: string): void {
+    writeList(
+      WATCHED_PASTELIDS_STORAGE_KEY,
+      this.getPastelIDs().filter((watched) => watched !== pastelID)
+    );
+  }
+
+  public getCreditPacks(): WatchedCreditPack[] {
+    return readList<WatchedCreditPack>(WATCHED_CREDIT_PACKS_STORAGE_KEY);
+  }
+
+  public getCreditPack(creditPackTicketTxid: string): WatchedCreditPack | null {
+    return (
+      this.getCreditPacks().find(
+        (pack) => pack.credit_pack_registration_txid === creditPackTicketTxid
+      ) || null
+    );
+  }
+
+  /**
+   * Watches a credit pack along with its tracking address and, when known,
+   * the PastelID that bought it.
+   */
+  public addCreditPack(pack: WatchedCreditPack): void {
+    writeList(WATCHED_CREDIT_PACKS_STORAGE_KEY, [
+      ...this.getCreditPacks().filter(
+        (watched) =>
+          watched.credit_pack_registration_txid !==
+          pack.credit_pack_registration_txid
+      ),
+      pack,
+    ]);
+    this.addAddress(pack.credit_usage_tracking_psl_address);
+    if (pack.requesting_end_user_pastelid) {
+      this.addPastelID(pack.requesting_end_user_pastelid);
+    }
+  }
+
+  public removeCreditPack(creditPackTicketTxid: string): void {
+    writeList(
+      WATCHED_CREDIT_PACKS_STORAGE_KEY,
+      this.getCreditPacks().filter(
+        (pack) => pack.credit_pack_registration_txid !== creditPackTicketTxid
+      )
+    );
+  }
+}
+
+export const watchOnlyWallet = WatchOnlyWallet.getInstance();
+
+export default WatchOnlyWallet;
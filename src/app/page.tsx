@@ -10,8 +10,22 @@ import CreateCreditPackTicket from "./components/CreateCreditPackTicket";
 import SelectCreditPackTicket from "./components/SelectCreditPackTicket";
 import CreateInferenceRequest from "./components/CreateInferenceRequest";
 import PreviousRequests from "./components/PreviousRequests";
+import BatchInferenceRequests from "./components/BatchInferenceRequests";
+import CreditPackLedger from "./components/CreditPackLedger";
+import SpendingPolicies from "./components/SpendingPolicies";
+import SendPSL from "./components/SendPSL";
+import TransactionHistory from "./components/TransactionHistory";
+import TransactionConfirmation from "./components/TransactionConfirmation";
+import KeystoreSettings from "./components/KeystoreSettings";
+import KeystoreUnlock from "./components/KeystoreUnlock";
 import MessageSystem from "./components/MessageSystem";
+import PastelIDManagement from "./components/PastelIDManagement";
 import WalletManagement from "./components/WalletManagement";
+import WalletAccounts from "./components/WalletAccounts";
+import WatchOnlyWallet from "./components/WatchOnlyWallet";
+import WalletProfiles from "./components/WalletProfiles";
+import NetworkSettings from "./components/NetworkSettings";
+import OfflineSigning, { OfflineSigningDialog } from "./components/OfflineSigning";
 import ErrorBoundary from "./components/ErrorBoundary";
 import useStore from "./store/useStore";
 import browserLogger from "./lib/logger";
@@ -32,6 +46,8 @@ export default function Home() {
     pastelId,
     modelMenu,
     fetchModelMenu,
+    resumeInferenceRequests,
+    recoverCreditPackPurchases,
     isInitialized,
     isLocked,
     setShowQRScanner,
@@ -41,6 +57,8 @@ export default function Home() {
     showConnectWallet,
     showQRScanner,
     showImportExistingWallet,
+    showKeystoreUnlock,
+    isWatchOnly,
   } = useStore();
 
   useEffect(() => {
@@ -70,10 +88,29 @@ export default function Home() {
           browserLogger.error("Data fetching error:", err);
           setError("Failed to fetch necessary data. Please try again.");
         }
+        // Both would have to sign, which a watch-only wallet cannot
+        if (!isWatchOnly) {
+          recoverCreditPackPurchases();
+          resumeInferenceRequests();
+        }
       }
     };
     fetchData();
-  }, [isInitialized, pastelId, fetchModelMenu, setError]);
+  }, [
+    isInitialized,
+    isWatchOnly,
+    pastelId,
+    fetchModelMenu,
+    recoverCreditPackPurchases,
+    resumeInferenceRequests,
+    setError,
+  ]);
+
+  if (showKeystoreUnlock) {
+    return (
+      <KeystoreUnlock />
+    )
+  };
 
   if (showImportExistingWallet) {
     return (
@@ -120,7 +157,21 @@ export default function Home() {
       <main className="flex flex-col gap-6 transition-all duration-300 bg-bw-50">
         <div className="max-w-7xl mx-auto w-full px-4 sm:px-6 lg:px-8">
           <Header />
-          {isLocked ? (
+          <TransactionConfirmation />
+          <OfflineSigningDialog />
+          {isWatchOnly ? (
+            <>
+              <WatchOnlyWallet />
+              <WalletProfiles />
+              <NetworkSettings />
+              <OfflineSigning />
+              <CreateCreditPackTicket />
+              <CreditPackLedger />
+              <SendPSL />
+              <TransactionHistory />
+              <DynamicTerminal />
+            </>
+          ) : isLocked ? (
             <div className="text-center py-10">
               <h2 className="text-2xl font-bold mb-4">Wallet is locked</h2>
               <button
@@ -133,12 +184,23 @@ export default function Home() {
           ) : (
             <>
               <UserInfo />
+              <PastelIDManagement />
               <CreateCreditPackTicket />
               <SelectCreditPackTicket />
               <CreateInferenceRequest modelMenu={modelMenu} />
               <PreviousRequests />
+              <BatchInferenceRequests modelMenu={modelMenu} />
+              <CreditPackLedger />
+              <SendPSL />
+              <TransactionHistory />
+              <SpendingPolicies />
+              <KeystoreSettings />
               <MessageSystem />
               <WalletManagement />
+              <WalletProfiles />
+              <NetworkSettings />
+              <WalletAccounts />
+              <OfflineSigning />
               <DynamicTerminal />
             </>
           )}
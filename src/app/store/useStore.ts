@@ -5,6 +5,7 @@ import { persist } from "zustand/middleware";
 
 import api from "../lib/api";
 import * as initializeApp from "../lib/initializeApp";
+import { getNetworkStorageKey } from "../lib/networkConfig";
 import {
   CreditPack,
   ModelMenu,
@@ -13,11 +14,14 @@ import {
   CreditPackCreationResult,
   CreditPackTicketInfo,
   UserMessage,
+  ArchivedUserMessage,
+  MessageOutboxEntry,
   PastelIDType,
   SupernodeInfo,
   EmscriptenModule,
   WalletData,
   InferenceRequest,
+  CoinSelectionOptions,
 } from "@/app/types";
 import browserLogger from "@/app/lib/logger";
 import { generateSecurePassword } from "../lib/passwordUtils";
@@ -52,6 +56,8 @@ interface WalletState {
   requests: InferenceRequest[];
   showImportExistingWallet: boolean;
   isBackConnectWallet: boolean;
+  showKeystoreUnlock: boolean;
+  isWatchOnly: boolean;
 }
 
 interface WalletActions {
@@ -72,6 +78,9 @@ interface WalletActions {
   setInitialPassword: (password: string | null) => void;
   setShowQRScanner: (show: boolean) => void;
   lockWallet: () => Promise<void>;
+  setUpKeystore: (pin: string) => Promise<void>;
+  unlockKeystore: (pin: string) => Promise<void>;
+  waitForKeystoreUnlock: () => Promise<void>;
   createNewAddress: () => Promise<void>;
   refreshWalletData: () => Promise<void>;
   fetchModelMenu: () => Promise<void>;
@@ -90,9 +99,10 @@ interface WalletActions {
     messageBody: string
   ) => Promise<{
     sent_messages: UserMessage[];
-    received_messages: UserMessage[];
+    received_messages: ArchivedUserMessage[];
+    outbox_entry: MessageOutboxEntry | null;
   }>;
-  getReceivedMessages: () => Promise<UserMessage[]>;
+  getReceivedMessages: () => Promise<ArchivedUserMessage[]>;
   createCreditPackTicket: (
     numCredits: number,
     creditUsageTrackingPSLAddress: string,
@@ -105,7 +115,8 @@ interface WalletActions {
   getMyPslAddressWithLargestBalance: () => Promise<string>;
   createInferenceRequest: (
     params: InferenceRequestParams,
-    callback: (value: string) => void
+    callback: (value: string) => void,
+    onToken?: (token: string) => void
   ) => Promise<InferenceResult | null>;
   checkSupernodeList: () => Promise<{
     validMasternodeListFullDF: SupernodeInfo[];
@@ -159,11 +170,19 @@ interface WalletActions {
   ) => Promise<boolean>;
   getCurrentPastelBlockHeight: () => Promise<number>;
   getBestBlockHashAndMerkleRoot: () => Promise<[string, string, number]>;
-  sendToAddress: (address: string, amount: number) => Promise<{
+  sendToAddress: (
+    address: string,
+    amount: number,
+    creditUsageTrackingPSLAddress?: string,
+    coinSelection?: CoinSelectionOptions
+  ) => Promise<{
     txID: string;
     actualFromAddress: string;
   }>;
-  sendMany: (amounts: { address: string; amount: number; }[]) => Promise<string>;
+  sendMany: (
+    amounts: { address: string; amount: number; }[],
+    coinSelection?: CoinSelectionOptions
+  ) => Promise<string>;
   setMyPslAddress: (address: string) => void;
   setSelectedPastelID: (address: string) => void;
   setPastelIDs: (pastelIDs: string[]) => void;
@@ -179,45 +198,89 @@ interface WalletActions {
   createNewWallet: () => void;
   importedWalletByQRCode: () => void;
   getRequests: () => void;
+  resumeInferenceRequests: () => Promise<void>;
+  recoverCreditPackPurchases: () => Promise<void>;
   setShowImportExistingWallet: (status: boolean) => void;
   setBackConnectWallet: (status: boolean) => void;
   importedWalletFile: (password: string) => Promise<void>;
   closeImportExistingWallet: () => void;
+  enterWatchOnlyMode: () => void;
+  exitWatchOnlyMode: () => void;
+  loadWatchOnlyWallet: (network: string) => Promise<void>;
+  switchWalletProfile: (profileId: string) => Promise<void>;
+  switchNetwork: (network: "Mainnet" | "Testnet" | "Devnet") => Promise<void>;
   currentTheme: string;
   setCurrentTheme: (theme: string) => void;
 }
 
 const walletLocalStorageName = 'walletInfo';
 
+// Also what the store goes back to when switching wallet profiles
+const initialWalletState: WalletState = {
+  isLocked: true,
+  networkMode: "Mainnet",
+  pastelId: "",
+  balance: 0,
+  addresses: [],
+  creditPacks: [],
+  modelMenu: null,
+  isLoading: false,
+  error: null,
+  isInitialized: false,
+  promoGeneratorMessage: "",
+  isGeneratingPromotionalPacks: false,
+  walletPassword: null,
+  showPasswordQR: false,
+  initialPassword: null,
+  showQRScanner: false,
+  pastelIDs: [],
+  selectedPastelID: "",
+  walletBalance: "Loading...",
+  myPslAddress: "",
+  qrCodeContent: "",
+  localPastelID: "",
+  showConnectWallet: false,
+  requests: [],
+  showImportExistingWallet: false,
+  isBackConnectWallet: false,
+  showKeystoreUnlock: false,
+  isWatchOnly: false,
+};
+
+const appendInferenceResultToHistory = (result: InferenceResult) => {
+  const requests = JSON.parse(
+    localStorage.getItem(getNetworkStorageKey("inferenceRequests")) || "[]"
+  );
+  const requestTimestamp = result.request_data.inference_request_utc_iso_string;
+  const inputFields = result.model_input_data_json as { prompt?: string };
+  requests.push({
+    selectedInferenceType: result.request_data.model_inference_type_string,
+    selectedModelCanonicalName:
+      result.request_data.requested_model_canonical_string,
+    inputFields,
+    parameterFields: JSON.parse(
+      atob(result.request_data.model_parameters_json_b64)
+    ),
+    inferenceResultsDecoded: result.inference_result_decoded || "",
+    prompt: inputFields.prompt || "",
+    elapsedTimeInSeconds: Math.floor(
+      (new Date().getTime() - new Date(requestTimestamp).getTime()) / 1000
+    ),
+    actualCreditsUsed:
+      result.usage_request_response.proposed_cost_of_request_in_inference_credits,
+    remainingCredits:
+      result.usage_request_response
+        .remaining_credits_in_pack_after_request_processed,
+    respondingSupernode: result.output_results.responding_supernode_pastelid,
+    requestTimestamp,
+  });
+  localStorage.setItem(getNetworkStorageKey("inferenceRequests"), JSON.stringify(requests));
+};
+
 const useStore = create<WalletState & WalletActions>()(
   persist(
     (set, get) => ({
-      isLocked: true,
-      networkMode: "Mainnet",
-      pastelId: "",
-      balance: 0,
-      addresses: [],
-      creditPacks: [],
-      modelMenu: null,
-      isLoading: false,
-      error: null,
-      isInitialized: false,
-      promoGeneratorMessage: "",
-      isGeneratingPromotionalPacks: false,
-      walletPassword: null,
-      showPasswordQR: false,
-      initialPassword: null,
-      showQRScanner: false,
-      pastelIDs: [],
-      selectedPastelID: "",
-      walletBalance: "Loading...",
-      myPslAddress: "",
-      qrCodeContent: "",
-      localPastelID: "",
-      showConnectWallet: false,
-      requests: [],
-      showImportExistingWallet: false,
-      isBackConnectWallet: false,
+      ...initialWalletState,
       currentTheme: 'light',
 
       setLocked: (isLocked) => set({ isLocked }),
@@ -285,6 +348,12 @@ const useStore = create<WalletState & WalletActions>()(
             console.error("Failed to get network info:", error);
             throw new Error("Failed to retrieve network information");
           }
+          // A watch-only wallet holds no keys, so there is nothing to unlock
+          if (api.isWatchOnlyWallet()) {
+            await get().loadWatchOnlyWallet(networkInfo.network);
+            return;
+          }
+          await get().waitForKeystoreUnlock();
           const result = await get().loadWalletFromLocalStorage();
           if (result) {
             return
@@ -334,14 +403,19 @@ const useStore = create<WalletState & WalletActions>()(
             return;
           }
 
+          if (api.isWatchOnlyWallet()) {
+            await get().loadWatchOnlyWallet(networkInfo.network);
+            return;
+          }
+
           // Handle wallet password
-          let password = localStorage.getItem("walletPassword");
+          let password = api.getStoredWalletPassword();
           let isNewWalletPassword = false;
           if (!password) {
             password = generateSecurePassword();
             console.log("New wallet password generated");
             isNewWalletPassword = true;
-            localStorage.setItem("walletPassword", password);
+            await api.storeWalletPassword(password);
           } else {
             console.log("Existing wallet password retrieved");
           }
@@ -363,7 +437,6 @@ const useStore = create<WalletState & WalletActions>()(
                 error.message.includes("Failed to set master key"))
             ) {
               console.log("Resetting wallet due to persistent error");
-              localStorage.removeItem("walletPassword");
               password = generateSecurePassword();
               set({ initialPassword: password, showPasswordQR: true });
               await new Promise<void>((resolve) => {
@@ -376,7 +449,7 @@ const useStore = create<WalletState & WalletActions>()(
                 };
                 checkAcknowledgement();
               });
-              localStorage.setItem("walletPassword", password);
+              await api.storeWalletPassword(password);
               await api.createNewWallet(password);
               const unlocked = await get().unlockWallet(password);
               if (!unlocked) {
@@ -494,6 +567,64 @@ const useStore = create<WalletState & WalletActions>()(
         set({ showConnectWallet: true, showImportExistingWallet: false });
       },
 
+      enterWatchOnlyMode() {
+        api.setWatchOnlyWallet(true);
+        set({ showConnectWallet: false, showQRScanner: false, showImportExistingWallet: false });
+        if (get().isBackConnectWallet) {
+          get().initializeWallet();
+        }
+      },
+
+      exitWatchOnlyMode() {
+        api.setWatchOnlyWallet(false);
+        // Start over so that the WASM wallet is created or restored as usual
+        window.location.reload();
+      },
+
+      loadWatchOnlyWallet: async (network: string) => {
+        const pastelIDs = await api.listPastelIDs();
+        if (pastelIDs[0]) {
+          api.selectWatchedPastelID(pastelIDs[0]);
+        }
+        set({
+          networkMode: network as "Mainnet" | "Testnet" | "Devnet",
+          isWatchOnly: true,
+          isLocked: false,
+          walletPassword: null,
+          pastelId: pastelIDs[0] || "",
+          pastelIDs,
+          selectedPastelID: pastelIDs[0] || "",
+          isInitialized: true,
+          isBackConnectWallet: false,
+        });
+        await get().refreshWalletData();
+        browserLogger.info("Watch-only wallet loaded");
+      },
+
+      switchWalletProfile: async (profileId: string) => {
+        // Keep the latest wallet data of the profile being left
+        if (get().isInitialized && !get().isLocked) {
+          await get().saveWalletToLocalStorage();
+        }
+        await api.switchWalletProfile(profileId);
+        set(initialWalletState);
+        await get().initializeWallet();
+      },
+
+      switchNetwork: async (network) => {
+        if (get().isInitialized && !get().isLocked) {
+          await get().saveWalletToLocalStorage();
+        }
+        const result = await api.changeNetwork(network);
+        if (!result.success) {
+          throw new Error(result.message);
+        }
+        // The wallet is the same, but its addresses, PastelIDs and credit
+        // packs on the new network are loaded again
+        set(initialWalletState);
+        await get().initializeWallet();
+      },
+
       unlockWallet: async (password: string): Promise<boolean> => {
         set({ isLoading: true, error: null });
         try {
@@ -501,6 +632,12 @@ const useStore = create<WalletState & WalletActions>()(
           if (!unlocked) {
             throw new Error("Failed to unlock wallet");
           }
+          if (
+            api.isKeystoreUnlocked() &&
+            api.getStoredWalletPassword() !== password
+          ) {
+            await api.storeWalletPassword(password);
+          }
           set({ isLocked: false, walletPassword: password });
           await get().refreshWalletData();
           return true; // Return true if the wallet was successfully unlocked
@@ -518,7 +655,9 @@ const useStore = create<WalletState & WalletActions>()(
       lockWallet: async () => {
         set({ isLoading: true, error: null });
         try {
-          set({ isLocked: true });
+          // Locking the keystore locks the wallet through its listener below
+          api.lockKeystore();
+          set({ isLocked: true, walletPassword: null });
           browserLogger.info("Wallet locked");
         } catch (error) {
           browserLogger.error("Failed to lock wallet:", error);
@@ -528,6 +667,36 @@ const useStore = create<WalletState & WalletActions>()(
         }
       },
 
+      setUpKeystore: async (pin: string) => {
+        await api.setUpKeystore(pin);
+        set({ showKeystoreUnlock: false });
+      },
+
+      unlockKeystore: async (pin: string) => {
+        await api.unlockKeystore(pin);
+        set({ showKeystoreUnlock: false });
+        // After an auto-lock, unlock the wallet again with the stored password
+        const password = api.getStoredWalletPassword();
+        if (get().isInitialized && password) {
+          await get().unlockWallet(password);
+        }
+      },
+
+      waitForKeystoreUnlock: async () => {
+        if (api.isKeystoreUnlocked()) return;
+        set({ showKeystoreUnlock: true });
+        await new Promise<void>((resolve) => {
+          const checkAcknowledgement = () => {
+            if (api.isKeystoreUnlocked()) {
+              resolve();
+            } else {
+              setTimeout(checkAcknowledgement, 500);
+            }
+          };
+          checkAcknowledgement();
+        });
+      },
+
       createNewAddress: async () => {
         set({ isLoading: true, error: null });
         try {
@@ -562,7 +731,11 @@ const useStore = create<WalletState & WalletActions>()(
           const addressAmounts = await api.listAddressAmounts();
           const addresses = Object.keys(addressAmounts);
           const pastelIDs = await api.listPastelIDs();
-          const creditPacks = await api.getMyValidCreditPacks();
+          // Listing credit packs takes a PastelID signature; a watch-only
+          // wallet shows its watched credit packs instead
+          const creditPacks = get().isWatchOnly
+            ? []
+            : await api.getMyValidCreditPacks();
           set({
             balance,
             addresses,
@@ -678,7 +851,7 @@ const useStore = create<WalletState & WalletActions>()(
           const ids = listPastelIDs.filter((value) => value !== localPastelID)
           get().setPastelIDs(ids);
           if (ids.length > 0) {
-            const currentPastelID = localStorage.getItem('MY_LOCAL_PASTELID')
+            const currentPastelID = localStorage.getItem(getNetworkStorageKey('MY_LOCAL_PASTELID'))
             get().setSelectedPastelID(currentPastelID || ids[0]);
             get().setPastelId(currentPastelID || ids[0]);
           }
@@ -695,6 +868,7 @@ const useStore = create<WalletState & WalletActions>()(
         }
       },
       saveWalletToLocalStorage: async () => {
+        if (get().isWatchOnly) return;
         try {
           const walletInfo = await api.exportWallet();
           const balance = await api.getBalance();
@@ -709,7 +883,6 @@ const useStore = create<WalletState & WalletActions>()(
             listPastelIDs: ids,
             addresses,
             localPastelID,
-            walletPassword: localStorage.getItem('walletPassword')
           })))
         } catch (error) {
           console.error(error)
@@ -720,11 +893,11 @@ const useStore = create<WalletState & WalletActions>()(
           const walletData = localStorage.getItem(walletLocalStorageName);
           if (walletData) {
             const parseWalletData = JSON.parse(atob(walletData)) as WalletData;
-            if (parseWalletData.walletPassword) {
-              const success = await api.importWalletFromDatFile(parseWalletData.wallet, parseWalletData.walletPassword);
+            const walletPassword = api.getStoredWalletPassword();
+            if (walletPassword) {
+              const success = await api.importWalletFromDatFile(parseWalletData.wallet, walletPassword);
               if (success) {
-                localStorage.setItem("walletPassword", parseWalletData.walletPassword);
-                get().unlockWallet(parseWalletData.walletPassword);
+                get().unlockWallet(walletPassword);
                 const existingPastelID = await api.checkForPastelID();
                 if (!existingPastelID) {
                   await api.makeNewPastelID(false);
@@ -733,9 +906,12 @@ const useStore = create<WalletState & WalletActions>()(
                 const listPastelIDs = await api.listPastelIDs();
                 const ids = listPastelIDs.filter((value) => value !== parseWalletData.localPastelID);
                 set({ pastelId: ids[0] || "", localPastelID: parseWalletData.localPastelID });
-                const localPastelID = localStorage.getItem('MY_LOCAL_PASTELID') || '';
-                if (localPastelID) {
-                  await api.setPastelIdAndPassphrase(localPastelID, localStorage.getItem('MY_PASTELID_PASSPHRASE') || '');
+                const localPastelID = localStorage.getItem(getNetworkStorageKey('MY_LOCAL_PASTELID')) || '';
+                const localPassphrase = localPastelID
+                  ? api.getStoredPastelIDPassphrase(localPastelID)
+                  : null;
+                if (localPastelID && localPassphrase) {
+                  await api.setPastelIdAndPassphrase(localPastelID, localPassphrase);
                 }
                 set({ isLoading: false, isInitialized: true });
                 return true;
@@ -749,9 +925,44 @@ const useStore = create<WalletState & WalletActions>()(
         }
       },
       getRequests: () => {
-        const storedRequests = localStorage.getItem('inferenceRequests');
-        if (storedRequests) {
-          set({ requests: JSON.parse(storedRequests) });
+        const storedRequests = localStorage.getItem(getNetworkStorageKey('inferenceRequests'));
+        set({ requests: storedRequests ? JSON.parse(storedRequests) : [] });
+      },
+      resumeInferenceRequests: async () => {
+        try {
+          const results = await api.resumeInferenceRequests((value) => {
+            const parseValue = JSON.parse(value);
+            if (parseValue.message) {
+              browserLogger.info(parseValue.message);
+            }
+          });
+          if (results.length > 0) {
+            results.forEach(appendInferenceResultToHistory);
+            get().getRequests();
+            browserLogger.info(
+              `Recovered ${results.length} inference request(s)`
+            );
+          }
+        } catch (error) {
+          browserLogger.error("Failed to resume inference requests:", error);
+        }
+      },
+      recoverCreditPackPurchases: async () => {
+        try {
+          const results = await api.recoverCreditPackPurchases((value) => {
+            const parseValue = JSON.parse(value);
+            if (parseValue.message) {
+              browserLogger.info(parseValue.message);
+            }
+          });
+          if (results.length > 0) {
+            browserLogger.info(
+              `Recovered ${results.length} credit pack purchase(s)`
+            );
+            await get().refreshWalletData();
+          }
+        } catch (error) {
+          browserLogger.error("Failed to recover credit pack purchases:", error);
         }
       },
     }),
@@ -761,10 +972,25 @@ const useStore = create<WalletState & WalletActions>()(
         networkMode: state.networkMode,
         pastelId: state.pastelId,
         addresses: state.addresses,
-        walletPassword: state.walletPassword,
       }),
     }
   )
 );
 
+// Decrypted secrets are gone once the keystore locks, so the wallet locks too
+// and the PIN prompt is shown again
+if (typeof window !== "undefined") {
+  api.subscribeToKeystore((unlocked) => {
+    if (unlocked) return;
+    useStore.setState({
+      isLocked: true,
+      walletPassword: null,
+      showKeystoreUnlock: true,
+    });
+    api.lockWallet().catch((error) =>
+      browserLogger.error("Failed to lock wallet:", error)
+    );
+  });
+}
+
 export default useStore;
@@ -9,6 +9,7 @@ export interface EmscriptenFS {
   mkdir(path: string): void;
   writeFile(path: string, data: Uint8Array): void;
   unlink(path: string): void;
+  readFile(path: string): Uint8Array;
   syncfs(populate: boolean, callback: (err: Error | null) => void): void;
   readdir(path: string): string[]; 
 }
@@ -800,6 +801,39 @@ export interface CreditPackPurchaseRequest extends Record<string, unknown> {
   requesting_end_user_pastelid_signature_on_request_hash: string;
 }
 
+// Local progress of a credit pack purchase, stored alongside the request in
+// the CreditPackPurchaseRequest store so an interrupted purchase can be recovered
+export type CreditPackPurchaseStatus =
+  | "requested"
+  | "price_agreed"
+  // The tracking address was not funded in time; resumed once it is
+  | "awaiting_funding"
+  | "burn_pending"
+  | "burn_sent"
+  | "confirmed"
+  | "storage_retry_requested"
+  | "completed"
+  | "failed";
+
+export interface CreditPackPurchaseProgress extends Record<string, unknown> {
+  purchase_status: CreditPackPurchaseStatus;
+  supernode_url: string;
+  burn_address: string;
+  sha3_256_hash_of_credit_pack_purchase_request_response_fields: string;
+  sha3_256_hash_of_credit_pack_purchase_request_confirmation_fields: string;
+  txid_of_credit_purchase_burn_transaction: string;
+  pastel_api_credit_pack_ticket_registration_txid: string;
+  purchase_last_error: string;
+  purchase_status_updated_at_utc_iso_string: string;
+  // Set once the burn amount is final; absent on purchases recorded before it existed
+  burn_amount_in_psl?: number;
+  // Signed burn transaction, saved with its txid before it is broadcast
+  burn_transaction_hex?: string;
+}
+
+export type CreditPackPurchaseRequestRecord = CreditPackPurchaseRequest &
+  CreditPackPurchaseProgress;
+
 export interface CreditPackPurchaseRequestRejection
   extends Record<string, unknown> {
   id?: number | string;
@@ -1009,6 +1043,7 @@ export interface InferenceAPIOutputResult extends Record<string, unknown> {
   inference_result_message_version_string: string;
   sha3_256_hash_of_inference_result_fields: string;
   responding_supernode_signature_on_inference_result_id: string;
+  consensus_verdict?: InferenceConsensusVerdict;
 }
 
 export interface InferenceConfirmation extends Record<string, unknown> {
@@ -1052,7 +1087,8 @@ export interface WalletData {
   balance: number;
   listPastelIDs: string[];
   addresses: string[];
-  walletPassword: string;
+  // Only present in wallet data saved before the encrypted keystore
+  walletPassword?: string;
   localPastelID: string;
 }
 
@@ -1081,4 +1117,800 @@ export interface UTXO {
   script: string;
   patoshis: number;
   height: number;
-}
\ No newline at end of file
+}
+
+export type CoinSelectionStrategy =
+  | "largest_first"
+  | "branch_and_bound"
+  | "privacy"
+  | "manual";
+
+export interface UTXOOutpoint {
+  txid: string;
+  outputIndex: number;
+}
+
+// How the inputs of an outgoing transaction are chosen
+export interface CoinSelectionOptions {
+  strategy?: CoinSelectionStrategy;
+  // Defaults to the address with the largest balance (all addresses for manual selection)
+  fromAddresses?: string[];
+  // The UTXOs to spend with the manual strategy
+  selectedUtxos?: UTXOOutpoint[];
+  // Defaults to the first funding address, or a new address with the privacy strategy
+  changeAddress?: string;
+  feeRateInPSLPerKb?: number;
+}
+
+// Estimated before signing; the WASM builder computes the final fee
+export interface CoinSelectionPreview {
+  strategy: CoinSelectionStrategy;
+  inputs: UTXO[];
+  funding_addresses: string[];
+  recipients: { address: string; amount: string }[];
+  input_total_in_psl: number;
+  output_total_in_psl: number;
+  fee_in_psl: number;
+  change_in_psl: number;
+  // Null when there is no change or it goes to a new address
+  change_address: string | null;
+  estimated_size_in_bytes: number;
+  fee_rate_in_psl_per_kb: number;
+}
+
+export type TransactionPreviewStatus =
+  | "awaiting_confirmation"
+  // Being sent; a second confirmation is refused until the broadcast settles
+  | "broadcasting"
+  | "broadcast"
+  | "discarded"
+  | "expired";
+
+export interface TransactionPreviewInput {
+  txid: string;
+  vout: number;
+  address: string;
+  value_in_psl: number;
+}
+
+export interface TransactionPreviewOutput {
+  n: number;
+  address: string;
+  value_in_psl: number;
+  is_change: boolean;
+}
+
+// A signed transaction decoded for review; nothing is broadcast until it is confirmed
+export interface TransactionPreview {
+  preview_id: string;
+  txid: string;
+  hex: string;
+  coin_selection_strategy: CoinSelectionStrategy;
+  inputs: TransactionPreviewInput[];
+  outputs: TransactionPreviewOutput[];
+  input_total_in_psl: number;
+  recipient_total_in_psl: number;
+  change_in_psl: number;
+  fee_in_psl: number;
+  size_in_bytes: number;
+  fee_rate_in_psl_per_kb: number;
+  status: TransactionPreviewStatus;
+  created_at_utc_iso_string: string;
+  expires_at_utc_iso_string: string;
+}
+// Lifecycle of an inference request as persisted in the InferenceRequestState store
+export type InferenceRequestStatus =
+  | "requested"
+  | "quoted"
+  // Saved right before the tracking transaction is signed; once it is, its
+  // txid and hex are saved too, so a reload broadcasts that same transaction
+  // again instead of paying twice
+  | "tracking_tx_pending"
+  | "tracking_tx_sent"
+  | "confirmed"
+  | "results_ready"
+  | "retrieved"
+  | "audited"
+  | "failed";
+
+export interface InferenceRequestState extends Record<string, unknown> {
+  id?: number;
+  inference_request_id: string;
+  requesting_pastelid: string;
+  status: InferenceRequestStatus;
+  params: InferenceRequestParams;
+  supernode_url: string;
+  request_data: InferenceAPIUsageRequest | null;
+  usage_request_response: InferenceAPIUsageResponse | null;
+  tracking_transaction_txid: string;
+  // Signed tracking transaction, saved before it is broadcast
+  tracking_transaction_hex?: string;
+  output_results: InferenceAPIOutputResult | null;
+  confirmation_attempts: number;
+  last_error: string;
+  batch_job_id?: string;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+// A claim on some work, kept in the ProcessingLock store so other tabs see it
+export interface ProcessingLock extends Record<string, unknown> {
+  name: string;
+  owner: string;
+  expires_at_ms: number;
+}
+
+// Optional callbacks for callers that drive inference requests, e.g. many at once
+export interface InferenceRequestHooks {
+  batchJobID?: string;
+  beforeSupernodeRequest?: (supernodeURL: string) => Promise<void>;
+  onStateChange?: (state: InferenceRequestState) => void;
+  // Streamed tokens shown so far are incomplete and replaced by the polled result
+  onStreamedTokensDiscarded?: () => void;
+}
+
+// Observed health of a single supernode endpoint, kept in the SupernodeReputation store
+export interface SupernodeEndpointStats {
+  success_count: number;
+  failure_count: number;
+  latency_samples_ms: number[];
+  last_error: string;
+  last_error_utc_iso_string: string;
+  last_success_utc_iso_string: string;
+}
+
+export interface SupernodeReputation extends Record<string, unknown> {
+  supernode_url: string;
+  endpoints: Record<string, SupernodeEndpointStats>;
+  updated_at_utc_iso_string: string;
+}
+
+export interface SupernodeReputationSummary {
+  supernode_url: string;
+  success_count: number;
+  failure_count: number;
+  latency_p50_ms: number | null;
+  latency_p90_ms: number | null;
+  latency_p99_ms: number | null;
+  last_error: string;
+  reliability_score: number;
+}
+
+// Outcome of comparing auditor reports against the responding supernode's messages
+export type InferenceConsensusStatus =
+  | "agreed"
+  | "disputed"
+  | "insufficient_quorum";
+
+export interface InferenceAuditorResponse {
+  supernode_url: string;
+  supernode_pastelid: string;
+  response_audit: InferenceAPIUsageResponse | null;
+  result_audit: InferenceAPIOutputResult | null;
+  error: string;
+}
+
+export interface InferenceAuditorReport {
+  supernode_url: string;
+  supernode_pastelid: string;
+  responded: boolean;
+  mismatched_fields: string[];
+  error: string;
+}
+
+export interface InferenceConsensusVerdict {
+  status: InferenceConsensusStatus;
+  required_quorum: number;
+  responding_auditor_count: number;
+  agreeing_auditor_count: number;
+  dissenting_nodes: InferenceAuditorReport[];
+  auditor_reports: InferenceAuditorReport[];
+  verified_at_utc_iso_string: string;
+}
+
+// Batch inference jobs, persisted in the BatchInferenceJob store
+export type BatchInferenceJobStatus =
+  | "running"
+  | "paused"
+  | "completed"
+  | "cancelled";
+
+export type BatchInferenceItemStatus =
+  | "pending"
+  | "running"
+  | "interrupted"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface BatchInferenceItem {
+  index: number;
+  params: InferenceRequestParams;
+  status: BatchInferenceItemStatus;
+  inference_request_state_id: number | null;
+  inference_request_id: string;
+  inference_status: InferenceRequestStatus | "";
+  supernode_url: string;
+  cost_in_credits: number;
+  result_text: string;
+  error: string;
+  started_at_utc_iso_string: string;
+  finished_at_utc_iso_string: string;
+}
+
+export interface BatchInferenceJobOptions {
+  concurrency: number;
+  maxRequestsPerSupernodePerMinute: number;
+}
+
+export interface BatchInferenceJob extends Record<string, unknown> {
+  id?: number;
+  job_id: string;
+  name: string;
+  requesting_pastelid: string;
+  status: BatchInferenceJobStatus;
+  concurrency: number;
+  max_requests_per_supernode_per_minute: number;
+  items: BatchInferenceItem[];
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+// Credits spent on a single inference request, kept in the CreditPackLedgerEntry store
+export type CreditPackLedgerReconciliationStatus =
+  | "unreconciled"
+  | "not_paid"
+  | "matched"
+  | "missing_on_chain";
+
+export interface CreditPackLedgerEntry extends Record<string, unknown> {
+  inference_request_id: string;
+  credit_pack_ticket_pastel_txid: string;
+  requesting_pastelid: string;
+  model_name: string;
+  inference_type: string;
+  supernode_url: string;
+  proposed_cost_of_request_in_inference_credits: number;
+  credit_usage_tracking_psl_address: string;
+  tracking_amount_in_patoshis: number;
+  tracking_transaction_txid: string;
+  status: InferenceRequestStatus;
+  reconciliation_status: CreditPackLedgerReconciliationStatus;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+export interface CreditPackLedgerTotal {
+  key: string;
+  request_count: number;
+  total_cost_in_credits: number;
+}
+
+export interface CreditPackLedger {
+  credit_pack_ticket_pastel_txid: string;
+  credit_usage_tracking_psl_address: string;
+  entries: CreditPackLedgerEntry[];
+  totals_by_model: CreditPackLedgerTotal[];
+  totals_by_day: CreditPackLedgerTotal[];
+  total_cost_in_credits: number;
+  // Outgoing tracking address transactions that no ledger entry accounts for
+  unrecorded_tracking_txids: string[];
+  reconciled_at_utc_iso_string: string;
+}
+
+// Budgets on the credits spent from a credit pack; a null limit is not enforced
+export interface CreditPackSpendingPolicy extends Record<string, unknown> {
+  policy_id: string;
+  // Empty for the default policy applied to packs without their own
+  credit_pack_ticket_pastel_txid: string;
+  daily_credit_budget: number | null;
+  weekly_credit_budget: number | null;
+  // Daily budgets keyed by model canonical string
+  per_model_daily_credit_budgets: Record<string, number>;
+  manual_approval_above_credits: number | null;
+  updated_at_utc_iso_string: string;
+}
+
+// Limits on the PSL burned to buy credit packs; a null limit is not enforced
+export interface CreditPackPurchaseSpendingPolicy
+  extends Record<string, unknown> {
+  policy_id: string;
+  maximum_per_credit_price_in_psl: number;
+  maximum_credit_price_difference_from_market: number;
+  daily_psl_spending_cap: number | null;
+  weekly_psl_spending_cap: number | null;
+  manual_approval_above_psl: number | null;
+  updated_at_utc_iso_string: string;
+}
+
+export type SpendingPolicyRefusalKind = "inference" | "credit_pack_purchase";
+
+export interface SpendingPolicyRefusal extends Record<string, unknown> {
+  id?: number;
+  kind: SpendingPolicyRefusalKind;
+  reference_id: string;
+  credit_pack_ticket_pastel_txid: string;
+  amount: number;
+  unit: "credits" | "PSL";
+  rule: string;
+  reason: string;
+  refused_at_utc_iso_string: string;
+}
+
+export interface SpendingApprovalRequest {
+  kind: SpendingPolicyRefusalKind;
+  reference_id: string;
+  amount: number;
+  unit: "credits" | "PSL";
+  description: string;
+}
+
+export interface KeystoreEncryptedValue {
+  iv: string;
+  ciphertext: string;
+}
+
+export interface KeystoreMetadata extends Record<string, unknown> {
+  id: string;
+  kdf: "PBKDF2-SHA256";
+  kdf_iterations: number;
+  kdf_salt: string;
+  verifier: KeystoreEncryptedValue;
+  auto_lock_minutes: number;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+export interface KeystoreSecretRecord
+  extends KeystoreEncryptedValue,
+    Record<string, unknown> {
+  id: string;
+  updated_at_utc_iso_string: string;
+}
+
+export type TransactionHistoryLabel =
+  | "credit_pack_purchase_burn"
+  | "inference_tracking_burn"
+  | "pastelid_registration"
+  | "promotional_pack_funding"
+  | "transfer";
+
+export type TransactionHistoryDirection = "incoming" | "outgoing" | "self";
+
+export interface TransactionHistoryEntry extends Record<string, unknown> {
+  txid: string;
+  label: TransactionHistoryLabel;
+  direction: TransactionHistoryDirection;
+  // Sum of the address deltas below; negative when PSL left the wallet
+  net_amount_in_psl: number;
+  address_deltas_in_psl: Record<string, number>;
+  // Outputs paying addresses outside the wallet; empty when the transaction could not be decoded
+  counterparty_addresses: string[];
+  // Credit pack purchase hash, inference request ID, PastelID or promotional credit pack txid
+  reference_id: string;
+  // Null while unconfirmed
+  block_height: number | null;
+  first_seen_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+export interface TransactionHistorySyncState extends Record<string, unknown> {
+  address: string;
+  transaction_count: number;
+  has_unconfirmed_transactions: boolean;
+  last_synced_at_utc_iso_string: string;
+}
+
+export interface TransactionHistoryQuery {
+  // Matched against txids, addresses and reference IDs
+  search?: string;
+  label?: TransactionHistoryLabel;
+  address?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TransactionHistorySyncResult {
+  synced_address_count: number;
+  skipped_address_count: number;
+  new_transaction_count: number;
+  updated_transaction_count: number;
+  // Addresses whose history could not be fetched; they are retried on the next sync
+  failed_addresses: string[];
+  synced_at_utc_iso_string: string;
+}
+
+export interface WalletAccount extends Record<string, unknown> {
+  account_id: string;
+  name: string;
+  created_at_utc_iso_string: string;
+}
+
+// Wallet addresses without a record belong to the default account
+export interface WalletAccountAddress extends Record<string, unknown> {
+  address: string;
+  account_id: string;
+  // Position in the wallet's HD chain; null for imported keys
+  derivation_index: number | null;
+  has_history: boolean;
+  updated_at_utc_iso_string: string;
+}
+
+export interface WalletAccountSummary {
+  account: WalletAccount;
+  addresses: WalletAccountAddress[];
+  is_default: boolean;
+  is_credit_tracking_account: boolean;
+}
+
+export interface AddressDiscoveryResult {
+  gap_limit: number;
+  scanned_address_count: number;
+  derived_address_count: number;
+  used_address_count: number;
+  // Null when no address has any history
+  last_used_derivation_index: number | null;
+  discovered_at_utc_iso_string: string;
+}
+
+// A credit pack monitored by a watch-only wallet, which cannot ask the
+// supernodes about it since that takes a PastelID signature
+export interface WatchedCreditPack {
+  credit_pack_registration_txid: string;
+  credit_usage_tracking_psl_address: string;
+  // Empty when not known
+  requesting_end_user_pastelid: string;
+  added_at_utc_iso_string: string;
+}
+
+export interface WatchedCreditPackStatus extends WatchedCreditPack {
+  tracking_address_balance_in_psl: number;
+  // Spends from the tracking address, which confirm inference requests
+  tracking_transaction_count: number;
+  last_tracking_transaction_block_height: number | null;
+}
+
+export interface WatchedPastelIDStatus {
+  pastelid: string;
+  is_registered: boolean;
+}
+
+// An unsigned transaction exported by a watch-only wallet, with the UTXOs it
+// spends so that a wallet holding the keys can sign it
+export interface UnsignedTransactionExport {
+  network: string;
+  hex: string;
+  inputs: UTXO[];
+  recipients: { address: string; amount: string }[];
+  change_address: string;
+  change_in_psl: number;
+  fee_in_psl: number;
+  coin_selection_strategy: CoinSelectionStrategy;
+  // The signer has no chain access, so the height to build at comes along
+  block_height: number;
+  created_at_utc_iso_string: string;
+}
+
+export type OfflineSigningKind = "transaction" | "pastelid_signature";
+
+// What an online instance asks an offline instance holding the keys to sign,
+// carried between them as an animated QR code or a file
+export interface OfflineSigningRequest {
+  version: number;
+  type: "request";
+  request_id: string;
+  kind: OfflineSigningKind;
+  network: string;
+  description: string;
+  // Set for transaction requests
+  transaction: UnsignedTransactionExport | null;
+  // Set for PastelID signature requests
+  pastelid: string;
+  pastelid_type: PastelIDType;
+  message: string;
+  created_at_utc_iso_string: string;
+}
+
+export interface OfflineSigningResponse {
+  version: number;
+  type: "response";
+  request_id: string;
+  kind: OfflineSigningKind;
+  signed_transaction_hex: string;
+  signature: string;
+  signed_at_utc_iso_string: string;
+}
+
+export type OfflineSigningPayload = OfflineSigningRequest | OfflineSigningResponse;
+
+// The outcome of signing a request on the offline instance. The fee is read
+// back from the signed transaction, which may differ from the estimate.
+export interface OfflineSigningResult {
+  response: OfflineSigningResponse;
+  fee_in_psl: number | null;
+}
+
+// The outcome of bringing a response back to the online instance
+export interface OfflineSigningCompletion {
+  request: OfflineSigningRequest;
+  // The signed transaction, awaiting confirmation before broadcast
+  preview: TransactionPreview | null;
+  signature_is_valid: boolean | null;
+}
+
+export type PastelNetwork = "Mainnet" | "Testnet" | "Devnet";
+
+// Where a network is reached and where its burn payments go
+export interface NetworkConfig {
+  opennode_api_url: string;
+  burn_address: string;
+}
+
+// A named wallet kept side by side with others. Everything else about it,
+// from the wallet data to its credit packs, is stored under the profile.
+export interface WalletProfile {
+  id: string;
+  name: string;
+  network: PastelNetwork;
+  created_at_utc_iso_string: string;
+  last_used_at_utc_iso_string: string;
+}
+
+// A PastelID's signed statement that messages to it are to be encrypted to
+// the given ECDH public key
+export interface EncryptionKeyStatement {
+  version: number;
+  pastelid: string;
+  algorithm: "ECDH-P256";
+  // Uncompressed P-256 point, base64
+  encryption_public_key: string;
+  created_at_utc_iso_string: string;
+  signature: string;
+}
+
+// A key statement whose signature checked out, ours included
+export interface KnownEncryptionKey extends EncryptionKeyStatement {
+  verified_at_utc_iso_string: string;
+}
+
+// The content key of a message wrapped for one recipient
+export interface EncryptedMessageRecipient {
+  pastelid: string;
+  ephemeral_public_key: string;
+  iv: string;
+  wrapped_key: string;
+}
+
+export type EncryptedMessageKind = "message" | "key_statement";
+
+// What is carried in the message_body of an end-to-end encrypted message.
+// The outer message signature covers all of it.
+export interface EncryptedMessageEnvelope {
+  format: "pastel-e2e";
+  version: number;
+  kind: EncryptedMessageKind;
+  id: string;
+  from_pastelid: string;
+  to_pastelid: string;
+  timestamp: string;
+  sender_key_statement: EncryptionKeyStatement;
+  // Set on key statements asking for the recipient's statement in return
+  reply_requested: boolean;
+  // Empty for key statements, which carry no content
+  recipients: EncryptedMessageRecipient[];
+  iv: string;
+  ciphertext: string;
+}
+
+export type MessageVerificationStatus = "verified" | "invalid" | "unverified";
+
+// A received message after decryption and verification
+export interface OpenedUserMessage extends UserMessage {
+  kind: EncryptedMessageKind | "plaintext";
+  is_encrypted: boolean;
+  // The decrypted text, or the text of an unencrypted message
+  body: string | null;
+  reply_requested: boolean;
+  verification_status: MessageVerificationStatus;
+  verification_problems: string[];
+  decryption_error: string | null;
+}
+
+export type MessageDirection = "incoming" | "outgoing";
+
+// A message kept in the local archive, verified and decrypted once when it
+// was first seen
+export interface ArchivedUserMessage extends OpenedUserMessage {
+  // The PastelID of ours the message was sent or received with
+  owner_pastelid: string;
+  counterpart_pastelid: string;
+  direction: MessageDirection;
+  read_at_utc_iso_string: string | null;
+  archived_at_utc_iso_string: string;
+}
+
+export type MessageOutboxStatus = "pending" | "sent" | "failed";
+
+// A signed message waiting to reach the supernodes closest to its recipient
+export interface MessageOutboxEntry {
+  id: string;
+  user_message: UserMessage;
+  status: MessageOutboxStatus;
+  attempts: number;
+  delivered_supernode_urls: string[];
+  last_error: string | null;
+  next_attempt_at_utc_iso_string: string;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+export interface AddressBookEntry {
+  pastelid: string;
+  name: string;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+// The messages exchanged with one counterpart PastelID
+export interface MessageThread {
+  counterpart_pastelid: string;
+  // From the address book
+  name: string | null;
+  last_message: ArchivedUserMessage;
+  message_count: number;
+  unread_count: number;
+}
+
+export type AttachmentContentEncoding = "utf8" | "base64";
+
+// Describes a file sent as a series of messages, signed by the sender's
+// PastelID over every field but the signature
+export interface AttachmentManifest {
+  version: number;
+  attachment_id: string;
+  file_name: string;
+  mime_type: string;
+  // Binary files are carried as base64 text
+  content_encoding: AttachmentContentEncoding;
+  // Length of the content text before compression
+  content_length: number;
+  content_sha3_256_hash: string;
+  compression: "deflate";
+  chunk_count: number;
+  // Hashes of the base64 compressed chunks, in order
+  chunk_sha3_256_hashes: string[];
+  sender_pastelid: string;
+  recipient_pastelid: string;
+  created_at_utc_iso_string: string;
+  sender_signature: string;
+}
+
+// The text of one message of an attachment, encrypted like any other message
+export type AttachmentPart =
+  | {
+      format: "pastel-attachment";
+      version: number;
+      part: "manifest";
+      attachment_id: string;
+      manifest: AttachmentManifest;
+    }
+  | {
+      format: "pastel-attachment";
+      version: number;
+      part: "chunk";
+      attachment_id: string;
+      index: number;
+      data: string;
+    };
+
+export type AttachmentStatus = "incomplete" | "verified" | "invalid";
+
+// An attachment reassembled from the archived messages of a conversation
+export interface MessageAttachment {
+  attachment_id: string;
+  direction: MessageDirection;
+  counterpart_pastelid: string;
+  // Null until the manifest arrives
+  manifest: AttachmentManifest | null;
+  received_chunk_count: number;
+  status: AttachmentStatus;
+  problems: string[];
+}
+
+export interface AttachmentInput {
+  file_name: string;
+  mime_type: string;
+  content: string;
+  content_encoding: AttachmentContentEncoding;
+}
+
+export type PastelIDRegistrationStatus =
+  | "registered"
+  | "pending"
+  | "unregistered"
+  | "unknown";
+
+// previewed: built and awaiting confirmation of its fee; broadcast: sent and
+// awaiting its ticket; discarded: never sent; failed: the broadcast failed
+export type PastelIDRegistrationStage =
+  | "previewed"
+  | "broadcast"
+  | "registered"
+  | "discarded"
+  | "failed";
+
+// Progress of a PastelID registration started in this wallet
+export interface PastelIDRegistration {
+  pastelid: string;
+  funding_address: string;
+  preview_id: string;
+  txid: string;
+  stage: PastelIDRegistrationStage;
+  // Paid into the ticket outputs, on top of the transaction fee
+  ticket_cost_in_psl: number;
+  fee_in_psl: number;
+  check_count: number;
+  last_error: string | null;
+  last_checked_at_utc_iso_string: string | null;
+  broadcast_at_utc_iso_string: string | null;
+  registered_at_utc_iso_string: string | null;
+  created_at_utc_iso_string: string;
+  updated_at_utc_iso_string: string;
+}
+
+export type PastelIDCreditPackSource = "purchase" | "watched" | "ledger";
+
+// A credit pack some local record ties to a PastelID
+export interface PastelIDCreditPackReference {
+  // Empty for purchases whose ticket is not registered yet
+  credit_pack_ticket_txid: string;
+  credit_usage_tracking_psl_address: string;
+  source: PastelIDCreditPackSource;
+}
+
+export interface ManagedPastelID {
+  pastelid: string;
+  // False for PastelIDs only known from credit pack records, whose keys are
+  // missing from this wallet
+  is_local: boolean;
+  is_selected: boolean;
+  registration_status: PastelIDRegistrationStatus;
+  ticket: Record<string, unknown> | null;
+  registration: PastelIDRegistration | null;
+  has_stored_passphrase: boolean;
+  credit_packs: PastelIDCreditPackReference[];
+}
+
+// The keys of a PastelID encrypted with its passphrase, as exported to move
+// it to another wallet
+export interface PastelIDSecureContainerExport {
+  version: number;
+  pastelid: string;
+  network: string;
+  secure_container_base64: string;
+  exported_at_utc_iso_string: string;
+}
+
+// What an API key allows: read-only routes, inference and messaging, moving
+// funds, or everything including wallet and key management
+export type ApiScope = "read" | "infer" | "spend" | "admin";
+
+// An API key issued for a PastelID, without its secret, which is only
+// shown once when the key is issued
+export interface ApiKey {
+  id: string;
+  pastelid: string;
+  label: string;
+  scopes: ApiScope[];
+  created_at_utc_iso_string: string;
+  last_used_at_utc_iso_string: string | null;
+  revoked_at_utc_iso_string: string | null;
+}
+
+// Who a request to the API routes was authenticated as
+export interface ApiIdentity {
+  pastelid: string;
+  scopes: ApiScope[];
+  // The API key used, or null for a PastelID-signed token
+  api_key_id: string | null;
+}